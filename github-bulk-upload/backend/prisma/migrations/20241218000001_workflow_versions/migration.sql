@@ -0,0 +1,99 @@
+-- 工作流发布版本：发布后的步骤冻结为副本，执行记录改为引用版本步骤
+
+-- CreateTable
+CREATE TABLE "workflow_versions" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "snapshot" JSONB NOT NULL,
+    "changelog" TEXT,
+    "publishedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "workflow_version_steps" (
+    "id" TEXT NOT NULL,
+    "versionId" TEXT NOT NULL,
+    "sourceStepId" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "order" INTEGER NOT NULL,
+    "isRequired" BOOLEAN NOT NULL DEFAULT false,
+    "stepType" "StepType" NOT NULL DEFAULT 'CHECKLIST',
+    "estimatedTime" INTEGER,
+    "dependencies" TEXT[],
+    "conditions" JSONB,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_version_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "workflowVersionId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_versions_workflowId_version_key" ON "workflow_versions"("workflowId", "version");
+
+-- CreateIndex
+CREATE INDEX "workflow_version_steps_versionId_order_idx" ON "workflow_version_steps"("versionId", "order");
+
+-- CreateIndex
+CREATE INDEX "executions_workflowVersionId_idx" ON "executions"("workflowVersionId");
+
+-- 为已有工作流生成版本1，步骤副本沿用原步骤ID，使历史执行记录无需改写
+INSERT INTO "workflow_versions" ("id", "workflowId", "version", "name", "description", "snapshot", "changelog", "publishedBy", "createdAt")
+SELECT
+    'wfv_' || w."id",
+    w."id",
+    1,
+    w."name",
+    w."description",
+    jsonb_build_object('category', w."category", 'tags', w."tags", 'metadata', w."metadata"),
+    '初始版本',
+    w."userId",
+    CURRENT_TIMESTAMP
+FROM "workflows" w;
+
+INSERT INTO "workflow_version_steps" ("id", "versionId", "sourceStepId", "name", "description", "order", "isRequired", "stepType", "estimatedTime", "dependencies", "conditions", "metadata", "createdAt")
+SELECT
+    s."id",
+    'wfv_' || s."workflowId",
+    s."id",
+    s."name",
+    s."description",
+    s."order",
+    s."isRequired",
+    s."stepType",
+    s."estimatedTime",
+    s."dependencies",
+    s."conditions",
+    s."metadata",
+    CURRENT_TIMESTAMP
+FROM "workflow_steps" s;
+
+UPDATE "executions" SET "workflowVersionId" = 'wfv_' || "workflowId";
+
+-- workflows.version 表示最新发布的版本号，0 表示尚未发布
+UPDATE "workflows" SET "version" = 1;
+ALTER TABLE "workflows" ALTER COLUMN "version" SET DEFAULT 0;
+
+-- 执行记录改为引用版本步骤，删除草稿步骤不再级联删除历史记录
+ALTER TABLE "execution_records" DROP CONSTRAINT "execution_records_stepId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "execution_records" ADD CONSTRAINT "execution_records_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "workflow_version_steps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_versions" ADD CONSTRAINT "workflow_versions_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_version_steps" ADD CONSTRAINT "workflow_version_steps_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "workflow_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "executions" ADD CONSTRAINT "executions_workflowVersionId_fkey" FOREIGN KEY ("workflowVersionId") REFERENCES "workflow_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
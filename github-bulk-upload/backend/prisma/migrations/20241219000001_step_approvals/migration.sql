@@ -0,0 +1,29 @@
+-- 审批步骤的审批意见：每位审批人每轮一条，驳回后轮次加一
+
+-- CreateEnum
+CREATE TYPE "ApprovalDecision" AS ENUM ('APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "step_approvals" (
+    "id" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "approverId" TEXT NOT NULL,
+    "decision" "ApprovalDecision" NOT NULL,
+    "comment" TEXT,
+    "round" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "step_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "step_approvals_recordId_approverId_round_key" ON "step_approvals"("recordId", "approverId", "round");
+
+-- CreateIndex
+CREATE INDEX "step_approvals_approverId_idx" ON "step_approvals"("approverId");
+
+-- AddForeignKey
+ALTER TABLE "step_approvals" ADD CONSTRAINT "step_approvals_recordId_fkey" FOREIGN KEY ("recordId") REFERENCES "execution_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "step_approvals" ADD CONSTRAINT "step_approvals_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- 子流程步骤：子执行通过 parentRecordId 关联启动它的父步骤记录
+
+-- AlterEnum
+ALTER TYPE "StepType" ADD VALUE 'SUBWORKFLOW';
+
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "parentRecordId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "executions_parentRecordId_key" ON "executions"("parentRecordId");
+
+-- AddForeignKey
+ALTER TABLE "executions" ADD CONSTRAINT "executions_parentRecordId_fkey" FOREIGN KEY ("parentRecordId") REFERENCES "execution_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- 步骤时限和超时升级：步骤开始时记录截止时间，超时检测记录超时时间和已升级的级别
+-- executions."dueDate" 在初始迁移中已存在
+
+-- AlterTable
+ALTER TABLE "execution_records" ADD COLUMN "dueAt" TIMESTAMP(3),
+ADD COLUMN "overdueAt" TIMESTAMP(3),
+ADD COLUMN "escalationLevel" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "execution_records_status_dueAt_idx" ON "execution_records"("status", "dueAt");
@@ -0,0 +1,63 @@
+-- 定期执行计划：调度器按 nextRunAt 取出到期的计划，schedule_runs 的唯一索引保证同一计划时间只创建一次执行
+
+-- CreateEnum
+CREATE TYPE "ScheduleRunStatus" AS ENUM ('PENDING', 'CREATED', 'SKIPPED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "workflow_schedules" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "cron" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'Asia/Shanghai',
+    "priority" "Priority" NOT NULL DEFAULT 'MEDIUM',
+    "tags" TEXT[],
+    "variables" JSONB,
+    "dueAfterHours" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "skippedOccurrences" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "schedule_runs" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "status" "ScheduleRunStatus" NOT NULL DEFAULT 'PENDING',
+    "executionId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "schedule_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "workflow_schedules_isActive_nextRunAt_idx" ON "workflow_schedules"("isActive", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "workflow_schedules_workflowId_idx" ON "workflow_schedules"("workflowId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schedule_runs_scheduleId_scheduledFor_key" ON "schedule_runs"("scheduleId", "scheduledFor");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schedule_runs_executionId_key" ON "schedule_runs"("executionId");
+
+-- AddForeignKey
+ALTER TABLE "workflow_schedules" ADD CONSTRAINT "workflow_schedules_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_schedules" ADD CONSTRAINT "workflow_schedules_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_runs" ADD CONSTRAINT "schedule_runs_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "workflow_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_runs" ADD CONSTRAINT "schedule_runs_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "executions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- 执行参数：参数值同时保存在 executions.metadata 的 variables 中，这里单独存储以便按参数值筛选历史记录
+
+-- CreateTable
+CREATE TABLE "execution_parameters" (
+    "id" TEXT NOT NULL,
+    "executionId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+
+    CONSTRAINT "execution_parameters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "execution_parameters_executionId_key_key" ON "execution_parameters"("executionId", "key");
+
+-- CreateIndex
+CREATE INDEX "execution_parameters_key_value_idx" ON "execution_parameters"("key", "value");
+
+-- AddForeignKey
+ALTER TABLE "execution_parameters" ADD CONSTRAINT "execution_parameters_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
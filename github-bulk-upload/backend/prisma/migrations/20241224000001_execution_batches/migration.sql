@@ -0,0 +1,33 @@
+-- 执行批次：批量启动时同一批参数创建的执行归入一个批次，删除批次不删除其中的执行
+
+-- CreateTable
+CREATE TABLE "execution_batches" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" "Priority" NOT NULL DEFAULT 'MEDIUM',
+    "tags" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "execution_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "batchId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "execution_batches_userId_createdAt_idx" ON "execution_batches"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "executions_batchId_idx" ON "executions"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "execution_batches" ADD CONSTRAINT "execution_batches_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_batches" ADD CONSTRAINT "execution_batches_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "executions" ADD CONSTRAINT "executions_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "execution_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
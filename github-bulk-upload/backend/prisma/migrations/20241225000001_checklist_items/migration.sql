@@ -0,0 +1,66 @@
+-- 检查清单逐项勾选：每一项的勾选情况单独存储，步骤内的勾选比例计入执行进度
+
+-- AlterTable
+ALTER TABLE "execution_records" ADD COLUMN "progress" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "checklist_item_states" (
+    "id" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "itemKey" TEXT NOT NULL,
+    "checked" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "attachmentId" TEXT,
+    "checkedAt" TIMESTAMP(3),
+    "checkedBy" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "checklist_item_states_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checklist_item_states_recordId_itemKey_key" ON "checklist_item_states"("recordId", "itemKey");
+
+-- AddForeignKey
+ALTER TABLE "checklist_item_states" ADD CONSTRAINT "checklist_item_states_recordId_fkey" FOREIGN KEY ("recordId") REFERENCES "execution_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "checklist_item_states" ADD CONSTRAINT "checklist_item_states_attachmentId_fkey" FOREIGN KEY ("attachmentId") REFERENCES "attachments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "checklist_item_states" ADD CONSTRAINT "checklist_item_states_checkedBy_fkey" FOREIGN KEY ("checkedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- 执行进度：已完成的步骤计 1，进行中的步骤按步骤内进度计入部分
+-- （局部变量改名，原函数中 SET progress = progress 与列名冲突）
+CREATE OR REPLACE FUNCTION calculate_execution_progress(execution_id TEXT)
+RETURNS FLOAT AS $$
+DECLARE
+  total_steps INTEGER;
+  completed_weight FLOAT;
+  new_progress FLOAT;
+BEGIN
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(CASE
+      WHEN status = 'COMPLETED' THEN 1
+      WHEN status = 'IN_PROGRESS' THEN LEAST(GREATEST("progress", 0), 100) / 100
+      ELSE 0
+    END), 0)
+  INTO total_steps, completed_weight
+  FROM "execution_records"
+  WHERE "executionId" = execution_id;
+
+  IF total_steps = 0 THEN
+    RETURN 0;
+  END IF;
+
+  new_progress := (completed_weight / total_steps::FLOAT) * 100;
+
+  -- 更新执行记录的进度
+  UPDATE "executions"
+  SET "progress" = new_progress
+  WHERE id = execution_id;
+
+  RETURN new_progress;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,30 @@
+-- 重新打开步骤：已完成或已跳过的步骤重新进入进行中前，保存之前的状态和结果
+
+-- CreateTable
+CREATE TABLE "step_revisions" (
+    "id" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "notes" TEXT,
+    "data" TEXT,
+    "result" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "actualTime" INTEGER,
+    "reason" TEXT NOT NULL,
+    "reopenedBy" TEXT NOT NULL,
+    "cascadeFromId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "step_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "step_revisions_recordId_revision_key" ON "step_revisions"("recordId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "step_revisions" ADD CONSTRAINT "step_revisions_recordId_fkey" FOREIGN KEY ("recordId") REFERENCES "execution_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "step_revisions" ADD CONSTRAINT "step_revisions_reopenedBy_fkey" FOREIGN KEY ("reopenedBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
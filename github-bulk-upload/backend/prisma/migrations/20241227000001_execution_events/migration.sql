@@ -0,0 +1,29 @@
+-- 执行事件日志：执行和步骤的每次修改追加一条记录，包含操作人、修改前后的值和原因
+
+-- CreateTable
+CREATE TABLE "execution_events" (
+    "id" TEXT NOT NULL,
+    "executionId" TEXT NOT NULL,
+    "recordId" TEXT,
+    "actorId" TEXT,
+    "type" TEXT NOT NULL,
+    "action" TEXT,
+    "before" TEXT,
+    "after" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "execution_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "execution_events_executionId_createdAt_idx" ON "execution_events"("executionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "execution_events" ADD CONSTRAINT "execution_events_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_events" ADD CONSTRAINT "execution_events_recordId_fkey" FOREIGN KEY ("recordId") REFERENCES "execution_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_events" ADD CONSTRAINT "execution_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- 执行参与者和步骤分配：发起人可以邀请查看者和协作者，并将步骤分配给具体成员
+
+-- AlterTable
+ALTER TABLE "execution_records" ADD COLUMN "assigneeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "execution_participants" (
+    "id" TEXT NOT NULL,
+    "executionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'CONTRIBUTOR',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "execution_participants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "execution_participants_executionId_userId_key" ON "execution_participants"("executionId", "userId");
+
+-- CreateIndex
+CREATE INDEX "execution_participants_userId_idx" ON "execution_participants"("userId");
+
+-- CreateIndex
+CREATE INDEX "execution_records_assigneeId_status_idx" ON "execution_records"("assigneeId", "status");
+
+-- AddForeignKey
+ALTER TABLE "execution_records" ADD CONSTRAINT "execution_records_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_participants" ADD CONSTRAINT "execution_participants_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_participants" ADD CONSTRAINT "execution_participants_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
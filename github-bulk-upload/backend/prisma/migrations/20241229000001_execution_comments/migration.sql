@@ -0,0 +1,79 @@
+-- 执行评论：针对执行或步骤的讨论串，支持 @提及、修改历史和标记已解决
+
+-- CreateTable
+CREATE TABLE "execution_comments" (
+    "id" TEXT NOT NULL,
+    "executionId" TEXT NOT NULL,
+    "recordId" TEXT,
+    "parentId" TEXT,
+    "authorId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "editedAt" TIMESTAMP(3),
+    "deletedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "execution_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "execution_comment_mentions" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "execution_comment_mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "execution_comment_revisions" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "editedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "execution_comment_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "execution_comments_executionId_createdAt_idx" ON "execution_comments"("executionId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "execution_comment_mentions_commentId_userId_key" ON "execution_comment_mentions"("commentId", "userId");
+
+-- CreateIndex
+CREATE INDEX "execution_comment_mentions_userId_idx" ON "execution_comment_mentions"("userId");
+
+-- CreateIndex
+CREATE INDEX "execution_comment_revisions_commentId_idx" ON "execution_comment_revisions"("commentId");
+
+-- AddForeignKey
+ALTER TABLE "execution_comments" ADD CONSTRAINT "execution_comments_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_comments" ADD CONSTRAINT "execution_comments_recordId_fkey" FOREIGN KEY ("recordId") REFERENCES "execution_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_comments" ADD CONSTRAINT "execution_comments_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "execution_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_comments" ADD CONSTRAINT "execution_comments_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_comments" ADD CONSTRAINT "execution_comments_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_comment_mentions" ADD CONSTRAINT "execution_comment_mentions_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "execution_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_comment_mentions" ADD CONSTRAINT "execution_comment_mentions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_comment_revisions" ADD CONSTRAINT "execution_comment_revisions_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "execution_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "execution_comment_revisions" ADD CONSTRAINT "execution_comment_revisions_editedById_fkey" FOREIGN KEY ("editedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
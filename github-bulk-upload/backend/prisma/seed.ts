@@ -1,8 +1,71 @@
 import { PrismaClient, UserRole, WorkflowStatus, StepType, Priority } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { resolveDependencies } from '../src/utils/dependencies';
+import { remapConditions, remapDependencies } from '../src/utils/workflowVersions';
 
 const prisma = new PrismaClient();
 
+// 将种子数据中以顺序号书写的依赖解析为步骤ID
+async function normalizeStepDependencies(workflowId: string) {
+  const steps = await prisma.workflowStep.findMany({ where: { workflowId } });
+  const resolved = resolveDependencies(steps);
+
+  for (const step of steps) {
+    const ids = resolved.get(step.id) || [];
+    await prisma.workflowStep.update({
+      where: { id: step.id },
+      data: { dependencies: ids.length > 0 ? JSON.stringify(ids) : null }
+    });
+  }
+}
+
+// 发布模板的第一个版本，返回版本及其冻结的步骤
+async function publishFirstVersion(workflowId: string, userId: string) {
+  const workflow = await prisma.workflow.findUniqueOrThrow({
+    where: { id: workflowId },
+    include: { steps: { orderBy: { order: 'asc' } } }
+  });
+
+  const version = await prisma.workflowVersion.create({
+    data: {
+      workflowId,
+      version: 1,
+      name: workflow.name,
+      description: workflow.description,
+      snapshot: JSON.stringify({ category: workflow.category, tags: workflow.tags, metadata: workflow.metadata }),
+      changelog: '初始版本',
+      publishedBy: userId
+    }
+  });
+
+  const idMap = new Map<string, string>();
+  for (const { id, workflowId: _, createdAt, updatedAt, ...stepData } of workflow.steps) {
+    const copy = await prisma.workflowVersionStep.create({
+      data: { ...stepData, versionId: version.id, sourceStepId: id, dependencies: null, conditions: null }
+    });
+    idMap.set(id, copy.id);
+  }
+
+  for (const step of workflow.steps) {
+    const dependencies = remapDependencies(step.dependencies, idMap);
+    const conditions = remapConditions(step.conditions, idMap);
+    await prisma.workflowVersionStep.update({
+      where: { id: idMap.get(step.id)! },
+      data: {
+        dependencies: dependencies.length > 0 ? JSON.stringify(dependencies) : null,
+        conditions: conditions ? JSON.stringify(conditions) : null
+      }
+    });
+  }
+
+  await prisma.workflow.update({ where: { id: workflowId }, data: { version: 1 } });
+
+  return prisma.workflowVersion.findUniqueOrThrow({
+    where: { id: version.id },
+    include: { steps: { orderBy: { order: 'asc' } } }
+  });
+}
+
 async function main() {
   console.log('开始数据库种子数据初始化...');
 
@@ -55,6 +118,58 @@ async function main() {
     },
   });
 
+  // 创建可复用的风险评估流程，供其他流程作为子流程引用
+  const riskAssessmentWorkflow = await prisma.workflow.create({
+    data: {
+      userId: testUser.id,
+      name: '风险评估流程',
+      description: '识别和评级投资风险，可作为子流程在多个投资流程中复用',
+      category: '风险管理',
+      tags: ['风险', '子流程'],
+      status: WorkflowStatus.ACTIVE,
+      steps: {
+        create: [
+          {
+            name: '风险识别',
+            description: '逐项识别投资标的面临的风险',
+            order: 1,
+            isRequired: true,
+            stepType: StepType.CHECKLIST,
+            estimatedTime: 30,
+            metadata: {
+              checklist: [
+                '行业风险',
+                '公司风险',
+                '市场风险',
+                '流动性风险',
+                '政策风险'
+              ]
+            }
+          },
+          {
+            name: '风险评级',
+            description: '综合识别结果给出风险等级',
+            order: 2,
+            isRequired: true,
+            stepType: StepType.INPUT,
+            estimatedTime: 15,
+            dependencies: ['1'],
+            metadata: {
+              fields: [
+                { key: 'riskLevel', label: '风险等级', type: 'select', required: true, options: ['低', '中', '高'] },
+                { key: 'riskNotes', label: '主要风险', type: 'textarea' }
+              ]
+            }
+          }
+        ]
+      }
+    }
+  });
+
+  await normalizeStepDependencies(riskAssessmentWorkflow.id);
+  await publishFirstVersion(riskAssessmentWorkflow.id, testUser.id);
+  console.log('创建风险评估子流程:', riskAssessmentWorkflow.name);
+
   // 创建示例投资流程模板
   const stockAnalysisWorkflow = await prisma.workflow.create({
     data: {
@@ -111,29 +226,52 @@ async function main() {
             estimatedTime: 90,
             dependencies: ['1'],
             metadata: {
+              fields: [
+                { key: 'currentPrice', label: '当前股价', type: 'currency', required: true, min: 0, currency: 'CNY' },
+                { key: 'eps', label: '每股收益', type: 'currency', required: true, currency: 'CNY' },
+                { key: 'targetPE', label: '目标市盈率', type: 'number', required: true, min: 0 },
+                { key: 'bvps', label: '每股净资产', type: 'currency', required: true, currency: 'CNY' },
+                { key: 'targetPB', label: '目标市净率', type: 'number', required: true, min: 0 },
+                { key: 'fcfPerShare', label: '每股自由现金流', type: 'currency', required: true, currency: 'CNY' },
+                { key: 'growthRate', label: '预测期增长率', type: 'percentage', required: true, min: -50, max: 100 },
+                { key: 'discountRate', label: '折现率', type: 'percentage', required: true, min: 0, max: 50 },
+                { key: 'terminalGrowth', label: '永续增长率', type: 'percentage', required: true, min: -10, max: 10 }
+              ],
               calculations: [
-                'PE估值',
-                'PB估值',
-                'DCF估值',
-                '相对估值'
-              ]
+                { key: 'peValue', label: 'PE估值', formula: 'eps * targetPE', unit: '元', precision: 2 },
+                { key: 'pbValue', label: 'PB估值', formula: 'bvps * targetPB', unit: '元', precision: 2 },
+                { key: 'dcfValue', label: 'DCF估值', formula: 'dcf(fcfPerShare, growthRate / 100, discountRate / 100, terminalGrowth / 100, 5)', unit: '元', precision: 2 },
+                { key: 'relativeValue', label: '相对估值', formula: 'avg(peValue, pbValue, dcfValue)', unit: '元', precision: 2 },
+                { key: 'upside', label: '上涨空间', formula: '(relativeValue - currentPrice) / currentPrice * 100', unit: '%', precision: 1 }
+              ],
+              valuation: {
+                methods: ['dcf', 'multiples'],
+                defaults: {
+                  dcf: {
+                    stages: [{ years: 5, growth: 0.1 }, { years: 5, growth: 0.05 }],
+                    discountRate: 0.1,
+                    terminalMethod: 'perpetuity',
+                    terminalGrowth: 0.03
+                  }
+                }
+              }
             }
           },
           {
             name: '风险评估',
-            description: '识别和评估投资风险',
+            description: '启动风险评估子流程，完成后带回风险等级',
             order: 4,
             isRequired: true,
-            stepType: StepType.CHECKLIST,
+            stepType: StepType.SUBWORKFLOW,
             estimatedTime: 45,
             metadata: {
-              risks: [
-                '行业风险',
-                '公司风险',
-                '市场风险',
-                '流动性风险',
-                '政策风险'
-              ]
+              subworkflow: {
+                workflowId: riskAssessmentWorkflow.id,
+                outputs: {
+                  riskLevel: 'riskLevel',
+                  riskNotes: 'riskNotes'
+                }
+              }
             }
           },
           {
@@ -153,6 +291,70 @@ async function main() {
                 '仓位大小'
               ]
             }
+          },
+          {
+            name: '仓位管理',
+            description: '确定仓位大小和风险敞口（选择观望时自动跳过）',
+            order: 6,
+            isRequired: true,
+            stepType: StepType.INPUT,
+            estimatedTime: 20,
+            dependencies: ['5'],
+            conditions: {
+              rules: [
+                { step: '5', field: 'decision', operator: 'notIn', value: ['观望'] }
+              ]
+            },
+            metadata: {
+              fields: [
+                { key: 'ticker', label: '股票代码', type: 'ticker', required: true },
+                { key: 'positionRatio', label: '仓位比例', type: 'percentage', required: true, min: 0, max: 30 },
+                { key: 'stopLossPrice', label: '止损价位', type: 'currency', required: true, min: 0, currency: 'CNY' },
+                { key: 'maxLoss', label: '最大亏损额', type: 'currency', min: 0, currency: 'CNY' },
+                { key: 'reviewDate', label: '复查日期', type: 'date' },
+                { key: 'rationale', label: '仓位理由', type: 'textarea', max: 500 }
+              ]
+            }
+          },
+          {
+            name: '下单计划',
+            description: '制定分批建仓计划（仅在决定买入时执行）',
+            order: 7,
+            isRequired: true,
+            stepType: StepType.CHECKLIST,
+            estimatedTime: 15,
+            dependencies: ['5'],
+            conditions: {
+              rules: [
+                { step: '5', field: 'decision', operator: 'eq', value: '买入' }
+              ]
+            },
+            metadata: {
+              checklist: [
+                '确定建仓价格区间',
+                '设置分批买入比例',
+                '设置止损止盈单'
+              ]
+            }
+          },
+          {
+            name: '通知交易团队',
+            description: '下单计划完成后自动发送交易通知（仅在决定买入时执行）',
+            order: 8,
+            isRequired: false,
+            stepType: StepType.NOTIFICATION,
+            dependencies: ['7'],
+            conditions: {
+              rules: [
+                { step: '5', field: 'decision', operator: 'eq', value: '买入' }
+              ]
+            },
+            metadata: {
+              notification: {
+                title: '{{workflow.name}}：{{ticker}} 交易通知',
+                template: '{{ticker}} 决策：{{decision}}，仓位 {{positionRatio}}%，止损价 {{stopLossPrice}}'
+              }
+            }
           }
         ]
       }
@@ -162,6 +364,8 @@ async function main() {
     }
   });
 
+  await normalizeStepDependencies(stockAnalysisWorkflow.id);
+  const stockAnalysisVersion = await publishFirstVersion(stockAnalysisWorkflow.id, testUser.id);
   console.log('创建股票分析流程模板:', stockAnalysisWorkflow.name);
 
   // 创建房地产投资流程模板
@@ -242,7 +446,21 @@ async function main() {
                 '资本增值预期',
                 '总投资回报率',
                 '现金流分析'
-              ]
+              ],
+              propertyModel: {
+                required: true,
+                defaults: {
+                  closingCosts: 0,
+                  loan: { ltv: 0.6, interestRate: 0.045, amortizationYears: 30 },
+                  rentGrowth: 0.02,
+                  vacancyRate: 0.05,
+                  expenseGrowth: 0.02,
+                  holdingPeriod: 10,
+                  exitCapRate: 0.05,
+                  sellingCostRate: 0.02,
+                  discountRate: 0.08
+                }
+              }
             }
           },
           {
@@ -255,6 +473,12 @@ async function main() {
             dependencies: ['1', '2', '3', '4'],
             metadata: {
               options: ['购买', '继续观察', '放弃'],
+              criteria: [
+                { label: '杠杆IRR不低于8%', step: '4', field: 'property.irr', operator: 'gte', value: 0.08 },
+                { label: 'NPV为正', step: '4', field: 'property.npv', operator: 'gt', value: 0 },
+                { label: '最低DSCR不低于1.25', step: '4', field: 'property.minDscr', operator: 'gte', value: 1.25 },
+                { label: '平均现金回报率不低于4%', step: '4', field: 'property.averageCashOnCash', operator: 'gte', value: 0.04 }
+              ],
               factors: [
                 '预期收益',
                 '风险水平',
@@ -262,6 +486,27 @@ async function main() {
                 '持有期限'
               ]
             }
+          },
+          {
+            name: '投资委员会审批',
+            description: '决定购买后提交投资委员会审批，驳回时退回财务分析（选择购买时执行）',
+            order: 6,
+            isRequired: true,
+            stepType: StepType.APPROVAL,
+            estimatedTime: 60,
+            dependencies: ['5'],
+            conditions: {
+              rules: [
+                { step: '5', field: 'decision', operator: 'eq', value: '购买' }
+              ]
+            },
+            metadata: {
+              approval: {
+                approvers: { role: UserRole.ADMIN },
+                quorum: 'any',
+                rejectTo: 4
+              }
+            }
           }
         ]
       }
@@ -271,6 +516,8 @@ async function main() {
     }
   });
 
+  await normalizeStepDependencies(realEstateWorkflow.id);
+  await publishFirstVersion(realEstateWorkflow.id, testUser.id);
   console.log('创建房地产投资流程模板:', realEstateWorkflow.name);
 
   // 创建示例执行记录
@@ -278,6 +525,7 @@ async function main() {
     data: {
       userId: testUser.id,
       workflowId: stockAnalysisWorkflow.id,
+      workflowVersionId: stockAnalysisVersion.id,
       title: '分析腾讯控股(00700.HK)',
       status: 'COMPLETED',
       priority: Priority.HIGH,
@@ -294,13 +542,8 @@ async function main() {
     }
   });
 
-  // 为执行记录创建步骤记录
-  const steps = await prisma.workflowStep.findMany({
-    where: { workflowId: stockAnalysisWorkflow.id },
-    orderBy: { order: 'asc' }
-  });
-
-  for (const step of steps) {
+  // 为执行记录创建步骤记录（引用版本中冻结的步骤）
+  for (const step of stockAnalysisVersion.steps) {
     await prisma.executionRecord.create({
       data: {
         executionId: execution.id,
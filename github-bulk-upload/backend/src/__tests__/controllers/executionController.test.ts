@@ -146,7 +146,6 @@ describe('ExecutionController', () => {
         userId: 'test-user-id',
         status: ExecutionStatus.IN_PROGRESS
       });
-      MockExecutionModel.pause.mockResolvedValue(mockExecution);
 
       const response = await request(app)
         .post('/executions/execution-id/pause')
@@ -1,13 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import ExecutionModel, { ExecutionRecordModel } from '../models/Execution';
-import WorkflowModel from '../models/Workflow';
+import WorkflowModel, { WorkflowVersionModel } from '../models/Workflow';
 import UserModel from '../models/User';
+import { ExecutionService } from '../services/executionService';
 import { setupTestDatabase, cleanupTestDatabase } from './helpers/database';
 import { ExecutionStatus, ExecutionPriority, ExecutionRecordStatus } from '../types/models';
+import { INVALID_TRANSITION } from '../utils/stateMachine';
 
 describe('Execution Model', () => {
   let testUserId: string;
   let testWorkflowId: string;
+  let executionService: ExecutionService;
 
   beforeEach(async () => {
     await setupTestDatabase();
@@ -48,6 +51,10 @@ describe('Execution Model', () => {
       ]
     });
     testWorkflowId = workflow.id;
+
+    // 执行固定在已发布的版本上，状态修改都通过执行服务
+    await WorkflowVersionModel.publish(testWorkflowId, testUserId);
+    executionService = new ExecutionService();
   });
 
   afterEach(async () => {
@@ -140,40 +147,61 @@ describe('Execution Model', () => {
     let testExecutionId: string;
 
     beforeEach(async () => {
-      const execution = await ExecutionModel.create(testUserId, {
-        workflowId: testWorkflowId,
-        title: '测试执行'
-      });
+      const execution = await executionService.startExecution(testUserId, testWorkflowId);
       testExecutionId = execution.id;
     });
 
     it('应该能暂停执行', async () => {
-      const execution = await ExecutionModel.pause(testExecutionId);
-      
+      const execution = await executionService.pauseExecution(testExecutionId, testUserId);
+
       expect(execution.status).toBe(ExecutionStatus.PAUSED);
-      expect(execution.pausedAt).toBeDefined();
     });
 
     it('应该能恢复执行', async () => {
-      await ExecutionModel.pause(testExecutionId);
-      const execution = await ExecutionModel.resume(testExecutionId);
-      
+      await executionService.pauseExecution(testExecutionId, testUserId);
+      const execution = await executionService.resumeExecution(testExecutionId, testUserId);
+
       expect(execution.status).toBe(ExecutionStatus.IN_PROGRESS);
-      expect(execution.resumedAt).toBeDefined();
     });
 
     it('应该能完成执行', async () => {
-      const execution = await ExecutionModel.complete(testExecutionId);
-      
-      expect(execution.status).toBe(ExecutionStatus.COMPLETED);
-      expect(execution.completedAt).toBeDefined();
+      // 还有必需步骤未完成时不能完成执行
+      await expect(executionService.completeExecution(testExecutionId, testUserId))
+        .rejects.toThrow('还有 2 个必需步骤未完成');
+
+      const records = await ExecutionRecordModel.findByExecutionId(testExecutionId);
+      for (const record of records) {
+        await executionService.startStep(testExecutionId, record.id, testUserId);
+        await executionService.completeStep(testExecutionId, record.id, testUserId, { notes: '完成' });
+      }
+
+      // 必需步骤全部完成后执行自动完成
+      const execution = await ExecutionModel.findById(testExecutionId);
+      expect(execution!.status).toBe(ExecutionStatus.COMPLETED);
+      expect(execution!.completedAt).toBeDefined();
     });
 
     it('应该能取消执行', async () => {
-      const execution = await ExecutionModel.cancel(testExecutionId);
-      
+      const execution = await executionService.cancelExecution(testExecutionId, testUserId, '不再需要');
+
       expect(execution.status).toBe(ExecutionStatus.CANCELLED);
-      expect(execution.cancelledAt).toBeDefined();
+    });
+
+    it('恢复未暂停的执行应该返回 INVALID_TRANSITION', async () => {
+      await expect(executionService.resumeExecution(testExecutionId, testUserId))
+        .rejects.toMatchObject({
+          code: INVALID_TRANSITION,
+          details: { entity: 'execution', action: 'resume', from: ExecutionStatus.IN_PROGRESS }
+        });
+    });
+
+    it('已取消的执行不能再暂停或完成', async () => {
+      await executionService.cancelExecution(testExecutionId, testUserId);
+
+      await expect(executionService.pauseExecution(testExecutionId, testUserId))
+        .rejects.toMatchObject({ code: INVALID_TRANSITION });
+      await expect(executionService.completeExecution(testExecutionId, testUserId))
+        .rejects.toMatchObject({ code: INVALID_TRANSITION });
     });
   });
 
@@ -182,10 +210,7 @@ describe('Execution Model', () => {
     let testRecordId: string;
 
     beforeEach(async () => {
-      const execution = await ExecutionModel.create(testUserId, {
-        workflowId: testWorkflowId,
-        title: '测试执行'
-      });
+      const execution = await executionService.startExecution(testUserId, testWorkflowId);
       testExecutionId = execution.id;
 
       const records = await ExecutionRecordModel.findByExecutionId(testExecutionId);
@@ -193,40 +218,70 @@ describe('Execution Model', () => {
     });
 
     it('应该能开始执行步骤', async () => {
-      const record = await ExecutionRecordModel.start(testRecordId);
-      
+      const record = await executionService.startStep(testExecutionId, testRecordId, testUserId);
+
       expect(record.status).toBe(ExecutionRecordStatus.IN_PROGRESS);
       expect(record.startedAt).toBeDefined();
     });
 
     it('应该能完成执行步骤', async () => {
-      await ExecutionRecordModel.start(testRecordId);
-      const record = await ExecutionRecordModel.complete(testRecordId, {
+      await executionService.startStep(testExecutionId, testRecordId, testUserId);
+      const record = await executionService.completeStep(testExecutionId, testRecordId, testUserId, {
         notes: '步骤完成',
         result: { success: true }
       });
-      
+
       expect(record.status).toBe(ExecutionRecordStatus.COMPLETED);
       expect(record.completedAt).toBeDefined();
       expect(record.notes).toBe('步骤完成');
-      expect(record.result).toEqual({ success: true });
     });
 
     it('应该能跳过执行步骤', async () => {
-      const record = await ExecutionRecordModel.skip(testRecordId, '不需要执行');
-      
+      const record = await executionService.skipStep(testExecutionId, testRecordId, testUserId, '不需要执行');
+
       expect(record.status).toBe(ExecutionRecordStatus.SKIPPED);
-      expect(record.skippedAt).toBeDefined();
-      expect(record.skipReason).toBe('不需要执行');
+      expect(record.completedAt).toBeDefined();
+      expect(record.notes).toBe('不需要执行');
     });
 
     it('应该能标记步骤失败', async () => {
-      await ExecutionRecordModel.start(testRecordId);
-      const record = await ExecutionRecordModel.fail(testRecordId, '执行失败');
-      
+      await executionService.startStep(testExecutionId, testRecordId, testUserId);
+      const record = await executionService.failStep(testExecutionId, testRecordId, testUserId, '执行失败');
+
       expect(record.status).toBe(ExecutionRecordStatus.FAILED);
-      expect(record.failedAt).toBeDefined();
-      expect(record.failureReason).toBe('执行失败');
+      expect(record.completedAt).toBeDefined();
+      expect(record.notes).toBe('执行失败');
+    });
+
+    it('完成未开始的步骤应该返回 INVALID_TRANSITION', async () => {
+      await expect(executionService.completeStep(testExecutionId, testRecordId, testUserId, { notes: '完成' }))
+        .rejects.toMatchObject({
+          code: INVALID_TRANSITION,
+          details: { entity: 'step', action: 'complete', from: ExecutionRecordStatus.PENDING }
+        });
+    });
+
+    it('已取消执行中的步骤不能开始', async () => {
+      await executionService.cancelExecution(testExecutionId, testUserId);
+
+      await expect(executionService.startStep(testExecutionId, testRecordId, testUserId))
+        .rejects.toMatchObject({ code: INVALID_TRANSITION });
+    });
+  });
+
+  describe('步骤依赖', () => {
+    let testExecutionId: string;
+    let testRecordId: string;
+
+    beforeEach(async () => {
+      const execution = await ExecutionModel.create(testUserId, {
+        workflowId: testWorkflowId,
+        title: '测试执行'
+      });
+      testExecutionId = execution.id;
+
+      const records = await ExecutionRecordModel.findByExecutionId(testExecutionId);
+      testRecordId = records[0].id;
     });
 
     it('应该检查步骤依赖', async () => {
@@ -238,8 +293,8 @@ describe('Execution Model', () => {
       expect(canStart).toBe(false);
 
       // 完成步骤1后，步骤2可以开始
-      await ExecutionRecordModel.start(testRecordId);
-      await ExecutionRecordModel.complete(testRecordId, { notes: '完成' });
+      await executionService.startStep(testExecutionId, testRecordId, testUserId);
+      await executionService.completeStep(testExecutionId, testRecordId, testUserId, { notes: '完成' });
       
       const canStartAfter = await ExecutionRecordModel.checkDependencies(step2Record!.id);
       expect(canStartAfter).toBe(true);
@@ -261,8 +316,8 @@ describe('Execution Model', () => {
       const records = await ExecutionRecordModel.findByExecutionId(testExecutionId);
       
       // 完成第一个步骤
-      await ExecutionRecordModel.start(records[0].id);
-      await ExecutionRecordModel.complete(records[0].id, { notes: '完成' });
+      await executionService.startStep(testExecutionId, records[0].id, testUserId);
+      await executionService.completeStep(testExecutionId, records[0].id, testUserId, { notes: '完成' });
       
       const progress = await ExecutionModel.updateProgress(testExecutionId);
       expect(progress).toBe(50); // 2个步骤完成1个，进度50%
@@ -286,8 +341,7 @@ describe('Execution Model', () => {
     });
 
     it('应该能获取进行中的执行记录', async () => {
-      await ExecutionModel.update(testExecutionId, { status: ExecutionStatus.IN_PROGRESS });
-      
+      // 新建的执行默认处于进行中
       const executions = await ExecutionModel.getInProgress(testUserId);
       
       expect(executions).toHaveLength(1);
@@ -2,8 +2,8 @@ import request from 'supertest';
 import app from '../index';
 import { setupTestDatabase, cleanupTestDatabase } from './helpers/database';
 import UserModel from '../models/User';
-import WorkflowModel from '../models/Workflow';
-import ExecutionModel from '../models/Execution';
+import WorkflowModel, { WorkflowVersionModel } from '../models/Workflow';
+import { ExecutionService } from '../services/executionService';
 
 describe('Review API Tests', () => {
   let authToken: string;
@@ -52,16 +52,16 @@ describe('Review API Tests', () => {
     });
     workflowId = workflow.id;
 
-    // 创建测试执行记录
-    const execution = await ExecutionModel.create(userId, {
-      workflowId: workflowId,
-      title: '测试执行记录',
-      description: '用于复盘测试'
-    });
+    // 发布工作流后通过执行服务创建测试执行记录
+    await WorkflowVersionModel.publish(workflowId, userId);
+    const executionService = new ExecutionService();
+    const execution = await executionService.startExecution(userId, workflowId);
     executionId = execution.id;
 
-    // 完成执行记录以便进行复盘
-    await ExecutionModel.complete(executionId);
+    // 完成所有必需步骤，执行随之自动完成，以便进行复盘
+    const [record] = execution.executionRecords!;
+    await executionService.startStep(executionId, record.id, userId);
+    await executionService.completeStep(executionId, record.id, userId, { notes: '完成' });
   });
 
   afterAll(async () => {
@@ -0,0 +1,156 @@
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('../../middleware/auth', () => ({
+  authenticateToken: jest.fn((req: any, res: any, next: any) => {
+    req.user = { userId: 'user1', email: 'user1@example.com', role: 'USER' };
+    next();
+  })
+}));
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    execution: { findMany: jest.fn(), findFirst: jest.fn(), updateMany: jest.fn() },
+    executionRecord: { findFirst: jest.fn(), findMany: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn() }
+  },
+  testDatabaseConnection: jest.fn(),
+  isDatabaseReady: jest.fn(() => true)
+}));
+
+describe('execution routes', () => {
+  let executionRoutes: any;
+  let routes: any[];
+
+  beforeAll(() => {
+    // 告警和统计模块加载时会启动定时任务，使用假定时器避免测试进程无法退出
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    executionRoutes = require('../../routes/executions').default;
+    routes = executionRoutes.stack
+      .filter((layer: any) => layer.route)
+      .map((layer: any) => layer.route);
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('should bind every route to a controller handler', () => {
+    expect(routes.length).toBeGreaterThan(0);
+    for (const route of routes) {
+      for (const layer of route.stack) {
+        expect(typeof layer.handle).toBe('function');
+      }
+    }
+  });
+
+  it('should register the list and record endpoints used by the frontend', () => {
+    const paths = routes.map((route: any) => `${Object.keys(route.methods)[0].toUpperCase()} ${route.path}`);
+
+    expect(paths).toEqual(expect.arrayContaining([
+      'GET /',
+      'GET /recent',
+      'GET /in-progress',
+      'GET /upcoming',
+      'PUT /:id',
+      'GET /:id/records',
+      'GET /:id/next-step',
+      'PUT /:id/progress',
+      'PUT /:executionId/records/:recordId'
+    ]));
+  });
+
+  it('should serve GET /api/executions/upcoming instead of treating it as an execution id', async () => {
+    const prisma = require('../../config/database').default;
+    const now = Date.now();
+    prisma.execution.findMany.mockResolvedValue([
+      { id: 'e1', status: 'IN_PROGRESS', dueDate: new Date(now - 60 * 60 * 1000), workflow: { id: 'w1', name: '尽调' } },
+      { id: 'e2', status: 'PAUSED', dueDate: new Date(now + 24 * 60 * 60 * 1000), workflow: { id: 'w1', name: '尽调' } }
+    ]);
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/executions', executionRoutes);
+
+    const response = await request(app).get('/api/executions/upcoming?days=3').expect(200);
+
+    expect(response.body.success).toBe(true);
+    expect(response.body.data.map((execution: any) => [execution.id, execution.isOverdue])).toEqual([
+      ['e1', true],
+      ['e2', false]
+    ]);
+
+    const query = prisma.execution.findMany.mock.calls[0][0];
+    expect(query.where.status).toEqual({ in: ['IN_PROGRESS', 'PAUSED'] });
+    expect(query.where.dueDate.lte.getTime()).toBeGreaterThan(now + 2.9 * 24 * 60 * 60 * 1000);
+    expect(query.where.dueDate.lte.getTime()).toBeLessThan(now + 3.1 * 24 * 60 * 60 * 1000);
+    expect(query.orderBy).toEqual({ dueDate: 'asc' });
+  });
+
+  it('should return the first ready step by order from GET /api/executions/:id/next-step', async () => {
+    const prisma = require('../../config/database').default;
+    prisma.execution.findFirst.mockResolvedValue({ id: 'e1', userId: 'user1', status: 'IN_PROGRESS', participants: [] });
+    prisma.executionRecord.findFirst.mockResolvedValue(null);
+    prisma.executionRecord.findMany.mockResolvedValue([
+      { id: 'r3', stepId: 's3', status: 'PENDING', step: { name: '估值', order: 3, dependencies: '["s1"]' } },
+      { id: 'r2', stepId: 's2', status: 'PENDING', step: { name: '行业研究', order: 2, dependencies: null } },
+      { id: 'r1', stepId: 's1', status: 'COMPLETED', step: { name: '收集资料', order: 1, dependencies: null } }
+    ]);
+    prisma.executionRecord.findUnique.mockResolvedValue({
+      id: 'r2',
+      status: 'PENDING',
+      data: null,
+      result: '{"score":1}',
+      step: { name: '行业研究', order: 2 }
+    });
+
+    const app = express();
+    app.use('/api/executions', executionRoutes);
+
+    const response = await request(app).get('/api/executions/e1/next-step').expect(200);
+
+    expect(prisma.executionRecord.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'r2' } }));
+    expect(response.body.data).toMatchObject({ id: 'r2', result: { score: 1 } });
+  });
+
+  describe('status transitions', () => {
+    let app: express.Express;
+    let prisma: any;
+
+    beforeEach(() => {
+      prisma = require('../../config/database').default;
+      jest.clearAllMocks();
+      app = express();
+      app.use(express.json());
+      app.use('/api/executions', executionRoutes);
+    });
+
+    it('should return 409 INVALID_TRANSITION when resuming an execution that is not paused', async () => {
+      prisma.execution.findFirst.mockResolvedValue({ id: 'e1', userId: 'user1', status: 'IN_PROGRESS', participants: [] });
+
+      const response = await request(app).post('/api/executions/e1/resume').expect(409);
+
+      expect(response.body.error).toMatchObject({
+        code: 'INVALID_TRANSITION',
+        details: { entity: 'execution', action: 'resume', from: 'IN_PROGRESS' }
+      });
+      expect(prisma.execution.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 INVALID_TRANSITION when starting a step of a cancelled execution', async () => {
+      prisma.execution.findFirst.mockResolvedValue({ id: 'e1', userId: 'user1', status: 'CANCELLED', participants: [] });
+      prisma.executionRecord.findFirst.mockResolvedValue({
+        id: 'r1',
+        executionId: 'e1',
+        status: 'PENDING',
+        assigneeId: null,
+        step: { stepType: 'MANUAL' }
+      });
+
+      const response = await request(app).post('/api/executions/e1/records/r1/start').expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_TRANSITION');
+      expect(prisma.executionRecord.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import prisma from '../../config/database';
+import { ExecutionParticipantService } from '../../services/executionParticipantService';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    execution: { findFirst: jest.fn() },
+    executionRecord: { findFirst: jest.fn(), update: jest.fn(), findUniqueOrThrow: jest.fn() },
+    executionParticipant: { findUnique: jest.fn() },
+    executionEvent: { create: jest.fn() },
+    user: { findFirst: jest.fn() }
+  }
+}));
+
+const mockPrisma = prisma as any;
+
+describe('ExecutionParticipantService.assignStep', () => {
+  const service = new ExecutionParticipantService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.execution.findFirst.mockResolvedValue({ id: 'e1', userId: 'owner1', status: 'IN_PROGRESS', participants: [] });
+    mockPrisma.executionRecord.findFirst.mockResolvedValue({ id: 'r1', executionId: 'e1', status: 'PENDING', assigneeId: null, assignee: null });
+    mockPrisma.executionParticipant.findUnique.mockResolvedValue({ userId: 'user2', role: 'CONTRIBUTOR' });
+    mockPrisma.executionRecord.findUniqueOrThrow.mockResolvedValue({ id: 'r1' });
+  });
+
+  it('should assign the step to an active contributor', async () => {
+    mockPrisma.user.findFirst.mockResolvedValue({ id: 'user2', name: '李四', email: 'li@example.com' });
+
+    await service.assignStep('e1', 'r1', 'owner1', 'user2');
+
+    expect(mockPrisma.user.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'user2', isActive: true }
+    }));
+    expect(mockPrisma.executionRecord.update).toHaveBeenCalledWith({ where: { id: 'r1' }, data: { assigneeId: 'user2' } });
+    expect(mockPrisma.executionEvent.create).toHaveBeenCalled();
+  });
+
+  it('should reject an assignee that no longer resolves to an active user', async () => {
+    mockPrisma.user.findFirst.mockResolvedValue(null);
+
+    await expect(service.assignStep('e1', 'r1', 'owner1', 'owner1')).rejects.toThrow('用户不存在');
+
+    expect(mockPrisma.executionRecord.update).not.toHaveBeenCalled();
+    expect(mockPrisma.executionEvent.create).not.toHaveBeenCalled();
+  });
+});
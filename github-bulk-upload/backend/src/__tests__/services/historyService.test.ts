@@ -0,0 +1,63 @@
+import prisma from '../../config/database';
+import { HistoryService } from '../../services/historyService';
+import { accessibleExecutionWhere } from '../../utils/participants';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    execution: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      groupBy: jest.fn()
+    },
+    executionRecord: {
+      count: jest.fn(),
+      findMany: jest.fn()
+    },
+    workflow: {
+      count: jest.fn(),
+      findUnique: jest.fn()
+    }
+  }
+}));
+
+const mockPrisma = prisma as any;
+
+describe('HistoryService', () => {
+  const service = new HistoryService();
+  const accessible = accessibleExecutionWhere('user1');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.execution.count.mockResolvedValue(0);
+    mockPrisma.execution.findMany.mockResolvedValue([]);
+    mockPrisma.execution.groupBy.mockResolvedValue([]);
+    mockPrisma.executionRecord.count.mockResolvedValue(0);
+    mockPrisma.executionRecord.findMany.mockResolvedValue([]);
+    mockPrisma.workflow.count.mockResolvedValue(0);
+  });
+
+  it('should include executions the user participates in when computing stats', async () => {
+    await service.getHistoryStats('user1');
+
+    for (const [query] of [
+      ...mockPrisma.execution.count.mock.calls,
+      ...mockPrisma.execution.findMany.mock.calls,
+      ...mockPrisma.execution.groupBy.mock.calls
+    ]) {
+      expect(query.where).toMatchObject(accessible);
+    }
+    expect(mockPrisma.executionRecord.count.mock.calls[0][0].where.execution).toMatchObject(accessible);
+    expect(mockPrisma.workflow.count).toHaveBeenCalledWith({ where: { userId: 'user1' } });
+  });
+
+  it('should include executions the user participates in for checklist stats and aggregates', async () => {
+    await service.getChecklistStats('user1', { workflowId: 'w1' });
+    await service.getAggregatedData('user1', 'status', { status: 'COMPLETED' });
+
+    expect(mockPrisma.executionRecord.findMany.mock.calls[0][0].where.execution)
+      .toEqual({ ...accessible, workflowId: 'w1' });
+    expect(mockPrisma.execution.groupBy.mock.calls[0][0].where)
+      .toEqual({ ...accessible, status: 'COMPLETED' });
+  });
+});
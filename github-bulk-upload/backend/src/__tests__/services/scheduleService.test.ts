@@ -0,0 +1,129 @@
+import prisma from '../../config/database';
+import { ScheduleService } from '../../services/scheduleService';
+import { ExecutionService } from '../../services/executionService';
+
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    workflowSchedule: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    },
+    scheduleRun: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    }
+  }
+}));
+
+jest.mock('../../services/executionService', () => ({
+  ExecutionService: jest.fn().mockImplementation(() => ({ startExecution: jest.fn() }))
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn() }
+}));
+
+const mockPrisma = prisma as any;
+
+describe('ScheduleService.runDueSchedules', () => {
+  const now = new Date('2025-01-06T01:00:30Z');
+  const occurrence = new Date('2025-01-06T01:00:00Z');
+  const schedule = {
+    id: 'schedule1',
+    workflowId: 'workflow1',
+    userId: 'user1',
+    cron: '0 9 * * 1',
+    timezone: 'Asia/Shanghai',
+    priority: 'MEDIUM',
+    tags: null,
+    variables: null,
+    dueAfterHours: null,
+    skippedOccurrences: null,
+    isActive: true,
+    nextRunAt: occurrence
+  };
+  const duplicate = Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+
+  let service: ScheduleService;
+  let startExecution: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ScheduleService();
+    startExecution = (ExecutionService as unknown as jest.Mock).mock.results.slice(-1)[0].value.startExecution;
+    startExecution.mockResolvedValue({ id: 'execution1' });
+    mockPrisma.workflowSchedule.findMany.mockResolvedValue([schedule]);
+    mockPrisma.workflowSchedule.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.scheduleRun.update.mockResolvedValue({});
+  });
+
+  it('should start the execution before advancing the schedule', async () => {
+    mockPrisma.scheduleRun.create.mockResolvedValue({ id: 'run1' });
+
+    await expect(service.runDueSchedules(now)).resolves.toBe(1);
+
+    expect(mockPrisma.scheduleRun.update).toHaveBeenCalledWith({
+      where: { id: 'run1' },
+      data: { status: 'CREATED', executionId: 'execution1' }
+    });
+    expect(startExecution.mock.invocationCallOrder[0])
+      .toBeLessThan(mockPrisma.workflowSchedule.updateMany.mock.invocationCallOrder[0]);
+  });
+
+  it('should resume a pending run left behind by a process that exited while starting it', async () => {
+    const abandoned = {
+      id: 'run1',
+      status: 'PENDING',
+      executionId: null,
+      createdAt: new Date(now.getTime() - 10 * 60 * 1000)
+    };
+    mockPrisma.scheduleRun.create.mockRejectedValue(duplicate);
+    mockPrisma.scheduleRun.findUnique.mockResolvedValue(abandoned);
+    mockPrisma.scheduleRun.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.runDueSchedules(now)).resolves.toBe(1);
+
+    expect(mockPrisma.scheduleRun.updateMany).toHaveBeenCalledWith({
+      where: { id: 'run1', status: 'PENDING', executionId: null, createdAt: abandoned.createdAt },
+      data: { createdAt: now }
+    });
+    expect(startExecution).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.workflowSchedule.updateMany).toHaveBeenCalled();
+  });
+
+  it('should leave a recent pending run to the process that is starting it', async () => {
+    mockPrisma.scheduleRun.create.mockRejectedValue(duplicate);
+    mockPrisma.scheduleRun.findUnique.mockResolvedValue({
+      id: 'run1',
+      status: 'PENDING',
+      executionId: null,
+      createdAt: new Date(now.getTime() - 20 * 1000)
+    });
+
+    await expect(service.runDueSchedules(now)).resolves.toBe(0);
+
+    expect(startExecution).not.toHaveBeenCalled();
+    expect(mockPrisma.workflowSchedule.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should only advance the schedule when the run was already handled', async () => {
+    mockPrisma.scheduleRun.create.mockRejectedValue(duplicate);
+    mockPrisma.scheduleRun.findUnique.mockResolvedValue({
+      id: 'run1',
+      status: 'CREATED',
+      executionId: 'execution0',
+      createdAt: new Date(now.getTime() - 10 * 60 * 1000)
+    });
+
+    await expect(service.runDueSchedules(now)).resolves.toBe(0);
+
+    expect(startExecution).not.toHaveBeenCalled();
+    expect(mockPrisma.workflowSchedule.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'schedule1', nextRunAt: occurrence }
+    }));
+  });
+});
@@ -0,0 +1,70 @@
+jest.mock('../../config/database', () => ({
+  __esModule: true,
+  default: {
+    execution: { findFirst: jest.fn(), findUnique: jest.fn() },
+    executionRecord: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    },
+    executionEvent: { create: jest.fn() }
+  },
+  testDatabaseConnection: jest.fn(),
+  isDatabaseReady: jest.fn(() => true)
+}));
+
+describe('step evidence on completion', () => {
+  let prisma: any;
+  let service: any;
+
+  const record = {
+    id: 'r1',
+    executionId: 'e1',
+    stepId: 's1',
+    status: 'IN_PROGRESS',
+    assigneeId: null,
+    notes: null,
+    data: null,
+    step: { stepType: 'MANUAL', metadata: JSON.stringify({ evidence: { minNoteLength: 20 } }) }
+  };
+
+  beforeAll(() => {
+    // 告警和统计模块加载时会启动定时任务，使用假定时器避免测试进程无法退出
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    prisma = require('../../config/database').default;
+    const { ExecutionService } = require('../../services/executionService');
+    service = new ExecutionService();
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.execution.findFirst.mockResolvedValue({ id: 'e1', userId: 'user1', status: 'IN_PROGRESS', participants: [] });
+    prisma.executionRecord.findFirst.mockResolvedValue(record);
+    prisma.executionRecord.findUnique.mockResolvedValue({ ...record, attachments: [] });
+  });
+
+  it('should reject completing a step through updateStepStatus when evidence is missing', async () => {
+    await expect(service.updateStepStatus('e1', 's1', 'user1', { status: 'COMPLETED', notes: '太短' }))
+      .rejects.toMatchObject({
+        code: 'EVIDENCE_REQUIREMENTS_UNMET',
+        unmetRules: [expect.objectContaining({ rule: 'minNoteLength' })]
+      });
+
+    expect(prisma.executionRecord.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should not check evidence when only notes are saved', async () => {
+    prisma.executionRecord.findUniqueOrThrow.mockResolvedValue(record);
+
+    await service.updateStepStatus('e1', 's1', 'user1', { notes: '草稿' });
+
+    expect(prisma.executionRecord.findUnique).not.toHaveBeenCalled();
+    expect(prisma.executionRecord.update).toHaveBeenCalledWith({ where: { id: 'r1' }, data: { notes: '草稿' } });
+  });
+});
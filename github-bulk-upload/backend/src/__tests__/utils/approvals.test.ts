@@ -0,0 +1,93 @@
+import {
+  parseApprovalConfig,
+  isApprover,
+  resolveApprovers,
+  requiredApprovals,
+  tallyApprovals,
+  ApprovalConfig,
+  ApprovalVote
+} from '../../utils/approvals';
+
+describe('approvals', () => {
+  const users = [
+    { id: 'u1', email: 'cio@example.com', role: 'USER' },
+    { id: 'u2', email: 'risk@example.com', role: 'ADMIN' },
+    { id: 'u3', email: 'pm@example.com', role: 'ADMIN' }
+  ];
+
+  const config = (overrides: Partial<ApprovalConfig> = {}): ApprovalConfig => ({
+    approvers: { users: ['CIO@example.com'], role: 'ADMIN' },
+    quorum: 'any',
+    allowSelfApproval: false,
+    ...overrides
+  });
+
+  const votes = (...decisions: Array<'APPROVED' | 'REJECTED'>): ApprovalVote[] =>
+    decisions.map((decision, index) => ({ approverId: `u${index + 1}`, decision }));
+
+  describe('parseApprovalConfig', () => {
+    it('should apply defaults and ignore steps without approval config', () => {
+      expect(parseApprovalConfig(JSON.stringify({ approval: { approvers: { role: 'ADMIN' } } }))).toEqual({
+        approvers: { role: 'ADMIN' },
+        quorum: 'any',
+        allowSelfApproval: false
+      });
+      expect(parseApprovalConfig({ approval: { approvers: { users: ['u1'] }, quorum: 2, rejectTo: 3 } })).toMatchObject({ quorum: 2, rejectTo: 3 });
+      expect(parseApprovalConfig({ options: ['买入'] })).toBeNull();
+    });
+
+    it('should reject configs without approvers', () => {
+      expect(parseApprovalConfig({ approval: { approvers: {} } })).toBeNull();
+      expect(parseApprovalConfig({ approval: { quorum: 'all' } })).toBeNull();
+    });
+  });
+
+  describe('isApprover', () => {
+    it('should match listed ids, emails case-insensitively and roles', () => {
+      expect(isApprover(config(), users[0])).toBe(true);
+      expect(isApprover(config(), users[1])).toBe(true);
+      expect(isApprover(config({ approvers: { users: ['u3'] } }), users[1])).toBe(false);
+      expect(isApprover(config({ approvers: { users: ['u3'] } }), users[2])).toBe(true);
+    });
+  });
+
+  describe('resolveApprovers', () => {
+    it('should exclude the execution owner unless self approval is allowed', () => {
+      expect(resolveApprovers(config(), users, 'u2').map(user => user.id)).toEqual(['u1', 'u3']);
+      expect(resolveApprovers(config({ allowSelfApproval: true }), users, 'u2')).toHaveLength(3);
+    });
+  });
+
+  describe('requiredApprovals', () => {
+    it('should translate quorum rules into approval counts', () => {
+      expect(requiredApprovals('any', 3)).toBe(1);
+      expect(requiredApprovals('all', 3)).toBe(3);
+      expect(requiredApprovals(2, 3)).toBe(2);
+    });
+  });
+
+  describe('tallyApprovals', () => {
+    it('should approve once the quorum is reached', () => {
+      expect(tallyApprovals(config(), votes('APPROVED'), 3).status).toBe('APPROVED');
+      expect(tallyApprovals(config({ quorum: 2 }), votes('APPROVED'), 3).status).toBe('PENDING');
+      expect(tallyApprovals(config({ quorum: 2 }), votes('REJECTED', 'APPROVED', 'APPROVED'), 3)).toEqual({
+        status: 'APPROVED',
+        approvals: 2,
+        rejections: 1,
+        required: 2,
+        eligible: 3
+      });
+    });
+
+    it('should stay pending while the quorum can still be reached', () => {
+      expect(tallyApprovals(config(), votes('REJECTED', 'REJECTED'), 3).status).toBe('PENDING');
+      expect(tallyApprovals(config({ quorum: 2 }), votes('REJECTED'), 3).status).toBe('PENDING');
+    });
+
+    it('should reject once the quorum becomes unreachable', () => {
+      expect(tallyApprovals(config({ quorum: 'all' }), votes('APPROVED', 'REJECTED'), 3).status).toBe('REJECTED');
+      expect(tallyApprovals(config({ quorum: 2 }), votes('REJECTED', 'REJECTED'), 3).status).toBe('REJECTED');
+      expect(tallyApprovals(config(), votes('REJECTED', 'REJECTED', 'REJECTED'), 3).status).toBe('REJECTED');
+    });
+  });
+});
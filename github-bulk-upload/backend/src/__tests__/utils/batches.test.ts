@@ -0,0 +1,70 @@
+import { batchSchema, csvToParameterSets, MAX_BATCH_SIZE, parseCsv, summarizeBatch } from '../../utils/batches';
+import { parseParameterDefinitions } from '../../utils/parameters';
+
+describe('batches', () => {
+  const definitions = parseParameterDefinitions({
+    parameters: [
+      { key: 'ticker', label: '股票代码', type: 'ticker', required: true },
+      { key: 'market', label: '市场', type: 'select', options: ['A股', '港股', '美股'], default: '港股' }
+    ]
+  });
+
+  describe('parseCsv', () => {
+    it('should handle quoted fields, CRLF line endings and a BOM', () => {
+      expect(parseCsv('\uFEFFticker,note\r\n00700.HK,"腾讯, 游戏"\r\n\r\nAAPL,"say ""hi"""\n')).toEqual([
+        ['ticker', 'note'],
+        ['00700.HK', '腾讯, 游戏'],
+        ['AAPL', 'say "hi"']
+      ]);
+    });
+
+    it('should reject unterminated quotes', () => {
+      expect(() => parseCsv('ticker\n"00700.HK')).toThrow('引号未闭合');
+    });
+  });
+
+  describe('csvToParameterSets', () => {
+    it('should match columns by parameter key or label', () => {
+      expect(csvToParameterSets('股票代码,market\n00700.HK,\nAAPL,美股', definitions)).toEqual([
+        { ticker: '00700.HK' },
+        { ticker: 'AAPL', market: '美股' }
+      ]);
+    });
+
+    it('should reject unknown or duplicate columns', () => {
+      expect(() => csvToParameterSets('ticker,sector\n00700.HK,科技', definitions)).toThrow('sector');
+      expect(() => csvToParameterSets('ticker,股票代码\nA,B', definitions)).toThrow('出现了多次');
+      expect(() => csvToParameterSets('', definitions)).toThrow('为空');
+    });
+  });
+
+  describe('summarizeBatch', () => {
+    it('should count executions by status and average progress', () => {
+      expect(summarizeBatch([
+        { status: 'COMPLETED', progress: 100 },
+        { status: 'IN_PROGRESS', progress: 50 },
+        { status: 'FAILED', progress: 25 }
+      ])).toEqual({
+        total: 3,
+        byStatus: { COMPLETED: 1, IN_PROGRESS: 1, FAILED: 1 },
+        completed: 1,
+        finished: 2,
+        averageProgress: 58
+      });
+      expect(summarizeBatch([]).averageProgress).toBe(0);
+    });
+  });
+
+  describe('batchSchema', () => {
+    it('should require exactly one of rows or csv', () => {
+      expect(batchSchema.validate({ workflowId: 'w1', name: '筛选' }).error?.message).toBe('请提供参数列表或 CSV');
+      expect(batchSchema.validate({ workflowId: 'w1', name: '筛选', rows: [{}], csv: 'ticker' }).error).toBeDefined();
+      expect(batchSchema.validate({ workflowId: 'w1', name: '筛选', csv: 'ticker\nAAPL' }).value.priority).toBe('MEDIUM');
+    });
+
+    it('should limit the batch size', () => {
+      const rows = Array.from({ length: MAX_BATCH_SIZE + 1 }, () => ({ ticker: 'AAPL' }));
+      expect(batchSchema.validate({ workflowId: 'w1', name: '筛选', rows }).error?.message).toContain(`${MAX_BATCH_SIZE}`);
+    });
+  });
+});
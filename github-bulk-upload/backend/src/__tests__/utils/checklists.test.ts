@@ -0,0 +1,86 @@
+import { checklistSchema, getChecklistProgress, parseChecklistConfig, summarizeChecklistStats } from '../../utils/checklists';
+import { stepMetadataSchema } from '../../utils/validation';
+
+describe('checklists', () => {
+  const metadata = {
+    checklist: ['查看最新财报', { label: '检查负债情况', required: true }, { key: 'industry', label: '了解行业地位' }]
+  };
+
+  describe('parseChecklistConfig', () => {
+    it('should normalize items and default to the required rule', () => {
+      expect(parseChecklistConfig(JSON.stringify(metadata))).toEqual({
+        items: [
+          { key: '查看最新财报', label: '查看最新财报', required: false },
+          { key: '检查负债情况', label: '检查负债情况', required: true },
+          { key: 'industry', label: '了解行业地位', required: false }
+        ],
+        rule: 'required'
+      });
+    });
+
+    it('should return null when the step has no checklist items', () => {
+      expect(parseChecklistConfig(null)).toBeNull();
+      expect(parseChecklistConfig('not json')).toBeNull();
+      expect(parseChecklistConfig({ checklist: [] })).toBeNull();
+    });
+  });
+
+  describe('getChecklistProgress', () => {
+    it('should only require required items under the required rule', () => {
+      const config = parseChecklistConfig(metadata)!;
+      const progress = getChecklistProgress(config, [
+        { itemKey: '查看最新财报', checked: true },
+        { itemKey: 'industry', checked: false }
+      ]);
+
+      expect(progress).toMatchObject({ total: 3, checked: 1, percent: 33 });
+      expect(progress.missing.map(item => item.key)).toEqual(['检查负债情况']);
+    });
+
+    it('should require every item under the all rule and ignore removed items', () => {
+      const config = parseChecklistConfig({ ...metadata, checklistRule: 'all' })!;
+      const progress = getChecklistProgress(config, [
+        { itemKey: '检查负债情况', checked: true },
+        { itemKey: '已删除的项目', checked: true }
+      ]);
+
+      expect(progress.checked).toBe(1);
+      expect(progress.missing.map(item => item.key)).toEqual(['查看最新财报', 'industry']);
+    });
+  });
+
+  describe('summarizeChecklistStats', () => {
+    it('should aggregate completion rates per workflow step', () => {
+      const workflow = { id: 'wf-1', name: '股票研究' };
+      const step = { name: '基本面检查', metadata: JSON.stringify(metadata) };
+
+      const [stats] = summarizeChecklistStats([
+        { workflow, step, states: [{ itemKey: '检查负债情况', checked: true, note: '负债率 40%' }] },
+        { workflow, step, states: [{ itemKey: '检查负债情况', checked: true, attachmentId: 'att-1' }] },
+        { workflow, step, states: [{ itemKey: 'industry', checked: true }] }
+      ]);
+
+      expect(stats.records).toBe(3);
+      expect(stats.items.find(item => item.key === '检查负债情况')).toMatchObject({
+        total: 3,
+        checked: 2,
+        completionRate: 66.7,
+        withNote: 1,
+        withAttachment: 1
+      });
+      expect(stats.items.find(item => item.key === '查看最新财报')?.completionRate).toBe(0);
+    });
+  });
+
+  describe('checklistSchema', () => {
+    it('should reject duplicate items', () => {
+      expect(checklistSchema.validate(['查看财报', { label: '查看财报' }]).error?.message).toBe('检查项不能重复');
+      expect(checklistSchema.validate(['查看财报', { key: 'report', label: '查看财报' }]).error).toBeUndefined();
+    });
+
+    it('should be accepted in step metadata together with a completion rule', () => {
+      expect(stepMetadataSchema.validate({ checklist: ['查看财报'], checklistRule: 'all' }).error).toBeUndefined();
+      expect(stepMetadataSchema.validate({ checklist: ['查看财报'], checklistRule: 'some' }).error).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  buildCommentThreads,
+  commentSchema,
+  commentUpdateSchema,
+  formatCommentsText,
+  MAX_COMMENT_LENGTH,
+  parseMentions,
+  resolveMentions
+} from '../../utils/comments';
+
+describe('comments', () => {
+  describe('parseMentions', () => {
+    it('should parse email and name mentions in order without duplicates', () => {
+      expect(parseMentions('@analyst@example.com 请看一下，@张三 也确认下。@张三')).toEqual([
+        'analyst@example.com',
+        '张三'
+      ]);
+    });
+
+    it('should stop names at punctuation', () => {
+      expect(parseMentions('请 @Alice, @李四：估值假设是否合理？')).toEqual(['Alice', '李四']);
+    });
+
+    it('should not treat email addresses as mentions', () => {
+      expect(parseMentions('联系 bob@example.com 获取数据')).toEqual([]);
+    });
+  });
+
+  describe('resolveMentions', () => {
+    const members = [
+      { id: 'u1', name: 'Alice', email: 'alice@example.com' },
+      { id: 'u2', name: '张三', email: 'zhangsan@example.com' },
+      { id: 'u3', name: 'Bob', email: 'bob@example.com' }
+    ];
+
+    it('should match members by email case-insensitively or by name', () => {
+      expect(resolveMentions('@Alice@Example.com 和 @张三 请确认', members).map(member => member.id)).toEqual(['u1', 'u2']);
+    });
+
+    it('should ignore the author and users who are not members', () => {
+      expect(resolveMentions('@Alice @Bob @Carol', members, 'u1').map(member => member.id)).toEqual(['u3']);
+    });
+  });
+
+  it('should group replies under their top-level comments in time order', () => {
+    const threads = buildCommentThreads([
+      { id: 'c2', parentId: null, createdAt: '2024-12-29T10:05:00Z' },
+      { id: 'r2', parentId: 'c1', createdAt: '2024-12-29T10:10:00Z' },
+      { id: 'c1', parentId: null, createdAt: '2024-12-29T10:00:00Z' },
+      { id: 'r1', parentId: 'c1', createdAt: '2024-12-29T10:02:00Z' }
+    ]);
+
+    expect(threads.map(thread => thread.id)).toEqual(['c1', 'c2']);
+    expect(threads[0].replies.map(reply => reply.id)).toEqual(['r1', 'r2']);
+    expect(threads[1].replies).toEqual([]);
+  });
+
+  it('should format exported comments as text lines', () => {
+    expect(formatCommentsText([
+      { stepName: '估值', author: 'Alice', body: 'WACC 是否偏低？', resolved: true, createdAt: '2024-12-29T10:00:00.000Z' },
+      { author: 'Bob', body: '已调整', isReply: true, createdAt: '2024-12-29T10:02:00.000Z' }
+    ])).toBe([
+      '[估值] Alice 2024-12-29T10:00:00.000Z：WACC 是否偏低？（已解决）',
+      '  ↳ Bob 2024-12-29T10:02:00.000Z：已调整'
+    ].join('\n'));
+  });
+
+  it('should validate comment input', () => {
+    expect(commentSchema.validate({ body: '  请确认数据来源  ', recordId: 'r1' }).value).toEqual({
+      body: '请确认数据来源',
+      recordId: 'r1'
+    });
+    expect(commentSchema.validate({ body: '   ' }).error).toBeDefined();
+    expect(commentSchema.validate({ body: 'a'.repeat(MAX_COMMENT_LENGTH + 1) }).error).toBeDefined();
+    expect(commentUpdateSchema.validate({ body: '已修改', parentId: 'c1' }).error).toBeDefined();
+  });
+});
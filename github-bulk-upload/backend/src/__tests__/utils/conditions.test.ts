@@ -0,0 +1,160 @@
+import {
+  parseConditions,
+  evaluateRule,
+  evaluateConditions,
+  isConditionSkipped,
+  parseCriteria,
+  evaluateCriteria,
+  ConditionStepState
+} from '../../utils/conditions';
+
+describe('conditions', () => {
+  const decisionStep = (status: string, decision?: string): ConditionStepState => ({
+    stepId: 'step5',
+    order: 5,
+    status,
+    data: decision ? { decision } : null
+  });
+
+  describe('parseConditions', () => {
+    it('should parse conditions stored as JSON string', () => {
+      const conditions = parseConditions('{"rules":[{"step":"5","operator":"eq","value":"买入"}]}');
+
+      expect(conditions).toEqual({
+        rules: [{ step: '5', operator: 'eq', value: '买入' }]
+      });
+    });
+
+    it('should return null for empty or invalid conditions', () => {
+      expect(parseConditions(null)).toBeNull();
+      expect(parseConditions('')).toBeNull();
+      expect(parseConditions('not json')).toBeNull();
+      expect(parseConditions({})).toBeNull();
+      expect(parseConditions({ rules: [] })).toBeNull();
+    });
+  });
+
+  describe('evaluateRule', () => {
+    it('should resolve referenced step by id or order', () => {
+      const steps = [decisionStep('COMPLETED', '买入')];
+
+      expect(evaluateRule({ step: 'step5', operator: 'eq', value: '买入' }, steps)).toBe('MATCHED');
+      expect(evaluateRule({ step: '5', operator: 'eq', value: '买入' }, steps)).toBe('MATCHED');
+    });
+
+    it('should be unresolved while referenced step is not finished', () => {
+      const steps = [decisionStep('IN_PROGRESS')];
+
+      expect(evaluateRule({ step: '5', operator: 'eq', value: '买入' }, steps)).toBe('UNRESOLVED');
+    });
+
+    it('should be unmatched when referenced step does not exist', () => {
+      expect(evaluateRule({ step: '9', operator: 'exists' }, [decisionStep('COMPLETED', '买入')])).toBe('UNMATCHED');
+    });
+
+    it('should support list and numeric operators', () => {
+      const steps: ConditionStepState[] = [
+        decisionStep('COMPLETED', '持有'),
+        { stepId: 'step3', order: 3, status: 'COMPLETED', data: { valuation: { pe: 18 } } }
+      ];
+
+      expect(evaluateRule({ step: '5', operator: 'in', value: ['买入', '持有'] }, steps)).toBe('MATCHED');
+      expect(evaluateRule({ step: '5', operator: 'notIn', value: ['观望'] }, steps)).toBe('MATCHED');
+      expect(evaluateRule({ step: '3', field: 'valuation.pe', operator: 'lt', value: 20 }, steps)).toBe('MATCHED');
+      expect(evaluateRule({ step: '3', field: 'valuation.pe', operator: 'gte', value: 20 }, steps)).toBe('UNMATCHED');
+    });
+
+    it('should fall back to result when field is missing from data', () => {
+      const steps: ConditionStepState[] = [
+        { stepId: 'step5', order: 5, status: 'COMPLETED', data: {}, result: { decision: '卖出' } }
+      ];
+
+      expect(evaluateRule({ step: '5', operator: 'eq', value: '卖出' }, steps)).toBe('MATCHED');
+    });
+  });
+
+  describe('evaluateConditions', () => {
+    const steps: ConditionStepState[] = [
+      decisionStep('COMPLETED', '买入'),
+      { stepId: 'step6', order: 6, status: 'PENDING' }
+    ];
+
+    it('should require all rules by default', () => {
+      expect(evaluateConditions({
+        rules: [
+          { step: '5', operator: 'eq', value: '买入' },
+          { step: '5', operator: 'neq', value: '观望' }
+        ]
+      }, steps)).toBe('MATCHED');
+
+      expect(evaluateConditions({
+        rules: [
+          { step: '5', operator: 'eq', value: '买入' },
+          { step: '6', operator: 'exists' }
+        ]
+      }, steps)).toBe('UNRESOLVED');
+
+      expect(evaluateConditions({
+        rules: [
+          { step: '5', operator: 'eq', value: '卖出' },
+          { step: '6', operator: 'exists' }
+        ]
+      }, steps)).toBe('UNMATCHED');
+    });
+
+    it('should match any rule in any mode', () => {
+      expect(evaluateConditions({
+        mode: 'any',
+        rules: [
+          { step: '5', operator: 'eq', value: '卖出' },
+          { step: '5', operator: 'eq', value: '买入' }
+        ]
+      }, steps)).toBe('MATCHED');
+
+      expect(evaluateConditions({
+        mode: 'any',
+        rules: [
+          { step: '5', operator: 'eq', value: '卖出' },
+          { step: '6', operator: 'exists' }
+        ]
+      }, steps)).toBe('UNRESOLVED');
+    });
+  });
+
+  describe('isConditionSkipped', () => {
+    it('should detect records skipped by branch conditions', () => {
+      expect(isConditionSkipped('SKIPPED', '{"conditionSkipped":true}')).toBe(true);
+      expect(isConditionSkipped('SKIPPED', { conditionSkipped: true })).toBe(true);
+      expect(isConditionSkipped('SKIPPED', null)).toBe(false);
+      expect(isConditionSkipped('COMPLETED', '{"conditionSkipped":true}')).toBe(false);
+    });
+  });
+
+  describe('evaluateCriteria', () => {
+    const criteria = parseCriteria(JSON.stringify({
+      criteria: [
+        { label: '杠杆IRR不低于8%', step: '4', field: 'property.irr', operator: 'gte', value: 0.08 },
+        { label: '最低DSCR不低于1.2', step: '4', field: 'property.minDscr', operator: 'gte', value: 1.2 },
+        { label: '区域调研完成', step: '1', field: 'summary', operator: 'exists' },
+        { label: '无效标准', step: '4', operator: 'between' }
+      ]
+    }));
+
+    it('should skip invalid criteria', () => {
+      expect(criteria.map(criterion => criterion.label)).toEqual(['杠杆IRR不低于8%', '最低DSCR不低于1.2', '区域调研完成']);
+    });
+
+    it('should report actual values and outcomes', () => {
+      const results = evaluateCriteria(criteria, [
+        { stepId: 'a', order: 1, status: 'IN_PROGRESS', data: { summary: '草稿' } },
+        { stepId: 'b', order: 4, status: 'COMPLETED', data: { property: { irr: 0.095, minDscr: 1.1 } } }
+      ]);
+
+      expect(results.map(result => [result.actual, result.outcome])).toEqual([
+        [0.095, 'MATCHED'],
+        [1.1, 'UNMATCHED'],
+        [undefined, 'UNRESOLVED']
+      ]);
+    });
+  });
+});
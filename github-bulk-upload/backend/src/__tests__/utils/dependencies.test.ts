@@ -0,0 +1,112 @@
+import {
+  parseDependencies,
+  resolveDependencies,
+  findDependencyCycle,
+  getBlockingSteps,
+  getReadyRecords,
+  getDependentRecords,
+  DependencyRecordState
+} from '../../utils/dependencies';
+
+describe('dependencies', () => {
+  const steps = [
+    { id: 'fundamental', order: 1, name: '基本面分析', dependencies: null },
+    { id: 'technical', order: 2, name: '技术面分析', dependencies: ['1'] },
+    { id: 'valuation', order: 3, name: '估值分析', dependencies: '["1"]' },
+    { id: 'decision', order: 4, name: '投资决策', dependencies: ['technical', '3'] }
+  ];
+
+  describe('parseDependencies', () => {
+    it('should accept arrays and JSON strings', () => {
+      expect(parseDependencies(['1', 2])).toEqual(['1', '2']);
+      expect(parseDependencies('["a","b"]')).toEqual(['a', 'b']);
+      expect(parseDependencies(null)).toEqual([]);
+      expect(parseDependencies('invalid')).toEqual([]);
+    });
+  });
+
+  describe('resolveDependencies', () => {
+    it('should resolve order references to step ids', () => {
+      const resolved = resolveDependencies(steps);
+
+      expect(resolved.get('fundamental')).toEqual([]);
+      expect(resolved.get('technical')).toEqual(['fundamental']);
+      expect(resolved.get('valuation')).toEqual(['fundamental']);
+      expect(resolved.get('decision')).toEqual(['technical', 'valuation']);
+    });
+
+    it('should reject unknown references', () => {
+      expect(() => resolveDependencies([
+        { id: 'a', order: 1, name: '步骤A', dependencies: ['9'] }
+      ])).toThrow('步骤 "步骤A" 的依赖 "9" 不存在');
+    });
+
+    it('should reject self dependencies', () => {
+      expect(() => resolveDependencies([
+        { id: 'a', order: 1, name: '步骤A', dependencies: ['1'] }
+      ])).toThrow('不能依赖自身');
+    });
+
+    it('should reject cycles', () => {
+      expect(() => resolveDependencies([
+        { id: 'a', order: 1, name: '步骤A', dependencies: ['3'] },
+        { id: 'b', order: 2, name: '步骤B', dependencies: ['1'] },
+        { id: 'c', order: 3, name: '步骤C', dependencies: ['2'] }
+      ])).toThrow('步骤依赖存在循环');
+    });
+  });
+
+  describe('findDependencyCycle', () => {
+    it('should return the cycle path', () => {
+      const graph = new Map([
+        ['a', ['b']],
+        ['b', ['c']],
+        ['c', ['b']]
+      ]);
+
+      expect(findDependencyCycle(graph)).toEqual(['b', 'c', 'b']);
+    });
+
+    it('should return null for a DAG', () => {
+      expect(findDependencyCycle(resolveDependencies(steps))).toBeNull();
+    });
+  });
+
+  describe('ready steps', () => {
+    const records = (statuses: Record<string, string>): DependencyRecordState[] => [
+      { recordId: 'r1', stepId: 'fundamental', order: 1, name: '基本面分析', status: statuses.fundamental || 'PENDING', dependencies: null },
+      { recordId: 'r2', stepId: 'technical', order: 2, name: '技术面分析', status: statuses.technical || 'PENDING', dependencies: '["fundamental"]' },
+      { recordId: 'r3', stepId: 'valuation', order: 3, name: '估值分析', status: statuses.valuation || 'PENDING', dependencies: '["fundamental"]' },
+      { recordId: 'r4', stepId: 'decision', order: 4, name: '投资决策', status: statuses.decision || 'PENDING', dependencies: '["technical","valuation"]' }
+    ];
+
+    it('should list parallel steps once prerequisites are done', () => {
+      const ready = getReadyRecords(records({ fundamental: 'COMPLETED' }));
+
+      expect(ready.map(record => record.stepId)).toEqual(['technical', 'valuation']);
+    });
+
+    it('should list blocking steps', () => {
+      const states = records({ fundamental: 'COMPLETED', technical: 'COMPLETED', valuation: 'IN_PROGRESS' });
+
+      expect(getBlockingSteps(states[3], states)).toEqual([
+        { stepId: 'valuation', name: '估值分析', order: 3, status: 'IN_PROGRESS' }
+      ]);
+    });
+
+    it('should treat skipped prerequisites as satisfied', () => {
+      const states = records({ fundamental: 'COMPLETED', technical: 'SKIPPED', valuation: 'COMPLETED' });
+
+      expect(getBlockingSteps(states[3], states)).toEqual([]);
+      expect(getReadyRecords(states).map(record => record.stepId)).toEqual(['decision']);
+    });
+
+    it('should list direct and indirect dependents in order', () => {
+      const states = records({});
+
+      expect(getDependentRecords('r1', states).map(record => record.stepId)).toEqual(['technical', 'valuation', 'decision']);
+      expect(getDependentRecords('r3', states).map(record => record.stepId)).toEqual(['decision']);
+      expect(getDependentRecords('r4', states)).toEqual([]);
+    });
+  });
+});
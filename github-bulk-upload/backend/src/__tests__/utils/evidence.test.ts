@@ -0,0 +1,83 @@
+import { checkEvidence, matchesAttachmentType, parseEvidenceRules } from '../../utils/evidence';
+import { stepMetadataSchema } from '../../utils/validation';
+
+describe('evidence', () => {
+  const metadata = {
+    fields: [{ key: 'targetPrice', label: '目标价', type: 'number' }],
+    evidence: {
+      minAttachments: 2,
+      attachmentTypes: [{ type: 'pdf', label: '财报 PDF' }],
+      minNoteLength: 10,
+      requiredFields: ['targetPrice', { key: 'rating', label: '评级' }]
+    }
+  };
+
+  describe('parseEvidenceRules', () => {
+    it('should normalize rules and borrow labels from form fields', () => {
+      expect(parseEvidenceRules(JSON.stringify(metadata))).toEqual({
+        minAttachments: 2,
+        attachmentTypes: [{ type: 'pdf', label: '财报 PDF' }],
+        minNoteLength: 10,
+        requiredFields: [
+          { key: 'targetPrice', label: '目标价' },
+          { key: 'rating', label: '评级' }
+        ]
+      });
+    });
+
+    it('should return null when the step declares no effective rules', () => {
+      expect(parseEvidenceRules(null)).toBeNull();
+      expect(parseEvidenceRules({ evidence: { minAttachments: 0, attachmentTypes: [] } })).toBeNull();
+    });
+  });
+
+  describe('matchesAttachmentType', () => {
+    const report = { originalName: '2024年报.PDF', mimeType: 'application/pdf', fileType: 'DOCUMENT' };
+    const chart = { originalName: 'chart.png', mimeType: 'image/png', fileType: 'IMAGE' };
+
+    it('should match extensions, MIME types and attachment categories', () => {
+      expect(matchesAttachmentType('pdf', report)).toBe(true);
+      expect(matchesAttachmentType('.pdf', report)).toBe(true);
+      expect(matchesAttachmentType('application/pdf', report)).toBe(true);
+      expect(matchesAttachmentType('image/*', chart)).toBe(true);
+      expect(matchesAttachmentType('document', report)).toBe(true);
+      expect(matchesAttachmentType('pdf', chart)).toBe(false);
+      expect(matchesAttachmentType('image', report)).toBe(false);
+    });
+  });
+
+  describe('checkEvidence', () => {
+    const rules = parseEvidenceRules(metadata)!;
+
+    it('should list every unmet rule', () => {
+      const unmet = checkEvidence(rules, {
+        attachments: [{ originalName: 'chart.png', mimeType: 'image/png' }],
+        notes: '  看好  ',
+        data: { targetPrice: 420, rating: '' }
+      });
+
+      expect(unmet).toEqual([
+        { rule: 'minAttachments', message: '至少需要上传 2 个附件，当前 1 个', expected: 2, actual: 1 },
+        { rule: 'attachmentType', message: '需要上传财报 PDF', expected: 'pdf' },
+        { rule: 'minNoteLength', message: '步骤笔记至少需要 10 个字，当前 2 个', expected: 10, actual: 2 },
+        { rule: 'requiredField', message: '需要填写评级', expected: 'rating' }
+      ]);
+    });
+
+    it('should pass when all evidence is provided', () => {
+      expect(checkEvidence(rules, {
+        attachments: [
+          { originalName: '2024年报.pdf', mimeType: 'application/pdf' },
+          { originalName: 'chart.png', mimeType: 'image/png' }
+        ],
+        notes: '营收增长稳定，估值处于历史低位',
+        data: { targetPrice: 420, rating: '买入' }
+      })).toEqual([]);
+    });
+  });
+
+  it('should be accepted in step metadata', () => {
+    expect(stepMetadataSchema.validate(metadata).error).toBeUndefined();
+    expect(stepMetadataSchema.validate({ evidence: { minAttachments: -1 } }).error).toBeDefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { diffFields, fromTransition } from '../../utils/executionEvents';
+
+describe('executionEvents', () => {
+  describe('diffFields', () => {
+    it('should keep only changed fields', () => {
+      expect(diffFields(
+        { notes: '初稿', data: { targetPrice: 400, rating: '持有' } },
+        { notes: '初稿', data: { targetPrice: 420, rating: '持有' } }
+      )).toEqual({
+        before: { data: { targetPrice: 400, rating: '持有' } },
+        after: { data: { targetPrice: 420, rating: '持有' } }
+      });
+    });
+
+    it('should ignore fields that were not submitted', () => {
+      expect(diffFields({ notes: '初稿', checked: false }, { notes: undefined, checked: true })).toEqual({
+        before: { checked: false },
+        after: { checked: true }
+      });
+    });
+
+    it('should record cleared and newly set values', () => {
+      expect(diffFields({ dueDate: new Date('2024-12-31T00:00:00Z') }, { dueDate: null })).toEqual({
+        before: { dueDate: new Date('2024-12-31T00:00:00Z') },
+        after: { dueDate: null }
+      });
+      expect(diffFields({}, { note: '已核对' })).toEqual({ before: { note: null }, after: { note: '已核对' } });
+    });
+
+    it('should return null when nothing changed', () => {
+      expect(diffFields({ notes: '初稿' }, { notes: '初稿', data: undefined })).toBeNull();
+    });
+  });
+
+  it('should convert transition events into status change entries', () => {
+    const entry = fromTransition(
+      {
+        entity: 'step',
+        action: 'skip',
+        executionId: 'e1',
+        recordId: 'r1',
+        from: 'PENDING',
+        to: 'SKIPPED',
+        userId: 'u1',
+        reason: '不适用',
+        at: new Date()
+      },
+      { before: { notes: null }, after: { notes: '不适用' } }
+    );
+
+    expect(entry).toEqual({
+      executionId: 'e1',
+      recordId: 'r1',
+      actorId: 'u1',
+      type: 'STATUS_CHANGED',
+      action: 'skip',
+      before: { notes: null, status: 'PENDING' },
+      after: { notes: '不适用', status: 'SKIPPED' },
+      reason: '不适用'
+    });
+  });
+});
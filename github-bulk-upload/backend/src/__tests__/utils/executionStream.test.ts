@@ -0,0 +1,88 @@
+import { ExecutionStream, ExecutionStreamMessage, formatSseMessage, listViewers } from '../../utils/executionStream';
+
+describe('executionStream', () => {
+  it('should format messages as server-sent events', () => {
+    const message: ExecutionStreamMessage = {
+      type: 'step',
+      executionId: 'e1',
+      recordId: 'r1',
+      data: { record: { id: 'r1', status: 'COMPLETED' } },
+      at: '2024-12-30T10:00:00.000Z'
+    };
+
+    expect(formatSseMessage(message, 3)).toBe(`id: 3\nevent: step\ndata: ${JSON.stringify(message)}\n\n`);
+    expect(formatSseMessage(message)).toBe(`event: step\ndata: ${JSON.stringify(message)}\n\n`);
+  });
+
+  it('should list each viewer once', () => {
+    expect(listViewers([
+      { id: 'u1', name: 'Alice' },
+      { id: 'u2', name: 'Bob' },
+      { id: 'u1', name: 'Alice' }
+    ])).toEqual([{ id: 'u1', name: 'Alice' }, { id: 'u2', name: 'Bob' }]);
+  });
+
+  describe('ExecutionStream', () => {
+    it('should publish messages only to subscribers of the execution', () => {
+      const stream = new ExecutionStream();
+      const first: ExecutionStreamMessage[] = [];
+      const other: ExecutionStreamMessage[] = [];
+      stream.subscribe('e1', { id: 'u1', name: 'Alice' }, message => first.push(message), jest.fn());
+      stream.subscribe('e2', { id: 'u2', name: 'Bob' }, message => other.push(message), jest.fn());
+
+      stream.publish({ type: 'comment', executionId: 'e1', data: { commentId: 'c1', action: 'created' } });
+
+      expect(first.map(message => message.type)).toEqual(['presence', 'comment']);
+      expect(first[1].at).toBeDefined();
+      expect(other.map(message => message.type)).toEqual(['presence']);
+    });
+
+    it('should publish presence when viewers join and leave', () => {
+      const stream = new ExecutionStream();
+      const received: ExecutionStreamMessage[] = [];
+      stream.subscribe('e1', { id: 'u1', name: 'Alice' }, message => received.push(message), jest.fn());
+      const leave = stream.subscribe('e1', { id: 'u2', name: 'Bob' }, jest.fn(), jest.fn());
+
+      expect(received[1].data.viewers).toEqual([{ id: 'u1', name: 'Alice' }, { id: 'u2', name: 'Bob' }]);
+
+      leave();
+      expect(received[2].data.viewers).toEqual([{ id: 'u1', name: 'Alice' }]);
+      expect(stream.getViewers('e1')).toEqual([{ id: 'u1', name: 'Alice' }]);
+    });
+
+    it('should keep publishing when a subscriber fails', () => {
+      const stream = new ExecutionStream();
+      const received: ExecutionStreamMessage[] = [];
+      stream.subscribe('e1', { id: 'u1', name: 'Alice' }, () => {
+        throw new Error('closed');
+      }, jest.fn());
+      stream.subscribe('e1', { id: 'u2', name: 'Bob' }, message => received.push(message), jest.fn());
+
+      stream.publish({ type: 'execution', executionId: 'e1', data: { execution: { progress: 50 } } });
+
+      expect(received.map(message => message.type)).toEqual(['presence', 'execution']);
+    });
+
+    it('should close the connections of a disconnected user', () => {
+      const stream = new ExecutionStream();
+      const closeAlice = jest.fn();
+      const closeBob = jest.fn();
+      stream.subscribe('e1', { id: 'u1', name: 'Alice' }, jest.fn(), closeAlice);
+      stream.subscribe('e1', { id: 'u2', name: 'Bob' }, jest.fn(), closeBob);
+
+      stream.disconnect('e1', 'u2');
+
+      expect(closeBob).toHaveBeenCalled();
+      expect(closeAlice).not.toHaveBeenCalled();
+    });
+
+    it('should forget executions without subscribers', () => {
+      const stream = new ExecutionStream();
+      const leave = stream.subscribe('e1', { id: 'u1', name: 'Alice' }, jest.fn(), jest.fn());
+
+      expect(stream.hasSubscribers('e1')).toBe(true);
+      leave();
+      expect(stream.hasSubscribers('e1')).toBe(false);
+    });
+  });
+});
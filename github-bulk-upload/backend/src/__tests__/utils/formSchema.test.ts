@@ -0,0 +1,80 @@
+import { parseFormFields, validateFormData, FormField } from '../../utils/formSchema';
+
+describe('formSchema', () => {
+  const fields: FormField[] = [
+    { key: 'ticker', label: '股票代码', type: 'ticker', required: true },
+    { key: 'positionRatio', label: '仓位比例', type: 'percentage', required: true, min: 0, max: 30 },
+    { key: 'stopLossPrice', label: '止损价位', type: 'currency', min: 0 },
+    { key: 'reviewDate', label: '复查日期', type: 'date', min: '2024-01-01' },
+    { key: 'strategy', label: '建仓方式', type: 'select', options: ['一次建仓', '分批建仓'] },
+    { key: 'rationale', label: '仓位理由', type: 'textarea', max: 10 }
+  ];
+
+  describe('parseFormFields', () => {
+    it('should read typed fields from metadata JSON', () => {
+      expect(parseFormFields(JSON.stringify({ fields }))).toEqual(fields);
+    });
+
+    it('should treat legacy string fields as text', () => {
+      expect(parseFormFields({ fields: ['仓位比例'] })).toEqual([
+        { key: '仓位比例', label: '仓位比例', type: 'text' }
+      ]);
+    });
+
+    it('should return an empty list without fields', () => {
+      expect(parseFormFields(null)).toEqual([]);
+      expect(parseFormFields({ checklist: ['查看最新财报'] })).toEqual([]);
+    });
+  });
+
+  describe('validateFormData', () => {
+    it('should coerce valid values', () => {
+      const result = validateFormData(fields, {
+        ticker: ' 600519.sh ',
+        positionRatio: '15%',
+        stopLossPrice: '1,650.5',
+        reviewDate: '2024-06-30T00:00:00.000Z',
+        strategy: '分批建仓',
+        decision: '买入'
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.values).toEqual({
+        ticker: '600519.SH',
+        positionRatio: 15,
+        stopLossPrice: 1650.5,
+        reviewDate: '2024-06-30',
+        strategy: '分批建仓',
+        decision: '买入'
+      });
+    });
+
+    it('should report missing required fields', () => {
+      const result = validateFormData(fields, { positionRatio: '' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => error.field)).toEqual(['ticker', 'positionRatio']);
+      expect(result.errors[0].message).toBe('"股票代码" 是必填项');
+    });
+
+    it('should enforce ranges, options and formats', () => {
+      const result = validateFormData(fields, {
+        ticker: '贵州茅台',
+        positionRatio: 45,
+        stopLossPrice: 'abc',
+        reviewDate: '2023-12-31',
+        strategy: '全仓',
+        rationale: '理由写得太长了超过十个字'
+      });
+
+      expect(result.errors.map(error => error.message)).toEqual([
+        '"股票代码" 不是有效的股票代码',
+        '"仓位比例" 不能大于 30',
+        '"止损价位" 必须是数字',
+        '"复查日期" 不能早于 2024-01-01',
+        '"建仓方式" 必须是以下选项之一: 一次建仓、分批建仓',
+        '"仓位理由" 不能超过 10 个字符'
+      ]);
+    });
+  });
+});
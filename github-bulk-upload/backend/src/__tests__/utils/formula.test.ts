@@ -0,0 +1,128 @@
+import {
+  parseFormula,
+  collectReferences,
+  evaluateFormula,
+  parseCalculations,
+  runCalculations,
+  FORMULA_FUNCTIONS
+} from '../../utils/formula';
+
+describe('formula', () => {
+  const evaluate = (formula: string, values: Record<string, any> = {}) =>
+    evaluateFormula(formula, path => values[path.join('.')]).value;
+
+  describe('parseFormula', () => {
+    it('should respect operator precedence', () => {
+      expect(evaluate('2 + 3 * 4')).toBe(14);
+      expect(evaluate('(2 + 3) * 4')).toBe(20);
+      expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+      expect(evaluate('-2 ^ 2')).toBe(-4);
+      expect(evaluate('8% * 100')).toBe(8);
+      expect(evaluate('1 + 2 > 2')).toBe(1);
+    });
+
+    it('should reject invalid syntax with the position', () => {
+      expect(() => parseFormula('eps * ')).toThrow('公式不完整');
+      expect(() => parseFormula('eps ** 2')).toThrow('位置 6');
+      expect(() => parseFormula('require(1)')).toThrow('未知函数 "require"');
+      expect(() => parseFormula('process.exit(1)')).toThrow('意外的 "("');
+      expect(() => parseFormula('eps; targetPE')).toThrow('无法识别的字符 ";"');
+      expect(() => parseFormula('round()')).toThrow('参数数量不正确');
+    });
+
+    it('should reject names inherited from the object prototype', () => {
+      expect(() => parseFormula('constructor(1)')).toThrow('未知函数 "constructor"');
+      expect(() => parseFormula('toString(1)')).toThrow('未知函数 "toString"');
+      expect(() => parseFormula('hasOwnProperty(1)')).toThrow('未知函数 "hasOwnProperty"');
+      expect(() => evaluateFormula({ type: 'call', name: '__proto__', args: [] }, () => undefined)).toThrow('未知函数');
+    });
+
+    it('should collect references', () => {
+      expect(collectReferences(parseFormula('eps * targetPE + step1.revenue / eps'))).toEqual(['eps', 'targetPE', 'step1.revenue']);
+    });
+  });
+
+  describe('evaluateFormula', () => {
+    it('should record referenced inputs', () => {
+      const result = evaluateFormula('eps * targetPE', path => ({ eps: '2.5', targetPE: 20 } as any)[path[0]]);
+
+      expect(result).toEqual({ value: 50, inputs: { eps: 2.5, targetPE: 20 } });
+    });
+
+    it('should fail on missing references and division by zero', () => {
+      expect(() => evaluate('eps * 2')).toThrow('引用 "eps" 不存在或没有值');
+      expect(() => evaluate('eps * 2', { eps: 'abc' })).toThrow('引用 "eps" 的值不是数字');
+      expect(() => evaluate('1 / 0')).toThrow('除数不能为0');
+    });
+
+    it('should only evaluate the selected if branch', () => {
+      expect(evaluate('if(shares > 0, income / shares, 0)', { shares: 0, income: 100 })).toBe(0);
+    });
+
+    it('should compute npv and dcf', () => {
+      expect(evaluate('round(npv(10%, 110, 121), 2)')).toBe(200);
+      expect(FORMULA_FUNCTIONS.dcf.fn(1, 0, 0.1, 0, 1)).toBeCloseTo(10);
+      expect(() => evaluate('dcf(1, 5%, 3%, 3%)')).toThrow('折现率必须大于永续增长率');
+    });
+
+    it('should compute capm and wacc', () => {
+      expect(evaluate('capm(3%, 1.2, 5%)')).toBeCloseTo(0.09);
+      expect(evaluate('wacc(capm(3%, 1.2, 5%), 5%, 25%, 30%)')).toBeCloseTo(0.07425);
+    });
+
+    it('should compute irr and pmt', () => {
+      expect(evaluate('round(irr(-100, 110), 4)')).toBe(0.1);
+      expect(evaluate('pmt(0, 10, 1000)')).toBe(100);
+      expect(() => evaluate('irr(100, 100)')).toThrow('现金流无法计算内部收益率');
+    });
+  });
+
+  describe('runCalculations', () => {
+    const calculations = parseCalculations(JSON.stringify({
+      calculations: [
+        'PE估值',
+        { key: 'peValue', label: 'PE估值', formula: 'eps * targetPE', precision: 2 },
+        { key: 'upside', label: '上涨空间', formula: '(peValue - step1.price) / step1.price * 100', unit: '%', precision: 1 },
+        { key: 'riskAdjusted', label: '风险调整', formula: 'peValue * (1 - vars.riskDiscount)', precision: 3 }
+      ]
+    }));
+
+    it('should skip legacy entries without formulas', () => {
+      expect(calculations.map(calculation => calculation.key)).toEqual(['peValue', 'upside', 'riskAdjusted']);
+    });
+
+    it('should resolve own data, earlier results, other steps and variables', () => {
+      const trace = runCalculations(calculations, {
+        data: { eps: 1.234, targetPE: 15 },
+        steps: { '1': { price: 15 } },
+        variables: { riskDiscount: 0.1 }
+      });
+
+      expect(trace.map(item => item.value)).toEqual([18.51, 23.4, 16.659]);
+      expect(trace[1].inputs).toEqual({ peValue: 18.51, 'step1.price': 15 });
+      expect(trace[1].unit).toBe('%');
+    });
+
+    it('should report errors per calculation', () => {
+      const trace = runCalculations(calculations, { data: { eps: 1, targetPE: 10 } });
+
+      expect(trace[0].value).toBe(10);
+      expect(trace[1].error).toBe('引用 "step1.price" 不存在或没有值');
+      expect(trace[2].error).toBe('引用 "vars.riskDiscount" 不存在或没有值');
+    });
+
+    it('should not resolve prototype properties as references', () => {
+      const trace = runCalculations([
+        { key: 'a', label: 'a', formula: 'constructor + 1' },
+        { key: 'b', label: 'b', formula: 'vars.toString' },
+        { key: 'c', label: 'c', formula: 'step1.price.constructor' }
+      ], { data: {}, steps: { '1': { price: 15 } }, variables: {} });
+
+      expect(trace.map(item => item.error)).toEqual([
+        '引用 "constructor" 不存在或没有值',
+        '引用 "vars.toString" 不存在或没有值',
+        '引用 "step1.price.constructor" 不存在或没有值'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  buildTemplateContext,
+  parseNotificationConfig,
+  renderTemplate
+} from '../../utils/notifications';
+
+describe('notifications', () => {
+  const context = buildTemplateContext({
+    workflow: { id: 'w1', name: '股票投资分析流程' },
+    execution: { id: 'e1', title: '分析腾讯控股' },
+    variables: { ticker: '00700.HK' },
+    steps: {
+      '2': { ticker: 'OLD', targetPrice: 380.5 },
+      '5': { decision: '买入', reasons: ['估值合理', '现金流稳定'] }
+    }
+  });
+
+  describe('parseNotificationConfig', () => {
+    it('should read the notification config from step metadata', () => {
+      expect(parseNotificationConfig(JSON.stringify({ notification: { template: '{{ticker}}' } }))).toEqual({ template: '{{ticker}}' });
+      expect(parseNotificationConfig({ notification: { channels: ['slack'], template: 'hi' } })).toEqual({ channels: ['slack'], template: 'hi' });
+      expect(parseNotificationConfig({ fields: [] })).toBeNull();
+    });
+
+    it('should reject unknown channels and empty templates', () => {
+      expect(parseNotificationConfig({ notification: { channels: ['sms'], template: 'hi' } })).toBeNull();
+      expect(parseNotificationConfig({ notification: { template: '' } })).toBeNull();
+    });
+  });
+
+  describe('buildTemplateContext', () => {
+    it('should let execution variables win over step data and later steps win over earlier ones', () => {
+      expect(context.ticker).toBe('00700.HK');
+      expect(context.decision).toBe('买入');
+      expect(context.steps['2'].ticker).toBe('OLD');
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should substitute nested paths and format values', () => {
+      const result = renderTemplate(
+        '【{{workflow.name}}】{{ ticker }} 决策：{{decision}}，目标价 {{targetPrice}}，理由：{{steps.5.reasons}}',
+        context
+      );
+
+      expect(result.text).toBe('【股票投资分析流程】00700.HK 决策：买入，目标价 380.5，理由：估值合理、现金流稳定');
+      expect(result.missing).toEqual([]);
+    });
+
+    it('should blank out and report missing values', () => {
+      const result = renderTemplate('止损 {{stopLoss}} / {{steps.9.price}} / {{stopLoss}}', context);
+
+      expect(result.text).toBe('止损  /  / ');
+      expect(result.missing).toEqual(['stopLoss', 'steps.9.price']);
+    });
+  });
+});
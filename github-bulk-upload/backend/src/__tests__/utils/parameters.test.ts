@@ -0,0 +1,80 @@
+import {
+  buildExecutionTitle,
+  interpolateText,
+  parseParameterDefinitions,
+  parseParameterFilters,
+  parseTitleTemplate,
+  toParameterRows,
+  validateParameters
+} from '../../utils/parameters';
+
+describe('parameters', () => {
+  const metadata = JSON.stringify({
+    parameters: [
+      { key: 'ticker', label: '股票代码', type: 'ticker', required: true },
+      { key: 'market', label: '市场', type: 'select', options: ['A股', '港股', '美股'], default: '港股' },
+      { key: 'budget', label: '预算', type: 'currency', min: 0 }
+    ],
+    titleTemplate: '{{workflow.name}} - {{ticker}}'
+  });
+  const definitions = parseParameterDefinitions(metadata);
+
+  describe('parseParameterDefinitions', () => {
+    it('should read parameter definitions from workflow metadata', () => {
+      expect(definitions.map(definition => definition.key)).toEqual(['ticker', 'market', 'budget']);
+      expect(definitions[1].default).toBe('港股');
+      expect(parseParameterDefinitions(null)).toEqual([]);
+      expect(parseTitleTemplate(metadata)).toBe('{{workflow.name}} - {{ticker}}');
+    });
+  });
+
+  describe('validateParameters', () => {
+    it('should require declared parameters and apply defaults', () => {
+      const result = validateParameters(definitions, { ticker: '00700.hk', budget: '1,000,000' });
+      expect(result.isValid).toBe(true);
+      expect(result.values).toEqual({ ticker: '00700.HK', market: '港股', budget: 1000000 });
+    });
+
+    it('should report each invalid parameter', () => {
+      const result = validateParameters(definitions, { market: '日股' });
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => error.field)).toEqual(['ticker', 'market']);
+    });
+  });
+
+  describe('buildExecutionTitle', () => {
+    const values = { ticker: '00700.HK', market: '港股' };
+
+    it('should render the title template', () => {
+      expect(buildExecutionTitle('个股研究', definitions, values, '{{workflow.name}} - {{ticker}}')).toBe('个股研究 - 00700.HK');
+    });
+
+    it('should fall back to the workflow name and parameter values', () => {
+      expect(buildExecutionTitle('个股研究', definitions, values)).toBe('个股研究 · 00700.HK / 港股');
+      expect(buildExecutionTitle('个股研究', [], {})).toBeNull();
+    });
+  });
+
+  describe('interpolateText', () => {
+    it('should keep placeholders that have no value', () => {
+      expect(interpolateText('研究 {{ticker}} 的 {{horizon}}', { ticker: '00700.HK' })).toBe('研究 00700.HK 的 {{horizon}}');
+      expect(interpolateText(null, {})).toBeNull();
+    });
+  });
+
+  describe('toParameterRows', () => {
+    it('should only index declared scalar parameters', () => {
+      expect(toParameterRows(definitions, { ticker: '00700.HK', budget: 1000000, scheduledFor: 'x' })).toEqual([
+        { key: 'ticker', value: '00700.HK' },
+        { key: 'budget', value: '1000000' }
+      ]);
+    });
+  });
+
+  describe('parseParameterFilters', () => {
+    it('should accept json and param.<key> query parameters', () => {
+      expect(parseParameterFilters({ params: '{"ticker":"00700.HK"}', 'param.market': '港股', status: 'COMPLETED' }))
+        .toEqual({ ticker: '00700.HK', market: '港股' });
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  accessibleExecutionWhere,
+  assignStepSchema,
+  canWorkOnStep,
+  hasExecutionAccess,
+  participantSchema,
+  resolveExecutionRole
+} from '../../utils/participants';
+
+describe('participants', () => {
+  describe('accessibleExecutionWhere', () => {
+    it('should include executions the user participates in', () => {
+      expect(accessibleExecutionWhere('u1')).toEqual({
+        OR: [
+          { userId: 'u1' },
+          { participants: { some: { userId: 'u1', role: { in: ['VIEWER', 'CONTRIBUTOR'] } } } }
+        ]
+      });
+      expect(accessibleExecutionWhere('u1', 'contribute')).toEqual({
+        OR: [
+          { userId: 'u1' },
+          { participants: { some: { userId: 'u1', role: { in: ['CONTRIBUTOR'] } } } }
+        ]
+      });
+    });
+
+    it('should only match the owner for management', () => {
+      expect(accessibleExecutionWhere('u1', 'manage')).toEqual({ userId: 'u1' });
+    });
+  });
+
+  it('should resolve the role of owners and participants', () => {
+    const participants = [{ userId: 'u2', role: 'VIEWER' }, { userId: 'u3', role: 'CONTRIBUTOR' }];
+
+    expect(resolveExecutionRole('u1', participants, 'u1')).toBe('OWNER');
+    expect(resolveExecutionRole('u1', participants, 'u2')).toBe('VIEWER');
+    expect(resolveExecutionRole('u1', participants, 'u3')).toBe('CONTRIBUTOR');
+    expect(resolveExecutionRole('u1', participants, 'u4')).toBeNull();
+  });
+
+  it('should check access levels by role', () => {
+    expect(hasExecutionAccess('VIEWER', 'view')).toBe(true);
+    expect(hasExecutionAccess('VIEWER', 'contribute')).toBe(false);
+    expect(hasExecutionAccess('CONTRIBUTOR', 'contribute')).toBe(true);
+    expect(hasExecutionAccess('CONTRIBUTOR', 'manage')).toBe(false);
+    expect(hasExecutionAccess('OWNER', 'manage')).toBe(true);
+    expect(hasExecutionAccess(null, 'view')).toBe(false);
+  });
+
+  describe('canWorkOnStep', () => {
+    it('should let contributors work on unassigned steps and steps assigned to them', () => {
+      expect(canWorkOnStep('CONTRIBUTOR', 'u3', null)).toBe(true);
+      expect(canWorkOnStep('CONTRIBUTOR', 'u3', 'u3')).toBe(true);
+      expect(canWorkOnStep('CONTRIBUTOR', 'u3', 'u4')).toBe(false);
+    });
+
+    it('should let the owner work on any step and viewers on none', () => {
+      expect(canWorkOnStep('OWNER', 'u1', 'u3')).toBe(true);
+      expect(canWorkOnStep('VIEWER', 'u2', null)).toBe(false);
+      expect(canWorkOnStep('VIEWER', 'u2', 'u2')).toBe(false);
+    });
+  });
+
+  it('should validate participant and assignment input', () => {
+    expect(participantSchema.validate({ user: 'analyst@example.com' }).value).toEqual({
+      user: 'analyst@example.com',
+      role: 'CONTRIBUTOR'
+    });
+    expect(participantSchema.validate({ user: 'u2', role: 'OWNER' }).error).toBeDefined();
+    expect(assignStepSchema.validate({ assigneeId: null }).error).toBeUndefined();
+    expect(assignStepSchema.validate({}).error).toBeDefined();
+  });
+});
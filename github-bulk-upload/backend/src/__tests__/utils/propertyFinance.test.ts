@@ -0,0 +1,84 @@
+import {
+  npv,
+  irr,
+  payment,
+  runPropertyModel,
+  parsePropertyModelConfig,
+  INVALID_PROPERTY_INPUT
+} from '../../utils/propertyFinance';
+
+describe('propertyFinance', () => {
+  const baseInput = {
+    purchasePrice: 1000000,
+    rentRoll: [{ unit: '101', monthlyRent: 5000 }, { unit: '102', monthlyRent: 5000 }],
+    operatingExpenses: 20000,
+    holdingPeriod: 5,
+    exitCapRate: 0.1,
+    discountRate: 0.08
+  };
+
+  describe('npv and irr', () => {
+    it('should discount from period zero', () => {
+      expect(npv(0.1, [-100, 110])).toBeCloseTo(0);
+    });
+
+    it('should solve irr and reject flows without a sign change', () => {
+      expect(irr([-100, 110])).toBeCloseTo(0.1, 6);
+      expect(irr([-1000, 100, 100, 1100])).toBeCloseTo(0.1, 6);
+      expect(irr([100, 100])).toBeNull();
+    });
+
+    it('should compute annuity payments', () => {
+      expect(payment(0, 10, 1000)).toBe(100);
+      expect(payment(0.05, 2, 1000)).toBeCloseTo(537.8, 1);
+    });
+  });
+
+  describe('runPropertyModel', () => {
+    it('should compute unlevered metrics without a loan', () => {
+      const { output } = runPropertyModel(baseInput);
+
+      expect(output.equity).toBe(1000000);
+      expect(output.years[0]).toMatchObject({ grossPotentialRent: 120000, noi: 100000, capRate: 0.1, dscr: null, cashOnCash: 0.1 });
+      expect(output.exit.salePrice).toBe(1000000);
+      expect(output.summary.irr).toBeCloseTo(0.1, 4);
+      expect(output.summary.unleveredIrr).toBeCloseTo(0.1, 4);
+      expect(output.summary.minDscr).toBeNull();
+      expect(output.summary.equityMultiple).toBe(1.5);
+    });
+
+    it('should apply financing, vacancy and growth', () => {
+      const { output } = runPropertyModel({
+        ...baseInput,
+        vacancyRate: 0.05,
+        rentGrowth: 0.03,
+        loan: { ltv: 0.6, interestRate: 0.06, amortizationYears: 1, interestOnlyYears: 1 }
+      });
+
+      expect(output.loanAmount).toBe(600000);
+      expect(output.years[0].debtService).toBe(36000);
+      expect(output.years[0].loanBalance).toBe(600000);
+      expect(output.years[0].dscr).toBeCloseTo(94000 / 36000, 2);
+      expect(output.years[1].loanBalance).toBe(0);
+      expect(output.years[1].grossPotentialRent).toBe(123600);
+      expect(output.summary.minDscr).toBe(output.years[1].dscr);
+      expect(output.summary.irr).not.toBeNull();
+    });
+
+    it('should reject invalid input with a coded error', () => {
+      expect(() => runPropertyModel({ ...baseInput, rentRoll: [] })).toThrow(expect.objectContaining({
+        code: INVALID_PROPERTY_INPUT,
+        message: expect.stringContaining('租金清单至少需要一个单元')
+      }));
+      expect(() => runPropertyModel({ ...baseInput, loan: { amount: 1200000, interestRate: 0.05, amortizationYears: 20 } }))
+        .toThrow('贷款金额不能超过购买总成本');
+    });
+  });
+
+  describe('parsePropertyModelConfig', () => {
+    it('should apply defaults and ignore steps without a property model', () => {
+      expect(parsePropertyModelConfig('{"propertyModel":true}')).toEqual({ required: false });
+      expect(parsePropertyModelConfig({ calculations: ['租金收益率'] })).toBeNull();
+    });
+  });
+});
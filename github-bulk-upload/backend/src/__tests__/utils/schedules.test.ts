@@ -0,0 +1,81 @@
+import {
+  getNextOccurrence,
+  getUpcomingOccurrences,
+  parseCron,
+  scheduleSchema,
+  scheduleUpdateSchema
+} from '../../utils/schedules';
+
+describe('schedules', () => {
+  describe('parseCron', () => {
+    it('should expand lists, ranges and steps', () => {
+      const fields = parseCron('*/15 9-17/4 1,15 * 1-5');
+      expect(fields.minutes).toEqual([0, 15, 30, 45]);
+      expect(fields.hours).toEqual([9, 13, 17]);
+      expect(fields.days).toEqual([1, 15]);
+      expect(fields.weekdays).toEqual([1, 2, 3, 4, 5]);
+      expect(fields.anyDay).toBe(false);
+      expect(fields.anyWeekday).toBe(false);
+    });
+
+    it('should resolve aliases and treat 7 as sunday', () => {
+      expect(parseCron('@quarterly').months).toEqual([1, 4, 7, 10]);
+      expect(parseCron('0 9 * * 0,7').weekdays).toEqual([0]);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCron('0 9 * *')).toThrow('5 段');
+      expect(() => parseCron('60 9 * * *')).toThrow('分钟');
+      expect(() => parseCron('0 9 * * MON')).toThrow('星期');
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('should compute occurrences in the schedule time zone', () => {
+      // 上海时间 2024-12-20（周五）10:00 之后的下一个周一 9:00
+      const after = new Date('2024-12-20T02:00:00Z');
+      expect(getNextOccurrence('@weekly', 'Asia/Shanghai', after)).toEqual(new Date('2024-12-23T01:00:00Z'));
+      expect(getNextOccurrence('@weekly', 'America/New_York', after)).toEqual(new Date('2024-12-23T14:00:00Z'));
+    });
+
+    it('should be strictly after the given time', () => {
+      const occurrence = new Date('2024-12-23T01:00:00Z');
+      expect(getNextOccurrence('0 9 * * *', 'Asia/Shanghai', occurrence)).toEqual(new Date('2024-12-24T01:00:00Z'));
+    });
+
+    it('should match either day of month or weekday when both are restricted', () => {
+      const occurrences = getUpcomingOccurrences('0 9 1 * 1', 'UTC', new Date('2024-12-27T00:00:00Z'), 3);
+      expect(occurrences.map(date => date.toISOString())).toEqual([
+        '2024-12-30T09:00:00.000Z',
+        '2025-01-01T09:00:00.000Z',
+        '2025-01-06T09:00:00.000Z'
+      ]);
+    });
+
+    it('should skip wall clock times removed by daylight saving', () => {
+      // 2025-03-09 纽约 2:30 不存在
+      const occurrences = getUpcomingOccurrences('30 2 * * *', 'America/New_York', new Date('2025-03-08T12:00:00Z'), 2);
+      expect(occurrences.map(date => date.toISOString())).toEqual([
+        '2025-03-10T06:30:00.000Z',
+        '2025-03-11T06:30:00.000Z'
+      ]);
+    });
+
+    it('should return null for expressions that never fire', () => {
+      expect(getNextOccurrence('0 9 30 2 *', 'UTC', new Date('2024-12-20T00:00:00Z'))).toBeNull();
+    });
+  });
+
+  describe('scheduleSchema', () => {
+    it('should validate the cron expression and time zone', () => {
+      expect(scheduleSchema.validate({ name: '周度组合回顾', cron: '@weekly' }).value)
+        .toEqual({ name: '周度组合回顾', cron: '@weekly', priority: 'MEDIUM', isActive: true });
+      expect(scheduleSchema.validate({ name: 'x', cron: '0 25 * * *' }).error?.message).toContain('小时');
+      expect(scheduleSchema.validate({ name: 'x', cron: '@daily', timezone: 'Mars/Base' }).error?.message).toContain('时区');
+    });
+
+    it('should not apply defaults when updating', () => {
+      expect(scheduleUpdateSchema.validate({ cron: '@monthly' }).value).toEqual({ cron: '@monthly' });
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  computeDueAt,
+  ESCALATION_MANAGER,
+  ESCALATION_NONE,
+  ESCALATION_OWNER,
+  formatMinutes,
+  getEscalationLevel,
+  isExecutionOverdue,
+  parseSlaConfig
+} from '../../utils/sla';
+
+describe('sla', () => {
+  const startedAt = new Date('2024-12-20T09:00:00Z');
+  const minutesLater = (minutes: number) => new Date(startedAt.getTime() + minutes * 60 * 1000);
+
+  describe('parseSlaConfig', () => {
+    it('should default the time limit to the estimated time', () => {
+      expect(parseSlaConfig(null, 30)).toEqual({ minutes: 30, escalateAfter: 30, managerRole: 'ADMIN' });
+      expect(parseSlaConfig(JSON.stringify({ fields: [] }), 45)).toEqual({ minutes: 45, escalateAfter: 45, managerRole: 'ADMIN' });
+    });
+
+    it('should prefer the step sla config', () => {
+      expect(parseSlaConfig({ sla: { minutes: 120, escalateAfter: 60, managerRole: 'SUPER_ADMIN' } }, 30))
+        .toEqual({ minutes: 120, escalateAfter: 60, managerRole: 'SUPER_ADMIN' });
+    });
+
+    it('should return null when the step has no time limit', () => {
+      expect(parseSlaConfig(null, null)).toBeNull();
+      expect(parseSlaConfig({ sla: { escalateAfter: 60 } })).toBeNull();
+    });
+
+    it('should ignore an invalid sla config', () => {
+      expect(parseSlaConfig({ sla: { minutes: 0, managerRole: 'GUEST' } }, 30))
+        .toEqual({ minutes: 30, escalateAfter: 30, managerRole: 'ADMIN' });
+    });
+  });
+
+  describe('getEscalationLevel', () => {
+    const config = { minutes: 60, escalateAfter: 30, managerRole: 'ADMIN' };
+    const dueAt = computeDueAt(startedAt, config);
+
+    it('should compute the due time from the start time', () => {
+      expect(dueAt).toEqual(minutesLater(60));
+    });
+
+    it('should notify the owner first and then the manager role', () => {
+      expect(getEscalationLevel(dueAt, config, minutesLater(60))).toBe(ESCALATION_NONE);
+      expect(getEscalationLevel(dueAt, config, minutesLater(61))).toBe(ESCALATION_OWNER);
+      expect(getEscalationLevel(dueAt, config, minutesLater(89))).toBe(ESCALATION_OWNER);
+      expect(getEscalationLevel(dueAt, config, minutesLater(90))).toBe(ESCALATION_MANAGER);
+    });
+  });
+
+  describe('isExecutionOverdue', () => {
+    it('should only count unfinished executions past their due date', () => {
+      const now = minutesLater(0);
+      expect(isExecutionOverdue({ dueDate: minutesLater(-1), status: 'IN_PROGRESS' }, now)).toBe(true);
+      expect(isExecutionOverdue({ dueDate: minutesLater(-1), status: 'PAUSED' }, now)).toBe(true);
+      expect(isExecutionOverdue({ dueDate: minutesLater(-1), status: 'COMPLETED' }, now)).toBe(false);
+      expect(isExecutionOverdue({ dueDate: minutesLater(1), status: 'IN_PROGRESS' }, now)).toBe(false);
+      expect(isExecutionOverdue({ dueDate: null, status: 'IN_PROGRESS' }, now)).toBe(false);
+    });
+  });
+
+  describe('formatMinutes', () => {
+    it('should describe durations in days, hours and minutes', () => {
+      expect(formatMinutes(0)).toBe('0分钟');
+      expect(formatMinutes(45)).toBe('45分钟');
+      expect(formatMinutes(120)).toBe('2小时');
+      expect(formatMinutes(60 * 24 + 75)).toBe('1天1小时15分钟');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  assertExecutionTransition,
+  assertStepTransition,
+  emitTransition,
+  EXECUTION_TRANSITIONS,
+  INVALID_TRANSITION,
+  STEP_TRANSITIONS,
+  stepActionFor,
+  TRANSITION_EVENT,
+  TransitionEvent,
+  transitionEvents
+} from '../../utils/stateMachine';
+import { ExecutionStatus, StepStatus } from '../../types/execution';
+
+describe('stateMachine', () => {
+  const catchError = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      return error as any;
+    }
+    throw new Error('expected to throw');
+  };
+
+  describe('assertExecutionTransition', () => {
+    it('should return the target status for allowed transitions', () => {
+      expect(assertExecutionTransition('pause', 'IN_PROGRESS')).toBe(ExecutionStatus.PAUSED);
+      expect(assertExecutionTransition('resume', 'PAUSED')).toBe(ExecutionStatus.IN_PROGRESS);
+      expect(assertExecutionTransition('cancel', 'PAUSED')).toBe(ExecutionStatus.CANCELLED);
+      expect(assertExecutionTransition('reopen', 'COMPLETED')).toBe(ExecutionStatus.IN_PROGRESS);
+    });
+
+    it('should reject transitions out of terminal states with INVALID_TRANSITION', () => {
+      const error = catchError(() => assertExecutionTransition('complete', 'CANCELLED'));
+
+      expect(error.code).toBe(INVALID_TRANSITION);
+      expect(error.message).toBe('执行当前已取消，不能完成');
+      expect(error.details).toEqual({ entity: 'execution', action: 'complete', from: 'CANCELLED', to: 'COMPLETED' });
+      expect(() => assertExecutionTransition('resume', 'CANCELLED')).toThrow();
+      expect(() => assertExecutionTransition('pause', 'PAUSED')).toThrow();
+    });
+  });
+
+  describe('assertStepTransition', () => {
+    it('should check the step status against the action', () => {
+      expect(assertStepTransition('start', 'PENDING', 'IN_PROGRESS')).toBe(StepStatus.IN_PROGRESS);
+      expect(assertStepTransition('skip', 'IN_PROGRESS', 'IN_PROGRESS')).toBe(StepStatus.SKIPPED);
+
+      const error = catchError(() => assertStepTransition('start', 'COMPLETED', 'IN_PROGRESS'));
+      expect(error.code).toBe(INVALID_TRANSITION);
+      expect(error.message).toBe('步骤当前已完成，不能开始');
+    });
+
+    it('should reject step transitions when the execution is not running', () => {
+      const error = catchError(() => assertStepTransition('start', 'PENDING', 'CANCELLED'));
+
+      expect(error.code).toBe(INVALID_TRANSITION);
+      expect(error.message).toBe('执行当前已取消，不能开始步骤');
+      expect(error.details.executionStatus).toBe('CANCELLED');
+      expect(() => assertStepTransition('complete', 'IN_PROGRESS', 'PAUSED')).toThrow();
+    });
+
+    it('should allow reopening steps of completed executions', () => {
+      expect(assertStepTransition('reopen', 'SKIPPED', 'COMPLETED')).toBe(StepStatus.IN_PROGRESS);
+      expect(() => assertStepTransition('reopen', 'SKIPPED', 'CANCELLED')).toThrow();
+    });
+
+    it('should not restrict condition-driven actions by execution status', () => {
+      expect(assertStepTransition('autoSkip', 'PENDING', 'PAUSED')).toBe(StepStatus.SKIPPED);
+      expect(assertStepTransition('restore', 'SKIPPED', 'PAUSED')).toBe(StepStatus.PENDING);
+    });
+
+    it('should allow failing an in-progress subworkflow step when its child execution ends', () => {
+      expect(assertStepTransition('autoFail', 'IN_PROGRESS', 'IN_PROGRESS')).toBe(StepStatus.FAILED);
+      expect(() => assertStepTransition('autoFail', 'COMPLETED', 'IN_PROGRESS')).toThrow();
+      expect(() => assertStepTransition('autoFail', 'IN_PROGRESS', 'PAUSED')).toThrow();
+    });
+  });
+
+  it('should map every step status to an action targeting it', () => {
+    for (const status of Object.values(StepStatus)) {
+      expect(STEP_TRANSITIONS[stepActionFor(status)].to).toBe(status);
+    }
+  });
+
+  it('should only reference known statuses in the transition tables', () => {
+    const executionStatuses: string[] = Object.values(ExecutionStatus);
+    const stepStatuses: string[] = Object.values(StepStatus);
+
+    for (const rule of Object.values(EXECUTION_TRANSITIONS)) {
+      expect([...rule.from, rule.to].every(status => executionStatuses.includes(status))).toBe(true);
+    }
+    for (const rule of Object.values(STEP_TRANSITIONS)) {
+      expect([...rule.from, rule.to].every(status => stepStatuses.includes(status))).toBe(true);
+      expect((rule.execution || []).every(status => executionStatuses.includes(status))).toBe(true);
+    }
+  });
+
+  it('should emit transition events to listeners', () => {
+    const received: TransitionEvent[] = [];
+    const listener = (event: TransitionEvent) => received.push(event);
+    transitionEvents.on(TRANSITION_EVENT, listener);
+
+    try {
+      emitTransition({ entity: 'step', action: 'skip', executionId: 'e1', recordId: 'r1', from: 'PENDING', to: 'SKIPPED', reason: '不适用' });
+    } finally {
+      transitionEvents.off(TRANSITION_EVENT, listener);
+    }
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ action: 'skip', recordId: 'r1', to: 'SKIPPED', reason: '不适用' });
+    expect(received[0].at).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,47 @@
+import { buildTemplateContext } from '../../utils/notifications';
+import { collectOutputs, mapValues, parseSubworkflowConfig } from '../../utils/subworkflows';
+
+describe('subworkflows', () => {
+  const context = buildTemplateContext({
+    workflow: { id: 'w2', name: '风险评估' },
+    execution: { id: 'e2' },
+    variables: { ticker: '00700.HK' },
+    steps: {
+      '1': { riskLevel: '中', score: 60 },
+      '3': { score: 72, notes: '管理层稳定' }
+    }
+  });
+
+  describe('parseSubworkflowConfig', () => {
+    it('should read the subworkflow config from step metadata', () => {
+      expect(parseSubworkflowConfig(JSON.stringify({ subworkflow: { workflowId: 'w2' } }))).toEqual({ workflowId: 'w2' });
+      expect(parseSubworkflowConfig({ subworkflow: { workflowId: 'w2', outputs: { riskScore: 'steps.3.score' } } }))
+        .toEqual({ workflowId: 'w2', outputs: { riskScore: 'steps.3.score' } });
+      expect(parseSubworkflowConfig({ fields: [] })).toBeNull();
+    });
+
+    it('should reject configs without a workflow or with invalid field names', () => {
+      expect(parseSubworkflowConfig({ subworkflow: { inputs: {} } })).toBeNull();
+      expect(parseSubworkflowConfig({ subworkflow: { workflowId: 'w2', outputs: { '1score': 'score' } } })).toBeNull();
+    });
+  });
+
+  describe('mapValues', () => {
+    it('should map paths into fields and report missing ones', () => {
+      const result = mapValues({ symbol: 'ticker', riskScore: 'steps.3.score', rating: 'steps.9.rating' }, context);
+
+      expect(result.values).toEqual({ symbol: '00700.HK', riskScore: 72 });
+      expect(result.missing).toEqual(['steps.9.rating']);
+    });
+  });
+
+  describe('collectOutputs', () => {
+    it('should use the outputs mapping when configured', () => {
+      expect(collectOutputs({ workflowId: 'w2', outputs: { riskLevel: 'riskLevel' } }, context).values).toEqual({ riskLevel: '中' });
+    });
+
+    it('should merge all step data in order when no mapping is configured', () => {
+      expect(collectOutputs({ workflowId: 'w2' }, context).values).toEqual({ riskLevel: '中', score: 72, notes: '管理层稳定' });
+    });
+  });
+});
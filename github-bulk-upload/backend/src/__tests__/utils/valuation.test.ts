@@ -0,0 +1,150 @@
+import {
+  calculateWacc,
+  runDcf,
+  buildSensitivityTable,
+  runMultiples,
+  runValuation,
+  parseValuationConfig,
+  DcfInput,
+  INVALID_VALUATION_INPUT
+} from '../../utils/valuation';
+
+describe('valuation', () => {
+  const perpetuityDcf: DcfInput = {
+    baseCashFlow: 100,
+    stages: [{ years: 1, growth: 0 }],
+    discountRate: 0.1,
+    terminalMethod: 'perpetuity',
+    terminalGrowth: 0,
+    netDebt: 200,
+    sharesOutstanding: 8
+  };
+
+  describe('calculateWacc', () => {
+    it('should weight CAPM cost of equity and after-tax cost of debt', () => {
+      const result = calculateWacc({
+        riskFreeRate: 0.03,
+        beta: 1.2,
+        marketRiskPremium: 0.05,
+        costOfDebt: 0.05,
+        taxRate: 0.25,
+        debtWeight: 0.3
+      });
+
+      expect(result.costOfEquity).toBeCloseTo(0.09);
+      expect(result.afterTaxCostOfDebt).toBeCloseTo(0.0375);
+      expect(result.wacc).toBeCloseTo(0.07425);
+    });
+  });
+
+  describe('runDcf', () => {
+    it('should value a perpetuity terminal and bridge to per-share value', () => {
+      const result = runDcf(perpetuityDcf);
+
+      expect(result.projections).toHaveLength(1);
+      expect(result.terminalValue).toBeCloseTo(1000);
+      expect(result.enterpriseValue).toBeCloseTo(1000);
+      expect(result.equityValue).toBeCloseTo(800);
+      expect(result.perShareValue).toBeCloseTo(100);
+    });
+
+    it('should support exit multiples and multiple stages', () => {
+      const result = runDcf({
+        baseCashFlow: 100,
+        stages: [{ years: 1, growth: 0.1 }, { years: 2, growth: 0 }],
+        discountRate: 0.1,
+        terminalMethod: 'exitMultiple',
+        exitMultiple: 10
+      });
+
+      expect(result.projections.map(item => item.cashFlow)).toEqual([110, 110, 110].map(value => expect.closeTo(value)));
+      expect(result.terminalValue).toBeCloseTo(1100);
+      expect(result.terminalPresentValue).toBeCloseTo(1100 / Math.pow(1.1, 3));
+    });
+
+    it('should reject a discount rate not above terminal growth', () => {
+      expect(() => runDcf({ ...perpetuityDcf, terminalGrowth: 0.1 })).toThrow('折现率必须大于永续增长率');
+    });
+  });
+
+  describe('buildSensitivityTable', () => {
+    it('should center the default grid on the base case', () => {
+      const table = buildSensitivityTable(perpetuityDcf, runDcf(perpetuityDcf));
+
+      expect(table.growthAxis).toBe('terminalGrowth');
+      expect(table.discountRates).toEqual([0.08, 0.09, 0.1, 0.11, 0.12]);
+      expect(table.growthRates).toEqual([-0.01, -0.005, 0, 0.005, 0.01]);
+      expect(table.values[2][2]).toBe(100);
+    });
+
+    it('should leave impossible scenarios empty', () => {
+      const input = { ...perpetuityDcf, sensitivity: { discountRates: [0.02, 0.1], growthRates: [0, 0.02] } };
+      const table = buildSensitivityTable(input, runDcf(input));
+
+      expect(table.values[0][1]).toBeNull();
+      expect(table.values[1][0]).toBe(100);
+    });
+  });
+
+  describe('runMultiples', () => {
+    it('should imply values from peer quartiles', () => {
+      const result = runMultiples({
+        peers: [
+          { name: 'A', pe: 10, evEbitda: 8 },
+          { name: 'B', pe: 20, evEbitda: 10 },
+          { name: 'C', pe: 30 },
+          { name: 'D', pe: 40, pb: 2 }
+        ],
+        metrics: { eps: 2, ebitda: 100 },
+        netDebt: 200,
+        sharesOutstanding: 50
+      });
+
+      expect(result.map(item => item.multiple)).toEqual(['pe', 'evEbitda']);
+      expect(result[0]).toMatchObject({ peerCount: 4, low: 17.5, median: 25, mean: 25, high: 32.5, impliedLow: 35, impliedValue: 50, impliedHigh: 65 });
+      expect(result[1]).toMatchObject({ impliedLow: 13, impliedValue: 14, impliedHigh: 15 });
+    });
+  });
+
+  describe('runValuation', () => {
+    it('should summarize a fair value range across methods', () => {
+      const { output } = runValuation({
+        currentPrice: 80,
+        dcf: perpetuityDcf,
+        multiples: { peers: [{ name: 'A', pe: 10 }, { name: 'B', pe: 20 }, { name: 'C', pe: 30 }], metrics: { eps: 5 } }
+      });
+
+      expect(output.summary.ranges.map(range => range.method)).toEqual(['dcf', 'multiples']);
+      expect(output.summary.base).toBe(100);
+      expect(output.summary.upside).toBe(0.25);
+      expect(output.summary.low).toBeLessThan(output.summary.base);
+      expect(output.summary.high).toBeGreaterThan(output.summary.base);
+    });
+
+    it('should only run the methods enabled for the step', () => {
+      const { output } = runValuation({ dcf: perpetuityDcf, multiples: { peers: [{ name: 'A', pe: 10 }], metrics: { eps: 5 } } }, ['multiples']);
+
+      expect(output.dcf).toBeUndefined();
+      expect(output.summary.base).toBe(50);
+    });
+
+    it('should reject invalid input with a coded error', () => {
+      const { discountRate, ...withoutRate } = perpetuityDcf;
+
+      expect(() => runValuation({ dcf: withoutRate })).toThrow(expect.objectContaining({
+        code: INVALID_VALUATION_INPUT,
+        message: expect.stringContaining('DCF必须指定折现率')
+      }));
+      expect(() => runValuation({})).toThrow('估值模型至少需要DCF或相对估值中的一种');
+      expect(() => runValuation({ dcf: { ...perpetuityDcf, terminalGrowth: 0.2 } })).toThrow('估值计算失败: 折现率必须大于永续增长率');
+    });
+  });
+
+  describe('parseValuationConfig', () => {
+    it('should apply defaults and ignore steps without a valuation model', () => {
+      expect(parseValuationConfig(JSON.stringify({ valuation: true }))).toEqual({ methods: ['dcf', 'multiples'], required: false });
+      expect(parseValuationConfig({ valuation: { methods: ['dcf'], required: true } })).toEqual({ methods: ['dcf'], required: true });
+      expect(parseValuationConfig({ fields: [] })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { createHmac } from 'crypto';
+import dns from 'dns';
+import {
+  assertPublicWebhookUrl,
+  getRetryDelay,
+  isPrivateAddress,
+  MAX_WEBHOOK_ATTEMPTS,
+  signWebhookPayload,
+  postWebhook,
+  subscriptionMatches,
+  WEBHOOK_URL_NOT_ALLOWED,
+  webhookEventForTransition,
+  webhookSubscriptionSchema,
+  webhookSubscriptionUpdateSchema
+} from '../../utils/webhooks';
+
+describe('webhooks', () => {
+  it('should sign the timestamp and body with the subscription secret', () => {
+    const body = JSON.stringify({ id: 'evt1', type: 'step.completed' });
+    const expected = createHmac('sha256', 'whsec_test').update(`1735552800.${body}`).digest('hex');
+
+    expect(signWebhookPayload('whsec_test', '1735552800', body)).toBe(`sha256=${expected}`);
+    expect(signWebhookPayload('whsec_other', '1735552800', body)).not.toBe(`sha256=${expected}`);
+  });
+
+  it('should back off exponentially until the attempt limit', () => {
+    expect(getRetryDelay(1)).toBe(60 * 1000);
+    expect(getRetryDelay(2)).toBe(2 * 60 * 1000);
+    expect(getRetryDelay(5)).toBe(16 * 60 * 1000);
+    expect(getRetryDelay(MAX_WEBHOOK_ATTEMPTS)).toBeNull();
+  });
+
+  it('should map execution transitions to webhook events', () => {
+    expect(webhookEventForTransition({ entity: 'execution', action: 'complete', to: 'COMPLETED' })).toBe('execution.completed');
+    expect(webhookEventForTransition({ entity: 'execution', action: 'autoComplete', to: 'COMPLETED' })).toBe('execution.completed');
+    expect(webhookEventForTransition({ entity: 'execution', action: 'resume', to: 'IN_PROGRESS' })).toBe('execution.resumed');
+    expect(webhookEventForTransition({ entity: 'execution', action: 'reopen', to: 'IN_PROGRESS' })).toBe('execution.reopened');
+    expect(webhookEventForTransition({ entity: 'execution', action: 'cancel', to: 'CANCELLED' })).toBe('execution.cancelled');
+  });
+
+  it('should map step transitions to webhook events', () => {
+    expect(webhookEventForTransition({ entity: 'step', action: 'start', to: 'IN_PROGRESS' })).toBe('step.started');
+    expect(webhookEventForTransition({ entity: 'step', action: 'reopen', to: 'IN_PROGRESS' })).toBe('step.reopened');
+    expect(webhookEventForTransition({ entity: 'step', action: 'autoFail', to: 'FAILED' })).toBe('step.failed');
+    expect(webhookEventForTransition({ entity: 'step', action: 'skip', to: 'SKIPPED' })).toBe('step.skipped');
+    expect(webhookEventForTransition({ entity: 'step', action: 'reset', to: 'PENDING' })).toBeNull();
+  });
+
+  it('should match subscriptions by event type and workflow', () => {
+    const subscription = { eventTypes: ['step.failed'], workflowId: 'w1', isActive: true };
+
+    expect(subscriptionMatches(subscription, 'step.failed', 'w1')).toBe(true);
+    expect(subscriptionMatches(subscription, 'step.failed', 'w2')).toBe(false);
+    expect(subscriptionMatches(subscription, 'step.completed', 'w1')).toBe(false);
+    expect(subscriptionMatches({ ...subscription, workflowId: null }, 'step.failed', 'w2')).toBe(true);
+    expect(subscriptionMatches({ ...subscription, isActive: false }, 'step.failed', 'w1')).toBe(false);
+  });
+
+  it('should validate subscriptions', () => {
+    const { error, value } = webhookSubscriptionSchema.validate({
+      name: '交易系统',
+      url: 'https://example.com/hooks',
+      eventTypes: ['execution.completed']
+    });
+    expect(error).toBeUndefined();
+    expect(value).toMatchObject({ isGlobal: false, isActive: true });
+
+    expect(webhookSubscriptionSchema.validate({
+      name: '交易系统',
+      url: 'ftp://example.com',
+      eventTypes: ['execution.completed']
+    }).error?.message).toBe('推送地址必须是 http 或 https 地址');
+    expect(webhookSubscriptionSchema.validate({
+      name: '交易系统',
+      url: 'https://example.com/hooks',
+      eventTypes: ['execution.started']
+    }).error?.message).toBe('事件类型无效');
+    expect(webhookSubscriptionUpdateSchema.validate({}).error?.message).toBe('没有需要修改的内容');
+  });
+
+  it('should classify loopback, private, link-local and metadata addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']
+      .forEach(address => expect(isPrivateAddress(address)).toBe(true));
+    ['8.8.8.8', '172.32.0.1', '2606:4700::1111', 'example.com']
+      .forEach(address => expect(isPrivateAddress(address)).toBe(false));
+  });
+
+  it('should reject webhook urls that point to internal hosts', async () => {
+    for (const url of [
+      'http://localhost:3000/hooks',
+      'http://api.localhost/hooks',
+      'http://metadata.google.internal/computeMetadata/v1/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://2130706433/',
+      'http://[::ffff:127.0.0.1]/hooks'
+    ]) {
+      await expect(assertPublicWebhookUrl(url)).rejects.toThrow(WEBHOOK_URL_NOT_ALLOWED);
+    }
+    await expect(assertPublicWebhookUrl('https://8.8.8.8/hooks')).resolves.toBeUndefined();
+  });
+
+  it('should reject domains that resolve to internal addresses', async () => {
+    const lookup = jest.spyOn(dns.promises, 'lookup') as jest.SpyInstance;
+    try {
+      lookup.mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }]);
+      await expect(assertPublicWebhookUrl('https://hooks.example.com/a')).rejects.toThrow(WEBHOOK_URL_NOT_ALLOWED);
+
+      lookup.mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }]);
+      await expect(assertPublicWebhookUrl('https://hooks.example.com/a')).resolves.toBeUndefined();
+      expect(lookup).toHaveBeenLastCalledWith('hooks.example.com', { all: true });
+    } finally {
+      lookup.mockRestore();
+    }
+  });
+
+  it('should not send requests to internal hosts', async () => {
+    await expect(postWebhook({ url: 'http://127.0.0.1:1/hooks', payload: {} })).rejects.toThrow(WEBHOOK_URL_NOT_ALLOWED);
+  });
+});
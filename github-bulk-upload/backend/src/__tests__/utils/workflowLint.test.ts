@@ -0,0 +1,89 @@
+import { lintWorkflow, LintStep } from '../../utils/workflowLint';
+
+describe('workflowLint', () => {
+  const steps: LintStep[] = [
+    { id: 's1', name: '基本面分析', order: 1, isRequired: true, stepType: 'CHECKLIST' },
+    { id: 's2', name: '估值分析', order: 2, isRequired: true, stepType: 'INPUT', dependencies: ['s1'], metadata: { fields: ['targetPrice'] } },
+    { id: 's3', name: '投资决策', order: 3, isRequired: true, stepType: 'DECISION', dependencies: '["s2"]', metadata: '{"options":["买入","观望"]}' },
+    {
+      id: 's4',
+      name: '建仓计划',
+      order: 4,
+      stepType: 'INPUT',
+      dependencies: ['3'],
+      conditions: { rules: [{ step: '3', operator: 'eq', value: '买入' }] }
+    }
+  ];
+
+  const codes = (issues: { code: string }[]) => issues.map(issue => issue.code);
+
+  it('should accept a consistent workflow', () => {
+    expect(lintWorkflow(steps)).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('should report dependency cycles, dangling and forward references', () => {
+    const result = lintWorkflow([
+      { ...steps[0], dependencies: ['s3'] },
+      steps[1],
+      { ...steps[2], dependencies: ['s2', 's9'] }
+    ]);
+
+    expect(result.valid).toBe(false);
+    expect(codes(result.errors)).toEqual(['DANGLING_DEPENDENCY', 'DEPENDENCY_CYCLE']);
+    expect(codes(result.warnings)).toEqual(['FORWARD_DEPENDENCY']);
+    expect(result.errors[1].message).toContain('基本面分析');
+  });
+
+  it('should report duplicate orders and empty names on unsaved steps', () => {
+    const result = lintWorkflow([
+      { name: '基本面分析', order: 1 },
+      { name: ' ', order: 1 }
+    ]);
+
+    expect(codes(result.errors)).toEqual(['EMPTY_STEP_NAME', 'DUPLICATE_ORDER']);
+    expect(result.errors[0].stepId).toBe('#2');
+  });
+
+  it('should report malformed conditions and branches that can never match', () => {
+    const result = lintWorkflow([
+      ...steps.slice(0, 3),
+      { ...steps[3], conditions: { rules: [{ step: '3', operator: 'eq', value: '卖出' }] } },
+      { id: 's5', name: '复盘', order: 5, conditions: '{"rules":[]}' }
+    ]);
+
+    expect(codes(result.errors)).toEqual(['MALFORMED_CONDITIONS']);
+    expect(codes(result.warnings)).toEqual(['UNREACHABLE_BRANCH']);
+    expect(result.warnings[0].stepId).toBe('s4');
+  });
+
+  it('should report malformed metadata, self-referencing subworkflows and empty required steps', () => {
+    const result = lintWorkflow([
+      { id: 's1', name: '风险评估', order: 1, stepType: 'SUBWORKFLOW', metadata: { subworkflow: { workflowId: 'w1' } } },
+      { id: 's2', name: '通知', order: 2, metadata: '{bad json' },
+      { id: 's3', name: '投资决策', order: 3, isRequired: true, stepType: 'DECISION' }
+    ], { workflowId: 'w1' });
+
+    expect(codes(result.errors)).toEqual(['SUBWORKFLOW_SELF_REFERENCE', 'MALFORMED_METADATA']);
+    expect(codes(result.warnings)).toEqual(['EMPTY_REQUIRED_STEP']);
+  });
+
+  it('should warn when evidence requires a field the step does not collect', () => {
+    const result = lintWorkflow([
+      {
+        id: 's1',
+        name: '估值分析',
+        order: 1,
+        stepType: 'INPUT',
+        metadata: { fields: ['targetPrice'], evidence: { requiredFields: ['targetPrice', 'rating'] } }
+      }
+    ]);
+
+    expect(result.valid).toBe(true);
+    expect(codes(result.warnings)).toEqual(['UNKNOWN_EVIDENCE_FIELD']);
+    expect(result.warnings[0].message).toContain('rating');
+  });
+
+  it('should reject an empty workflow', () => {
+    expect(codes(lintWorkflow([]).errors)).toEqual(['NO_STEPS']);
+  });
+});
@@ -0,0 +1,112 @@
+import YAML from 'yaml';
+import {
+  buildWorkflowDocument,
+  serializeWorkflowDocument,
+  parseWorkflowDocument,
+  toCreateWorkflowInput,
+  resolveImportName,
+  WORKFLOW_EXPORT_FORMAT,
+  WORKFLOW_IMPORT_INVALID
+} from '../../utils/workflowTransfer';
+
+describe('workflowTransfer', () => {
+  const workflow = {
+    name: '股票投资分析流程',
+    description: '系统化的股票投资分析流程',
+    category: '股票投资',
+    tags: '["股票","基本面分析"]',
+    metadata: null
+  };
+
+  const steps = [
+    { id: 'cuid-decision', name: '投资决策', order: 3, isRequired: true, stepType: 'DECISION', dependencies: '["cuid-fundamental","cuid-technical"]', conditions: null, metadata: '{"options":["买入","观望"]}' },
+    { id: 'cuid-fundamental', name: '基本面分析', order: 1, isRequired: true, stepType: 'CHECKLIST', dependencies: null, metadata: '{"checklist":["查看最新财报"]}' },
+    { id: 'cuid-technical', name: '技术面分析', order: 2, isRequired: false, stepType: 'CHECKLIST', dependencies: '["1"]', conditions: '{"rules":[{"step":"cuid-fundamental","operator":"exists","field":"summary"}]}' }
+  ];
+
+  describe('buildWorkflowDocument', () => {
+    it('should replace step ids with portable keys', () => {
+      const document = buildWorkflowDocument(workflow, steps, { workflowId: 'wf-1', version: 'draft' });
+
+      expect(document.format).toBe(WORKFLOW_EXPORT_FORMAT);
+      expect(document.workflow.tags).toEqual(['股票', '基本面分析']);
+      expect(document.steps.map(step => step.key)).toEqual(['step-1', 'step-2', 'step-3']);
+      expect(document.steps[1].dependencies).toEqual(['step-1']);
+      expect(document.steps[1].conditions!.rules[0].step).toBe('step-1');
+      expect(document.steps[2].dependencies).toEqual(['step-1', 'step-2']);
+      expect(document.steps[2].metadata).toEqual({ options: ['买入', '观望'] });
+    });
+  });
+
+  describe('parseWorkflowDocument', () => {
+    const document = buildWorkflowDocument(workflow, steps);
+
+    it('should round-trip JSON and YAML', () => {
+      const fromJson = parseWorkflowDocument(serializeWorkflowDocument(document, 'json'));
+      const fromYaml = parseWorkflowDocument(serializeWorkflowDocument(document, 'yaml'));
+
+      expect(fromJson.steps).toEqual(document.steps);
+      expect(fromYaml.steps).toEqual(document.steps);
+      expect(fromYaml.workflow.name).toBe('股票投资分析流程');
+    });
+
+    it('should reject documents in another format', () => {
+      expect(() => parseWorkflowDocument({ ...document, format: 'other' })).toThrow('导入文件验证失败');
+    });
+
+    it('should reject newer format versions', () => {
+      try {
+        parseWorkflowDocument(YAML.stringify({ ...document, formatVersion: 99 }));
+        fail('should have thrown');
+      } catch (error: any) {
+        expect(error.code).toBe(WORKFLOW_IMPORT_INVALID);
+        expect(error.details[0]).toContain('不支持的格式版本');
+      }
+    });
+
+    it('should report unknown step references', () => {
+      const broken = {
+        ...document,
+        steps: document.steps.map(step => (step.key === 'step-2' ? { ...step, dependencies: ['step-9'] } : step))
+      };
+
+      try {
+        parseWorkflowDocument(broken);
+        fail('should have thrown');
+      } catch (error: any) {
+        expect(error.details).toEqual(['步骤 "技术面分析" 的依赖 "step-9" 不存在']);
+      }
+    });
+
+    it('should reject dependency cycles', () => {
+      const cyclic = {
+        ...document,
+        steps: document.steps.map(step => (step.key === 'step-1' ? { ...step, dependencies: ['step-3'] } : step))
+      };
+
+      expect(() => parseWorkflowDocument(cyclic)).toThrow('导入文件验证失败');
+    });
+
+    it('should report invalid YAML', () => {
+      expect(() => parseWorkflowDocument('steps: [unclosed')).toThrow('导入文件不是有效的YAML');
+    });
+  });
+
+  describe('toCreateWorkflowInput', () => {
+    it('should map step keys to order references', () => {
+      const input = toCreateWorkflowInput(buildWorkflowDocument(workflow, steps), '股票投资分析流程 (导入)');
+
+      expect(input.name).toBe('股票投资分析流程 (导入)');
+      expect(input.steps![2].dependencies).toEqual(['1', '2']);
+      expect(input.steps![1].conditions.rules[0].step).toBe('1');
+    });
+  });
+
+  describe('resolveImportName', () => {
+    it('should keep unused names and number conflicts', () => {
+      expect(resolveImportName('新流程', ['旧流程'])).toBe('新流程');
+      expect(resolveImportName('新流程', ['新流程'])).toBe('新流程 (导入)');
+      expect(resolveImportName('新流程', ['新流程', '新流程 (导入)'])).toBe('新流程 (导入 2)');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  remapDependencies,
+  remapConditions,
+  toComparableSteps,
+  diffWorkflowVersions,
+  ComparableVersion
+} from '../../utils/workflowVersions';
+
+describe('workflowVersions', () => {
+  const idMap = new Map([
+    ['draft-1', 'v2-1'],
+    ['draft-2', 'v2-2']
+  ]);
+
+  describe('remapDependencies', () => {
+    it('should replace draft step ids with version step ids', () => {
+      expect(remapDependencies('["draft-1","draft-2"]', idMap)).toEqual(['v2-1', 'v2-2']);
+      expect(remapDependencies(null, idMap)).toEqual([]);
+    });
+  });
+
+  describe('remapConditions', () => {
+    it('should replace step ids and keep order references', () => {
+      const conditions = remapConditions({
+        rules: [
+          { step: 'draft-1', operator: 'eq', value: '买入' },
+          { step: '5', operator: 'exists' }
+        ]
+      }, idMap);
+
+      expect(conditions!.rules.map(rule => rule.step)).toEqual(['v2-1', '5']);
+    });
+
+    it('should return null without conditions', () => {
+      expect(remapConditions(null, idMap)).toBeNull();
+    });
+  });
+
+  describe('diffWorkflowVersions', () => {
+    const versionSteps = [
+      { id: 'v1-a', sourceStepId: 'a', name: '基本面分析', order: 1, isRequired: true, stepType: 'CHECKLIST', dependencies: null, metadata: '{"checklist":["查看最新财报"]}' },
+      { id: 'v1-b', sourceStepId: 'b', name: '技术面分析', order: 2, isRequired: true, stepType: 'CHECKLIST', dependencies: '["v1-a"]' },
+      { id: 'v1-c', sourceStepId: 'c', name: '风险评估', order: 3, isRequired: true, stepType: 'CHECKLIST', dependencies: null }
+    ];
+
+    const draftSteps = [
+      { id: 'a', name: '基本面分析', order: 1, isRequired: true, stepType: 'CHECKLIST', dependencies: null, metadata: { checklist: ['查看最新财报'] } },
+      { id: 'b', name: '技术面分析', order: 2, isRequired: false, stepType: 'CHECKLIST', dependencies: '["a"]' },
+      { id: 'd', name: '估值分析', order: 3, isRequired: true, stepType: 'CALCULATION', dependencies: '["a"]' }
+    ];
+
+    const from: ComparableVersion = {
+      version: 1,
+      workflow: { name: '股票投资分析流程', description: '旧描述' },
+      steps: toComparableSteps(versionSteps, step => step.sourceStepId)
+    };
+
+    const to: ComparableVersion = {
+      version: 'draft',
+      workflow: { name: '股票投资分析流程', description: '新描述' },
+      steps: toComparableSteps(draftSteps, step => step.id)
+    };
+
+    it('should report added, removed and modified steps', () => {
+      const diff = diffWorkflowVersions(from, to);
+
+      expect(diff.from).toBe(1);
+      expect(diff.to).toBe('draft');
+      expect(diff.steps.added.map(step => step.name)).toEqual(['估值分析']);
+      expect(diff.steps.removed.map(step => step.name)).toEqual(['风险评估']);
+      expect(diff.steps.modified).toEqual([
+        { key: 'b', name: '技术面分析', changes: [{ field: 'isRequired', from: true, to: false }] }
+      ]);
+    });
+
+    it('should compare dependencies by source step and ignore JSON formatting', () => {
+      const diff = diffWorkflowVersions(from, to);
+
+      expect(diff.steps.modified.find(step => step.key === 'a')).toBeUndefined();
+      expect(diff.steps.modified[0].changes.map(change => change.field)).not.toContain('dependencies');
+    });
+
+    it('should report workflow field changes', () => {
+      expect(diffWorkflowVersions(from, to).workflow).toEqual([
+        { field: 'description', from: '旧描述', to: '新描述' }
+      ]);
+    });
+  });
+});
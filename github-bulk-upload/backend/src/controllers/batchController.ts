@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { BatchService } from '../services/batchService';
+import { ExecutionService } from '../services/executionService';
+import { batchSchema, INVALID_BATCH_ROWS } from '../utils/batches';
+
+const batchService = new BatchService();
+const executionService = new ExecutionService();
+
+export class BatchController {
+  // 按多组参数批量启动执行
+  async createBatch(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = batchSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const { workflowId, ...input } = value;
+      const batch = await executionService.startBatch(req.user.userId, workflowId, input);
+
+      res.status(201).json({
+        success: true,
+        data: batch,
+        message: `已启动 ${batch?.executions.length || 0} 个执行`
+      });
+    } catch (error: any) {
+      // 有参数未通过校验时整批不创建，返回逐行的错误
+      if (error?.code === INVALID_BATCH_ROWS) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: INVALID_BATCH_ROWS,
+            message: error.message,
+            details: { rowErrors: error.rowErrors }
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '批量启动执行失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('禁用') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'BATCH_CREATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取执行批次列表
+  async getBatches(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const batches = await batchService.getBatches(req.user.userId, req.query.workflowId as string | undefined);
+
+      res.status(200).json({
+        success: true,
+        data: batches,
+        message: '获取执行批次成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取执行批次失败';
+
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'BATCH_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取批次详情，用于对比批次内的执行
+  async getBatchById(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const batch = await batchService.getBatchById(req.params.batchId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: batch,
+        message: '获取批次详情成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取批次详情失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'BATCH_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+}
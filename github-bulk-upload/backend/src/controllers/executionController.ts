@@ -1,8 +1,34 @@
 import { Request, Response } from 'express';
 import { ExecutionService } from '../services/executionService';
-import { StepStatus } from '../types/execution';
+import { ExecutionEventService } from '../services/executionEventService';
+import { ExecutionCommentService } from '../services/executionCommentService';
+import { ExecutionStreamService } from '../services/executionStreamService';
+import { ExecutionParticipantService } from '../services/executionParticipantService';
+import { ExecutionStatus, StepStatus } from '../types/execution';
+import { DEPENDENCIES_NOT_MET } from '../utils/dependencies';
+import { INVALID_STEP_DATA } from '../utils/formSchema';
+import { CALCULATION_FAILED } from '../utils/formula';
+import { INVALID_VALUATION_INPUT } from '../utils/valuation';
+import { INVALID_PROPERTY_INPUT } from '../utils/propertyFinance';
+import { APPROVAL_DECISIONS, NOT_APPROVER } from '../utils/approvals';
+import { INVALID_PARAMETERS } from '../utils/parameters';
+import { CHECKLIST_INCOMPLETE, checklistItemUpdateSchema } from '../utils/checklists';
+import { EVIDENCE_REQUIREMENTS_UNMET } from '../utils/evidence';
+import { INVALID_TRANSITION } from '../utils/stateMachine';
+import { WORKFLOW_NOT_PUBLISHED } from '../utils/workflowVersions';
+import { assignStepSchema, participantSchema } from '../utils/participants';
+import { commentSchema, commentUpdateSchema } from '../utils/comments';
+import { executionStream, formatSseMessage } from '../utils/executionStream';
+import { recordUpdateSchema, stepReopenSchema, validateExecution } from '../utils/validation';
 
 const executionService = new ExecutionService();
+const executionEventService = new ExecutionEventService();
+const executionParticipantService = new ExecutionParticipantService();
+const executionCommentService = new ExecutionCommentService();
+const executionStreamService = new ExecutionStreamService();
+
+// SSE 心跳间隔，防止代理关闭空闲连接
+const STREAM_HEARTBEAT_MS = 25 * 1000;
 
 export class ExecutionController {
   // 开始新的流程执行
@@ -19,7 +45,7 @@ export class ExecutionController {
         return;
       }
 
-      const { workflowId } = req.body;
+      const { workflowId, dueDate, priority, tags, parameters } = req.body;
 
       if (!workflowId) {
         res.status(400).json({
@@ -32,21 +58,51 @@ export class ExecutionController {
         return;
       }
 
-      const execution = await executionService.startExecution(req.user.userId, workflowId);
+      const validation = validateExecution({ workflowId, dueDate, priority, tags, parameters });
+      if (!validation.isValid) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validation.errors!.join(', ')
+          }
+        });
+        return;
+      }
+
+      const execution = await executionService.startExecution(req.user.userId, workflowId, {
+        dueDate: validation.data.dueDate,
+        priority: validation.data.priority,
+        tags: validation.data.tags,
+        parameters: validation.data.parameters
+      });
 
       res.status(201).json({
         success: true,
         data: { execution },
         message: '流程执行开始成功'
       });
-    } catch (error) {
+    } catch (error: any) {
+      // 缺少必填参数或参数值不合法时返回逐项的错误
+      if (error?.code === INVALID_PARAMETERS) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: INVALID_PARAMETERS,
+            message: error.message,
+            details: { fieldErrors: error.fieldErrors }
+          }
+        });
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : '开始执行失败';
       const statusCode = errorMessage.includes('不存在') || errorMessage.includes('禁用') ? 404 : 400;
       
       res.status(statusCode).json({
         success: false,
         error: {
-          code: 'EXECUTION_START_ERROR',
+          code: error?.code === WORKFLOW_NOT_PUBLISHED ? WORKFLOW_NOT_PUBLISHED : 'EXECUTION_START_ERROR',
           message: errorMessage
         }
       });
@@ -133,6 +189,125 @@ export class ExecutionController {
     }
   }
 
+  // 分页获取执行列表
+  async getExecutions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { page, limit, search, workflowId, status, priority, tags, startDate, endDate } = req.query;
+      const parseDate = (value: unknown) => {
+        const date = value ? new Date(value as string) : undefined;
+        return date && !isNaN(date.getTime()) ? date : undefined;
+      };
+
+      const result = await executionService.getExecutions(
+        req.user.userId,
+        {
+          search: search as string,
+          workflowId: workflowId as string,
+          status: status as string,
+          priority: priority as string,
+          tags: tags ? (tags as string).split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+          startDate: parseDate(startDate),
+          endDate: parseDate(endDate)
+        },
+        {
+          page: Math.max(parseInt(page as string) || 1, 1),
+          limit: Math.min(Math.max(parseInt(limit as string) || 10, 1), 100)
+        }
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+        message: '获取执行列表成功'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取执行列表失败'
+        }
+      });
+    }
+  }
+
+  // 获取最近开始的执行
+  async getRecentExecutions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50);
+      const executions = await executionService.getRecentExecutions(req.user.userId, limit);
+
+      res.status(200).json({
+        success: true,
+        data: executions,
+        message: '获取最近执行成功'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取最近执行失败'
+        }
+      });
+    }
+  }
+
+  // 获取进行中的执行
+  async getInProgressExecutions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const executions = await executionService.getUserExecutions(req.user.userId, ExecutionStatus.IN_PROGRESS);
+
+      res.status(200).json({
+        success: true,
+        data: executions,
+        message: '获取进行中的执行成功'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取进行中的执行失败'
+        }
+      });
+    }
+  }
+
   // 更新步骤状态
   async updateStepStatus(req: Request, res: Response): Promise<void> {
     try {
@@ -174,7 +349,33 @@ export class ExecutionController {
         data: { executionRecord },
         message: '步骤状态更新成功'
       });
-    } catch (error) {
+    } catch (error: any) {
+      // 状态转换表不允许的转换返回冲突，details 中包含动作和起止状态
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      // 证明材料不满足步骤要求时返回逐条未满足的要求
+      if (error?.code === EVIDENCE_REQUIREMENTS_UNMET) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: EVIDENCE_REQUIREMENTS_UNMET,
+            message: error.message,
+            details: { unmetRules: error.unmetRules }
+          }
+        });
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : '更新步骤状态失败';
       const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
       
@@ -188,8 +389,8 @@ export class ExecutionController {
     }
   }
 
-  // 暂停执行
-  async pauseExecution(req: Request, res: Response): Promise<void> {
+  // 开始执行步骤
+  async startStep(req: Request, res: Response): Promise<void> {
     try {
       if (!req.user) {
         res.status(401).json({
@@ -202,30 +403,55 @@ export class ExecutionController {
         return;
       }
 
-      const { id } = req.params;
-      const execution = await executionService.pauseExecution(id, req.user.userId);
+      const { executionId, recordId } = req.params;
+      const executionRecord = await executionService.startStep(executionId, recordId, req.user.userId);
 
       res.status(200).json({
         success: true,
-        data: { execution },
-        message: '执行已暂停'
+        data: executionRecord,
+        message: '步骤已开始'
       });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '暂停执行失败';
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      // 前置步骤未完成时返回冲突，并列出阻塞的步骤
+      if (error?.code === DEPENDENCIES_NOT_MET) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: DEPENDENCIES_NOT_MET,
+            message: error.message,
+            details: { blockingSteps: error.blockingSteps }
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '开始步骤失败';
       const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
       
       res.status(statusCode).json({
         success: false,
         error: {
-          code: 'EXECUTION_PAUSE_ERROR',
+          code: 'STEP_START_ERROR',
           message: errorMessage
         }
       });
     }
   }
 
-  // 恢复执行
-  async resumeExecution(req: Request, res: Response): Promise<void> {
+  // 完成执行步骤
+  async completeStep(req: Request, res: Response): Promise<void> {
     try {
       if (!req.user) {
         res.status(401).json({
@@ -238,30 +464,113 @@ export class ExecutionController {
         return;
       }
 
-      const { id } = req.params;
-      const execution = await executionService.resumeExecution(id, req.user.userId);
+      const { executionId, recordId } = req.params;
+      const { notes, data, result, valuation, property } = req.body;
+
+      const executionRecord = await executionService.completeStep(
+        executionId,
+        recordId,
+        req.user.userId,
+        { notes, data, result, valuation, property }
+      );
 
       res.status(200).json({
         success: true,
-        data: { execution },
-        message: '执行已恢复'
+        data: executionRecord,
+        message: '步骤已完成'
       });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '恢复执行失败';
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      // 表单数据不符合步骤定义时返回逐字段的错误
+      if (error?.code === INVALID_STEP_DATA) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: INVALID_STEP_DATA,
+            message: error.message,
+            details: { fieldErrors: error.fieldErrors }
+          }
+        });
+        return;
+      }
+
+      // 公式无法计算时返回完整的计算过程，便于定位引用缺失等问题
+      if (error?.code === CALCULATION_FAILED) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: CALCULATION_FAILED,
+            message: error.message,
+            details: { trace: error.trace }
+          }
+        });
+        return;
+      }
+
+      if (error?.code === INVALID_VALUATION_INPUT || error?.code === INVALID_PROPERTY_INPUT) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      // 证明材料不满足步骤要求时返回逐条未满足的要求
+      if (error?.code === EVIDENCE_REQUIREMENTS_UNMET) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: EVIDENCE_REQUIREMENTS_UNMET,
+            message: error.message,
+            details: { unmetRules: error.unmetRules }
+          }
+        });
+        return;
+      }
+
+      // 检查清单未满足完成规则时返回还需勾选的项目
+      if (error?.code === CHECKLIST_INCOMPLETE) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: CHECKLIST_INCOMPLETE,
+            message: error.message,
+            details: { missingItems: error.missingItems }
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '完成步骤失败';
       const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
       
       res.status(statusCode).json({
         success: false,
         error: {
-          code: 'EXECUTION_RESUME_ERROR',
+          code: 'STEP_COMPLETE_ERROR',
           message: errorMessage
         }
       });
     }
   }
 
-  // 完成执行
-  async completeExecution(req: Request, res: Response): Promise<void> {
+  // 跳过执行步骤
+  async skipStep(req: Request, res: Response): Promise<void> {
     try {
       if (!req.user) {
         res.status(401).json({
@@ -274,22 +583,1756 @@ export class ExecutionController {
         return;
       }
 
-      const { id } = req.params;
-      const execution = await executionService.completeExecution(id, req.user.userId);
+      const { executionId, recordId } = req.params;
+      const { reason } = req.body;
+
+      const executionRecord = await executionService.skipStep(executionId, recordId, req.user.userId, reason);
 
       res.status(200).json({
         success: true,
-        data: { execution },
-        message: '执行已完成'
+        data: executionRecord,
+        message: '步骤已跳过'
       });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '完成执行失败';
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '跳过步骤失败';
       const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
       
       res.status(statusCode).json({
         success: false,
         error: {
-          code: 'EXECUTION_COMPLETE_ERROR',
+          code: 'STEP_SKIP_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 标记步骤失败
+  async failStep(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const { reason } = req.body;
+
+      const executionRecord = await executionService.failStep(executionId, recordId, req.user.userId, reason);
+
+      res.status(200).json({
+        success: true,
+        data: executionRecord,
+        message: '步骤已标记为失败'
+      });
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '标记步骤失败失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+      
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'STEP_FAIL_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 重新打开已完成或已跳过的步骤
+  async reopenStep(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = stepReopenSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const executionRecord = await executionService.reopenStep(executionId, recordId, req.user.userId, value);
+
+      res.status(200).json({
+        success: true,
+        data: executionRecord,
+        message: '步骤已重新打开'
+      });
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '重新打开步骤失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'STEP_REOPEN_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取步骤的历史版本
+  async getStepRevisions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const revisions = await executionService.getStepRevisions(executionId, recordId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: revisions,
+        message: '获取步骤历史版本成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取步骤历史版本失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'REVISIONS_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取可以开始的步骤
+  async getReadySteps(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const readySteps = await executionService.getReadySteps(id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: readySteps,
+        message: '获取可执行步骤成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取可执行步骤失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'READY_STEPS_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取执行的步骤记录
+  async getExecutionRecords(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const records = await executionService.getExecutionRecords(id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: records,
+        message: '获取步骤记录成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取步骤记录失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'RECORDS_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取下一个待执行步骤，没有时返回 null
+  async getNextPendingStep(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const nextStep = await executionService.getNextPendingStep(id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: nextStep,
+        message: '获取下一个步骤成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取下一个步骤失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'NEXT_STEP_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取执行的事件时间线
+  async getExecutionTimeline(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const events = await executionEventService.getTimeline(id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: events,
+        message: '获取执行时间线成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取执行时间线失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'TIMELINE_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取执行的发起人和参与者
+  async getParticipants(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const participants = await executionParticipantService.getParticipants(id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: participants,
+        message: '获取参与者成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取参与者失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'PARTICIPANT_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 添加参与者或修改参与者角色
+  async addParticipant(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = participantSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const participant = await executionParticipantService.addParticipant(id, req.user.userId, value);
+
+      res.status(200).json({
+        success: true,
+        data: { participant },
+        message: '参与者已保存'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '保存参与者失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'PARTICIPANT_UPDATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 移除参与者，参与者也可以退出执行
+  async removeParticipant(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id, userId } = req.params;
+      await executionParticipantService.removeParticipant(id, req.user.userId, userId);
+
+      res.status(200).json({
+        success: true,
+        message: '参与者已移除'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '移除参与者失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'PARTICIPANT_REMOVE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 分配步骤
+  async assignStep(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = assignStepSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const record = await executionParticipantService.assignStep(executionId, recordId, req.user.userId, value.assigneeId);
+
+      res.status(200).json({
+        success: true,
+        data: { record },
+        message: value.assigneeId ? '步骤已分配' : '已取消分配'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '分配步骤失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'STEP_ASSIGN_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取分配给当前用户的步骤
+  async getAssignedSteps(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const steps = await executionParticipantService.getAssignedSteps(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: steps,
+        message: '获取分配给我的步骤成功'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'ASSIGNED_STEPS_FETCH_ERROR',
+          message: '获取分配给我的步骤失败'
+        }
+      });
+    }
+  }
+
+  // 获取执行的评论讨论串
+  async getComments(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const recordId = typeof req.query.recordId === 'string' ? req.query.recordId : undefined;
+      const comments = await executionCommentService.getComments(id, req.user.userId, recordId);
+
+      res.status(200).json({
+        success: true,
+        data: comments,
+        message: '获取评论成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取评论失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'COMMENT_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 发表评论或回复
+  async createComment(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = commentSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const comment = await executionCommentService.createComment(id, req.user.userId, value);
+
+      res.status(201).json({
+        success: true,
+        data: { comment },
+        message: '评论已发表'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '发表评论失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'COMMENT_CREATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 修改评论
+  async updateComment(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = commentUpdateSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const { id, commentId } = req.params;
+      const comment = await executionCommentService.updateComment(id, commentId, req.user.userId, value.body);
+
+      res.status(200).json({
+        success: true,
+        data: { comment },
+        message: '评论已修改'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '修改评论失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'COMMENT_UPDATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 删除评论
+  async deleteComment(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id, commentId } = req.params;
+      await executionCommentService.deleteComment(id, commentId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: '评论已删除'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '删除评论失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'COMMENT_DELETE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 标记评论为已解决
+  async resolveComment(req: Request, res: Response): Promise<void> {
+    await this.setCommentResolved(req, res, true);
+  }
+
+  // 重新打开已解决的评论
+  async unresolveComment(req: Request, res: Response): Promise<void> {
+    await this.setCommentResolved(req, res, false);
+  }
+
+  // 获取评论的修改历史
+  async getCommentRevisions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id, commentId } = req.params;
+      const revisions = await executionCommentService.getRevisions(id, commentId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: revisions,
+        message: '获取评论修改历史成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取评论修改历史失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'COMMENT_REVISIONS_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 订阅执行的实时推送（SSE），连接保持到客户端断开或成员被移出执行
+  async streamExecution(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const viewer = await executionStreamService.getViewer(id, req.user.userId);
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        // 关闭 nginx 等反向代理的缓冲
+        'X-Accel-Buffering': 'no'
+      });
+      res.write('retry: 3000\n\n');
+
+      let eventId = 0;
+      const unsubscribe = executionStream.subscribe(
+        id,
+        viewer,
+        message => res.write(formatSseMessage(message, ++eventId)),
+        () => res.end()
+      );
+      const heartbeat = setInterval(() => res.write(': ping\n\n'), STREAM_HEARTBEAT_MS);
+
+      res.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '订阅执行推送失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'EXECUTION_STREAM_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  private async setCommentResolved(req: Request, res: Response, resolved: boolean): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id, commentId } = req.params;
+      const comment = await executionCommentService.setResolved(id, commentId, req.user.userId, resolved);
+
+      res.status(200).json({
+        success: true,
+        data: { comment },
+        message: resolved ? '评论已标记为已解决' : '评论已重新打开'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '更新评论状态失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'COMMENT_RESOLVE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 试算计算步骤
+  async previewCalculations(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const trace = await executionService.previewCalculations(executionId, recordId, req.user.userId, req.body?.data);
+
+      res.status(200).json({
+        success: true,
+        data: trace,
+        message: '试算完成'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '试算失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'CALCULATION_PREVIEW_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 保存估值模型
+  async saveValuation(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const valuation = await executionService.saveValuation(executionId, recordId, req.user.userId, req.body);
+
+      res.status(200).json({
+        success: true,
+        data: valuation,
+        message: '估值模型已保存'
+      });
+    } catch (error: any) {
+      if (error?.code === INVALID_VALUATION_INPUT) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: INVALID_VALUATION_INPUT,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '保存估值模型失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'VALUATION_SAVE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取检查清单的勾选情况
+  async getChecklist(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const checklist = await executionService.getChecklist(executionId, recordId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: checklist,
+        message: '获取检查清单成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取检查清单失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'CHECKLIST_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 勾选或取消勾选检查项
+  async updateChecklistItem(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = checklistItemUpdateSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const checklist = await executionService.updateChecklistItem(executionId, recordId, req.user.userId, value);
+
+      res.status(200).json({
+        success: true,
+        data: checklist,
+        message: value.checked ? '已勾选' : '已取消勾选'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '更新检查项失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'CHECKLIST_UPDATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 保存房地产投资测算
+  async savePropertyModel(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const property = await executionService.savePropertyModel(executionId, recordId, req.user.userId, req.body);
+
+      res.status(200).json({
+        success: true,
+        data: property,
+        message: '房地产投资测算已保存'
+      });
+    } catch (error: any) {
+      if (error?.code === INVALID_PROPERTY_INPUT) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: INVALID_PROPERTY_INPUT,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '保存房地产投资测算失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'PROPERTY_MODEL_SAVE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取决策步骤的参考标准
+  async getDecisionCriteria(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const criteria = await executionService.getDecisionCriteria(executionId, recordId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: criteria,
+        message: '获取决策标准成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取决策标准失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'CRITERIA_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取审批步骤的审批情况
+  async getStepApprovals(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const approvals = await executionService.getStepApprovals(executionId, recordId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: approvals,
+        message: '获取审批情况成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取审批情况失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'APPROVAL_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 提交审批意见
+  async decideApproval(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const { decision, comment } = req.body;
+
+      if (!APPROVAL_DECISIONS.includes(decision)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '审批结果必须是 APPROVED 或 REJECTED'
+          }
+        });
+        return;
+      }
+
+      // 驳回时必须填写意见，便于发起人修改后重新提交
+      if (decision === 'REJECTED' && !(typeof comment === 'string' && comment.trim())) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '驳回时请填写审批意见'
+          }
+        });
+        return;
+      }
+
+      const executionRecord = await executionService.decideApproval(
+        executionId,
+        recordId,
+        req.user.userId,
+        { decision, comment: typeof comment === 'string' ? comment.trim() || undefined : undefined }
+      );
+
+      res.status(200).json({
+        success: true,
+        data: executionRecord,
+        message: decision === 'APPROVED' ? '已同意' : '已驳回'
+      });
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      if (error?.code === NOT_APPROVER) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: NOT_APPROVER,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '提交审批意见失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'APPROVAL_DECISION_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 重发通知步骤
+  async retryNotification(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const executionRecord = await executionService.retryNotification(executionId, recordId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: executionRecord,
+        message: executionRecord.status === StepStatus.COMPLETED ? '通知已发送' : '通知仍未发送成功'
+      });
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '重发通知失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'NOTIFICATION_RETRY_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 重新启动失败的子流程步骤
+  async retrySubworkflow(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const executionRecord = await executionService.retrySubworkflow(executionId, recordId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: executionRecord,
+        message: executionRecord.status === StepStatus.FAILED ? '子流程仍未启动成功' : '子流程已启动'
+      });
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '重新启动子流程失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'SUBWORKFLOW_RETRY_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取待我审批的步骤
+  async getPendingApprovals(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const approvals = await executionService.getPendingApprovals(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: approvals,
+        message: '获取待审批列表成功'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'APPROVAL_FETCH_ERROR',
+          message: '获取待审批列表失败'
+        }
+      });
+    }
+  }
+
+  // 获取即将到期的执行
+  async getUpcomingExecutions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 7, 1), 365);
+      const executions = await executionService.getUpcomingExecutions(req.user.userId, days);
+
+      res.status(200).json({
+        success: true,
+        data: executions,
+        message: '获取即将到期的执行成功'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'UPCOMING_FETCH_ERROR',
+          message: '获取即将到期的执行失败'
+        }
+      });
+    }
+  }
+
+  // 修改执行的截止日期
+  async updateDueDate(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const validation = validateExecution({ dueDate: req.body?.dueDate ?? null }, true);
+      if (!validation.isValid) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validation.errors!.join(', ')
+          }
+        });
+        return;
+      }
+
+      const execution = await executionService.updateDueDate(id, req.user.userId, validation.data.dueDate);
+
+      res.status(200).json({
+        success: true,
+        data: { execution },
+        message: '截止日期已更新'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '修改截止日期失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'DUE_DATE_UPDATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 修改执行信息，状态只能通过暂停、恢复、完成和取消接口修改
+  async updateExecution(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const validation = validateExecution(req.body || {}, true);
+      if (!validation.isValid) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validation.errors!.join(', ')
+          }
+        });
+        return;
+      }
+
+      const { status, metadata, ...data } = validation.data;
+      if (status !== undefined || metadata !== undefined) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: status !== undefined
+              ? '执行状态请通过暂停、恢复、完成或取消操作修改'
+              : '执行元数据由系统维护，不能直接修改'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const execution = await executionService.updateExecution(id, req.user.userId, data);
+
+      res.status(200).json({
+        success: true,
+        data: execution,
+        message: '执行已更新'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '更新执行失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'EXECUTION_UPDATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 按步骤状态重新计算执行进度
+  async updateProgress(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const progress = await executionService.refreshProgress(id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: { progress },
+        message: '执行进度已更新'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '更新执行进度失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'PROGRESS_UPDATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 修改步骤的笔记、结果和实际耗时
+  async updateExecutionRecord(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = recordUpdateSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const { executionId, recordId } = req.params;
+      const executionRecord = await executionService.updateExecutionRecord(executionId, recordId, req.user.userId, value);
+
+      res.status(200).json({
+        success: true,
+        data: executionRecord,
+        message: '步骤记录已更新'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '更新步骤记录失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'RECORD_UPDATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 暂停执行
+  async pauseExecution(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const execution = await executionService.pauseExecution(id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: { execution },
+        message: '执行已暂停'
+      });
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '暂停执行失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+      
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'EXECUTION_PAUSE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 恢复执行
+  async resumeExecution(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const execution = await executionService.resumeExecution(id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: { execution },
+        message: '执行已恢复'
+      });
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '恢复执行失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+      
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'EXECUTION_RESUME_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 完成执行
+  async completeExecution(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const execution = await executionService.completeExecution(id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: { execution },
+        message: '执行已完成'
+      });
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '完成执行失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+      
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'EXECUTION_COMPLETE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 取消执行
+  async cancelExecution(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const { reason } = req.body || {};
+      const execution = await executionService.cancelExecution(
+        id,
+        req.user.userId,
+        typeof reason === 'string' ? reason.trim() || undefined : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { execution },
+        message: '执行已取消'
+      });
+    } catch (error: any) {
+      if (error?.code === INVALID_TRANSITION) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: INVALID_TRANSITION,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : '取消执行失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'EXECUTION_CANCEL_ERROR',
           message: errorMessage
         }
       });
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { HistoryService, HistorySearchFilters, PaginationOptions } from '../services/historyService';
 import prisma from '../config/database';
+import { parseParameterFilters } from '../utils/parameters';
 
 const historyService = new HistoryService();
 
@@ -29,7 +30,8 @@ export class HistoryController {
         startDate,
         endDate,
         hasReview,
-        searchTerm
+        searchTerm,
+        batchId
       } = req.query;
 
       const filters: HistorySearchFilters = {};
@@ -39,6 +41,9 @@ export class HistoryController {
       if (endDate) filters.endDate = new Date(endDate as string);
       if (hasReview !== undefined) filters.hasReview = hasReview === 'true';
       if (searchTerm) filters.searchTerm = searchTerm as string;
+      if (batchId) filters.batchId = batchId as string;
+      const parameters = parseParameterFilters(req.query);
+      if (Object.keys(parameters).length > 0) filters.parameters = parameters;
 
       const pagination: PaginationOptions = {
         page: Number(page),
@@ -159,6 +164,45 @@ export class HistoryController {
     }
   }
 
+  // 获取检查清单各检查项的完成统计
+  async getChecklistStats(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { workflowId, startDate, endDate } = req.query;
+      const stats = await historyService.getChecklistStats(req.user.userId, {
+        workflowId: workflowId as string | undefined,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { stats },
+        message: '获取检查清单统计成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取检查清单统计失败';
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'STATS_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
   // 获取执行详情
   async getExecutionDetail(req: Request, res: Response): Promise<void> {
     try {
@@ -237,7 +281,8 @@ export class HistoryController {
         startDate,
         endDate,
         hasReview,
-        searchTerm
+        searchTerm,
+        batchId
       } = req.query;
 
       if (!['workflow', 'status', 'month', 'week'].includes(groupBy)) {
@@ -258,6 +303,9 @@ export class HistoryController {
       if (endDate) filters.endDate = new Date(endDate as string);
       if (hasReview !== undefined) filters.hasReview = hasReview === 'true';
       if (searchTerm) filters.searchTerm = searchTerm as string;
+      if (batchId) filters.batchId = batchId as string;
+      const parameters = parseParameterFilters(req.query);
+      if (Object.keys(parameters).length > 0) filters.parameters = parameters;
 
       const data = await historyService.getAggregatedData(
         req.user.userId,
@@ -365,12 +413,14 @@ export class HistoryController {
         includeSteps = false,
         includeReviews = false,
         includeAttachments = false,
+        includeComments = false,
         workflowId,
         status,
         startDate,
         endDate,
         hasReview,
-        searchTerm
+        searchTerm,
+        batchId
       } = req.query;
 
       if (!['json', 'csv', 'excel'].includes(format as string)) {
@@ -391,11 +441,15 @@ export class HistoryController {
       if (endDate) filters.endDate = new Date(endDate as string);
       if (hasReview !== undefined) filters.hasReview = hasReview === 'true';
       if (searchTerm) filters.searchTerm = searchTerm as string;
+      if (batchId) filters.batchId = batchId as string;
+      const parameters = parseParameterFilters(req.query);
+      if (Object.keys(parameters).length > 0) filters.parameters = parameters;
 
       const options = {
         includeSteps: includeSteps === 'true',
         includeReviews: includeReviews === 'true',
-        includeAttachments: includeAttachments === 'true'
+        includeAttachments: includeAttachments === 'true',
+        includeComments: includeComments === 'true'
       };
 
       const exportResult = await historyService.exportExecutionData(
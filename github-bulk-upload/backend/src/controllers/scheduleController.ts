@@ -0,0 +1,331 @@
+import { Request, Response } from 'express';
+import { ScheduleService } from '../services/scheduleService';
+import { scheduleSchema, scheduleUpdateSchema } from '../utils/schedules';
+
+const scheduleService = new ScheduleService();
+
+export class ScheduleController {
+  // 获取工作流的定期执行计划
+  async getSchedules(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const schedules = await scheduleService.getSchedules(req.params.id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: schedules,
+        message: '获取定期执行计划成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取定期执行计划失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 创建定期执行计划
+  async createSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = scheduleSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const schedule = await scheduleService.createSchedule(req.params.id, req.user.userId, value);
+
+      res.status(201).json({
+        success: true,
+        data: schedule,
+        message: '定期执行计划创建成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '创建定期执行计划失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE_CREATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 修改定期执行计划
+  async updateSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = scheduleUpdateSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const { id, scheduleId } = req.params;
+      const schedule = await scheduleService.updateSchedule(id, scheduleId, req.user.userId, value);
+
+      res.status(200).json({
+        success: true,
+        data: schedule,
+        message: '定期执行计划更新成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '更新定期执行计划失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE_UPDATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 暂停定期执行计划
+  async pauseSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id, scheduleId } = req.params;
+      const schedule = await scheduleService.pauseSchedule(id, scheduleId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: schedule,
+        message: '计划已暂停'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '暂停计划失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE_PAUSE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 恢复定期执行计划
+  async resumeSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id, scheduleId } = req.params;
+      const schedule = await scheduleService.resumeSchedule(id, scheduleId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: schedule,
+        message: '计划已恢复'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '恢复计划失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE_RESUME_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 跳过（skip 为 false 时取消跳过）即将到来的某次执行
+  async skipOccurrence(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id, scheduleId } = req.params;
+      const { occurrence, skip = true } = req.body || {};
+      const scheduledFor = new Date(occurrence);
+
+      if (!occurrence || isNaN(scheduledFor.getTime())) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '请提供要跳过的执行时间'
+          }
+        });
+        return;
+      }
+
+      const schedule = await scheduleService.skipOccurrence(id, scheduleId, req.user.userId, scheduledFor, skip !== false);
+
+      res.status(200).json({
+        success: true,
+        data: schedule,
+        message: skip !== false ? '已跳过该次执行' : '已取消跳过'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '跳过执行失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE_SKIP_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取计划之后的执行时间
+  async getOccurrences(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id, scheduleId } = req.params;
+      const count = Math.min(Math.max(parseInt(req.query.count as string) || 10, 1), 50);
+      const occurrences = await scheduleService.getOccurrences(id, scheduleId, req.user.userId, count);
+
+      res.status(200).json({
+        success: true,
+        data: occurrences,
+        message: '获取执行时间成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取执行时间失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE_OCCURRENCES_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 删除定期执行计划
+  async deleteSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id, scheduleId } = req.params;
+      await scheduleService.deleteSchedule(id, scheduleId, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: '定期执行计划删除成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '删除定期执行计划失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE_DELETE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+}
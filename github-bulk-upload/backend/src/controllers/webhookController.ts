@@ -0,0 +1,347 @@
+import { Request, Response } from 'express';
+import { WebhookService } from '../services/webhookService';
+import { WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENT_TYPES, webhookSubscriptionSchema, webhookSubscriptionUpdateSchema } from '../utils/webhooks';
+
+const webhookService = new WebhookService();
+
+const isAdmin = (role: string) => ['ADMIN', 'SUPER_ADMIN'].includes(role);
+
+export class WebhookController {
+  // 获取可订阅的事件类型
+  async getEventTypes(req: Request, res: Response): Promise<void> {
+    res.status(200).json({
+      success: true,
+      data: Object.entries(WEBHOOK_EVENT_TYPES).map(([type, label]) => ({ type, label })),
+      message: '获取事件类型成功'
+    });
+  }
+
+  // 获取 Webhook 订阅
+  async getSubscriptions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const subscriptions = await webhookService.getSubscriptions(req.user.userId, isAdmin(req.user.role));
+
+      res.status(200).json({
+        success: true,
+        data: subscriptions,
+        message: '获取 Webhook 订阅成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取 Webhook 订阅失败';
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'WEBHOOK_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 创建 Webhook 订阅
+  async createSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = webhookSubscriptionSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const subscription = await webhookService.createSubscription(req.user.userId, isAdmin(req.user.role), value);
+
+      res.status(201).json({
+        success: true,
+        data: subscription,
+        message: 'Webhook 订阅创建成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '创建 Webhook 订阅失败';
+      const statusCode = errorMessage.includes('只有管理员')
+        ? 403
+        : errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'WEBHOOK_CREATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 修改 Webhook 订阅
+  async updateSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { error, value } = webhookSubscriptionUpdateSchema.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details.map(detail => detail.message).join(', ')
+          }
+        });
+        return;
+      }
+
+      const subscription = await webhookService.updateSubscription(
+        req.params.id,
+        req.user.userId,
+        isAdmin(req.user.role),
+        value
+      );
+
+      res.status(200).json({
+        success: true,
+        data: subscription,
+        message: 'Webhook 订阅修改成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '修改 Webhook 订阅失败';
+      const statusCode = errorMessage.includes('只有管理员')
+        ? 403
+        : errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'WEBHOOK_UPDATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 重新生成签名密钥
+  async rotateSecret(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const result = await webhookService.rotateSecret(req.params.id, req.user.userId, isAdmin(req.user.role));
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: '签名密钥已重新生成'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '重新生成签名密钥失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'WEBHOOK_SECRET_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 删除 Webhook 订阅
+  async deleteSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      await webhookService.deleteSubscription(req.params.id, req.user.userId, isAdmin(req.user.role));
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook 订阅删除成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '删除 Webhook 订阅失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'WEBHOOK_DELETE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 发送测试推送
+  async testSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const delivery = await webhookService.testSubscription(req.params.id, req.user.userId, isAdmin(req.user.role));
+
+      res.status(200).json({
+        success: true,
+        data: delivery,
+        message: delivery.status === 'SUCCEEDED' ? '测试推送成功' : '测试推送失败'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '发送测试推送失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'WEBHOOK_TEST_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取订阅的投递记录
+  async getDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      if (status && !(WEBHOOK_DELIVERY_STATUSES as readonly string[]).includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `投递状态必须是 ${WEBHOOK_DELIVERY_STATUSES.join('、')} 之一`
+          }
+        });
+        return;
+      }
+
+      const limit = req.query.limit ? Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 200) : undefined;
+      const deliveries = await webhookService.getDeliveries(
+        req.params.id,
+        req.user.userId,
+        isAdmin(req.user.role),
+        { status, limit }
+      );
+
+      res.status(200).json({
+        success: true,
+        data: deliveries,
+        message: '获取投递记录成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '获取投递记录失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'WEBHOOK_DELIVERY_FETCH_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 重放投递
+  async replayDelivery(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const delivery = await webhookService.replayDelivery(req.params.deliveryId, req.user.userId, isAdmin(req.user.role));
+
+      res.status(200).json({
+        success: true,
+        data: delivery,
+        message: delivery.status === 'SUCCEEDED' ? '重放成功' : '重放失败'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '重放投递失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('无权限') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'WEBHOOK_REPLAY_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import WorkflowModel, { WorkflowStepModel } from '../models/Workflow';
+import WorkflowModel, { WorkflowStepModel, WorkflowVersionModel } from '../models/Workflow';
 import { 
   CreateWorkflowInput, 
   UpdateWorkflowInput,
@@ -10,6 +10,18 @@ import {
   ApiResponse 
 } from '../types/models';
 import { validateWorkflow, validateWorkflowStep } from '../utils/validation';
+import { VersionRef } from '../utils/workflowVersions';
+import { lintWorkflow, WORKFLOW_INVALID } from '../utils/workflowLint';
+import {
+  IMPORT_CONFLICT_STRATEGIES,
+  ImportConflictStrategy,
+  WORKFLOW_IMPORT_CONFLICT,
+  WORKFLOW_IMPORT_INVALID,
+  WORKFLOW_TRANSFER_FORMATS,
+  WorkflowTransferFormat,
+  parseWorkflowDocument,
+  serializeWorkflowDocument
+} from '../utils/workflowTransfer';
 
 export class WorkflowController {
   // 创建工作流
@@ -804,8 +816,12 @@ export class WorkflowController {
 
       await WorkflowStepModel.reorder(workflowId, stepOrders);
 
+      // 调整顺序可能使依赖与顺序不一致，返回检查结果供编辑器提示
+      const steps = await WorkflowStepModel.findByWorkflowId(workflowId);
+
       res.status(200).json({
         success: true,
+        data: { validation: lintWorkflow(steps, { workflowId }) },
         message: '重新排序工作流步骤成功'
       });
     } catch (error) {
@@ -820,4 +836,424 @@ export class WorkflowController {
       });
     }
   }
+  // 工作流版本管理
+
+  // 发布工作流（将当前草稿冻结为新版本）
+  async publishWorkflow(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const { changelog } = req.body;
+
+      // 检查工作流权限
+      const workflow = await WorkflowModel.findById(id, false);
+      if (!workflow || workflow.userId !== req.user.userId) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'ACCESS_DENIED',
+            message: '无权限发布该工作流'
+          }
+        });
+        return;
+      }
+
+      const version = await WorkflowVersionModel.publish(id, req.user.userId, changelog);
+
+      res.status(201).json({
+        success: true,
+        data: version,
+        message: '工作流发布成功'
+      });
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : '发布工作流失败';
+
+      res.status(400).json({
+        success: false,
+        error: {
+          code: error?.code === WORKFLOW_INVALID ? WORKFLOW_INVALID : 'WORKFLOW_PUBLISH_ERROR',
+          message: errorMessage,
+          details: error?.details
+        }
+      });
+    }
+  }
+
+  // 检查工作流定义；请求中带 steps 时检查编辑器中尚未保存的步骤，否则检查当前草稿
+  async validateWorkflowDefinition(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const { steps } = req.body || {};
+
+      // 检查工作流权限
+      const workflow = await WorkflowModel.findById(id, false);
+      if (!workflow || workflow.userId !== req.user.userId) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'ACCESS_DENIED',
+            message: '无权限访问该工作流'
+          }
+        });
+        return;
+      }
+
+      if (steps !== undefined && !Array.isArray(steps)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'steps必须是数组'
+          }
+        });
+        return;
+      }
+
+      const result = lintWorkflow(steps || await WorkflowStepModel.findByWorkflowId(id), { workflowId: id });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: result.valid ? '工作流定义检查通过' : `工作流定义存在 ${result.errors.length} 个错误`
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '检查工作流定义失败';
+
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'WORKFLOW_VALIDATE_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 获取工作流版本列表
+  async getWorkflowVersions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const hasAccess = await WorkflowModel.checkAccess(id, req.user.userId);
+      if (!hasAccess) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'ACCESS_DENIED',
+            message: '无权限访问该工作流'
+          }
+        });
+        return;
+      }
+
+      const versions = await WorkflowVersionModel.findByWorkflowId(id);
+
+      res.status(200).json({
+        success: true,
+        data: versions,
+        message: '获取工作流版本成功'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取工作流版本失败'
+        }
+      });
+    }
+  }
+
+  // 获取指定版本详情
+  async getWorkflowVersion(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id, version } = req.params;
+
+      const hasAccess = await WorkflowModel.checkAccess(id, req.user.userId);
+      if (!hasAccess) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'ACCESS_DENIED',
+            message: '无权限访问该工作流'
+          }
+        });
+        return;
+      }
+
+      const workflowVersion = await WorkflowVersionModel.findByVersion(id, parseInt(version, 10));
+      if (!workflowVersion) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND_ERROR',
+            message: '版本不存在'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: workflowVersion,
+        message: '获取工作流版本成功'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: '获取工作流版本失败'
+        }
+      });
+    }
+  }
+
+  // 对比两个版本（to 缺省时与当前草稿对比）
+  async diffWorkflowVersions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const parseRef = (value: unknown): VersionRef | null => {
+        if (value === undefined || value === 'draft') return 'draft';
+        const version = parseInt(String(value), 10);
+        return Number.isInteger(version) && version > 0 ? version : null;
+      };
+      const from = parseRef(req.query.from);
+      const to = parseRef(req.query.to);
+
+      if (req.query.from === undefined || from === null || to === null) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'from 必须是版本号，to 必须是版本号或 draft'
+          }
+        });
+        return;
+      }
+
+      const hasAccess = await WorkflowModel.checkAccess(id, req.user.userId);
+      if (!hasAccess) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'ACCESS_DENIED',
+            message: '无权限访问该工作流'
+          }
+        });
+        return;
+      }
+
+      const diff = await WorkflowVersionModel.diff(id, from, to);
+
+      res.status(200).json({
+        success: true,
+        data: diff,
+        message: '版本对比成功'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '版本对比失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('not found') ? 404 : 400;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'VERSION_DIFF_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 工作流导入导出
+
+  // 导出工作流（JSON 或 YAML 文件）
+  async exportWorkflow(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const format = (req.query.format || 'json') as WorkflowTransferFormat;
+      const version = req.query.version !== undefined ? parseInt(req.query.version as string, 10) : undefined;
+
+      if (!WORKFLOW_TRANSFER_FORMATS.includes(format) || (version !== undefined && !(version > 0))) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'format 必须是 json 或 yaml，version 必须是正整数'
+          }
+        });
+        return;
+      }
+
+      const hasAccess = await WorkflowModel.checkAccess(id, req.user.userId);
+      if (!hasAccess) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'ACCESS_DENIED',
+            message: '无权限访问该工作流'
+          }
+        });
+        return;
+      }
+
+      const document = await WorkflowModel.exportDocument(id, version);
+      const fileName = `workflow-${id}${version ? `-v${version}` : ''}.${format}`;
+
+      res.setHeader('Content-Type', format === 'yaml' ? 'application/x-yaml; charset=utf-8' : 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.status(200).send(serializeWorkflowDocument(document, format));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '导出工作流失败';
+      const statusCode = errorMessage.includes('不存在') || errorMessage.includes('not found') ? 404 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: 'WORKFLOW_EXPORT_ERROR',
+          message: errorMessage
+        }
+      });
+    }
+  }
+
+  // 导入工作流（上传文件，或在请求体中提交导出文档）
+  async importWorkflow(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_ERROR',
+            message: '用户未认证'
+          }
+        });
+        return;
+      }
+
+      const onConflict = (req.body?.onConflict || req.query.onConflict || 'error') as ImportConflictStrategy;
+      const dryRun = String(req.body?.dryRun ?? req.query.dryRun) === 'true';
+
+      if (!IMPORT_CONFLICT_STRATEGIES.includes(onConflict)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'onConflict 必须是 error 或 rename'
+          }
+        });
+        return;
+      }
+
+      // 上传文件时按扩展名确定格式；请求体可以是 { content } 文本、{ document } 或文档对象本身
+      let content: unknown;
+      let format: WorkflowTransferFormat | undefined;
+      if (req.file) {
+        content = req.file.buffer.toString('utf8');
+        format = /\.json$/i.test(req.file.originalname) ? 'json' : 'yaml';
+      } else if (typeof req.body?.content === 'string') {
+        content = req.body.content;
+      } else {
+        content = req.body?.document || req.body;
+      }
+
+      const document = parseWorkflowDocument(content, format);
+      const result = await WorkflowModel.importDocument(req.user.userId, document, { onConflict, dryRun });
+
+      res.status(dryRun ? 200 : 201).json({
+        success: true,
+        data: result,
+        message: dryRun ? '导入文件验证通过' : '工作流导入成功'
+      });
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : '导入工作流失败';
+
+      // 名称冲突时返回冲突详情，可使用 onConflict=rename 重新导入
+      if (error?.code === WORKFLOW_IMPORT_CONFLICT) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: WORKFLOW_IMPORT_CONFLICT,
+            message: errorMessage,
+            details: { conflicts: error.conflicts }
+          }
+        });
+        return;
+      }
+
+      res.status(400).json({
+        success: false,
+        error: {
+          code: error?.code === WORKFLOW_IMPORT_INVALID ? WORKFLOW_IMPORT_INVALID : 'WORKFLOW_IMPORT_ERROR',
+          message: errorMessage,
+          details: error?.details
+        }
+      });
+    }
+  }
 }
\ No newline at end of file
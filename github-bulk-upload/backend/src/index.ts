@@ -9,6 +9,9 @@ import { testDatabaseConnection } from './config/database';
 import { logger } from './utils/logger';
 import { performanceMonitoring, errorMonitoring, userBehaviorTracking, systemResourceMonitoring } from './middleware/monitoring';
 import { analyticsSystem } from './utils/analytics';
+import { ExecutionService } from './services/executionService';
+import { ScheduleService } from './services/scheduleService';
+import { WebhookService } from './services/webhookService';
 
 // 全局错误处理
 process.on('uncaughtException', (error) => {
@@ -99,6 +102,9 @@ app.use('/api/history', historyRoutes);
 import adminRoutes from './routes/admin';
 app.use('/api/admin', adminRoutes);
 
+import webhookRoutes from './routes/webhooks';
+app.use('/api/webhooks', webhookRoutes);
+
 // 错误处理中间件
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 app.use(notFoundHandler);
@@ -123,6 +129,27 @@ const startServer = async () => {
       logger.warn('System resource monitoring failed to start', { error });
     }
     
+    // 执行和步骤的状态转换推送到 Webhook 订阅
+    const webhookService = new WebhookService();
+    webhookService.listen();
+
+    // 每分钟检测超过时限的步骤并发送升级通知，启动到期的定期执行计划，并重试失败的 Webhook 投递
+    if (dbConnected) {
+      const executionService = new ExecutionService();
+      const scheduleService = new ScheduleService();
+      setInterval(() => {
+        executionService.detectOverdueSteps().catch(error => {
+          logger.error('Overdue step detection failed', { error: error.message });
+        });
+        scheduleService.runDueSchedules().catch(error => {
+          logger.error('Scheduled execution run failed', { error: error.message });
+        });
+        webhookService.retryDueDeliveries().catch(error => {
+          logger.error('Webhook delivery retry failed', { error: error.message });
+        });
+      }, 60 * 1000);
+    }
+
     app.listen(PORT, () => {
       logger.info('Server started successfully', {
         port: PORT,
@@ -13,7 +13,11 @@ import {
   ExecutionStats
 } from '../types/models';
 import { DatabaseUtils } from '../utils/database';
+import { getBlockingSteps } from '../utils/dependencies';
+import { checkEvidence, EVIDENCE_REQUIREMENTS_UNMET, parseEvidenceRules } from '../utils/evidence';
+import { WorkflowVersionModel } from './Workflow';
 
+// 执行模型，执行状态由 ExecutionService 按状态转换表修改
 export class ExecutionModel {
   // 创建执行记录
   static async create(userId: string, data: CreateExecutionInput): Promise<ExecutionWithRelations> {
@@ -27,11 +31,15 @@ export class ExecutionModel {
       throw new Error('Workflow not found');
     }
 
+    // 执行固定在最新发布的版本上
+    const workflowVersion = await WorkflowVersionModel.findLatestForExecution(workflow.id);
+
     // 创建执行记录
     const execution = await prisma.execution.create({
       data: {
         ...data,
         userId,
+        workflowVersionId: workflowVersion.id,
         title: data.title || `执行 ${workflow.name}`,
       },
       include: {
@@ -48,10 +56,10 @@ export class ExecutionModel {
       }
     });
 
-    // 为每个工作流步骤创建执行记录
-    if (workflow.steps.length > 0) {
+    // 为版本中的每个步骤创建执行记录
+    if (workflowVersion.steps.length > 0) {
       await prisma.executionRecord.createMany({
-        data: workflow.steps.map(step => ({
+        data: workflowVersion.steps.map(step => ({
           executionId: execution.id,
           stepId: step.id,
           status: 'PENDING' as StepStatus,
@@ -70,6 +78,9 @@ export class ExecutionModel {
           steps: { orderBy: { order: 'asc' } }
         }
       },
+      workflowVersion: {
+        select: { id: true, version: true, name: true, createdAt: true }
+      },
       user: {
         select: {
           id: true,
@@ -123,14 +134,6 @@ export class ExecutionModel {
       }
     });
 
-    // 如果状态变为完成，更新完成时间
-    if (data.status === 'COMPLETED' && !execution.completedAt) {
-      await prisma.execution.update({
-        where: { id },
-        data: { completedAt: new Date() }
-      });
-    }
-
     return execution;
   }
 
@@ -141,34 +144,6 @@ export class ExecutionModel {
     });
   }
 
-  // 暂停执行
-  static async pause(id: string): Promise<ExecutionWithRelations> {
-    return this.update(id, {
-      status: 'PAUSED',
-    });
-  }
-
-  // 恢复执行
-  static async resume(id: string): Promise<ExecutionWithRelations> {
-    return this.update(id, {
-      status: 'IN_PROGRESS',
-    });
-  }
-
-  // 完成执行
-  static async complete(id: string): Promise<ExecutionWithRelations> {
-    return this.update(id, {
-      status: 'COMPLETED',
-    });
-  }
-
-  // 取消执行
-  static async cancel(id: string): Promise<ExecutionWithRelations> {
-    return this.update(id, {
-      status: 'CANCELLED',
-    });
-  }
-
   // 计算并更新执行进度
   static async updateProgress(id: string): Promise<number> {
     const progress = await DatabaseUtils.executeRawQuery(
@@ -447,7 +422,7 @@ export class ExecutionModel {
   }
 }
 
-// 执行步骤记录模型
+// 执行步骤记录模型，步骤状态由 ExecutionService 按状态转换表修改
 export class ExecutionRecordModel {
   // 创建执行步骤记录
   static async create(data: CreateExecutionRecordInput): Promise<ExecutionRecordWithRelations> {
@@ -479,50 +454,32 @@ export class ExecutionRecordModel {
     return record;
   }
 
-  // 开始步骤
-  static async start(id: string): Promise<ExecutionRecordWithRelations> {
-    return this.update(id, {
-      status: 'IN_PROGRESS',
-      startedAt: new Date(),
-    });
-  }
-
-  // 完成步骤
-  static async complete(id: string, data?: { notes?: string; result?: any }): Promise<ExecutionRecordWithRelations> {
-    const startTime = await prisma.executionRecord.findUnique({
+  // 检查步骤定义的证明材料要求，未满足时抛出 EVIDENCE_REQUIREMENTS_UNMET，unmetRules 为未满足的要求；
+  // 手动完成步骤的每个入口都必须先调用，见 utils/evidence.ts
+  // submission 为本次提交的备注和步骤数据，未提交时使用记录上已保存的内容
+  static async assertEvidence(id: string, submission: { notes?: string | null; data?: any } = {}): Promise<void> {
+    const record = await prisma.executionRecord.findUnique({
       where: { id },
-      select: { startedAt: true },
+      include: { step: true, attachments: true },
     });
 
-    const completedAt = new Date();
-    const actualTime = startTime?.startedAt 
-      ? Math.round((completedAt.getTime() - startTime.startedAt.getTime()) / (1000 * 60)) // 分钟
-      : undefined;
-
-    return this.update(id, {
-      status: 'COMPLETED',
-      completedAt,
-      actualTime,
-      ...data,
-    });
-  }
+    const rules = record ? parseEvidenceRules(record.step.metadata) : null;
+    if (!record || !rules) {
+      return;
+    }
 
-  // 跳过步骤
-  static async skip(id: string, reason?: string): Promise<ExecutionRecordWithRelations> {
-    return this.update(id, {
-      status: 'SKIPPED',
-      notes: reason,
-      completedAt: new Date(),
+    const unmetRules = checkEvidence(rules, {
+      attachments: record.attachments,
+      notes: submission.notes !== undefined ? submission.notes : record.notes,
+      data: submission.data !== undefined ? submission.data : DatabaseUtils.parseJsonField(record.data, {}),
     });
-  }
 
-  // 标记步骤失败
-  static async fail(id: string, reason?: string): Promise<ExecutionRecordWithRelations> {
-    return this.update(id, {
-      status: 'FAILED',
-      notes: reason,
-      completedAt: new Date(),
-    });
+    if (unmetRules.length > 0) {
+      const error: any = new Error(`证明材料不满足要求: ${unmetRules.map(item => item.message).join('；')}`);
+      error.code = EVIDENCE_REQUIREMENTS_UNMET;
+      error.unmetRules = unmetRules;
+      throw error;
+    }
   }
 
   // 根据执行ID获取所有步骤记录
@@ -572,16 +529,21 @@ export class ExecutionRecordModel {
       }
     });
 
-    if (!record || !record.step.dependencies || record.step.dependencies.length === 0) {
+    if (!record) {
       return true;
     }
 
-    // 检查所有依赖步骤是否已完成
-    const dependencySteps = record.execution.executionRecords.filter(er =>
-      record.step.dependencies!.includes(er.step.id)
-    );
-
-    return dependencySteps.every(step => step.status === 'COMPLETED');
+    // 检查所有依赖步骤是否已完成或已跳过
+    const records = record.execution.executionRecords.map(er => ({
+      recordId: er.id,
+      stepId: er.stepId,
+      order: er.step.order,
+      status: er.status,
+      dependencies: er.step.dependencies
+    }));
+    const current = records.find(r => r.recordId === id);
+
+    return !current || getBlockingSteps(current, records).length === 0;
   }
 }
 
@@ -11,42 +11,74 @@ import {
   PaginatedResult 
 } from '../types/models';
 import { DatabaseUtils } from '../utils/database';
+import { parseDependencies, resolveDependencies } from '../utils/dependencies';
+import { lintWorkflow, WORKFLOW_INVALID } from '../utils/workflowLint';
+import {
+  ComparableVersion,
+  VersionRef,
+  WORKFLOW_NOT_PUBLISHED,
+  WorkflowVersionDiff,
+  diffWorkflowVersions,
+  remapConditions,
+  remapDependencies,
+  toComparableSteps
+} from '../utils/workflowVersions';
+import {
+  ImportConflict,
+  WORKFLOW_IMPORT_CONFLICT,
+  WorkflowDocument,
+  WorkflowImportOptions,
+  WorkflowImportResult,
+  buildWorkflowDocument,
+  resolveImportName,
+  toCreateWorkflowInput
+} from '../utils/workflowTransfer';
 
 export class WorkflowModel {
   // 创建工作流
   static async create(userId: string, data: CreateWorkflowInput): Promise<WorkflowWithRelations> {
     const { steps, ...workflowData } = data;
 
-    return prisma.workflow.create({
-      data: {
-        ...workflowData,
-        userId,
-        steps: steps ? {
-          create: steps.map((step, index) => ({
-            ...step,
-            order: step.order || index + 1,
-          }))
-        } : undefined,
-      },
-      include: {
-        steps: {
-          orderBy: { order: 'asc' }
+    return prisma.$transaction(async (tx) => {
+      const workflow = await tx.workflow.create({
+        data: {
+          ...workflowData,
+          userId,
+          steps: steps ? {
+            create: steps.map((step, index) => ({
+              ...step,
+              order: step.order || index + 1,
+              dependencies: step.dependencies ? JSON.stringify(step.dependencies) : undefined,
+            }))
+          } : undefined,
         },
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          }
-        },
-        _count: {
-          select: {
-            steps: true,
-            executions: true,
+      });
+
+      // 依赖可能引用步骤顺序号，步骤创建后统一解析为步骤ID
+      await WorkflowStepModel.normalizeDependencies(workflow.id, tx);
+
+      return tx.workflow.findUnique({
+        where: { id: workflow.id },
+        include: {
+          steps: {
+            orderBy: { order: 'asc' }
+          },
+          user: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            }
+          },
+          _count: {
+            select: {
+              steps: true,
+              executions: true,
+            }
           }
         }
-      }
+      }) as Promise<WorkflowWithRelations>;
     });
   }
 
@@ -93,10 +125,8 @@ export class WorkflowModel {
   static async update(id: string, data: UpdateWorkflowInput): Promise<WorkflowWithRelations> {
     return prisma.workflow.update({
       where: { id },
-      data: {
-        ...data,
-        version: { increment: 1 }, // 自动增加版本号
-      },
+      // 只修改草稿，版本号在发布时递增
+      data,
       include: {
         steps: {
           orderBy: { order: 'asc' }
@@ -152,35 +182,51 @@ export class WorkflowModel {
     const { id: _, createdAt, updatedAt, version, executions, _count, user, ...workflowData } = original;
     const { steps, ...restData } = workflowData;
 
-    return prisma.workflow.create({
-      data: {
-        ...restData,
-        name: newName || `${original.name} (副本)`,
-        userId,
-        version: 1,
-        steps: {
-          create: steps?.map(({ id, workflowId, createdAt, updatedAt, ...stepData }) => stepData) || []
-        }
-      },
-      include: {
-        steps: {
-          orderBy: { order: 'asc' }
-        },
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
+    // 原步骤ID在副本中不存在，先把依赖换回顺序号，创建后再重新解析
+    const orderById = new Map((steps || []).map(step => [step.id, String(step.order)]));
+
+    return prisma.$transaction(async (tx) => {
+      const workflow = await tx.workflow.create({
+        data: {
+          ...restData,
+          name: newName || `${original.name} (副本)`,
+          userId,
+          version: 0,
+          steps: {
+            create: steps?.map(({ id, workflowId, createdAt, updatedAt, ...stepData }) => ({
+              ...stepData,
+              dependencies: JSON.stringify(
+                parseDependencies(stepData.dependencies).map(dependency => orderById.get(dependency) || dependency)
+              ),
+            })) || []
           }
         },
-        _count: {
-          select: {
-            steps: true,
-            executions: true,
+      });
+
+      await WorkflowStepModel.normalizeDependencies(workflow.id, tx);
+
+      return tx.workflow.findUnique({
+        where: { id: workflow.id },
+        include: {
+          steps: {
+            orderBy: { order: 'asc' }
+          },
+          user: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            }
+          },
+          _count: {
+            select: {
+              steps: true,
+              executions: true,
+            }
           }
         }
-      }
+      }) as Promise<WorkflowWithRelations>;
     });
   }
 
@@ -439,45 +485,192 @@ export class WorkflowModel {
 
     return !!workflow;
   }
+
+  // 导出工作流，指定版本号时导出已发布的版本，否则导出当前草稿
+  static async exportDocument(id: string, version?: number): Promise<WorkflowDocument> {
+    if (version !== undefined) {
+      const published = await WorkflowVersionModel.findByVersion(id, version);
+      if (!published) {
+        throw new Error(`版本 ${version} 不存在`);
+      }
+
+      const snapshot = DatabaseUtils.parseJsonField(published.snapshot, {}) as Record<string, any>;
+      return buildWorkflowDocument(
+        { ...snapshot, name: published.name, description: published.description },
+        published.steps,
+        { workflowId: id, version }
+      );
+    }
+
+    const workflow = await prisma.workflow.findUnique({
+      where: { id },
+      include: { steps: { orderBy: { order: 'asc' } } }
+    });
+
+    if (!workflow) {
+      throw new Error('Workflow not found');
+    }
+
+    return buildWorkflowDocument(workflow, workflow.steps, { workflowId: id, version: 'draft' });
+  }
+
+  // 导入工作流，名称与用户已有工作流重复时按 onConflict 处理
+  static async importDocument(
+    userId: string,
+    document: WorkflowDocument,
+    options: WorkflowImportOptions = {}
+  ): Promise<WorkflowImportResult> {
+    const { onConflict = 'error', dryRun = false } = options;
+    const baseName = document.workflow.name;
+
+    const existing = await prisma.workflow.findMany({
+      where: { userId, name: { startsWith: baseName } },
+      select: { id: true, name: true }
+    });
+
+    const conflicts: ImportConflict[] = [];
+    const duplicate = existing.find(workflow => workflow.name === baseName);
+    let name = baseName;
+
+    if (duplicate) {
+      name = resolveImportName(baseName, existing.map(workflow => workflow.name));
+      conflicts.push({
+        type: 'NAME_CONFLICT',
+        message: `已存在同名工作流 "${baseName}"`,
+        existingWorkflowId: duplicate.id,
+        resolution: onConflict === 'rename' ? `重命名为 "${name}"` : undefined,
+      });
+
+      if (onConflict === 'error' && !dryRun) {
+        const error: any = new Error(`已存在同名工作流 "${baseName}"`);
+        error.code = WORKFLOW_IMPORT_CONFLICT;
+        error.conflicts = conflicts;
+        throw error;
+      }
+    }
+
+    const result: WorkflowImportResult = {
+      name,
+      dryRun,
+      conflicts,
+      stepCount: document.steps.length,
+    };
+
+    if (!dryRun) {
+      result.workflow = await this.create(userId, toCreateWorkflowInput(document, name));
+    }
+
+    return result;
+  }
 }
 
 // 工作流步骤模型
 export class WorkflowStepModel {
   // 创建步骤
   static async create(workflowId: string, data: CreateWorkflowStepInput): Promise<WorkflowStep> {
-    return prisma.workflowStep.create({
-      data: {
-        ...data,
-        workflowId,
-      },
+    return prisma.$transaction(async (tx) => {
+      const step = await tx.workflowStep.create({
+        data: {
+          ...data,
+          dependencies: data.dependencies ? JSON.stringify(data.dependencies) : undefined,
+          workflowId,
+        },
+      });
+
+      await this.normalizeDependencies(workflowId, tx);
+
+      return tx.workflowStep.findUniqueOrThrow({ where: { id: step.id } });
     });
   }
 
   // 批量创建步骤
   static async createMany(workflowId: string, steps: CreateWorkflowStepInput[]): Promise<{ count: number }> {
-    return prisma.workflowStep.createMany({
-      data: steps.map(step => ({
-        ...step,
-        workflowId,
-      })),
+    return prisma.$transaction(async (tx) => {
+      const result = await tx.workflowStep.createMany({
+        data: steps.map(step => ({
+          ...step,
+          dependencies: step.dependencies ? JSON.stringify(step.dependencies) : undefined,
+          workflowId,
+        })),
+      });
+
+      await this.normalizeDependencies(workflowId, tx);
+
+      return result;
     });
   }
 
   // 更新步骤
   static async update(id: string, data: UpdateWorkflowStepInput): Promise<WorkflowStep> {
-    return prisma.workflowStep.update({
-      where: { id },
-      data,
+    return prisma.$transaction(async (tx) => {
+      const step = await tx.workflowStep.update({
+        where: { id },
+        data: {
+          ...data,
+          dependencies: data.dependencies ? JSON.stringify(data.dependencies) : undefined,
+        },
+      });
+
+      if (data.dependencies) {
+        await this.normalizeDependencies(step.workflowId, tx);
+      }
+
+      return tx.workflowStep.findUniqueOrThrow({ where: { id } });
     });
   }
 
   // 删除步骤
   static async delete(id: string): Promise<WorkflowStep> {
-    return prisma.workflowStep.delete({
-      where: { id },
+    return prisma.$transaction(async (tx) => {
+      const step = await tx.workflowStep.delete({
+        where: { id },
+      });
+
+      // 移除其他步骤对已删除步骤的依赖
+      const siblings = await tx.workflowStep.findMany({
+        where: { workflowId: step.workflowId },
+      });
+
+      for (const sibling of siblings) {
+        const dependencies = parseDependencies(sibling.dependencies);
+        if (dependencies.includes(id)) {
+          const remaining = dependencies.filter(dependency => dependency !== id);
+          await tx.workflowStep.update({
+            where: { id: sibling.id },
+            data: { dependencies: remaining.length > 0 ? JSON.stringify(remaining) : null },
+          });
+        }
+      }
+
+      return step;
     });
   }
 
+  // 将工作流内的步骤依赖解析为步骤ID，引用无效或存在循环依赖时抛出错误
+  static async normalizeDependencies(
+    workflowId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    const steps = await client.workflowStep.findMany({
+      where: { workflowId },
+      orderBy: { order: 'asc' },
+    });
+
+    const resolved = resolveDependencies(steps);
+
+    for (const step of steps) {
+      const ids = resolved.get(step.id) || [];
+      const dependencies = ids.length > 0 ? JSON.stringify(ids) : null;
+
+      if (step.dependencies !== dependencies) {
+        await client.workflowStep.update({
+          where: { id: step.id },
+          data: { dependencies },
+        });
+      }
+    }
+  }
+
   // 获取工作流的所有步骤
   static async findByWorkflowId(workflowId: string): Promise<WorkflowStep[]> {
     return prisma.workflowStep.findMany({
@@ -521,9 +714,208 @@ export class WorkflowStepModel {
         ...stepData,
         workflowId: targetWorkflowId,
         order: (maxOrder._max.order || 0) + 1,
+        // 依赖指向原工作流的步骤，复制后不再适用
+        dependencies: null,
       },
     });
   }
 }
 
+// 工作流版本模型（发布后的版本不可修改）
+export class WorkflowVersionModel {
+  // 将当前草稿发布为新版本
+  static async publish(workflowId: string, userId: string, changelog?: string) {
+    const created = await prisma.$transaction(async (tx) => {
+      const workflow = await tx.workflow.findUnique({
+        where: { id: workflowId },
+        include: { steps: { orderBy: { order: 'asc' } } }
+      });
+
+      if (!workflow) {
+        throw new Error('Workflow not found');
+      }
+
+      if (workflow.steps.length === 0) {
+        throw new Error('工作流没有定义步骤，无法发布');
+      }
+
+      // 发布前检查整个工作流定义，存在错误时拒绝发布
+      const lint = lintWorkflow(workflow.steps, { workflowId });
+      if (!lint.valid) {
+        const error: any = new Error(`工作流定义存在 ${lint.errors.length} 个错误，无法发布: ${lint.errors[0].message}`);
+        error.code = WORKFLOW_INVALID;
+        error.details = lint;
+        throw error;
+      }
+
+      const latest = await tx.workflowVersion.findFirst({
+        where: { workflowId },
+        orderBy: { version: 'desc' },
+      });
+      const version = (latest?.version || 0) + 1;
+
+      const workflowVersion = await tx.workflowVersion.create({
+        data: {
+          workflowId,
+          version,
+          name: workflow.name,
+          description: workflow.description,
+          snapshot: JSON.stringify({
+            category: workflow.category,
+            tags: workflow.tags,
+            metadata: workflow.metadata,
+          }),
+          changelog,
+          publishedBy: userId,
+        },
+      });
+
+      // 复制步骤，再把依赖和条件中的草稿步骤ID替换为版本步骤ID
+      const idMap = new Map<string, string>();
+      for (const { id, workflowId: _, createdAt, updatedAt, ...stepData } of workflow.steps) {
+        const copy = await tx.workflowVersionStep.create({
+          data: {
+            ...stepData,
+            versionId: workflowVersion.id,
+            sourceStepId: id,
+            dependencies: null,
+            conditions: null,
+          },
+        });
+        idMap.set(id, copy.id);
+      }
+
+      for (const step of workflow.steps) {
+        const dependencies = remapDependencies(step.dependencies, idMap);
+        const conditions = remapConditions(step.conditions, idMap);
+
+        await tx.workflowVersionStep.update({
+          where: { id: idMap.get(step.id)! },
+          data: {
+            dependencies: dependencies.length > 0 ? JSON.stringify(dependencies) : null,
+            conditions: conditions ? JSON.stringify(conditions) : null,
+          },
+        });
+      }
+
+      await tx.workflow.update({
+        where: { id: workflowId },
+        data: { version },
+      });
+
+      return workflowVersion;
+    });
+
+    return prisma.workflowVersion.findUniqueOrThrow({
+      where: { id: created.id },
+      include: {
+        steps: { orderBy: { order: 'asc' } }
+      }
+    });
+  }
+
+  // 获取工作流的所有版本
+  static async findByWorkflowId(workflowId: string) {
+    return prisma.workflowVersion.findMany({
+      where: { workflowId },
+      orderBy: { version: 'desc' },
+      include: {
+        _count: {
+          select: {
+            steps: true,
+            executions: true,
+          }
+        }
+      }
+    });
+  }
+
+  // 获取指定版本（包含步骤）
+  static async findByVersion(workflowId: string, version: number) {
+    return prisma.workflowVersion.findUnique({
+      where: { workflowId_version: { workflowId, version } },
+      include: {
+        steps: { orderBy: { order: 'asc' } }
+      }
+    });
+  }
+
+  // 获取最新发布的版本
+  static async findLatest(workflowId: string) {
+    return prisma.workflowVersion.findFirst({
+      where: { workflowId },
+      orderBy: { version: 'desc' },
+      include: {
+        steps: { orderBy: { order: 'asc' } }
+      }
+    });
+  }
+
+  // 获取用于执行的版本，工作流必须先发布版本才能执行，不会自动发布草稿
+  static async findLatestForExecution(workflowId: string) {
+    const latest = await this.findLatest(workflowId);
+    if (!latest) {
+      const error: any = new Error('工作流尚未发布，请先发布版本再执行');
+      error.code = WORKFLOW_NOT_PUBLISHED;
+      throw error;
+    }
+
+    return latest;
+  }
+
+  // 对比两个版本，'draft' 表示当前草稿
+  static async diff(workflowId: string, from: VersionRef, to: VersionRef): Promise<WorkflowVersionDiff> {
+    const [fromVersion, toVersion] = await Promise.all([
+      this.toComparable(workflowId, from),
+      this.toComparable(workflowId, to),
+    ]);
+
+    return diffWorkflowVersions(fromVersion, toVersion);
+  }
+
+  private static async toComparable(workflowId: string, ref: VersionRef): Promise<ComparableVersion> {
+    if (ref === 'draft') {
+      const workflow = await prisma.workflow.findUnique({
+        where: { id: workflowId },
+        include: { steps: { orderBy: { order: 'asc' } } }
+      });
+
+      if (!workflow) {
+        throw new Error('Workflow not found');
+      }
+
+      return {
+        version: 'draft',
+        workflow: {
+          name: workflow.name,
+          description: workflow.description,
+          category: workflow.category,
+          tags: DatabaseUtils.parseJsonField(workflow.tags),
+          metadata: DatabaseUtils.parseJsonField(workflow.metadata),
+        },
+        steps: toComparableSteps(workflow.steps, step => step.id),
+      };
+    }
+
+    const version = await this.findByVersion(workflowId, ref);
+    if (!version) {
+      throw new Error(`版本 ${ref} 不存在`);
+    }
+
+    const snapshot = DatabaseUtils.parseJsonField(version.snapshot, {}) as Record<string, any>;
+
+    return {
+      version: ref,
+      workflow: {
+        name: version.name,
+        description: version.description,
+        category: snapshot.category,
+        tags: DatabaseUtils.parseJsonField(snapshot.tags),
+        metadata: DatabaseUtils.parseJsonField(snapshot.metadata),
+      },
+      steps: toComparableSteps(version.steps, step => step.sourceStepId || step.id),
+    };
+  }
+}
+
 export default WorkflowModel;
\ No newline at end of file
@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import { ExecutionController } from '../controllers/executionController';
+import { BatchController } from '../controllers/batchController';
 import { authenticateToken } from '../middleware/auth';
 
 const router = Router();
 const executionController = new ExecutionController();
+const batchController = new BatchController();
 
 // 所有执行路由都需要认证
 router.use(authenticateToken);
@@ -12,7 +14,8 @@ router.use(authenticateToken);
  * @swagger
  * /api/executions:
  *   post:
- *     summary: 创建执行记录
+ *     summary: 开始新的流程执行
+ *     description: 工作流在 metadata.parameters 中声明了参数时必须填写必填参数，参数值用于生成执行标题并替换步骤名称、描述和通知模板中的 {{参数}}
  *     tags: [Executions]
  *     security:
  *       - bearerAuth: []
@@ -41,15 +44,19 @@ router.use(authenticateToken);
  *               dueDate:
  *                 type: string
  *                 format: date-time
+ *               parameters:
+ *                 type: object
+ *                 description: 工作流声明的执行参数的值
+ *                 example: { "ticker": "00700.HK", "market": "港股" }
  *     responses:
  *       201:
  *         description: 创建成功
  *       400:
- *         description: 请求参数错误
+ *         description: 请求参数错误，参数未通过校验时返回 INVALID_PARAMETERS 和逐项的 fieldErrors
  *       403:
  *         description: 无权限访问该工作流
  */
-router.post('/', executionController.createExecution.bind(executionController));
+router.post('/', executionController.startExecution.bind(executionController));
 
 /**
  * @swagger
@@ -170,6 +177,7 @@ router.get('/in-progress', executionController.getInProgressExecutions.bind(exec
  * /api/executions/upcoming:
  *   get:
  *     summary: 获取即将到期的执行记录
+ *     description: 返回截止日期在未来指定天数内的未结束执行，已逾期的执行排在最前并标记 isOverdue
  *     tags: [Executions]
  *     security:
  *       - bearerAuth: []
@@ -186,6 +194,127 @@ router.get('/in-progress', executionController.getInProgressExecutions.bind(exec
  */
 router.get('/upcoming', executionController.getUpcomingExecutions.bind(executionController));
 
+/**
+ * @swagger
+ * /api/executions/approvals/pending:
+ *   get:
+ *     summary: 获取待我审批的步骤
+ *     description: 返回当前用户作为审批人、且本轮尚未提交意见的进行中审批步骤
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 待审批步骤列表，包含工作流、发起人、审批轮次和提交时间
+ */
+router.get('/approvals/pending', executionController.getPendingApprovals.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/assigned:
+ *   get:
+ *     summary: 获取分配给我的步骤
+ *     description: 跨所有进行中或已暂停的执行，返回分配给当前用户且尚未完成或跳过的步骤，按步骤截止时间排序
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 步骤列表，包含所属执行、工作流、发起人、步骤状态和截止时间
+ */
+router.get('/assigned', executionController.getAssignedSteps.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/batches:
+ *   post:
+ *     summary: 批量启动执行
+ *     description: 为每组参数各启动一个执行并归入同一批次，rows 和 csv 二选一。所有行先按工作流的参数定义校验，有任意一行不通过时不创建任何执行；通过后批次和所有执行在同一个事务中创建
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - workflowId
+ *               - name
+ *             properties:
+ *               workflowId:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *                 example: 2024Q4 港股科技股筛选
+ *               rows:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   type: object
+ *                 example: [{ "ticker": "00700.HK" }, { "ticker": "09988.HK" }]
+ *               csv:
+ *                 type: string
+ *                 description: 首行为参数名或参数标签的 CSV 文本
+ *                 example: "ticker,market\n00700.HK,港股\nAAPL,美股"
+ *               priority:
+ *                 type: string
+ *                 enum: [LOW, MEDIUM, HIGH, URGENT]
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: 创建成功，返回批次及其中的执行
+ *       400:
+ *         description: 请求参数错误；有参数未通过校验时返回 INVALID_BATCH_ROWS 和逐行的 rowErrors
+ *       404:
+ *         description: 工作流不存在或已禁用
+ *   get:
+ *     summary: 获取执行批次列表
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: workflowId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 批次列表，包含各批次执行的状态统计和平均进度
+ */
+router.post('/batches', batchController.createBatch.bind(batchController));
+router.get('/batches', batchController.getBatches.bind(batchController));
+
+/**
+ * @swagger
+ * /api/executions/batches/{batchId}:
+ *   get:
+ *     summary: 获取批次详情
+ *     description: 返回批次内每个执行的参数、进度和各步骤状态，用于并排对比
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ *       404:
+ *         description: 批次不存在
+ */
+router.get('/batches/:batchId', batchController.getBatchById.bind(batchController));
+
 /**
  * @swagger
  * /api/executions/{id}:
@@ -273,8 +402,8 @@ router.put('/:id', executionController.updateExecution.bind(executionController)
  *     responses:
  *       200:
  *         description: 暂停成功
- *       400:
- *         description: 执行状态不允许暂停
+ *       409:
+ *         description: 执行的当前状态不允许暂停（INVALID_TRANSITION）
  *       403:
  *         description: 无权限操作
  *       404:
@@ -299,8 +428,8 @@ router.post('/:id/pause', executionController.pauseExecution.bind(executionContr
  *     responses:
  *       200:
  *         description: 恢复成功
- *       400:
- *         description: 执行状态不允许恢复
+ *       409:
+ *         description: 执行的当前状态不允许恢复（INVALID_TRANSITION）
  *       403:
  *         description: 无权限操作
  *       404:
@@ -308,6 +437,42 @@ router.post('/:id/pause', executionController.pauseExecution.bind(executionContr
  */
 router.post('/:id/resume', executionController.resumeExecution.bind(executionController));
 
+/**
+ * @swagger
+ * /api/executions/{id}/due-date:
+ *   put:
+ *     summary: 修改执行的截止日期
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: 新的截止日期，传 null 清除
+ *     responses:
+ *       200:
+ *         description: 修改成功
+ *       400:
+ *         description: 截止日期无效或执行已结束
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.put('/:id/due-date', executionController.updateDueDate.bind(executionController));
+
 /**
  * @swagger
  * /api/executions/{id}/complete:
@@ -326,7 +491,9 @@ router.post('/:id/resume', executionController.resumeExecution.bind(executionCon
  *       200:
  *         description: 完成成功
  *       400:
- *         description: 执行状态不允许完成
+ *         description: 还有必需步骤未完成
+ *       409:
+ *         description: 执行的当前状态不允许完成（INVALID_TRANSITION）
  *       403:
  *         description: 无权限操作
  *       404:
@@ -348,11 +515,20 @@ router.post('/:id/complete', executionController.completeExecution.bind(executio
  *         required: true
  *         schema:
  *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: 取消原因，随转换事件记录
  *     responses:
  *       200:
  *         description: 取消成功
- *       400:
- *         description: 执行状态不允许取消
+ *       409:
+ *         description: 执行的当前状态不允许取消（INVALID_TRANSITION）
  *       403:
  *         description: 无权限操作
  *       404:
@@ -410,9 +586,9 @@ router.get('/:id/next-step', executionController.getNextPendingStep.bind(executi
 
 /**
  * @swagger
- * /api/executions/{id}/progress:
- *   put:
- *     summary: 更新执行进度
+ * /api/executions/{id}/ready-steps:
+ *   get:
+ *     summary: 获取所有前置步骤已完成、可以并行开始的步骤
  *     tags: [Executions]
  *     security:
  *       - bearerAuth: []
@@ -424,137 +600,941 @@ router.get('/:id/next-step', executionController.getNextPendingStep.bind(executi
  *           type: string
  *     responses:
  *       200:
- *         description: 进度更新成功
- *       403:
- *         description: 无权限操作
+ *         description: 获取成功
  *       404:
  *         description: 执行记录不存在
  */
-router.put('/:id/progress', executionController.updateProgress.bind(executionController));
+router.get('/:id/ready-steps', executionController.getReadySteps.bind(executionController));
 
 /**
  * @swagger
- * /api/executions/{executionId}/records/{recordId}/start:
- *   post:
- *     summary: 开始执行步骤
+ * /api/executions/{id}/timeline:
+ *   get:
+ *     summary: 获取执行的事件时间线
+ *     description: 按发生顺序返回执行和步骤的每次修改，包括操作人（系统自动处理时为空）、事件类型、状态转换动作、修改前后的值和原因
  *     tags: [Executions]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: executionId
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.get('/:id/timeline', executionController.getExecutionTimeline.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{id}/stream:
+ *   get:
+ *     summary: 订阅执行的实时推送
+ *     description: |
+ *       Server-Sent Events 连接，发起人和参与者均可订阅。事件类型：
+ *       step（步骤记录的最新状态）、execution（执行状态和进度）、comment（评论变化）、
+ *       attachment（附件上传或删除）、presence（正在查看该执行的成员）。
+ *       同一执行短时间内的多次修改合并为一次推送；成员被移出执行时连接关闭
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
  *       - in: path
- *         name: recordId
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
  *     responses:
  *       200:
- *         description: 开始成功
- *       400:
- *         description: 步骤依赖未满足
- *       403:
- *         description: 无权限操作
+ *         description: 事件流
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
  *       404:
  *         description: 执行记录不存在
  */
-router.post('/:executionId/records/:recordId/start', executionController.startStep.bind(executionController));
+router.get('/:id/stream', executionController.streamExecution.bind(executionController));
 
 /**
  * @swagger
- * /api/executions/{executionId}/records/{recordId}/complete:
- *   post:
- *     summary: 完成执行步骤
+ * /api/executions/{id}/participants:
+ *   get:
+ *     summary: 获取执行的参与者
+ *     description: 返回执行发起人和参与者列表，VIEWER 只能查看执行，CONTRIBUTOR 可以处理步骤
  *     tags: [Executions]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: executionId
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ *       404:
+ *         description: 执行记录不存在
+ *   post:
+ *     summary: 添加参与者或修改参与者角色
+ *     description: 只有执行发起人可以操作；参与者改为 VIEWER 时取消其步骤分配
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
  *       - in: path
- *         name: recordId
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
  *     requestBody:
+ *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required:
+ *               - user
  *             properties:
- *               notes:
+ *               user:
  *                 type: string
- *               result:
- *                 type: object
+ *                 description: 用户ID或邮箱
+ *               role:
+ *                 type: string
+ *                 enum: [VIEWER, CONTRIBUTOR]
+ *                 default: CONTRIBUTOR
  *     responses:
  *       200:
- *         description: 完成成功
- *       403:
- *         description: 无权限操作
+ *         description: 保存成功
+ *       400:
+ *         description: 请求参数错误或用户不存在
  *       404:
- *         description: 执行记录不存在
+ *         description: 执行记录不存在或无权限
  */
-router.post('/:executionId/records/:recordId/complete', executionController.completeStep.bind(executionController));
+router.get('/:id/participants', executionController.getParticipants.bind(executionController));
+router.post('/:id/participants', executionController.addParticipant.bind(executionController));
 
 /**
  * @swagger
- * /api/executions/{executionId}/records/{recordId}/skip:
- *   post:
- *     summary: 跳过执行步骤
+ * /api/executions/{id}/participants/{userId}:
+ *   delete:
+ *     summary: 移除参与者
+ *     description: 执行发起人可以移除任何参与者，参与者可以移除自己（退出执行）；该成员的步骤分配一并取消
  *     tags: [Executions]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: executionId
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
  *         required: true
  *         schema:
  *           type: string
+ *     responses:
+ *       200:
+ *         description: 移除成功
+ *       404:
+ *         description: 执行记录或参与者不存在
+ */
+router.delete('/:id/participants/:userId', executionController.removeParticipant.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{id}/comments:
+ *   get:
+ *     summary: 获取执行的评论讨论串
+ *     description: 顶层评论按时间排列，回复在 replies 中；已删除的评论保留在讨论串中但不返回内容
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
  *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
  *         name: recordId
+ *         schema:
+ *           type: string
+ *         description: 只返回该步骤的评论
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ *       404:
+ *         description: 执行记录不存在
+ *   post:
+ *     summary: 发表评论或回复
+ *     description: 执行发起人和所有参与者都可以评论；评论中的 @邮箱 或 @姓名 会通知被提到的执行成员
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
  *     requestBody:
+ *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required:
+ *               - body
  *             properties:
- *               reason:
+ *               body:
+ *                 type: string
+ *                 maxLength: 5000
+ *               recordId:
  *                 type: string
+ *                 description: 针对某个步骤的评论
+ *               parentId:
+ *                 type: string
+ *                 description: 回复的顶层评论
  *     responses:
- *       200:
- *         description: 跳过成功
- *       403:
- *         description: 无权限操作
+ *       201:
+ *         description: 发表成功
+ *       400:
+ *         description: 请求参数错误
  *       404:
- *         description: 执行记录不存在
+ *         description: 执行记录、步骤或评论不存在
  */
-router.post('/:executionId/records/:recordId/skip', executionController.skipStep.bind(executionController));
+router.get('/:id/comments', executionController.getComments.bind(executionController));
+router.post('/:id/comments', executionController.createComment.bind(executionController));
 
 /**
  * @swagger
- * /api/executions/{executionId}/records/{recordId}/fail:
- *   post:
- *     summary: 标记步骤失败
+ * /api/executions/{id}/comments/{commentId}:
+ *   put:
+ *     summary: 修改评论
+ *     description: 只有作者可以修改，修改前的内容保存为历史版本；只通知新提到的成员
  *     tags: [Executions]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: executionId
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
  *       - in: path
- *         name: recordId
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 5000
+ *     responses:
+ *       200:
+ *         description: 修改成功
+ *       400:
+ *         description: 请求参数错误或评论已删除
+ *       404:
+ *         description: 评论不存在或无权限
+ *   delete:
+ *     summary: 删除评论
+ *     description: 作者和执行发起人可以删除；评论保留在讨论串中，删除前的内容保存为历史版本
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 删除成功
+ *       404:
+ *         description: 评论不存在或无权限
+ */
+router.put('/:id/comments/:commentId', executionController.updateComment.bind(executionController));
+router.delete('/:id/comments/:commentId', executionController.deleteComment.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{id}/comments/{commentId}/resolve:
+ *   post:
+ *     summary: 标记评论为已解决
+ *     description: 只能标记顶层评论，评论作者和可以处理执行的成员可以操作
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 标记成功
+ *       400:
+ *         description: 不是顶层评论或评论已删除
+ *       404:
+ *         description: 评论不存在或无权限
+ */
+router.post('/:id/comments/:commentId/resolve', executionController.resolveComment.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{id}/comments/{commentId}/unresolve:
+ *   post:
+ *     summary: 重新打开已解决的评论
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 重新打开成功
+ *       404:
+ *         description: 评论不存在或无权限
+ */
+router.post('/:id/comments/:commentId/unresolve', executionController.unresolveComment.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{id}/comments/{commentId}/revisions:
+ *   get:
+ *     summary: 获取评论的修改历史
+ *     description: 返回每次修改或删除前的内容，按时间倒序
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ *       404:
+ *         description: 评论不存在
+ */
+router.get('/:id/comments/:commentId/revisions', executionController.getCommentRevisions.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{id}/progress:
+ *   put:
+ *     summary: 更新执行进度
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 进度更新成功
+ *       403:
+ *         description: 无权限操作
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.put('/:id/progress', executionController.updateProgress.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/start:
+ *   post:
+ *     summary: 开始执行步骤
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 开始成功
+ *       409:
+ *         description: 前置步骤尚未完成（DEPENDENCIES_NOT_MET，error.details.blockingSteps 列出阻塞的步骤）或步骤、执行的当前状态不允许开始（INVALID_TRANSITION）
+ *       403:
+ *         description: 无权限操作
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.post('/:executionId/records/:recordId/start', executionController.startStep.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/complete:
+ *   post:
+ *     summary: 完成执行步骤
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *               data:
+ *                 type: object
+ *                 description: 步骤录入数据，决策步骤的选择写入 decision 字段，供后续步骤的分支条件引用；输入步骤按 metadata.fields 定义校验
+ *               result:
+ *                 type: object
+ *               valuation:
+ *                 type: object
+ *                 description: 启用估值模型的计算步骤提交的估值输入，缺省时沿用已保存的估值
+ *               property:
+ *                 type: object
+ *                 description: 启用房地产测算的计算步骤提交的测算输入，缺省时沿用已保存的测算
+ *     responses:
+ *       200:
+ *         description: 完成成功
+ *       400:
+ *         description: 表单数据验证失败（INVALID_STEP_DATA，details.fieldErrors 列出各字段错误）、公式计算失败（CALCULATION_FAILED，details.trace 为计算过程）、估值输入无效（INVALID_VALUATION_INPUT）、房地产测算输入无效（INVALID_PROPERTY_INPUT）、检查清单未满足完成规则（CHECKLIST_INCOMPLETE，details.missingItems 列出还需勾选的项目）或证明材料不满足步骤要求（EVIDENCE_REQUIREMENTS_UNMET，details.unmetRules 列出未满足的要求）
+ *       409:
+ *         description: 步骤或执行的当前状态不允许完成（INVALID_TRANSITION）
+ *       403:
+ *         description: 无权限操作
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.post('/:executionId/records/:recordId/complete', executionController.completeStep.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/calculate:
+ *   post:
+ *     summary: 试算计算步骤的公式（不保存结果）
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               data:
+ *                 type: object
+ *                 description: 本步骤录入的数据，缺省时使用已保存的数据
+ *     responses:
+ *       200:
+ *         description: 返回每个公式的结果、引用的值和错误信息
+ *       400:
+ *         description: 不是计算步骤
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.post('/:executionId/records/:recordId/calculate', executionController.previewCalculations.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/checklist:
+ *   get:
+ *     summary: 获取检查清单步骤每一项的勾选情况
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 返回完成规则、各检查项的勾选情况（说明、证明材料、勾选人和时间）以及步骤内进度
+ *       400:
+ *         description: 该步骤没有检查清单
+ *       404:
+ *         description: 执行记录不存在
+ *   put:
+ *     summary: 勾选或取消勾选检查项
+ *     description: 只能在进行中的步骤里勾选。步骤内的勾选比例计入执行进度；完成步骤时按 metadata.checklistRule（all 或 required）检查，未满足时返回 CHECKLIST_INCOMPLETE
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - item
+ *               - checked
+ *             properties:
+ *               item:
+ *                 type: string
+ *                 description: 检查项标识（未指定 key 时为检查项标签）
+ *               checked:
+ *                 type: boolean
+ *               note:
+ *                 type: string
+ *               attachmentId:
+ *                 type: string
+ *                 description: 本步骤已上传的附件，作为证明材料
+ *     responses:
+ *       200:
+ *         description: 返回更新后的检查清单
+ *       400:
+ *         description: 步骤不在进行中或没有检查清单
+ *       404:
+ *         description: 执行记录、检查项或附件不存在
+ */
+router.get('/:executionId/records/:recordId/checklist', executionController.getChecklist.bind(executionController));
+router.put('/:executionId/records/:recordId/checklist', executionController.updateChecklistItem.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/valuation:
+ *   put:
+ *     summary: 保存计算步骤的估值模型（DCF与可比公司相对估值）
+ *     description: 比率使用小数（8% 为 0.08）。输入和计算结果保存到步骤记录的 result.valuation，完成步骤时沿用
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               currentPrice:
+ *                 type: number
+ *               dcf:
+ *                 type: object
+ *                 description: baseCashFlow、stages[{years, growth}]、discountRate 或 wacc、terminalMethod（perpetuity/exitMultiple）、terminalGrowth、exitMultiple、netDebt、sharesOutstanding、sensitivity
+ *               multiples:
+ *                 type: object
+ *                 description: peers[{name, pe, pb, ps, evEbitda}]、metrics{eps, bvps, salesPerShare, ebitda}、netDebt、sharesOutstanding
+ *     responses:
+ *       200:
+ *         description: 返回保存的输入、DCF明细、敏感性分析表、相对估值和公允价值区间
+ *       400:
+ *         description: 估值输入无效（INVALID_VALUATION_INPUT）或步骤未启用估值模型
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.put('/:executionId/records/:recordId/valuation', executionController.saveValuation.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/property:
+ *   put:
+ *     summary: 保存计算步骤的房地产投资测算
+ *     description: 比率使用小数（5% 为 0.05）。完整测算保存到 result.property，IRR、NPV、资本化率、DSCR、现金回报率等汇总指标写入 data.property，可在分支条件和决策标准中引用
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [purchasePrice, rentRoll, operatingExpenses, holdingPeriod, exitCapRate, discountRate]
+ *             properties:
+ *               purchasePrice:
+ *                 type: number
+ *               closingCosts:
+ *                 type: number
+ *               loan:
+ *                 type: object
+ *                 description: amount 或 ltv、interestRate、amortizationYears、interestOnlyYears
+ *               rentRoll:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     unit:
+ *                       type: string
+ *                     monthlyRent:
+ *                       type: number
+ *               otherIncome:
+ *                 type: number
+ *               rentGrowth:
+ *                 type: number
+ *               vacancyRate:
+ *                 type: number
+ *               operatingExpenses:
+ *                 type: number
+ *               expenseGrowth:
+ *                 type: number
+ *               capex:
+ *                 oneOf:
+ *                   - type: number
+ *                   - type: array
+ *                     items:
+ *                       type: number
+ *               holdingPeriod:
+ *                 type: integer
+ *               exitCapRate:
+ *                 type: number
+ *               sellingCostRate:
+ *                 type: number
+ *               discountRate:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: 返回保存的输入、逐年现金流、退出收益和汇总指标
+ *       400:
+ *         description: 测算输入无效（INVALID_PROPERTY_INPUT）或步骤未启用房地产测算
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.put('/:executionId/records/:recordId/property', executionController.savePropertyModel.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/criteria:
+ *   get:
+ *     summary: 获取决策步骤的参考标准及当前评估结果
+ *     description: 参考标准定义在决策步骤的 metadata.criteria 中，规则写法与分支条件相同；完成决策步骤时评估结果写入 result.criteria
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 每项标准的实际值和评估结果（MATCHED、UNMATCHED、UNRESOLVED）
+ *       400:
+ *         description: 不是决策步骤
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.get('/:executionId/records/:recordId/criteria', executionController.getDecisionCriteria.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/approvals:
+ *   get:
+ *     summary: 获取审批步骤的审批情况
+ *     description: 审批人和通过规则定义在审批步骤的 metadata.approval 中；执行发起人和审批人可以查看
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 审批配置、有效审批人、本轮统计、历次审批意见以及当前用户能否审批
+ *       400:
+ *         description: 不是审批步骤或未配置审批人
+ *       404:
+ *         description: 执行记录不存在或无权限访问
+ */
+router.get('/:executionId/records/:recordId/approvals', executionController.getStepApprovals.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/approvals:
+ *   post:
+ *     summary: 提交审批意见
+ *     description: 同意人数达到通过规则时步骤完成；剩余审批人全部同意也无法通过时驳回，执行退回 metadata.approval.rejectTo 指定的步骤并开始新一轮审批
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - decision
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               comment:
+ *                 type: string
+ *                 description: 驳回时必填
+ *     responses:
+ *       200:
+ *         description: 提交成功，返回审批步骤记录
+ *       400:
+ *         description: 审批结果无效或本轮已提交过意见
+ *       409:
+ *         description: 步骤未提交审批或执行不在进行中（INVALID_TRANSITION）
+ *       403:
+ *         description: 不是该步骤的审批人（NOT_APPROVER）
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.post('/:executionId/records/:recordId/approvals', executionController.decideApproval.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/notification/retry:
+ *   post:
+ *     summary: 重发通知步骤
+ *     description: 通知步骤在前置步骤完成后自动发送，投递失败时步骤标记为失败；渠道恢复后可通过此接口重新发送
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 返回步骤记录，result.notification 中包含各渠道的投递结果
+ *       400:
+ *         description: 不是通知步骤或步骤未发送失败
+ *       409:
+ *         description: 执行不在进行中（INVALID_TRANSITION）
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.post('/:executionId/records/:recordId/notification/retry', executionController.retryNotification.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/subworkflow/retry:
+ *   post:
+ *     summary: 重新启动子流程步骤
+ *     description: 子流程步骤在前置步骤完成后自动启动引用工作流的子执行，启动失败时步骤标记为失败；修正引用的工作流后可通过此接口重新启动
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 返回步骤记录，result.subworkflow 中包含子执行ID
+ *       400:
+ *         description: 不是子流程步骤
+ *       409:
+ *         description: 步骤未失败或执行不在进行中（INVALID_TRANSITION）
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.post('/:executionId/records/:recordId/subworkflow/retry', executionController.retrySubworkflow.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/skip:
+ *   post:
+ *     summary: 跳过执行步骤
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: 跳过成功
+ *       400:
+ *         description: 审批步骤不能跳过
+ *       409:
+ *         description: 步骤或执行的当前状态不允许跳过（INVALID_TRANSITION）
+ *       403:
+ *         description: 无权限操作
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.post('/:executionId/records/:recordId/skip', executionController.skipStep.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/fail:
+ *   post:
+ *     summary: 标记步骤失败
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
  *         required: true
  *         schema:
  *           type: string
@@ -569,6 +1549,8 @@ router.post('/:executionId/records/:recordId/skip', executionController.skipStep
  *     responses:
  *       200:
  *         description: 标记成功
+ *       409:
+ *         description: 步骤或执行的当前状态不允许标记失败（INVALID_TRANSITION）
  *       403:
  *         description: 无权限操作
  *       404:
@@ -576,6 +1558,124 @@ router.post('/:executionId/records/:recordId/skip', executionController.skipStep
  */
 router.post('/:executionId/records/:recordId/fail', executionController.failStep.bind(executionController));
 
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/reopen:
+ *   post:
+ *     summary: 重新打开已完成或已跳过的步骤
+ *     description: 之前的状态和结果保存为步骤的历史版本，步骤重新进入进行中；已完成的执行恢复为进行中。审批步骤重新打开后进入新一轮审批，通知和子流程步骤以及因分支条件跳过的步骤不能重新打开
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: 重新打开的原因
+ *               cascade:
+ *                 type: boolean
+ *                 default: false
+ *                 description: 同时将直接或间接依赖该步骤的后续步骤恢复为待处理（同样保存历史版本）
+ *     responses:
+ *       200:
+ *         description: 重新打开成功
+ *       400:
+ *         description: 缺少原因，或步骤由分支条件跳过、由系统自动处理
+ *       409:
+ *         description: 步骤或执行的当前状态不允许重新打开（INVALID_TRANSITION）
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.post('/:executionId/records/:recordId/reopen', executionController.reopenStep.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/revisions:
+ *   get:
+ *     summary: 获取步骤的历史版本
+ *     description: 每次重新打开（包括被上游步骤连带重置）前的状态、笔记、数据和结果，最近的在前
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ *       404:
+ *         description: 执行记录不存在
+ */
+router.get('/:executionId/records/:recordId/revisions', executionController.getStepRevisions.bind(executionController));
+
+/**
+ * @swagger
+ * /api/executions/{executionId}/records/{recordId}/assignee:
+ *   put:
+ *     summary: 分配步骤
+ *     description: 只有执行发起人可以操作；步骤只能分配给发起人或协作者（CONTRIBUTOR），已分配的步骤只有被分配人和发起人可以处理
+ *     tags: [Executions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - assigneeId
+ *             properties:
+ *               assigneeId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: 被分配人的用户ID，null 表示取消分配
+ *     responses:
+ *       200:
+ *         description: 分配成功
+ *       400:
+ *         description: 被分配人不是协作者或步骤已结束
+ *       404:
+ *         description: 执行记录不存在或无权限
+ */
+router.put('/:executionId/records/:recordId/assignee', executionController.assignStep.bind(executionController));
+
 /**
  * @swagger
  * /api/executions/{executionId}/records/{recordId}:
@@ -73,7 +73,17 @@ router.use(authenticateToken);
  *         name: searchTerm
  *         schema:
  *           type: string
- *         description: 搜索关键词
+ *         description: 搜索关键词（同时匹配执行标题）
+ *       - in: query
+ *         name: params
+ *         schema:
+ *           type: string
+ *         description: 按执行参数筛选，JSON 格式如 {"ticker":"00700.HK"}；也可以写成 param.ticker=00700.HK
+ *       - in: query
+ *         name: batchId
+ *         schema:
+ *           type: string
+ *         description: 只看某个执行批次中的执行
  *     responses:
  *       200:
  *         description: 获取成功
@@ -177,6 +187,36 @@ router.post('/search', historyController.advancedSearch.bind(historyController))
  */
 router.get('/stats', historyController.getHistoryStats.bind(historyController));
 
+/**
+ * @swagger
+ * /api/history/checklists:
+ *   get:
+ *     summary: 获取检查清单各检查项的完成统计
+ *     description: 按工作流和步骤汇总每个检查项在多次执行中的勾选数、完成率以及填写说明和附上证明材料的次数
+ *     tags: [History]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: workflowId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ */
+router.get('/checklists', historyController.getChecklistStats.bind(historyController));
+
 /**
  * @swagger
  * /api/history/executions/{id}:
@@ -288,6 +328,12 @@ router.delete('/executions/batch', historyController.batchDeleteExecutions.bind(
  *           default: false
  *         description: 是否包含附件信息
  *       - in: query
+ *         name: includeComments
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: 是否包含评论，CSV 格式时合并为一列
+ *       - in: query
  *         name: workflowId
  *         schema:
  *           type: string
@@ -0,0 +1,254 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhookController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+const webhookController = new WebhookController();
+
+// 所有 Webhook 路由都需要认证
+router.use(authenticateToken);
+
+/**
+ * @swagger
+ * /api/webhooks/event-types:
+ *   get:
+ *     summary: 获取可订阅的事件类型
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 获取成功，返回事件类型和名称
+ */
+router.get('/event-types', webhookController.getEventTypes.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   get:
+ *     summary: 获取 Webhook 订阅
+ *     description: 返回当前用户创建的订阅，管理员同时返回所有全局订阅。签名密钥不会返回
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 获取成功，每个订阅附带最近一次投递
+ */
+router.get('/', webhookController.getSubscriptions.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   post:
+ *     summary: 创建 Webhook 订阅
+ *     description: |
+ *       订阅当前用户发起或参与的执行的事件；管理员可以创建接收所有执行事件的全局订阅。
+ *       推送请求带有 X-Webhook-Event、X-Webhook-Delivery、X-Webhook-Timestamp 和
+ *       X-Webhook-Signature 请求头，签名为 sha256=HMAC-SHA256(secret, "{timestamp}.{body}")。
+ *       签名密钥只在创建时返回
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - url
+ *               - eventTypes
+ *             properties:
+ *               name:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *               eventTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [execution.completed, execution.cancelled, execution.paused, execution.resumed, execution.reopened, step.started, step.completed, step.failed, step.skipped, step.reopened, review.created]
+ *               workflowId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: 只推送该工作流的执行事件
+ *               isGlobal:
+ *                 type: boolean
+ *                 default: false
+ *                 description: 接收所有执行的事件，只有管理员可以设置
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: 创建成功，返回的 secret 用于校验签名
+ *       400:
+ *         description: 请求参数错误
+ *       403:
+ *         description: 只有管理员可以创建全局订阅
+ *       404:
+ *         description: 工作流不存在或无权限访问
+ */
+router.post('/', webhookController.createSubscription.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/deliveries/{deliveryId}/replay:
+ *   post:
+ *     summary: 重放投递
+ *     description: 按原内容重新投递一次并等待结果，新的投递记录的 replayOfId 指向原记录，失败时不自动重试
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 已重放，返回新的投递记录
+ *       404:
+ *         description: 投递记录不存在或无权限访问
+ */
+router.post('/deliveries/:deliveryId/replay', webhookController.replayDelivery.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   put:
+ *     summary: 修改 Webhook 订阅
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: 字段同创建订阅，均为可选
+ *     responses:
+ *       200:
+ *         description: 修改成功
+ *       403:
+ *         description: 只有管理员可以创建全局订阅
+ *       404:
+ *         description: 订阅不存在或无权限访问
+ */
+router.put('/:id', webhookController.updateSubscription.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   delete:
+ *     summary: 删除 Webhook 订阅
+ *     description: 同时删除订阅的投递记录
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 删除成功
+ *       404:
+ *         description: 订阅不存在或无权限访问
+ */
+router.delete('/:id', webhookController.deleteSubscription.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/secret:
+ *   post:
+ *     summary: 重新生成签名密钥
+ *     description: 旧密钥立即失效，新密钥只在本次返回
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 生成成功
+ *       404:
+ *         description: 订阅不存在或无权限访问
+ */
+router.post('/:id/secret', webhookController.rotateSecret.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/test:
+ *   post:
+ *     summary: 发送测试推送
+ *     description: 向订阅地址发送一条 webhook.test 事件并等待结果，结果记录在投递记录中，失败时不自动重试
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 已发送，返回投递记录
+ *       404:
+ *         description: 订阅不存在或无权限访问
+ */
+router.post('/:id/test', webhookController.testSubscription.bind(webhookController));
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries:
+ *   get:
+ *     summary: 获取订阅的投递记录
+ *     description: 失败的投递按 1、2、4、8、16 分钟的间隔重试，共尝试 6 次后标记为 FAILED
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, SUCCEEDED, FAILED]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: 获取成功，按时间倒序
+ *       404:
+ *         description: 订阅不存在或无权限访问
+ */
+router.get('/:id/deliveries', webhookController.getDeliveries.bind(webhookController));
+
+export default router;
@@ -1,9 +1,12 @@
 import { Router } from 'express';
 import { WorkflowController } from '../controllers/workflowController';
+import { ScheduleController } from '../controllers/scheduleController';
 import { authenticateToken } from '../middleware/auth';
+import { uploadWorkflowImport } from '../utils/fileUpload';
 
 const router = Router();
 const workflowController = new WorkflowController();
+const scheduleController = new ScheduleController();
 
 // 所有工作流路由都需要认证
 router.use(authenticateToken);
@@ -229,6 +232,107 @@ router.delete('/:id', workflowController.deleteWorkflow.bind(workflowController)
  */
 router.post('/:id/duplicate', workflowController.duplicateWorkflow.bind(workflowController));
 
+// 工作流导入导出路由
+
+/**
+ * @swagger
+ * /api/workflows/import:
+ *   post:
+ *     summary: 导入工作流（格式见 utils/workflowTransfer.ts，format 为 investment-workflow）
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: onConflict
+ *         description: 名称冲突时的处理方式，error（默认，返回409）或 rename
+ *         schema:
+ *           type: string
+ *           enum: [error, rename]
+ *       - in: query
+ *         name: dryRun
+ *         description: 只验证并报告冲突，不创建工作流
+ *         schema:
+ *           type: boolean
+ *     requestBody:
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: .json、.yaml 或 .yml 文件
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 description: JSON 或 YAML 文本（也可以直接提交导出文档对象）
+ *               onConflict:
+ *                 type: string
+ *               dryRun:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: 导入成功
+ *       200:
+ *         description: dryRun 验证通过
+ *       400:
+ *         description: 导入文件无效
+ *       409:
+ *         description: 已存在同名工作流
+ */
+router.post('/import', (req, res) => {
+  uploadWorkflowImport(req, res, (err) => {
+    if (err) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'UPLOAD_ERROR',
+          message: err.message
+        }
+      });
+      return;
+    }
+    workflowController.importWorkflow(req, res);
+  });
+});
+
+/**
+ * @swagger
+ * /api/workflows/{id}/export:
+ *   get:
+ *     summary: 导出工作流为 JSON 或 YAML 文件
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, yaml]
+ *       - in: query
+ *         name: version
+ *         description: 导出指定的发布版本，缺省导出当前草稿
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: 导出文件
+ *       404:
+ *         description: 工作流或版本不存在
+ */
+router.get('/:id/export', workflowController.exportWorkflow.bind(workflowController));
+
 // 工作流步骤管理路由
 
 // 重新排序工作流步骤（必须在 /:workflowId/steps/:stepId 之前）
@@ -246,4 +350,364 @@ router.put('/:workflowId/steps/:stepId', workflowController.updateWorkflowStep.b
 // 删除工作流步骤
 router.delete('/:workflowId/steps/:stepId', workflowController.deleteWorkflowStep.bind(workflowController));
 
+// 工作流版本管理路由
+
+/**
+ * @swagger
+ * /api/workflows/{id}/publish:
+ *   post:
+ *     summary: 将当前草稿发布为新版本（发布后的版本不可修改）
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               changelog:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: 发布成功
+ *       400:
+ *         description: 工作流定义存在错误（WORKFLOW_INVALID），details 中包含检查结果
+ *       403:
+ *         description: 无权限发布
+ */
+router.post('/:id/publish', workflowController.publishWorkflow.bind(workflowController));
+
+/**
+ * @swagger
+ * /api/workflows/{id}/validate:
+ *   post:
+ *     summary: 检查工作流定义（依赖循环、无效引用、重复顺序号、分支条件和步骤配置等）
+ *     description: 发布时会自动执行同样的检查，存在错误时拒绝发布；警告不阻止发布
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               steps:
+ *                 type: array
+ *                 description: 编辑器中尚未保存的步骤，不传时检查当前草稿
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: 返回检查结果 { valid, errors, warnings }，每项包含 code、message 和所在步骤
+ *       403:
+ *         description: 无权限访问
+ */
+router.post('/:id/validate', workflowController.validateWorkflowDefinition.bind(workflowController));
+
+/**
+ * @swagger
+ * /api/workflows/{id}/versions/diff:
+ *   get:
+ *     summary: 对比两个版本的差异
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: to
+ *         description: 版本号或 draft（默认，与当前草稿对比）
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 对比成功
+ *       404:
+ *         description: 版本不存在
+ */
+router.get('/:id/versions/diff', workflowController.diffWorkflowVersions.bind(workflowController));
+
+/**
+ * @swagger
+ * /api/workflows/{id}/versions:
+ *   get:
+ *     summary: 获取工作流的发布版本列表
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ */
+router.get('/:id/versions', workflowController.getWorkflowVersions.bind(workflowController));
+
+// 获取指定版本详情（包含冻结的步骤）
+router.get('/:id/versions/:version', workflowController.getWorkflowVersion.bind(workflowController));
+
+/**
+ * @swagger
+ * /api/workflows/{id}/schedules:
+ *   get:
+ *     summary: 获取工作流的定期执行计划（包含之后的执行时间和最近的运行记录）
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 获取成功
+ *   post:
+ *     summary: 创建定期执行计划，按 cron 表达式在指定时区自动启动执行
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, cron]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               cron:
+ *                 type: string
+ *                 description: 5 段 cron 表达式（分 时 日 月 周）或 @daily、@weekdays、@weekly、@monthly、@quarterly、@yearly
+ *                 example: "0 9 * * 1"
+ *               timezone:
+ *                 type: string
+ *                 description: IANA 时区，不传时使用用户设置中的时区
+ *                 example: Asia/Shanghai
+ *               priority:
+ *                 type: string
+ *                 enum: [LOW, MEDIUM, HIGH, URGENT]
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               variables:
+ *                 type: object
+ *                 description: 传入执行的变量，另外会附带本次的计划时间 scheduledFor
+ *               dueAfterHours:
+ *                 type: integer
+ *                 description: 执行的截止日期为计划时间之后的小时数
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: 创建成功
+ *       400:
+ *         description: 执行时间或时区无效
+ */
+router.get('/:id/schedules', scheduleController.getSchedules.bind(scheduleController));
+router.post('/:id/schedules', scheduleController.createSchedule.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/workflows/{id}/schedules/{scheduleId}:
+ *   put:
+ *     summary: 修改定期执行计划，执行时间或时区变化时重新计算下一次执行时间并清除已跳过的时间
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 更新成功
+ *   delete:
+ *     summary: 删除定期执行计划，已创建的执行不受影响
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 删除成功
+ */
+router.put('/:id/schedules/:scheduleId', scheduleController.updateSchedule.bind(scheduleController));
+router.delete('/:id/schedules/:scheduleId', scheduleController.deleteSchedule.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/workflows/{id}/schedules/{scheduleId}/pause:
+ *   post:
+ *     summary: 暂停定期执行计划
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 已暂停
+ */
+router.post('/:id/schedules/:scheduleId/pause', scheduleController.pauseSchedule.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/workflows/{id}/schedules/{scheduleId}/resume:
+ *   post:
+ *     summary: 恢复定期执行计划，暂停期间错过的执行不会补跑
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 已恢复
+ */
+router.post('/:id/schedules/:scheduleId/resume', scheduleController.resumeSchedule.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/workflows/{id}/schedules/{scheduleId}/skip:
+ *   post:
+ *     summary: 跳过之后的某次执行（skip 为 false 时取消跳过）
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [occurrence]
+ *             properties:
+ *               occurrence:
+ *                 type: string
+ *                 format: date-time
+ *               skip:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: 操作成功
+ *       400:
+ *         description: 不是之后 20 次内的执行时间
+ */
+router.post('/:id/schedules/:scheduleId/skip', scheduleController.skipOccurrence.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/workflows/{id}/schedules/{scheduleId}/occurrences:
+ *   get:
+ *     summary: 获取计划之后的执行时间
+ *     tags: [Workflows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: count
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: 返回 [{ scheduledFor, skipped }]
+ */
+router.get('/:id/schedules/:scheduleId/occurrences', scheduleController.getOccurrences.bind(scheduleController));
+
 export default router;
\ No newline at end of file
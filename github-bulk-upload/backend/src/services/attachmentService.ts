@@ -9,21 +9,23 @@ import {
   getFileInfo 
 } from '../utils/fileUpload';
 import { Attachment, FileType } from '../types/execution';
+import { accessibleExecutionWhere, ExecutionAccess } from '../utils/participants';
+import { ExecutionStreamService } from './executionStreamService';
 
 export class AttachmentService {
+  private streamService = new ExecutionStreamService();
+
   // 创建附件记录
   async createAttachment(
     executionRecordId: string,
     file: Express.Multer.File,
     userId: string
   ): Promise<Attachment> {
-    // 验证执行记录是否属于用户
+    // 验证用户是执行的发起人或协作者
     const executionRecord = await prisma.executionRecord.findFirst({
       where: {
         id: executionRecordId,
-        execution: {
-          userId
-        }
+        execution: accessibleExecutionWhere(userId, 'contribute')
       }
     });
 
@@ -67,6 +69,8 @@ export class AttachmentService {
       }
     }
 
+    await this.streamService.notifyAttachmentChange(executionRecordId, userId, 'created', attachment.id);
+
     return attachment;
   }
 
@@ -75,13 +79,11 @@ export class AttachmentService {
     executionRecordId: string,
     userId: string
   ): Promise<Attachment[]> {
-    // 验证权限
+    // 验证权限，发起人和参与者均可查看
     const executionRecord = await prisma.executionRecord.findFirst({
       where: {
         id: executionRecordId,
-        execution: {
-          userId
-        }
+        execution: accessibleExecutionWhere(userId)
       }
     });
 
@@ -97,15 +99,17 @@ export class AttachmentService {
     return attachments;
   }
 
-  // 获取单个附件
-  async getAttachmentById(attachmentId: string, userId: string): Promise<Attachment | null> {
+  // 获取单个附件，修改附件时按协作者权限校验
+  async getAttachmentById(
+    attachmentId: string,
+    userId: string,
+    access: ExecutionAccess = 'view'
+  ): Promise<Attachment | null> {
     const attachment = await prisma.attachment.findFirst({
       where: {
         id: attachmentId,
         executionRecord: {
-          execution: {
-            userId
-          }
+          execution: accessibleExecutionWhere(userId, access)
         }
       }
     });
@@ -115,7 +119,7 @@ export class AttachmentService {
 
   // 删除附件
   async deleteAttachment(attachmentId: string, userId: string): Promise<void> {
-    const attachment = await this.getAttachmentById(attachmentId, userId);
+    const attachment = await this.getAttachmentById(attachmentId, userId, 'contribute');
     
     if (!attachment) {
       throw new Error('附件不存在或无权限访问');
@@ -142,6 +146,8 @@ export class AttachmentService {
     await prisma.attachment.delete({
       where: { id: attachmentId }
     });
+
+    await this.streamService.notifyAttachmentChange(attachment.executionRecordId, userId, 'deleted', attachmentId);
   }
 
   // 获取附件文件路径
@@ -184,9 +190,7 @@ export class AttachmentService {
           in: attachmentIds
         },
         executionRecord: {
-          execution: {
-            userId
-          }
+          execution: accessibleExecutionWhere(userId, 'contribute')
         }
       }
     });
@@ -221,6 +225,10 @@ export class AttachmentService {
         }
       }
     });
+
+    for (const executionRecordId of new Set(attachments.map(attachment => attachment.executionRecordId))) {
+      await this.streamService.notifyAttachmentChange(executionRecordId, userId, 'deleted');
+    }
   }
 
   // 获取用户的所有附件统计
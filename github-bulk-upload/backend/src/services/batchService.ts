@@ -0,0 +1,74 @@
+import prisma from '../config/database';
+import { DatabaseUtils } from '../utils/database';
+import { summarizeBatch } from '../utils/batches';
+
+export class BatchService {
+  // 获取用户的执行批次及各批次的状态统计
+  async getBatches(userId: string, workflowId?: string) {
+    const batches = await prisma.executionBatch.findMany({
+      where: {
+        userId,
+        ...(workflowId && { workflowId })
+      },
+      include: {
+        workflow: { select: { id: true, name: true } },
+        executions: { select: { status: true, progress: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return batches.map(({ executions, ...batch }) => ({
+      ...batch,
+      tags: DatabaseUtils.parseJsonField(batch.tags, []),
+      summary: summarizeBatch(executions)
+    }));
+  }
+
+  // 获取批次详情：批次内每个执行的参数、进度和各步骤状态，用于并排对比
+  async getBatchById(batchId: string, userId: string) {
+    const batch = await prisma.executionBatch.findFirst({
+      where: { id: batchId, userId },
+      include: {
+        workflow: { select: { id: true, name: true } },
+        executions: {
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            progress: true,
+            startedAt: true,
+            completedAt: true,
+            dueDate: true,
+            parameters: { select: { key: true, value: true } },
+            executionRecords: {
+              select: {
+                id: true,
+                status: true,
+                completedAt: true,
+                step: { select: { id: true, name: true, order: true } }
+              },
+              orderBy: { step: { order: 'asc' } }
+            }
+          },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    if (!batch) {
+      throw new Error('批次不存在或无权限访问');
+    }
+
+    // 对比视图的列：批次内出现过的参数名和步骤（各执行固定在同一版本上，步骤相同）
+    const parameterKeys = Array.from(new Set(batch.executions.flatMap(execution => execution.parameters.map(item => item.key))));
+    const steps = batch.executions[0]?.executionRecords.map(record => record.step) || [];
+
+    return {
+      ...batch,
+      tags: DatabaseUtils.parseJsonField(batch.tags, []),
+      parameterKeys,
+      steps,
+      summary: summarizeBatch(batch.executions)
+    };
+  }
+}
@@ -0,0 +1,291 @@
+import prisma from '../config/database';
+import { alertingSystem } from '../utils/alerting';
+import { buildCommentThreads, CommentMember, resolveMentions } from '../utils/comments';
+import { executionStream } from '../utils/executionStream';
+import { hasExecutionAccess } from '../utils/participants';
+import { ExecutionParticipantService } from './executionParticipantService';
+
+const userSelect = { id: true, name: true, email: true };
+
+const commentInclude = {
+  author: { select: userSelect },
+  resolvedBy: { select: userSelect },
+  mentions: { include: { user: { select: userSelect } } },
+  record: { select: { id: true, step: { select: { name: true } } } },
+  _count: { select: { revisions: true } }
+};
+
+export class ExecutionCommentService {
+  private participantService = new ExecutionParticipantService();
+
+  // 获取执行的评论讨论串，指定 recordId 时只返回该步骤的评论；已删除的评论不返回内容
+  async getComments(executionId: string, userId: string, recordId?: string) {
+    await this.participantService.getAccess(executionId, userId);
+
+    const comments = await prisma.executionComment.findMany({
+      where: {
+        executionId,
+        ...(recordId ? { recordId } : {})
+      },
+      include: commentInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return buildCommentThreads(comments.map(comment => this.toView(comment)));
+  }
+
+  // 发表评论或回复，执行的所有成员都可以评论；通知评论中提到的执行成员
+  async createComment(
+    executionId: string,
+    userId: string,
+    input: { body: string; recordId?: string; parentId?: string }
+  ) {
+    const { execution } = await this.participantService.getAccess(executionId, userId);
+
+    let recordId = input.recordId ?? null;
+    if (input.parentId) {
+      const parent = await prisma.executionComment.findFirst({
+        where: { id: input.parentId, executionId }
+      });
+
+      if (!parent) {
+        throw new Error('回复的评论不存在');
+      }
+
+      if (parent.parentId) {
+        throw new Error('只能回复顶层评论');
+      }
+
+      if (parent.deletedAt) {
+        throw new Error('不能回复已删除的评论');
+      }
+
+      // 回复与顶层评论属于同一个步骤
+      recordId = parent.recordId;
+    } else if (recordId) {
+      const record = await prisma.executionRecord.findFirst({
+        where: { id: recordId, executionId }
+      });
+
+      if (!record) {
+        throw new Error('步骤记录不存在');
+      }
+    }
+
+    const members = await this.getMembers(executionId, execution.userId);
+    const mentioned = resolveMentions(input.body, members, userId);
+
+    const comment = await prisma.executionComment.create({
+      data: {
+        executionId,
+        recordId,
+        parentId: input.parentId ?? null,
+        authorId: userId,
+        body: input.body,
+        mentions: {
+          create: mentioned.map(member => ({ userId: member.id }))
+        }
+      },
+      include: commentInclude
+    });
+
+    await this.notifyMentions(comment, execution, mentioned);
+    this.publish(comment, userId, 'created');
+
+    return this.toView(comment);
+  }
+
+  // 修改评论，只有作者可以修改；修改前的内容保存为历史版本，只通知新提到的成员
+  async updateComment(executionId: string, commentId: string, userId: string, body: string) {
+    const { execution } = await this.participantService.getAccess(executionId, userId);
+    const comment = await this.getComment(executionId, commentId);
+
+    if (comment.authorId !== userId) {
+      throw new Error('只能修改自己的评论，无权限');
+    }
+
+    if (comment.deletedAt) {
+      throw new Error('评论已删除，不能修改');
+    }
+
+    if (comment.body === body) {
+      return this.toView(comment);
+    }
+
+    const members = await this.getMembers(executionId, execution.userId);
+    const mentioned = resolveMentions(body, members, userId);
+    const previous = new Set(comment.mentions.map(mention => mention.userId));
+    const added = mentioned.filter(member => !previous.has(member.id));
+
+    const updated = await prisma.$transaction(async tx => {
+      await tx.executionCommentRevision.create({
+        data: { commentId, body: comment.body, editedById: userId }
+      });
+
+      await tx.executionCommentMention.deleteMany({
+        where: { commentId, userId: { notIn: mentioned.map(member => member.id) } }
+      });
+
+      if (added.length > 0) {
+        await tx.executionCommentMention.createMany({
+          data: added.map(member => ({ commentId, userId: member.id }))
+        });
+      }
+
+      return tx.executionComment.update({
+        where: { id: commentId },
+        data: { body, editedAt: new Date() },
+        include: commentInclude
+      });
+    });
+
+    await this.notifyMentions(updated, execution, added);
+    this.publish(updated, userId, 'updated');
+
+    return this.toView(updated);
+  }
+
+  // 删除评论，作者和执行发起人可以删除；保留评论以维持讨论串，删除前的内容保存为历史版本
+  async deleteComment(executionId: string, commentId: string, userId: string): Promise<void> {
+    const { role } = await this.participantService.getAccess(executionId, userId);
+    const comment = await this.getComment(executionId, commentId);
+
+    if (comment.authorId !== userId && role !== 'OWNER') {
+      throw new Error('只能删除自己的评论，无权限');
+    }
+
+    if (comment.deletedAt) {
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.executionCommentRevision.create({
+        data: { commentId, body: comment.body, editedById: userId }
+      }),
+      prisma.executionComment.update({
+        where: { id: commentId },
+        data: { body: '', deletedAt: new Date() }
+      })
+    ]);
+    this.publish(comment, userId, 'deleted');
+  }
+
+  // 标记顶层评论为已解决或重新打开，评论作者和可以处理执行的成员可以操作
+  async setResolved(executionId: string, commentId: string, userId: string, resolved: boolean) {
+    const { role } = await this.participantService.getAccess(executionId, userId);
+    const comment = await this.getComment(executionId, commentId);
+
+    if (comment.authorId !== userId && !hasExecutionAccess(role, 'contribute')) {
+      throw new Error('只读参与者无权限修改执行');
+    }
+
+    if (comment.parentId) {
+      throw new Error('只能解决顶层评论');
+    }
+
+    if (comment.deletedAt) {
+      throw new Error('评论已删除');
+    }
+
+    if (!!comment.resolvedAt === resolved) {
+      return this.toView(comment);
+    }
+
+    const updated = await prisma.executionComment.update({
+      where: { id: commentId },
+      data: resolved
+        ? { resolvedAt: new Date(), resolvedById: userId }
+        : { resolvedAt: null, resolvedById: null },
+      include: commentInclude
+    });
+    this.publish(updated, userId, resolved ? 'resolved' : 'unresolved');
+
+    return this.toView(updated);
+  }
+
+  // 评论的修改历史，按时间倒序
+  async getRevisions(executionId: string, commentId: string, userId: string) {
+    await this.participantService.getAccess(executionId, userId);
+    await this.getComment(executionId, commentId);
+
+    return prisma.executionCommentRevision.findMany({
+      where: { commentId },
+      include: { editedBy: { select: userSelect } },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  private async getComment(executionId: string, commentId: string) {
+    const comment = await prisma.executionComment.findFirst({
+      where: { id: commentId, executionId },
+      include: commentInclude
+    });
+
+    if (!comment) {
+      throw new Error('评论不存在');
+    }
+
+    return comment;
+  }
+
+  // 可以被提到的执行成员：发起人和参与者
+  private async getMembers(executionId: string, ownerId: string): Promise<CommentMember[]> {
+    const [owner, participants] = await Promise.all([
+      prisma.user.findUnique({ where: { id: ownerId }, select: userSelect }),
+      prisma.executionParticipant.findMany({
+        where: { executionId },
+        include: { user: { select: userSelect } }
+      })
+    ]);
+
+    return [
+      ...(owner ? [owner] : []),
+      ...participants.map(participant => participant.user)
+    ];
+  }
+
+  private async notifyMentions(
+    comment: any,
+    execution: { id: string; title: string | null },
+    mentioned: CommentMember[]
+  ): Promise<void> {
+    if (mentioned.length === 0) {
+      return;
+    }
+
+    const scope = comment.record ? `步骤「${comment.record.step.name}」` : '执行';
+    await alertingSystem.sendMessage({
+      title: `${comment.author.name} 在评论中提到了你：${execution.title || '执行'}`,
+      text: `${comment.author.name} 在${scope}的评论中提到了你：${comment.body}`,
+      metadata: {
+        executionId: execution.id,
+        recordId: comment.recordId,
+        commentId: comment.id,
+        recipients: mentioned.map(member => member.email)
+      }
+    });
+  }
+
+  // 推送给正在查看执行的成员，评论列表由前端重新加载
+  private publish(comment: { id: string; executionId: string; recordId: string | null }, actorId: string, action: string): void {
+    executionStream.publish({
+      type: 'comment',
+      executionId: comment.executionId,
+      recordId: comment.recordId,
+      actorId,
+      data: { commentId: comment.id, action }
+    });
+  }
+
+  // 已删除的评论不返回内容和提及
+  private toView(comment: any) {
+    const { _count, record, ...rest } = comment;
+
+    return {
+      ...rest,
+      stepName: record?.step.name ?? null,
+      revisionCount: _count.revisions,
+      ...(comment.deletedAt ? { body: '', mentions: [] } : {})
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { DatabaseUtils } from '../utils/database';
+import { ExecutionEventInput } from '../utils/executionEvents';
+import { accessibleExecutionWhere } from '../utils/participants';
+import { ExecutionStreamService } from './executionStreamService';
+
+export class ExecutionEventService {
+  private streamService = new ExecutionStreamService();
+
+  // 追加一条事件，在事务中调用时传入事务客户端，与修改一起提交；同时推送给正在查看执行的成员
+  async record(input: ExecutionEventInput, client: Prisma.TransactionClient = prisma): Promise<void> {
+    await client.executionEvent.create({
+      data: {
+        executionId: input.executionId,
+        recordId: input.recordId,
+        actorId: input.actorId,
+        type: input.type,
+        action: input.action,
+        before: input.before ? JSON.stringify(input.before) : undefined,
+        after: input.after ? JSON.stringify(input.after) : undefined,
+        reason: input.reason
+      }
+    });
+
+    this.streamService.notifyChange({
+      executionId: input.executionId,
+      recordId: input.recordId,
+      actorId: input.actorId,
+      type: input.type
+    });
+  }
+
+  // 获取执行的事件时间线，按发生顺序排列，发起人和参与者均可查看
+  async getTimeline(executionId: string, userId: string) {
+    const execution = await prisma.execution.findFirst({
+      where: {
+        id: executionId,
+        ...accessibleExecutionWhere(userId)
+      },
+      select: { id: true }
+    });
+
+    if (!execution) {
+      throw new Error('执行记录不存在或无权限访问');
+    }
+
+    const events = await prisma.executionEvent.findMany({
+      where: { executionId },
+      include: {
+        actor: { select: { id: true, name: true } },
+        record: {
+          select: {
+            id: true,
+            step: { select: { name: true, order: true } }
+          }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return events.map(event => ({
+      ...event,
+      before: DatabaseUtils.parseJsonField(event.before) ?? null,
+      after: DatabaseUtils.parseJsonField(event.after) ?? null
+    }));
+  }
+}
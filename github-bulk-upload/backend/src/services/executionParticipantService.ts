@@ -0,0 +1,288 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { ExecutionStatus, StepStatus } from '../types/execution';
+import { executionStream } from '../utils/executionStream';
+import {
+  accessibleExecutionWhere,
+  ExecutionAccess,
+  ExecutionRole,
+  hasExecutionAccess,
+  ParticipantRole,
+  resolveExecutionRole
+} from '../utils/participants';
+import { ExecutionEventService } from './executionEventService';
+
+const userSelect = { id: true, name: true, email: true };
+
+export class ExecutionParticipantService {
+  private eventService = new ExecutionEventService();
+
+  // 校验用户对执行的访问级别，返回执行和用户在执行中的角色
+  async getAccess(executionId: string, userId: string, access: ExecutionAccess = 'view') {
+    const execution = await prisma.execution.findFirst({
+      where: {
+        id: executionId,
+        ...accessibleExecutionWhere(userId)
+      },
+      include: {
+        participants: {
+          where: { userId },
+          select: { userId: true, role: true }
+        }
+      }
+    });
+
+    if (!execution) {
+      throw new Error('执行记录不存在或无权限访问');
+    }
+
+    const { participants, ...rest } = execution;
+    const role = resolveExecutionRole(execution.userId, participants, userId);
+
+    if (!hasExecutionAccess(role, access)) {
+      throw new Error(access === 'manage' ? '只有执行发起人可以进行此操作，无权限' : '只读参与者无权限修改执行');
+    }
+
+    return { execution: rest, role: role as ExecutionRole };
+  }
+
+  // 获取执行的发起人和参与者
+  async getParticipants(executionId: string, userId: string) {
+    const { execution } = await this.getAccess(executionId, userId);
+
+    const [owner, participants] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: execution.userId },
+        select: userSelect
+      }),
+      prisma.executionParticipant.findMany({
+        where: { executionId },
+        include: { user: { select: userSelect } },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+
+    return { owner, participants };
+  }
+
+  // 添加参与者或修改参与者角色，只有发起人可以操作；改为只读时取消该成员的步骤分配
+  async addParticipant(
+    executionId: string,
+    userId: string,
+    input: { user: string; role: ParticipantRole }
+  ) {
+    const { execution } = await this.getAccess(executionId, userId, 'manage');
+
+    const target = await prisma.user.findFirst({
+      where: {
+        isActive: true,
+        OR: [{ id: input.user }, { email: input.user }]
+      },
+      select: userSelect
+    });
+
+    if (!target) {
+      throw new Error('用户不存在');
+    }
+
+    if (target.id === execution.userId) {
+      throw new Error('执行发起人不能添加为参与者');
+    }
+
+    const existing = await prisma.executionParticipant.findUnique({
+      where: { executionId_userId: { executionId, userId: target.id } }
+    });
+
+    if (existing?.role === input.role) {
+      return { ...existing, user: target };
+    }
+
+    return prisma.$transaction(async tx => {
+      const participant = await tx.executionParticipant.upsert({
+        where: { executionId_userId: { executionId, userId: target.id } },
+        create: { executionId, userId: target.id, role: input.role },
+        update: { role: input.role },
+        include: { user: { select: userSelect } }
+      });
+
+      await this.eventService.record({
+        executionId,
+        actorId: userId,
+        type: existing ? 'PARTICIPANT_UPDATED' : 'PARTICIPANT_ADDED',
+        before: existing ? { participant: target.name, role: existing.role } : null,
+        after: { participant: target.name, role: input.role }
+      }, tx);
+
+      if (input.role === 'VIEWER') {
+        await this.unassignSteps(tx, executionId, target, userId, '参与者改为只读');
+      }
+
+      return participant;
+    });
+  }
+
+  // 移除参与者，发起人可以移除任何参与者，参与者可以退出执行；该成员的步骤分配一并取消
+  async removeParticipant(executionId: string, userId: string, participantUserId: string): Promise<void> {
+    await this.getAccess(executionId, userId, participantUserId === userId ? 'view' : 'manage');
+
+    const participant = await prisma.executionParticipant.findUnique({
+      where: { executionId_userId: { executionId, userId: participantUserId } },
+      include: { user: { select: userSelect } }
+    });
+
+    if (!participant) {
+      throw new Error('参与者不存在');
+    }
+
+    await prisma.$transaction(async tx => {
+      await this.unassignSteps(tx, executionId, participant.user, userId, '参与者已移除');
+      await tx.executionParticipant.delete({ where: { id: participant.id } });
+
+      await this.eventService.record({
+        executionId,
+        actorId: userId,
+        type: 'PARTICIPANT_REMOVED',
+        before: { participant: participant.user.name, role: participant.role },
+        after: null
+      }, tx);
+    });
+
+    // 被移除的成员不再接收执行的推送
+    executionStream.disconnect(executionId, participantUserId);
+  }
+
+  // 分配步骤给发起人或协作者，assigneeId 为 null 时取消分配；已完成或已跳过的步骤不能分配
+  async assignStep(executionId: string, recordId: string, userId: string, assigneeId: string | null) {
+    const { execution } = await this.getAccess(executionId, userId, 'manage');
+
+    const record = await prisma.executionRecord.findFirst({
+      where: { id: recordId, executionId },
+      include: { assignee: { select: userSelect } }
+    });
+
+    if (!record) {
+      throw new Error('步骤记录不存在');
+    }
+
+    if (record.status === StepStatus.COMPLETED || record.status === StepStatus.SKIPPED) {
+      throw new Error('已完成或已跳过的步骤不能分配');
+    }
+
+    let assignee: { id: string; name: string; email: string } | null = null;
+    if (assigneeId) {
+      const participant = assigneeId === execution.userId
+        ? null
+        : await prisma.executionParticipant.findUnique({
+          where: { executionId_userId: { executionId, userId: assigneeId } }
+        });
+
+      if (assigneeId !== execution.userId && participant?.role !== 'CONTRIBUTOR') {
+        throw new Error('只能将步骤分配给执行发起人或协作者');
+      }
+
+      assignee = await prisma.user.findFirst({ where: { id: assigneeId, isActive: true }, select: userSelect });
+      if (!assignee) {
+        throw new Error('用户不存在');
+      }
+    }
+
+    if ((record.assigneeId ?? null) !== (assignee?.id ?? null)) {
+      await prisma.executionRecord.update({
+        where: { id: recordId },
+        data: { assigneeId: assignee?.id ?? null }
+      });
+
+      await this.eventService.record({
+        executionId,
+        recordId,
+        actorId: userId,
+        type: 'STEP_ASSIGNED',
+        before: { assignee: record.assignee?.name ?? null },
+        after: { assignee: assignee?.name ?? null }
+      });
+    }
+
+    return prisma.executionRecord.findUniqueOrThrow({
+      where: { id: recordId },
+      include: {
+        step: true,
+        assignee: { select: userSelect }
+      }
+    });
+  }
+
+  // 分配给当前用户、尚未结束的步骤，跨所有进行中或已暂停的执行，按步骤截止时间排序
+  async getAssignedSteps(userId: string) {
+    const records = await prisma.executionRecord.findMany({
+      where: {
+        assigneeId: userId,
+        status: { in: [StepStatus.PENDING, StepStatus.IN_PROGRESS, StepStatus.FAILED] },
+        execution: { status: { in: [ExecutionStatus.IN_PROGRESS, ExecutionStatus.PAUSED] } }
+      },
+      include: {
+        step: { select: { name: true, order: true, stepType: true } },
+        execution: {
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            dueDate: true,
+            workflow: { select: { id: true, name: true } },
+            user: { select: userSelect }
+          }
+        }
+      },
+      orderBy: [{ dueAt: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    return records.map(record => ({
+      recordId: record.id,
+      executionId: record.executionId,
+      title: record.execution.title,
+      executionStatus: record.execution.status,
+      stepName: record.step.name,
+      stepOrder: record.step.order,
+      stepType: record.step.stepType,
+      status: record.status,
+      dueAt: record.dueAt,
+      dueDate: record.execution.dueDate,
+      workflow: record.execution.workflow,
+      owner: record.execution.user
+    }));
+  }
+
+  // 取消成员在执行中的所有步骤分配，每个步骤记录一条分配事件
+  private async unassignSteps(
+    tx: Prisma.TransactionClient,
+    executionId: string,
+    member: { id: string; name: string },
+    actorId: string,
+    reason: string
+  ): Promise<void> {
+    const records = await tx.executionRecord.findMany({
+      where: { executionId, assigneeId: member.id },
+      select: { id: true }
+    });
+
+    if (records.length === 0) {
+      return;
+    }
+
+    await tx.executionRecord.updateMany({
+      where: { executionId, assigneeId: member.id },
+      data: { assigneeId: null }
+    });
+
+    for (const record of records) {
+      await this.eventService.record({
+        executionId,
+        recordId: record.id,
+        actorId,
+        type: 'STEP_ASSIGNED',
+        before: { assignee: member.name },
+        after: { assignee: null },
+        reason
+      }, tx);
+    }
+  }
+}
@@ -1,67 +1,242 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
-import { Execution, ExecutionRecord, ExecutionStatus, StepStatus } from '../types/execution';
+import { Execution, ExecutionRecord, ExecutionStatus, StepStatus, CompleteStepDto, ApprovalDecisionDto } from '../types/execution';
+import { DatabaseUtils } from '../utils/database';
+import { WorkflowVersionModel } from '../models/Workflow';
+import { ExecutionModel, ExecutionRecordModel } from '../models/Execution';
+import {
+  ConditionStepState,
+  CONDITION_SKIP_MARKER,
+  CriterionResult,
+  DecisionCriterion,
+  evaluateConditions,
+  evaluateCriteria,
+  isConditionSkipped,
+  parseConditions,
+  parseCriteria
+} from '../utils/conditions';
+import {
+  DependencyRecordState,
+  DEPENDENCIES_NOT_MET,
+  getBlockingSteps,
+  getDependentRecords,
+  getReadyRecords
+} from '../utils/dependencies';
+import { INVALID_STEP_DATA, parseFormFields, validateFormData } from '../utils/formSchema';
+import { BatchRowError, csvToParameterSets, INVALID_BATCH_ROWS, MAX_BATCH_SIZE } from '../utils/batches';
+import { CHECKLIST_INCOMPLETE, getChecklistProgress, parseChecklistConfig } from '../utils/checklists';
+import {
+  buildExecutionTitle,
+  interpolateText,
+  INVALID_PARAMETERS,
+  parseParameterDefinitions,
+  parseTitleTemplate,
+  toParameterRows,
+  validateParameters
+} from '../utils/parameters';
+import {
+  CALCULATION_FAILED,
+  CalculationContext,
+  CalculationTrace,
+  parseCalculations,
+  runCalculations
+} from '../utils/formula';
+import { INVALID_VALUATION_INPUT, parseValuationConfig, runValuation, ValuationConfig } from '../utils/valuation';
+import { INVALID_PROPERTY_INPUT, parsePropertyModelConfig, runPropertyModel } from '../utils/propertyFinance';
+import {
+  ApprovalConfig,
+  ApprovalVote,
+  NOT_APPROVER,
+  parseApprovalConfig,
+  resolveApprovers,
+  tallyApprovals
+} from '../utils/approvals';
+import { buildTemplateContext, parseNotificationConfig, renderTemplate } from '../utils/notifications';
+import {
+  collectOutputs,
+  mapValues,
+  MAX_SUBWORKFLOW_DEPTH,
+  parseSubworkflowConfig
+} from '../utils/subworkflows';
+import {
+  computeDueAt,
+  ESCALATION_MANAGER,
+  ESCALATION_NONE,
+  ESCALATION_OWNER,
+  formatMinutes,
+  getEscalationLevel,
+  getOverdueMinutes,
+  isExecutionOverdue,
+  parseSlaConfig,
+  SlaConfig
+} from '../utils/sla';
+import {
+  assertExecutionTransition,
+  assertStepTransition,
+  emitTransition,
+  ExecutionAction,
+  INVALID_TRANSITION,
+  StepAction,
+  stepActionFor,
+  TransitionEvent
+} from '../utils/stateMachine';
+import { diffFields, fromTransition } from '../utils/executionEvents';
+import { accessibleExecutionWhere, canWorkOnStep, ExecutionRole } from '../utils/participants';
+import { alertingSystem } from '../utils/alerting';
+import { ExecutionEventService } from './executionEventService';
+import { ExecutionParticipantService } from './executionParticipantService';
+import { WebhookService } from './webhookService';
+
+// 提交的 result 不是对象时，合并服务端结果前按空对象处理
+const asObject = (value: unknown): Record<string, any> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : {};
 
 export class ExecutionService {
-  // 开始新的流程执行
-  async startExecution(userId: string, workflowId: string): Promise<Execution> {
-    // 验证工作流是否属于用户且处于活跃状态
-    const workflow = await prisma.workflow.findFirst({
-      where: {
-        id: workflowId,
-        userId,
-        isActive: true
-      },
-      include: {
-        steps: {
-          orderBy: { order: 'asc' }
-        }
+  private eventService = new ExecutionEventService();
+  private participantService = new ExecutionParticipantService();
+  private webhookService = new WebhookService();
+
+  // 开始新的流程执行；由子流程步骤启动时关联父步骤记录，并传入映射后的执行变量
+  async startExecution(
+    userId: string,
+    workflowId: string,
+    options: {
+      parentRecordId?: string;
+      variables?: Record<string, any>;
+      // 工作流声明的执行参数，与 variables 合并后按参数定义校验
+      parameters?: Record<string, any>;
+      dueDate?: Date;
+      priority?: string;
+      tags?: string[];
+    } = {}
+  ): Promise<Execution> {
+    const launch = await this.getLaunchContext(userId, workflowId);
+
+    let variables = options.variables;
+    if (launch.parameterDefinitions.length > 0 || options.parameters) {
+      const validation = validateParameters(launch.parameterDefinitions, { ...options.variables, ...options.parameters });
+      if (!validation.isValid) {
+        const error: any = new Error(`执行参数验证失败: ${validation.errors.map(item => item.message).join('；')}`);
+        error.code = INVALID_PARAMETERS;
+        error.fieldErrors = validation.errors;
+        throw error;
       }
-    });
+      variables = validation.values;
+    }
 
-    if (!workflow) {
-      throw new Error('工作流不存在或已禁用');
+    const execution = await this.createExecutionFromLaunch(userId, launch, variables, options);
+
+    // 开头即就绪的通知和子流程步骤立即处理
+    await this.dispatchAutomaticSteps(execution.id);
+
+    return {
+      ...execution,
+      executionRecords: await prisma.executionRecord.findMany({
+        where: { executionId: execution.id }
+      })
+    };
+  }
+
+  // 按多组参数批量启动执行并归入同一批次；所有参数先逐行校验，有任意一行不通过时不创建任何执行
+  async startBatch(
+    userId: string,
+    workflowId: string,
+    input: {
+      name: string;
+      rows?: Array<Record<string, any>>;
+      csv?: string;
+      priority?: string;
+      tags?: string[];
+      dueDate?: Date;
     }
+  ) {
+    const launch = await this.getLaunchContext(userId, workflowId);
+    const rows = input.csv ? csvToParameterSets(input.csv, launch.parameterDefinitions) : input.rows || [];
 
-    if (!workflow.steps || workflow.steps.length === 0) {
-      throw new Error('工作流没有定义步骤');
+    if (rows.length === 0) {
+      throw new Error('至少需要一组参数');
+    }
+    if (rows.length > MAX_BATCH_SIZE) {
+      throw new Error(`一个批次最多启动 ${MAX_BATCH_SIZE} 个执行`);
     }
 
-    // 创建执行记录
-    const execution = await prisma.execution.create({
-      data: {
-        userId,
-        workflowId,
-        status: ExecutionStatus.IN_PROGRESS
+    const rowErrors: BatchRowError[] = [];
+    const parameterSets = rows.map((row, index) => {
+      const validation = validateParameters(launch.parameterDefinitions, row);
+      if (!validation.isValid) {
+        rowErrors.push({ row: index + 1, errors: validation.errors });
       }
+      return validation.values;
     });
 
-    // 为每个步骤创建执行记录
-    const executionRecords = await Promise.all(
-      workflow.steps.map(step =>
-        prisma.executionRecord.create({
-          data: {
-            executionId: execution.id,
-            stepId: step.id,
-            status: StepStatus.PENDING
-          }
-        })
-      )
-    );
+    if (rowErrors.length > 0) {
+      const error: any = new Error(`${rowErrors.length} 行参数未通过校验，未创建任何执行`);
+      error.code = INVALID_BATCH_ROWS;
+      error.rowErrors = rowErrors;
+      throw error;
+    }
 
-    return {
-      ...execution,
-      executionRecords
-    };
+    // 批次和其中的所有执行在同一个事务中创建
+    const batch = await prisma.$transaction(async (tx) => {
+      const created = await tx.executionBatch.create({
+        data: {
+          userId,
+          workflowId,
+          name: input.name,
+          priority: input.priority,
+          tags: input.tags ? JSON.stringify(input.tags) : undefined
+        }
+      });
+
+      for (const variables of parameterSets) {
+        await this.createExecutionFromLaunch(userId, launch, variables, {
+          batchId: created.id,
+          dueDate: input.dueDate,
+          priority: input.priority,
+          tags: input.tags
+        }, tx);
+      }
+
+      return created;
+    }, { timeout: 60000 });
+
+    const executions = await prisma.execution.findMany({
+      where: { batchId: batch.id },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' }
+    });
+    for (const execution of executions) {
+      await this.dispatchAutomaticSteps(execution.id);
+    }
+
+    return prisma.executionBatch.findUnique({
+      where: { id: batch.id },
+      include: {
+        executions: {
+          select: { id: true, title: true, status: true, progress: true },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
   }
 
-  // 获取执行详情
+  // 获取执行详情，发起人和参与者均可查看
   async getExecutionById(executionId: string, userId: string): Promise<Execution | null> {
     const execution = await prisma.execution.findFirst({
       where: {
         id: executionId,
-        userId
+        ...accessibleExecutionWhere(userId)
       },
       include: {
+        user: {
+          select: { id: true, name: true, email: true }
+        },
+        participants: {
+          include: {
+            user: { select: { id: true, name: true, email: true } }
+          },
+          orderBy: { createdAt: 'asc' }
+        },
         workflow: {
           include: {
             steps: {
@@ -69,10 +244,40 @@ export class ExecutionService {
             }
           }
         },
+        workflowVersion: {
+          select: { id: true, version: true, name: true, createdAt: true }
+        },
+        parameters: {
+          select: { key: true, value: true }
+        },
+        // 由子流程步骤启动时显示父执行和父步骤
+        parentRecord: {
+          select: {
+            id: true,
+            executionId: true,
+            step: { select: { name: true, order: true } },
+            execution: {
+              select: { workflow: { select: { id: true, name: true } } }
+            }
+          }
+        },
         executionRecords: {
           include: {
             step: true,
-            attachments: true
+            attachments: true,
+            assignee: {
+              select: { id: true, name: true, email: true }
+            },
+            childExecution: {
+              select: {
+                id: true,
+                status: true,
+                progress: true,
+                startedAt: true,
+                completedAt: true,
+                workflow: { select: { id: true, name: true } }
+              }
+            }
           },
           orderBy: {
             step: {
@@ -83,12 +288,35 @@ export class ExecutionService {
       }
     });
 
-    return execution;
+    if (!execution) {
+      return null;
+    }
+
+    // 步骤名称和描述中的 {{参数}} 替换为本次执行的参数值
+    const variables = (DatabaseUtils.parseJsonField(execution.metadata, {}) as Record<string, any>)?.variables || {};
+    const context = {
+      ...variables,
+      variables,
+      workflow: { id: execution.workflow.id, name: execution.workflow.name },
+      execution: { id: execution.id, title: execution.title, priority: execution.priority }
+    };
+
+    return {
+      ...execution,
+      executionRecords: execution.executionRecords.map(record => ({
+        ...record,
+        step: {
+          ...record.step,
+          name: interpolateText(record.step.name, context),
+          description: interpolateText(record.step.description, context)
+        }
+      }))
+    };
   }
 
-  // 获取用户的所有执行记录
+  // 获取用户发起或参与的所有执行记录
   async getUserExecutions(userId: string, status?: ExecutionStatus): Promise<Execution[]> {
-    const where: any = { userId };
+    const where: any = accessibleExecutionWhere(userId);
     if (status) {
       where.status = status;
     }
@@ -109,6 +337,185 @@ export class ExecutionService {
     return executions;
   }
 
+  // 分页获取用户发起或参与的执行，支持按关键字、工作流、状态、优先级、标签和开始日期过滤
+  async getExecutions(
+    userId: string,
+    filter: {
+      search?: string;
+      workflowId?: string;
+      status?: string;
+      priority?: string;
+      tags?: string[];
+      startDate?: Date;
+      endDate?: Date;
+    } = {},
+    pagination: { page?: number; limit?: number } = {}
+  ) {
+    const conditions: Prisma.ExecutionWhereInput[] = [accessibleExecutionWhere(userId)];
+
+    if (filter.search) {
+      conditions.push({
+        OR: [
+          { title: { contains: filter.search } },
+          { workflow: { name: { contains: filter.search } } }
+        ]
+      });
+    }
+    if (filter.workflowId) conditions.push({ workflowId: filter.workflowId });
+    if (filter.status) conditions.push({ status: filter.status });
+    if (filter.priority) conditions.push({ priority: filter.priority });
+    // 标签以 JSON 字符串保存，按带引号的标签匹配
+    for (const tag of filter.tags || []) {
+      conditions.push({ tags: { contains: JSON.stringify(tag) } });
+    }
+    if (filter.startDate || filter.endDate) {
+      conditions.push({
+        startedAt: {
+          ...(filter.startDate && { gte: filter.startDate }),
+          ...(filter.endDate && { lte: filter.endDate })
+        }
+      });
+    }
+
+    return DatabaseUtils.getPaginatedData<Execution>(prisma.execution, {
+      page: pagination.page,
+      limit: pagination.limit,
+      where: { AND: conditions },
+      orderBy: { startedAt: 'desc' },
+      include: {
+        workflow: { select: { id: true, name: true, category: true } },
+        user: { select: { id: true, name: true, email: true } }
+      }
+    });
+  }
+
+  // 获取用户最近开始的执行
+  async getRecentExecutions(userId: string, limit = 10) {
+    return prisma.execution.findMany({
+      where: accessibleExecutionWhere(userId),
+      include: {
+        workflow: { select: { id: true, name: true } }
+      },
+      orderBy: { startedAt: 'desc' },
+      take: limit
+    });
+  }
+
+  // 修改执行的标题、优先级、标签和截止日期，只有发起人可以操作；状态只能通过暂停、恢复、完成和取消修改
+  async updateExecution(
+    executionId: string,
+    userId: string,
+    data: { title?: string; priority?: string; tags?: string[]; dueDate?: Date | null }
+  ) {
+    const { execution } = await this.participantService.getAccess(executionId, userId, 'manage');
+
+    const { dueDate, ...fields } = data;
+    const before = {
+      title: execution.title,
+      priority: execution.priority,
+      tags: DatabaseUtils.parseJsonField(execution.tags, [])
+    };
+    const changes = diffFields(before, fields);
+
+    if (changes) {
+      await prisma.execution.update({
+        where: { id: executionId },
+        data: {
+          ...(fields.title !== undefined && { title: fields.title }),
+          ...(fields.priority !== undefined && { priority: fields.priority }),
+          ...(fields.tags !== undefined && { tags: JSON.stringify(fields.tags) })
+        }
+      });
+
+      await this.eventService.record({
+        executionId,
+        actorId: userId,
+        type: 'EXECUTION_UPDATED',
+        ...changes
+      });
+    }
+
+    if (dueDate !== undefined) {
+      return this.updateDueDate(executionId, userId, dueDate);
+    }
+
+    return prisma.execution.findUniqueOrThrow({ where: { id: executionId } });
+  }
+
+  // 获取执行的步骤记录，按步骤顺序排列
+  async getExecutionRecords(executionId: string, userId: string): Promise<ExecutionRecord[]> {
+    const execution = await this.getExecutionById(executionId, userId);
+
+    if (!execution) {
+      throw new Error('执行记录不存在或无权限访问');
+    }
+
+    return (execution.executionRecords || []).map(record => this.formatRecord(record));
+  }
+
+  // 获取下一个可以开始的步骤：进行中的步骤优先，其次是前置步骤已完成的第一个待处理步骤
+  async getNextPendingStep(executionId: string, userId: string): Promise<ExecutionRecord | null> {
+    await this.participantService.getAccess(executionId, userId);
+
+    const inProgress = await prisma.executionRecord.findFirst({
+      where: { executionId, status: StepStatus.IN_PROGRESS },
+      include: { step: true },
+      orderBy: { step: { order: 'asc' } }
+    });
+
+    if (inProgress) {
+      return this.formatRecord(inProgress);
+    }
+
+    const [next] = getReadyRecords(await this.getDependencyStates(executionId))
+      .sort((a, b) => a.order - b.order);
+    return next ? this.getRecordById(next.recordId) : null;
+  }
+
+  // 按步骤状态重新计算执行进度
+  async refreshProgress(executionId: string, userId: string): Promise<number> {
+    await this.participantService.getAccess(executionId, userId, 'contribute');
+    return ExecutionModel.updateProgress(executionId);
+  }
+
+  // 修改步骤的笔记、结果和实际耗时，不改变步骤状态；result 与已有结果合并
+  async updateExecutionRecord(
+    executionId: string,
+    recordId: string,
+    userId: string,
+    data: { notes?: string; result?: Record<string, any>; actualDuration?: number }
+  ): Promise<ExecutionRecord> {
+    const { record } = await this.getAccessibleRecord(executionId, recordId, userId);
+
+    const existingResult = asObject(DatabaseUtils.parseJsonField(record.result));
+    const result = data.result !== undefined ? { ...existingResult, ...asObject(data.result) } : undefined;
+    const changes = diffFields(
+      { notes: record.notes, result: existingResult, actualTime: record.actualTime },
+      { notes: data.notes, result, actualTime: data.actualDuration }
+    );
+
+    if (changes) {
+      await prisma.executionRecord.update({
+        where: { id: recordId },
+        data: {
+          ...(data.notes !== undefined && { notes: data.notes }),
+          ...(result !== undefined && { result: JSON.stringify(result) }),
+          ...(data.actualDuration !== undefined && { actualTime: data.actualDuration })
+        }
+      });
+
+      await this.eventService.record({
+        executionId,
+        recordId,
+        actorId: userId,
+        type: 'STEP_UPDATED',
+        ...changes
+      });
+    }
+
+    return this.getRecordById(recordId);
+  }
+
   // 更新步骤状态
   async updateStepStatus(
     executionId: string,
@@ -120,17 +527,8 @@ export class ExecutionService {
       data?: Record<string, any>;
     }
   ): Promise<ExecutionRecord> {
-    // 验证执行记录是否属于用户
-    const execution = await prisma.execution.findFirst({
-      where: {
-        id: executionId,
-        userId
-      }
-    });
-
-    if (!execution) {
-      throw new Error('执行记录不存在或无权限访问');
-    }
+    // 验证用户是执行的发起人或协作者
+    const { execution, role } = await this.participantService.getAccess(executionId, userId, 'contribute');
 
     // 查找对应的执行步骤记录
     const executionRecord = await prisma.executionRecord.findFirst({
@@ -147,242 +545,2052 @@ export class ExecutionService {
       throw new Error('步骤记录不存在');
     }
 
-    // 更新步骤记录
-    const updatedRecord = await prisma.executionRecord.update({
+    this.assertCanWorkOnStep(role, userId, executionRecord);
+
+    if ((updateData.status === StepStatus.COMPLETED || updateData.status === StepStatus.SKIPPED) &&
+      this.requiresApproval(executionRecord)) {
+      throw new Error('审批步骤需要由审批人审批通过');
+    }
+
+    if (updateData.status === StepStatus.COMPLETED && this.isSubworkflowStep(executionRecord)) {
+      throw new Error('子流程步骤在子执行完成后自动完成');
+    }
+
+    // 更新步骤记录，修改状态时按目标状态对应的动作检查转换
+    const { status, ...fields } = updateData;
+    if (status === StepStatus.COMPLETED) {
+      await ExecutionRecordModel.assertEvidence(executionRecord.id, { notes: fields.notes, data: fields.data });
+    }
+    if (status) {
+      await this.transitionStep(executionRecord, stepActionFor(status), {
+        ...fields,
+        completedAt: status === StepStatus.COMPLETED ? new Date() : executionRecord.completedAt
+      }, { executionStatus: execution.status, userId });
+    } else {
+      await prisma.executionRecord.update({
+        where: { id: executionRecord.id },
+        data: fields
+      });
+
+      const changes = diffFields(
+        { notes: executionRecord.notes, data: DatabaseUtils.parseJsonField(executionRecord.data) },
+        { notes: fields.notes, data: fields.data }
+      );
+      if (changes) {
+        await this.eventService.record({
+          executionId,
+          recordId: executionRecord.id,
+          actorId: userId,
+          type: 'STEP_UPDATED',
+          ...changes
+        });
+      }
+    }
+
+    const updatedRecord = await prisma.executionRecord.findUniqueOrThrow({
       where: { id: executionRecord.id },
-      data: {
-        ...updateData,
-        completedAt: updateData.status === StepStatus.COMPLETED ? new Date() : executionRecord.completedAt
-      },
       include: {
         step: true,
         attachments: true
       }
     });
 
+    // 步骤结束后评估分支条件
+    if (updateData.status === StepStatus.COMPLETED || updateData.status === StepStatus.SKIPPED) {
+      await this.applyStepConditions(executionId);
+      await this.dispatchAutomaticSteps(executionId);
+    }
+
     // 检查是否需要更新执行状态
     await this.checkAndUpdateExecutionStatus(executionId);
 
     return updatedRecord;
   }
 
-  // 暂停执行
-  async pauseExecution(executionId: string, userId: string): Promise<Execution> {
-    const execution = await this.getExecutionById(executionId, userId);
-    
-    if (!execution) {
-      throw new Error('执行记录不存在或无权限访问');
-    }
+  // 开始步骤
+  async startStep(executionId: string, recordId: string, userId: string): Promise<ExecutionRecord> {
+    const { execution, record } = await this.getAccessibleRecord(executionId, recordId, userId);
+
+    assertStepTransition('start', record.status, execution.status);
 
-    if (execution.status !== ExecutionStatus.IN_PROGRESS) {
-      throw new Error('只能暂停进行中的执行');
+    const states = await this.getDependencyStates(executionId);
+    const current = states.find(state => state.recordId === recordId)!;
+    const blockingSteps = getBlockingSteps(current, states);
+
+    if (blockingSteps.length > 0) {
+      const error: any = new Error(`前置步骤尚未完成: ${blockingSteps.map(step => step.name || step.order).join('、')}`);
+      error.code = DEPENDENCIES_NOT_MET;
+      error.blockingSteps = blockingSteps;
+      throw error;
     }
 
-    const updatedExecution = await prisma.execution.update({
-      where: { id: executionId },
-      data: { status: ExecutionStatus.PAUSED }
-    });
+    const startedAt = new Date();
+    await this.transitionStep(record, 'start', {
+      startedAt,
+      ...this.getStepDeadline(record, startedAt)
+    }, { executionStatus: execution.status, userId });
 
-    return updatedExecution;
+    return this.getRecordById(recordId);
   }
 
-  // 恢复执行
-  async resumeExecution(executionId: string, userId: string): Promise<Execution> {
-    const execution = await this.getExecutionById(executionId, userId);
-    
-    if (!execution) {
-      throw new Error('执行记录不存在或无权限访问');
+  // 完成步骤
+  async completeStep(
+    executionId: string,
+    recordId: string,
+    userId: string,
+    completeData: CompleteStepDto
+  ): Promise<ExecutionRecord> {
+    const { execution, record } = await this.getAccessibleRecord(executionId, recordId, userId);
+
+    assertStepTransition('complete', record.status, execution.status);
+
+    if (this.requiresApproval(record)) {
+      throw new Error('审批步骤需要由审批人审批通过');
     }
 
-    if (execution.status !== ExecutionStatus.PAUSED) {
-      throw new Error('只能恢复已暂停的执行');
+    if (this.isSubworkflowStep(record)) {
+      throw new Error('子流程步骤在子执行完成后自动完成');
     }
 
-    const updatedExecution = await prisma.execution.update({
-      where: { id: executionId },
-      data: { status: ExecutionStatus.IN_PROGRESS }
-    });
+    // INPUT 和 CALCULATION 步骤按表单定义校验提交的数据
+    let data = completeData.data;
+    const fields = ['INPUT', 'CALCULATION'].includes(record.step?.stepType) ? parseFormFields(record.step.metadata) : [];
+    if (fields.length > 0) {
+      const validation = validateFormData(fields, data);
+      if (!validation.isValid) {
+        const error: any = new Error(`表单数据验证失败: ${validation.errors.map(item => item.message).join('；')}`);
+        error.code = INVALID_STEP_DATA;
+        error.fieldErrors = validation.errors;
+        throw error;
+      }
+      data = validation.values;
+    }
 
-    return updatedExecution;
-  }
+    let result = completeData.result;
+    const savedResult = DatabaseUtils.parseJsonField(record.result, {}) as Record<string, any>;
 
-  // 完成执行
-  async completeExecution(executionId: string, userId: string): Promise<Execution> {
-    const execution = await this.getExecutionById(executionId, userId);
-    
-    if (!execution) {
-      throw new Error('执行记录不存在或无权限访问');
+    // 启用估值模型的计算步骤：使用提交的估值输入，未提交时沿用已保存的估值
+    const valuationConfig = record.step?.stepType === 'CALCULATION' ? parseValuationConfig(record.step.metadata) : null;
+    let valuation: any;
+    if (valuationConfig) {
+      valuation = completeData.valuation !== undefined
+        ? this.buildValuation(completeData.valuation, valuationConfig)
+        : savedResult?.valuation;
+
+      if (!valuation && valuationConfig.required) {
+        const error: any = new Error('本步骤需要先完成估值模型');
+        error.code = INVALID_VALUATION_INPUT;
+        error.details = [];
+        throw error;
+      }
+
+      if (valuation) {
+        result = { ...asObject(result), valuation };
+      }
     }
 
-    if (execution.status === ExecutionStatus.COMPLETED) {
-      throw new Error('执行已经完成');
+    // 启用房地产测算的计算步骤：完整测算写入 result，汇总指标写入 data.property
+    const propertyConfig = record.step?.stepType === 'CALCULATION' ? parsePropertyModelConfig(record.step.metadata) : null;
+    if (propertyConfig) {
+      const property = completeData.property !== undefined
+        ? this.buildPropertyModel(completeData.property)
+        : savedResult?.property;
+
+      if (!property && propertyConfig.required) {
+        const error: any = new Error('本步骤需要先完成房地产投资测算');
+        error.code = INVALID_PROPERTY_INPUT;
+        error.details = [];
+        throw error;
+      }
+
+      if (property) {
+        result = { ...asObject(result), property };
+        data = { ...data, property: property.output.summary };
+      }
     }
 
-    // 检查是否所有必需步骤都已完成
-    const incompleteRequiredSteps = execution.executionRecords?.filter(record => 
-      record.step.isRequired && record.status !== StepStatus.COMPLETED
-    ) || [];
+    // CALCULATION 步骤在服务端执行公式，计算结果和计算过程写入 result
+    // 公式可通过 valuation.base、property.irr 等引用本步骤的模型汇总
+    const calculations = record.step?.stepType === 'CALCULATION' ? parseCalculations(record.step.metadata) : [];
+    if (calculations.length > 0) {
+      const calculationData = valuation ? { ...data, valuation: valuation.output.summary } : data;
+      const trace = runCalculations(calculations, await this.getCalculationContext(execution, calculationData));
+      const failed = trace.filter(item => item.error);
+      if (failed.length > 0) {
+        const error: any = new Error(`计算失败: ${failed.map(item => `${item.label}（${item.error}）`).join('；')}`);
+        error.code = CALCULATION_FAILED;
+        error.trace = trace;
+        throw error;
+      }
 
-    if (incompleteRequiredSteps.length > 0) {
-      throw new Error(`还有 ${incompleteRequiredSteps.length} 个必需步骤未完成`);
+      result = {
+        ...asObject(result),
+        calculations: Object.fromEntries(trace.map(item => [item.key, item.value])),
+        trace
+      };
     }
 
-    const updatedExecution = await prisma.execution.update({
-      where: { id: executionId },
-      data: { 
-        status: ExecutionStatus.COMPLETED,
-        completedAt: new Date()
+    // 检查清单步骤按完成规则检查勾选情况，完成时的勾选数写入 result
+    const checklist = record.step?.stepType === 'CHECKLIST' ? parseChecklistConfig(record.step.metadata) : null;
+    if (checklist) {
+      const states = await prisma.checklistItemState.findMany({ where: { recordId } });
+      const progress = getChecklistProgress(checklist, states);
+      if (progress.missing.length > 0) {
+        const error: any = new Error(`还有检查项未勾选: ${progress.missing.map(item => item.label).join('、')}`);
+        error.code = CHECKLIST_INCOMPLETE;
+        error.missingItems = progress.missing;
+        throw error;
       }
-    });
+      result = { ...asObject(result), checklist: { checked: progress.checked, total: progress.total } };
+    }
 
-    return updatedExecution;
+    // 决策步骤记录做出决策时各项参考标准的评估结果
+    const criteria = record.step?.stepType === 'DECISION' ? parseCriteria(record.step.metadata) : [];
+    if (criteria.length > 0) {
+      result = { ...asObject(result), criteria: await this.evaluateDecisionCriteria(executionId, criteria) };
+    }
+
+    // 步骤定义的证明材料要求（附件、备注长度、必填字段）按本次提交的内容检查
+    await ExecutionRecordModel.assertEvidence(recordId, { notes: completeData.notes, data });
+
+    const completedAt = new Date();
+    const actualTime = record.startedAt
+      ? Math.round((completedAt.getTime() - record.startedAt.getTime()) / (1000 * 60))
+      : undefined;
+
+    await this.transitionStep(record, 'complete', {
+      completedAt,
+      actualTime,
+      notes: completeData.notes,
+      data: data !== undefined ? JSON.stringify(data) : undefined,
+      result: result !== undefined ? JSON.stringify(result) : undefined
+    }, { executionStatus: execution.status, userId });
+
+    await this.applyStepConditions(executionId);
+    await this.dispatchAutomaticSteps(executionId);
+    await this.checkAndUpdateExecutionStatus(executionId);
+
+    return this.getRecordById(recordId);
   }
 
-  // 添加复盘内容
-  async addReview(
+  // 试算计算步骤（不保存），返回每个公式的结果和引用的值
+  async previewCalculations(
     executionId: string,
+    recordId: string,
     userId: string,
-    reviewNotes: string
-  ): Promise<Execution> {
-    const execution = await this.getExecutionById(executionId, userId);
-    
-    if (!execution) {
-      throw new Error('执行记录不存在或无权限访问');
-    }
+    data?: Record<string, any>
+  ): Promise<CalculationTrace[]> {
+    const { execution, record } = await this.getAccessibleRecord(executionId, recordId, userId);
 
-    const updatedExecution = await prisma.execution.update({
-      where: { id: executionId },
-      data: { 
-        reviewNotes,
-        reviewedAt: new Date()
-      }
-    });
+    if (record.step?.stepType !== 'CALCULATION') {
+      throw new Error('只有计算步骤可以试算');
+    }
 
-    return updatedExecution;
+    // 试算时同样可以引用已保存的估值和房地产测算汇总
+    const recordData = DatabaseUtils.parseJsonField(record.data, {}) as Record<string, any>;
+    const savedResult = DatabaseUtils.parseJsonField(record.result, {}) as Record<string, any>;
+    return runCalculations(
+      parseCalculations(record.step.metadata),
+      await this.getCalculationContext(execution, {
+        ...(data || recordData),
+        valuation: savedResult?.valuation?.output?.summary,
+        property: savedResult?.property?.output?.summary
+      })
+    );
   }
 
-  // 添加步骤复盘
-  async addStepReview(
+  // 保存估值模型的输入并返回计算结果，步骤完成前可反复调整
+  async saveValuation(
+    executionId: string,
+    recordId: string,
+    userId: string,
+    input: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const { execution, record } = await this.getAccessibleRecord(executionId, recordId, userId);
+
+    const config = record.step?.stepType === 'CALCULATION' ? parseValuationConfig(record.step.metadata) : null;
+    if (!config) {
+      throw new Error('该步骤没有启用估值模型');
+    }
+
+    if (execution.status !== ExecutionStatus.IN_PROGRESS || record.status !== StepStatus.IN_PROGRESS) {
+      throw new Error('只能在进行中的步骤里保存估值模型');
+    }
+
+    const valuation = this.buildValuation(input, config);
+    const result = DatabaseUtils.parseJsonField(record.result, {}) as Record<string, any>;
+
+    await prisma.executionRecord.update({
+      where: { id: recordId },
+      data: {
+        result: JSON.stringify({ ...result, valuation })
+      }
+    });
+
+    await this.eventService.record({
+      executionId,
+      recordId,
+      actorId: userId,
+      type: 'VALUATION_SAVED',
+      before: result?.valuation ? { input: result.valuation.input } : null,
+      after: { input: valuation.input, summary: valuation.output?.summary }
+    });
+
+    return valuation;
+  }
+
+  // 获取检查清单步骤每一项的勾选情况
+  async getChecklist(executionId: string, recordId: string, userId: string) {
+    const { record } = await this.getAccessibleRecord(executionId, recordId, userId, 'view');
+    return this.buildChecklist(record);
+  }
+
+  // 勾选或取消勾选检查项，可附说明和本步骤上传的附件作为证明材料
+  async updateChecklistItem(
+    executionId: string,
+    recordId: string,
+    userId: string,
+    input: { item: string; checked: boolean; note?: string | null; attachmentId?: string | null }
+  ) {
+    const { execution, record } = await this.getAccessibleRecord(executionId, recordId, userId);
+
+    const config = record.step?.stepType === 'CHECKLIST' ? parseChecklistConfig(record.step.metadata) : null;
+    if (!config) {
+      throw new Error('该步骤没有检查清单');
+    }
+
+    if (!config.items.some(item => item.key === input.item)) {
+      throw new Error(`检查项 "${input.item}" 不存在`);
+    }
+
+    if (execution.status !== ExecutionStatus.IN_PROGRESS || record.status !== StepStatus.IN_PROGRESS) {
+      throw new Error('只能在进行中的步骤里勾选检查项');
+    }
+
+    if (input.attachmentId) {
+      const attachment = await prisma.attachment.findFirst({
+        where: { id: input.attachmentId, executionRecordId: recordId }
+      });
+      if (!attachment) {
+        throw new Error('证明材料不存在或不属于本步骤');
+      }
+    }
+
+    const data = {
+      checked: input.checked,
+      checkedAt: input.checked ? new Date() : null,
+      checkedBy: input.checked ? userId : null,
+      ...(input.note !== undefined && { note: input.note || null }),
+      ...(input.attachmentId !== undefined && { attachmentId: input.attachmentId || null })
+    };
+
+    const previous = await prisma.checklistItemState.findUnique({
+      where: { recordId_itemKey: { recordId, itemKey: input.item } }
+    });
+
+    await prisma.checklistItemState.upsert({
+      where: { recordId_itemKey: { recordId, itemKey: input.item } },
+      create: { recordId, itemKey: input.item, ...data },
+      update: data
+    });
+
+    const changes = diffFields(
+      { checked: previous?.checked ?? false, note: previous?.note, attachmentId: previous?.attachmentId },
+      { checked: data.checked, note: data.note, attachmentId: data.attachmentId }
+    );
+    if (changes) {
+      await this.eventService.record({
+        executionId,
+        recordId,
+        actorId: userId,
+        type: 'CHECKLIST_ITEM_UPDATED',
+        before: { item: input.item, ...changes.before },
+        after: { item: input.item, ...changes.after }
+      });
+    }
+
+    // 步骤内的勾选比例计入执行进度
+    const states = await prisma.checklistItemState.findMany({ where: { recordId } });
+    await prisma.executionRecord.update({
+      where: { id: recordId },
+      data: { progress: getChecklistProgress(config, states).percent }
+    });
+    await ExecutionModel.updateProgress(executionId);
+
+    return this.buildChecklist(record);
+  }
+
+  // 保存房地产投资测算，汇总指标同时写入步骤数据
+  async savePropertyModel(
+    executionId: string,
+    recordId: string,
+    userId: string,
+    input: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const { execution, record } = await this.getAccessibleRecord(executionId, recordId, userId);
+
+    const config = record.step?.stepType === 'CALCULATION' ? parsePropertyModelConfig(record.step.metadata) : null;
+    if (!config) {
+      throw new Error('该步骤没有启用房地产投资测算');
+    }
+
+    if (execution.status !== ExecutionStatus.IN_PROGRESS || record.status !== StepStatus.IN_PROGRESS) {
+      throw new Error('只能在进行中的步骤里保存房地产投资测算');
+    }
+
+    const property = this.buildPropertyModel(input);
+    const result = DatabaseUtils.parseJsonField(record.result, {}) as Record<string, any>;
+    const data = DatabaseUtils.parseJsonField(record.data, {}) as Record<string, any>;
+
+    await prisma.executionRecord.update({
+      where: { id: recordId },
+      data: {
+        data: JSON.stringify({ ...data, property: property.output.summary }),
+        result: JSON.stringify({ ...result, property })
+      }
+    });
+
+    await this.eventService.record({
+      executionId,
+      recordId,
+      actorId: userId,
+      type: 'PROPERTY_MODEL_SAVED',
+      before: result?.property ? { input: result.property.input } : null,
+      after: { input: property.input, summary: property.output.summary }
+    });
+
+    return property;
+  }
+
+  // 获取决策步骤的参考标准及当前评估结果
+  async getDecisionCriteria(executionId: string, recordId: string, userId: string): Promise<CriterionResult[]> {
+    const { record } = await this.getAccessibleRecord(executionId, recordId, userId, 'view');
+
+    if (record.step?.stepType !== 'DECISION') {
+      throw new Error('只有决策步骤有参考标准');
+    }
+
+    return this.evaluateDecisionCriteria(executionId, parseCriteria(record.step.metadata));
+  }
+
+  // 获取审批步骤的配置、本轮统计和历次审批意见，执行发起人和审批人均可查看
+  async getStepApprovals(executionId: string, recordId: string, userId: string) {
+    const { execution, record, config } = await this.getApprovalRecord(executionId, recordId);
+    const approvers = await this.getEligibleApprovers(config, execution.userId);
+
+    if (!approvers.some(user => user.id === userId)) {
+      await this.participantService.getAccess(executionId, userId);
+    }
+
+    const approvals = await prisma.stepApproval.findMany({
+      where: { recordId },
+      include: {
+        approver: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const round = this.getApprovalRound(record);
+    const votes = approvals.filter((item: any) => item.round === round);
+
+    return {
+      config,
+      round,
+      tally: tallyApprovals(config, votes as ApprovalVote[], approvers.length),
+      approvers: approvers.map(user => ({ id: user.id, name: user.name, email: user.email })),
+      approvals,
+      canDecide: execution.status === ExecutionStatus.IN_PROGRESS &&
+        record.status === StepStatus.IN_PROGRESS &&
+        approvers.some(user => user.id === userId) &&
+        !votes.some((item: any) => item.approverId === userId)
+    };
+  }
+
+  // 审批人提交审批意见：达到通过规则时完成步骤，确定无法通过时驳回并退回指定步骤
+  async decideApproval(
+    executionId: string,
+    recordId: string,
+    userId: string,
+    decisionData: ApprovalDecisionDto
+  ): Promise<ExecutionRecord> {
+    const { execution, record, config } = await this.getApprovalRecord(executionId, recordId);
+
+    // 审批通过即完成步骤，提交意见前按完成动作检查状态
+    assertStepTransition('complete', record.status, execution.status);
+
+    const approvers = await this.getEligibleApprovers(config, execution.userId);
+    if (!approvers.some(user => user.id === userId)) {
+      const error: any = new Error('您不是该步骤的审批人');
+      error.code = NOT_APPROVER;
+      throw error;
+    }
+
+    const round = this.getApprovalRound(record);
+    const existing = await prisma.stepApproval.findFirst({
+      where: { recordId, approverId: userId, round }
+    });
+
+    if (existing) {
+      throw new Error('本轮审批已提交过意见');
+    }
+
+    await prisma.stepApproval.create({
+      data: {
+        recordId,
+        approverId: userId,
+        decision: decisionData.decision,
+        comment: decisionData.comment,
+        round
+      }
+    });
+
+    const votes = await prisma.stepApproval.findMany({ where: { recordId, round } });
+    const tally = tallyApprovals(config, votes as ApprovalVote[], approvers.length);
+    const savedResult = asObject(DatabaseUtils.parseJsonField(record.result, {}));
+
+    await this.eventService.record({
+      executionId,
+      recordId,
+      actorId: userId,
+      type: 'APPROVAL_DECIDED',
+      after: { decision: decisionData.decision, round, outcome: tally.status },
+      reason: decisionData.comment
+    });
+
+    if (tally.status === 'APPROVED') {
+      const completedAt = new Date();
+      await this.transitionStep(record, 'complete', {
+        completedAt,
+        actualTime: record.startedAt
+          ? Math.round((completedAt.getTime() - record.startedAt.getTime()) / (1000 * 60))
+          : undefined,
+        result: JSON.stringify({ ...savedResult, approval: { round, ...tally } })
+      }, { executionStatus: execution.status, userId, reason: decisionData.comment });
+
+      await this.applyStepConditions(executionId);
+      await this.dispatchAutomaticSteps(executionId);
+      await this.checkAndUpdateExecutionStatus(executionId);
+    } else if (tally.status === 'REJECTED') {
+      // 驳回后开始新一轮审批，上一轮的意见保留在审批记录中
+      await prisma.executionRecord.update({
+        where: { id: recordId },
+        data: {
+          result: JSON.stringify({ ...savedResult, approval: { round: round + 1, status: 'PENDING', previous: { round, ...tally } } })
+        }
+      });
+
+      const reason = decisionData.comment ? `审批被驳回：${decisionData.comment}` : '审批被驳回';
+      await this.rollbackToStep(executionId, record, config.rejectTo, reason, userId);
+    } else {
+      await prisma.executionRecord.update({
+        where: { id: recordId },
+        data: {
+          result: JSON.stringify({ ...savedResult, approval: { round, ...tally } })
+        }
+      });
+    }
+
+    return this.getRecordById(recordId);
+  }
+
+  // 获取当前用户待审批的步骤（本轮尚未提交意见）
+  async getPendingApprovals(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, role: true }
+    });
+
+    if (!user) {
+      throw new Error('用户不存在');
+    }
+
+    const records = await prisma.executionRecord.findMany({
+      where: {
+        status: StepStatus.IN_PROGRESS,
+        step: { stepType: 'APPROVAL' },
+        execution: { status: ExecutionStatus.IN_PROGRESS }
+      },
+      include: {
+        step: true,
+        approvals: true,
+        execution: {
+          include: {
+            workflow: {
+              select: { id: true, name: true }
+            },
+            user: {
+              select: { id: true, name: true, email: true }
+            }
+          }
+        }
+      },
+      orderBy: { startedAt: 'asc' }
+    });
+
+    return records
+      .filter((record: any) => {
+        const config = parseApprovalConfig(record.step.metadata);
+        if (!config || resolveApprovers(config, [user], record.execution.userId).length === 0) {
+          return false;
+        }
+
+        const round = this.getApprovalRound(record);
+        return !record.approvals.some((item: any) => item.round === round && item.approverId === userId);
+      })
+      .map((record: any) => ({
+        recordId: record.id,
+        executionId: record.executionId,
+        title: record.execution.title,
+        stepName: record.step.name,
+        stepOrder: record.step.order,
+        workflow: record.execution.workflow,
+        requester: record.execution.user,
+        round: this.getApprovalRound(record),
+        submittedAt: record.startedAt
+      }));
+  }
+
+  // 重新发送投递失败的通知步骤
+  async retryNotification(executionId: string, recordId: string, userId: string): Promise<ExecutionRecord> {
+    const { execution, record } = await this.getAccessibleRecord(executionId, recordId, userId);
+
+    if (record.step?.stepType !== 'NOTIFICATION' || !parseNotificationConfig(record.step.metadata)) {
+      throw new Error('该步骤不是通知步骤或未配置消息模板');
+    }
+
+    if (record.status !== StepStatus.FAILED) {
+      throw new Error('只能重发发送失败的通知');
+    }
+
+    await this.sendNotificationStep(execution, record, userId);
+    await this.applyStepConditions(executionId);
+    await this.dispatchAutomaticSteps(executionId);
+    await this.checkAndUpdateExecutionStatus(executionId);
+
+    return this.getRecordById(recordId);
+  }
+
+  // 重新启动失败的子流程步骤，之前的子执行保留但不再关联
+  async retrySubworkflow(executionId: string, recordId: string, userId: string): Promise<ExecutionRecord> {
+    const { execution, record } = await this.getAccessibleRecord(executionId, recordId, userId);
+
+    if (!this.isSubworkflowStep(record)) {
+      throw new Error('该步骤不是子流程步骤或未引用工作流');
+    }
+
+    assertStepTransition('retry', record.status, execution.status);
+
+    await this.startSubworkflowStep(execution, record, userId);
+    await this.dispatchAutomaticSteps(executionId);
+    await this.checkAndUpdateExecutionStatus(executionId);
+
+    return this.getRecordById(recordId);
+  }
+
+  // 跳过步骤
+  async skipStep(executionId: string, recordId: string, userId: string, reason?: string): Promise<ExecutionRecord> {
+    const { execution, record } = await this.getAccessibleRecord(executionId, recordId, userId);
+
+    if (this.requiresApproval(record)) {
+      throw new Error('审批步骤不能跳过');
+    }
+
+    await this.transitionStep(record, 'skip', {
+      notes: reason,
+      completedAt: new Date()
+    }, { executionStatus: execution.status, userId, reason });
+
+    await this.applyStepConditions(executionId);
+    await this.dispatchAutomaticSteps(executionId);
+    await this.checkAndUpdateExecutionStatus(executionId);
+
+    return this.getRecordById(recordId);
+  }
+
+  // 标记步骤失败
+  async failStep(executionId: string, recordId: string, userId: string, reason?: string): Promise<ExecutionRecord> {
+    const { execution, record } = await this.getAccessibleRecord(executionId, recordId, userId);
+
+    await this.transitionStep(record, 'fail', {
+      notes: reason,
+      completedAt: new Date()
+    }, { executionStatus: execution.status, userId, reason });
+
+    return this.getRecordById(recordId);
+  }
+
+  // 重新打开已完成或已跳过的步骤：之前的状态和结果存入历史版本，步骤重新进入进行中，
+  // 已完成的执行恢复为进行中；cascade 为 true 时依赖该步骤的后续步骤同时恢复为待处理
+  async reopenStep(
+    executionId: string,
+    recordId: string,
+    userId: string,
+    options: { reason: string; cascade?: boolean }
+  ): Promise<ExecutionRecord> {
+    const { execution, record } = await this.getAccessibleRecord(executionId, recordId, userId);
+
+    assertStepTransition('reopen', record.status, execution.status);
+
+    if (isConditionSkipped(record.status, record.result)) {
+      throw new Error('因分支条件跳过的步骤由条件决定，不能重新打开');
+    }
+
+    if (record.step?.stepType === 'NOTIFICATION' || this.isSubworkflowStep(record)) {
+      throw new Error('通知和子流程步骤由系统自动处理，不能重新打开');
+    }
+
+    const records = await prisma.executionRecord.findMany({
+      where: { executionId },
+      include: { step: true }
+    });
+    const dependentIds = options.cascade
+      ? getDependentRecords(recordId, this.toDependencyStates(records)).map(state => state.recordId)
+      : [];
+    const dependents = records.filter(item =>
+      dependentIds.includes(item.id) &&
+      item.status !== StepStatus.PENDING &&
+      !isConditionSkipped(item.status, item.result)
+    );
+
+    // 转换事件在事务提交后再发出
+    const events: TransitionEvent[] = [];
+    const transition = { userId, reason: options.reason, events };
+
+    await prisma.$transaction(async (tx) => {
+      // 已完成的执行先恢复为进行中，后续步骤才能恢复为待处理
+      if (execution.status === ExecutionStatus.COMPLETED) {
+        await this.transitionExecution(execution, 'reopen', { completedAt: null }, { ...transition, client: tx });
+      }
+
+      await this.saveRevision(tx, record, userId, options.reason);
+
+      // 审批步骤重新打开后进入新一轮审批，上一轮的审批意见保留
+      const savedResult = DatabaseUtils.parseJsonField(record.result, {}) as Record<string, any>;
+      const result = this.requiresApproval(record)
+        ? JSON.stringify({ ...savedResult, approval: { round: this.getApprovalRound(record) + 1, status: 'PENDING', previous: savedResult.approval } })
+        : undefined;
+
+      const startedAt = new Date();
+      await this.transitionStep(record, 'reopen', {
+        startedAt,
+        ...this.getStepDeadline(record, startedAt),
+        completedAt: null,
+        actualTime: null,
+        notes: options.reason,
+        ...(result !== undefined && { result })
+      }, { ...transition, executionStatus: execution.status, client: tx });
+
+      for (const item of dependents) {
+        await this.saveRevision(tx, item, userId, options.reason, recordId);
+        await this.transitionStep(item, 'reset', {
+          startedAt: null,
+          ...this.getStepDeadline(item, null),
+          completedAt: null,
+          actualTime: null,
+          progress: 0
+        }, { ...transition, executionStatus: ExecutionStatus.IN_PROGRESS, client: tx });
+      }
+    });
+
+    events.forEach(event => emitTransition(event));
+
+    await this.applyStepConditions(executionId);
+    await ExecutionModel.updateProgress(executionId);
+
+    return this.getRecordById(recordId);
+  }
+
+  // 获取步骤的历史版本，最近的在前
+  async getStepRevisions(executionId: string, recordId: string, userId: string) {
+    await this.getAccessibleRecord(executionId, recordId, userId, 'view');
+
+    const revisions = await prisma.stepRevision.findMany({
+      where: { recordId },
+      include: {
+        reopener: { select: { id: true, name: true } }
+      },
+      orderBy: { revision: 'desc' }
+    });
+
+    return revisions.map(revision => ({
+      ...revision,
+      data: DatabaseUtils.parseJsonField(revision.data) ?? undefined,
+      result: DatabaseUtils.parseJsonField(revision.result) ?? undefined
+    }));
+  }
+
+  // 获取所有前置步骤已完成、可以开始的步骤（可并行执行）
+  async getReadySteps(executionId: string, userId: string): Promise<ExecutionRecord[]> {
+    await this.participantService.getAccess(executionId, userId);
+
+    const records = await prisma.executionRecord.findMany({
+      where: { executionId },
+      include: { step: true }
+    });
+
+    const readyIds = getReadyRecords(this.toDependencyStates(records)).map(state => state.recordId);
+
+    return readyIds.map(id => this.formatRecord(records.find(record => record.id === id)));
+  }
+
+  // 暂停执行，只有发起人可以操作
+  async pauseExecution(executionId: string, userId: string): Promise<Execution> {
+    const { execution } = await this.participantService.getAccess(executionId, userId, 'manage');
+
+    return this.transitionExecution(execution, 'pause', {}, { userId });
+  }
+
+  // 恢复执行，只有发起人可以操作
+  async resumeExecution(executionId: string, userId: string): Promise<Execution> {
+    const { execution } = await this.participantService.getAccess(executionId, userId, 'manage');
+
+    await this.transitionExecution(execution, 'resume', {}, { userId });
+
+    // 暂停期间就绪的通知和子流程步骤在恢复后处理
+    await this.dispatchAutomaticSteps(executionId);
+    await this.checkAndUpdateExecutionStatus(executionId);
+
+    return prisma.execution.findUniqueOrThrow({ where: { id: executionId } });
+  }
+
+  // 完成执行
+  async completeExecution(executionId: string, userId: string): Promise<Execution> {
+    await this.participantService.getAccess(executionId, userId, 'contribute');
+    const execution = await this.getExecutionById(executionId, userId);
+    
+    if (!execution) {
+      throw new Error('执行记录不存在或无权限访问');
+    }
+
+    assertExecutionTransition('complete', execution.status);
+
+    // 检查是否所有必需步骤都已完成
+    const incompleteRequiredSteps = execution.executionRecords?.filter(record => 
+      record.step.isRequired &&
+      record.status !== StepStatus.COMPLETED &&
+      !isConditionSkipped(record.status, record.result)
+    ) || [];
+
+    if (incompleteRequiredSteps.length > 0) {
+      throw new Error(`还有 ${incompleteRequiredSteps.length} 个必需步骤未完成`);
+    }
+
+    const updatedExecution = await this.transitionExecution(execution, 'complete', { completedAt: new Date() }, { userId });
+
+    await this.resumeParentExecution(updatedExecution.parentRecordId);
+
+    return updatedExecution;
+  }
+
+  // 取消执行，未结束的步骤保持原状态；只有发起人可以操作。子执行被取消时父步骤标记为失败
+  async cancelExecution(executionId: string, userId: string, reason?: string): Promise<Execution> {
+    const { execution } = await this.participantService.getAccess(executionId, userId, 'manage');
+
+    const updatedExecution = await this.transitionExecution(execution, 'cancel', {}, { userId, reason });
+
+    await this.resumeParentExecution(updatedExecution.parentRecordId);
+
+    return updatedExecution;
+  }
+
+  // 添加复盘内容
+  async addReview(
     executionId: string,
-    stepId: string,
+    userId: string,
+    reviewNotes: string
+  ): Promise<Execution> {
+    await this.participantService.getAccess(executionId, userId, 'contribute');
+    const execution = await this.getExecutionById(executionId, userId);
+
+    if (!execution) {
+      throw new Error('执行记录不存在或无权限访问');
+    }
+
+    const updatedExecution = await prisma.execution.update({
+      where: { id: executionId },
+      data: { 
+        reviewNotes,
+        reviewedAt: new Date()
+      }
+    });
+
+    await this.eventService.record({
+      executionId,
+      actorId: userId,
+      type: 'REVIEW_ADDED',
+      before: { reviewNotes: execution.reviewNotes ?? null },
+      after: { reviewNotes }
+    });
+
+    this.webhookService.notify('review.created', {
+      executionId,
+      actorId: userId,
+      data: { review: { scope: 'execution', reviewNotes } }
+    });
+
+    return updatedExecution;
+  }
+
+  // 添加步骤复盘
+  async addStepReview(
+    executionId: string,
+    stepId: string,
     userId: string,
     reviewNotes: string
   ): Promise<ExecutionRecord> {
     // 验证权限
-    const execution = await prisma.execution.findFirst({
+    await this.participantService.getAccess(executionId, userId, 'contribute');
+
+    // 更新步骤复盘
+    const executionRecord = await prisma.executionRecord.findFirst({
+      where: {
+        executionId,
+        stepId
+      }
+    });
+
+    if (!executionRecord) {
+      throw new Error('步骤记录不存在');
+    }
+
+    const updatedRecord = await prisma.executionRecord.update({
+      where: { id: executionRecord.id },
+      data: { reviewNotes },
+      include: {
+        step: true,
+        attachments: true
+      }
+    });
+
+    await this.eventService.record({
+      executionId,
+      recordId: executionRecord.id,
+      actorId: userId,
+      type: 'STEP_REVIEW_ADDED',
+      before: { reviewNotes: executionRecord.reviewNotes },
+      after: { reviewNotes }
+    });
+
+    this.webhookService.notify('review.created', {
+      executionId,
+      recordId: executionRecord.id,
+      actorId: userId,
+      data: { review: { scope: 'step', reviewNotes } }
+    });
+
+    return updatedRecord;
+  }
+
+  // 获取执行统计
+  async getExecutionStats(userId: string) {
+    const totalExecutions = await prisma.execution.count({
+      where: { userId }
+    });
+
+    const statusStats = await prisma.execution.groupBy({
+      by: ['status'],
+      where: { userId },
+      _count: {
+        status: true
+      }
+    });
+
+    const completedExecutions = await prisma.execution.count({
+      where: {
+        userId,
+        status: ExecutionStatus.COMPLETED
+      }
+    });
+
+    const avgCompletionTime = await prisma.execution.aggregate({
+      where: {
+        userId,
+        status: ExecutionStatus.COMPLETED,
+        completedAt: { not: null }
+      },
+      _avg: {
+        // 这里需要计算平均完成时间，但Prisma不直接支持时间差计算
+        // 可以在应用层处理或使用原生SQL
+      }
+    });
+
+    return {
+      totalExecutions,
+      completedExecutions,
+      statusBreakdown: statusStats.reduce((acc, stat) => {
+        acc[stat.status] = stat._count.status;
+        return acc;
+      }, {} as Record<string, number>),
+      completionRate: totalExecutions > 0 ? (completedExecutions / totalExecutions) * 100 : 0
+    };
+  }
+
+  // 获取发起或参与的即将到期的执行（含已逾期的），按截止日期排序
+  async getUpcomingExecutions(userId: string, days = 7) {
+    const now = new Date();
+    const endDate = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const executions = await prisma.execution.findMany({
+      where: {
+        ...accessibleExecutionWhere(userId),
+        dueDate: { lte: endDate },
+        status: { in: [ExecutionStatus.IN_PROGRESS, ExecutionStatus.PAUSED] }
+      },
+      include: {
+        workflow: {
+          select: { id: true, name: true }
+        }
+      },
+      orderBy: { dueDate: 'asc' }
+    });
+
+    return executions.map(execution => ({
+      ...execution,
+      isOverdue: isExecutionOverdue(execution, now)
+    }));
+  }
+
+  // 修改执行的截止日期，传 null 清除；只有发起人可以操作
+  async updateDueDate(executionId: string, userId: string, dueDate: Date | null): Promise<Execution> {
+    const { execution } = await this.participantService.getAccess(executionId, userId, 'manage');
+
+    if (execution.status !== ExecutionStatus.IN_PROGRESS && execution.status !== ExecutionStatus.PAUSED) {
+      throw new Error('只能修改未结束执行的截止日期');
+    }
+
+    const updatedExecution = await prisma.execution.update({
+      where: { id: executionId },
+      data: { dueDate }
+    });
+
+    await this.eventService.record({
+      executionId,
+      actorId: userId,
+      type: 'DUE_DATE_CHANGED',
+      before: { dueDate: execution.dueDate },
+      after: { dueDate }
+    });
+
+    return updatedExecution;
+  }
+
+  // 检测超过时限的进行中步骤：标记超时并按升级规则通知发起人和管理角色，由定时任务调用
+  // 返回本次升级的步骤数
+  async detectOverdueSteps(now: Date = new Date()): Promise<number> {
+    const records = await prisma.executionRecord.findMany({
+      where: {
+        status: StepStatus.IN_PROGRESS,
+        dueAt: { lt: now },
+        escalationLevel: { lt: ESCALATION_MANAGER },
+        execution: { status: ExecutionStatus.IN_PROGRESS }
+      },
+      include: {
+        step: true,
+        execution: {
+          include: {
+            workflow: {
+              select: { id: true, name: true }
+            },
+            user: {
+              select: { id: true, name: true, email: true }
+            }
+          }
+        }
+      }
+    });
+
+    let escalated = 0;
+    for (const record of records as any[]) {
+      const config = parseSlaConfig(record.step.metadata, record.step.estimatedTime);
+      if (!config || !record.dueAt) continue;
+
+      const level = getEscalationLevel(record.dueAt, config, now);
+      if (level <= record.escalationLevel) continue;
+
+      // 条件更新，避免多个实例同时检测时重复通知
+      const { count } = await prisma.executionRecord.updateMany({
+        where: { id: record.id, escalationLevel: record.escalationLevel },
+        data: { overdueAt: record.overdueAt || now, escalationLevel: level }
+      });
+      if (count === 0) continue;
+
+      await this.eventService.record({
+        executionId: record.executionId,
+        recordId: record.id,
+        type: 'STEP_ESCALATED',
+        before: { escalationLevel: record.escalationLevel },
+        after: { escalationLevel: level, dueAt: record.dueAt }
+      });
+
+      // 检测间隔较长时可能直接达到第2级，此时也先通知发起人
+      for (let next = record.escalationLevel + 1; next <= level; next++) {
+        await this.sendEscalation(record, config, next, now);
+      }
+      escalated++;
+    }
+
+    return escalated;
+  }
+
+  // 检查并更新执行状态
+  private async checkAndUpdateExecutionStatus(executionId: string): Promise<void> {
+    const execution = await prisma.execution.findUnique({
+      where: { id: executionId },
+      include: {
+        executionRecords: {
+          include: {
+            step: true
+          }
+        }
+      }
+    });
+
+    if (!execution || execution.status !== ExecutionStatus.IN_PROGRESS) {
+      return;
+    }
+
+    const records = execution.executionRecords;
+    // 因分支条件被自动跳过的必需步骤视为已满足
+    const requiredSteps = records.filter(r => r.step.isRequired);
+    const completedRequiredSteps = requiredSteps.filter(r =>
+      r.status === StepStatus.COMPLETED || isConditionSkipped(r.status, r.result)
+    );
+
+    // 如果所有必需步骤都完成了，自动完成执行
+    if (requiredSteps.length > 0 && completedRequiredSteps.length === requiredSteps.length) {
+      try {
+        await this.transitionExecution(execution, 'autoComplete', { completedAt: new Date() });
+      } catch (error: any) {
+        // 并发的请求已经完成了执行
+        if (error?.code === INVALID_TRANSITION) return;
+        throw error;
+      }
+
+      await this.resumeParentExecution(execution.parentRecordId);
+    }
+  }
+
+  // 子执行结束后继续处理父执行：完成或标记失败父步骤并推进后续步骤
+  private async resumeParentExecution(parentRecordId: string | null | undefined): Promise<void> {
+    if (!parentRecordId) return;
+
+    const parentRecord = await prisma.executionRecord.findUnique({
+      where: { id: parentRecordId },
+      select: { executionId: true }
+    });
+
+    if (!parentRecord) return;
+
+    await this.dispatchAutomaticSteps(parentRecord.executionId);
+    await this.checkAndUpdateExecutionStatus(parentRecord.executionId);
+  }
+
+  // 根据步骤条件自动跳过或重新激活分支步骤
+  private async applyStepConditions(executionId: string): Promise<void> {
+    const records = await prisma.executionRecord.findMany({
+      where: { executionId },
+      include: { step: true }
+    });
+
+    const states = this.toConditionStates(records);
+
+    // 反复评估直到没有变化，使跳过结果沿分支向下传递
+    let changed = true;
+    let remainingPasses = records.length;
+
+    while (changed && remainingPasses-- > 0) {
+      changed = false;
+
+      for (const record of records) {
+        const conditions = parseConditions(record.step.conditions);
+        if (!conditions) continue;
+
+        const state = states.find(s => s.stepId === record.stepId)!;
+        const autoSkipped = isConditionSkipped(state.status, state.result);
+        if (state.status !== StepStatus.PENDING && !autoSkipped) continue;
+
+        const outcome = evaluateConditions(conditions, states);
+
+        if (outcome === 'UNMATCHED' && state.status === StepStatus.PENDING) {
+          const result = { [CONDITION_SKIP_MARKER]: true };
+          await this.transitionStep({ ...record, status: state.status }, 'autoSkip', {
+            notes: '分支条件不满足，已自动跳过',
+            result: JSON.stringify(result),
+            completedAt: new Date()
+          });
+          state.status = StepStatus.SKIPPED;
+          state.result = result;
+          changed = true;
+        } else if (outcome !== 'UNMATCHED' && autoSkipped) {
+          // 条件重新满足（或尚待判断）时恢复为待处理
+          await this.transitionStep({ ...record, status: state.status }, 'restore', {
+            notes: null,
+            result: null,
+            completedAt: null
+          });
+          state.status = StepStatus.PENDING;
+          state.result = null;
+          changed = true;
+        }
+      }
+    }
+  }
+
+  // 自动处理通知步骤和子流程步骤：发送就绪的通知、启动就绪的子流程、完成子执行已结束的父步骤
+  // 每处理一个步骤后重新读取状态，因为处理结果可能使后续步骤就绪，子执行完成时也会回到这里
+  private async dispatchAutomaticSteps(executionId: string): Promise<void> {
+    let remainingPasses: number | null = null;
+
+    while (remainingPasses === null || remainingPasses-- > 0) {
+      const execution = await prisma.execution.findUnique({
+        where: { id: executionId },
+        include: {
+          executionRecords: {
+            include: { step: true, childExecution: true }
+          }
+        }
+      });
+
+      if (!execution || execution.status !== ExecutionStatus.IN_PROGRESS) {
+        return;
+      }
+
+      const records = execution.executionRecords;
+      // 每个步骤最多处理两次（启动子流程、完成或标记失败子流程）
+      if (remainingPasses === null) {
+        remainingPasses = records.length * 2;
+      }
+
+      // 子执行已完成但父步骤仍在进行中（例如子执行在父执行暂停期间完成）
+      const finished = records.find(record =>
+        record.status === StepStatus.IN_PROGRESS &&
+        this.isSubworkflowStep(record) &&
+        record.childExecution?.status === ExecutionStatus.COMPLETED
+      );
+
+      // 子执行已被取消或失败，父步骤不会再自动完成
+      const aborted = records.find(record =>
+        record.status === StepStatus.IN_PROGRESS &&
+        this.isSubworkflowStep(record) &&
+        [ExecutionStatus.CANCELLED, ExecutionStatus.FAILED].includes(record.childExecution?.status as ExecutionStatus)
+      );
+
+      // 未配置的通知和子流程步骤仍由用户手动完成
+      const ready = getReadyRecords(this.toDependencyStates(records))
+        .map(state => records.find(record => record.id === state.recordId)!)
+        .find(record =>
+          (record.step.stepType === 'NOTIFICATION' && parseNotificationConfig(record.step.metadata)) ||
+          this.isSubworkflowStep(record)
+        );
+
+      if (finished) {
+        await this.finishSubworkflowStep(finished, execution.status);
+      } else if (aborted) {
+        await this.failSubworkflowStep(aborted, execution.status);
+      } else if (ready?.step.stepType === 'NOTIFICATION') {
+        await this.sendNotificationStep(execution, ready);
+      } else if (ready) {
+        await this.startSubworkflowStep(execution, ready);
+      } else {
+        return;
+      }
+
+      await this.applyStepConditions(executionId);
+    }
+  }
+
+  // 渲染并发送通知步骤的消息，投递结果写入 result.notification，任一渠道失败时步骤标记为失败
+  private async sendNotificationStep(
+    execution: { id: string; status: string; workflowId: string; title?: string | null; priority?: string; metadata: unknown },
+    record: any,
+    userId?: string
+  ): Promise<void> {
+    const config = parseNotificationConfig(record.step.metadata)!;
+    const { workflow, context } = await this.getTemplateContext(execution);
+
+    const body = renderTemplate(config.template, context);
+    const title = config.title
+      ? renderTemplate(config.title, context).text
+      : `${workflow.name || '投资流程'}：${record.step.name}`;
+
+    const deliveries = await alertingSystem.sendMessage(
+      { title, text: body.text, metadata: { executionId: execution.id, recordId: record.id } },
+      config.channels
+    );
+
+    const failed = deliveries.filter(delivery => delivery.status === 'FAILED');
+    const error = deliveries.length === 0
+      ? '没有可用的通知渠道'
+      : failed.length > 0
+        ? failed.map(delivery => `${delivery.channel}: ${delivery.error}`).join('；')
+        : undefined;
+
+    const savedResult = asObject(DatabaseUtils.parseJsonField(record.result, {}));
+    const now = new Date();
+
+    await this.transitionStep(record, error ? 'autoFail' : 'autoComplete', {
+      startedAt: record.startedAt || now,
+      completedAt: now,
+      notes: error ? `通知发送失败：${error}` : null,
+      result: JSON.stringify({
+        ...savedResult,
+        notification: {
+          title,
+          text: body.text,
+          missing: body.missing,
+          deliveries,
+          error
+        }
+      })
+    }, { executionStatus: execution.status, userId, reason: error });
+  }
+
+  // 启动子流程步骤引用的工作流，父执行的数据按 inputs 映射为子执行变量；启动失败时步骤标记为失败
+  private async startSubworkflowStep(
+    execution: { id: string; status: string; userId: string; workflowId: string; parentRecordId?: string | null; metadata: unknown },
+    record: any,
+    userId?: string
+  ): Promise<void> {
+    const config = parseSubworkflowConfig(record.step.metadata)!;
+    // 就绪的步骤首次启动，失败的步骤重新启动
+    const action: StepAction = record.status === StepStatus.FAILED ? 'retry' : 'start';
+    assertStepTransition(action, record.status, execution.status);
+    const savedResult = asObject(DatabaseUtils.parseJsonField(record.result, {}));
+    const now = new Date();
+
+    // 步骤被退回或重新启动时，之前的子执行保留但不再关联
+    await prisma.execution.updateMany({
+      where: { parentRecordId: record.id },
+      data: { parentRecordId: null }
+    });
+
+    let child: Execution;
+    let workflowName: string;
+    try {
+      const lineage = await this.getWorkflowLineage(execution);
+      if (lineage.includes(config.workflowId)) {
+        throw new Error('子流程不能引用当前流程或其上级流程');
+      }
+      if (lineage.length >= MAX_SUBWORKFLOW_DEPTH) {
+        throw new Error(`子流程嵌套不能超过 ${MAX_SUBWORKFLOW_DEPTH} 层`);
+      }
+
+      const { context } = await this.getTemplateContext(execution);
+      const inputs = config.inputs ? mapValues(config.inputs, context).values : {};
+      child = await this.startExecution(execution.userId, config.workflowId, {
+        parentRecordId: record.id,
+        variables: inputs
+      });
+      const workflow = await prisma.workflow.findUnique({
+        where: { id: config.workflowId },
+        select: { name: true }
+      });
+      workflowName = workflow?.name || '';
+    } catch (error: any) {
+      await this.transitionStep(record, 'autoFail', {
+        startedAt: record.startedAt || now,
+        completedAt: now,
+        notes: `子流程启动失败：${error.message}`,
+        result: JSON.stringify({
+          ...savedResult,
+          subworkflow: { workflowId: config.workflowId, error: error.message }
+        })
+      }, { executionStatus: execution.status, userId, reason: error.message });
+      return;
+    }
+
+    await this.transitionStep(record, action, {
+      startedAt: now,
+      ...this.getStepDeadline(record, now),
+      completedAt: null,
+      notes: null,
+      result: JSON.stringify({
+        ...savedResult,
+        subworkflow: {
+          workflowId: config.workflowId,
+          workflowName,
+          executionId: child.id,
+          startedAt: now
+        }
+      })
+    }, { executionStatus: execution.status, userId });
+
+    // 子流程的必需步骤可能全部自动完成（例如只有通知步骤）
+    await this.checkAndUpdateExecutionStatus(child.id);
+  }
+
+  // 子执行完成后按 outputs 映射将子执行的数据写入父步骤并完成父步骤
+  private async finishSubworkflowStep(record: any, executionStatus: string): Promise<void> {
+    const config = parseSubworkflowConfig(record.step.metadata)!;
+    const { context } = await this.getTemplateContext(record.childExecution);
+    const outputs = collectOutputs(config, context);
+    const savedResult = asObject(DatabaseUtils.parseJsonField(record.result, {}));
+    const savedData = asObject(DatabaseUtils.parseJsonField(record.data, {}));
+
+    await this.transitionStep(record, 'complete', {
+      completedAt: new Date(),
+      data: JSON.stringify({ ...savedData, ...outputs.values }),
+      result: JSON.stringify({
+        ...savedResult,
+        subworkflow: {
+          ...asObject(savedResult.subworkflow),
+          completedAt: record.childExecution.completedAt,
+          missing: outputs.missing
+        }
+      })
+    }, { executionStatus });
+  }
+
+  // 子执行被取消或失败时父步骤标记为失败，子执行的状态和原因写入 result.subworkflow，之后可以重新启动子流程
+  private async failSubworkflowStep(record: any, executionStatus: string): Promise<void> {
+    const child = record.childExecution;
+    const cancelEvent = child.status === ExecutionStatus.CANCELLED
+      ? await prisma.executionEvent.findFirst({
+        where: { executionId: child.id, recordId: null, action: 'cancel' },
+        orderBy: { createdAt: 'desc' },
+        select: { reason: true }
+      })
+      : null;
+    const reason = cancelEvent?.reason || child.error || null;
+    const message = `${child.status === ExecutionStatus.CANCELLED ? '子流程已取消' : '子流程执行失败'}${reason ? `：${reason}` : ''}`;
+    const savedResult = asObject(DatabaseUtils.parseJsonField(record.result, {}));
+
+    await this.transitionStep(record, 'autoFail', {
+      completedAt: new Date(),
+      notes: message,
+      result: JSON.stringify({
+        ...savedResult,
+        subworkflow: {
+          ...asObject(savedResult.subworkflow),
+          status: child.status,
+          reason,
+          error: message
+        }
+      })
+    }, { executionStatus, reason: message });
+  }
+
+  // 启动执行前加载工作流、固定的版本以及版本中的参数定义和标题模板
+  private async getLaunchContext(userId: string, workflowId: string) {
+    // 验证工作流是否属于用户且处于活跃状态
+    const workflow = await prisma.workflow.findFirst({
       where: {
-        id: executionId,
-        userId
+        id: workflowId,
+        userId,
+        isActive: true
+      },
+      include: {
+        steps: {
+          orderBy: { order: 'asc' }
+        }
       }
     });
 
-    if (!execution) {
-      throw new Error('执行记录不存在或无权限访问');
+    if (!workflow) {
+      throw new Error('工作流不存在或已禁用');
     }
 
-    // 更新步骤复盘
-    const executionRecord = await prisma.executionRecord.findFirst({
-      where: {
-        executionId,
-        stepId
+    if (!workflow.steps || workflow.steps.length === 0) {
+      throw new Error('工作流没有定义步骤');
+    }
+
+    // 执行固定在最新发布的版本上，之后对草稿的修改不影响本次执行
+    const workflowVersion = await WorkflowVersionModel.findLatestForExecution(workflowId);
+
+    // 参数定义和标题模板以版本发布时的为准
+    const snapshot = DatabaseUtils.parseJsonField(workflowVersion.snapshot, {}) as Record<string, any>;
+
+    return {
+      workflowId,
+      workflowVersion,
+      parameterDefinitions: parseParameterDefinitions(snapshot?.metadata),
+      titleTemplate: parseTitleTemplate(snapshot?.metadata)
+    };
+  }
+
+  // 创建执行、参数索引和每个步骤的执行记录，批量启动时在事务中调用
+  private async createExecutionFromLaunch(
+    userId: string,
+    launch: Awaited<ReturnType<ExecutionService['getLaunchContext']>>,
+    variables: Record<string, any> | undefined,
+    options: {
+      parentRecordId?: string;
+      batchId?: string;
+      dueDate?: Date;
+      priority?: string;
+      tags?: string[];
+    },
+    client: Prisma.TransactionClient = prisma
+  ) {
+    const { workflowVersion, parameterDefinitions } = launch;
+
+    // 创建执行记录
+    const execution = await client.execution.create({
+      data: {
+        userId,
+        workflowId: launch.workflowId,
+        workflowVersionId: workflowVersion.id,
+        parentRecordId: options.parentRecordId,
+        batchId: options.batchId,
+        title: buildExecutionTitle(workflowVersion.name, parameterDefinitions, variables || {}, launch.titleTemplate),
+        metadata: variables ? JSON.stringify({ variables }) : undefined,
+        dueDate: options.dueDate,
+        priority: options.priority,
+        tags: options.tags ? JSON.stringify(options.tags) : undefined,
+        status: ExecutionStatus.IN_PROGRESS
       }
     });
 
-    if (!executionRecord) {
-      throw new Error('步骤记录不存在');
+    const parameterRows = toParameterRows(parameterDefinitions, variables || {});
+    if (parameterRows.length > 0) {
+      await client.executionParameter.createMany({
+        data: parameterRows.map(row => ({ executionId: execution.id, ...row }))
+      });
     }
 
-    const updatedRecord = await prisma.executionRecord.update({
-      where: { id: executionRecord.id },
-      data: { reviewNotes },
-      include: {
-        step: true,
-        attachments: true
+    // 为版本中的每个步骤创建执行记录
+    for (const step of workflowVersion.steps) {
+      await client.executionRecord.create({
+        data: {
+          executionId: execution.id,
+          stepId: step.id,
+          status: StepStatus.PENDING
+        }
+      });
+    }
+
+    await this.eventService.record({
+      executionId: execution.id,
+      actorId: userId,
+      type: 'EXECUTION_STARTED',
+      after: {
+        status: execution.status,
+        title: execution.title,
+        workflowVersion: workflowVersion.version,
+        variables: variables || {},
+        batchId: options.batchId,
+        parentRecordId: options.parentRecordId
       }
+    }, client);
+
+    return execution;
+  }
+
+  // 当前执行及其上级执行引用的工作流，用于防止循环引用和限制嵌套层数
+  private async getWorkflowLineage(execution: { workflowId: string; parentRecordId?: string | null }): Promise<string[]> {
+    const workflowIds = [execution.workflowId];
+    let parentRecordId = execution.parentRecordId;
+
+    while (parentRecordId && workflowIds.length <= MAX_SUBWORKFLOW_DEPTH) {
+      const parent = await prisma.executionRecord.findUnique({
+        where: { id: parentRecordId },
+        select: { execution: { select: { workflowId: true, parentRecordId: true } } }
+      });
+      if (!parent) break;
+
+      workflowIds.push(parent.execution.workflowId);
+      parentRecordId = parent.execution.parentRecordId;
+    }
+
+    return workflowIds;
+  }
+
+  // 通知模板和子流程数据映射使用的数据：工作流、执行信息、执行变量和已完成步骤的数据
+  private async getTemplateContext(
+    execution: { id: string; workflowId: string; title?: string | null; priority?: string; metadata: unknown }
+  ) {
+    const found = await prisma.workflow.findUnique({
+      where: { id: execution.workflowId },
+      select: { id: true, name: true }
+    });
+    const workflow = found || { id: execution.workflowId, name: '' };
+    const { steps, variables } = await this.getCalculationContext(execution);
+    const context = buildTemplateContext({
+      workflow,
+      execution: { id: execution.id, title: execution.title, priority: execution.priority },
+      variables: variables || {},
+      steps: steps || {}
     });
 
-    return updatedRecord;
+    return { workflow, context };
   }
 
-  // 获取执行统计
-  async getExecutionStats(userId: string) {
-    const totalExecutions = await prisma.execution.count({
-      where: { userId }
+  // 公式可引用的数据：已完成步骤的数据（按顺序号）和执行变量
+  private async getCalculationContext(
+    execution: { id: string; metadata: unknown },
+    data?: Record<string, any>
+  ): Promise<CalculationContext> {
+    const records = await prisma.executionRecord.findMany({
+      where: {
+        executionId: execution.id,
+        status: StepStatus.COMPLETED
+      },
+      include: { step: true }
     });
 
-    const statusStats = await prisma.execution.groupBy({
-      by: ['status'],
-      where: { userId },
-      _count: {
-        status: true
+    const steps: Record<string, Record<string, any>> = {};
+    for (const completed of records) {
+      const result = DatabaseUtils.parseJsonField(completed.result, {}) as Record<string, any>;
+      steps[String(completed.step.order)] = {
+        ...(DatabaseUtils.parseJsonField(completed.data, {}) as Record<string, any>),
+        calculations: result?.calculations,
+        valuation: result?.valuation?.output?.summary
+      };
+    }
+
+    const metadata = DatabaseUtils.parseJsonField(execution.metadata, {}) as Record<string, any>;
+
+    return {
+      data: data || {},
+      steps,
+      variables: metadata?.variables || {}
+    };
+  }
+
+  private toConditionStates(records: any[]): ConditionStepState[] {
+    return records.map(record => ({
+      stepId: record.stepId,
+      order: record.step.order,
+      status: record.status,
+      data: DatabaseUtils.parseJsonField(record.data),
+      result: DatabaseUtils.parseJsonField(record.result)
+    }));
+  }
+
+  // 按执行中各步骤的当前数据评估决策标准
+  private async evaluateDecisionCriteria(executionId: string, criteria: DecisionCriterion[]): Promise<CriterionResult[]> {
+    if (criteria.length === 0) {
+      return [];
+    }
+
+    const records = await prisma.executionRecord.findMany({
+      where: { executionId },
+      include: { step: true }
+    });
+
+    return evaluateCriteria(criteria, this.toConditionStates(records));
+  }
+
+  // 运行房地产投资测算，输入和输出一起保存到执行记录
+  private buildPropertyModel(input: unknown) {
+    const { input: normalized, output } = runPropertyModel(input);
+    return {
+      input: normalized,
+      output,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  // 按步骤启用的估值方法运行模型，输入和输出一起保存到执行记录
+  private buildValuation(input: unknown, config: ValuationConfig) {
+    const { input: normalized, output } = runValuation(input, config.methods);
+    return {
+      input: normalized,
+      output,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  // 将执行退回到指定顺序号的步骤：目标步骤重新进入进行中，其后直到当前步骤都恢复为待处理
+  // 目标不存在或不在当前步骤之前时，只将当前步骤恢复为待处理
+  private async rollbackToStep(
+    executionId: string,
+    fromRecord: { id: string; step: { order: number } },
+    targetOrder: number | undefined,
+    reason: string,
+    userId?: string
+  ): Promise<void> {
+    const records = await prisma.executionRecord.findMany({
+      where: { executionId },
+      include: { step: true }
+    });
+
+    const fromOrder = fromRecord.step.order;
+    const target = targetOrder !== undefined && targetOrder < fromOrder
+      ? records.find(item => item.step.order === targetOrder)
+      : undefined;
+    const startOrder = target ? target.step.order : fromOrder;
+
+    for (const item of records) {
+      if (item.step.order < startOrder || item.step.order > fromOrder) continue;
+      // 分支条件跳过的步骤由条件重新评估决定
+      if (isConditionSkipped(item.status, item.result)) continue;
+
+      const isTarget = item.id === target?.id;
+      const startedAt = isTarget ? new Date() : null;
+      const data = {
+        startedAt,
+        ...this.getStepDeadline(item, startedAt),
+        completedAt: null,
+        actualTime: null,
+        notes: isTarget || item.id === fromRecord.id ? reason : item.notes
+      };
+
+      // 已处于目标状态的步骤只重置时间和备注
+      if (item.status === (isTarget ? StepStatus.IN_PROGRESS : StepStatus.PENDING)) {
+        await prisma.executionRecord.update({ where: { id: item.id }, data });
+        const changes = diffFields({ notes: item.notes }, { notes: data.notes });
+        if (changes) {
+          await this.eventService.record({
+            executionId,
+            recordId: item.id,
+            actorId: userId,
+            type: 'STEP_UPDATED',
+            ...changes,
+            reason
+          });
+        }
+      } else {
+        await this.transitionStep(item, isTarget ? 'rewind' : 'reset', data, {
+          executionStatus: ExecutionStatus.IN_PROGRESS,
+          userId,
+          reason
+        });
+      }
+    }
+
+    await this.applyStepConditions(executionId);
+  }
+
+  // 超时升级通知：第1级通知执行发起人，第2级通知配置的管理角色
+  private async sendEscalation(record: any, config: SlaConfig, level: number, now: Date): Promise<void> {
+    const { execution } = record;
+    const recipients = level === ESCALATION_OWNER
+      ? [execution.user]
+      : await prisma.user.findMany({
+        where: { role: config.managerRole, isActive: true },
+        select: { id: true, name: true, email: true }
+      });
+
+    const overdue = formatMinutes(getOverdueMinutes(record.dueAt, now));
+    const title = level === ESCALATION_OWNER
+      ? `步骤已超时：${execution.title || execution.workflow.name}`
+      : `步骤超时升级：${execution.title || execution.workflow.name}`;
+    const text = [
+      `步骤「${record.step.name}」已超过时限 ${overdue}（时限 ${formatMinutes(config.minutes)}，截止 ${record.dueAt.toLocaleString('zh-CN')}）`,
+      level === ESCALATION_OWNER ? '请尽快处理' : `执行发起人 ${execution.user.name || execution.user.email} 收到提醒后仍未完成`
+    ].join('，');
+
+    await alertingSystem.sendMessage({
+      title,
+      text,
+      metadata: {
+        executionId: execution.id,
+        recordId: record.id,
+        escalationLevel: level,
+        recipients: recipients.map((user: { email: string }) => user.email)
       }
     });
+  }
 
-    const completedExecutions = await prisma.execution.count({
+  // 步骤开始（或重新开始）时按时限计算截止时间并清除之前的超时状态；未开始的步骤不计时
+  private getStepDeadline(record: any, startedAt: Date | null) {
+    const config = startedAt ? parseSlaConfig(record.step?.metadata, record.step?.estimatedTime) : null;
+    return {
+      dueAt: config ? computeDueAt(startedAt!, config) : null,
+      overdueAt: null,
+      escalationLevel: ESCALATION_NONE
+    };
+  }
+
+  private isSubworkflowStep(record: any): boolean {
+    return record.step?.stepType === 'SUBWORKFLOW' && parseSubworkflowConfig(record.step.metadata) !== null;
+  }
+
+  private requiresApproval(record: any): boolean {
+    return record.step?.stepType === 'APPROVAL' && parseApprovalConfig(record.step.metadata) !== null;
+  }
+
+  private getApprovalRound(record: { result: unknown }): number {
+    const result = DatabaseUtils.parseJsonField(record.result, {}) as Record<string, any>;
+    return result?.approval?.round || 1;
+  }
+
+  // 获取配置了审批人的审批步骤，不校验执行归属（审批人不是执行发起人）
+  private async getApprovalRecord(executionId: string, recordId: string) {
+    const record = await prisma.executionRecord.findFirst({
       where: {
-        userId,
-        status: ExecutionStatus.COMPLETED
+        id: recordId,
+        executionId
+      },
+      include: {
+        step: true,
+        execution: true
       }
     });
 
-    const avgCompletionTime = await prisma.execution.aggregate({
+    if (!record) {
+      throw new Error('步骤记录不存在');
+    }
+
+    const config = record.step?.stepType === 'APPROVAL' ? parseApprovalConfig(record.step.metadata) : null;
+    if (!config) {
+      throw new Error('该步骤不是审批步骤或未配置审批人');
+    }
+
+    return { execution: record.execution, record, config };
+  }
+
+  // 查询符合审批配置的启用用户
+  private async getEligibleApprovers(config: ApprovalConfig, ownerId: string) {
+    const users = config.approvers.users || [];
+    const candidates = await prisma.user.findMany({
       where: {
-        userId,
-        status: ExecutionStatus.COMPLETED,
-        completedAt: { not: null }
+        isActive: true,
+        OR: [
+          { id: { in: users } },
+          { email: { in: users } },
+          ...(config.approvers.role ? [{ role: config.approvers.role }] : [])
+        ]
       },
-      _avg: {
-        // 这里需要计算平均完成时间，但Prisma不直接支持时间差计算
-        // 可以在应用层处理或使用原生SQL
-      }
+      select: { id: true, name: true, email: true, role: true }
     });
 
-    return {
-      totalExecutions,
-      completedExecutions,
-      statusBreakdown: statusStats.reduce((acc, stat) => {
-        acc[stat.status] = stat._count.status;
-        return acc;
-      }, {} as Record<string, number>),
-      completionRate: totalExecutions > 0 ? (completedExecutions / totalExecutions) * 100 : 0
+    return resolveApprovers(config, candidates, ownerId);
+  }
+
+  // 获取执行中各步骤的依赖状态
+  private async getDependencyStates(executionId: string): Promise<DependencyRecordState[]> {
+    const records = await prisma.executionRecord.findMany({
+      where: { executionId },
+      include: { step: true }
+    });
+
+    return this.toDependencyStates(records);
+  }
+
+  // 按状态转换表修改执行状态，以检查时的状态作为更新条件，避免并发请求覆盖；写入后发出转换事件
+  // 在事务中调用时传入 events，由调用方在事务提交后发出
+  private async transitionExecution(
+    execution: { id: string; status: string },
+    action: ExecutionAction,
+    data: Record<string, any> = {},
+    options: { userId?: string; reason?: string; client?: Prisma.TransactionClient; events?: TransitionEvent[] } = {}
+  ): Promise<Execution> {
+    const to = assertExecutionTransition(action, execution.status);
+    const client = options.client || prisma;
+
+    const { count } = await client.execution.updateMany({
+      where: { id: execution.id, status: execution.status },
+      data: { ...data, status: to }
+    });
+
+    if (count === 0) {
+      const current = await client.execution.findUnique({ where: { id: execution.id }, select: { status: true } });
+      assertExecutionTransition(action, current?.status || execution.status);
+      throw new Error('执行状态已变化，请刷新后重试');
+    }
+
+    const event = {
+      entity: 'execution' as const,
+      action,
+      executionId: execution.id,
+      from: execution.status,
+      to,
+      userId: options.userId,
+      reason: options.reason,
+      at: new Date()
     };
+    await this.eventService.record(fromTransition(event), client);
+    if (options.events) {
+      options.events.push(event);
+    } else {
+      emitTransition(event);
+    }
+
+    return client.execution.findUniqueOrThrow({ where: { id: execution.id } });
   }
 
-  // 检查并更新执行状态
-  private async checkAndUpdateExecutionStatus(executionId: string): Promise<void> {
-    const execution = await prisma.execution.findUnique({
-      where: { id: executionId },
+  // 按状态转换表修改步骤状态，executionStatus 为所在执行的当前状态，其余同 transitionExecution
+  private async transitionStep(
+    record: { id: string; executionId: string; status: string; notes?: string | null; data?: unknown },
+    action: StepAction,
+    data: Record<string, any> = {},
+    options: {
+      executionStatus?: string;
+      userId?: string;
+      reason?: string;
+      client?: Prisma.TransactionClient;
+      events?: TransitionEvent[];
+    } = {}
+  ): Promise<void> {
+    const to = assertStepTransition(action, record.status, options.executionStatus);
+    const client = options.client || prisma;
+
+    const { count } = await client.executionRecord.updateMany({
+      where: { id: record.id, status: record.status },
+      data: { ...data, status: to }
+    });
+
+    if (count === 0) {
+      const current = await client.executionRecord.findUnique({ where: { id: record.id }, select: { status: true } });
+      assertStepTransition(action, current?.status || record.status, options.executionStatus);
+      throw new Error('步骤状态已变化，请刷新后重试');
+    }
+
+    const event = {
+      entity: 'step' as const,
+      action,
+      executionId: record.executionId,
+      recordId: record.id,
+      from: record.status,
+      to,
+      userId: options.userId,
+      reason: options.reason,
+      at: new Date()
+    };
+    // 事件日志同时记录随状态一起修改的笔记和步骤数据
+    const changes = diffFields(
+      { notes: record.notes, data: DatabaseUtils.parseJsonField(record.data) },
+      { notes: data.notes, data: data.data !== undefined ? DatabaseUtils.parseJsonField(data.data) : undefined }
+    );
+    await this.eventService.record(fromTransition(event, changes), client);
+    if (options.events) {
+      options.events.push(event);
+    } else {
+      emitTransition(event);
+    }
+  }
+
+  // 保存步骤记录当前的状态和结果为新的历史版本
+  private async saveRevision(
+    tx: Prisma.TransactionClient,
+    record: any,
+    userId: string,
+    reason: string,
+    cascadeFromId?: string
+  ): Promise<void> {
+    const latest = await tx.stepRevision.findFirst({
+      where: { recordId: record.id },
+      orderBy: { revision: 'desc' },
+      select: { revision: true }
+    });
+
+    await tx.stepRevision.create({
+      data: {
+        recordId: record.id,
+        revision: (latest?.revision || 0) + 1,
+        status: record.status,
+        notes: record.notes,
+        data: record.data,
+        result: record.result,
+        startedAt: record.startedAt,
+        completedAt: record.completedAt,
+        actualTime: record.actualTime,
+        reason,
+        reopenedBy: userId,
+        cascadeFromId
+      }
+    });
+  }
+
+  private toDependencyStates(records: any[]): DependencyRecordState[] {
+    return records.map(record => ({
+      recordId: record.id,
+      stepId: record.stepId,
+      name: record.step.name,
+      order: record.step.order,
+      status: record.status,
+      dependencies: record.step.dependencies
+    }));
+  }
+
+  // 检查项配置与勾选情况合并，附带步骤内进度和按完成规则还需勾选的项目
+  private async buildChecklist(record: any) {
+    const config = record.step?.stepType === 'CHECKLIST' ? parseChecklistConfig(record.step.metadata) : null;
+    if (!config) {
+      throw new Error('该步骤没有检查清单');
+    }
+
+    const states = await prisma.checklistItemState.findMany({
+      where: { recordId: record.id },
       include: {
-        executionRecords: {
-          include: {
-            step: true
-          }
-        }
+        attachment: { select: { id: true, originalName: true, fileType: true, fileSize: true } },
+        checker: { select: { id: true, name: true } }
       }
     });
+    const stateByKey = new Map(states.map(state => [state.itemKey, state]));
 
-    if (!execution || execution.status === ExecutionStatus.COMPLETED) {
-      return;
+    return {
+      rule: config.rule,
+      items: config.items.map(item => {
+        const state = stateByKey.get(item.key);
+        return {
+          ...item,
+          checked: state?.checked || false,
+          note: state?.note || null,
+          attachment: state?.attachment || null,
+          checkedAt: state?.checkedAt || null,
+          checkedBy: state?.checker || null
+        };
+      }),
+      progress: getChecklistProgress(config, states)
+    };
+  }
+
+  // 获取步骤记录并校验访问权限：查看只需是发起人或参与者，处理步骤还需是协作者且步骤未分配给其他成员
+  private async getAccessibleRecord(
+    executionId: string,
+    recordId: string,
+    userId: string,
+    access: 'view' | 'contribute' = 'contribute'
+  ) {
+    const { execution, role } = await this.participantService.getAccess(executionId, userId, access);
+
+    const record = await prisma.executionRecord.findFirst({
+      where: {
+        id: recordId,
+        executionId
+      },
+      include: { step: true }
+    });
+
+    if (!record) {
+      throw new Error('步骤记录不存在');
     }
 
-    const records = execution.executionRecords;
-    const requiredSteps = records.filter(r => r.step.isRequired);
-    const completedRequiredSteps = requiredSteps.filter(r => r.status === StepStatus.COMPLETED);
+    if (access === 'contribute') {
+      this.assertCanWorkOnStep(role, userId, record);
+    }
 
-    // 如果所有必需步骤都完成了，自动完成执行
-    if (requiredSteps.length > 0 && completedRequiredSteps.length === requiredSteps.length) {
-      await prisma.execution.update({
-        where: { id: executionId },
-        data: { 
-          status: ExecutionStatus.COMPLETED,
-          completedAt: new Date()
-        }
-      });
+    return { execution, record };
+  }
+
+  // 已分配给其他成员的步骤只有被分配人和发起人可以处理
+  private assertCanWorkOnStep(role: ExecutionRole, userId: string, record: { assigneeId?: string | null }): void {
+    if (!canWorkOnStep(role, userId, record.assigneeId)) {
+      throw new Error('步骤已分配给其他成员，无权限处理');
+    }
+  }
+
+  // 获取步骤记录
+  private async getRecordById(recordId: string): Promise<ExecutionRecord> {
+    const record = await prisma.executionRecord.findUnique({
+      where: { id: recordId },
+      include: { step: true }
+    });
+
+    if (!record) {
+      throw new Error('步骤记录不存在');
     }
+
+    return this.formatRecord(record);
+  }
+
+  // 将JSON字符串字段解析为对象
+  private formatRecord(record: any): ExecutionRecord {
+    return {
+      ...record,
+      data: DatabaseUtils.parseJsonField(record.data) ?? undefined,
+      result: DatabaseUtils.parseJsonField(record.result) ?? undefined
+    };
   }
 
-  // 删除执行记录
+  // 删除执行记录，只有发起人可以操作
   async deleteExecution(executionId: string, userId: string): Promise<void> {
+    await this.participantService.getAccess(executionId, userId, 'manage');
     const execution = await this.getExecutionById(executionId, userId);
     
     if (!execution) {
@@ -0,0 +1,143 @@
+import prisma from '../config/database';
+import { DatabaseUtils } from '../utils/database';
+import { executionStream, StreamViewer } from '../utils/executionStream';
+import { logger } from '../utils/logger';
+import { accessibleExecutionWhere } from '../utils/participants';
+
+// 同一执行在该时间内的多次修改合并为一次推送，并等待进度等随后的更新写入
+const PUBLISH_DELAY_MS = 200;
+
+interface PendingChanges {
+  recordIds: Set<string>;
+  eventTypes: Set<string>;
+  actorId?: string | null;
+  timer?: NodeJS.Timeout;
+}
+
+// 各执行尚未推送的修改，所有实例共用
+const pendingChanges = new Map<string, PendingChanges>();
+
+const userSelect = { id: true, name: true, email: true };
+
+export class ExecutionStreamService {
+  // 校验用户可以查看执行，返回在线成员中显示的用户信息
+  async getViewer(executionId: string, userId: string): Promise<StreamViewer> {
+    const [execution, user] = await Promise.all([
+      prisma.execution.findFirst({
+        where: {
+          id: executionId,
+          ...accessibleExecutionWhere(userId)
+        },
+        select: { id: true }
+      }),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, name: true }
+      })
+    ]);
+
+    if (!execution || !user) {
+      throw new Error('执行记录不存在或无权限访问');
+    }
+
+    return user;
+  }
+
+  // 记录执行或步骤的修改，延迟合并后推送最新的执行和步骤状态；执行没有订阅者时忽略
+  notifyChange(change: { executionId: string; recordId?: string | null; actorId?: string | null; type: string }): void {
+    if (!executionStream.hasSubscribers(change.executionId)) {
+      return;
+    }
+
+    const pending = pendingChanges.get(change.executionId) || { recordIds: new Set<string>(), eventTypes: new Set<string>() };
+    if (change.recordId) {
+      pending.recordIds.add(change.recordId);
+    }
+    pending.eventTypes.add(change.type);
+    pending.actorId = change.actorId;
+
+    clearTimeout(pending.timer);
+    pending.timer = setTimeout(() => {
+      pendingChanges.delete(change.executionId);
+      this.publishChanges(change.executionId, pending).catch(error => {
+        logger.error('Execution stream publish failed', { executionId: change.executionId, error: error.message });
+      });
+    }, PUBLISH_DELAY_MS);
+    // 推送不阻止进程退出
+    pending.timer.unref();
+
+    pendingChanges.set(change.executionId, pending);
+  }
+
+  // 推送附件的上传或删除，附件列表由前端按步骤重新加载
+  async notifyAttachmentChange(
+    executionRecordId: string,
+    actorId: string,
+    action: 'created' | 'deleted',
+    attachmentId?: string
+  ): Promise<void> {
+    const record = await prisma.executionRecord.findUnique({
+      where: { id: executionRecordId },
+      select: { executionId: true }
+    });
+
+    if (!record) {
+      return;
+    }
+
+    executionStream.publish({
+      type: 'attachment',
+      executionId: record.executionId,
+      recordId: executionRecordId,
+      actorId,
+      data: { action, attachmentId }
+    });
+  }
+
+  private async publishChanges(executionId: string, pending: PendingChanges): Promise<void> {
+    const [execution, records] = await Promise.all([
+      prisma.execution.findUnique({
+        where: { id: executionId },
+        select: {
+          id: true,
+          status: true,
+          progress: true,
+          dueDate: true,
+          completedAt: true,
+          updatedAt: true
+        }
+      }),
+      prisma.executionRecord.findMany({
+        where: { id: { in: [...pending.recordIds] }, executionId },
+        include: { assignee: { select: userSelect } }
+      })
+    ]);
+
+    if (!execution) {
+      return;
+    }
+
+    for (const record of records) {
+      executionStream.publish({
+        type: 'step',
+        executionId,
+        recordId: record.id,
+        actorId: pending.actorId,
+        data: {
+          record: {
+            ...record,
+            data: DatabaseUtils.parseJsonField(record.data) ?? undefined,
+            result: DatabaseUtils.parseJsonField(record.result) ?? undefined
+          }
+        }
+      });
+    }
+
+    executionStream.publish({
+      type: 'execution',
+      executionId,
+      actorId: pending.actorId,
+      data: { execution, events: [...pending.eventTypes] }
+    });
+  }
+}
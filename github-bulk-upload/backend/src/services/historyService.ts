@@ -1,4 +1,7 @@
 import prisma from '../config/database';
+import { ChecklistStepStats, summarizeChecklistStats } from '../utils/checklists';
+import { buildCommentThreads, ExportedComment, formatCommentsText } from '../utils/comments';
+import { accessibleExecutionWhere } from '../utils/participants';
 
 export interface HistorySearchFilters {
   workflowId?: string;
@@ -7,6 +10,10 @@ export interface HistorySearchFilters {
   endDate?: Date;
   hasReview?: boolean;
   searchTerm?: string;
+  // 执行参数筛选，如 { ticker: '00700.HK' }，多个参数需同时满足
+  parameters?: Record<string, string>;
+  // 只看某个执行批次
+  batchId?: string;
 }
 
 export interface PaginationOptions {
@@ -31,10 +38,13 @@ export interface HistoryStats {
     count: number;
   }>;
   statusDistribution: Record<string, number>;
+  // 超过截止日期仍未结束的执行、超过时限仍在进行中的步骤
+  overdueExecutions: number;
+  overdueSteps: number;
 }
 
 export class HistoryService {
-  // 分页查询历史记录
+  // 分页查询历史记录，包括用户发起和参与的执行
   async getExecutionHistory(
     userId: string,
     filters: HistorySearchFilters,
@@ -45,7 +55,7 @@ export class HistoryService {
 
     // 构建查询条件
     const where: any = {
-      userId
+      AND: [accessibleExecutionWhere(userId)]
     };
 
     if (filters.workflowId) {
@@ -74,8 +84,19 @@ export class HistoryService {
       }
     }
 
+    if (filters.batchId) {
+      where.batchId = filters.batchId;
+    }
+
+    if (filters.parameters && Object.keys(filters.parameters).length > 0) {
+      where.AND.push(...Object.entries(filters.parameters).map(([key, value]) => ({
+        parameters: { some: { key, value } }
+      })));
+    }
+
     if (filters.searchTerm) {
       where.OR = [
+        { title: { contains: filters.searchTerm, mode: 'insensitive' } },
         { workflow: { name: { contains: filters.searchTerm, mode: 'insensitive' } } },
         { workflow: { description: { contains: filters.searchTerm, mode: 'insensitive' } } },
         { reviewNotes: { contains: filters.searchTerm, mode: 'insensitive' } },
@@ -114,6 +135,12 @@ export class HistoryService {
               }
             }
           },
+          parameters: {
+            select: { key: true, value: true }
+          },
+          batch: {
+            select: { id: true, name: true }
+          },
           _count: {
             select: {
               executionRecords: true
@@ -169,7 +196,7 @@ export class HistoryService {
     const { page, limit, sortBy = 'startedAt', sortOrder = 'desc' } = pagination;
     const skip = (page - 1) * limit;
 
-    const where: any = { userId };
+    const where: any = { AND: [accessibleExecutionWhere(userId)] };
 
     // 文本搜索
     if (searchOptions.query) {
@@ -267,17 +294,20 @@ export class HistoryService {
 
   // 获取历史统计信息
   async getHistoryStats(userId: string): Promise<HistoryStats> {
+    // 执行统计包括用户参与的执行，与历史列表一致；工作流数只统计自己的工作流
+    const accessible = accessibleExecutionWhere(userId);
+
     // 基础统计
     const [totalExecutions, completedExecutions, workflows] = await Promise.all([
-      prisma.execution.count({ where: { userId } }),
-      prisma.execution.count({ where: { userId, status: 'COMPLETED' } }),
+      prisma.execution.count({ where: accessible }),
+      prisma.execution.count({ where: { ...accessible, status: 'COMPLETED' } }),
       prisma.workflow.count({ where: { userId } })
     ]);
 
     // 平均执行时间
     const completedExecutionsWithTime = await prisma.execution.findMany({
       where: {
-        userId,
+        ...accessible,
         status: 'COMPLETED',
         completedAt: { not: null }
       },
@@ -301,7 +331,7 @@ export class HistoryService {
     // 最常用的工作流
     const workflowUsage = await prisma.execution.groupBy({
       by: ['workflowId'],
-      where: { userId },
+      where: accessible,
       _count: { workflowId: true },
       orderBy: { _count: { workflowId: 'desc' } },
       take: 1
@@ -327,7 +357,7 @@ export class HistoryService {
 
     const recentExecutions = await prisma.execution.findMany({
       where: {
-        userId,
+        ...accessible,
         startedAt: { gte: thirtyDaysAgo }
       },
       select: { startedAt: true }
@@ -347,7 +377,7 @@ export class HistoryService {
     // 状态分布
     const statusDistribution = await prisma.execution.groupBy({
       by: ['status'],
-      where: { userId },
+      where: accessible,
       _count: { status: true }
     });
 
@@ -356,6 +386,25 @@ export class HistoryService {
       statusDistributionMap[item.status] = item._count.status;
     });
 
+    // 逾期统计
+    const now = new Date();
+    const [overdueExecutions, overdueSteps] = await Promise.all([
+      prisma.execution.count({
+        where: {
+          ...accessible,
+          dueDate: { lt: now },
+          status: { in: ['IN_PROGRESS', 'PAUSED'] }
+        }
+      }),
+      prisma.executionRecord.count({
+        where: {
+          status: 'IN_PROGRESS',
+          dueAt: { lt: now },
+          execution: { ...accessible, status: 'IN_PROGRESS' }
+        }
+      })
+    ]);
+
     return {
       totalExecutions,
       completedExecutions,
@@ -363,16 +412,52 @@ export class HistoryService {
       totalWorkflows: workflows,
       mostUsedWorkflow,
       recentActivity,
-      statusDistribution: statusDistributionMap
+      statusDistribution: statusDistributionMap,
+      overdueExecutions,
+      overdueSteps
     };
   }
 
-  // 获取执行详情
+  // 检查清单各检查项在多次执行中的完成率，可按工作流和时间范围筛选
+  async getChecklistStats(
+    userId: string,
+    filters: { workflowId?: string; startDate?: Date; endDate?: Date } = {}
+  ): Promise<ChecklistStepStats[]> {
+    const execution: any = { ...accessibleExecutionWhere(userId) };
+    if (filters.workflowId) execution.workflowId = filters.workflowId;
+    if (filters.startDate || filters.endDate) {
+      execution.startedAt = {};
+      if (filters.startDate) execution.startedAt.gte = filters.startDate;
+      if (filters.endDate) execution.startedAt.lte = filters.endDate;
+    }
+
+    const records = await prisma.executionRecord.findMany({
+      where: {
+        execution,
+        step: { stepType: 'CHECKLIST' }
+      },
+      select: {
+        step: { select: { name: true, metadata: true } },
+        execution: { select: { workflow: { select: { id: true, name: true } } } },
+        checklistItems: {
+          select: { itemKey: true, checked: true, note: true, attachmentId: true }
+        }
+      }
+    });
+
+    return summarizeChecklistStats(records.map(record => ({
+      workflow: record.execution.workflow,
+      step: record.step,
+      states: record.checklistItems
+    })));
+  }
+
+  // 获取执行详情，发起人和参与者均可查看
   async getExecutionDetail(userId: string, executionId: string) {
     const execution = await prisma.execution.findFirst({
       where: {
         id: executionId,
-        userId
+        ...accessibleExecutionWhere(userId)
       },
       include: {
         workflow: {
@@ -415,9 +500,10 @@ export class HistoryService {
       includeSteps?: boolean;
       includeReviews?: boolean;
       includeAttachments?: boolean;
+      includeComments?: boolean;
     }
   ) {
-    const where: any = { userId };
+    const where: any = { AND: [accessibleExecutionWhere(userId)] };
 
     // 应用筛选条件
     if (filters?.workflowId) {
@@ -438,8 +524,17 @@ export class HistoryService {
         where.reviewNotes = null;
       }
     }
+    if (filters?.batchId) {
+      where.batchId = filters.batchId;
+    }
+    if (filters?.parameters && Object.keys(filters.parameters).length > 0) {
+      where.AND.push(...Object.entries(filters.parameters).map(([key, value]) => ({
+        parameters: { some: { key, value } }
+      })));
+    }
     if (filters?.searchTerm) {
       where.OR = [
+        { title: { contains: filters.searchTerm, mode: 'insensitive' } },
         { workflow: { name: { contains: filters.searchTerm, mode: 'insensitive' } } },
         { workflow: { description: { contains: filters.searchTerm, mode: 'insensitive' } } },
         { reviewNotes: { contains: filters.searchTerm, mode: 'insensitive' } }
@@ -468,6 +563,13 @@ export class HistoryService {
               }
             }
           }
+        } : false,
+        comments: options?.includeComments ? {
+          include: {
+            author: { select: { name: true, email: true } },
+            record: { select: { step: { select: { name: true } } } }
+          },
+          orderBy: { createdAt: 'asc' }
         } : false
       },
       orderBy: { startedAt: 'desc' }
@@ -491,7 +593,8 @@ export class HistoryService {
           ? (execution.executionRecords.filter(r => r.status === 'COMPLETED').length / execution.executionRecords.length) * 100
           : 0,
         reviewNotes: options?.includeReviews ? execution.reviewNotes : undefined,
-        reviewedAt: options?.includeReviews ? execution.reviewedAt?.toISOString() : undefined
+        reviewedAt: options?.includeReviews ? execution.reviewedAt?.toISOString() : undefined,
+        comments: options?.includeComments ? this.toExportedComments(execution.comments) : undefined
       };
 
       if (options?.includeSteps && execution.executionRecords) {
@@ -523,10 +626,30 @@ export class HistoryService {
     };
   }
 
+  // 评论按讨论串顺序导出，回复紧跟在所属评论之后；已删除的评论不导出
+  private toExportedComments(comments: any[]): ExportedComment[] {
+    return buildCommentThreads(comments)
+      .flatMap(thread => [thread, ...thread.replies])
+      .filter(comment => !comment.deletedAt)
+      .map(comment => ({
+        stepName: comment.record?.step.name ?? null,
+        author: comment.author.name || comment.author.email,
+        body: comment.body,
+        resolved: !comment.parentId && !!comment.resolvedAt,
+        isReply: !!comment.parentId,
+        createdAt: comment.createdAt.toISOString()
+      }));
+  }
+
   // 生成CSV格式数据
   generateCSV(data: any[]): string {
     if (data.length === 0) return '';
 
+    // 评论合并为一列文本
+    data = data.map(item => Array.isArray(item.comments)
+      ? { ...item, comments: formatCommentsText(item.comments) }
+      : item);
+
     // 获取所有可能的字段
     const allKeys = new Set<string>();
     data.forEach(item => {
@@ -586,7 +709,7 @@ export class HistoryService {
     groupBy: 'workflow' | 'status' | 'month' | 'week',
     filters?: HistorySearchFilters
   ) {
-    const where: any = { userId };
+    const where: any = { ...accessibleExecutionWhere(userId) };
 
     // 应用筛选条件
     if (filters?.workflowId) {
@@ -600,6 +723,14 @@ export class HistoryService {
       if (filters.startDate) where.startedAt.gte = filters.startDate;
       if (filters.endDate) where.startedAt.lte = filters.endDate;
     }
+    if (filters?.batchId) {
+      where.batchId = filters.batchId;
+    }
+    if (filters?.parameters && Object.keys(filters.parameters).length > 0) {
+      where.AND = Object.entries(filters.parameters).map(([key, value]) => ({
+        parameters: { some: { key, value } }
+      }));
+    }
 
     switch (groupBy) {
       case 'workflow':
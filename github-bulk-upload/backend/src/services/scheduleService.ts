@@ -0,0 +1,377 @@
+import { WorkflowSchedule } from '@prisma/client';
+import prisma from '../config/database';
+import { ExecutionService } from './executionService';
+import { getNextOccurrence, getUpcomingOccurrences } from '../utils/schedules';
+import { logger } from '../utils/logger';
+
+// 用户未设置时区时使用的默认时区
+const DEFAULT_TIMEZONE = 'Asia/Shanghai';
+// 列表中展示的后续执行次数
+const UPCOMING_COUNT = 5;
+// 可以跳过的最远执行次数
+const SKIPPABLE_COUNT = 20;
+// 运行记录超过该时间仍未创建执行，视为处理它的进程已退出，可以由其他进程接管
+const STALE_RUN_MS = 5 * 60 * 1000;
+
+export interface ScheduleInput {
+  name?: string;
+  cron?: string;
+  timezone?: string;
+  priority?: string;
+  tags?: string[];
+  variables?: Record<string, any>;
+  dueAfterHours?: number | null;
+  isActive?: boolean;
+}
+
+export interface ScheduleOccurrence {
+  scheduledFor: Date;
+  skipped: boolean;
+}
+
+const parseJson = <T>(value: any, fallback: T): T => {
+  if (!value) return fallback;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+export class ScheduleService {
+  private executionService = new ExecutionService();
+
+  // 获取工作流的定期执行计划
+  async getSchedules(workflowId: string, userId: string) {
+    await this.findWorkflow(workflowId, userId);
+
+    const schedules = await prisma.workflowSchedule.findMany({
+      where: { workflowId },
+      include: {
+        runs: {
+          orderBy: { scheduledFor: 'desc' },
+          take: 5
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const now = new Date();
+    return schedules.map(schedule => ({
+      ...this.serialize(schedule),
+      upcoming: schedule.isActive ? this.getOccurrenceList(schedule, now, UPCOMING_COUNT) : []
+    }));
+  }
+
+  // 创建定期执行计划，未指定时区时使用用户设置中的时区
+  async createSchedule(workflowId: string, userId: string, data: ScheduleInput) {
+    await this.findWorkflow(workflowId, userId);
+
+    const timezone = data.timezone || await this.getUserTimezone(userId);
+    const isActive = data.isActive !== false;
+    const nextRunAt = isActive ? this.computeNextRun(data.cron!, timezone, new Date()) : null;
+
+    const schedule = await prisma.workflowSchedule.create({
+      data: {
+        workflowId,
+        userId,
+        name: data.name!,
+        cron: data.cron!,
+        timezone,
+        priority: data.priority || 'MEDIUM',
+        tags: data.tags ? JSON.stringify(data.tags) : null,
+        variables: data.variables ? JSON.stringify(data.variables) : null,
+        dueAfterHours: data.dueAfterHours ?? null,
+        isActive,
+        nextRunAt
+      }
+    });
+
+    return this.serialize(schedule);
+  }
+
+  // 修改计划，执行时间、时区或状态变化时重新计算下一次执行时间
+  async updateSchedule(workflowId: string, scheduleId: string, userId: string, data: ScheduleInput) {
+    const existing = await this.findSchedule(workflowId, scheduleId, userId);
+
+    const cron = data.cron ?? existing.cron;
+    const timezone = data.timezone ?? existing.timezone;
+    const isActive = data.isActive ?? existing.isActive;
+    const timingChanged = cron !== existing.cron || timezone !== existing.timezone || isActive !== existing.isActive;
+
+    const schedule = await prisma.workflowSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        name: data.name,
+        cron,
+        timezone,
+        priority: data.priority,
+        tags: data.tags !== undefined ? JSON.stringify(data.tags) : undefined,
+        variables: data.variables !== undefined ? JSON.stringify(data.variables) : undefined,
+        dueAfterHours: data.dueAfterHours,
+        isActive,
+        // 执行时间变化后原来跳过的时间不再有意义
+        ...(timingChanged && {
+          nextRunAt: isActive ? this.computeNextRun(cron, timezone, new Date()) : null,
+          skippedOccurrences: null
+        })
+      }
+    });
+
+    return this.serialize(schedule);
+  }
+
+  // 暂停计划
+  async pauseSchedule(workflowId: string, scheduleId: string, userId: string) {
+    await this.findSchedule(workflowId, scheduleId, userId);
+
+    const schedule = await prisma.workflowSchedule.update({
+      where: { id: scheduleId },
+      data: { isActive: false, nextRunAt: null }
+    });
+
+    return this.serialize(schedule);
+  }
+
+  // 恢复计划，从当前时间开始计算，暂停期间错过的执行不会补跑
+  async resumeSchedule(workflowId: string, scheduleId: string, userId: string) {
+    const existing = await this.findSchedule(workflowId, scheduleId, userId);
+
+    const schedule = await prisma.workflowSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        isActive: true,
+        nextRunAt: this.computeNextRun(existing.cron, existing.timezone, new Date())
+      }
+    });
+
+    return this.serialize(schedule);
+  }
+
+  // 跳过（或取消跳过）即将到来的某次执行
+  async skipOccurrence(workflowId: string, scheduleId: string, userId: string, occurrence: Date, skip = true) {
+    const existing = await this.findSchedule(workflowId, scheduleId, userId);
+
+    if (!existing.isActive) {
+      throw new Error('计划已暂停，无需跳过');
+    }
+
+    const upcoming = getUpcomingOccurrences(existing.cron, existing.timezone, new Date(), SKIPPABLE_COUNT);
+    if (!upcoming.some(date => date.getTime() === occurrence.getTime())) {
+      throw new Error(`只能跳过之后 ${SKIPPABLE_COUNT} 次内的执行时间`);
+    }
+
+    const key = occurrence.toISOString();
+    const skipped = parseJson<string[]>(existing.skippedOccurrences, []).filter(value => value !== key);
+    if (skip) {
+      skipped.push(key);
+    }
+
+    const schedule = await prisma.workflowSchedule.update({
+      where: { id: scheduleId },
+      data: { skippedOccurrences: skipped.length > 0 ? JSON.stringify(skipped.sort()) : null }
+    });
+
+    return this.serialize(schedule);
+  }
+
+  // 获取计划之后的执行时间
+  async getOccurrences(workflowId: string, scheduleId: string, userId: string, count: number): Promise<ScheduleOccurrence[]> {
+    const schedule = await this.findSchedule(workflowId, scheduleId, userId);
+    if (!schedule.isActive) {
+      return [];
+    }
+
+    return this.getOccurrenceList(schedule, new Date(), count);
+  }
+
+  // 删除计划，已创建的执行不受影响
+  async deleteSchedule(workflowId: string, scheduleId: string, userId: string): Promise<void> {
+    await this.findSchedule(workflowId, scheduleId, userId);
+    await prisma.workflowSchedule.delete({ where: { id: scheduleId } });
+  }
+
+  // 启动所有到期的计划，由后台定时任务调用
+  // 每个计划时间先写入 schedule_runs（唯一索引），写入失败说明已由其他进程或重启前处理过，
+  // 因此服务重启或多实例部署时不会重复创建执行；停机期间错过的多次执行只补跑最近一次。
+  // 运行记录处理完成后才推进下次时间，启动过程中进程退出时，超时后由下一次检查接管该记录继续启动
+  async runDueSchedules(now: Date = new Date()): Promise<number> {
+    const dueSchedules = await prisma.workflowSchedule.findMany({
+      where: {
+        isActive: true,
+        nextRunAt: { lte: now }
+      }
+    });
+
+    let created = 0;
+    for (const schedule of dueSchedules) {
+      const occurrence = schedule.nextRunAt!;
+
+      const claim = await this.claimRun(schedule.id, occurrence, now).catch(error => {
+        logger.error('Schedule run creation failed', { scheduleId: schedule.id, error: error.message });
+        return null;
+      });
+
+      // 其他进程正在启动本次执行，由它推进下次时间
+      if (!claim || claim.busy) continue;
+
+      if (claim.run && await this.startRun(schedule, claim.run.id, occurrence, now)) {
+        created++;
+      }
+
+      // 只有 nextRunAt 仍为本次时间时才推进，避免覆盖并发的修改
+      await prisma.workflowSchedule.updateMany({
+        where: { id: schedule.id, nextRunAt: occurrence },
+        data: {
+          nextRunAt: getNextOccurrence(schedule.cron, schedule.timezone, now),
+          lastRunAt: occurrence
+        }
+      });
+    }
+
+    return created;
+  }
+
+  // 写入计划时间的运行记录。记录已存在时：仍为待处理且未创建执行、并且已超时的记录由本进程接管，
+  // 未超时的说明其他进程正在处理（busy），其余说明已处理完成（run 为 null）
+  private async claimRun(scheduleId: string, scheduledFor: Date, now: Date) {
+    try {
+      const run = await prisma.scheduleRun.create({
+        data: { scheduleId, scheduledFor }
+      });
+      return { run, busy: false };
+    } catch (error: any) {
+      if (error?.code !== 'P2002') throw error;
+    }
+
+    const existing = await prisma.scheduleRun.findUnique({
+      where: { scheduleId_scheduledFor: { scheduleId, scheduledFor } }
+    });
+
+    if (!existing || existing.status !== 'PENDING' || existing.executionId) {
+      return { run: null, busy: false };
+    }
+
+    if (now.getTime() - existing.createdAt.getTime() < STALE_RUN_MS) {
+      return { run: null, busy: true };
+    }
+
+    // 条件更新接管记录并重新计时，多个进程同时发现时只有一个成功
+    const { count } = await prisma.scheduleRun.updateMany({
+      where: { id: existing.id, status: 'PENDING', executionId: null, createdAt: existing.createdAt },
+      data: { createdAt: now }
+    });
+
+    if (count === 0) {
+      return { run: null, busy: true };
+    }
+
+    logger.warn('Resuming abandoned schedule run', { scheduleId, runId: existing.id, scheduledFor });
+    return { run: existing, busy: false };
+  }
+
+  // 按运行记录启动执行或标记为跳过，返回是否创建了执行
+  private async startRun(
+    schedule: WorkflowSchedule,
+    runId: string,
+    occurrence: Date,
+    now: Date
+  ): Promise<boolean> {
+    const skipped = parseJson<string[]>(schedule.skippedOccurrences, []);
+    const key = occurrence.toISOString();
+    if (skipped.includes(key)) {
+      await prisma.scheduleRun.update({ where: { id: runId }, data: { status: 'SKIPPED' } });
+      const remaining = skipped.filter(value => value !== key && new Date(value) > now);
+      await prisma.workflowSchedule.update({
+        where: { id: schedule.id },
+        data: { skippedOccurrences: remaining.length > 0 ? JSON.stringify(remaining) : null }
+      });
+      return false;
+    }
+
+    try {
+      const execution = await this.executionService.startExecution(schedule.userId, schedule.workflowId, {
+        variables: {
+          ...parseJson<Record<string, any>>(schedule.variables, {}),
+          scheduledFor: key
+        },
+        priority: schedule.priority,
+        tags: parseJson<string[] | undefined>(schedule.tags, undefined),
+        dueDate: schedule.dueAfterHours
+          ? new Date(occurrence.getTime() + schedule.dueAfterHours * 60 * 60 * 1000)
+          : undefined
+      });
+
+      await prisma.scheduleRun.update({
+        where: { id: runId },
+        data: { status: 'CREATED', executionId: execution.id }
+      });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '启动执行失败';
+      logger.error('Scheduled execution start failed', { scheduleId: schedule.id, runId, error: message });
+      await prisma.scheduleRun.update({
+        where: { id: runId },
+        data: { status: 'FAILED', error: message }
+      });
+      return false;
+    }
+  }
+
+  private async findWorkflow(workflowId: string, userId: string) {
+    const workflow = await prisma.workflow.findFirst({
+      where: { id: workflowId, userId }
+    });
+
+    if (!workflow) {
+      throw new Error('工作流不存在或无权限访问');
+    }
+
+    return workflow;
+  }
+
+  private async findSchedule(workflowId: string, scheduleId: string, userId: string) {
+    await this.findWorkflow(workflowId, userId);
+
+    const schedule = await prisma.workflowSchedule.findFirst({
+      where: { id: scheduleId, workflowId }
+    });
+
+    if (!schedule) {
+      throw new Error('计划不存在');
+    }
+
+    return schedule;
+  }
+
+  private async getUserTimezone(userId: string): Promise<string> {
+    const settings = await prisma.userSettings.findUnique({ where: { userId } });
+    return settings?.timezone || DEFAULT_TIMEZONE;
+  }
+
+  private computeNextRun(cron: string, timezone: string, after: Date): Date {
+    const next = getNextOccurrence(cron, timezone, after);
+    if (!next) {
+      throw new Error('该执行时间在未来五年内不会触发');
+    }
+    return next;
+  }
+
+  private getOccurrenceList(schedule: any, after: Date, count: number): ScheduleOccurrence[] {
+    const skipped = parseJson<string[]>(schedule.skippedOccurrences, []);
+    return getUpcomingOccurrences(schedule.cron, schedule.timezone, after, count).map(scheduledFor => ({
+      scheduledFor,
+      skipped: skipped.includes(scheduledFor.toISOString())
+    }));
+  }
+
+  private serialize(schedule: any) {
+    return {
+      ...schedule,
+      tags: parseJson<string[]>(schedule.tags, []),
+      variables: parseJson<Record<string, any>>(schedule.variables, {}),
+      skippedOccurrences: parseJson<string[]>(schedule.skippedOccurrences, [])
+    };
+  }
+}
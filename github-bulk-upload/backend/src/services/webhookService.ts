@@ -0,0 +1,496 @@
+import { randomUUID } from 'crypto';
+import prisma from '../config/database';
+import { WorkflowModel } from '../models/Workflow';
+import { logger } from '../utils/logger';
+import { TRANSITION_EVENT, TransitionEvent, transitionEvents } from '../utils/stateMachine';
+import {
+  assertPublicWebhookUrl,
+  generateWebhookSecret,
+  getRetryDelay,
+  postWebhook,
+  subscriptionMatches,
+  WEBHOOK_TEST_EVENT,
+  WEBHOOK_TIMEOUT_MS,
+  webhookEventForTransition,
+  WebhookEventType
+} from '../utils/webhooks';
+
+// 投递开始后在该时间内不会被重试任务再次领取；进程在投递过程中退出时，超时后由重试任务继续投递
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+// 每次重试任务处理的投递数量
+const RETRY_BATCH_SIZE = 50;
+// 投递记录列表的默认数量
+const DELIVERY_PAGE_SIZE = 50;
+
+export interface WebhookSubscriptionInput {
+  name?: string;
+  url?: string;
+  eventTypes?: string[];
+  workflowId?: string | null;
+  isGlobal?: boolean;
+  isActive?: boolean;
+}
+
+export interface WebhookEventContext {
+  executionId: string;
+  recordId?: string | null;
+  actorId?: string | null;
+  // 附加到 data 中的事件内容，如状态转换或复盘内容
+  data?: Record<string, any>;
+}
+
+const parseJson = <T>(value: any, fallback: T): T => {
+  if (!value) return fallback;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+const userSelect = { id: true, name: true, email: true };
+
+// 转换事件监听只注册一次
+let listening = false;
+
+export class WebhookService {
+  // 监听执行和步骤的状态转换并推送到订阅；在服务启动时调用
+  listen(): void {
+    if (listening) {
+      return;
+    }
+    listening = true;
+
+    transitionEvents.on(TRANSITION_EVENT, (event: TransitionEvent) => {
+      const type = webhookEventForTransition(event);
+      if (!type) {
+        return;
+      }
+
+      this.notify(type, {
+        executionId: event.executionId,
+        recordId: event.recordId,
+        actorId: event.userId,
+        data: {
+          transition: {
+            action: event.action,
+            from: event.from,
+            to: event.to,
+            reason: event.reason ?? null,
+            at: event.at.toISOString()
+          }
+        }
+      });
+    });
+  }
+
+  // 在后台推送事件，不影响触发事件的操作
+  notify(type: WebhookEventType, context: WebhookEventContext): void {
+    this.dispatch(type, context).catch(error => {
+      logger.error('Webhook dispatch failed', { type, executionId: context.executionId, error: error.message });
+    });
+  }
+
+  // 获取用户的订阅，管理员同时可以看到全局订阅
+  async getSubscriptions(userId: string, isAdmin: boolean) {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: this.accessibleWhere(userId, isAdmin),
+      include: {
+        workflow: { select: { id: true, name: true } },
+        user: { select: userSelect },
+        deliveries: {
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return subscriptions.map(subscription => ({
+      ...this.serialize(subscription),
+      lastDelivery: subscription.deliveries[0] ? this.serializeDelivery(subscription.deliveries[0], isAdmin) : null
+    }));
+  }
+
+  // 创建订阅，签名密钥只在创建时返回
+  async createSubscription(userId: string, isAdmin: boolean, data: WebhookSubscriptionInput) {
+    await this.checkInput(userId, isAdmin, data);
+
+    const secret = generateWebhookSecret();
+    const subscription = await prisma.webhookSubscription.create({
+      data: {
+        userId,
+        name: data.name!,
+        url: data.url!,
+        secret,
+        eventTypes: JSON.stringify(data.eventTypes),
+        workflowId: data.workflowId || null,
+        isGlobal: data.isGlobal === true,
+        isActive: data.isActive !== false
+      },
+      include: {
+        workflow: { select: { id: true, name: true } },
+        user: { select: userSelect }
+      }
+    });
+
+    return { ...this.serialize(subscription), secret };
+  }
+
+  async updateSubscription(subscriptionId: string, userId: string, isAdmin: boolean, data: WebhookSubscriptionInput) {
+    await this.findSubscription(subscriptionId, userId, isAdmin);
+    await this.checkInput(userId, isAdmin, data);
+
+    const subscription = await prisma.webhookSubscription.update({
+      where: { id: subscriptionId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.url !== undefined && { url: data.url }),
+        ...(data.eventTypes !== undefined && { eventTypes: JSON.stringify(data.eventTypes) }),
+        ...(data.workflowId !== undefined && { workflowId: data.workflowId || null }),
+        ...(data.isGlobal !== undefined && { isGlobal: data.isGlobal }),
+        ...(data.isActive !== undefined && { isActive: data.isActive })
+      },
+      include: {
+        workflow: { select: { id: true, name: true } },
+        user: { select: userSelect }
+      }
+    });
+
+    return this.serialize(subscription);
+  }
+
+  // 重新生成签名密钥，旧密钥立即失效
+  async rotateSecret(subscriptionId: string, userId: string, isAdmin: boolean) {
+    await this.findSubscription(subscriptionId, userId, isAdmin);
+
+    const secret = generateWebhookSecret();
+    await prisma.webhookSubscription.update({
+      where: { id: subscriptionId },
+      data: { secret }
+    });
+
+    return { secret };
+  }
+
+  async deleteSubscription(subscriptionId: string, userId: string, isAdmin: boolean): Promise<void> {
+    await this.findSubscription(subscriptionId, userId, isAdmin);
+    await prisma.webhookSubscription.delete({ where: { id: subscriptionId } });
+  }
+
+  // 获取订阅的投递记录
+  async getDeliveries(subscriptionId: string, userId: string, isAdmin: boolean, options: { status?: string; limit?: number } = {}) {
+    await this.findSubscription(subscriptionId, userId, isAdmin);
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        subscriptionId,
+        ...(options.status && { status: options.status })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit || DELIVERY_PAGE_SIZE
+    });
+
+    return deliveries.map(delivery => this.serializeDelivery(delivery, isAdmin));
+  }
+
+  // 向订阅地址发送一条测试推送，结果记录在投递记录中，失败时不重试
+  async testSubscription(subscriptionId: string, userId: string, isAdmin: boolean) {
+    const subscription = await this.findSubscription(subscriptionId, userId, isAdmin);
+
+    const eventId = randomUUID();
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        subscriptionId,
+        eventId,
+        eventType: WEBHOOK_TEST_EVENT,
+        payload: JSON.stringify({
+          id: eventId,
+          type: WEBHOOK_TEST_EVENT,
+          createdAt: new Date().toISOString(),
+          data: {
+            subscription: { id: subscription.id, name: subscription.name },
+            message: '这是一条测试推送'
+          }
+        }),
+        nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS)
+      }
+    });
+
+    return this.attemptDelivery({ ...delivery, subscription }, { retry: false, isAdmin });
+  }
+
+  // 按原内容重新投递一次，新的投递记录指向原记录，失败时不重试
+  async replayDelivery(deliveryId: string, userId: string, isAdmin: boolean) {
+    const original = await prisma.webhookDelivery.findFirst({
+      where: {
+        id: deliveryId,
+        subscription: this.accessibleWhere(userId, isAdmin)
+      },
+      include: { subscription: true }
+    });
+
+    if (!original) {
+      throw new Error('投递记录不存在或无权限访问');
+    }
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        subscriptionId: original.subscriptionId,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload,
+        replayOfId: original.id,
+        nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS)
+      }
+    });
+
+    return this.attemptDelivery({ ...delivery, subscription: original.subscription }, { retry: false, isAdmin });
+  }
+
+  // 将执行事件投递给匹配的订阅：全局订阅，以及执行发起人和参与者自己的订阅。
+  // 投递记录创建后在后台投递，返回创建的投递数量
+  async dispatch(type: WebhookEventType, context: WebhookEventContext): Promise<number> {
+    const execution = await prisma.execution.findUnique({
+      where: { id: context.executionId },
+      include: {
+        workflow: { select: { id: true, name: true } },
+        user: { select: userSelect },
+        participants: { select: { userId: true } }
+      }
+    });
+
+    if (!execution) {
+      return 0;
+    }
+
+    const memberIds = [execution.userId, ...execution.participants.map(participant => participant.userId)];
+    const subscriptions = (await prisma.webhookSubscription.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { isGlobal: true },
+          { userId: { in: memberIds } }
+        ]
+      }
+    })).filter(subscription => subscriptionMatches(
+      { ...subscription, eventTypes: parseJson<string[]>(subscription.eventTypes, []) },
+      type,
+      execution.workflowId
+    ));
+
+    if (subscriptions.length === 0) {
+      return 0;
+    }
+
+    const [record, actor] = await Promise.all([
+      context.recordId
+        ? prisma.executionRecord.findUnique({
+          where: { id: context.recordId },
+          include: { step: { select: { id: true, title: true, order: true } } }
+        })
+        : null,
+      context.actorId
+        ? prisma.user.findUnique({ where: { id: context.actorId }, select: userSelect })
+        : null
+    ]);
+
+    const eventId = randomUUID();
+    const payload = JSON.stringify({
+      id: eventId,
+      type,
+      createdAt: new Date().toISOString(),
+      data: {
+        execution: {
+          id: execution.id,
+          title: execution.title,
+          status: execution.status,
+          progress: execution.progress,
+          dueDate: execution.dueDate,
+          workflow: execution.workflow,
+          owner: execution.user
+        },
+        step: record
+          ? {
+            recordId: record.id,
+            stepId: record.stepId,
+            title: record.step?.title ?? null,
+            order: record.step?.order ?? null,
+            status: record.status
+          }
+          : null,
+        actor,
+        ...context.data
+      }
+    });
+
+    const nextAttemptAt = new Date(Date.now() + DELIVERY_LEASE_MS);
+    const deliveries = await Promise.all(subscriptions.map(subscription =>
+      prisma.webhookDelivery.create({
+        data: {
+          subscriptionId: subscription.id,
+          eventId,
+          eventType: type,
+          payload,
+          nextAttemptAt
+        }
+      }).then(delivery => ({ ...delivery, subscription }))
+    ));
+
+    for (const delivery of deliveries) {
+      this.attemptDelivery(delivery).catch(error => {
+        logger.error('Webhook delivery failed', { deliveryId: delivery.id, error: error.message });
+      });
+    }
+
+    return deliveries.length;
+  }
+
+  // 重新投递到期的失败投递；在服务启动后定期调用，返回处理的投递数量
+  async retryDueDeliveries(now: Date = new Date()): Promise<number> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: {
+        status: 'PENDING',
+        nextAttemptAt: { lte: now },
+        subscription: { isActive: true }
+      },
+      include: { subscription: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: RETRY_BATCH_SIZE
+    });
+
+    let processed = 0;
+    for (const delivery of due) {
+      // 领取投递，避免与同时运行的任务重复投递
+      const claimed = await prisma.webhookDelivery.updateMany({
+        where: { id: delivery.id, status: 'PENDING', nextAttemptAt: delivery.nextAttemptAt },
+        data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) }
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      try {
+        await this.attemptDelivery(delivery);
+        processed++;
+      } catch (error: any) {
+        logger.error('Webhook delivery failed', { deliveryId: delivery.id, error: error.message });
+      }
+    }
+
+    return processed;
+  }
+
+  // 投递一次并记录结果；失败时按退避间隔安排重试，达到最大次数或不重试时标记为失败
+  private async attemptDelivery(
+    delivery: { id: string; eventType: string; payload: string; attempts: number; subscription: { url: string; secret: string } },
+    options: { retry?: boolean; isAdmin?: boolean } = {}
+  ) {
+    const attempts = delivery.attempts + 1;
+    const lastAttemptAt = new Date();
+
+    let data;
+    try {
+      const response = await postWebhook({
+        url: delivery.subscription.url,
+        payload: JSON.parse(delivery.payload),
+        secret: delivery.subscription.secret,
+        event: delivery.eventType,
+        deliveryId: delivery.id,
+        timeout: WEBHOOK_TIMEOUT_MS
+      });
+
+      data = {
+        status: 'SUCCEEDED',
+        attempts,
+        lastAttemptAt,
+        nextAttemptAt: null,
+        responseStatus: response.status,
+        responseBody: response.body,
+        error: null
+      };
+    } catch (error: any) {
+      const delay = options.retry === false ? null : getRetryDelay(attempts);
+
+      logger.warn('Webhook delivery attempt failed', {
+        deliveryId: delivery.id,
+        attempts,
+        willRetry: delay !== null,
+        error: error.message
+      });
+
+      data = {
+        status: delay === null ? 'FAILED' : 'PENDING',
+        attempts,
+        lastAttemptAt,
+        nextAttemptAt: delay === null ? null : new Date(lastAttemptAt.getTime() + delay),
+        responseStatus: error.status ?? null,
+        responseBody: error.body ?? null,
+        error: error.message
+      };
+    }
+
+    const updated = await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data
+    });
+
+    return this.serializeDelivery(updated, options.isAdmin === true);
+  }
+
+  // 订阅的访问条件：自己创建的订阅，管理员还可以管理所有全局订阅
+  private accessibleWhere(userId: string, isAdmin: boolean) {
+    return isAdmin
+      ? { OR: [{ userId }, { isGlobal: true }] }
+      : { userId };
+  }
+
+  private async findSubscription(subscriptionId: string, userId: string, isAdmin: boolean) {
+    const subscription = await prisma.webhookSubscription.findFirst({
+      where: {
+        id: subscriptionId,
+        ...this.accessibleWhere(userId, isAdmin)
+      }
+    });
+
+    if (!subscription) {
+      throw new Error('订阅不存在或无权限访问');
+    }
+
+    return subscription;
+  }
+
+  private async checkInput(userId: string, isAdmin: boolean, data: WebhookSubscriptionInput): Promise<void> {
+    if (data.isGlobal && !isAdmin) {
+      throw new Error('只有管理员可以创建全局订阅');
+    }
+
+    if (data.workflowId && !await WorkflowModel.checkAccess(data.workflowId, userId)) {
+      throw new Error('工作流不存在或无权限访问');
+    }
+
+    if (data.url) {
+      await assertPublicWebhookUrl(data.url);
+    }
+  }
+
+  // 订阅返回时不包含签名密钥
+  private serialize(subscription: any) {
+    const { secret, eventTypes, deliveries, ...rest } = subscription;
+    return {
+      ...rest,
+      eventTypes: parseJson<string[]>(eventTypes, [])
+    };
+  }
+
+  // 接收方的响应内容只返回给管理员，避免通过推送结果读取目标服务的响应
+  private serializeDelivery(delivery: any, isAdmin: boolean) {
+    const { responseBody, ...rest } = delivery;
+    return {
+      ...rest,
+      ...(isAdmin ? { responseBody } : {}),
+      payload: parseJson<Record<string, any> | null>(delivery.payload, null)
+    };
+  }
+}
@@ -19,7 +19,8 @@ export const StepType = {
   DECISION: 'DECISION',
   APPROVAL: 'APPROVAL',
   CALCULATION: 'CALCULATION',
-  NOTIFICATION: 'NOTIFICATION'
+  NOTIFICATION: 'NOTIFICATION',
+  SUBWORKFLOW: 'SUBWORKFLOW'
 } as const;
 
 export const ExecutionStatus = {
@@ -3,6 +3,8 @@ export interface Execution {
   userId: string;
   workflowId: string;
   status: ExecutionStatus;
+  // 由子流程步骤启动时对应的父步骤记录
+  parentRecordId?: string | null;
   startedAt: Date;
   completedAt?: Date;
   reviewNotes?: string;
@@ -18,9 +20,14 @@ export interface ExecutionRecord {
   stepId: string;
   status: StepStatus;
   notes?: string;
+  startedAt?: Date;
   completedAt?: Date;
+  actualTime?: number;
   data?: Record<string, any>;
+  result?: Record<string, any>;
   reviewNotes?: string;
+  // 被分配处理该步骤的用户
+  assigneeId?: string | null;
   createdAt: Date;
   updatedAt: Date;
   attachments?: Attachment[];
@@ -41,6 +48,21 @@ export interface CreateExecutionDto {
   workflowId: string;
 }
 
+export interface CompleteStepDto {
+  notes?: string;
+  data?: Record<string, any>;
+  result?: Record<string, any>;
+  // 启用估值模型的计算步骤提交的估值输入
+  valuation?: Record<string, any>;
+  // 启用房地产测算的计算步骤提交的测算输入
+  property?: Record<string, any>;
+}
+
+export interface ApprovalDecisionDto {
+  decision: 'APPROVED' | 'REJECTED';
+  comment?: string;
+}
+
 export interface UpdateExecutionRecordDto {
   status?: StepStatus;
   notes?: string;
@@ -56,13 +78,17 @@ export interface UpdateExecutionDto {
 export enum ExecutionStatus {
   IN_PROGRESS = 'IN_PROGRESS',
   COMPLETED = 'COMPLETED',
-  PAUSED = 'PAUSED'
+  PAUSED = 'PAUSED',
+  CANCELLED = 'CANCELLED',
+  FAILED = 'FAILED'
 }
 
 export enum StepStatus {
   PENDING = 'PENDING',
+  IN_PROGRESS = 'IN_PROGRESS',
   COMPLETED = 'COMPLETED',
-  SKIPPED = 'SKIPPED'
+  SKIPPED = 'SKIPPED',
+  FAILED = 'FAILED'
 }
 
 export enum FileType {
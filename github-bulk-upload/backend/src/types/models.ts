@@ -2,6 +2,8 @@ import {
   User, 
   Workflow, 
   WorkflowStep, 
+  WorkflowVersion,
+  WorkflowVersionStep,
   Execution, 
   ExecutionRecord, 
   Attachment, 
@@ -16,7 +18,6 @@ import {
   WorkflowStatusType as WorkflowStatus,
   StepTypeType as StepType,
   ExecutionStatusType as ExecutionStatus,
-  StepStatusType as StepStatus,
   PriorityType as Priority,
   FileTypeType as FileType
 } from './enums';
@@ -38,6 +39,7 @@ export interface UserWithRelations extends User {
 export interface WorkflowWithRelations extends Workflow {
   user?: User;
   steps?: WorkflowStep[];
+  versions?: WorkflowVersion[];
   executions?: Execution[];
   _count?: {
     steps: number;
@@ -48,9 +50,16 @@ export interface WorkflowWithRelations extends Workflow {
 // 扩展的工作流步骤类型
 export interface WorkflowStepWithRelations extends WorkflowStep {
   workflow?: Workflow;
-  executionRecords?: ExecutionRecord[];
+}
+
+// 扩展的工作流版本类型
+export interface WorkflowVersionWithRelations extends WorkflowVersion {
+  workflow?: Workflow;
+  steps?: WorkflowVersionStep[];
+  executions?: Execution[];
   _count?: {
-    executionRecords: number;
+    steps: number;
+    executions: number;
   };
 }
 
@@ -58,6 +67,7 @@ export interface WorkflowStepWithRelations extends WorkflowStep {
 export interface ExecutionWithRelations extends Execution {
   user?: User;
   workflow?: WorkflowWithRelations;
+  workflowVersion?: WorkflowVersion;
   executionRecords?: ExecutionRecordWithRelations[];
   reviews?: Review[];
   _count?: {
@@ -69,7 +79,7 @@ export interface ExecutionWithRelations extends Execution {
 // 扩展的执行步骤记录类型
 export interface ExecutionRecordWithRelations extends ExecutionRecord {
   execution?: Execution;
-  step?: WorkflowStep;
+  step?: WorkflowVersionStep;
   attachments?: Attachment[];
   _count?: {
     attachments: number;
@@ -172,10 +182,9 @@ export interface CreateExecutionInput {
   metadata?: any;
 }
 
-// 更新执行记录的输入类型
+// 更新执行记录的输入类型，状态只能通过 ExecutionService 按状态转换表修改
 export interface UpdateExecutionInput {
   title?: string;
-  status?: ExecutionStatus;
   priority?: Priority;
   dueDate?: Date;
   tags?: string[];
@@ -190,9 +199,8 @@ export interface CreateExecutionRecordInput {
   data?: any;
 }
 
-// 更新执行步骤记录的输入类型
+// 更新执行步骤记录的输入类型，状态只能通过 ExecutionService 按状态转换表修改
 export interface UpdateExecutionRecordInput {
-  status?: StepStatus;
   notes?: string;
   startedAt?: Date;
   completedAt?: Date;
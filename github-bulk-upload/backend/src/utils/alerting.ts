@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { logger } from './logger';
 import { metricsCollector } from './metrics';
+import { postWebhook } from './webhooks';
 
 interface AlertRule {
   id: string;
@@ -24,12 +25,32 @@ interface Alert {
   metadata: any;
 }
 
+export type NotificationChannelType = 'slack' | 'discord' | 'email' | 'webhook';
+
 interface NotificationChannel {
-  type: 'slack' | 'discord' | 'email' | 'webhook';
+  type: NotificationChannelType;
   config: any;
   enabled: boolean;
 }
 
+// 业务消息（如通知步骤发出的执行消息），与系统告警共用通知渠道
+export interface ChannelMessage {
+  title: string;
+  text: string;
+  metadata?: Record<string, any>;
+}
+
+// 单个渠道的投递结果
+export interface ChannelDelivery {
+  channel: NotificationChannelType;
+  status: 'SENT' | 'FAILED';
+  error?: string;
+  sentAt: string;
+}
+
+// 业务消息的投递超时（毫秒），避免渠道无响应时阻塞步骤流转
+const MESSAGE_TIMEOUT = 10 * 1000;
+
 class AlertingSystem {
   private alerts: Alert[] = [];
   private alertRules: AlertRule[] = [];
@@ -178,6 +199,8 @@ class AlertingSystem {
         config: {
           url: process.env.ALERT_WEBHOOK_URL,
           method: 'POST',
+          // 设置后请求体按出站 Webhook 的方式签名
+          secret: process.env.ALERT_WEBHOOK_SECRET,
           headers: {
             'Content-Type': 'application/json'
           }
@@ -467,14 +490,74 @@ class AlertingSystem {
       }
     };
 
-    await axios({
-      method: config.method || 'POST',
+    await postWebhook({
       url: config.url,
-      headers: config.headers || {},
-      data: payload
+      method: config.method,
+      headers: config.headers,
+      secret: config.secret,
+      event: 'alert',
+      // 告警渠道由运维配置，可以推送到内网地址
+      allowPrivateNetwork: true,
+      payload
     });
   }
 
+  // 按渠道格式投递业务消息，失败时抛出错误由调用方记录
+  private async deliverMessage(channel: NotificationChannel, message: ChannelMessage) {
+    const timestamp = new Date().toISOString();
+
+    switch (channel.type) {
+      case 'slack':
+        await axios.post(channel.config.webhookUrl, {
+          channel: channel.config.channel,
+          text: `*${message.title}*\n${message.text}`
+        }, { timeout: MESSAGE_TIMEOUT });
+        break;
+
+      case 'discord':
+        await axios.post(channel.config.webhookUrl, {
+          embeds: [
+            {
+              title: message.title,
+              description: message.text,
+              footer: {
+                text: '投资流程管理系统'
+              },
+              timestamp
+            }
+          ]
+        }, { timeout: MESSAGE_TIMEOUT });
+        break;
+
+      case 'email':
+        logger.info('Email message would be sent', {
+          to: channel.config.to,
+          subject: message.title
+        });
+        break;
+
+      case 'webhook':
+        await postWebhook({
+          url: channel.config.url,
+          method: channel.config.method,
+          headers: channel.config.headers,
+          secret: channel.config.secret,
+          event: 'message',
+          allowPrivateNetwork: true,
+          payload: {
+            message: {
+              title: message.title,
+              text: message.text,
+              metadata: message.metadata,
+              timestamp
+            }
+          },
+          timeout: MESSAGE_TIMEOUT
+        });
+        break;
+    }
+  }
+
   // 获取严重程度颜色
   private getSeverityColor(severity: string): string {
     switch (severity) {
@@ -551,6 +634,42 @@ class AlertingSystem {
     }
   }
 
+  // 公共方法：通过已启用的渠道发送业务消息，types 为空时发送到全部渠道
+  // 与告警通知不同，这里返回每个渠道的投递结果，由调用方决定如何处理失败
+  async sendMessage(message: ChannelMessage, types?: NotificationChannelType[]): Promise<ChannelDelivery[]> {
+    const channels = this.notificationChannels.filter(channel =>
+      channel.enabled && (!types || types.length === 0 || types.includes(channel.type))
+    );
+
+    return Promise.all(channels.map(async (channel): Promise<ChannelDelivery> => {
+      try {
+        await this.deliverMessage(channel, message);
+
+        logger.info('Message sent', {
+          title: message.title,
+          channelType: channel.type
+        });
+
+        return { channel: channel.type, status: 'SENT', sentAt: new Date().toISOString() };
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+
+        logger.error('Failed to send message', {
+          title: message.title,
+          channelType: channel.type,
+          error: reason
+        });
+
+        return { channel: channel.type, status: 'FAILED', error: reason, sentAt: new Date().toISOString() };
+      }
+    }));
+  }
+
+  // 公共方法：获取已启用的通知渠道类型
+  getChannelTypes(): NotificationChannelType[] {
+    return this.notificationChannels.filter(channel => channel.enabled).map(channel => channel.type);
+  }
+
   // 公共方法：获取告警统计
   getAlertStats() {
     const activeAlerts = this.getActiveAlerts();
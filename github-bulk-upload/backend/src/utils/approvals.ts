@@ -0,0 +1,126 @@
+// 审批步骤：在 metadata.approval 中指定审批人和通过规则，例如
+//   { approvers: { users: ["cio@example.com"], role: "ADMIN" }, quorum: 2, rejectTo: 3 }
+// approvers.users 可填写用户ID或邮箱，role 匹配该角色的所有启用用户；
+// quorum 为 "any"（任一人同意）、"all"（全部同意）或同意人数；
+// 驳回后执行退回 rejectTo 指定顺序号的步骤，未指定时退回审批步骤本身重新提交
+import Joi from 'joi';
+
+// 审批人不符合条件时抛出的错误码
+export const NOT_APPROVER = 'NOT_APPROVER';
+
+export const APPROVAL_DECISIONS = ['APPROVED', 'REJECTED'] as const;
+export type ApprovalDecision = typeof APPROVAL_DECISIONS[number];
+
+export type ApprovalQuorum = 'any' | 'all' | number;
+
+export interface ApprovalConfig {
+  approvers: {
+    users?: string[];
+    role?: string;
+  };
+  quorum: ApprovalQuorum;
+  rejectTo?: number;
+  // 是否允许执行发起人审批自己的执行
+  allowSelfApproval: boolean;
+}
+
+export interface ApproverCandidate {
+  id: string;
+  email: string;
+  role: string;
+}
+
+export interface ApprovalVote {
+  approverId: string;
+  decision: ApprovalDecision;
+}
+
+export interface ApprovalTally {
+  status: 'PENDING' | ApprovalDecision;
+  approvals: number;
+  rejections: number;
+  required: number;
+  eligible: number;
+}
+
+export const approvalConfigSchema = Joi.object({
+  approvers: Joi.object({
+    users: Joi.array().items(Joi.string().max(200)).min(1).max(50).optional(),
+    role: Joi.string().valid('USER', 'ADMIN', 'SUPER_ADMIN').optional()
+  }).or('users', 'role').required().messages({
+    'object.missing': '审批人必须指定用户或角色',
+    'any.required': '审批步骤必须指定审批人'
+  }),
+  quorum: Joi.alternatives().try(
+    Joi.string().valid('any', 'all'),
+    Joi.number().integer().min(1).max(50)
+  ).default('any').messages({
+    'alternatives.match': '通过规则必须是 any、all 或同意人数'
+  }),
+  rejectTo: Joi.number().integer().min(1).optional().messages({
+    'number.base': '驳回退回的步骤必须是步骤顺序号'
+  }),
+  allowSelfApproval: Joi.boolean().default(false)
+});
+
+// 从步骤元数据中读取审批配置，未配置或配置无效时返回 null
+export function parseApprovalConfig(metadata: unknown): ApprovalConfig | null {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !parsed.approval) {
+    return null;
+  }
+
+  const { error, value } = approvalConfigSchema.validate(parsed.approval);
+  return error ? null : value;
+}
+
+// 用户是否在审批人名单中（按ID、邮箱或角色匹配）
+export function isApprover(config: ApprovalConfig, user: ApproverCandidate): boolean {
+  const users = config.approvers.users || [];
+  return users.includes(user.id) ||
+    users.some(item => item.toLowerCase() === user.email.toLowerCase()) ||
+    (!!config.approvers.role && config.approvers.role === user.role);
+}
+
+// 从候选用户中筛选有效审批人，发起人默认不能审批自己的执行
+export function resolveApprovers<T extends ApproverCandidate>(
+  config: ApprovalConfig,
+  candidates: T[],
+  ownerId: string
+): T[] {
+  return candidates.filter(user =>
+    isApprover(config, user) && (config.allowSelfApproval || user.id !== ownerId)
+  );
+}
+
+// 达到通过规则所需的同意人数
+export function requiredApprovals(quorum: ApprovalQuorum, eligible: number): number {
+  if (quorum === 'any') return 1;
+  if (quorum === 'all') return Math.max(eligible, 1);
+  return quorum;
+}
+
+// 统计本轮审批结果：同意人数达到要求即通过，剩余审批人全部同意也无法达到要求时驳回
+export function tallyApprovals(config: ApprovalConfig, votes: ApprovalVote[], eligible: number): ApprovalTally {
+  const approvals = votes.filter(vote => vote.decision === 'APPROVED').length;
+  const rejections = votes.filter(vote => vote.decision === 'REJECTED').length;
+  const required = requiredApprovals(config.quorum, eligible);
+  const remaining = Math.max(eligible - approvals - rejections, 0);
+
+  let status: ApprovalTally['status'] = 'PENDING';
+  if (approvals >= required) {
+    status = 'APPROVED';
+  } else if (rejections > 0 && approvals + remaining < required) {
+    status = 'REJECTED';
+  }
+
+  return { status, approvals, rejections, required, eligible };
+}
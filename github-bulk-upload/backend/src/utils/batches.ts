@@ -0,0 +1,159 @@
+// 批量执行：一次为多组参数（如筛选出的 20 只股票）各启动一个执行，归入同一个命名批次，
+// 便于在历史记录中一起跟踪和对比。参数可以直接传数组，也可以上传 CSV，CSV 首行为参数名或参数标签，例如
+//   ticker,市场
+//   00700.HK,港股
+//   AAPL,美股
+import Joi from 'joi';
+import { FormFieldError } from './formSchema';
+import { ParameterDefinition } from './parameters';
+
+// 批量启动时有参数未通过校验抛出的错误码，错误中附带逐行的 rowErrors
+export const INVALID_BATCH_ROWS = 'INVALID_BATCH_ROWS';
+
+// 一个批次最多启动的执行数
+export const MAX_BATCH_SIZE = 100;
+
+export interface BatchRowError {
+  // 从 1 开始的行号（CSV 中不含表头）
+  row: number;
+  errors: FormFieldError[];
+}
+
+export interface BatchSummary {
+  total: number;
+  byStatus: Record<string, number>;
+  completed: number;
+  // 已结束（完成、失败或取消）的执行数
+  finished: number;
+  averageProgress: number;
+}
+
+const FINISHED_STATUSES = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+// 解析 CSV 文本，支持双引号包裹的字段（字段内的 "" 表示一个引号）、CRLF 换行和 UTF-8 BOM，忽略空行
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV 格式错误：引号未闭合');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+// 把 CSV 转为每行一组参数值；表头按参数名或标签匹配，空单元格不填（使用参数默认值）
+export function csvToParameterSets(csv: string, definitions: ParameterDefinition[]): Array<Record<string, string>> {
+  const [header, ...lines] = parseCsv(csv);
+  if (!header) {
+    throw new Error('CSV 内容为空');
+  }
+
+  const keys = header.map(column => {
+    const name = column.trim();
+    const definition = definitions.find(item => item.key === name || item.label === name);
+    if (!definition) {
+      throw new Error(`CSV 列 "${name}" 不是工作流声明的执行参数`);
+    }
+    return definition.key;
+  });
+
+  const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+  if (duplicate) {
+    throw new Error(`CSV 中参数 "${duplicate}" 出现了多次`);
+  }
+
+  return lines.map(cells => {
+    const values: Record<string, string> = {};
+    keys.forEach((key, index) => {
+      const value = (cells[index] ?? '').trim();
+      if (value !== '') values[key] = value;
+    });
+    return values;
+  });
+}
+
+// 批次中执行的状态统计，用于批次列表和对比视图
+export function summarizeBatch(executions: Array<{ status: string; progress?: number | null }>): BatchSummary {
+  const byStatus: Record<string, number> = {};
+  let progress = 0;
+
+  for (const execution of executions) {
+    byStatus[execution.status] = (byStatus[execution.status] || 0) + 1;
+    progress += execution.progress || 0;
+  }
+
+  return {
+    total: executions.length,
+    byStatus,
+    completed: byStatus.COMPLETED || 0,
+    finished: FINISHED_STATUSES.reduce((sum, status) => sum + (byStatus[status] || 0), 0),
+    averageProgress: executions.length > 0 ? Math.round(progress / executions.length) : 0
+  };
+}
+
+// 批量启动请求：rows 和 csv 二选一，优先级、标签和截止日期由批次内所有执行共用
+export const batchSchema = Joi.object({
+  workflowId: Joi.string().required().messages({
+    'any.required': '工作流ID是必填项'
+  }),
+  name: Joi.string().trim().min(1).max(100).required().messages({
+    'string.empty': '批次名称不能为空',
+    'any.required': '批次名称是必填项',
+    'string.max': '批次名称不能超过100个字符'
+  }),
+  rows: Joi.array().items(Joi.object().pattern(Joi.string().max(50), Joi.any())).min(1).max(MAX_BATCH_SIZE).messages({
+    'array.min': '至少需要一组参数',
+    'array.max': `一个批次最多启动 ${MAX_BATCH_SIZE} 个执行`
+  }),
+  csv: Joi.string().max(200000),
+  priority: Joi.string().valid('LOW', 'MEDIUM', 'HIGH', 'URGENT').default('MEDIUM'),
+  tags: Joi.array().items(Joi.string().max(30)).max(10),
+  dueDate: Joi.date().greater('now').messages({
+    'date.base': '截止日期格式不正确',
+    'date.greater': '截止日期不能是过去的时间'
+  })
+}).xor('rows', 'csv').messages({
+  'object.missing': '请提供参数列表或 CSV',
+  'object.xor': '参数列表和 CSV 只能提供一种'
+});
@@ -0,0 +1,192 @@
+// 检查清单步骤：metadata.checklist 中的每一项在执行时单独勾选，可附说明和证明材料（附件），例如
+//   checklist: ["查看最新财报", { label: "检查负债情况", required: true }, { key: "industry", label: "了解行业地位" }]
+//   checklistRule: "all"
+// 项目的标识默认取标签，修改标签会使已勾选的记录失效，需要保留时可另外指定 key；
+// checklistRule 为 "all" 时所有项目都勾选后才能完成步骤，为 "required"（默认）时只要求 required 的项目
+import Joi from 'joi';
+
+// 完成检查清单步骤时还有要求勾选的项目未勾选抛出的错误码
+export const CHECKLIST_INCOMPLETE = 'CHECKLIST_INCOMPLETE';
+
+export const CHECKLIST_RULES = ['all', 'required'] as const;
+export type ChecklistRule = typeof CHECKLIST_RULES[number];
+
+export interface ChecklistItem {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+export interface ChecklistConfig {
+  items: ChecklistItem[];
+  rule: ChecklistRule;
+}
+
+// 执行中某一项的勾选情况
+export interface ChecklistItemState {
+  itemKey: string;
+  checked: boolean;
+  note?: string | null;
+  attachmentId?: string | null;
+  checkedAt?: Date | null;
+  checkedBy?: string | null;
+}
+
+export interface ChecklistProgress {
+  total: number;
+  checked: number;
+  // 0-100
+  percent: number;
+  // 按完成规则还需要勾选的项目
+  missing: ChecklistItem[];
+}
+
+export interface ChecklistItemStats {
+  key: string;
+  label: string;
+  required: boolean;
+  // 统计范围内该步骤的执行记录数
+  total: number;
+  checked: number;
+  completionRate: number;
+  withNote: number;
+  withAttachment: number;
+}
+
+export interface ChecklistStepStats {
+  workflowId: string;
+  workflowName: string;
+  stepName: string;
+  records: number;
+  items: ChecklistItemStats[];
+}
+
+const checklistItemSchema = Joi.alternatives().try(
+  Joi.string().trim().min(1).max(200),
+  Joi.object({
+    key: Joi.string().trim().max(100).optional(),
+    label: Joi.string().trim().min(1).max(200).required(),
+    required: Joi.boolean().optional()
+  }).unknown(true)
+);
+
+const itemKey = (item: unknown) =>
+  typeof item === 'string' ? item.trim() : ((item as any)?.key || (item as any)?.label || '').trim();
+
+export const checklistSchema = Joi.array().items(checklistItemSchema).max(50)
+  .unique((a, b) => itemKey(a) === itemKey(b))
+  .messages({
+    'array.unique': '检查项不能重复',
+    'array.max': '检查项不能超过50个'
+  });
+
+export const checklistRuleSchema = Joi.string().valid(...CHECKLIST_RULES);
+
+// 勾选或取消勾选一项
+export const checklistItemUpdateSchema = Joi.object({
+  item: Joi.string().max(200).required().messages({
+    'any.required': '请指定检查项'
+  }),
+  checked: Joi.boolean().required().messages({
+    'any.required': '请指定是否勾选'
+  }),
+  note: Joi.string().max(1000).allow('', null).optional(),
+  attachmentId: Joi.string().allow(null).optional()
+});
+
+const parseMetadata = (metadata: unknown): any => {
+  if (typeof metadata !== 'string') return metadata;
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    return null;
+  }
+};
+
+// 读取检查清单配置，没有检查项时返回 null
+export function parseChecklistConfig(metadata: unknown): ChecklistConfig | null {
+  const parsed = parseMetadata(metadata);
+  if (!Array.isArray(parsed?.checklist)) {
+    return null;
+  }
+
+  const items: ChecklistItem[] = [];
+  for (const raw of parsed.checklist) {
+    const label = typeof raw === 'string' ? raw.trim() : String(raw?.label ?? '').trim();
+    const key = itemKey(raw);
+    if (!label || !key || items.some(item => item.key === key)) continue;
+    items.push({ key, label, required: typeof raw === 'object' && raw?.required === true });
+  }
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return {
+    items,
+    rule: CHECKLIST_RULES.includes(parsed.checklistRule) ? parsed.checklistRule : 'required'
+  };
+}
+
+// 步骤内的勾选进度；不在当前配置中的勾选记录（如检查项已删除）不计入
+export function getChecklistProgress(config: ChecklistConfig, states: ChecklistItemState[]): ChecklistProgress {
+  const checkedKeys = new Set(states.filter(state => state.checked).map(state => state.itemKey));
+  const checked = config.items.filter(item => checkedKeys.has(item.key)).length;
+  const missing = config.items.filter(item =>
+    !checkedKeys.has(item.key) && (config.rule === 'all' || item.required)
+  );
+
+  return {
+    total: config.items.length,
+    checked,
+    percent: Math.round((checked / config.items.length) * 100),
+    missing
+  };
+}
+
+// 按工作流和步骤名称汇总各检查项在多次执行中的完成情况
+export function summarizeChecklistStats(
+  records: Array<{
+    workflow: { id: string; name: string };
+    step: { name: string; metadata: unknown };
+    states: ChecklistItemState[];
+  }>
+): ChecklistStepStats[] {
+  const groups = new Map<string, ChecklistStepStats>();
+
+  for (const record of records) {
+    const config = parseChecklistConfig(record.step.metadata);
+    if (!config) continue;
+
+    const groupKey = `${record.workflow.id}\u0000${record.step.name}`;
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { workflowId: record.workflow.id, workflowName: record.workflow.name, stepName: record.step.name, records: 0, items: [] };
+      groups.set(groupKey, group);
+    }
+    group.records++;
+
+    const states = new Map(record.states.map(state => [state.itemKey, state]));
+    for (const item of config.items) {
+      let stats = group.items.find(existing => existing.key === item.key);
+      if (!stats) {
+        stats = { key: item.key, label: item.label, required: item.required, total: 0, checked: 0, completionRate: 0, withNote: 0, withAttachment: 0 };
+        group.items.push(stats);
+      }
+
+      const state = states.get(item.key);
+      stats.total++;
+      if (state?.checked) stats.checked++;
+      if (state?.note) stats.withNote++;
+      if (state?.attachmentId) stats.withAttachment++;
+    }
+  }
+
+  const result = Array.from(groups.values());
+  for (const group of result) {
+    for (const item of group.items) {
+      item.completionRate = item.total > 0 ? Math.round((item.checked / item.total) * 1000) / 10 : 0;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,98 @@
+// 执行评论：可以针对整个执行或某个步骤发表评论，回复挂在顶层评论下形成讨论串；
+// 评论中的 @邮箱 或 @姓名 会提到执行的发起人或参与者并通知他们，不是执行成员的提及会被忽略。
+// 修改和删除前的内容保存为历史版本，删除后评论保留在讨论串中但不再显示内容；
+// 顶层评论可以标记为已解决，用于跟踪尚待回答的问题
+import Joi from 'joi';
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+export const commentSchema = Joi.object({
+  body: Joi.string().trim().min(1).max(MAX_COMMENT_LENGTH).required().messages({
+    'string.empty': '请填写评论内容',
+    'any.required': '请填写评论内容',
+    'string.max': `评论不能超过${MAX_COMMENT_LENGTH}个字符`
+  }),
+  // 针对某个步骤的评论
+  recordId: Joi.string().optional(),
+  // 回复的顶层评论
+  parentId: Joi.string().optional()
+});
+
+export const commentUpdateSchema = Joi.object({
+  body: commentSchema.extract('body')
+});
+
+export interface CommentMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
+// @ 后面是邮箱，或到空白和标点为止的姓名；@ 前面是字母或数字时视为邮箱的一部分，不是提及
+const MENTION_PATTERN = /(^|[^A-Za-z0-9._%+-])@([A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+|[^\s@,，.。:：;；!！?？、()（）[\]【】"'“”‘’<>《》]+)/g;
+
+// 解析评论中提到的邮箱或姓名，去重并保持出现顺序
+export function parseMentions(body: string): string[] {
+  const tokens: string[] = [];
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const token = match[2];
+    if (!tokens.includes(token)) {
+      tokens.push(token);
+    }
+  }
+
+  return tokens;
+}
+
+// 按邮箱（不区分大小写）或姓名匹配提到的执行成员，排除评论作者本人
+export function resolveMentions(body: string, members: CommentMember[], authorId?: string): CommentMember[] {
+  const tokens = parseMentions(body);
+
+  return members.filter(member =>
+    member.id !== authorId &&
+    tokens.some(token => token.toLowerCase() === member.email.toLowerCase() || token === member.name)
+  );
+}
+
+export interface CommentNode {
+  id: string;
+  parentId?: string | null;
+  createdAt: Date | string;
+}
+
+// 把评论整理为讨论串：顶层评论按时间排列，回复按时间挂在所属顶层评论的 replies 下
+export function buildCommentThreads<T extends CommentNode>(comments: T[]): Array<T & { replies: T[] }> {
+  const byTime = [...comments].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const threads = byTime
+    .filter(comment => !comment.parentId)
+    .map(comment => ({ ...comment, replies: [] as T[] }));
+
+  for (const comment of byTime) {
+    const thread = comment.parentId ? threads.find(item => item.id === comment.parentId) : undefined;
+    thread?.replies.push(comment);
+  }
+
+  return threads;
+}
+
+export interface ExportedComment {
+  stepName?: string | null;
+  author: string;
+  body: string;
+  resolved?: boolean;
+  isReply?: boolean;
+  createdAt: string;
+}
+
+// 导出为 CSV 时把评论合并为一列文本，每条评论一行
+export function formatCommentsText(comments: ExportedComment[]): string {
+  return comments
+    .map(comment => {
+      const scope = comment.stepName ? `[${comment.stepName}] ` : '';
+      const prefix = comment.isReply ? '  ↳ ' : '';
+      const resolved = comment.resolved ? '（已解决）' : '';
+      return `${prefix}${scope}${comment.author} ${comment.createdAt}：${comment.body}${resolved}`;
+    })
+    .join('\n');
+}
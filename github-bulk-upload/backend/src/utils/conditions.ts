@@ -0,0 +1,207 @@
+// 步骤条件分支
+// 条件存储在 WorkflowStep.conditions 中（JSON字符串），格式示例：
+// {
+//   "mode": "all",
+//   "rules": [
+//     { "step": "5", "field": "decision", "operator": "in", "value": ["买入", "持有"] }
+//   ]
+// }
+// step 可以是步骤ID，也可以是步骤顺序号（与种子数据中的依赖写法一致）
+// field 从被引用步骤的 ExecutionRecord.data 中读取（其次是 result），默认为 decision
+
+export const CONDITION_OPERATORS = ['eq', 'neq', 'in', 'notIn', 'gt', 'gte', 'lt', 'lte', 'exists'] as const;
+
+export type ConditionOperator = typeof CONDITION_OPERATORS[number];
+
+export interface ConditionRule {
+  step: string;
+  field?: string;
+  operator: ConditionOperator;
+  value?: any;
+}
+
+export interface StepConditions {
+  mode?: 'all' | 'any';
+  rules: ConditionRule[];
+}
+
+// 条件评估结果：满足、不满足、尚无法判断（被引用的步骤还未结束）
+export type ConditionOutcome = 'MATCHED' | 'UNMATCHED' | 'UNRESOLVED';
+
+// 条件评估所需的步骤信息
+export interface ConditionStepState {
+  stepId: string;
+  order: number;
+  status: string;
+  data?: Record<string, any> | null;
+  result?: Record<string, any> | null;
+}
+
+// 默认读取的决策字段
+export const DEFAULT_CONDITION_FIELD = 'decision';
+
+// 自动跳过标记，写入 ExecutionRecord.result
+export const CONDITION_SKIP_MARKER = 'conditionSkipped';
+
+const FINISHED_STATUSES = ['COMPLETED', 'SKIPPED', 'FAILED'];
+
+// 解析条件配置，无效配置返回 null
+export function parseConditions(raw: unknown): StepConditions | null {
+  let value = raw;
+
+  if (typeof value === 'string') {
+    if (value.trim() === '') return null;
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!value || typeof value !== 'object' || !Array.isArray((value as any).rules)) {
+    return null;
+  }
+
+  const conditions = value as StepConditions;
+  if (conditions.rules.length === 0) {
+    return null;
+  }
+
+  return conditions;
+}
+
+// 根据步骤ID或顺序号查找步骤
+export function resolveStepRef<T extends { stepId: string; order: number }>(
+  ref: string,
+  steps: T[]
+): T | undefined {
+  return steps.find(step => step.stepId === ref) ||
+    steps.find(step => String(step.order) === String(ref));
+}
+
+// 读取字段值，支持 a.b.c 形式的路径
+function readField(state: ConditionStepState, field: string): any {
+  const read = (source?: Record<string, any> | null) =>
+    field.split('.').reduce<any>((acc, key) => (acc == null ? undefined : acc[key]), source);
+
+  const fromData = read(state.data);
+  return fromData !== undefined ? fromData : read(state.result);
+}
+
+function compare(actual: any, operator: ConditionOperator, expected: any): boolean {
+  switch (operator) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'notIn':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'gt':
+      return Number(actual) > Number(expected);
+    case 'gte':
+      return Number(actual) >= Number(expected);
+    case 'lt':
+      return Number(actual) < Number(expected);
+    case 'lte':
+      return Number(actual) <= Number(expected);
+    case 'exists':
+      return actual !== undefined && actual !== null && actual !== '';
+    default:
+      return false;
+  }
+}
+
+// 评估单条规则
+export function evaluateRule(rule: ConditionRule, steps: ConditionStepState[]): ConditionOutcome {
+  const source = resolveStepRef(rule.step, steps);
+
+  // 引用的步骤不存在时视为不满足，避免分支永远挂起
+  if (!source) {
+    return 'UNMATCHED';
+  }
+
+  if (!FINISHED_STATUSES.includes(source.status)) {
+    return 'UNRESOLVED';
+  }
+
+  const actual = readField(source, rule.field || DEFAULT_CONDITION_FIELD);
+  return compare(actual, rule.operator, rule.value) ? 'MATCHED' : 'UNMATCHED';
+}
+
+// 评估步骤条件
+export function evaluateConditions(conditions: StepConditions, steps: ConditionStepState[]): ConditionOutcome {
+  const outcomes = conditions.rules.map(rule => evaluateRule(rule, steps));
+
+  if (conditions.mode === 'any') {
+    if (outcomes.includes('MATCHED')) return 'MATCHED';
+    return outcomes.includes('UNRESOLVED') ? 'UNRESOLVED' : 'UNMATCHED';
+  }
+
+  if (outcomes.includes('UNMATCHED')) return 'UNMATCHED';
+  return outcomes.includes('UNRESOLVED') ? 'UNRESOLVED' : 'MATCHED';
+}
+
+// 决策步骤的参考标准，存储在 metadata.criteria 中，规则写法与分支条件相同：
+//   { "label": "杠杆IRR不低于8%", "step": "4", "field": "property.irr", "operator": "gte", "value": 0.08 }
+export interface DecisionCriterion extends ConditionRule {
+  label: string;
+}
+
+export interface CriterionResult extends DecisionCriterion {
+  actual?: any;
+  outcome: ConditionOutcome;
+}
+
+// 解析决策标准，忽略无效的项
+export function parseCriteria(metadata: unknown): DecisionCriterion[] {
+  let parsed: any = metadata;
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return [];
+    }
+  }
+
+  const criteria = parsed?.criteria;
+  if (!Array.isArray(criteria)) {
+    return [];
+  }
+
+  return criteria.filter((criterion: any) =>
+    criterion && typeof criterion === 'object' && criterion.step && CONDITION_OPERATORS.includes(criterion.operator)
+  ).map((criterion: any) => ({ ...criterion, label: criterion.label || criterion.field || DEFAULT_CONDITION_FIELD }));
+}
+
+// 逐条评估决策标准，返回实际值供决策人参考
+export function evaluateCriteria(criteria: DecisionCriterion[], steps: ConditionStepState[]): CriterionResult[] {
+  return criteria.map(criterion => {
+    const source = resolveStepRef(criterion.step, steps);
+    const outcome = evaluateRule(criterion, steps);
+    const actual = source && outcome !== 'UNRESOLVED'
+      ? readField(source, criterion.field || DEFAULT_CONDITION_FIELD)
+      : undefined;
+
+    return { ...criterion, actual, outcome };
+  });
+}
+
+// 判断步骤记录是否因条件不满足而被自动跳过
+export function isConditionSkipped(status: string, result: unknown): boolean {
+  if (status !== 'SKIPPED' || !result) {
+    return false;
+  }
+
+  let parsed = result;
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return false;
+    }
+  }
+
+  return !!parsed && typeof parsed === 'object' && (parsed as any)[CONDITION_SKIP_MARKER] === true;
+}
@@ -59,6 +59,23 @@ export class DatabaseUtils {
     }
   }
 
+  // 解析以JSON字符串存储的字段
+  static parseJsonField<T = any>(value: unknown, fallback: T | null = null): T | null {
+    if (value === null || value === undefined || value === '') {
+      return fallback;
+    }
+
+    if (typeof value !== 'string') {
+      return value as T;
+    }
+
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+
   // 批量插入数据
   static async batchInsert<T>(
     model: any,
@@ -0,0 +1,174 @@
+// 步骤依赖关系（有向无环图）
+// 依赖存储在 WorkflowStep.dependencies 中（JSON字符串数组），保存工作流时统一解析为步骤ID
+// 输入时允许使用步骤ID或步骤顺序号（与种子数据中的写法一致）
+import { resolveStepRef } from './conditions';
+
+// 视为已满足依赖的步骤状态
+export const DEPENDENCY_SATISFIED_STATUSES = ['COMPLETED', 'SKIPPED'];
+
+// 依赖未满足时抛出的错误码
+export const DEPENDENCIES_NOT_MET = 'DEPENDENCIES_NOT_MET';
+
+export interface DependencyStep {
+  id: string;
+  order: number;
+  name?: string;
+  dependencies?: unknown;
+}
+
+export interface BlockingStep {
+  stepId: string;
+  name?: string;
+  order: number;
+  status: string;
+}
+
+// 依赖判断所需的步骤记录信息
+export interface DependencyRecordState {
+  recordId: string;
+  stepId: string;
+  name?: string;
+  order: number;
+  status: string;
+  dependencies?: unknown;
+}
+
+// 解析依赖配置，兼容数组和JSON字符串
+export function parseDependencies(raw: unknown): string[] {
+  let value = raw;
+
+  if (typeof value === 'string') {
+    if (value.trim() === '') return [];
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter(item => item !== null && item !== undefined && item !== '').map(item => String(item));
+}
+
+// 将依赖引用解析为步骤ID，并校验引用有效且不存在循环依赖
+export function resolveDependencies<T extends DependencyStep>(steps: T[]): Map<string, string[]> {
+  const refs = steps.map(step => ({ stepId: step.id, order: step.order }));
+  const resolved = new Map<string, string[]>();
+
+  for (const step of steps) {
+    const ids: string[] = [];
+
+    for (const ref of parseDependencies(step.dependencies)) {
+      const target = resolveStepRef(ref, refs);
+      if (!target) {
+        throw new Error(`步骤 "${step.name || step.order}" 的依赖 "${ref}" 不存在`);
+      }
+      if (target.stepId === step.id) {
+        throw new Error(`步骤 "${step.name || step.order}" 不能依赖自身`);
+      }
+      if (!ids.includes(target.stepId)) {
+        ids.push(target.stepId);
+      }
+    }
+
+    resolved.set(step.id, ids);
+  }
+
+  const cycle = findDependencyCycle(resolved);
+  if (cycle) {
+    const names = cycle.map(id => {
+      const step = steps.find(s => s.id === id);
+      return step?.name || String(step?.order ?? id);
+    });
+    throw new Error(`步骤依赖存在循环: ${names.join(' → ')}`);
+  }
+
+  return resolved;
+}
+
+// 查找依赖图中的环，返回环上的步骤ID（首尾相同），无环返回 null
+export function findDependencyCycle(graph: Map<string, string[]>): string[] | null {
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (visiting.has(id)) {
+      return [...path.slice(path.indexOf(id)), id];
+    }
+    if (visited.has(id)) {
+      return null;
+    }
+
+    visiting.add(id);
+    path.push(id);
+
+    for (const dependency of graph.get(id) || []) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+
+    path.pop();
+    visiting.delete(id);
+    visited.add(id);
+    return null;
+  };
+
+  for (const id of graph.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
+
+// 获取阻塞某个步骤的前置步骤
+export function getBlockingSteps(record: DependencyRecordState, records: DependencyRecordState[]): BlockingStep[] {
+  return parseDependencies(record.dependencies)
+    .map(ref => resolveStepRef(ref, records))
+    .filter((dependency): dependency is DependencyRecordState =>
+      !!dependency && !DEPENDENCY_SATISFIED_STATUSES.includes(dependency.status)
+    )
+    .map(dependency => ({
+      stepId: dependency.stepId,
+      name: dependency.name,
+      order: dependency.order,
+      status: dependency.status
+    }));
+}
+
+// 获取所有前置步骤已完成、可以开始的待处理步骤
+export function getReadyRecords<T extends DependencyRecordState>(records: T[]): T[] {
+  return records
+    .filter(record => record.status === 'PENDING' && getBlockingSteps(record, records).length === 0)
+    .sort((a, b) => a.order - b.order);
+}
+
+// 获取直接或间接依赖某个步骤的所有后续步骤，按顺序号排列
+export function getDependentRecords<T extends DependencyRecordState>(recordId: string, records: T[]): T[] {
+  const dependents = new Set<string>();
+  const queue = [recordId];
+
+  while (queue.length > 0) {
+    const currentId = queue.shift();
+    const current = records.find(record => record.recordId === currentId);
+    if (!current) continue;
+
+    for (const record of records) {
+      if (record.recordId === recordId || dependents.has(record.recordId)) continue;
+      const dependsOnCurrent = parseDependencies(record.dependencies)
+        .some(ref => resolveStepRef(ref, records)?.recordId === current.recordId);
+      if (dependsOnCurrent) {
+        dependents.add(record.recordId);
+        queue.push(record.recordId);
+      }
+    }
+  }
+
+  return records
+    .filter(record => dependents.has(record.recordId))
+    .sort((a, b) => a.order - b.order);
+}
@@ -0,0 +1,170 @@
+// 步骤的证明材料要求：metadata.evidence 声明完成步骤前必须留下的分析痕迹，例如
+//   evidence: {
+//     minAttachments: 1,
+//     attachmentTypes: [{ type: "pdf", label: "财报 PDF" }],
+//     minNoteLength: 50,
+//     requiredFields: ["targetPrice", { key: "rating", label: "评级" }]
+//   }
+// attachmentTypes 中每种类型至少需要一个附件，类型可以是扩展名（pdf、xlsx）、
+// MIME 类型（application/pdf、image/*）或附件分类（image、document、text）
+// 步骤状态只由 ExecutionService 按状态转换表修改，模型层没有单独的完成方法。手动完成步骤的入口
+// （ExecutionService.completeStep 和 updateStepStatus）在状态转换前调用 ExecutionRecordModel.assertEvidence 检查；
+// 审批步骤由审批通过完成，通知和子流程步骤由系统自动完成，不检查证明材料
+import Joi from 'joi';
+
+// 完成步骤时证明材料不满足要求抛出的错误码
+export const EVIDENCE_REQUIREMENTS_UNMET = 'EVIDENCE_REQUIREMENTS_UNMET';
+
+export type EvidenceRuleType = 'minAttachments' | 'attachmentType' | 'minNoteLength' | 'requiredField';
+
+export interface EvidenceRules {
+  minAttachments?: number;
+  attachmentTypes: Array<{ type: string; label: string }>;
+  minNoteLength?: number;
+  requiredFields: Array<{ key: string; label: string }>;
+}
+
+// 未满足的一条要求，expected/actual 用于界面显示差距
+export interface UnmetEvidenceRule {
+  rule: EvidenceRuleType;
+  message: string;
+  expected?: number | string;
+  actual?: number;
+}
+
+export interface EvidenceAttachment {
+  originalName: string;
+  mimeType?: string | null;
+  fileType?: string | null;
+}
+
+const labelled = (keyName: string) => Joi.alternatives().try(
+  Joi.string().trim().min(1).max(100),
+  Joi.object({
+    [keyName]: Joi.string().trim().min(1).max(100).required(),
+    label: Joi.string().max(100).optional()
+  })
+);
+
+export const evidenceSchema = Joi.object({
+  minAttachments: Joi.number().integer().min(0).max(20).optional(),
+  attachmentTypes: Joi.array().items(labelled('type')).max(10).optional(),
+  minNoteLength: Joi.number().integer().min(0).max(5000).optional(),
+  requiredFields: Joi.array().items(labelled('key')).max(50).optional()
+});
+
+const parseMetadata = (metadata: unknown): any => {
+  if (typeof metadata !== 'string') return metadata;
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    return null;
+  }
+};
+
+const toLabelled = (raw: unknown, keyName: 'type' | 'key') => {
+  const value = typeof raw === 'string' ? raw.trim() : String((raw as any)?.[keyName] ?? '').trim();
+  const label = typeof raw === 'object' && (raw as any)?.label ? String((raw as any).label) : value;
+  return value ? { value, label } : null;
+};
+
+// 必填字段未单独指定标签时沿用表单字段的标签
+const fieldLabel = (parsed: any, item: { value: string; label: string }) => {
+  if (item.label !== item.value || !Array.isArray(parsed?.fields)) return item.label;
+  const field = parsed.fields.find((candidate: any) => typeof candidate === 'object' && candidate?.key === item.value);
+  return field?.label ? String(field.label) : item.label;
+};
+
+// 读取证明材料要求，没有任何有效要求时返回 null
+export function parseEvidenceRules(metadata: unknown): EvidenceRules | null {
+  const parsed = parseMetadata(metadata);
+  const evidence = parsed?.evidence;
+  if (!evidence || typeof evidence !== 'object') {
+    return null;
+  }
+
+  const positive = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : undefined;
+
+  const rules: EvidenceRules = {
+    minAttachments: positive(evidence.minAttachments),
+    attachmentTypes: (Array.isArray(evidence.attachmentTypes) ? evidence.attachmentTypes : [])
+      .map((raw: unknown) => toLabelled(raw, 'type'))
+      .filter(Boolean)
+      .map((item: { value: string; label: string }) => ({ type: item.value.toLowerCase(), label: item.label })),
+    minNoteLength: positive(evidence.minNoteLength),
+    requiredFields: (Array.isArray(evidence.requiredFields) ? evidence.requiredFields : [])
+      .map((raw: unknown) => toLabelled(raw, 'key'))
+      .filter(Boolean)
+      .map((item: { value: string; label: string }) => ({ key: item.value, label: fieldLabel(parsed, item) }))
+  };
+
+  const hasRules = rules.minAttachments || rules.minNoteLength ||
+    rules.attachmentTypes.length > 0 || rules.requiredFields.length > 0;
+  return hasRules ? rules : null;
+}
+
+// 附件是否属于指定类型
+export function matchesAttachmentType(type: string, attachment: EvidenceAttachment): boolean {
+  const expected = type.toLowerCase().replace(/^\./, '');
+  const mimeType = (attachment.mimeType || '').toLowerCase();
+
+  if (expected.includes('/')) {
+    return expected.endsWith('/*')
+      ? mimeType.startsWith(expected.slice(0, -1))
+      : mimeType === expected;
+  }
+
+  if (['image', 'document', 'text'].includes(expected) && attachment.fileType) {
+    return attachment.fileType.toLowerCase() === expected;
+  }
+
+  return attachment.originalName.toLowerCase().endsWith(`.${expected}`) || mimeType.split('/')[1] === expected;
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+// 逐条检查证明材料要求，返回所有未满足的要求
+export function checkEvidence(
+  rules: EvidenceRules,
+  submission: { attachments: EvidenceAttachment[]; notes?: string | null; data?: Record<string, any> | null }
+): UnmetEvidenceRule[] {
+  const unmet: UnmetEvidenceRule[] = [];
+  const attachments = submission.attachments;
+
+  if (rules.minAttachments && attachments.length < rules.minAttachments) {
+    unmet.push({
+      rule: 'minAttachments',
+      message: `至少需要上传 ${rules.minAttachments} 个附件，当前 ${attachments.length} 个`,
+      expected: rules.minAttachments,
+      actual: attachments.length
+    });
+  }
+
+  for (const { type, label } of rules.attachmentTypes) {
+    if (!attachments.some(attachment => matchesAttachmentType(type, attachment))) {
+      unmet.push({ rule: 'attachmentType', message: `需要上传${label}`, expected: type });
+    }
+  }
+
+  const noteLength = (submission.notes || '').trim().length;
+  if (rules.minNoteLength && noteLength < rules.minNoteLength) {
+    unmet.push({
+      rule: 'minNoteLength',
+      message: `步骤笔记至少需要 ${rules.minNoteLength} 个字，当前 ${noteLength} 个`,
+      expected: rules.minNoteLength,
+      actual: noteLength
+    });
+  }
+
+  for (const { key, label } of rules.requiredFields) {
+    if (isEmpty(submission.data?.[key])) {
+      unmet.push({ rule: 'requiredField', message: `需要填写${label}`, expected: key });
+    }
+  }
+
+  return unmet;
+}
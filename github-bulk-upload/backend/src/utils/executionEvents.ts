@@ -0,0 +1,76 @@
+// 执行事件日志：执行和步骤的每次修改追加一条事件，记录操作人、时间、修改前后的值和原因
+// 状态转换的事件由转换表的事件转换而来，其余修改（笔记、数据、审批意见、截止日期等）由各自的方法记录
+import { TransitionEvent } from './stateMachine';
+
+export const EXECUTION_EVENT_TYPES = {
+  EXECUTION_STARTED: '启动执行',
+  EXECUTION_UPDATED: '修改执行',
+  STATUS_CHANGED: '状态变更',
+  STEP_UPDATED: '修改步骤',
+  CHECKLIST_ITEM_UPDATED: '勾选检查项',
+  VALUATION_SAVED: '保存估值模型',
+  PROPERTY_MODEL_SAVED: '保存房地产测算',
+  APPROVAL_DECIDED: '提交审批意见',
+  REVIEW_ADDED: '添加复盘',
+  STEP_REVIEW_ADDED: '添加步骤复盘',
+  DUE_DATE_CHANGED: '修改截止日期',
+  STEP_ESCALATED: '超时升级',
+  PARTICIPANT_ADDED: '添加参与者',
+  PARTICIPANT_UPDATED: '修改参与者角色',
+  PARTICIPANT_REMOVED: '移除参与者',
+  STEP_ASSIGNED: '分配步骤'
+} as const;
+
+export type ExecutionEventType = keyof typeof EXECUTION_EVENT_TYPES;
+
+// 写入事件日志的内容，actorId 为空表示系统自动处理
+export interface ExecutionEventInput {
+  executionId: string;
+  recordId?: string;
+  actorId?: string;
+  type: ExecutionEventType;
+  action?: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  reason?: string;
+}
+
+// JSON 序列化后比较，日期和嵌套对象按值比较
+const serialize = (value: unknown) => JSON.stringify(value === undefined ? null : value);
+
+// 比较修改前后的字段，只保留发生变化的字段；after 中未提供（undefined）的字段视为未修改
+// 没有任何变化时返回 null
+export function diffFields(
+  before: Record<string, any>,
+  after: Record<string, any>
+): { before: Record<string, any>; after: Record<string, any> } | null {
+  const changed = Object.keys(after).filter(key =>
+    after[key] !== undefined && serialize(before[key]) !== serialize(after[key])
+  );
+
+  if (changed.length === 0) {
+    return null;
+  }
+
+  return {
+    before: Object.fromEntries(changed.map(key => [key, before[key] ?? null])),
+    after: Object.fromEntries(changed.map(key => [key, after[key]]))
+  };
+}
+
+// 状态转换事件对应的事件日志
+export function fromTransition(
+  event: TransitionEvent,
+  changes?: { before: Record<string, any>; after: Record<string, any> } | null
+): ExecutionEventInput {
+  return {
+    executionId: event.executionId,
+    recordId: event.recordId,
+    actorId: event.userId,
+    type: 'STATUS_CHANGED',
+    action: event.action,
+    before: { ...changes?.before, status: event.from },
+    after: { ...changes?.after, status: event.to },
+    reason: event.reason
+  };
+}
@@ -0,0 +1,118 @@
+// 执行实时推送：打开执行页面的成员通过 SSE 订阅执行的变化，
+// 步骤和执行状态、进度、评论和附件的修改推送给该执行的所有订阅者，前端据此局部更新；
+// 订阅者列表同时作为在线成员（presence）推送，同一用户打开多个页面只算一次。
+// 推送只在当前进程内广播，多实例部署时每个实例只推送本实例内发生的修改
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+
+export const EXECUTION_STREAM_EVENT_TYPES = ['step', 'execution', 'comment', 'attachment', 'presence'] as const;
+export type ExecutionStreamEventType = typeof EXECUTION_STREAM_EVENT_TYPES[number];
+
+export interface ExecutionStreamMessage {
+  type: ExecutionStreamEventType;
+  executionId: string;
+  recordId?: string | null;
+  // 触发修改的用户，系统自动处理时为空
+  actorId?: string | null;
+  data: Record<string, unknown>;
+  at: string;
+}
+
+export interface StreamViewer {
+  id: string;
+  name: string;
+}
+
+interface Subscriber {
+  id: string;
+  viewer: StreamViewer;
+  send: (message: ExecutionStreamMessage) => void;
+  close: () => void;
+}
+
+// 按 SSE 格式编码一条消息，data 为 JSON
+export function formatSseMessage(message: ExecutionStreamMessage, id?: string | number): string {
+  const lines = [
+    ...(id !== undefined ? [`id: ${id}`] : []),
+    `event: ${message.type}`,
+    `data: ${JSON.stringify(message)}`
+  ];
+  return `${lines.join('\n')}\n\n`;
+}
+
+// 在线成员去重，保持订阅顺序
+export function listViewers(viewers: StreamViewer[]): StreamViewer[] {
+  return viewers.filter((viewer, index) => viewers.findIndex(item => item.id === viewer.id) === index);
+}
+
+export class ExecutionStream {
+  private subscribers = new Map<string, Subscriber[]>();
+
+  // 订阅执行的推送，返回取消订阅的函数；订阅和取消订阅时向所有订阅者推送在线成员。
+  // close 用于服务端主动断开连接，如成员被移出执行
+  subscribe(
+    executionId: string,
+    viewer: StreamViewer,
+    send: (message: ExecutionStreamMessage) => void,
+    close: () => void
+  ): () => void {
+    const subscriber = { id: randomUUID(), viewer, send, close };
+    this.subscribers.set(executionId, [...(this.subscribers.get(executionId) || []), subscriber]);
+    this.publishPresence(executionId);
+
+    return () => {
+      const remaining = (this.subscribers.get(executionId) || []).filter(item => item.id !== subscriber.id);
+      if (remaining.length > 0) {
+        this.subscribers.set(executionId, remaining);
+      } else {
+        this.subscribers.delete(executionId);
+      }
+      this.publishPresence(executionId);
+    };
+  }
+
+  publish(message: Omit<ExecutionStreamMessage, 'at'> & { at?: string }): void {
+    const subscribers = this.subscribers.get(message.executionId);
+    if (!subscribers) {
+      return;
+    }
+
+    const full = { ...message, at: message.at || new Date().toISOString() };
+    for (const subscriber of subscribers) {
+      // 单个连接写入失败不影响其他订阅者，连接关闭时会自行取消订阅
+      try {
+        subscriber.send(full);
+      } catch (error) {
+        logger.warn('Execution stream send failed', {
+          executionId: message.executionId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  // 断开用户对执行的所有订阅，用户失去执行的访问权限时调用
+  disconnect(executionId: string, userId: string): void {
+    (this.subscribers.get(executionId) || [])
+      .filter(subscriber => subscriber.viewer.id === userId)
+      .forEach(subscriber => subscriber.close());
+  }
+
+  getViewers(executionId: string): StreamViewer[] {
+    return listViewers((this.subscribers.get(executionId) || []).map(subscriber => subscriber.viewer));
+  }
+
+  hasSubscribers(executionId: string): boolean {
+    return this.subscribers.has(executionId);
+  }
+
+  private publishPresence(executionId: string): void {
+    this.publish({
+      type: 'presence',
+      executionId,
+      data: { viewers: this.getViewers(executionId) }
+    });
+  }
+}
+
+export const executionStream = new ExecutionStream();
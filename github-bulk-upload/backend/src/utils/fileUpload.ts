@@ -149,4 +149,21 @@ export const getFileInfo = (filePath: string): Promise<fs.Stats> => {
       }
     });
   });
-};
\ No newline at end of file
+};
+// 工作流导入文件（JSON/YAML），只在内存中解析，不落盘
+export const WORKFLOW_IMPORT_FILE_TYPES = ['.json', '.yaml', '.yml'];
+
+export const uploadWorkflowImport = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    if (!WORKFLOW_IMPORT_FILE_TYPES.includes(path.extname(file.originalname).toLowerCase())) {
+      return cb(new Error('只支持导入 JSON 或 YAML 文件'));
+    }
+
+    cb(null, true);
+  },
+  limits: {
+    fileSize: 1024 * 1024, // 1MB
+    files: 1,
+  }
+}).single('file');
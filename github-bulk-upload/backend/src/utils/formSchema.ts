@@ -0,0 +1,166 @@
+// INPUT 步骤的表单定义
+// 字段定义存储在 WorkflowStep.metadata.fields 中，例如：
+//   { key: 'positionRatio', label: '仓位比例', type: 'percentage', required: true, min: 0, max: 30 }
+// 早期数据中 fields 为字符串数组（只有字段名称），解析时按单行文本字段处理
+import { DatabaseUtils } from './database';
+
+export const FORM_FIELD_TYPES = [
+  'text',
+  'textarea',
+  'number',
+  'currency',
+  'percentage',
+  'date',
+  'select',
+  'ticker'
+] as const;
+
+export type FormFieldType = typeof FORM_FIELD_TYPES[number];
+
+export interface FormField {
+  key: string;
+  label: string;
+  type: FormFieldType;
+  required?: boolean;
+  // 数值类字段为取值范围，日期为最早/最晚日期，文本为长度范围
+  min?: number | string;
+  max?: number | string;
+  options?: string[];
+  currency?: string;
+  placeholder?: string;
+  helpText?: string;
+}
+
+export interface FormFieldError {
+  field: string;
+  label: string;
+  message: string;
+}
+
+export interface FormValidationResult {
+  isValid: boolean;
+  errors: FormFieldError[];
+  values: Record<string, any>;
+}
+
+// 提交的数据未通过表单校验时抛出的错误码
+export const INVALID_STEP_DATA = 'INVALID_STEP_DATA';
+
+const NUMERIC_TYPES: FormFieldType[] = ['number', 'currency', 'percentage'];
+
+// 股票代码：字母数字，可带交易所后缀，如 AAPL、600519.SH、BRK.B
+const TICKER_PATTERN = /^[A-Z0-9]{1,10}([.-][A-Z0-9]{1,4})?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+// 从步骤 metadata 中读取表单字段定义
+export function parseFormFields(metadata: unknown): FormField[] {
+  const parsed = DatabaseUtils.parseJsonField(metadata) as Record<string, any> | null;
+  const fields = parsed?.fields;
+
+  if (!Array.isArray(fields)) {
+    return [];
+  }
+
+  return fields
+    .map((field: any): FormField | null => {
+      if (typeof field === 'string') {
+        return field.trim() ? { key: field, label: field, type: 'text' } : null;
+      }
+      if (!field || typeof field !== 'object' || !field.key) {
+        return null;
+      }
+      return {
+        ...field,
+        label: field.label || field.key,
+        type: FORM_FIELD_TYPES.includes(field.type) ? field.type : 'text'
+      };
+    })
+    .filter((field): field is FormField => field !== null);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+// 校验并转换单个字段的值，返回错误信息或转换后的值
+function validateField(field: FormField, value: any): { error?: string; value?: any } {
+  if (NUMERIC_TYPES.includes(field.type)) {
+    const number = typeof value === 'number' ? value : Number(String(value).replace(/[,\s%]/g, ''));
+    if (!Number.isFinite(number)) {
+      return { error: `"${field.label}" 必须是数字` };
+    }
+    if (field.min !== undefined && number < Number(field.min)) {
+      return { error: `"${field.label}" 不能小于 ${field.min}` };
+    }
+    if (field.max !== undefined && number > Number(field.max)) {
+      return { error: `"${field.label}" 不能大于 ${field.max}` };
+    }
+    return { value: number };
+  }
+
+  switch (field.type) {
+    case 'date': {
+      const text = String(value);
+      if (!DATE_PATTERN.test(text) || Number.isNaN(Date.parse(text))) {
+        return { error: `"${field.label}" 不是有效的日期` };
+      }
+      const date = text.slice(0, 10);
+      if (field.min !== undefined && date < String(field.min)) {
+        return { error: `"${field.label}" 不能早于 ${field.min}` };
+      }
+      if (field.max !== undefined && date > String(field.max)) {
+        return { error: `"${field.label}" 不能晚于 ${field.max}` };
+      }
+      return { value: date };
+    }
+    case 'select':
+      if (!(field.options || []).includes(String(value))) {
+        return { error: `"${field.label}" 必须是以下选项之一: ${(field.options || []).join('、')}` };
+      }
+      return { value: String(value) };
+    case 'ticker': {
+      const ticker = String(value).trim().toUpperCase();
+      if (!TICKER_PATTERN.test(ticker)) {
+        return { error: `"${field.label}" 不是有效的股票代码` };
+      }
+      return { value: ticker };
+    }
+    default: {
+      const text = String(value);
+      if (field.min !== undefined && text.length < Number(field.min)) {
+        return { error: `"${field.label}" 至少需要 ${field.min} 个字符` };
+      }
+      if (field.max !== undefined && text.length > Number(field.max)) {
+        return { error: `"${field.label}" 不能超过 ${field.max} 个字符` };
+      }
+      return { value: text };
+    }
+  }
+}
+
+// 按表单定义校验提交的数据，未定义的字段原样保留（如 DECISION 的 decision）
+export function validateFormData(fields: FormField[], data: Record<string, any> = {}): FormValidationResult {
+  const errors: FormFieldError[] = [];
+  const values: Record<string, any> = { ...data };
+
+  for (const field of fields) {
+    const value = data[field.key];
+
+    if (isEmpty(value)) {
+      if (field.required) {
+        errors.push({ field: field.key, label: field.label, message: `"${field.label}" 是必填项` });
+      }
+      delete values[field.key];
+      continue;
+    }
+
+    const result = validateField(field, value);
+    if (result.error) {
+      errors.push({ field: field.key, label: field.label, message: result.error });
+    } else {
+      values[field.key] = result.value;
+    }
+  }
+
+  return { isValid: errors.length === 0, errors, values };
+}
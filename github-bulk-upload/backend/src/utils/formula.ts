@@ -0,0 +1,503 @@
+// 计算步骤的公式引擎
+// 公式语言只支持数字运算，不执行任意代码：
+//   数字：12、1.5、1e6、8%（= 0.08）
+//   运算：+ - * / ^，比较运算 == != > >= < <=（结果为 1 或 0），括号
+//   函数：见 FORMULA_FUNCTIONS，如 round(x, 2)、if(条件, a, b)、dcf(...)
+//   引用：eps（本步骤录入的数据或前面的计算结果）、step1.revenue（顺序号为1的步骤数据）、
+//        vars.riskFreeRate（执行变量）
+// 计算定义存储在 WorkflowStep.metadata.calculations 中：
+//   { key: 'peValue', label: 'PE估值', formula: 'eps * targetPE', unit: '元', precision: 2 }
+import { irr, payment } from './propertyFinance';
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'ref'; path: string[] }
+  | { type: 'unary'; operator: '-' | '+'; operand: FormulaNode }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+export interface FormulaFunction {
+  minArgs: number;
+  maxArgs?: number;
+  description: string;
+  fn: (...args: number[]) => number;
+}
+
+export interface CalculationDefinition {
+  key: string;
+  label: string;
+  formula: string;
+  unit?: string;
+  precision?: number;
+}
+
+export interface CalculationTrace {
+  key: string;
+  label: string;
+  formula: string;
+  value: number | null;
+  unit?: string;
+  // 公式中引用的值，便于复核计算过程
+  inputs: Record<string, number>;
+  error?: string;
+}
+
+export interface CalculationContext {
+  // 本步骤录入的数据
+  data?: Record<string, any>;
+  // 已完成步骤的数据，键为步骤顺序号
+  steps?: Record<string, Record<string, any>>;
+  // 执行变量
+  variables?: Record<string, any>;
+}
+
+// 计算失败时抛出的错误码
+export const CALCULATION_FAILED = 'CALCULATION_FAILED';
+
+const MAX_FORMULA_LENGTH = 500;
+const MAX_DEPTH = 50;
+
+// 贴现现金流：预测期现金流现值 + 终值现值
+function dcf(fcf: number, growth: number, discountRate: number, terminalGrowth: number, years = 5): number {
+  if (discountRate <= terminalGrowth) {
+    throw new Error('折现率必须大于永续增长率');
+  }
+
+  let presentValue = 0;
+  let cashFlow = fcf;
+  for (let year = 1; year <= years; year++) {
+    cashFlow *= 1 + growth;
+    presentValue += cashFlow / Math.pow(1 + discountRate, year);
+  }
+
+  const terminalValue = (cashFlow * (1 + terminalGrowth)) / (discountRate - terminalGrowth);
+  return presentValue + terminalValue / Math.pow(1 + discountRate, years);
+}
+
+// 可用函数，后续的估值工具可以在此注册新函数
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  abs: { minArgs: 1, maxArgs: 1, description: '绝对值', fn: Math.abs },
+  min: { minArgs: 1, description: '最小值', fn: (...values) => Math.min(...values) },
+  max: { minArgs: 1, description: '最大值', fn: (...values) => Math.max(...values) },
+  sum: { minArgs: 1, description: '求和', fn: (...values) => values.reduce((acc, value) => acc + value, 0) },
+  avg: { minArgs: 1, description: '平均值', fn: (...values) => values.reduce((acc, value) => acc + value, 0) / values.length },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: '四舍五入，round(x, 小数位数)',
+    fn: (value, digits = 0) => Math.round(value * Math.pow(10, digits)) / Math.pow(10, digits)
+  },
+  floor: { minArgs: 1, maxArgs: 1, description: '向下取整', fn: Math.floor },
+  ceil: { minArgs: 1, maxArgs: 1, description: '向上取整', fn: Math.ceil },
+  sqrt: { minArgs: 1, maxArgs: 1, description: '平方根', fn: Math.sqrt },
+  pow: { minArgs: 2, maxArgs: 2, description: '乘方', fn: Math.pow },
+  ln: { minArgs: 1, maxArgs: 1, description: '自然对数', fn: Math.log },
+  exp: { minArgs: 1, maxArgs: 1, description: 'e的乘方', fn: Math.exp },
+  if: { minArgs: 3, maxArgs: 3, description: 'if(条件, 条件成立的值, 否则的值)', fn: (condition, then, otherwise) => (condition ? then : otherwise) },
+  npv: {
+    minArgs: 2,
+    description: '净现值，npv(折现率, 第1期现金流, 第2期现金流, ...)',
+    fn: (rate, ...cashFlows) => cashFlows.reduce((acc, cashFlow, index) => acc + cashFlow / Math.pow(1 + rate, index + 1), 0)
+  },
+  dcf: {
+    minArgs: 4,
+    maxArgs: 5,
+    description: '贴现现金流估值，dcf(当前自由现金流, 预测期增长率, 折现率, 永续增长率, 预测年数=5)',
+    fn: dcf
+  },
+  capm: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: '股权成本，capm(无风险利率, beta, 市场风险溢价)',
+    fn: (riskFreeRate, beta, marketRiskPremium) => riskFreeRate + beta * marketRiskPremium
+  },
+  wacc: {
+    minArgs: 4,
+    maxArgs: 4,
+    description: '加权平均资本成本，wacc(股权成本, 税前债务成本, 税率, 债务占比)',
+    fn: (costOfEquity, costOfDebt, taxRate, debtWeight) => costOfEquity * (1 - debtWeight) + costOfDebt * (1 - taxRate) * debtWeight
+  },
+  irr: {
+    minArgs: 2,
+    description: '内部收益率，irr(第0期现金流, 第1期现金流, ...)',
+    fn: (...cashFlows) => {
+      const value = irr(cashFlows);
+      if (value === null) {
+        throw new Error('现金流无法计算内部收益率');
+      }
+      return value;
+    }
+  },
+  pmt: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: '等额本息每期还款额，pmt(每期利率, 期数, 本金)',
+    fn: payment
+  },
+};
+
+const hasOwn = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+// 按名称查找函数，只认自身注册的函数，constructor、toString 等原型上的名称视为未知函数
+function getFormulaFunction(name: string): FormulaFunction | undefined {
+  return hasOwn(FORMULA_FUNCTIONS, name) ? FORMULA_FUNCTIONS[name] : undefined;
+}
+
+// 词法分析
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'ident'; value: string; position: number }
+  | { kind: 'op'; value: string; position: number };
+
+function syntaxError(message: string, position: number): Error {
+  return new Error(`公式语法错误: ${message}（位置 ${position + 1}）`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d+)?|\.\d+)([eE][+-]?\d+)?%?/.exec(source.slice(index));
+    if (number) {
+      const text = number[0];
+      const value = parseFloat(text);
+      tokens.push({ kind: 'number', value: text.endsWith('%') ? value / 100 : value, position: index });
+      index += text.length;
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index));
+    if (ident) {
+      tokens.push({ kind: 'ident', value: ident[0], position: index });
+      index += ident[0].length;
+      continue;
+    }
+
+    const op = /^(==|!=|>=|<=|[-+*/^(),.<>])/.exec(source.slice(index));
+    if (op) {
+      tokens.push({ kind: 'op', value: op[0], position: index });
+      index += op[0].length;
+      continue;
+    }
+
+    throw syntaxError(`无法识别的字符 "${char}"`, index);
+  }
+
+  return tokens;
+}
+
+// 解析公式为语法树
+export function parseFormula(source: string): FormulaNode {
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new Error('公式不能为空');
+  }
+  if (source.length > MAX_FORMULA_LENGTH) {
+    throw new Error(`公式不能超过${MAX_FORMULA_LENGTH}个字符`);
+  }
+
+  const tokens = tokenize(source);
+  let current = 0;
+  let depth = 0;
+
+  const peek = () => tokens[current];
+  const isOp = (value: string) => peek()?.kind === 'op' && peek()!.value === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) {
+      throw syntaxError(`缺少 "${value}"`, peek()?.position ?? source.length);
+    }
+    current++;
+  };
+
+  const enter = () => {
+    if (++depth > MAX_DEPTH) {
+      throw new Error('公式嵌套层级过深');
+    }
+  };
+
+  const binaryLevel = (operators: string[], next: () => FormulaNode) => (): FormulaNode => {
+    let left = next();
+    while (peek()?.kind === 'op' && operators.includes(String(peek()!.value))) {
+      const operator = String(tokens[current++].value);
+      left = { type: 'binary', operator, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): FormulaNode => {
+    const token = peek();
+    if (!token) {
+      throw syntaxError('公式不完整', source.length);
+    }
+
+    if (token.kind === 'number') {
+      current++;
+      return { type: 'number', value: token.value };
+    }
+
+    if (token.kind === 'ident') {
+      current++;
+
+      if (isOp('(')) {
+        const fn = getFormulaFunction(token.value);
+        if (!fn) {
+          throw syntaxError(`未知函数 "${token.value}"`, token.position);
+        }
+
+        current++;
+        const args: FormulaNode[] = [];
+        if (!isOp(')')) {
+          args.push(comparison());
+          while (isOp(',')) {
+            current++;
+            args.push(comparison());
+          }
+        }
+        expectOp(')');
+
+        if (args.length < fn.minArgs || (fn.maxArgs !== undefined && args.length > fn.maxArgs)) {
+          throw syntaxError(`函数 ${token.value} 的参数数量不正确`, token.position);
+        }
+        return { type: 'call', name: token.value, args };
+      }
+
+      const path = [token.value];
+      while (isOp('.')) {
+        current++;
+        const next = peek();
+        if (next?.kind !== 'ident') {
+          throw syntaxError('"." 后面需要字段名', next?.position ?? source.length);
+        }
+        path.push(next.value);
+        current++;
+      }
+      return { type: 'ref', path };
+    }
+
+    if (isOp('(')) {
+      current++;
+      const node = comparison();
+      expectOp(')');
+      return node;
+    }
+
+    throw syntaxError(`意外的 "${token.value}"`, token.position);
+  };
+
+  // 乘方为右结合
+  const power = (): FormulaNode => {
+    const base = primary();
+    if (isOp('^')) {
+      current++;
+      return { type: 'binary', operator: '^', left: base, right: unary() };
+    }
+    return base;
+  };
+
+  const unary = (): FormulaNode => {
+    if (isOp('-') || isOp('+')) {
+      const operator = tokens[current++].value as '-' | '+';
+      enter();
+      const operand = unary();
+      depth--;
+      return { type: 'unary', operator, operand };
+    }
+    return power();
+  };
+
+  const multiplicative = binaryLevel(['*', '/'], unary);
+  const additive = binaryLevel(['+', '-'], multiplicative);
+  const comparisonLevel = binaryLevel(['==', '!=', '>', '>=', '<', '<='], additive);
+
+  function comparison(): FormulaNode {
+    enter();
+    const node = comparisonLevel();
+    depth--;
+    return node;
+  }
+
+  const root = comparison();
+  if (current < tokens.length) {
+    throw syntaxError(`意外的 "${tokens[current].value}"`, tokens[current].position);
+  }
+  return root;
+}
+
+// 列出公式引用的所有变量
+export function collectReferences(node: FormulaNode): string[] {
+  switch (node.type) {
+    case 'ref':
+      return [node.path.join('.')];
+    case 'unary':
+      return collectReferences(node.operand);
+    case 'binary':
+      return [...new Set([...collectReferences(node.left), ...collectReferences(node.right)])];
+    case 'call':
+      return [...new Set(node.args.flatMap(collectReferences))];
+    default:
+      return [];
+  }
+}
+
+function toNumber(value: unknown, name: string): number {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  if (!Number.isFinite(number)) {
+    throw new Error(`引用 "${name}" 的值不是数字`);
+  }
+  return number;
+}
+
+// 计算公式，resolve 返回引用的值（undefined 表示引用不存在）
+export function evaluateFormula(
+  formula: string | FormulaNode,
+  resolve: (path: string[]) => unknown
+): { value: number; inputs: Record<string, number> } {
+  const root = typeof formula === 'string' ? parseFormula(formula) : formula;
+  const inputs: Record<string, number> = {};
+
+  const evaluate = (node: FormulaNode): number => {
+    switch (node.type) {
+      case 'number':
+        return node.value;
+      case 'ref': {
+        const name = node.path.join('.');
+        const raw = resolve(node.path);
+        if (raw === undefined || raw === null || raw === '') {
+          throw new Error(`引用 "${name}" 不存在或没有值`);
+        }
+        const value = toNumber(raw, name);
+        inputs[name] = value;
+        return value;
+      }
+      case 'unary': {
+        const operand = evaluate(node.operand);
+        return node.operator === '-' ? -operand : operand;
+      }
+      case 'binary': {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        switch (node.operator) {
+          case '+': return left + right;
+          case '-': return left - right;
+          case '*': return left * right;
+          case '/':
+            if (right === 0) {
+              throw new Error('除数不能为0');
+            }
+            return left / right;
+          case '^': return Math.pow(left, right);
+          case '==': return left === right ? 1 : 0;
+          case '!=': return left !== right ? 1 : 0;
+          case '>': return left > right ? 1 : 0;
+          case '>=': return left >= right ? 1 : 0;
+          case '<': return left < right ? 1 : 0;
+          case '<=': return left <= right ? 1 : 0;
+          default:
+            throw new Error(`不支持的运算符 "${node.operator}"`);
+        }
+      }
+      case 'call': {
+        // if 只计算命中的分支，避免另一分支的除零等错误
+        if (node.name === 'if') {
+          return evaluate(node.args[0]) ? evaluate(node.args[1]) : evaluate(node.args[2]);
+        }
+        const fn = getFormulaFunction(node.name);
+        if (!fn) {
+          throw new Error(`未知函数 "${node.name}"`);
+        }
+        return fn.fn(...node.args.map(evaluate));
+      }
+    }
+  };
+
+  const value = evaluate(root);
+  if (!Number.isFinite(value)) {
+    throw new Error('计算结果不是有效数字');
+  }
+  return { value, inputs };
+}
+
+// 从步骤 metadata 中读取计算定义（旧数据中只有名称的字符串项没有公式，忽略）
+export function parseCalculations(metadata: unknown): CalculationDefinition[] {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return [];
+    }
+  }
+
+  const calculations = parsed?.calculations;
+  if (!Array.isArray(calculations)) {
+    return [];
+  }
+
+  return calculations.filter((calculation: any): calculation is CalculationDefinition =>
+    !!calculation && typeof calculation === 'object' && !!calculation.key && typeof calculation.formula === 'string'
+  ).map(calculation => ({ ...calculation, label: calculation.label || calculation.key }));
+}
+
+function readPath(source: unknown, path: string[]): unknown {
+  return path.reduce<any>((acc, key) => (acc == null || typeof acc !== 'object' || !hasOwn(acc, key) ? undefined : acc[key]), source);
+}
+
+// 按顺序执行计算，后面的公式可以引用前面的计算结果
+export function runCalculations(calculations: CalculationDefinition[], context: CalculationContext): CalculationTrace[] {
+  const results: Record<string, number> = {};
+
+  const resolve = (path: string[]): unknown => {
+    const [head, ...rest] = path;
+
+    if (head === 'vars') {
+      return readPath(context.variables, rest);
+    }
+
+    const stepRef = /^step(\d+)$/.exec(head);
+    if (stepRef && rest.length > 0) {
+      const stepData = context.steps?.[stepRef[1]];
+      const value = readPath(stepData, rest);
+      return value !== undefined ? value : readPath(stepData?.calculations, rest);
+    }
+
+    if (rest.length === 0 && hasOwn(results, head)) {
+      return results[head];
+    }
+
+    const own = readPath(context.data, path);
+    return own !== undefined ? own : readPath(context.variables, path);
+  };
+
+  return calculations.map(calculation => {
+    const trace: CalculationTrace = {
+      key: calculation.key,
+      label: calculation.label,
+      formula: calculation.formula,
+      value: null,
+      unit: calculation.unit,
+      inputs: {},
+    };
+
+    try {
+      const { value, inputs } = evaluateFormula(calculation.formula, resolve);
+      const rounded = calculation.precision !== undefined
+        ? FORMULA_FUNCTIONS.round.fn(value, calculation.precision)
+        : value;
+
+      results[calculation.key] = rounded;
+      trace.value = rounded;
+      trace.inputs = inputs;
+    } catch (error) {
+      trace.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return trace;
+  });
+}
@@ -0,0 +1,120 @@
+// 通知步骤：前置步骤完成后自动执行，用执行数据渲染消息模板并通过告警系统的通知渠道发送
+// 在 metadata.notification 中配置，例如
+//   { channels: ["slack"], title: "{{workflow.name}}", template: "{{ticker}} 决策：{{decision}}，目标价 {{targetPrice}}" }
+// 模板中的 {{路径}} 依次从以下数据中取值：
+//   workflow.name、execution.title 等执行信息；steps.<顺序号>.<字段> 指定步骤的数据；
+//   variables.<名称> 执行变量；直接写字段名时取执行变量或最近完成步骤中的同名字段
+import Joi from 'joi';
+import { NotificationChannelType } from './alerting';
+
+export const NOTIFICATION_CHANNELS: NotificationChannelType[] = ['slack', 'discord', 'email', 'webhook'];
+
+export interface NotificationConfig {
+  // 为空时发送到所有已配置的渠道
+  channels?: NotificationChannelType[];
+  title?: string;
+  template: string;
+}
+
+export interface TemplateSource {
+  workflow: { id: string; name: string };
+  execution: { id: string; title?: string | null; priority?: string };
+  variables: Record<string, any>;
+  // 已完成步骤的数据，按步骤顺序号索引
+  steps: Record<string, Record<string, any>>;
+}
+
+export interface RenderedTemplate {
+  text: string;
+  // 模板中引用但没有取到值的路径
+  missing: string[];
+}
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export const notificationConfigSchema = Joi.object({
+  channels: Joi.array().items(Joi.string().valid(...NOTIFICATION_CHANNELS)).unique().optional().messages({
+    'any.only': '通知渠道只能是 slack、discord、email 或 webhook'
+  }),
+  title: Joi.string().max(200).optional(),
+  template: Joi.string().min(1).max(4000).required().messages({
+    'string.empty': '通知模板不能为空',
+    'any.required': '通知步骤必须配置消息模板'
+  })
+});
+
+// 从步骤元数据中读取通知配置，未配置或配置无效时返回 null
+export function parseNotificationConfig(metadata: unknown): NotificationConfig | null {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !parsed.notification) {
+    return null;
+  }
+
+  const { error, value } = notificationConfigSchema.validate(parsed.notification);
+  return error ? null : value;
+}
+
+// 组装模板数据：步骤数据按顺序号从小到大合并到顶层，执行变量优先
+export function buildTemplateContext(source: TemplateSource): Record<string, any> {
+  const merged: Record<string, any> = {};
+  const orders = Object.keys(source.steps).sort((a, b) => Number(a) - Number(b));
+  for (const order of orders) {
+    Object.assign(merged, source.steps[order]);
+  }
+
+  return {
+    ...merged,
+    ...source.variables,
+    workflow: source.workflow,
+    execution: source.execution,
+    variables: source.variables,
+    steps: source.steps
+  };
+}
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : String(Math.round(value * 10000) / 10000);
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join('、');
+  }
+  if (value && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+// 按点分路径取值，如 steps.5.decision
+export function resolvePath(context: Record<string, any>, path: string): any {
+  return path.split('.').reduce<any>(
+    (current, key) => (current !== null && current !== undefined ? current[key] : undefined),
+    context
+  );
+}
+
+// 渲染模板，缺失的值替换为空字符串并记录路径
+export function renderTemplate(template: string, context: Record<string, any>): RenderedTemplate {
+  const missing: string[] = [];
+
+  const text = template.replace(PLACEHOLDER, (_, path: string) => {
+    const value = resolvePath(context, path);
+
+    if (value === undefined || value === null || value === '') {
+      if (!missing.includes(path)) missing.push(path);
+      return '';
+    }
+
+    return formatValue(value);
+  });
+
+  return { text, missing };
+}
@@ -0,0 +1,120 @@
+// 执行参数：工作流在 metadata.parameters 中声明启动执行时需要填写的参数（如股票代码、市场、投资期限、预算），
+// 字段定义与 INPUT 步骤表单相同，例如
+//   { key: 'ticker', label: '股票代码', type: 'ticker', required: true }
+//   { key: 'market', label: '市场', type: 'select', options: ['A股', '港股', '美股'] }
+// 参数值保存为执行变量，步骤名称、描述和通知模板中可以用 {{ticker}} 或 {{variables.ticker}} 引用；
+// metadata.titleTemplate 可自定义执行标题，如 "{{workflow.name}} - {{ticker}}"
+import { DatabaseUtils } from './database';
+import { FormField, FormFieldError, parseFormFields, validateFormData } from './formSchema';
+import { resolvePath } from './notifications';
+
+// 启动执行时参数未通过校验抛出的错误码
+export const INVALID_PARAMETERS = 'INVALID_PARAMETERS';
+
+// 执行标题的最大长度
+const MAX_TITLE_LENGTH = 200;
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// 参数定义，可以另外指定未填写时使用的默认值
+export type ParameterDefinition = FormField & { default?: any };
+
+export interface ParameterValidationResult {
+  isValid: boolean;
+  errors: FormFieldError[];
+  values: Record<string, any>;
+}
+
+// 从工作流 metadata 中读取参数定义
+export function parseParameterDefinitions(metadata: unknown): ParameterDefinition[] {
+  const parsed = DatabaseUtils.parseJsonField(metadata) as Record<string, any> | null;
+  return parseFormFields({ fields: parsed?.parameters });
+}
+
+// 从工作流 metadata 中读取执行标题模板
+export function parseTitleTemplate(metadata: unknown): string | null {
+  const parsed = DatabaseUtils.parseJsonField(metadata) as Record<string, any> | null;
+  const template = parsed?.titleTemplate;
+  return typeof template === 'string' && template.trim() ? template.trim() : null;
+}
+
+// 按参数定义校验启动执行时填写的参数，缺省的参数使用定义中的 default
+export function validateParameters(
+  definitions: ParameterDefinition[],
+  values: Record<string, any> = {}
+): ParameterValidationResult {
+  const withDefaults: Record<string, any> = { ...values };
+  for (const definition of definitions) {
+    const value = withDefaults[definition.key];
+    if ((value === undefined || value === null || value === '') && definition.default !== undefined) {
+      withDefaults[definition.key] = definition.default;
+    }
+  }
+
+  return validateFormData(definitions, withDefaults);
+}
+
+// 替换文本中的 {{路径}}，取不到值的占位符原样保留，便于发现模板写错
+export function interpolateText(text: string, context: Record<string, any>): string;
+export function interpolateText(text: string | null | undefined, context: Record<string, any>): string | null | undefined;
+export function interpolateText(text: string | null | undefined, context: Record<string, any>) {
+  if (!text) return text;
+
+  return text.replace(PLACEHOLDER, (placeholder, path: string) => {
+    const value = resolvePath(context, path);
+    if (value === undefined || value === null || value === '') {
+      return placeholder;
+    }
+    return Array.isArray(value) ? value.join('、') : String(value);
+  });
+}
+
+// 生成执行标题：有标题模板时按模板渲染，否则为 "工作流名称 · 参数值1 / 参数值2"；没有参数时返回 null
+export function buildExecutionTitle(
+  workflowName: string,
+  definitions: FormField[],
+  values: Record<string, any>,
+  titleTemplate?: string | null
+): string | null {
+  let title: string | null = null;
+
+  if (titleTemplate) {
+    title = interpolateText(titleTemplate, { ...values, variables: values, workflow: { name: workflowName } });
+  } else {
+    const labels = definitions
+      .map(definition => values[definition.key])
+      .filter(value => value !== undefined && value !== null && value !== '')
+      .map(String);
+    title = labels.length > 0 ? `${workflowName} · ${labels.join(' / ')}` : null;
+  }
+
+  return title ? title.slice(0, MAX_TITLE_LENGTH) : null;
+}
+
+// 需要建立索引以便按参数筛选的参数值，只保留简单类型并转为字符串
+export function toParameterRows(definitions: FormField[], values: Record<string, any>): Array<{ key: string; value: string }> {
+  return definitions
+    .map(definition => ({ key: definition.key, value: values[definition.key] }))
+    .filter(({ value }) => ['string', 'number', 'boolean'].includes(typeof value) && value !== '')
+    .map(({ key, value }) => ({ key, value: String(value) }));
+}
+
+// 解析历史查询中的参数筛选条件：param.ticker=00700.HK 或 params={"ticker":"00700.HK"}
+export function parseParameterFilters(query: Record<string, any>): Record<string, string> {
+  const filters: Record<string, string> = {};
+
+  if (typeof query.params === 'string') {
+    const parsed = DatabaseUtils.parseJsonField(query.params, {}) as Record<string, any>;
+    for (const [key, value] of Object.entries(parsed || {})) {
+      if (value !== undefined && value !== null && value !== '') filters[key] = String(value);
+    }
+  }
+
+  for (const [name, value] of Object.entries(query)) {
+    if (name.startsWith('param.') && typeof value === 'string' && value !== '') {
+      filters[name.slice('param.'.length)] = value;
+    }
+  }
+
+  return filters;
+}
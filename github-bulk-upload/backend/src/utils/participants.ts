@@ -0,0 +1,79 @@
+// 执行参与者和步骤分配：执行发起人可以邀请其他用户参与执行，
+// VIEWER 只能查看，CONTRIBUTOR 可以处理步骤；步骤可以分配给发起人或协作者，
+// 已分配的步骤只有被分配人和发起人可以处理，未分配的步骤所有协作者都可以处理。
+// 暂停、恢复、取消、删除、修改截止日期以及管理参与者和分配只有发起人可以操作
+import Joi from 'joi';
+
+export const PARTICIPANT_ROLES = ['VIEWER', 'CONTRIBUTOR'] as const;
+export type ParticipantRole = typeof PARTICIPANT_ROLES[number];
+
+// 用户在执行中的角色，OWNER 为执行发起人
+export type ExecutionRole = 'OWNER' | ParticipantRole;
+
+// 操作需要的访问级别
+export type ExecutionAccess = 'view' | 'contribute' | 'manage';
+
+const ACCESS_ROLES: Record<ExecutionAccess, ExecutionRole[]> = {
+  view: ['OWNER', 'VIEWER', 'CONTRIBUTOR'],
+  contribute: ['OWNER', 'CONTRIBUTOR'],
+  manage: ['OWNER']
+};
+
+// 添加或修改参与者，user 可填写用户ID或邮箱
+export const participantSchema = Joi.object({
+  user: Joi.string().trim().max(200).required().messages({
+    'any.required': '请指定参与者'
+  }),
+  role: Joi.string().valid(...PARTICIPANT_ROLES).default('CONTRIBUTOR').messages({
+    'any.only': '参与者角色必须是 VIEWER 或 CONTRIBUTOR'
+  })
+});
+
+// 分配步骤，assigneeId 为 null 时取消分配
+export const assignStepSchema = Joi.object({
+  assigneeId: Joi.string().allow(null).required().messages({
+    'any.required': '请指定被分配人'
+  })
+});
+
+// 用户可访问的执行的查询条件：发起人或具有相应角色的参与者
+export function accessibleExecutionWhere(userId: string, access: ExecutionAccess = 'view') {
+  if (access === 'manage') {
+    return { userId };
+  }
+
+  const roles = ACCESS_ROLES[access].filter(role => role !== 'OWNER');
+  return {
+    OR: [
+      { userId },
+      { participants: { some: { userId, role: { in: roles } } } }
+    ]
+  };
+}
+
+// 用户在执行中的角色，既不是发起人也不是参与者时返回 null
+export function resolveExecutionRole(
+  ownerId: string,
+  participants: Array<{ userId: string; role: string }>,
+  userId: string
+): ExecutionRole | null {
+  if (ownerId === userId) {
+    return 'OWNER';
+  }
+
+  const participant = participants.find(item => item.userId === userId);
+  return participant ? participant.role as ParticipantRole : null;
+}
+
+export function hasExecutionAccess(role: ExecutionRole | null, access: ExecutionAccess): boolean {
+  return role !== null && ACCESS_ROLES[access].includes(role);
+}
+
+// 用户能否处理步骤：已分配的步骤只有被分配人和发起人可以处理
+export function canWorkOnStep(role: ExecutionRole | null, userId: string, assigneeId?: string | null): boolean {
+  if (!hasExecutionAccess(role, 'contribute')) {
+    return false;
+  }
+
+  return role === 'OWNER' || !assigneeId || assigneeId === userId;
+}
@@ -0,0 +1,359 @@
+// 房地产投资测算：按年推算租金收入、运营费用、贷款还款和退出收益，
+// 计算 IRR、NPV、资本化率、DSCR 和现金回报率
+// 比率一律使用小数（5% = 0.05），金额按年计算（租金清单为月租金）；
+// 计算步骤在 metadata.propertyModel 中启用：
+//   { required: true, defaults: { holdingPeriod: 10, exitCapRate: 0.05, ... } }
+// 完整的输入和输出保存在 result.property，汇总指标写入 data.property，
+// 供后续步骤的分支条件和决策标准引用，如 { "step": "4", "field": "property.irr", "operator": "gte", "value": 0.08 }
+import Joi from 'joi';
+
+// 测算输入无效时抛出的错误码
+export const INVALID_PROPERTY_INPUT = 'INVALID_PROPERTY_INPUT';
+
+export interface PropertyLoan {
+  // 贷款金额或贷款成数二选一
+  amount?: number;
+  ltv?: number;
+  interestRate: number;
+  amortizationYears: number;
+  interestOnlyYears?: number;
+}
+
+export interface RentRollItem {
+  unit: string;
+  monthlyRent: number;
+}
+
+export interface PropertyInput {
+  purchasePrice: number;
+  closingCosts?: number;
+  loan?: PropertyLoan;
+  rentRoll: RentRollItem[];
+  // 停车、广告等其他年收入
+  otherIncome?: number;
+  rentGrowth?: number;
+  vacancyRate?: number;
+  // 首年运营费用（物业费、税费、保险、维修等）
+  operatingExpenses: number;
+  expenseGrowth?: number;
+  // 每年资本性支出，数组时按年份依次取值
+  capex?: number | number[];
+  holdingPeriod: number;
+  exitCapRate: number;
+  sellingCostRate?: number;
+  // 计算 NPV 的目标收益率
+  discountRate: number;
+}
+
+export interface PropertyYear {
+  year: number;
+  grossPotentialRent: number;
+  vacancyLoss: number;
+  effectiveGrossIncome: number;
+  operatingExpenses: number;
+  noi: number;
+  capex: number;
+  debtService: number;
+  cashFlow: number;
+  capRate: number;
+  // 无贷款时为 null
+  dscr: number | null;
+  cashOnCash: number;
+  loanBalance: number;
+}
+
+export interface PropertySummary {
+  // 杠杆（股权）IRR，现金流不变号时无法计算为 null
+  irr: number | null;
+  unleveredIrr: number | null;
+  npv: number;
+  goingInCapRate: number;
+  exitCapRate: number;
+  minDscr: number | null;
+  averageCashOnCash: number;
+  equityMultiple: number;
+}
+
+export interface PropertyOutput {
+  equity: number;
+  loanAmount: number;
+  annualDebtService: number;
+  years: PropertyYear[];
+  exit: {
+    salePrice: number;
+    sellingCosts: number;
+    loanBalance: number;
+    netProceeds: number;
+  };
+  cashFlows: number[];
+  summary: PropertySummary;
+}
+
+export interface PropertyModelConfig {
+  required: boolean;
+  defaults?: Partial<PropertyInput>;
+}
+
+const MAX_HOLDING_PERIOD = 30;
+
+const rate = Joi.number().min(-1).max(1);
+
+const propertySchema = Joi.object({
+  purchasePrice: Joi.number().greater(0).required().messages({
+    'any.required': '必须填写购买价格 purchasePrice'
+  }),
+  closingCosts: Joi.number().min(0).default(0),
+  loan: Joi.object({
+    amount: Joi.number().min(0),
+    ltv: Joi.number().min(0).max(1),
+    interestRate: Joi.number().min(0).max(1).required(),
+    amortizationYears: Joi.number().integer().min(1).max(50).required(),
+    interestOnlyYears: Joi.number().integer().min(0).max(MAX_HOLDING_PERIOD).default(0)
+  }).xor('amount', 'ltv').messages({
+    'object.missing': '贷款必须指定贷款金额 amount 或贷款成数 ltv',
+    'object.xor': '贷款金额 amount 和贷款成数 ltv 只能指定一个'
+  }),
+  rentRoll: Joi.array().items(Joi.object({
+    unit: Joi.string().min(1).max(50).required(),
+    monthlyRent: Joi.number().min(0).required()
+  })).min(1).max(500).required().messages({
+    'array.min': '租金清单至少需要一个单元'
+  }),
+  otherIncome: Joi.number().min(0).default(0),
+  rentGrowth: rate.default(0),
+  vacancyRate: Joi.number().min(0).max(1).default(0),
+  operatingExpenses: Joi.number().min(0).required().messages({
+    'any.required': '必须填写首年运营费用 operatingExpenses'
+  }),
+  expenseGrowth: rate.default(0),
+  capex: Joi.alternatives().try(
+    Joi.number().min(0),
+    Joi.array().items(Joi.number().min(0)).max(MAX_HOLDING_PERIOD)
+  ).default(0),
+  holdingPeriod: Joi.number().integer().min(1).max(MAX_HOLDING_PERIOD).required(),
+  exitCapRate: Joi.number().greater(0).max(1).required().messages({
+    'any.required': '必须填写退出资本化率 exitCapRate'
+  }),
+  sellingCostRate: Joi.number().min(0).max(1).default(0),
+  discountRate: Joi.number().greater(-1).max(1).required().messages({
+    'any.required': '必须填写目标收益率 discountRate'
+  })
+});
+
+// 步骤元数据中的房地产测算配置
+export const propertyModelConfigSchema = Joi.object({
+  required: Joi.boolean().default(false),
+  defaults: Joi.object().unknown(true)
+});
+
+function invalidInput(message: string, details: string[]): Error {
+  const error: any = new Error(message);
+  error.code = INVALID_PROPERTY_INPUT;
+  error.details = details;
+  return error;
+}
+
+const round = (value: number, digits: number) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+// 净现值，cashFlows[0] 为第0期（期初）现金流
+export function npv(discountRate: number, cashFlows: number[]): number {
+  return cashFlows.reduce((acc, cashFlow, period) => acc + cashFlow / Math.pow(1 + discountRate, period), 0);
+}
+
+// 内部收益率，用二分法求解；现金流不变号或区间内无解时返回 null
+export function irr(cashFlows: number[]): number | null {
+  if (!cashFlows.some(value => value > 0) || !cashFlows.some(value => value < 0)) {
+    return null;
+  }
+
+  let low = -0.99;
+  let high = 10;
+  let lowValue = npv(low, cashFlows);
+  if (lowValue * npv(high, cashFlows) > 0) {
+    return null;
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid, cashFlows);
+    if (Math.abs(midValue) < 1e-9) {
+      return mid;
+    }
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+// 等额本息的每期还款额
+export function payment(periodRate: number, periods: number, principal: number): number {
+  if (periodRate === 0) {
+    return principal / periods;
+  }
+  return (principal * periodRate) / (1 - Math.pow(1 + periodRate, -periods));
+}
+
+// 按月计算的贷款还款计划，返回每年的还款额和年末余额
+function buildLoanSchedule(loan: PropertyLoan | undefined, principal: number, years: number) {
+  const schedule: { debtService: number; balance: number }[] = [];
+  if (!loan || principal <= 0) {
+    for (let year = 0; year < years; year++) {
+      schedule.push({ debtService: 0, balance: 0 });
+    }
+    return schedule;
+  }
+
+  const monthlyRate = loan.interestRate / 12;
+  const interestOnlyMonths = (loan.interestOnlyYears || 0) * 12;
+  const amortizingPayment = payment(monthlyRate, loan.amortizationYears * 12, principal);
+  let balance = principal;
+
+  for (let year = 0; year < years; year++) {
+    let debtService = 0;
+    for (let month = 0; month < 12; month++) {
+      const interest = balance * monthlyRate;
+      if (year * 12 + month < interestOnlyMonths) {
+        debtService += interest;
+      } else {
+        const installment = Math.min(amortizingPayment, balance + interest);
+        balance -= installment - interest;
+        debtService += installment;
+      }
+    }
+    schedule.push({ debtService, balance: Math.max(balance, 0) });
+  }
+
+  return schedule;
+}
+
+// 校验测算输入，返回补全默认值后的输入
+export function validatePropertyInput(input: any): PropertyInput {
+  const { error, value } = propertySchema.validate(input, { abortEarly: false });
+  if (error) {
+    const details = error.details.map(detail => detail.message);
+    throw invalidInput(`房地产测算输入无效: ${details.join('；')}`, details);
+  }
+  return value;
+}
+
+// 运行房地产投资测算
+export function runPropertyModel(rawInput: any): { input: PropertyInput; output: PropertyOutput } {
+  const input = validatePropertyInput(rawInput);
+  const rentGrowth = input.rentGrowth || 0;
+  const expenseGrowth = input.expenseGrowth || 0;
+  const vacancyRate = input.vacancyRate || 0;
+
+  const loanAmount = input.loan
+    ? (input.loan.amount !== undefined ? input.loan.amount : input.purchasePrice * input.loan.ltv!)
+    : 0;
+  const totalCost = input.purchasePrice + (input.closingCosts || 0);
+  const equity = totalCost - loanAmount;
+  if (equity <= 0) {
+    throw invalidInput('贷款金额不能超过购买总成本', ['贷款金额不能超过购买总成本']);
+  }
+
+  const annualRent = input.rentRoll.reduce((acc, item) => acc + item.monthlyRent, 0) * 12;
+  const operatingYear = (year: number) => {
+    const grossPotentialRent = annualRent * Math.pow(1 + rentGrowth, year - 1);
+    const vacancyLoss = grossPotentialRent * vacancyRate;
+    const effectiveGrossIncome = grossPotentialRent - vacancyLoss + (input.otherIncome || 0) * Math.pow(1 + rentGrowth, year - 1);
+    const operatingExpenses = input.operatingExpenses * Math.pow(1 + expenseGrowth, year - 1);
+    return { grossPotentialRent, vacancyLoss, effectiveGrossIncome, operatingExpenses, noi: effectiveGrossIncome - operatingExpenses };
+  };
+  const capexFor = (year: number) => (Array.isArray(input.capex) ? input.capex[year - 1] || 0 : input.capex || 0);
+
+  const schedule = buildLoanSchedule(input.loan, loanAmount, input.holdingPeriod);
+  const years: PropertyYear[] = schedule.map(({ debtService, balance }, index) => {
+    const year = index + 1;
+    const operating = operatingYear(year);
+    const capex = capexFor(year);
+    const cashFlow = operating.noi - capex - debtService;
+
+    return {
+      year,
+      grossPotentialRent: round(operating.grossPotentialRent, 2),
+      vacancyLoss: round(operating.vacancyLoss, 2),
+      effectiveGrossIncome: round(operating.effectiveGrossIncome, 2),
+      operatingExpenses: round(operating.operatingExpenses, 2),
+      noi: round(operating.noi, 2),
+      capex: round(capex, 2),
+      debtService: round(debtService, 2),
+      cashFlow: round(cashFlow, 2),
+      capRate: round(operating.noi / input.purchasePrice, 4),
+      dscr: debtService > 0 ? round(operating.noi / debtService, 2) : null,
+      cashOnCash: round(cashFlow / equity, 4),
+      loanBalance: round(balance, 2)
+    };
+  });
+
+  // 按退出后一年的NOI和退出资本化率估算出售价格
+  const salePrice = operatingYear(input.holdingPeriod + 1).noi / input.exitCapRate;
+  const sellingCosts = salePrice * (input.sellingCostRate || 0);
+  const exitBalance = schedule[schedule.length - 1].balance;
+  const netProceeds = salePrice - sellingCosts - exitBalance;
+
+  const cashFlows = [-equity, ...years.map(item => item.cashFlow)];
+  cashFlows[cashFlows.length - 1] += netProceeds;
+
+  const unleveredFlows = [-totalCost, ...years.map(item => item.noi - item.capex)];
+  unleveredFlows[unleveredFlows.length - 1] += salePrice - sellingCosts;
+
+  const leveredIrr = irr(cashFlows);
+  const unleveredIrr = irr(unleveredFlows);
+  const dscrValues = years.map(item => item.dscr).filter((value): value is number => value !== null);
+  const distributions = cashFlows.slice(1).reduce((acc, value) => acc + value, 0);
+
+  return {
+    input,
+    output: {
+      equity: round(equity, 2),
+      loanAmount: round(loanAmount, 2),
+      annualDebtService: years[0].debtService,
+      years,
+      exit: {
+        salePrice: round(salePrice, 2),
+        sellingCosts: round(sellingCosts, 2),
+        loanBalance: round(exitBalance, 2),
+        netProceeds: round(netProceeds, 2)
+      },
+      cashFlows: cashFlows.map(value => round(value, 2)),
+      summary: {
+        irr: leveredIrr === null ? null : round(leveredIrr, 4),
+        unleveredIrr: unleveredIrr === null ? null : round(unleveredIrr, 4),
+        npv: round(npv(input.discountRate, cashFlows), 2),
+        goingInCapRate: years[0].capRate,
+        exitCapRate: input.exitCapRate,
+        minDscr: dscrValues.length > 0 ? Math.min(...dscrValues) : null,
+        averageCashOnCash: round(years.reduce((acc, item) => acc + item.cashOnCash, 0) / years.length, 4),
+        equityMultiple: round(distributions / equity, 2)
+      }
+    }
+  };
+}
+
+// 解析步骤元数据中的房地产测算配置，未启用时返回 null
+export function parsePropertyModelConfig(metadata: unknown): PropertyModelConfig | null {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !parsed.propertyModel) {
+    return null;
+  }
+
+  const { error, value } = propertyModelConfigSchema.validate(parsed.propertyModel === true ? {} : parsed.propertyModel);
+  return error ? null : value;
+}
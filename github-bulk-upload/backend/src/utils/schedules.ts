@@ -0,0 +1,249 @@
+// 定期执行计划：按 cron 表达式在指定时区自动启动工作流执行
+// 表达式为 5 段（分 时 日 月 周），支持 *、列表（1,15）、范围（1-5）和步长（*/15、9-17/2），
+// 周的取值 0-7（0 和 7 都表示周日）；日和周同时限定时满足其一即可（与标准 cron 一致）。
+// 也可以使用别名，例如 @weekly（每周一 9:00）、@monthly（每月1日 9:00）、@quarterly（每季度首日 9:00）
+import Joi from 'joi';
+
+// 计划的执行时间不合法时抛出的错误码
+export const INVALID_SCHEDULE = 'INVALID_SCHEDULE';
+
+export const SCHEDULE_ALIASES: Record<string, string> = {
+  '@daily': '0 9 * * *',
+  '@weekdays': '0 9 * * 1-5',
+  '@weekly': '0 9 * * 1',
+  '@monthly': '0 9 1 * *',
+  '@quarterly': '0 9 1 1,4,7,10 *',
+  '@yearly': '0 9 1 1 *'
+};
+
+export interface CronFields {
+  minutes: number[];
+  hours: number[];
+  days: number[];
+  months: number[];
+  weekdays: number[];
+  // 日、周是否为 *，决定两者的组合方式
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: '分钟', min: 0, max: 59 },
+  { name: '小时', min: 0, max: 23 },
+  { name: '日期', min: 1, max: 31 },
+  { name: '月份', min: 1, max: 12 },
+  { name: '星期', min: 0, max: 7 }
+];
+
+// 向后查找下一次执行时间的最大天数，超过时认为表达式不会再触发（如 2月30日）
+const MAX_SEARCH_DAYS = 366 * 5;
+
+const parseField = (source: string, index: number): number[] => {
+  const { name, min, max } = FIELD_RANGES[index];
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`${name}字段 "${part}" 格式不正确`);
+    }
+
+    const [, range, stepText] = match;
+    const step = stepText ? Number(stepText) : 1;
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-').map(Number);
+      start = from;
+      end = to === undefined ? (stepText ? max : from) : to;
+    }
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`${name}字段 "${part}" 超出范围 ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+// 解析 cron 表达式或别名，格式不正确时抛出错误
+export function parseCron(expression: string): CronFields {
+  const source = SCHEDULE_ALIASES[expression.trim()] || expression.trim();
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('执行时间必须是 5 段 cron 表达式（分 时 日 月 周）或 @weekly 等别名');
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map(parseField);
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    // 7 和 0 都表示周日
+    weekdays: Array.from(new Set(weekdays.map(day => day % 7))).sort((a, b) => a - b),
+    anyDay: parts[2] === '*',
+    anyWeekday: parts[4] === '*'
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// 某一时刻在指定时区的当地日期时间
+const getZonedParts = (date: Date, timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+};
+
+// 指定时区的当地时间对应的 UTC 时刻；夏令时跳过的时间不存在，返回 null
+const fromZonedTime = (
+  local: { year: number; month: number; day: number; hour: number; minute: number },
+  timeZone: string
+): Date | null => {
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const offsetAt = (time: number) => {
+    const zoned = getZonedParts(new Date(time), timeZone);
+    return Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second) - time;
+  };
+
+  // 用两次偏移量修正，处理当天切换夏令时的情况
+  let time = wallClock - offsetAt(wallClock);
+  time = wallClock - offsetAt(time);
+
+  const check = getZonedParts(new Date(time), timeZone);
+  if (check.hour !== local.hour || check.minute !== local.minute || check.day !== local.day) {
+    return null;
+  }
+  return new Date(time);
+};
+
+const matchesDay = (fields: CronFields, day: number, weekday: number): boolean => {
+  const dayMatches = fields.days.includes(day);
+  const weekdayMatches = fields.weekdays.includes(weekday);
+  if (fields.anyDay) return weekdayMatches;
+  if (fields.anyWeekday) return dayMatches;
+  return dayMatches || weekdayMatches;
+};
+
+// 严格晚于 after 的下一次执行时间，不会再触发时返回 null
+export function getNextOccurrence(expression: string | CronFields, timeZone: string, after: Date): Date | null {
+  const fields = typeof expression === 'string' ? parseCron(expression) : expression;
+  const start = getZonedParts(after, timeZone);
+  // 按当地日期逐日查找，日期运算使用 UTC 避免受服务器时区影响
+  const cursor = new Date(Date.UTC(start.year, start.month - 1, start.day));
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, cursor.setUTCDate(cursor.getUTCDate() + 1)) {
+    const year = cursor.getUTCFullYear();
+    const month = cursor.getUTCMonth() + 1;
+    const day = cursor.getUTCDate();
+    if (!fields.months.includes(month) || !matchesDay(fields, day, cursor.getUTCDay())) {
+      continue;
+    }
+
+    for (const hour of fields.hours) {
+      // 第一天只需查找当地时间之后的时刻
+      if (i === 0 && hour < start.hour) continue;
+      for (const minute of fields.minutes) {
+        if (i === 0 && hour === start.hour && minute < start.minute) continue;
+        const occurrence = fromZonedTime({ year, month, day, hour, minute }, timeZone);
+        if (occurrence && occurrence.getTime() > after.getTime()) {
+          return occurrence;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// 之后的若干次执行时间
+export function getUpcomingOccurrences(expression: string, timeZone: string, after: Date, count: number): Date[] {
+  const fields = parseCron(expression);
+  const occurrences: Date[] = [];
+  let cursor: Date | null = after;
+
+  while (occurrences.length < count) {
+    cursor = getNextOccurrence(fields, timeZone, cursor);
+    if (!cursor) break;
+    occurrences.push(cursor);
+  }
+
+  return occurrences;
+}
+
+// 计划的配置
+const scheduleFields = {
+  name: Joi.string().trim().min(1).max(100).messages({
+    'string.empty': '计划名称不能为空',
+    'any.required': '计划名称是必填项'
+  }),
+  cron: Joi.string().trim().max(100).custom((value, helpers) => {
+    try {
+      parseCron(value);
+      return value;
+    } catch (error: any) {
+      return helpers.message({ custom: error.message });
+    }
+  }).messages({
+    'any.required': '执行时间是必填项'
+  }),
+  // 未填写时使用用户设置中的时区
+  timezone: Joi.string().max(64).custom((value, helpers) => (
+    isValidTimeZone(value) ? value : helpers.message({ custom: `时区 "${value}" 无效` })
+  )),
+  priority: Joi.string().valid('LOW', 'MEDIUM', 'HIGH', 'URGENT'),
+  tags: Joi.array().items(Joi.string().max(30)).max(10),
+  // 传入执行的变量，可在通知模板和子流程映射中以 variables.名称 引用
+  variables: Joi.object().pattern(Joi.string().max(50), Joi.any()),
+  // 执行的截止日期为计划时间之后的小时数
+  dueAfterHours: Joi.number().integer().min(1).max(24 * 365).allow(null),
+  isActive: Joi.boolean()
+};
+
+export const scheduleSchema = Joi.object({
+  ...scheduleFields,
+  name: scheduleFields.name.required(),
+  cron: scheduleFields.cron.required(),
+  priority: scheduleFields.priority.default('MEDIUM'),
+  isActive: scheduleFields.isActive.default(true)
+});
+
+// 修改计划时所有字段可选
+export const scheduleUpdateSchema = Joi.object(scheduleFields).min(1).messages({
+  'object.min': '没有需要修改的内容'
+});
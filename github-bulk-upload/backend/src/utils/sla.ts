@@ -0,0 +1,99 @@
+// 步骤时限（SLA）：步骤开始后应在时限内完成，时限默认取步骤的预估时间（estimatedTime，分钟），
+// 也可以在 metadata.sla 中单独配置，例如
+//   { minutes: 120, escalateAfter: 60, managerRole: "ADMIN" }
+// 步骤超过时限后先通知执行发起人（第1级），再超过 escalateAfter 分钟仍未完成时通知 managerRole 角色的用户（第2级）；
+// escalateAfter 未配置时等于步骤时限，即超过两倍时限后升级
+import Joi from 'joi';
+
+export const ESCALATION_NONE = 0;
+export const ESCALATION_OWNER = 1;
+export const ESCALATION_MANAGER = 2;
+
+export type EscalationLevel = typeof ESCALATION_NONE | typeof ESCALATION_OWNER | typeof ESCALATION_MANAGER;
+
+export const DEFAULT_MANAGER_ROLE = 'ADMIN';
+
+export interface SlaConfig {
+  // 步骤时限（分钟）
+  minutes: number;
+  // 超时后多少分钟升级到管理角色
+  escalateAfter: number;
+  managerRole: string;
+}
+
+export const slaConfigSchema = Joi.object({
+  minutes: Joi.number().integer().min(1).max(60 * 24 * 365).optional().messages({
+    'number.min': '步骤时限至少为1分钟'
+  }),
+  escalateAfter: Joi.number().integer().min(1).max(60 * 24 * 365).optional().messages({
+    'number.min': '升级等待时间至少为1分钟'
+  }),
+  managerRole: Joi.string().valid('USER', 'ADMIN', 'SUPER_ADMIN').optional()
+});
+
+// 读取步骤时限，既没有单独配置也没有预估时间时返回 null（不计时）
+export function parseSlaConfig(metadata: unknown, estimatedTime?: number | null): SlaConfig | null {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      parsed = null;
+    }
+  }
+
+  const { error, value } = slaConfigSchema.validate(parsed?.sla || {});
+  const sla = error ? {} : value;
+  const minutes = sla.minutes || estimatedTime;
+  if (!minutes || minutes < 1) {
+    return null;
+  }
+
+  return {
+    minutes,
+    escalateAfter: sla.escalateAfter || minutes,
+    managerRole: sla.managerRole || DEFAULT_MANAGER_ROLE
+  };
+}
+
+// 步骤开始时计算截止时间
+export function computeDueAt(startedAt: Date, config: SlaConfig): Date {
+  return new Date(startedAt.getTime() + config.minutes * 60 * 1000);
+}
+
+// 超时的分钟数，未超时返回 0
+export function getOverdueMinutes(dueAt: Date, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - dueAt.getTime()) / (60 * 1000)));
+}
+
+// 按超时时长确定应达到的升级级别
+export function getEscalationLevel(dueAt: Date, config: SlaConfig, now: Date = new Date()): EscalationLevel {
+  if (now.getTime() <= dueAt.getTime()) {
+    return ESCALATION_NONE;
+  }
+  return getOverdueMinutes(dueAt, now) >= config.escalateAfter ? ESCALATION_MANAGER : ESCALATION_OWNER;
+}
+
+// 执行在截止日期前未结束即为逾期
+export function isExecutionOverdue(
+  execution: { dueDate?: Date | string | null; status: string },
+  now: Date = new Date()
+): boolean {
+  if (!execution.dueDate || !['IN_PROGRESS', 'PAUSED'].includes(execution.status)) {
+    return false;
+  }
+  return new Date(execution.dueDate).getTime() < now.getTime();
+}
+
+// 以中文描述时长，用于升级通知
+export function formatMinutes(minutes: number): string {
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  const rest = minutes % 60;
+  const parts = [
+    days > 0 ? `${days}天` : '',
+    hours > 0 ? `${hours}小时` : '',
+    rest > 0 || minutes === 0 ? `${rest}分钟` : ''
+  ];
+  return parts.join('');
+}
@@ -0,0 +1,208 @@
+// 执行和步骤的状态转换表
+// 每个动作声明允许的起始状态和目标状态，步骤动作还声明所在执行必须处于的状态；
+// 所有状态修改都先按表检查，不允许的转换抛出 INVALID_TRANSITION，成功后发出转换事件供审计和扩展使用
+import { EventEmitter } from 'events';
+import { ExecutionStatus, StepStatus } from '../types/execution';
+
+// 状态转换不被允许时抛出的错误码
+export const INVALID_TRANSITION = 'INVALID_TRANSITION';
+
+// 转换事件名
+export const TRANSITION_EVENT = 'transition';
+
+export type ExecutionAction = 'pause' | 'resume' | 'complete' | 'autoComplete' | 'cancel' | 'reopen';
+
+export type StepAction =
+  | 'start'
+  | 'retry'
+  | 'complete'
+  | 'skip'
+  | 'fail'
+  | 'autoComplete'
+  | 'autoFail'
+  | 'autoSkip'
+  | 'restore'
+  | 'reopen'
+  | 'reset'
+  | 'rewind';
+
+export interface TransitionRule<S extends string> {
+  label: string;
+  from: S[];
+  to: S;
+  // 步骤动作要求执行处于的状态，未声明时不限制
+  execution?: ExecutionStatus[];
+}
+
+export const EXECUTION_TRANSITIONS: Record<ExecutionAction, TransitionRule<ExecutionStatus>> = {
+  pause: { label: '暂停', from: [ExecutionStatus.IN_PROGRESS], to: ExecutionStatus.PAUSED },
+  resume: { label: '恢复', from: [ExecutionStatus.PAUSED], to: ExecutionStatus.IN_PROGRESS },
+  complete: { label: '完成', from: [ExecutionStatus.IN_PROGRESS, ExecutionStatus.PAUSED], to: ExecutionStatus.COMPLETED },
+  // 必需步骤全部完成后自动完成
+  autoComplete: { label: '自动完成', from: [ExecutionStatus.IN_PROGRESS], to: ExecutionStatus.COMPLETED },
+  cancel: { label: '取消', from: [ExecutionStatus.IN_PROGRESS, ExecutionStatus.PAUSED], to: ExecutionStatus.CANCELLED },
+  // 已完成执行中的步骤被重新打开
+  reopen: { label: '重新打开', from: [ExecutionStatus.COMPLETED], to: ExecutionStatus.IN_PROGRESS }
+};
+
+export const STEP_TRANSITIONS: Record<StepAction, TransitionRule<StepStatus>> = {
+  start: {
+    label: '开始',
+    from: [StepStatus.PENDING],
+    to: StepStatus.IN_PROGRESS,
+    execution: [ExecutionStatus.IN_PROGRESS]
+  },
+  // 重新启动失败的子流程步骤
+  retry: {
+    label: '重新启动',
+    from: [StepStatus.FAILED],
+    to: StepStatus.IN_PROGRESS,
+    execution: [ExecutionStatus.IN_PROGRESS]
+  },
+  complete: {
+    label: '完成',
+    from: [StepStatus.IN_PROGRESS],
+    to: StepStatus.COMPLETED,
+    execution: [ExecutionStatus.IN_PROGRESS]
+  },
+  skip: {
+    label: '跳过',
+    from: [StepStatus.PENDING, StepStatus.IN_PROGRESS],
+    to: StepStatus.SKIPPED,
+    execution: [ExecutionStatus.IN_PROGRESS]
+  },
+  fail: {
+    label: '标记失败',
+    from: [StepStatus.IN_PROGRESS],
+    to: StepStatus.FAILED,
+    execution: [ExecutionStatus.IN_PROGRESS]
+  },
+  // 通知步骤发送成功或失败，失败后可以重发
+  autoComplete: {
+    label: '自动完成',
+    from: [StepStatus.PENDING, StepStatus.FAILED],
+    to: StepStatus.COMPLETED,
+    execution: [ExecutionStatus.IN_PROGRESS]
+  },
+  // 进行中的子流程步骤在子执行被取消或失败时也自动标记失败
+  autoFail: {
+    label: '自动标记失败',
+    from: [StepStatus.PENDING, StepStatus.IN_PROGRESS, StepStatus.FAILED],
+    to: StepStatus.FAILED,
+    execution: [ExecutionStatus.IN_PROGRESS]
+  },
+  // 分支条件跳过和恢复只取决于条件，不限制执行状态
+  autoSkip: { label: '按条件跳过', from: [StepStatus.PENDING], to: StepStatus.SKIPPED },
+  restore: { label: '按条件恢复', from: [StepStatus.SKIPPED], to: StepStatus.PENDING },
+  reopen: {
+    label: '重新打开',
+    from: [StepStatus.COMPLETED, StepStatus.SKIPPED],
+    to: StepStatus.IN_PROGRESS,
+    execution: [ExecutionStatus.IN_PROGRESS, ExecutionStatus.COMPLETED]
+  },
+  // 审批驳回或上游步骤重新打开时恢复为待处理，rewind 为驳回退回的目标步骤
+  reset: {
+    label: '恢复为待处理',
+    from: [StepStatus.IN_PROGRESS, StepStatus.COMPLETED, StepStatus.SKIPPED, StepStatus.FAILED],
+    to: StepStatus.PENDING,
+    execution: [ExecutionStatus.IN_PROGRESS]
+  },
+  rewind: {
+    label: '退回',
+    from: [StepStatus.PENDING, StepStatus.COMPLETED, StepStatus.SKIPPED, StepStatus.FAILED],
+    to: StepStatus.IN_PROGRESS,
+    execution: [ExecutionStatus.IN_PROGRESS]
+  }
+};
+
+const EXECUTION_STATUS_TEXT: Record<string, string> = {
+  IN_PROGRESS: '进行中',
+  COMPLETED: '已完成',
+  PAUSED: '已暂停',
+  CANCELLED: '已取消',
+  FAILED: '已失败'
+};
+
+const STEP_STATUS_TEXT: Record<string, string> = {
+  PENDING: '待处理',
+  IN_PROGRESS: '进行中',
+  COMPLETED: '已完成',
+  SKIPPED: '已跳过',
+  FAILED: '已失败'
+};
+
+// 状态转换事件，userId 为空表示系统自动转换
+export interface TransitionEvent {
+  entity: 'execution' | 'step';
+  action: ExecutionAction | StepAction;
+  executionId: string;
+  recordId?: string;
+  from: string;
+  to: string;
+  userId?: string;
+  reason?: string;
+  at: Date;
+}
+
+const invalidTransition = (message: string, details: Record<string, unknown>) => {
+  const error: any = new Error(message);
+  error.code = INVALID_TRANSITION;
+  error.details = details;
+  return error;
+};
+
+// 检查执行状态转换，返回目标状态
+export function assertExecutionTransition(action: ExecutionAction, from: string): ExecutionStatus {
+  const rule = EXECUTION_TRANSITIONS[action];
+
+  if (!rule.from.includes(from as ExecutionStatus)) {
+    throw invalidTransition(
+      `执行当前${EXECUTION_STATUS_TEXT[from] || from}，不能${rule.label}`,
+      { entity: 'execution', action, from, to: rule.to }
+    );
+  }
+
+  return rule.to;
+}
+
+// 检查步骤状态转换，executionStatus 为步骤所在执行的当前状态，返回目标状态
+export function assertStepTransition(action: StepAction, from: string, executionStatus?: string): StepStatus {
+  const rule = STEP_TRANSITIONS[action];
+
+  if (!rule.from.includes(from as StepStatus)) {
+    throw invalidTransition(
+      `步骤当前${STEP_STATUS_TEXT[from] || from}，不能${rule.label}`,
+      { entity: 'step', action, from, to: rule.to }
+    );
+  }
+
+  if (rule.execution && executionStatus !== undefined && !rule.execution.includes(executionStatus as ExecutionStatus)) {
+    throw invalidTransition(
+      `执行当前${EXECUTION_STATUS_TEXT[executionStatus] || executionStatus}，不能${rule.label}步骤`,
+      { entity: 'step', action, from, to: rule.to, executionStatus }
+    );
+  }
+
+  return rule.to;
+}
+
+// 接受任意目标状态的接口按目标状态对应到步骤动作
+export function stepActionFor(status: StepStatus): StepAction {
+  const actions: Record<StepStatus, StepAction> = {
+    [StepStatus.PENDING]: 'reset',
+    [StepStatus.IN_PROGRESS]: 'start',
+    [StepStatus.COMPLETED]: 'complete',
+    [StepStatus.SKIPPED]: 'skip',
+    [StepStatus.FAILED]: 'fail'
+  };
+  return actions[status];
+}
+
+// 转换事件在状态写入成功后同步发出，监听器需要自行处理异常
+export const transitionEvents = new EventEmitter();
+
+export function emitTransition(event: Omit<TransitionEvent, 'at'> & { at?: Date }): TransitionEvent {
+  const emitted = { ...event, at: event.at || new Date() };
+  transitionEvents.emit(TRANSITION_EVENT, emitted);
+  return emitted;
+}
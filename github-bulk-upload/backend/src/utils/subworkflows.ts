@@ -0,0 +1,94 @@
+// 子流程步骤：到达时以引用的工作流启动一个子执行，子执行完成后自动完成父步骤
+// 在 metadata.subworkflow 中配置，例如
+//   { workflowId: "...", inputs: { ticker: "ticker" }, outputs: { riskScore: "steps.3.score" } }
+// inputs 将父执行的数据映射为子执行的变量，outputs 将子执行的数据映射为父步骤的数据，
+// 路径写法与通知模板相同（workflow.name、steps.<顺序号>.<字段>、variables.<名称> 或直接写字段名）
+import Joi from 'joi';
+import { resolvePath } from './notifications';
+
+// 子流程嵌套的最大层数，同时防止工作流之间循环引用
+export const MAX_SUBWORKFLOW_DEPTH = 5;
+
+export interface SubworkflowConfig {
+  workflowId: string;
+  // 子执行变量名 -> 父执行数据路径
+  inputs?: Record<string, string>;
+  // 父步骤数据字段 -> 子执行数据路径；未配置时合并子执行各步骤的全部数据
+  outputs?: Record<string, string>;
+}
+
+export interface MappedValues {
+  values: Record<string, any>;
+  // 映射中引用但没有取到值的路径
+  missing: string[];
+}
+
+const FIELD_KEY = /^[A-Za-z_一-龥][\w一-龥]*$/;
+
+const mappingSchema = Joi.object().pattern(
+  Joi.string().pattern(FIELD_KEY),
+  Joi.string().pattern(/^[\w一-龥.]+$/).max(200)
+).messages({
+  'object.unknown': '字段名只能包含字母、数字、下划线或中文，且不能以数字开头',
+  'string.pattern.base': '数据路径格式不正确'
+});
+
+export const subworkflowConfigSchema = Joi.object({
+  workflowId: Joi.string().required().messages({
+    'string.empty': '请选择子流程引用的工作流',
+    'any.required': '子流程步骤必须引用一个工作流'
+  }),
+  inputs: mappingSchema.optional(),
+  outputs: mappingSchema.optional()
+});
+
+// 从步骤元数据中读取子流程配置，未配置或配置无效时返回 null
+export function parseSubworkflowConfig(metadata: unknown): SubworkflowConfig | null {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !parsed.subworkflow) {
+    return null;
+  }
+
+  const { error, value } = subworkflowConfigSchema.validate(parsed.subworkflow);
+  return error ? null : value;
+}
+
+// 按映射从模板数据中取值，取不到的字段不写入结果
+export function mapValues(mapping: Record<string, string>, context: Record<string, any>): MappedValues {
+  const values: Record<string, any> = {};
+  const missing: string[] = [];
+
+  for (const [key, path] of Object.entries(mapping)) {
+    const value = resolvePath(context, path);
+    if (value === undefined || value === null) {
+      missing.push(path);
+      continue;
+    }
+    values[key] = value;
+  }
+
+  return { values, missing };
+}
+
+// 子执行的输出：按 outputs 映射取值，未配置映射时按顺序号合并各步骤的数据
+export function collectOutputs(config: SubworkflowConfig, context: Record<string, any>): MappedValues {
+  if (config.outputs && Object.keys(config.outputs).length > 0) {
+    return mapValues(config.outputs, context);
+  }
+
+  const steps: Record<string, Record<string, any>> = context.steps || {};
+  const values: Record<string, any> = {};
+  for (const order of Object.keys(steps).sort((a, b) => Number(a) - Number(b))) {
+    Object.assign(values, steps[order]);
+  }
+
+  return { values, missing: [] };
+}
@@ -5,6 +5,17 @@ import {
   CreateWorkflowStepInput,
   UpdateWorkflowStepInput 
 } from '../types/models';
+import { CONDITION_OPERATORS } from './conditions';
+import { FORM_FIELD_TYPES } from './formSchema';
+import { parseFormula } from './formula';
+import { valuationConfigSchema } from './valuation';
+import { propertyModelConfigSchema } from './propertyFinance';
+import { approvalConfigSchema } from './approvals';
+import { notificationConfigSchema } from './notifications';
+import { subworkflowConfigSchema } from './subworkflows';
+import { checklistRuleSchema, checklistSchema } from './checklists';
+import { evidenceSchema } from './evidence';
+import { slaConfigSchema } from './sla';
 
 // 验证结果接口
 interface ValidationResult<T> {
@@ -13,6 +24,124 @@ interface ValidationResult<T> {
   errors?: string[];
 }
 
+// 条件规则验证Schema，分支条件和决策标准共用
+const conditionRuleSchema = Joi.object({
+  step: Joi.string().required().messages({
+    'any.required': '条件规则必须指定引用的步骤'
+  }),
+  field: Joi.string().optional(),
+  operator: Joi.string().valid(...CONDITION_OPERATORS).required().messages({
+    'any.only': '不支持的条件运算符',
+    'any.required': '条件规则必须指定运算符'
+  }),
+  value: Joi.any().when('operator', {
+    is: Joi.valid('in', 'notIn'),
+    then: Joi.array().required(),
+    otherwise: Joi.any().optional()
+  })
+});
+
+// 步骤条件验证Schema
+export const conditionsSchema = Joi.object({
+  mode: Joi.string().valid('all', 'any').optional(),
+  rules: Joi.array().items(conditionRuleSchema).min(1).required()
+});
+
+// 决策步骤的参考标准验证Schema
+const criterionSchema = conditionRuleSchema.keys({
+  label: Joi.string().min(1).max(100).required().messages({
+    'any.required': '决策标准必须指定名称 label'
+  })
+});
+
+// 输入步骤表单字段验证Schema（兼容只有字段名称的旧写法）
+const formFieldObjectSchema = Joi.object({
+  key: Joi.string().pattern(/^[A-Za-z_][A-Za-z0-9_]*$/).max(50).required().messages({
+    'string.pattern.base': '字段标识只能包含字母、数字和下划线，且不能以数字开头',
+    'any.required': '表单字段必须指定标识 key'
+  }),
+  label: Joi.string().max(50).required().messages({
+    'any.required': '表单字段必须指定名称 label'
+  }),
+  type: Joi.string().valid(...FORM_FIELD_TYPES).required().messages({
+    'any.only': '不支持的表单字段类型',
+    'any.required': '表单字段必须指定类型'
+  }),
+  required: Joi.boolean().optional(),
+  min: Joi.alternatives().try(Joi.number(), Joi.string()).optional(),
+  max: Joi.alternatives().try(Joi.number(), Joi.string()).optional(),
+  options: Joi.array().items(Joi.string()).min(1).when('type', {
+    is: 'select',
+    then: Joi.required(),
+    otherwise: Joi.optional()
+  }).messages({
+    'any.required': '下拉选择字段必须提供选项'
+  }),
+  currency: Joi.string().max(10).optional(),
+  placeholder: Joi.string().max(100).allow('').optional(),
+  helpText: Joi.string().max(200).allow('').optional()
+});
+
+const formFieldSchema = Joi.alternatives().try(Joi.string().min(1), formFieldObjectSchema);
+
+// 工作流元数据验证Schema，parameters 为启动执行时填写的参数（与表单字段定义相同，可指定默认值 default），
+// titleTemplate 为执行标题模板
+const workflowMetadataSchema = Joi.object({
+  parameters: Joi.array().items(formFieldObjectSchema.keys({ default: Joi.any().optional() })).max(20)
+    .unique((a, b) => a.key === b.key).optional().messages({
+      'array.unique': '参数标识不能重复',
+      'array.max': '参数数量不能超过20个'
+    }),
+  titleTemplate: Joi.string().max(200).allow('').optional()
+}).unknown(true);
+
+// 计算步骤的公式定义验证Schema（兼容只有名称的旧写法），保存时检查公式语法
+const calculationSchema = Joi.alternatives().try(
+  Joi.string().min(1),
+  Joi.object({
+    key: Joi.string().pattern(/^[A-Za-z_][A-Za-z0-9_]*$/).max(50).required().messages({
+      'string.pattern.base': '计算项标识只能包含字母、数字和下划线，且不能以数字开头',
+      'any.required': '计算项必须指定标识 key'
+    }),
+    label: Joi.string().max(50).optional(),
+    formula: Joi.string().required().custom((value, helpers) => {
+      try {
+        parseFormula(value);
+        return value;
+      } catch (error) {
+        return helpers.message({ custom: error instanceof Error ? error.message : '公式无效' });
+      }
+    }).messages({
+      'any.required': '计算项必须指定公式 formula'
+    }),
+    unit: Joi.string().max(20).allow('').optional(),
+    precision: Joi.number().integer().min(0).max(10).optional()
+  })
+);
+
+// 步骤元数据验证Schema，fields 为表单定义，calculations 为计算步骤的公式，
+// valuation 和 propertyModel 为估值模型和房地产测算配置，criteria 为决策步骤的参考标准，
+// approval 为审批步骤的审批人和通过规则，notification 为通知步骤的渠道和消息模板，
+// subworkflow 为子流程步骤引用的工作流和数据映射，evidence 为完成步骤前必须提供的证明材料
+export const stepMetadataSchema = Joi.object({
+  fields: Joi.array().items(formFieldSchema).unique((a, b) => typeof a === 'object' && typeof b === 'object' && a.key === b.key).optional().messages({
+    'array.unique': '表单字段标识不能重复'
+  }),
+  calculations: Joi.array().items(calculationSchema).unique((a, b) => typeof a === 'object' && typeof b === 'object' && a.key === b.key).optional().messages({
+    'array.unique': '计算项标识不能重复'
+  }),
+  valuation: Joi.alternatives().try(Joi.boolean(), valuationConfigSchema).optional(),
+  propertyModel: Joi.alternatives().try(Joi.boolean(), propertyModelConfigSchema).optional(),
+  criteria: Joi.array().items(criterionSchema).max(20).optional(),
+  approval: approvalConfigSchema.optional(),
+  notification: notificationConfigSchema.optional(),
+  subworkflow: subworkflowConfigSchema.optional(),
+  sla: slaConfigSchema.optional(),
+  checklist: checklistSchema.optional(),
+  checklistRule: checklistRuleSchema.optional(),
+  evidence: evidenceSchema.optional()
+}).unknown(true);
+
 // 工作流验证Schema
 const workflowSchema = Joi.object({
   name: Joi.string().min(1).max(100).required().messages({
@@ -33,17 +162,17 @@ const workflowSchema = Joi.object({
   }),
   isTemplate: Joi.boolean().optional(),
   status: Joi.string().valid('DRAFT', 'ACTIVE', 'ARCHIVED').optional(),
-  metadata: Joi.object().optional(),
+  metadata: workflowMetadataSchema.optional(),
   steps: Joi.array().items(Joi.object({
     name: Joi.string().min(1).max(100).required(),
     description: Joi.string().max(500).optional().allow(''),
     order: Joi.number().integer().min(1).required(),
     isRequired: Joi.boolean().optional(),
-    stepType: Joi.string().valid('CHECKLIST', 'INPUT', 'DECISION', 'APPROVAL', 'CALCULATION', 'NOTIFICATION').optional(),
+    stepType: Joi.string().valid('CHECKLIST', 'INPUT', 'DECISION', 'APPROVAL', 'CALCULATION', 'NOTIFICATION', 'SUBWORKFLOW').optional(),
     estimatedTime: Joi.number().integer().min(1).optional(),
     dependencies: Joi.array().items(Joi.string()).optional(),
-    conditions: Joi.object().optional(),
-    metadata: Joi.object().optional(),
+    conditions: conditionsSchema.optional(),
+    metadata: stepMetadataSchema.optional(),
   })).optional()
 });
 
@@ -67,7 +196,7 @@ const workflowUpdateSchema = Joi.object({
   isActive: Joi.boolean().optional(),
   isTemplate: Joi.boolean().optional(),
   status: Joi.string().valid('DRAFT', 'ACTIVE', 'ARCHIVED').optional(),
-  metadata: Joi.object().optional(),
+  metadata: workflowMetadataSchema.optional(),
 });
 
 // 工作流步骤验证Schema
@@ -88,15 +217,15 @@ const workflowStepSchema = Joi.object({
     'any.required': '步骤顺序是必填项'
   }),
   isRequired: Joi.boolean().optional(),
-  stepType: Joi.string().valid('CHECKLIST', 'INPUT', 'DECISION', 'APPROVAL', 'CALCULATION', 'NOTIFICATION').optional(),
+  stepType: Joi.string().valid('CHECKLIST', 'INPUT', 'DECISION', 'APPROVAL', 'CALCULATION', 'NOTIFICATION', 'SUBWORKFLOW').optional(),
   estimatedTime: Joi.number().integer().min(1).optional().messages({
     'number.base': '预估时间必须是数字',
     'number.integer': '预估时间必须是整数',
     'number.min': '预估时间必须大于0'
   }),
   dependencies: Joi.array().items(Joi.string()).optional(),
-  conditions: Joi.object().optional(),
-  metadata: Joi.object().optional(),
+  conditions: conditionsSchema.optional(),
+  metadata: stepMetadataSchema.optional(),
 });
 
 // 工作流步骤更新验证Schema
@@ -115,15 +244,15 @@ const workflowStepUpdateSchema = Joi.object({
     'number.min': '步骤顺序必须大于0'
   }),
   isRequired: Joi.boolean().optional(),
-  stepType: Joi.string().valid('CHECKLIST', 'INPUT', 'DECISION', 'APPROVAL', 'CALCULATION', 'NOTIFICATION').optional(),
+  stepType: Joi.string().valid('CHECKLIST', 'INPUT', 'DECISION', 'APPROVAL', 'CALCULATION', 'NOTIFICATION', 'SUBWORKFLOW').optional(),
   estimatedTime: Joi.number().integer().min(1).optional().messages({
     'number.base': '预估时间必须是数字',
     'number.integer': '预估时间必须是整数',
     'number.min': '预估时间必须大于0'
   }),
   dependencies: Joi.array().items(Joi.string()).optional(),
-  conditions: Joi.object().optional(),
-  metadata: Joi.object().optional(),
+  conditions: conditionsSchema.optional(),
+  metadata: stepMetadataSchema.optional(),
 });
 
 // 验证工作流数据
@@ -260,8 +389,13 @@ const executionSchema = Joi.object({
     'string.max': '标题不能超过200个字符'
   }),
   priority: Joi.string().valid('LOW', 'MEDIUM', 'HIGH', 'URGENT').optional(),
-  dueDate: Joi.date().optional(),
+  dueDate: Joi.date().greater('now').optional().messages({
+    'date.base': '截止日期格式不正确',
+    'date.greater': '截止日期不能是过去的时间'
+  }),
   tags: Joi.array().items(Joi.string().max(30)).max(10).optional(),
+  // 工作流声明的执行参数的值，在服务中按参数定义校验
+  parameters: Joi.object().pattern(Joi.string().max(50), Joi.any()).optional(),
   metadata: Joi.object().optional()
 });
 
@@ -272,11 +406,39 @@ const executionUpdateSchema = Joi.object({
   }),
   status: Joi.string().valid('IN_PROGRESS', 'COMPLETED', 'PAUSED', 'CANCELLED', 'FAILED').optional(),
   priority: Joi.string().valid('LOW', 'MEDIUM', 'HIGH', 'URGENT').optional(),
-  dueDate: Joi.date().optional(),
+  // 传 null 清除截止日期
+  dueDate: Joi.date().greater('now').allow(null).optional().messages({
+    'date.base': '截止日期格式不正确',
+    'date.greater': '截止日期不能是过去的时间'
+  }),
   tags: Joi.array().items(Joi.string().max(30)).max(10).optional(),
   metadata: Joi.object().optional()
 });
 
+// 重新打开步骤，必须说明原因；cascade 为 true 时同时重置依赖该步骤的后续步骤
+export const stepReopenSchema = Joi.object({
+  reason: Joi.string().trim().min(1).max(1000).required().messages({
+    'string.empty': '请填写重新打开的原因',
+    'any.required': '请填写重新打开的原因',
+    'string.max': '原因不能超过1000个字符'
+  }),
+  cascade: Joi.boolean().default(false)
+});
+
+// 修改步骤的笔记、结果和实际耗时（分钟），不改变步骤状态
+export const recordUpdateSchema = Joi.object({
+  notes: Joi.string().allow('').max(5000).messages({
+    'string.max': '笔记不能超过5000个字符'
+  }),
+  result: Joi.object(),
+  actualDuration: Joi.number().integer().min(0).messages({
+    'number.base': '实际耗时必须是数字',
+    'number.min': '实际耗时不能为负数'
+  })
+}).min(1).messages({
+  'object.min': '没有需要修改的内容'
+});
+
 // 验证执行记录数据
 export function validateExecution(data: any, isUpdate = false): ValidationResult<any> {
   const schema = isUpdate ? executionUpdateSchema : executionSchema;
@@ -0,0 +1,495 @@
+// 估值工具：多阶段DCF（WACC、永续增长/退出倍数终值）、敏感性分析和可比公司相对估值
+// 比率一律使用小数（8% = 0.08），金额与输入的现金流口径一致；
+// 计算步骤在 metadata.valuation 中启用估值模型：
+//   { methods: ['dcf', 'multiples'], required: true, defaults: { dcf: { ... } } }
+// 估值的输入和输出保存在执行记录的 result.valuation 中
+import Joi from 'joi';
+
+export const VALUATION_METHODS = ['dcf', 'multiples'] as const;
+export type ValuationMethod = typeof VALUATION_METHODS[number];
+
+export const TERMINAL_METHODS = ['perpetuity', 'exitMultiple'] as const;
+export type TerminalMethod = typeof TERMINAL_METHODS[number];
+
+// 可比公司倍数及对应的目标公司指标
+export const PEER_MULTIPLES = {
+  pe: { label: '市盈率 PE', metric: 'eps' },
+  pb: { label: '市净率 PB', metric: 'bvps' },
+  ps: { label: '市销率 PS', metric: 'salesPerShare' },
+  evEbitda: { label: 'EV/EBITDA', metric: 'ebitda' }
+} as const;
+export type PeerMultiple = keyof typeof PEER_MULTIPLES;
+
+// 估值输入无效时抛出的错误码
+export const INVALID_VALUATION_INPUT = 'INVALID_VALUATION_INPUT';
+
+export interface WaccInput {
+  riskFreeRate: number;
+  beta: number;
+  marketRiskPremium: number;
+  costOfDebt: number;
+  taxRate: number;
+  // 债务占资本总额的比例 D / (D + E)
+  debtWeight: number;
+}
+
+export interface WaccResult {
+  costOfEquity: number;
+  afterTaxCostOfDebt: number;
+  equityWeight: number;
+  debtWeight: number;
+  wacc: number;
+}
+
+export interface DcfStage {
+  years: number;
+  growth: number;
+}
+
+export interface DcfInput {
+  // 最近一期自由现金流
+  baseCashFlow: number;
+  stages: DcfStage[];
+  // 直接指定折现率，或提供 wacc 参数计算
+  discountRate?: number;
+  wacc?: WaccInput;
+  terminalMethod: TerminalMethod;
+  terminalGrowth?: number;
+  // 退出倍数，按预测期最后一年的现金流计算终值
+  exitMultiple?: number;
+  netDebt?: number;
+  // 按每股现金流输入时可不填
+  sharesOutstanding?: number;
+  sensitivity?: {
+    discountRates?: number[];
+    growthRates?: number[];
+  };
+}
+
+export interface PeerCompany {
+  name: string;
+  ticker?: string;
+  pe?: number;
+  pb?: number;
+  ps?: number;
+  evEbitda?: number;
+}
+
+export interface MultiplesInput {
+  peers: PeerCompany[];
+  metrics: {
+    eps?: number;
+    bvps?: number;
+    salesPerShare?: number;
+    ebitda?: number;
+  };
+  // EV/EBITDA 估值时由企业价值换算到每股价值
+  netDebt?: number;
+  sharesOutstanding?: number;
+}
+
+export interface ValuationInput {
+  currentPrice?: number;
+  dcf?: DcfInput;
+  multiples?: MultiplesInput;
+}
+
+export interface DcfProjection {
+  year: number;
+  growth: number;
+  cashFlow: number;
+  discountFactor: number;
+  presentValue: number;
+}
+
+export interface DcfResult {
+  discountRate: number;
+  wacc?: WaccResult;
+  projections: DcfProjection[];
+  terminalValue: number;
+  terminalPresentValue: number;
+  enterpriseValue: number;
+  equityValue: number;
+  perShareValue: number;
+}
+
+// 敏感性分析表：values[i][j] 对应 discountRates[i] 和 growthRates[j]，
+// 永续增长法的增长率为永续增长率，退出倍数法为第一阶段增长率
+export interface SensitivityTable {
+  growthAxis: 'terminalGrowth' | 'stageGrowth';
+  discountRates: number[];
+  growthRates: number[];
+  values: (number | null)[][];
+}
+
+export interface MultipleValuation {
+  multiple: PeerMultiple;
+  label: string;
+  peerCount: number;
+  // 可比公司倍数的四分位区间
+  low: number;
+  median: number;
+  mean: number;
+  high: number;
+  impliedLow: number;
+  impliedValue: number;
+  impliedHigh: number;
+}
+
+export interface FairValueRange {
+  method: ValuationMethod;
+  label: string;
+  low: number;
+  base: number;
+  high: number;
+}
+
+export interface ValuationSummary {
+  low: number;
+  base: number;
+  high: number;
+  currentPrice?: number;
+  // 基准估值相对当前价格的空间
+  upside?: number;
+  ranges: FairValueRange[];
+}
+
+export interface ValuationOutput {
+  dcf?: DcfResult;
+  sensitivity?: SensitivityTable;
+  multiples?: MultipleValuation[];
+  summary: ValuationSummary;
+}
+
+export interface ValuationConfig {
+  methods: ValuationMethod[];
+  required: boolean;
+  defaults?: Partial<ValuationInput>;
+}
+
+const MAX_PROJECTION_YEARS = 30;
+
+const rate = Joi.number().min(-1).max(10);
+
+const waccSchema = Joi.object({
+  riskFreeRate: rate.required(),
+  beta: Joi.number().min(-5).max(10).required(),
+  marketRiskPremium: rate.required(),
+  costOfDebt: rate.required(),
+  taxRate: Joi.number().min(0).max(1).required(),
+  debtWeight: Joi.number().min(0).max(1).required()
+});
+
+const dcfSchema = Joi.object({
+  baseCashFlow: Joi.number().required(),
+  stages: Joi.array().items(Joi.object({
+    years: Joi.number().integer().min(1).required(),
+    growth: rate.required()
+  })).min(1).max(5).required().messages({
+    'array.min': 'DCF至少需要一个预测阶段'
+  }),
+  discountRate: Joi.number().greater(0).max(1),
+  wacc: waccSchema,
+  terminalMethod: Joi.string().valid(...TERMINAL_METHODS).required(),
+  terminalGrowth: rate.when('terminalMethod', { is: 'perpetuity', then: Joi.required() }).messages({
+    'any.required': '永续增长法必须指定永续增长率 terminalGrowth'
+  }),
+  exitMultiple: Joi.number().greater(0).when('terminalMethod', { is: 'exitMultiple', then: Joi.required() }).messages({
+    'any.required': '退出倍数法必须指定退出倍数 exitMultiple'
+  }),
+  netDebt: Joi.number().default(0),
+  sharesOutstanding: Joi.number().greater(0).default(1),
+  sensitivity: Joi.object({
+    discountRates: Joi.array().items(Joi.number().greater(0).max(1)).min(1).max(9),
+    growthRates: Joi.array().items(rate).min(1).max(9)
+  })
+}).xor('discountRate', 'wacc').messages({
+  'object.missing': 'DCF必须指定折现率 discountRate 或 WACC 参数',
+  'object.xor': '折现率 discountRate 和 WACC 参数只能指定一个'
+});
+
+const multiplesSchema = Joi.object({
+  peers: Joi.array().items(Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    ticker: Joi.string().max(20).allow(''),
+    pe: Joi.number().greater(0),
+    pb: Joi.number().greater(0),
+    ps: Joi.number().greater(0),
+    evEbitda: Joi.number().greater(0)
+  })).min(1).max(50).required().messages({
+    'array.min': '相对估值至少需要一家可比公司'
+  }),
+  metrics: Joi.object({
+    eps: Joi.number(),
+    bvps: Joi.number(),
+    salesPerShare: Joi.number(),
+    ebitda: Joi.number()
+  }).min(1).required().messages({
+    'object.min': '相对估值至少需要一项目标公司指标'
+  }),
+  netDebt: Joi.number().default(0),
+  sharesOutstanding: Joi.number().greater(0).default(1)
+});
+
+const valuationSchema = Joi.object({
+  currentPrice: Joi.number().greater(0),
+  dcf: dcfSchema,
+  multiples: multiplesSchema
+}).or('dcf', 'multiples').messages({
+  'object.missing': '估值模型至少需要DCF或相对估值中的一种'
+});
+
+// 步骤元数据中的估值配置
+export const valuationConfigSchema = Joi.object({
+  methods: Joi.array().items(Joi.string().valid(...VALUATION_METHODS)).min(1).unique().default([...VALUATION_METHODS]),
+  required: Joi.boolean().default(false),
+  defaults: Joi.object().unknown(true)
+});
+
+function invalidInput(message: string, details: string[]): Error {
+  const error: any = new Error(message);
+  error.code = INVALID_VALUATION_INPUT;
+  error.details = details;
+  return error;
+}
+
+const round = (value: number, digits: number) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+// 线性插值的分位数，values 需已排序
+function percentile(values: number[], ratio: number): number {
+  const position = (values.length - 1) * ratio;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return values[lower] + (values[upper] - values[lower]) * (position - lower);
+}
+
+// 加权平均资本成本，股权成本按CAPM计算
+export function calculateWacc(input: WaccInput): WaccResult {
+  const costOfEquity = input.riskFreeRate + input.beta * input.marketRiskPremium;
+  const afterTaxCostOfDebt = input.costOfDebt * (1 - input.taxRate);
+  const equityWeight = 1 - input.debtWeight;
+
+  return {
+    costOfEquity,
+    afterTaxCostOfDebt,
+    equityWeight,
+    debtWeight: input.debtWeight,
+    wacc: costOfEquity * equityWeight + afterTaxCostOfDebt * input.debtWeight
+  };
+}
+
+// 多阶段DCF
+export function runDcf(input: DcfInput): DcfResult {
+  const wacc = input.wacc ? calculateWacc(input.wacc) : undefined;
+  const discountRate = wacc ? wacc.wacc : input.discountRate!;
+
+  if (discountRate <= 0) {
+    throw new Error('折现率必须大于0');
+  }
+  if (input.terminalMethod === 'perpetuity' && discountRate <= input.terminalGrowth!) {
+    throw new Error('折现率必须大于永续增长率');
+  }
+
+  const totalYears = input.stages.reduce((acc, stage) => acc + stage.years, 0);
+  if (totalYears > MAX_PROJECTION_YEARS) {
+    throw new Error(`预测期合计不能超过${MAX_PROJECTION_YEARS}年`);
+  }
+
+  const projections: DcfProjection[] = [];
+  let cashFlow = input.baseCashFlow;
+  for (const stage of input.stages) {
+    for (let i = 0; i < stage.years; i++) {
+      const year = projections.length + 1;
+      cashFlow *= 1 + stage.growth;
+      const discountFactor = 1 / Math.pow(1 + discountRate, year);
+      projections.push({ year, growth: stage.growth, cashFlow, discountFactor, presentValue: cashFlow * discountFactor });
+    }
+  }
+
+  const terminalValue = input.terminalMethod === 'perpetuity'
+    ? (cashFlow * (1 + input.terminalGrowth!)) / (discountRate - input.terminalGrowth!)
+    : cashFlow * input.exitMultiple!;
+  const terminalPresentValue = terminalValue * projections[projections.length - 1].discountFactor;
+
+  const enterpriseValue = projections.reduce((acc, item) => acc + item.presentValue, 0) + terminalPresentValue;
+  const equityValue = enterpriseValue - (input.netDebt || 0);
+
+  return {
+    discountRate,
+    wacc,
+    projections,
+    terminalValue,
+    terminalPresentValue,
+    enterpriseValue,
+    equityValue,
+    perShareValue: equityValue / (input.sharesOutstanding || 1)
+  };
+}
+
+// 默认的敏感性区间：折现率 ±2%（步长1%），增长率 ±1%（步长0.5%）
+const spread = (center: number, step: number) =>
+  [-2, -1, 0, 1, 2].map(offset => round(center + offset * step, 6));
+
+// 折现率 × 增长率的敏感性分析，返回每股价值
+export function buildSensitivityTable(input: DcfInput, base: DcfResult): SensitivityTable {
+  const perpetuity = input.terminalMethod === 'perpetuity';
+  const baseGrowth = perpetuity ? input.terminalGrowth! : input.stages[0].growth;
+
+  const discountRates = input.sensitivity?.discountRates || spread(base.discountRate, 0.01).filter(value => value > 0);
+  const growthRates = input.sensitivity?.growthRates || spread(baseGrowth, 0.005);
+
+  const values = discountRates.map(discountRate => growthRates.map(growth => {
+    if (perpetuity && discountRate <= growth) {
+      return null;
+    }
+
+    const scenario: DcfInput = perpetuity
+      ? { ...input, wacc: undefined, discountRate, terminalGrowth: growth }
+      : { ...input, wacc: undefined, discountRate, stages: input.stages.map((stage, index) => (index === 0 ? { ...stage, growth } : stage)) };
+    return round(runDcf(scenario).perShareValue, 2);
+  }));
+
+  return {
+    growthAxis: perpetuity ? 'terminalGrowth' : 'stageGrowth',
+    discountRates,
+    growthRates,
+    values
+  };
+}
+
+// 可比公司相对估值：按倍数的中位数和四分位区间推算目标公司每股价值
+export function runMultiples(input: MultiplesInput): MultipleValuation[] {
+  const valuations: MultipleValuation[] = [];
+  const netDebt = input.netDebt || 0;
+  const shares = input.sharesOutstanding || 1;
+
+  for (const [multiple, definition] of Object.entries(PEER_MULTIPLES) as [PeerMultiple, typeof PEER_MULTIPLES[PeerMultiple]][]) {
+    const metric = input.metrics[definition.metric];
+    const values = input.peers
+      .map(peer => peer[multiple])
+      .filter((value): value is number => typeof value === 'number')
+      .sort((a, b) => a - b);
+
+    if (metric === undefined || values.length === 0) {
+      continue;
+    }
+
+    const implied = (value: number) => (multiple === 'evEbitda' ? (metric * value - netDebt) / shares : metric * value);
+    const low = percentile(values, 0.25);
+    const median = percentile(values, 0.5);
+    const high = percentile(values, 0.75);
+
+    valuations.push({
+      multiple,
+      label: definition.label,
+      peerCount: values.length,
+      low: round(low, 2),
+      median: round(median, 2),
+      mean: round(values.reduce((acc, value) => acc + value, 0) / values.length, 2),
+      high: round(high, 2),
+      impliedLow: round(implied(low), 2),
+      impliedValue: round(implied(median), 2),
+      impliedHigh: round(implied(high), 2)
+    });
+  }
+
+  return valuations;
+}
+
+// 校验估值输入，返回补全默认值后的输入
+export function validateValuationInput(input: any): ValuationInput {
+  const { error, value } = valuationSchema.validate(input, { abortEarly: false });
+  if (error) {
+    const details = error.details.map(detail => detail.message);
+    throw invalidInput(`估值输入无效: ${details.join('；')}`, details);
+  }
+  return value;
+}
+
+// 运行估值模型，汇总各方法的公允价值区间
+export function runValuation(rawInput: any, methods: ValuationMethod[] = [...VALUATION_METHODS]): { input: ValuationInput; output: ValuationOutput } {
+  const input = validateValuationInput(rawInput);
+  const output: Partial<ValuationOutput> = {};
+  const ranges: FairValueRange[] = [];
+
+  try {
+    if (input.dcf && methods.includes('dcf')) {
+      const dcf = runDcf(input.dcf);
+      const sensitivity = buildSensitivityTable(input.dcf, dcf);
+      const scenarios = sensitivity.values.flat().filter((value): value is number => value !== null);
+
+      output.dcf = dcf;
+      output.sensitivity = sensitivity;
+      ranges.push({
+        method: 'dcf',
+        label: 'DCF估值',
+        low: Math.min(...scenarios),
+        base: round(dcf.perShareValue, 2),
+        high: Math.max(...scenarios)
+      });
+    }
+
+    if (input.multiples && methods.includes('multiples')) {
+      const multiples = runMultiples(input.multiples);
+      if (multiples.length === 0) {
+        throw new Error('可比公司倍数与目标公司指标没有可匹配的估值方法');
+      }
+
+      const average = (pick: (item: MultipleValuation) => number) =>
+        round(multiples.reduce((acc, item) => acc + pick(item), 0) / multiples.length, 2);
+
+      output.multiples = multiples;
+      ranges.push({
+        method: 'multiples',
+        label: '相对估值',
+        low: average(item => item.impliedLow),
+        base: average(item => item.impliedValue),
+        high: average(item => item.impliedHigh)
+      });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw invalidInput(`估值计算失败: ${message}`, [message]);
+  }
+
+  if (ranges.length === 0) {
+    throw invalidInput('没有可运行的估值方法', [`本步骤启用的估值方法: ${methods.join(', ')}`]);
+  }
+
+  const average = (pick: (range: FairValueRange) => number) =>
+    round(ranges.reduce((acc, range) => acc + pick(range), 0) / ranges.length, 2);
+  const base = average(range => range.base);
+
+  output.summary = {
+    low: average(range => range.low),
+    base,
+    high: average(range => range.high),
+    currentPrice: input.currentPrice,
+    upside: input.currentPrice ? round(base / input.currentPrice - 1, 4) : undefined,
+    ranges
+  };
+
+  return { input, output: output as ValuationOutput };
+}
+
+// 解析步骤元数据中的估值配置，未启用时返回 null
+export function parseValuationConfig(metadata: unknown): ValuationConfig | null {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !parsed.valuation) {
+    return null;
+  }
+
+  const { error, value } = valuationConfigSchema.validate(parsed.valuation === true ? {} : parsed.valuation);
+  return error ? null : value;
+}
@@ -0,0 +1,299 @@
+// 出站 Webhook：用户可以订阅自己发起或参与的执行的事件，管理员可以创建接收所有执行事件的全局订阅。
+// 请求体为 JSON，使用订阅的密钥按 HMAC-SHA256 签名：
+//   X-Webhook-Signature: sha256=<hex(HMAC(secret, `${X-Webhook-Timestamp}.${body}`))>
+// 接收方应校验签名并拒绝时间戳过旧的请求。非 2xx 响应或请求失败时按指数退避重试，
+// 超过最大次数后标记为失败，可以在投递记录中手动重放。告警系统的自定义 Webhook 渠道也使用这里的签名和投递。
+// 订阅的推送地址不能指向本机、内网或云元数据地址：保存订阅时检查，发送时按实际连接的解析结果再次检查
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import dns, { LookupAddress } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import Joi from 'joi';
+import { ExecutionStatus, StepStatus } from '../types/execution';
+import { TransitionEvent } from './stateMachine';
+
+export const WEBHOOK_EVENT_TYPES = {
+  'execution.completed': '执行完成',
+  'execution.cancelled': '执行取消',
+  'execution.paused': '执行暂停',
+  'execution.resumed': '执行恢复',
+  'execution.reopened': '执行重新打开',
+  'step.started': '步骤开始',
+  'step.completed': '步骤完成',
+  'step.failed': '步骤失败',
+  'step.skipped': '步骤跳过',
+  'step.reopened': '步骤重新打开',
+  'review.created': '添加复盘'
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENT_TYPES;
+
+// 测试推送的事件类型，不需要订阅
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export const WEBHOOK_DELIVERY_STATUSES = ['PENDING', 'SUCCEEDED', 'FAILED'] as const;
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+// 包括首次投递在内的最大尝试次数
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+// 第一次重试的间隔，之后每次翻倍
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+// 单次投递的超时
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+// 投递记录中保存的响应内容长度
+const MAX_RESPONSE_LENGTH = 1000;
+
+export const WEBHOOK_URL_NOT_ALLOWED = '推送地址不能指向本机、内网或云元数据地址';
+
+// 不允许推送的地址段：本机、私有网络、链路本地（含云元数据 169.254.169.254）、运营商 NAT、组播和保留地址。
+// IPv4 映射的 IPv6 地址（::ffff:a.b.c.d）按 IPv4 规则检查
+const blockedAddresses = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+// 只能在内网解析的主机名
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal'];
+
+const subscriptionFields = {
+  name: Joi.string().trim().min(1).max(100).messages({
+    'string.empty': '订阅名称不能为空',
+    'any.required': '订阅名称是必填项'
+  }),
+  url: Joi.string().trim().uri({ scheme: ['http', 'https'] }).max(500).messages({
+    'string.uri': '推送地址必须是 http 或 https 地址',
+    'string.uriCustomScheme': '推送地址必须是 http 或 https 地址',
+    'any.required': '推送地址是必填项'
+  }),
+  eventTypes: Joi.array()
+    .items(Joi.string().valid(...Object.keys(WEBHOOK_EVENT_TYPES)))
+    .min(1)
+    .unique()
+    .messages({
+      'array.min': '至少选择一个事件类型',
+      'any.only': '事件类型无效',
+      'any.required': '至少选择一个事件类型'
+    }),
+  // 只推送该工作流的执行事件
+  workflowId: Joi.string().allow(null),
+  // 全局订阅接收所有执行的事件，只有管理员可以创建
+  isGlobal: Joi.boolean(),
+  isActive: Joi.boolean()
+};
+
+export const webhookSubscriptionSchema = Joi.object({
+  ...subscriptionFields,
+  name: subscriptionFields.name.required(),
+  url: subscriptionFields.url.required(),
+  eventTypes: subscriptionFields.eventTypes.required(),
+  isGlobal: subscriptionFields.isGlobal.default(false),
+  isActive: subscriptionFields.isActive.default(true)
+});
+
+// 修改订阅时所有字段可选
+export const webhookSubscriptionUpdateSchema = Joi.object(subscriptionFields).min(1).messages({
+  'object.min': '没有需要修改的内容'
+});
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// 第 attempts 次尝试失败后到下一次重试的间隔，达到最大次数时返回 null
+export function getRetryDelay(attempts: number): number | null {
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) {
+    return null;
+  }
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+// 状态转换对应的 Webhook 事件，不对外推送的转换（如按条件恢复为待处理）返回 null
+export function webhookEventForTransition(event: Pick<TransitionEvent, 'entity' | 'action' | 'to'>): WebhookEventType | null {
+  if (event.entity === 'execution') {
+    const types: Record<string, WebhookEventType> = {
+      [ExecutionStatus.COMPLETED]: 'execution.completed',
+      [ExecutionStatus.CANCELLED]: 'execution.cancelled',
+      [ExecutionStatus.PAUSED]: 'execution.paused'
+    };
+    if (event.to === ExecutionStatus.IN_PROGRESS) {
+      return event.action === 'reopen' ? 'execution.reopened' : 'execution.resumed';
+    }
+    return types[event.to] || null;
+  }
+
+  const types: Record<string, WebhookEventType> = {
+    [StepStatus.COMPLETED]: 'step.completed',
+    [StepStatus.FAILED]: 'step.failed',
+    [StepStatus.SKIPPED]: 'step.skipped'
+  };
+  if (event.to === StepStatus.IN_PROGRESS) {
+    return event.action === 'reopen' ? 'step.reopened' : 'step.started';
+  }
+  return types[event.to] || null;
+}
+
+// 订阅是否接收该事件：事件类型已订阅，且未限定工作流或与执行的工作流一致
+export function subscriptionMatches(
+  subscription: { eventTypes: string[]; workflowId?: string | null; isActive: boolean },
+  eventType: string,
+  workflowId: string
+): boolean {
+  return subscription.isActive &&
+    subscription.eventTypes.includes(eventType) &&
+    (!subscription.workflowId || subscription.workflowId === workflowId);
+}
+
+export interface WebhookRequest {
+  url: string;
+  payload: unknown;
+  // 未设置密钥时不签名
+  secret?: string | null;
+  event?: string;
+  deliveryId?: string;
+  method?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  // 允许推送到内网地址，只用于运维配置的告警渠道
+  allowPrivateNetwork?: boolean;
+}
+
+export interface WebhookResponse {
+  status: number;
+  body: string;
+}
+
+// 是否为不允许推送的 IP 地址；不是 IP 地址时返回 false
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) {
+    return false;
+  }
+  return blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+function isBlockedHostname(hostname: string): boolean {
+  const name = hostname.toLowerCase().replace(/\.$/, '');
+  return BLOCKED_HOSTNAMES.includes(name) || name.endsWith('.localhost') || name.endsWith('.internal');
+}
+
+// 检查推送地址：主机名不能是内网专用名称，IP 地址或域名解析出的所有地址都不能是内网地址
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  let hostname: string;
+  try {
+    // IPv6 地址的主机名带有方括号
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    throw new Error('推送地址必须是 http 或 https 地址');
+  }
+
+  if (isBlockedHostname(hostname) || isPrivateAddress(hostname)) {
+    throw new Error(WEBHOOK_URL_NOT_ALLOWED);
+  }
+  if (isIP(hostname)) {
+    return;
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    throw new Error('推送地址的域名无法解析');
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(WEBHOOK_URL_NOT_ALLOWED);
+  }
+}
+
+// 建立连接时检查解析结果，避免检查之后域名被重新解析到内网地址
+const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new Error(WEBHOOK_URL_NOT_ALLOWED));
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+      return;
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as any;
+
+const publicHttpAgent = new http.Agent({ lookup: publicLookup });
+const publicHttpsAgent = new https.Agent({ lookup: publicLookup });
+
+// 发送一次 Webhook 请求；非 2xx 响应和网络错误都会抛出，错误中带有响应状态和内容
+export async function postWebhook(request: WebhookRequest): Promise<WebhookResponse> {
+  if (!request.allowPrivateNetwork) {
+    await assertPublicWebhookUrl(request.url);
+  }
+
+  const body = JSON.stringify(request.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'InvestmentWorkflow-Webhook/1.0',
+    'X-Webhook-Timestamp': timestamp,
+    ...(request.event ? { 'X-Webhook-Event': request.event } : {}),
+    ...(request.deliveryId ? { 'X-Webhook-Delivery': request.deliveryId } : {}),
+    ...(request.secret ? { 'X-Webhook-Signature': signWebhookPayload(request.secret, timestamp, body) } : {}),
+    ...request.headers
+  };
+
+  try {
+    const response = await axios({
+      method: request.method || 'POST',
+      url: request.url,
+      headers,
+      data: body,
+      timeout: request.timeout || WEBHOOK_TIMEOUT_MS,
+      // 响应按文本保存，不解析
+      transformResponse: data => data,
+      maxRedirects: 0,
+      ...(request.allowPrivateNetwork ? {} : { httpAgent: publicHttpAgent, httpsAgent: publicHttpsAgent })
+    });
+
+    return { status: response.status, body: truncateResponse(response.data) };
+  } catch (error: any) {
+    const wrapped: any = new Error(error.response
+      ? `推送地址返回 ${error.response.status}`
+      : `推送失败: ${error.message}`);
+    wrapped.status = error.response?.status;
+    wrapped.body = error.response ? truncateResponse(error.response.data) : undefined;
+    throw wrapped;
+  }
+}
+
+function truncateResponse(data: unknown): string {
+  const text = typeof data === 'string' ? data : data === undefined || data === null ? '' : JSON.stringify(data);
+  return text.length > MAX_RESPONSE_LENGTH ? `${text.slice(0, MAX_RESPONSE_LENGTH)}…` : text;
+}
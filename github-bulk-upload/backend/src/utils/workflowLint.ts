@@ -0,0 +1,242 @@
+// 工作流定义检查：保存步骤时只校验单个步骤的格式，这里检查步骤之间的整体一致性
+// 错误（error）会导致执行无法正常推进，发布时拒绝；警告（warning）不阻止发布，在编辑器中提示
+import { DEFAULT_CONDITION_FIELD, resolveStepRef } from './conditions';
+import { findDependencyCycle, parseDependencies } from './dependencies';
+import { parseEvidenceRules } from './evidence';
+import { parseSubworkflowConfig } from './subworkflows';
+import { conditionsSchema, stepMetadataSchema } from './validation';
+
+// 工作流定义存在错误时抛出的错误码
+export const WORKFLOW_INVALID = 'WORKFLOW_INVALID';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  code: string;
+  severity: LintSeverity;
+  message: string;
+  // 问题所在的步骤，整体问题（如没有步骤）时为空
+  stepId?: string;
+  order?: number;
+}
+
+export interface LintResult {
+  valid: boolean;
+  errors: LintIssue[];
+  warnings: LintIssue[];
+}
+
+// 检查所需的步骤定义，兼容数据库记录（JSON字符串字段）和编辑器中未保存的步骤（没有ID）
+export interface LintStep {
+  id?: string;
+  name?: string | null;
+  order: number;
+  isRequired?: boolean;
+  stepType?: string;
+  dependencies?: unknown;
+  conditions?: unknown;
+  metadata?: unknown;
+}
+
+interface StepRef {
+  step: LintStep;
+  stepId: string;
+  order: number;
+}
+
+// 无法解析的 JSON 返回 undefined
+const parseJson = (raw: unknown): any => {
+  if (typeof raw !== 'string') return raw;
+  if (raw.trim() === '') return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+const isEmpty = (raw: unknown) =>
+  raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '');
+
+const describe = (step: LintStep) => `步骤 "${step.name || step.order}"`;
+
+// 决策步骤的选项，未配置时返回空数组
+const decisionOptions = (step: LintStep): string[] => {
+  const metadata = parseJson(step.metadata);
+  return Array.isArray(metadata?.options) ? metadata.options.map(String) : [];
+};
+
+// 规则引用决策步骤的决策字段，且期望值都不在选项中时，该规则永远不会满足
+const isRuleUnreachable = (rule: any, target: LintStep): boolean => {
+  if (target.stepType !== 'DECISION' || (rule.field || DEFAULT_CONDITION_FIELD) !== DEFAULT_CONDITION_FIELD) {
+    return false;
+  }
+
+  const options = decisionOptions(target);
+  if (options.length === 0) return false;
+
+  if (rule.operator === 'eq') {
+    return !options.includes(String(rule.value));
+  }
+  if (rule.operator === 'in') {
+    return !rule.value.some((value: unknown) => options.includes(String(value)));
+  }
+  return false;
+};
+
+export function lintWorkflow(steps: LintStep[], options: { workflowId?: string } = {}): LintResult {
+  const issues: LintIssue[] = [];
+  const report = (severity: LintSeverity, code: string, message: string, step?: LintStep, stepId?: string) => {
+    issues.push(step ? { code, severity, message, stepId, order: step.order } : { code, severity, message });
+  };
+
+  if (steps.length === 0) {
+    report('error', 'NO_STEPS', '工作流没有定义步骤');
+  }
+
+  // 未保存的步骤没有ID，用位置代替
+  const refs: StepRef[] = steps.map((step, index) => ({ step, stepId: step.id || `#${index + 1}`, order: step.order }));
+
+  // 名称和顺序号
+  const orders = new Map<number, LintStep>();
+  refs.forEach(({ step, stepId }, index) => {
+    if (!step.name || !String(step.name).trim()) {
+      report('error', 'EMPTY_STEP_NAME', `第 ${index + 1} 个步骤没有名称`, step, stepId);
+    }
+
+    if (!Number.isInteger(step.order) || step.order < 1) {
+      report('error', 'INVALID_ORDER', `${describe(step)} 的顺序号必须是正整数`, step, stepId);
+      return;
+    }
+
+    const existing = orders.get(step.order);
+    if (existing) {
+      report('error', 'DUPLICATE_ORDER', `${describe(step)} 与 ${describe(existing)} 的顺序号都是 ${step.order}`, step, stepId);
+    } else {
+      orders.set(step.order, step);
+    }
+  });
+
+  // 依赖关系
+  const graph = new Map<string, string[]>();
+  for (const { step, stepId } of refs) {
+    const ids: string[] = [];
+
+    for (const ref of parseDependencies(step.dependencies)) {
+      const target = resolveStepRef(ref, refs);
+      if (!target) {
+        report('error', 'DANGLING_DEPENDENCY', `${describe(step)} 依赖的步骤 "${ref}" 不存在`, step, stepId);
+      } else if (target.stepId === stepId) {
+        report('error', 'SELF_DEPENDENCY', `${describe(step)} 不能依赖自身`, step, stepId);
+      } else {
+        ids.push(target.stepId);
+        if (target.order >= step.order) {
+          report('warning', 'FORWARD_DEPENDENCY', `${describe(step)} 依赖排在其后的${describe(target.step)}，与步骤顺序不一致`, step, stepId);
+        }
+      }
+    }
+
+    graph.set(stepId, ids);
+  }
+
+  const cycle = findDependencyCycle(graph);
+  if (cycle) {
+    const names = cycle.map(id => {
+      const ref = refs.find(item => item.stepId === id)!;
+      return ref.step.name || String(ref.order);
+    });
+    const first = refs.find(item => item.stepId === cycle[0])!;
+    report('error', 'DEPENDENCY_CYCLE', `步骤依赖存在循环: ${names.join(' → ')}`, first.step, first.stepId);
+  }
+
+  for (const { step, stepId } of refs) {
+    // 分支条件
+    if (!isEmpty(step.conditions)) {
+      const conditions = parseJson(step.conditions);
+      const { error } = conditionsSchema.validate(conditions);
+
+      if (conditions === undefined || error) {
+        report('error', 'MALFORMED_CONDITIONS', `${describe(step)} 的分支条件格式不正确${error ? `：${error.message}` : ''}`, step, stepId);
+      } else {
+        const unreachable: boolean[] = [];
+
+        for (const rule of conditions.rules) {
+          const target = resolveStepRef(String(rule.step), refs);
+          if (!target) {
+            report('error', 'DANGLING_CONDITION', `${describe(step)} 的分支条件引用的步骤 "${rule.step}" 不存在`, step, stepId);
+            continue;
+          }
+          if (target.stepId === stepId) {
+            report('error', 'SELF_CONDITION', `${describe(step)} 的分支条件不能引用自身`, step, stepId);
+            continue;
+          }
+          if (target.order >= step.order) {
+            report('warning', 'FORWARD_CONDITION', `${describe(step)} 的分支条件引用排在其后的${describe(target.step)}`, step, stepId);
+          }
+          unreachable.push(isRuleUnreachable(rule, target.step));
+        }
+
+        const neverMatches = unreachable.length > 0 && (conditions.mode === 'any'
+          ? unreachable.every(Boolean)
+          : unreachable.some(Boolean));
+        if (neverMatches) {
+          report('warning', 'UNREACHABLE_BRANCH', `${describe(step)} 的分支条件引用了决策步骤中不存在的选项，该步骤永远会被跳过`, step, stepId);
+        }
+      }
+    }
+
+    // 元数据
+    if (!isEmpty(step.metadata)) {
+      const metadata = parseJson(step.metadata);
+      const error = metadata === undefined ? undefined : stepMetadataSchema.validate(metadata).error;
+
+      if (metadata === undefined || error) {
+        report('error', 'MALFORMED_METADATA', `${describe(step)} 的配置格式不正确${error ? `：${error.message}` : ''}`, step, stepId);
+        continue;
+      }
+
+      const subworkflow = step.stepType === 'SUBWORKFLOW' ? parseSubworkflowConfig(metadata) : null;
+      if (subworkflow && options.workflowId && subworkflow.workflowId === options.workflowId) {
+        report('error', 'SUBWORKFLOW_SELF_REFERENCE', `${describe(step)} 的子流程不能引用当前工作流`, step, stepId);
+      }
+
+      // 证明材料要求的必填字段应当是本步骤会写入的字段（表单字段、计算项、决策或房地产测算汇总）
+      const evidence = parseEvidenceRules(metadata);
+      if (evidence && evidence.requiredFields.length > 0) {
+        const produced = new Set<string>([
+          ...(Array.isArray(metadata.fields) ? metadata.fields.map((field: any) => (typeof field === 'string' ? field : field?.key)) : []),
+          ...(Array.isArray(metadata.calculations) ? metadata.calculations.map((calculation: any) => calculation?.key) : []),
+          ...(step.stepType === 'DECISION' ? ['decision'] : []),
+          ...(metadata.propertyModel ? ['property'] : [])
+        ]);
+        for (const field of evidence.requiredFields) {
+          if (!produced.has(field.key)) {
+            report('warning', 'UNKNOWN_EVIDENCE_FIELD', `${describe(step)} 要求填写的字段 "${field.key}" 不是本步骤的表单字段`, step, stepId);
+          }
+        }
+      }
+    }
+
+    // 必需步骤没有可填写的内容
+    if (step.isRequired) {
+      const metadata = parseJson(step.metadata) || {};
+      const hasFields = Array.isArray(metadata.fields) && metadata.fields.length > 0;
+      const hasCalculations = Array.isArray(metadata.calculations) && metadata.calculations.length > 0;
+
+      if ((step.stepType === 'INPUT' || step.stepType === 'CALCULATION') && !hasFields && !hasCalculations) {
+        report('warning', 'EMPTY_REQUIRED_STEP', `必需的${describe(step)} 没有定义表单字段或计算项`, step, stepId);
+      } else if (step.stepType === 'DECISION' && decisionOptions(step).length === 0) {
+        report('warning', 'EMPTY_REQUIRED_STEP', `必需的${describe(step)} 没有定义决策选项`, step, stepId);
+      } else if (step.stepType === 'SUBWORKFLOW' && !parseSubworkflowConfig(metadata)) {
+        report('warning', 'EMPTY_REQUIRED_STEP', `必需的${describe(step)} 没有引用子流程`, step, stepId);
+      }
+    }
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === 'warning')
+  };
+}
@@ -0,0 +1,292 @@
+// 工作流导入导出格式（JSON / YAML）
+//
+// 导出文档结构（formatVersion 1）：
+//   format: investment-workflow
+//   formatVersion: 1
+//   exportedAt: 导出时间（ISO 8601）
+//   source: { workflowId, version }          // 来源信息，导入时仅作参考
+//   workflow: { name, description, category, tags, metadata }
+//   steps:
+//     - key: step-1                          // 文档内的步骤标识，导入时重新生成步骤ID
+//       name / description / order / isRequired / stepType / estimatedTime / metadata
+//       dependencies: [step-1, ...]          // 引用其他步骤的 key
+//       conditions: { mode, rules: [{ step: step-1, field, operator, value }] }
+//
+// 步骤ID只在单个环境内有效，因此导出时依赖和条件中的步骤ID统一替换为 key，
+// 导入时再替换为步骤顺序号，由 WorkflowStepModel.normalizeDependencies 解析为新的步骤ID
+import Joi from 'joi';
+import YAML from 'yaml';
+import { CreateWorkflowInput } from '../types/models';
+import { CONDITION_OPERATORS, parseConditions, resolveStepRef } from './conditions';
+import { parseDependencies, resolveDependencies } from './dependencies';
+import { DatabaseUtils } from './database';
+import { stepMetadataSchema } from './validation';
+
+export const WORKFLOW_EXPORT_FORMAT = 'investment-workflow';
+export const WORKFLOW_EXPORT_FORMAT_VERSION = 1;
+
+export const WORKFLOW_TRANSFER_FORMATS = ['json', 'yaml'] as const;
+export type WorkflowTransferFormat = typeof WORKFLOW_TRANSFER_FORMATS[number];
+
+// 导入时工作流名称冲突的处理方式：error 返回冲突，rename 自动重命名
+export const IMPORT_CONFLICT_STRATEGIES = ['error', 'rename'] as const;
+export type ImportConflictStrategy = typeof IMPORT_CONFLICT_STRATEGIES[number];
+
+// 导入内容无效、名称冲突时抛出的错误码
+export const WORKFLOW_IMPORT_INVALID = 'WORKFLOW_IMPORT_INVALID';
+export const WORKFLOW_IMPORT_CONFLICT = 'WORKFLOW_IMPORT_CONFLICT';
+
+export interface ExportedStep {
+  key: string;
+  name: string;
+  description?: string | null;
+  order: number;
+  isRequired: boolean;
+  stepType: string;
+  estimatedTime?: number | null;
+  dependencies: string[];
+  conditions?: Record<string, any> | null;
+  metadata?: Record<string, any> | null;
+}
+
+export interface WorkflowDocument {
+  format: typeof WORKFLOW_EXPORT_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  source?: {
+    workflowId?: string;
+    version?: number | 'draft';
+  };
+  workflow: {
+    name: string;
+    description?: string | null;
+    category?: string | null;
+    tags?: string[];
+    metadata?: Record<string, any> | null;
+  };
+  steps: ExportedStep[];
+}
+
+export interface ImportConflict {
+  type: 'NAME_CONFLICT';
+  message: string;
+  existingWorkflowId?: string;
+  resolution?: string;
+}
+
+export interface WorkflowImportOptions {
+  onConflict?: ImportConflictStrategy;
+  dryRun?: boolean;
+}
+
+export interface WorkflowImportResult {
+  name: string;
+  dryRun: boolean;
+  conflicts: ImportConflict[];
+  stepCount: number;
+  workflow?: Record<string, any>;
+}
+
+const stepSchema = Joi.object({
+  key: Joi.string().max(100).required().messages({
+    'any.required': '步骤缺少 key'
+  }),
+  name: Joi.string().min(1).max(100).required().messages({
+    'any.required': '步骤名称是必填项'
+  }),
+  description: Joi.string().max(500).allow('', null).optional(),
+  order: Joi.number().integer().min(1).required().messages({
+    'any.required': '步骤顺序是必填项'
+  }),
+  isRequired: Joi.boolean().optional(),
+  stepType: Joi.string().valid('CHECKLIST', 'INPUT', 'DECISION', 'APPROVAL', 'CALCULATION', 'NOTIFICATION', 'SUBWORKFLOW').optional().messages({
+    'any.only': '不支持的步骤类型'
+  }),
+  estimatedTime: Joi.number().integer().min(1).allow(null).optional(),
+  dependencies: Joi.array().items(Joi.string()).optional(),
+  conditions: Joi.object({
+    mode: Joi.string().valid('all', 'any').optional(),
+    rules: Joi.array().items(Joi.object({
+      step: Joi.string().required(),
+      field: Joi.string().optional(),
+      operator: Joi.string().valid(...CONDITION_OPERATORS).required(),
+      value: Joi.any().optional()
+    })).min(1).required()
+  }).allow(null).optional(),
+  metadata: stepMetadataSchema.allow(null).optional()
+});
+
+const documentSchema = Joi.object({
+  format: Joi.string().valid(WORKFLOW_EXPORT_FORMAT).required().messages({
+    'any.only': `不是有效的工作流导出文件（format 应为 ${WORKFLOW_EXPORT_FORMAT}）`,
+    'any.required': '缺少 format 字段，无法识别导入文件'
+  }),
+  formatVersion: Joi.number().integer().min(1).max(WORKFLOW_EXPORT_FORMAT_VERSION).required().messages({
+    'number.max': `不支持的格式版本，当前最高支持 ${WORKFLOW_EXPORT_FORMAT_VERSION}`,
+    'any.required': '缺少 formatVersion 字段'
+  }),
+  exportedAt: Joi.string().optional(),
+  source: Joi.object().unknown(true).optional(),
+  workflow: Joi.object({
+    name: Joi.string().min(1).max(100).required().messages({
+      'any.required': '工作流名称是必填项'
+    }),
+    description: Joi.string().max(500).allow('', null).optional(),
+    category: Joi.string().max(50).allow('', null).optional(),
+    tags: Joi.array().items(Joi.string().max(30)).max(10).optional(),
+    metadata: Joi.object().allow(null).optional()
+  }).required(),
+  steps: Joi.array().items(stepSchema).min(1).unique('key').unique('order').required().messages({
+    'array.min': '工作流至少需要一个步骤',
+    'array.unique': '步骤的 key 和顺序号不能重复'
+  })
+});
+
+function invalidImport(message: string, details?: string[]): Error {
+  const error: any = new Error(message);
+  error.code = WORKFLOW_IMPORT_INVALID;
+  error.details = details;
+  return error;
+}
+
+// 生成工作流导出文档，steps 可以是草稿步骤或已发布版本的步骤
+export function buildWorkflowDocument(
+  workflow: Record<string, any>,
+  steps: any[],
+  source?: WorkflowDocument['source']
+): WorkflowDocument {
+  const ordered = [...steps].sort((a, b) => a.order - b.order);
+  const refs = ordered.map((step, index) => ({ stepId: step.id as string, order: step.order as number, key: `step-${index + 1}` }));
+  const toKey = (ref: string) => resolveStepRef(ref, refs)?.key || ref;
+
+  return {
+    format: WORKFLOW_EXPORT_FORMAT,
+    formatVersion: WORKFLOW_EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    source,
+    workflow: {
+      name: workflow.name,
+      description: workflow.description ?? null,
+      category: workflow.category ?? null,
+      tags: DatabaseUtils.parseJsonField(workflow.tags) || [],
+      metadata: DatabaseUtils.parseJsonField(workflow.metadata)
+    },
+    steps: ordered.map((step, index) => {
+      const conditions = parseConditions(step.conditions);
+
+      return {
+        key: refs[index].key,
+        name: step.name,
+        description: step.description ?? null,
+        order: step.order,
+        isRequired: step.isRequired,
+        stepType: step.stepType,
+        estimatedTime: step.estimatedTime ?? null,
+        dependencies: parseDependencies(step.dependencies).map(toKey),
+        conditions: conditions
+          ? { ...conditions, rules: conditions.rules.map(rule => ({ ...rule, step: toKey(rule.step) })) }
+          : null,
+        metadata: DatabaseUtils.parseJsonField(step.metadata)
+      };
+    })
+  };
+}
+
+// 序列化导出文档
+export function serializeWorkflowDocument(document: WorkflowDocument, format: WorkflowTransferFormat): string {
+  return format === 'yaml'
+    ? YAML.stringify(document)
+    : JSON.stringify(document, null, 2);
+}
+
+// 解析导入内容，未指定格式时根据内容判断（JSON 以 { 开头）
+export function parseWorkflowDocument(content: unknown, format?: WorkflowTransferFormat): WorkflowDocument {
+  let raw = content;
+
+  if (typeof content === 'string') {
+    const text = content.trim();
+    const detected = format || (text.startsWith('{') ? 'json' : 'yaml');
+
+    try {
+      raw = detected === 'json' ? JSON.parse(text) : YAML.parse(text);
+    } catch (error) {
+      throw invalidImport(`导入文件不是有效的${detected.toUpperCase()}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const { error, value } = documentSchema.validate(raw, { abortEarly: false });
+  if (error) {
+    throw invalidImport('导入文件验证失败', error.details.map(detail => detail.message));
+  }
+
+  const document = value as WorkflowDocument;
+  const keys = new Set(document.steps.map(step => step.key));
+  const errors: string[] = [];
+
+  for (const step of document.steps) {
+    for (const dependency of step.dependencies || []) {
+      if (!keys.has(dependency)) {
+        errors.push(`步骤 "${step.name}" 的依赖 "${dependency}" 不存在`);
+      }
+    }
+    for (const rule of step.conditions?.rules || []) {
+      if (!keys.has(rule.step)) {
+        errors.push(`步骤 "${step.name}" 的条件引用了不存在的步骤 "${rule.step}"`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw invalidImport('导入文件验证失败', errors);
+  }
+
+  // 依赖必须构成有向无环图
+  try {
+    resolveDependencies(document.steps.map(step => ({ ...step, id: step.key })));
+  } catch (error) {
+    throw invalidImport('导入文件验证失败', [error instanceof Error ? error.message : String(error)]);
+  }
+
+  return document;
+}
+
+// 将导入文档转换为创建工作流的输入，步骤引用由 key 换成顺序号
+export function toCreateWorkflowInput(document: WorkflowDocument, name = document.workflow.name): CreateWorkflowInput {
+  const orderByKey = new Map(document.steps.map(step => [step.key, String(step.order)]));
+  const { description, category, tags, metadata } = document.workflow;
+
+  return {
+    name,
+    description: description || undefined,
+    category: category || undefined,
+    tags,
+    metadata: metadata || undefined,
+    steps: document.steps.map(step => ({
+      name: step.name,
+      description: step.description || undefined,
+      order: step.order,
+      isRequired: step.isRequired,
+      stepType: step.stepType as any,
+      estimatedTime: step.estimatedTime || undefined,
+      dependencies: (step.dependencies || []).map(key => orderByKey.get(key)!),
+      conditions: step.conditions
+        ? { ...step.conditions, rules: step.conditions.rules.map((rule: any) => ({ ...rule, step: orderByKey.get(rule.step)! })) }
+        : undefined,
+      metadata: step.metadata || undefined
+    }))
+  };
+}
+
+// 名称冲突时生成可用的新名称：名称 (导入)、名称 (导入 2) ...
+export function resolveImportName(name: string, existingNames: string[]): string {
+  const taken = new Set(existingNames);
+  if (!taken.has(name)) {
+    return name;
+  }
+
+  let candidate = `${name} (导入)`;
+  for (let index = 2; taken.has(candidate); index++) {
+    candidate = `${name} (导入 ${index})`;
+  }
+  return candidate;
+}
@@ -0,0 +1,139 @@
+// 工作流版本工具
+// 发布时草稿步骤被复制为新的版本步骤（新ID），依赖和条件中引用的步骤ID需要同步替换；
+// 版本对比以 sourceStepId（复制来源的草稿步骤ID）作为步骤的稳定标识
+import { parseDependencies } from './dependencies';
+import { parseConditions, StepConditions } from './conditions';
+import { DatabaseUtils } from './database';
+
+// 参与版本对比的步骤字段
+export const VERSIONED_STEP_FIELDS = [
+  'name',
+  'description',
+  'order',
+  'isRequired',
+  'stepType',
+  'estimatedTime',
+  'dependencies',
+  'conditions',
+  'metadata'
+] as const;
+
+// 参与版本对比的工作流字段
+export const VERSIONED_WORKFLOW_FIELDS = ['name', 'description', 'category', 'tags', 'metadata'] as const;
+
+// 工作流还没有发布过版本，不能启动执行
+export const WORKFLOW_NOT_PUBLISHED = 'WORKFLOW_NOT_PUBLISHED';
+
+export type VersionRef = number | 'draft';
+
+export interface ComparableStep {
+  key: string;
+  name: string;
+  [field: string]: any;
+}
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface StepChange {
+  key: string;
+  name: string;
+  changes: FieldChange[];
+}
+
+export interface ComparableVersion {
+  version: VersionRef;
+  workflow: Record<string, any>;
+  steps: ComparableStep[];
+}
+
+export interface WorkflowVersionDiff {
+  from: VersionRef;
+  to: VersionRef;
+  workflow: FieldChange[];
+  steps: {
+    added: ComparableStep[];
+    removed: ComparableStep[];
+    modified: StepChange[];
+  };
+}
+
+// 替换依赖中的步骤ID
+export function remapDependencies(raw: unknown, idMap: Map<string, string>): string[] {
+  return parseDependencies(raw).map(ref => idMap.get(ref) || ref);
+}
+
+// 替换条件规则中的步骤ID（顺序号引用保持不变）
+export function remapConditions(raw: unknown, idMap: Map<string, string>): StepConditions | null {
+  const conditions = parseConditions(raw);
+  if (!conditions) {
+    return null;
+  }
+
+  return {
+    ...conditions,
+    rules: conditions.rules.map(rule => ({ ...rule, step: idMap.get(rule.step) || rule.step }))
+  };
+}
+
+// 将步骤转换为可对比的结构，依赖和条件中的步骤ID统一换成步骤标识
+export function toComparableSteps(steps: any[], keyOf: (step: any) => string): ComparableStep[] {
+  const keyMap = new Map(steps.map(step => [step.id as string, keyOf(step)]));
+
+  return steps.map(step => ({
+    key: keyOf(step),
+    name: step.name,
+    description: step.description ?? null,
+    order: step.order,
+    isRequired: step.isRequired,
+    stepType: step.stepType,
+    estimatedTime: step.estimatedTime ?? null,
+    dependencies: remapDependencies(step.dependencies, keyMap),
+    conditions: remapConditions(step.conditions, keyMap),
+    metadata: DatabaseUtils.parseJsonField(step.metadata)
+  }));
+}
+
+// 与字段顺序无关的序列化，用于判断值是否相同
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function diffFields(from: Record<string, any>, to: Record<string, any>, fields: readonly string[]): FieldChange[] {
+  return fields
+    .filter(field => stableStringify(from[field]) !== stableStringify(to[field]))
+    .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+// 对比两个版本
+export function diffWorkflowVersions(from: ComparableVersion, to: ComparableVersion): WorkflowVersionDiff {
+  const fromSteps = new Map(from.steps.map(step => [step.key, step]));
+  const toSteps = new Map(to.steps.map(step => [step.key, step]));
+
+  const added = to.steps.filter(step => !fromSteps.has(step.key));
+  const removed = from.steps.filter(step => !toSteps.has(step.key));
+  const modified = to.steps
+    .filter(step => fromSteps.has(step.key))
+    .map(step => ({
+      key: step.key,
+      name: step.name,
+      changes: diffFields(fromSteps.get(step.key)!, step, VERSIONED_STEP_FIELDS)
+    }))
+    .filter(change => change.changes.length > 0);
+
+  return {
+    from: from.version,
+    to: to.version,
+    workflow: diffFields(from.workflow, to.workflow, VERSIONED_WORKFLOW_FIELDS),
+    steps: { added, removed, modified }
+  };
+}
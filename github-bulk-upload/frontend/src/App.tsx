@@ -16,6 +16,7 @@ import {
   RegisterForm,
   WorkflowExecution,
   UserManagement,
+  WebhookSettings,
   preloadCriticalRoutes,
 } from './routes/LazyRoutes';
 import LazyRoute from './components/common/LazyRoute';
@@ -155,6 +156,18 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/webhooks"
+                element={
+                  <ProtectedRoute>
+                    <Layout>
+                      <LazyRoute>
+                        <WebhookSettings />
+                      </LazyRoute>
+                    </Layout>
+                  </ProtectedRoute>
+                }
+              />
               
               {/* 默认重定向 */}
               <Route path="/" element={<Navigate to="/login" replace />} />
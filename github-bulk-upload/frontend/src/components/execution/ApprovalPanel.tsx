@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ApprovalDecision, StepApprovalState } from '../../types/workflow';
+import { ExecutionRecord, executionService } from '../../services/execution';
+import { APPROVAL_DECISION_LABELS, APPROVER_ROLE_LABELS, formatQuorum } from '../../utils/approvals';
+
+interface ApprovalPanelProps {
+  executionId: string;
+  recordId: string;
+  // 审批提交后刷新步骤记录（通过或驳回都会改变步骤状态）
+  onDecided?: (record: ExecutionRecord) => void;
+}
+
+const DECISION_STYLES: Record<ApprovalDecision, string> = {
+  APPROVED: 'text-green-700 bg-green-100',
+  REJECTED: 'text-red-700 bg-red-100',
+};
+
+// 审批步骤：显示审批人、通过规则和历次审批意见，审批人可在此同意或驳回
+const ApprovalPanel: React.FC<ApprovalPanelProps> = ({ executionId, recordId, onDecided }) => {
+  const [state, setState] = useState<StepApprovalState | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadApprovals = useCallback(() => {
+    executionService.getStepApprovals(executionId, recordId)
+      .then(setState)
+      .catch(() => setState(null));
+  }, [executionId, recordId]);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [loadApprovals]);
+
+  const handleDecide = async (decision: ApprovalDecision) => {
+    if (decision === 'REJECTED' && !comment.trim()) {
+      toast.error('驳回时请填写审批意见');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const record = await executionService.decideApproval(executionId, recordId, decision, comment.trim() || undefined);
+      toast.success(decision === 'APPROVED' ? '已同意' : '已驳回');
+      setComment('');
+      onDecided?.(record);
+      loadApprovals();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '提交审批意见失败');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!state) {
+    return null;
+  }
+
+  const { config, tally } = state;
+  const approverNames = state.approvers.map(user => user.name || user.email);
+
+  return (
+    <div className="border border-gray-200 rounded-md">
+      <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">
+          审批（第 {state.round} 轮，{formatQuorum(config.quorum)}）
+        </span>
+        <span className="text-xs text-gray-500">
+          同意 {tally.approvals}/{tally.required}，驳回 {tally.rejections}
+        </span>
+      </div>
+
+      <div className="p-3 space-y-3 text-sm">
+        <div className="text-xs text-gray-600">
+          审批人：{approverNames.length > 0 ? approverNames.join('、') : '暂无符合条件的审批人'}
+          {config.approvers.role && `（${APPROVER_ROLE_LABELS[config.approvers.role] || config.approvers.role}角色）`}
+          {config.rejectTo && `；驳回后退回步骤 ${config.rejectTo}`}
+        </div>
+
+        {state.approvals.length > 0 && (
+          <ul className="divide-y divide-gray-100">
+            {state.approvals.map(item => (
+              <li key={item.id} className="py-2 flex items-start justify-between">
+                <div>
+                  <div className="text-gray-900">
+                    {item.approver.name || item.approver.email}
+                    <span className="ml-2 text-xs text-gray-400">第 {item.round} 轮 · {new Date(item.createdAt).toLocaleString('zh-CN')}</span>
+                  </div>
+                  {item.comment && <div className="text-gray-600 mt-0.5">{item.comment}</div>}
+                </div>
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${DECISION_STYLES[item.decision]}`}>
+                  {APPROVAL_DECISION_LABELS[item.decision]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {state.canDecide && (
+          <div className="space-y-2">
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              placeholder="审批意见（驳回时必填）"
+              rows={2}
+            />
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleDecide('APPROVED')}
+                disabled={isSubmitting}
+                className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
+              >
+                {isSubmitting ? '处理中...' : '同意'}
+              </button>
+              <button
+                onClick={() => handleDecide('REJECTED')}
+                disabled={isSubmitting}
+                className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+              >
+                {isSubmitting ? '处理中...' : '驳回'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalPanel;
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AssignedStep } from '../../types/workflow';
+import { ExecutionRecordStatus, ExecutionService, executionService } from '../../services/execution';
+
+// 分配给我的步骤，跨执行按截止时间排序，点击进入对应执行处理
+const AssignedSteps: React.FC = () => {
+  const navigate = useNavigate();
+  const [steps, setSteps] = useState<AssignedStep[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    executionService.getAssignedSteps()
+      .then(setSteps)
+      .catch(() => setSteps([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8">
+      <h3 className="text-lg font-medium text-gray-900 mb-6">
+        分配给我{steps.length > 0 && <span className="ml-2 text-sm text-indigo-600">{steps.length}</span>}
+      </h3>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">加载中...</p>
+      ) : steps.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无分配给我的步骤</p>
+      ) : (
+        <div className="space-y-3">
+          {steps.map(item => (
+            <button
+              key={item.recordId}
+              onClick={() => navigate(`/executions/${item.executionId}`)}
+              className="w-full text-left p-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900 truncate">{item.title || item.workflow.name}</span>
+                <span className={`px-2 py-0.5 text-xs rounded-full ${ExecutionService.getStepStatusColor(item.status as ExecutionRecordStatus)}`}>
+                  {ExecutionService.getStepStatusText(item.status as ExecutionRecordStatus)}
+                </span>
+              </div>
+              <p className="text-sm text-gray-500 mt-1">
+                步骤 {item.stepOrder}：{item.stepName} · 发起人 {item.owner.name || item.owner.email}
+                {item.dueAt && ` · 截止 ${new Date(item.dueAt).toLocaleString('zh-CN')}`}
+                {item.executionStatus === 'PAUSED' && ' · 执行已暂停'}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssignedSteps;
@@ -10,6 +10,8 @@ interface AttachmentManagerProps {
   className?: string;
   showUpload?: boolean;
   showTitle?: boolean;
+  // 其他成员上传或删除附件后重新加载
+  refreshKey?: unknown;
 }
 
 const AttachmentManager: React.FC<AttachmentManagerProps> = ({
@@ -17,6 +19,7 @@ const AttachmentManager: React.FC<AttachmentManagerProps> = ({
   className = '',
   showUpload = true,
   showTitle = true,
+  refreshKey,
 }) => {
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -42,7 +45,7 @@ const AttachmentManager: React.FC<AttachmentManagerProps> = ({
     if (executionRecordId) {
       loadAttachments();
     }
-  }, [executionRecordId]);
+  }, [executionRecordId, refreshKey]);
 
   // 处理上传成功
   const handleUploadSuccess = (newAttachments: Attachment[]) => {
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Workflow } from '../../types/workflow';
+import { BatchRowError, ExecutionBatchDetail, ExecutionPriority, executionService } from '../../services/execution';
+import { parseParameterDefinitions } from '../../utils/parameters';
+
+interface BatchLaunchModalProps {
+  workflows: Workflow[];
+  initialWorkflowId?: string;
+  onClose: () => void;
+  onLaunched: (batch: ExecutionBatchDetail) => void;
+}
+
+// 批量启动执行：每行一组参数（如一只股票），首行为参数名或参数标签，也可以上传 CSV 文件
+const BatchLaunchModal: React.FC<BatchLaunchModalProps> = ({ workflows, initialWorkflowId = '', onClose, onLaunched }) => {
+  const [workflowId, setWorkflowId] = useState(initialWorkflowId);
+  const [name, setName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [priority, setPriority] = useState<ExecutionPriority>(ExecutionPriority.MEDIUM);
+  const [tags, setTags] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [rowErrors, setRowErrors] = useState<BatchRowError[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const parameterDefinitions = parseParameterDefinitions(workflows.find(w => w.id === workflowId)?.metadata);
+  const rowCount = Math.max(csv.split(/\r?\n/).filter(line => line.trim()).length - 1, 0);
+
+  const handleWorkflowChange = (id: string) => {
+    setWorkflowId(id);
+    setRowErrors([]);
+    // 预填表头，方便直接粘贴数据
+    const definitions = parseParameterDefinitions(workflows.find(w => w.id === id)?.metadata);
+    if (!csv.trim() && definitions.length > 0) {
+      setCsv(`${definitions.map(definition => definition.key).join(',')}\n`);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setCsv(String(reader.result || ''));
+      setRowErrors([]);
+    };
+    reader.readAsText(file, 'utf-8');
+    e.target.value = '';
+  };
+
+  const handleSubmit = async () => {
+    if (!workflowId || !name.trim()) {
+      toast.error('请选择工作流并填写批次名称');
+      return;
+    }
+    if (rowCount === 0) {
+      toast.error('请至少填写一行参数');
+      return;
+    }
+    if (dueDate && new Date(dueDate) <= new Date()) {
+      toast.error('截止日期不能是过去的时间');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setRowErrors([]);
+    try {
+      const batch = await executionService.createBatch({
+        workflowId,
+        name: name.trim(),
+        csv,
+        priority,
+        tags: tags.split(/[,，]/).map(tag => tag.trim()).filter(Boolean),
+        dueDate: dueDate ? new Date(dueDate) : undefined
+      });
+      toast.success(`已启动 ${batch.executions.length} 个执行`);
+      onLaunched(batch);
+    } catch (error: any) {
+      const apiError = error.response?.data?.error;
+      setRowErrors(apiError?.details?.rowErrors || []);
+      toast.error(apiError?.message || '批量启动失败');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-2/3 lg:w-1/2 shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">批量启动执行</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+          <select
+            value={workflowId}
+            onChange={(e) => handleWorkflowChange(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">请选择工作流</option>
+            {workflows.map(workflow => (
+              <option key={workflow.id} value={workflow.id}>{workflow.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="批次名称，例如 2024Q4 港股科技股筛选"
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <select
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as ExecutionPriority)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value={ExecutionPriority.LOW}>低优先级</option>
+            <option value={ExecutionPriority.MEDIUM}>中优先级</option>
+            <option value={ExecutionPriority.HIGH}>高优先级</option>
+            <option value={ExecutionPriority.URGENT}>紧急</option>
+          </select>
+          <input
+            type="datetime-local"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="标签，用逗号分隔"
+            className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+
+        <div className="mb-2 flex items-center justify-between">
+          <label className="text-sm font-medium text-gray-700">
+            参数列表{rowCount > 0 && <span className="ml-2 text-gray-500 font-normal">共 {rowCount} 行</span>}
+          </label>
+          <label className="text-sm text-indigo-600 hover:text-indigo-500 cursor-pointer">
+            上传 CSV
+            <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+          </label>
+        </div>
+        {workflowId && parameterDefinitions.length === 0 && (
+          <p className="mb-2 text-xs text-yellow-700">该工作流没有声明执行参数，请先在流程设计中添加参数</p>
+        )}
+        {parameterDefinitions.length > 0 && (
+          <p className="mb-2 text-xs text-gray-500">
+            可用的列：{parameterDefinitions.map(definition => `${definition.key}（${definition.label}${definition.required ? '，必填' : ''}）`).join('、')}
+          </p>
+        )}
+        <textarea
+          value={csv}
+          onChange={(e) => setCsv(e.target.value)}
+          rows={8}
+          placeholder={'ticker,market\n00700.HK,港股\nAAPL,美股'}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+        />
+
+        {rowErrors.length > 0 && (
+          <div className="mt-3 p-3 bg-red-50 rounded-md max-h-40 overflow-y-auto">
+            <p className="text-sm font-medium text-red-800 mb-1">以下行未通过校验，未创建任何执行：</p>
+            <ul className="text-sm text-red-700 space-y-1">
+              {rowErrors.map(rowError => (
+                <li key={rowError.row}>
+                  第 {rowError.row} 行：{rowError.errors.map(item => item.message).join('；')}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="mt-4 flex items-center justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !workflowId}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isSubmitting ? '启动中...' : `启动 ${rowCount} 个执行`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchLaunchModal;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { CalculationTrace as CalculationTraceItem } from '../../types/workflow';
+
+interface CalculationTraceProps {
+  trace: CalculationTraceItem[];
+  title?: string;
+}
+
+const formatNumber = (value: number) =>
+  value.toLocaleString('zh-CN', { maximumFractionDigits: 6 });
+
+// 计算步骤的计算过程：公式、引用的值和结果
+const CalculationTrace: React.FC<CalculationTraceProps> = ({ trace, title = '计算过程' }) => {
+  if (trace.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-md">
+      <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 text-sm font-medium text-gray-700">
+        {title}
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {trace.map(item => (
+          <li key={item.key} className="px-3 py-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-gray-900">{item.label}</span>
+              {item.error ? (
+                <span className="text-red-600">{item.error}</span>
+              ) : (
+                <span className="font-mono text-gray-900">
+                  {item.value !== null ? formatNumber(item.value) : '-'}
+                  {item.unit ? ` ${item.unit}` : ''}
+                </span>
+              )}
+            </div>
+            <div className="mt-1 font-mono text-xs text-gray-500">{item.formula}</div>
+            {Object.keys(item.inputs).length > 0 && (
+              <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-gray-500">
+                {Object.entries(item.inputs).map(([name, value]) => (
+                  <span key={name} className="font-mono">
+                    {name} = {formatNumber(value)}
+                  </span>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CalculationTrace;
@@ -0,0 +1,149 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ChecklistItemState, StepChecklistState } from '../../types/workflow';
+import { Attachment } from '../../types/attachment';
+import { executionService } from '../../services/execution';
+import { attachmentService } from '../../services/attachment';
+
+interface ChecklistPanelProps {
+  executionId: string;
+  recordId: string;
+  // 步骤不在进行中时只读
+  disabled?: boolean;
+}
+
+// 检查清单步骤：逐项勾选，每项可填写说明并关联本步骤上传的附件作为证明材料
+const ChecklistPanel: React.FC<ChecklistPanelProps> = ({ executionId, recordId, disabled = false }) => {
+  const [state, setState] = useState<StepChecklistState | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const loadChecklist = useCallback(() => {
+    executionService.getChecklist(executionId, recordId)
+      .then(result => {
+        setState(result);
+        setNotes(Object.fromEntries(result.items.map(item => [item.key, item.note || ''])));
+      })
+      .catch(() => setState(null));
+  }, [executionId, recordId]);
+
+  useEffect(() => {
+    loadChecklist();
+  }, [loadChecklist]);
+
+  useEffect(() => {
+    if (disabled) return;
+    attachmentService.getAttachments(recordId)
+      .then(response => setAttachments(response.data.attachments))
+      .catch(() => setAttachments([]));
+  }, [recordId, disabled]);
+
+  const updateItem = async (item: ChecklistItemState, changes: { checked?: boolean; note?: string; attachmentId?: string | null }) => {
+    setSavingKey(item.key);
+    try {
+      const result = await executionService.updateChecklistItem(executionId, recordId, {
+        item: item.key,
+        checked: changes.checked ?? item.checked,
+        ...(changes.note !== undefined && { note: changes.note }),
+        ...(changes.attachmentId !== undefined && { attachmentId: changes.attachmentId })
+      });
+      setState(result);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '更新检查项失败');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleNoteBlur = (item: ChecklistItemState) => {
+    const note = (notes[item.key] || '').trim();
+    if (note !== (item.note || '')) {
+      updateItem(item, { note });
+    }
+  };
+
+  if (!state) {
+    return null;
+  }
+
+  const { progress } = state;
+
+  return (
+    <div className="border border-gray-200 rounded-md">
+      <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">
+          检查清单（{state.rule === 'all' ? '全部勾选后可完成' : '必选项勾选后可完成'}）
+        </span>
+        <span className="text-xs text-gray-500">
+          {progress.checked}/{progress.total} · {progress.percent}%
+        </span>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {state.items.map(item => (
+          <li key={item.key} className="p-3 text-sm space-y-2">
+            <label className="flex items-start space-x-2">
+              <input
+                type="checkbox"
+                checked={item.checked}
+                disabled={disabled || savingKey === item.key}
+                onChange={(e) => updateItem(item, { checked: e.target.checked })}
+                className="mt-0.5 h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              <span className={item.checked ? 'text-gray-900' : 'text-gray-700'}>
+                {item.label}
+                {(item.required || state.rule === 'all') && <span className="ml-1 text-red-500">*</span>}
+              </span>
+              {item.checked && item.checkedBy && (
+                <span className="ml-auto text-xs text-gray-400 whitespace-nowrap">
+                  {item.checkedBy.name}
+                  {item.checkedAt && ` · ${new Date(item.checkedAt).toLocaleString('zh-CN')}`}
+                </span>
+              )}
+            </label>
+
+            {disabled ? (
+              (item.note || item.attachment) && (
+                <div className="ml-6 text-xs text-gray-600 space-y-0.5">
+                  {item.note && <div>{item.note}</div>}
+                  {item.attachment && <div>证明材料：{item.attachment.originalName}</div>}
+                </div>
+              )
+            ) : (
+              <div className="ml-6 grid grid-cols-1 md:grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  value={notes[item.key] || ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [item.key]: e.target.value }))}
+                  onBlur={() => handleNoteBlur(item)}
+                  placeholder="说明（可选）"
+                  className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+                />
+                <select
+                  value={item.attachment?.id || ''}
+                  onChange={(e) => updateItem(item, { attachmentId: e.target.value || null })}
+                  disabled={savingKey === item.key}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+                >
+                  <option value="">{attachments.length > 0 ? '关联证明材料（可选）' : '暂无附件，可在下方上传'}</option>
+                  {attachments.map(attachment => (
+                    <option key={attachment.id} value={attachment.id}>{attachment.originalName}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {!disabled && progress.missing.length > 0 && (
+        <div className="px-3 py-2 border-t border-gray-200 text-xs text-yellow-700">
+          还需勾选：{progress.missing.map(item => item.label).join('、')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChecklistPanel;
@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import toast from 'react-hot-toast';
+import { RootState } from '../../store/store';
+import { ExecutionComment, ExecutionCommentRevision, executionService } from '../../services/execution';
+
+interface CommentThreadProps {
+  executionId: string;
+  // 指定时只显示和发表该步骤的评论，否则显示执行的全部评论
+  recordId?: string;
+  // 执行发起人可以删除任何评论
+  canDeleteAny?: boolean;
+  // 可以处理执行的成员可以解决任何讨论
+  canResolve?: boolean;
+  showTitle?: boolean;
+  // 其他成员修改评论后重新加载
+  refreshKey?: unknown;
+}
+
+// 评论讨论串：回复挂在顶层评论下，@邮箱 或 @姓名 会通知被提到的执行成员，
+// 顶层评论可以标记为已解决；修改过的评论可以查看修改历史
+const CommentThread: React.FC<CommentThreadProps> = ({
+  executionId,
+  recordId,
+  canDeleteAny = false,
+  canResolve = false,
+  showTitle = true,
+  refreshKey
+}) => {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const [threads, setThreads] = useState<ExecutionComment[]>([]);
+  const [body, setBody] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [revisions, setRevisions] = useState<{ commentId: string; items: ExecutionCommentRevision[] } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    executionService.getComments(executionId, recordId)
+      .then(setThreads)
+      .catch(() => setThreads([]));
+  }, [executionId, recordId, reloadKey, refreshKey]);
+
+  const save = async (action: () => Promise<unknown>, fallback: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      setReloadKey(key => key + 1);
+      return true;
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || fallback);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const saved = await save(
+      () => executionService.createComment(executionId, { body: body.trim(), recordId }),
+      '发表评论失败'
+    );
+    if (saved) setBody('');
+  };
+
+  const handleReply = async (parentId: string) => {
+    const saved = await save(
+      () => executionService.createComment(executionId, { body: replyBody.trim(), parentId }),
+      '回复失败'
+    );
+    if (saved) {
+      setReplyTo(null);
+      setReplyBody('');
+    }
+  };
+
+  const handleUpdate = async (commentId: string) => {
+    const saved = await save(
+      () => executionService.updateComment(executionId, commentId, editBody.trim()),
+      '修改评论失败'
+    );
+    if (saved) {
+      setEditingId(null);
+      setRevisions(null);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!window.confirm('确定要删除这条评论吗？')) {
+      return;
+    }
+    await save(() => executionService.deleteComment(executionId, commentId), '删除评论失败');
+  };
+
+  const handleToggleRevisions = async (commentId: string) => {
+    if (revisions?.commentId === commentId) {
+      setRevisions(null);
+      return;
+    }
+
+    try {
+      const items = await executionService.getCommentRevisions(executionId, commentId);
+      setRevisions({ commentId, items });
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '获取修改历史失败');
+    }
+  };
+
+  const renderComment = (comment: ExecutionComment, isReply: boolean) => {
+    const isAuthor = comment.author.id === user?.id;
+    const isDeleted = !!comment.deletedAt;
+
+    return (
+      <div className={isReply ? 'ml-6 mt-2 pl-3 border-l-2 border-gray-100' : ''}>
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>
+            <span className="font-medium text-gray-900">{comment.author.name}</span>
+            <span className="ml-2">{new Date(comment.createdAt).toLocaleString('zh-CN')}</span>
+            {!recordId && comment.stepName && !isReply && <span className="ml-2">[{comment.stepName}]</span>}
+            {comment.revisionCount > 0 && (
+              <button onClick={() => handleToggleRevisions(comment.id)} className="ml-2 hover:text-gray-700">
+                {isDeleted ? '查看删除前内容' : '已编辑'}
+              </button>
+            )}
+          </span>
+          {!isReply && comment.resolvedAt && (
+            <span className="text-green-600">{comment.resolvedBy?.name} 已解决</span>
+          )}
+        </div>
+
+        {editingId === comment.id ? (
+          <div className="mt-1">
+            <textarea
+              value={editBody}
+              onChange={(e) => setEditBody(e.target.value)}
+              rows={2}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <div className="flex justify-end space-x-2 mt-1">
+              <button onClick={() => setEditingId(null)} className="text-xs text-gray-500 hover:text-gray-700">取消</button>
+              <button
+                onClick={() => handleUpdate(comment.id)}
+                disabled={isSaving || !editBody.trim()}
+                className="text-xs text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        ) : isDeleted ? (
+          <p className="mt-1 text-sm text-gray-400 italic">评论已删除</p>
+        ) : (
+          <p className="mt-1 text-sm text-gray-800 whitespace-pre-wrap">{comment.body}</p>
+        )}
+
+        {!isDeleted && comment.mentions.length > 0 && (
+          <p className="mt-1 text-xs text-gray-400">
+            提到了 {comment.mentions.map(mention => mention.user.name).join('、')}
+          </p>
+        )}
+
+        {revisions?.commentId === comment.id && (
+          <ul className="mt-2 space-y-1 text-xs text-gray-600 bg-gray-50 rounded p-2">
+            {revisions.items.map(revision => (
+              <li key={revision.id}>
+                <span className="text-gray-400">
+                  {revision.editedBy.name} 于 {new Date(revision.createdAt).toLocaleString('zh-CN')} 之前：
+                </span>
+                <span className="whitespace-pre-wrap">{revision.body}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!isDeleted && editingId !== comment.id && (
+          <div className="mt-1 flex space-x-3 text-xs">
+            {!isReply && (
+              <button onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)} className="text-gray-500 hover:text-gray-700">
+                回复
+              </button>
+            )}
+            {isAuthor && (
+              <button
+                onClick={() => {
+                  setEditingId(comment.id);
+                  setEditBody(comment.body);
+                }}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                编辑
+              </button>
+            )}
+            {(isAuthor || canDeleteAny) && (
+              <button onClick={() => handleDelete(comment.id)} className="text-red-600 hover:text-red-800">
+                删除
+              </button>
+            )}
+            {!isReply && (isAuthor || canResolve) && (
+              <button
+                onClick={() => save(
+                  () => executionService.setCommentResolved(executionId, comment.id, !comment.resolvedAt),
+                  '更新评论状态失败'
+                )}
+                disabled={isSaving}
+                className="text-green-600 hover:text-green-800 disabled:opacity-50"
+              >
+                {comment.resolvedAt ? '重新打开' : '标记已解决'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      {showTitle && (
+        <div className="text-sm font-medium text-gray-700 mb-2">
+          评论
+          {threads.some(thread => !thread.resolvedAt && !thread.deletedAt) && (
+            <span className="ml-2 text-xs text-orange-600">
+              {threads.filter(thread => !thread.resolvedAt && !thread.deletedAt).length} 个待解决
+            </span>
+          )}
+        </div>
+      )}
+
+      {threads.length > 0 && (
+        <ul className="space-y-3 mb-3">
+          {threads.map(thread => (
+            <li key={thread.id} className={`p-3 border rounded-md ${thread.resolvedAt ? 'border-green-100 bg-green-50' : 'border-gray-200'}`}>
+              {renderComment(thread, false)}
+              {thread.replies?.map(reply => (
+                <div key={reply.id}>{renderComment(reply, true)}</div>
+              ))}
+              {replyTo === thread.id && (
+                <div className="ml-6 mt-2 flex items-start space-x-2">
+                  <textarea
+                    value={replyBody}
+                    onChange={(e) => setReplyBody(e.target.value)}
+                    rows={2}
+                    placeholder="回复…"
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button
+                    onClick={() => handleReply(thread.id)}
+                    disabled={isSaving || !replyBody.trim()}
+                    className="px-3 py-1 text-sm text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-50"
+                  >
+                    回复
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-start space-x-2">
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={2}
+          placeholder={recordId ? '评论该步骤，使用 @邮箱 或 @姓名 提到执行成员' : '评论该执行，使用 @邮箱 或 @姓名 提到执行成员'}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={isSaving || !body.trim()}
+          className="px-3 py-1 text-sm text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-50"
+        >
+          发表
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { DecisionCriterionResult } from '../../types/workflow';
+import { executionService } from '../../services/execution';
+
+interface DecisionCriteriaProps {
+  executionId: string;
+  recordId: string;
+  // 已完成的决策步骤显示决策时保存的评估结果
+  saved?: DecisionCriterionResult[];
+}
+
+const OUTCOME_STYLES: Record<DecisionCriterionResult['outcome'], { text: string; className: string }> = {
+  MATCHED: { text: '满足', className: 'text-green-700 bg-green-100' },
+  UNMATCHED: { text: '不满足', className: 'text-red-700 bg-red-100' },
+  UNRESOLVED: { text: '待定', className: 'text-gray-600 bg-gray-100' },
+};
+
+const formatActual = (value: any) => {
+  if (value === undefined || value === null) return '-';
+  if (typeof value === 'number') return value.toLocaleString('zh-CN', { maximumFractionDigits: 4 });
+  return String(value);
+};
+
+// 决策步骤的参考标准，列出每项标准引用的实际值和是否满足
+const DecisionCriteria: React.FC<DecisionCriteriaProps> = ({ executionId, recordId, saved }) => {
+  const [criteria, setCriteria] = useState<DecisionCriterionResult[]>(saved || []);
+
+  useEffect(() => {
+    if (saved) return;
+
+    executionService.getDecisionCriteria(executionId, recordId)
+      .then(setCriteria)
+      .catch(() => setCriteria([]));
+  }, [executionId, recordId, saved]);
+
+  if (criteria.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-md">
+      <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 text-sm font-medium text-gray-700">
+        决策标准（满足 {criteria.filter(item => item.outcome === 'MATCHED').length}/{criteria.length}）
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {criteria.map((item, index) => (
+          <li key={index} className="px-3 py-2 flex items-center justify-between text-sm">
+            <span className="text-gray-900">{item.label}</span>
+            <span className="flex items-center space-x-2">
+              <span className="font-mono text-xs text-gray-500">{formatActual(item.actual)}</span>
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${OUTCOME_STYLES[item.outcome].className}`}>
+                {OUTCOME_STYLES[item.outcome].text}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DecisionCriteria;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { EvidenceConfig, UnmetEvidenceRule } from '../../types/workflow';
+import { describeEvidenceRules } from '../../utils/evidence';
+
+interface EvidenceRequirementsProps {
+  config: EvidenceConfig;
+  // 上次尝试完成步骤时后端返回的未满足要求
+  unmetRules: UnmetEvidenceRule[];
+}
+
+// 证明材料要求：列出完成步骤前需要提供的附件、笔记和字段，上次完成被拒绝时标出未满足的项目
+const EvidenceRequirements: React.FC<EvidenceRequirementsProps> = ({ config, unmetRules }) => {
+  const requirements = describeEvidenceRules(config);
+
+  return (
+    <div className={`border rounded-md p-3 text-sm ${unmetRules.length > 0 ? 'border-red-200 bg-red-50' : 'border-gray-200'}`}>
+      <div className="font-medium text-gray-700 mb-1">完成前需要提供的证明材料</div>
+      <ul className="space-y-0.5">
+        {requirements.map((requirement, index) => {
+          const unmet = unmetRules.find(item => item.rule === requirement.rule && item.expected === requirement.expected);
+          return (
+            <li key={index} className={unmet ? 'text-red-700' : 'text-gray-600'}>
+              {unmet ? '✗' : '·'} {unmet ? unmet.message : requirement.text}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default EvidenceRequirements;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { ExecutionMember, ExecutionParticipant, ParticipantRole, executionService } from '../../services/execution';
+
+interface ExecutionParticipantsProps {
+  executionId: string;
+  currentUserId?: string;
+  // 参与者加载或变化后通知上层，用于步骤分配的候选人
+  onChange?: (members: { owner: ExecutionMember; participants: ExecutionParticipant[] }) => void;
+  // 其他成员修改参与者后重新加载
+  refreshKey?: unknown;
+}
+
+const ROLE_LABELS: Record<ParticipantRole, string> = {
+  VIEWER: '查看者',
+  CONTRIBUTOR: '协作者'
+};
+
+// 执行参与者：发起人可以邀请查看者和协作者、修改角色和移除成员，参与者可以退出执行
+const ExecutionParticipants: React.FC<ExecutionParticipantsProps> = ({ executionId, currentUserId, onChange, refreshKey }) => {
+  const navigate = useNavigate();
+  const [owner, setOwner] = useState<ExecutionMember | null>(null);
+  const [participants, setParticipants] = useState<ExecutionParticipant[]>([]);
+  const [newUser, setNewUser] = useState('');
+  const [newRole, setNewRole] = useState<ParticipantRole>('CONTRIBUTOR');
+  const [isSaving, setIsSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const isOwner = !!owner && owner.id === currentUserId;
+
+  useEffect(() => {
+    executionService.getParticipants(executionId)
+      .then(result => {
+        setOwner(result.owner);
+        setParticipants(result.participants);
+        onChange?.(result);
+      })
+      .catch(() => setParticipants([]));
+  }, [executionId, reloadKey, refreshKey, onChange]);
+
+  const handleSave = async (user: string, role: ParticipantRole) => {
+    setIsSaving(true);
+    try {
+      await executionService.addParticipant(executionId, user, role);
+      setNewUser('');
+      setReloadKey(key => key + 1);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '保存参与者失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (participant: ExecutionParticipant) => {
+    const isSelf = participant.userId === currentUserId;
+    if (!window.confirm(isSelf ? '确定要退出该执行吗？' : `确定要移除 ${participant.user.name} 吗？其步骤分配将一并取消。`)) {
+      return;
+    }
+
+    try {
+      await executionService.removeParticipant(executionId, participant.userId);
+      if (isSelf) {
+        toast.success('已退出执行');
+        navigate('/executions');
+        return;
+      }
+      setReloadKey(key => key + 1);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '移除参与者失败');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">参与者</h3>
+      <ul className="space-y-2 text-sm">
+        {owner && (
+          <li className="flex items-center justify-between">
+            <span className="text-gray-900">{owner.name}</span>
+            <span className="text-xs text-gray-500">发起人</span>
+          </li>
+        )}
+        {participants.map(participant => (
+          <li key={participant.id} className="flex items-center justify-between">
+            <span className="text-gray-900 truncate" title={participant.user.email}>{participant.user.name}</span>
+            <span className="flex items-center space-x-2">
+              {isOwner ? (
+                <select
+                  value={participant.role}
+                  disabled={isSaving}
+                  onChange={(e) => handleSave(participant.userId, e.target.value as ParticipantRole)}
+                  className="text-xs border border-gray-300 rounded px-1 py-0.5"
+                >
+                  <option value="CONTRIBUTOR">{ROLE_LABELS.CONTRIBUTOR}</option>
+                  <option value="VIEWER">{ROLE_LABELS.VIEWER}</option>
+                </select>
+              ) : (
+                <span className="text-xs text-gray-500">{ROLE_LABELS[participant.role]}</span>
+              )}
+              {(isOwner || participant.userId === currentUserId) && (
+                <button
+                  onClick={() => handleRemove(participant)}
+                  className="text-xs text-red-600 hover:text-red-800"
+                >
+                  {participant.userId === currentUserId ? '退出' : '移除'}
+                </button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && (
+        <div className="mt-4 flex items-center space-x-2">
+          <input
+            type="text"
+            value={newUser}
+            onChange={(e) => setNewUser(e.target.value)}
+            placeholder="用户邮箱或ID"
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <select
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value as ParticipantRole)}
+            className="text-sm border border-gray-300 rounded-md px-1 py-1"
+          >
+            <option value="CONTRIBUTOR">{ROLE_LABELS.CONTRIBUTOR}</option>
+            <option value="VIEWER">{ROLE_LABELS.VIEWER}</option>
+          </select>
+          <button
+            onClick={() => handleSave(newUser.trim(), newRole)}
+            disabled={isSaving || !newUser.trim()}
+            className="px-3 py-1 text-sm text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-50"
+          >
+            添加
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExecutionParticipants;
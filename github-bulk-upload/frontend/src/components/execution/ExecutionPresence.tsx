@@ -0,0 +1,38 @@
+import React from 'react';
+import { StreamViewer } from '../../utils/executionStream';
+
+interface ExecutionPresenceProps {
+  viewers: StreamViewer[];
+  currentUserId?: string;
+  isConnected: boolean;
+}
+
+// 实时同步状态和正在查看该执行的其他成员
+const ExecutionPresence: React.FC<ExecutionPresenceProps> = ({ viewers, currentUserId, isConnected }) => {
+  const others = viewers.filter(viewer => viewer.id !== currentUserId);
+
+  return (
+    <div className="flex items-center space-x-3 text-xs text-gray-500">
+      <span className="flex items-center">
+        <span className={`w-2 h-2 rounded-full mr-1 ${isConnected ? 'bg-green-500' : 'bg-gray-300'}`} />
+        {isConnected ? '实时同步中' : '实时同步已断开，正在重连'}
+      </span>
+      {others.length > 0 && (
+        <span className="flex items-center space-x-1">
+          {others.map(viewer => (
+            <span
+              key={viewer.id}
+              title={viewer.name}
+              className="inline-flex items-center justify-center w-6 h-6 rounded-full bg-indigo-100 text-indigo-700 font-medium"
+            >
+              {viewer.name.slice(0, 1)}
+            </span>
+          ))}
+          <span className="ml-1">{others.map(viewer => viewer.name).join('、')} 正在查看</span>
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ExecutionPresence;
@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface ModelNumberInputProps {
+  label: string;
+  value?: number;
+  // 比率以百分数编辑，保存为小数
+  percent?: boolean;
+  disabled?: boolean;
+  onChange: (value: number | undefined) => void;
+}
+
+export const modelInputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:bg-gray-50';
+
+export const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const toPercentInput = (value?: number) => (value === undefined ? '' : String(Math.round(value * 10000) / 100));
+const fromPercentInput = (value: string) => (value === '' ? undefined : Number(value) / 100);
+
+// 估值模型和房地产测算共用的数字输入框
+const ModelNumberInput: React.FC<ModelNumberInputProps> = ({ label, value, percent, disabled, onChange }) => (
+  <label className="block">
+    <span className="block text-xs text-gray-600 mb-1">{label}{percent ? ' (%)' : ''}</span>
+    <input
+      type="number"
+      step="any"
+      value={percent ? toPercentInput(value) : value ?? ''}
+      onChange={(e) => onChange(percent ? fromPercentInput(e.target.value) : toNumber(e.target.value))}
+      disabled={disabled}
+      className={modelInputClassName}
+    />
+  </label>
+);
+
+export default ModelNumberInput;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { NotificationResult as NotificationResultData } from '../../types/workflow';
+import { NOTIFICATION_CHANNEL_LABELS } from '../../utils/notifications';
+
+interface NotificationResultProps {
+  notification: NotificationResultData;
+}
+
+// 通知步骤的发送结果：渲染后的消息和各渠道的投递状态
+const NotificationResult: React.FC<NotificationResultProps> = ({ notification }) => (
+  <div className="bg-teal-50 border border-teal-200 rounded-md p-3 text-sm">
+    <div className="font-medium text-gray-900">{notification.title}</div>
+    <p className="mt-1 text-gray-700 whitespace-pre-wrap">{notification.text}</p>
+
+    {notification.missing.length > 0 && (
+      <p className="mt-2 text-xs text-yellow-700">
+        未取到值的变量：{notification.missing.join('、')}
+      </p>
+    )}
+
+    {notification.deliveries.length > 0 && (
+      <ul className="mt-2 space-y-1 text-xs">
+        {notification.deliveries.map(delivery => (
+          <li key={delivery.channel} className="flex items-center justify-between">
+            <span className="text-gray-700">{NOTIFICATION_CHANNEL_LABELS[delivery.channel] || delivery.channel}</span>
+            {delivery.status === 'SENT' ? (
+              <span className="text-green-700">
+                已发送 {new Date(delivery.sentAt).toLocaleString('zh-CN')}
+              </span>
+            ) : (
+              <span className="text-red-700">发送失败：{delivery.error}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+
+    {notification.error && (
+      <p className="mt-2 text-xs text-red-700">{notification.error}</p>
+    )}
+  </div>
+);
+
+export default NotificationResult;
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { PendingApproval } from '../../types/workflow';
+import { executionService } from '../../services/execution';
+
+// 待我审批的步骤，点击进入对应执行处理
+const PendingApprovals: React.FC = () => {
+  const navigate = useNavigate();
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    executionService.getPendingApprovals()
+      .then(setApprovals)
+      .catch(() => setApprovals([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8">
+      <h3 className="text-lg font-medium text-gray-900 mb-6">
+        待我审批{approvals.length > 0 && <span className="ml-2 text-sm text-red-600">{approvals.length}</span>}
+      </h3>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">加载中...</p>
+      ) : approvals.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无待审批的步骤</p>
+      ) : (
+        <div className="space-y-3">
+          {approvals.map(item => (
+            <button
+              key={item.recordId}
+              onClick={() => navigate(`/executions/${item.executionId}`)}
+              className="w-full text-left p-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900 truncate">{item.title || item.workflow.name}</span>
+                {item.round > 1 && <span className="text-xs text-orange-600">第 {item.round} 轮</span>}
+              </div>
+              <p className="text-sm text-gray-500 mt-1">
+                步骤 {item.stepOrder}：{item.stepName} · 发起人 {item.requester.name || item.requester.email}
+                {item.submittedAt && ` · ${new Date(item.submittedAt).toLocaleString('zh-CN')}`}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PendingApprovals;
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { PropertyInput, PropertyModelConfig, SavedPropertyModel } from '../../types/workflow';
+import { buildInitialPropertyInput } from '../../utils/propertyFinance';
+import { formatAmount, formatPercent } from '../../utils/valuation';
+import NumberInput, { modelInputClassName, toNumber } from './ModelNumberInput';
+
+interface PropertyModelProps {
+  config: PropertyModelConfig;
+  saved?: SavedPropertyModel;
+  disabled?: boolean;
+  onSave: (input: PropertyInput) => Promise<SavedPropertyModel>;
+}
+
+const formatRatio = (value: number | null, digits = 2) => (value === null ? '-' : formatPercent(value, digits));
+
+// 房地产投资测算：购买与融资、租金清单、运营假设和退出假设，保存后由后端逐年计算
+const PropertyModel: React.FC<PropertyModelProps> = ({ config, saved, disabled = false, onSave }) => {
+  const [input, setInput] = useState<PropertyInput>(() => buildInitialPropertyInput(config, saved?.input));
+  const [model, setModel] = useState<SavedPropertyModel | undefined>(saved);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (updated: Partial<PropertyInput>) => {
+    setInput(prev => ({ ...prev, ...updated }));
+  };
+
+  const updateLoan = (updated: Partial<NonNullable<PropertyInput['loan']>>) => {
+    setInput(prev => ({ ...prev, loan: { ...prev.loan!, ...updated } }));
+  };
+
+  const updateUnit = (index: number, updated: Partial<PropertyInput['rentRoll'][number]>) => {
+    update({ rentRoll: input.rentRoll.map((item, i) => (i === index ? { ...item, ...updated } : item)) });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // 去掉未填写名称的租赁单元
+      setModel(await onSave({ ...input, rentRoll: input.rentRoll.filter(item => item.unit.trim()) }));
+      toast.success('房地产投资测算已保存');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '保存房地产投资测算失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const readOnly = disabled || isSaving;
+  const output = model?.output;
+  const monthlyRent = input.rentRoll.reduce((acc, item) => acc + (item.monthlyRent || 0), 0);
+
+  return (
+    <div className="border border-gray-200 rounded-md">
+      <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">房地产投资测算</span>
+        {model && (
+          <span className="text-xs text-gray-500">
+            保存于 {new Date(model.updatedAt).toLocaleString('zh-CN')}
+          </span>
+        )}
+      </div>
+
+      <div className="p-3 space-y-4">
+        {/* 核心指标 */}
+        {output && (
+          <div className="grid grid-cols-4 gap-2">
+            {[
+              { label: '杠杆IRR', value: formatRatio(output.summary.irr) },
+              { label: 'NPV', value: formatAmount(output.summary.npv) },
+              { label: '购入资本化率', value: formatRatio(output.summary.goingInCapRate) },
+              { label: '最低DSCR', value: output.summary.minDscr === null ? '-' : output.summary.minDscr.toFixed(2) },
+              { label: '平均现金回报率', value: formatRatio(output.summary.averageCashOnCash) },
+              { label: '全投资IRR', value: formatRatio(output.summary.unleveredIrr) },
+              { label: '股权倍数', value: `${output.summary.equityMultiple.toFixed(2)}x` },
+              { label: '退出净回款', value: formatAmount(output.exit.netProceeds) },
+            ].map(item => (
+              <div key={item.label} className="bg-indigo-50 rounded-md px-3 py-2">
+                <div className="text-xs text-indigo-700">{item.label}</div>
+                <div className="font-mono text-sm font-semibold text-indigo-900">{item.value}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* 购买与融资 */}
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-2">购买与融资</div>
+          <div className="grid grid-cols-4 gap-2 items-end">
+            <NumberInput label="购买价格" value={input.purchasePrice} disabled={readOnly} onChange={(value) => update({ purchasePrice: value ?? 0 })} />
+            <NumberInput label="交易税费" value={input.closingCosts} disabled={readOnly} onChange={(closingCosts) => update({ closingCosts })} />
+            <label className="flex items-center text-xs text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={!!input.loan}
+                onChange={(e) => update({ loan: e.target.checked ? { ltv: 0.6, interestRate: 0.045, amortizationYears: 30 } : undefined })}
+                disabled={readOnly}
+                className="mr-1 rounded border-gray-300 text-indigo-600"
+              />
+              使用贷款
+            </label>
+          </div>
+          {input.loan && (
+            <div className="mt-2 grid grid-cols-4 gap-2">
+              <NumberInput label="贷款成数" percent value={input.loan.ltv} disabled={readOnly} onChange={(ltv) => updateLoan({ ltv, amount: undefined })} />
+              <NumberInput label="贷款利率" percent value={input.loan.interestRate} disabled={readOnly} onChange={(value) => updateLoan({ interestRate: value ?? 0 })} />
+              <NumberInput label="还款年限" value={input.loan.amortizationYears} disabled={readOnly} onChange={(value) => updateLoan({ amortizationYears: value ?? 1 })} />
+              <NumberInput label="先息后本年数" value={input.loan.interestOnlyYears} disabled={readOnly} onChange={(interestOnlyYears) => updateLoan({ interestOnlyYears })} />
+            </div>
+          )}
+        </div>
+
+        {/* 租金清单 */}
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium text-gray-700">租金清单（月租金合计 {formatAmount(monthlyRent)}）</span>
+            {!readOnly && (
+              <button
+                type="button"
+                onClick={() => update({ rentRoll: [...input.rentRoll, { unit: '', monthlyRent: 0 }] })}
+                className="text-xs text-indigo-600 hover:text-indigo-500"
+              >
+                + 添加单元
+              </button>
+            )}
+          </div>
+          {input.rentRoll.map((item, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 mb-1 items-center">
+              <input
+                type="text"
+                value={item.unit}
+                onChange={(e) => updateUnit(index, { unit: e.target.value })}
+                disabled={readOnly}
+                className={`${modelInputClassName} col-span-5`}
+                placeholder="单元"
+              />
+              <input
+                type="number"
+                step="any"
+                value={item.monthlyRent}
+                onChange={(e) => updateUnit(index, { monthlyRent: toNumber(e.target.value) ?? 0 })}
+                disabled={readOnly}
+                className={`${modelInputClassName} col-span-5`}
+                placeholder="月租金"
+              />
+              {!readOnly && input.rentRoll.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => update({ rentRoll: input.rentRoll.filter((_, i) => i !== index) })}
+                  className="col-span-2 text-left text-red-400 hover:text-red-600 text-sm"
+                >
+                  删除
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* 运营与退出假设 */}
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-2">运营与退出假设</div>
+          <div className="grid grid-cols-4 gap-2">
+            <NumberInput label="空置率" percent value={input.vacancyRate} disabled={readOnly} onChange={(vacancyRate) => update({ vacancyRate })} />
+            <NumberInput label="租金年增长" percent value={input.rentGrowth} disabled={readOnly} onChange={(rentGrowth) => update({ rentGrowth })} />
+            <NumberInput label="其他年收入" value={input.otherIncome} disabled={readOnly} onChange={(otherIncome) => update({ otherIncome })} />
+            <NumberInput label="首年运营费用" value={input.operatingExpenses} disabled={readOnly} onChange={(value) => update({ operatingExpenses: value ?? 0 })} />
+            <NumberInput label="费用年增长" percent value={input.expenseGrowth} disabled={readOnly} onChange={(expenseGrowth) => update({ expenseGrowth })} />
+            <NumberInput
+              label="每年资本性支出"
+              value={typeof input.capex === 'number' ? input.capex : undefined}
+              disabled={readOnly}
+              onChange={(capex) => update({ capex })}
+            />
+            <NumberInput label="持有年限" value={input.holdingPeriod} disabled={readOnly} onChange={(value) => update({ holdingPeriod: value ?? 1 })} />
+            <NumberInput label="退出资本化率" percent value={input.exitCapRate} disabled={readOnly} onChange={(value) => update({ exitCapRate: value ?? 0 })} />
+            <NumberInput label="出售费用率" percent value={input.sellingCostRate} disabled={readOnly} onChange={(sellingCostRate) => update({ sellingCostRate })} />
+            <NumberInput label="目标收益率（NPV）" percent value={input.discountRate} disabled={readOnly} onChange={(value) => update({ discountRate: value ?? 0 })} />
+          </div>
+        </div>
+
+        {!disabled && (
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {isSaving ? '计算中...' : '计算并保存'}
+            </button>
+            <span className="text-xs text-gray-500">汇总指标会写入步骤数据，供后续的决策标准引用</span>
+          </div>
+        )}
+
+        {/* 逐年现金流 */}
+        {output && (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs font-mono">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="px-2 py-1 text-left font-normal">年份</th>
+                  <th className="px-2 py-1 text-right font-normal">有效总收入</th>
+                  <th className="px-2 py-1 text-right font-normal">运营费用</th>
+                  <th className="px-2 py-1 text-right font-normal">NOI</th>
+                  <th className="px-2 py-1 text-right font-normal">还本付息</th>
+                  <th className="px-2 py-1 text-right font-normal">税前现金流</th>
+                  <th className="px-2 py-1 text-right font-normal">资本化率</th>
+                  <th className="px-2 py-1 text-right font-normal">DSCR</th>
+                  <th className="px-2 py-1 text-right font-normal">现金回报率</th>
+                </tr>
+              </thead>
+              <tbody>
+                {output.years.map(item => (
+                  <tr key={item.year} className="border-t border-gray-100">
+                    <td className="px-2 py-1">{item.year}</td>
+                    <td className="px-2 py-1 text-right">{formatAmount(item.effectiveGrossIncome)}</td>
+                    <td className="px-2 py-1 text-right">{formatAmount(item.operatingExpenses)}</td>
+                    <td className="px-2 py-1 text-right">{formatAmount(item.noi)}</td>
+                    <td className="px-2 py-1 text-right">{formatAmount(item.debtService)}</td>
+                    <td className="px-2 py-1 text-right">{formatAmount(item.cashFlow)}</td>
+                    <td className="px-2 py-1 text-right">{formatRatio(item.capRate)}</td>
+                    <td className={`px-2 py-1 text-right ${item.dscr !== null && item.dscr < 1 ? 'text-red-600' : ''}`}>
+                      {item.dscr === null ? '-' : item.dscr.toFixed(2)}
+                    </td>
+                    <td className="px-2 py-1 text-right">{formatRatio(item.cashOnCash)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t border-gray-200 text-gray-900">
+                  <td className="px-2 py-1" colSpan={5}>
+                    退出：售价 {formatAmount(output.exit.salePrice)}，出售费用 {formatAmount(output.exit.sellingCosts)}，偿还贷款 {formatAmount(output.exit.loanBalance)}
+                  </td>
+                  <td className="px-2 py-1 text-right">{formatAmount(output.exit.netProceeds)}</td>
+                  <td colSpan={3} />
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PropertyModel;
@@ -1,30 +1,117 @@
 import React, { useState } from 'react';
-import { useDispatch } from 'react-redux';
-import { AppDispatch } from '../../store/store';
-import { startStep, completeStep, skipStep, failStep } from '../../store/executionSlice';
-import { ExecutionRecord, ExecutionRecordStatus, ExecutionService } from '../../services/execution';
+import { useDispatch, useSelector } from 'react-redux';
+import toast from 'react-hot-toast';
+import { AppDispatch, RootState } from '../../store/store';
+import { startStep, completeStep, skipStep, failStep, fetchExecutionById, fetchExecutionRecords } from '../../store/executionSlice';
+import { ExecutionMember, ExecutionRecord, ExecutionRecordStatus, ExecutionService, executionService } from '../../services/execution';
+import { CalculationTrace as CalculationTraceItem, PropertyInput, UnmetEvidenceRule, ValuationInput } from '../../types/workflow';
 import AttachmentManager from './AttachmentManager';
+import StepForm from './StepForm';
+import CalculationTrace from './CalculationTrace';
+import ValuationModel from './ValuationModel';
+import PropertyModel from './PropertyModel';
+import DecisionCriteria from './DecisionCriteria';
+import ApprovalPanel from './ApprovalPanel';
+import ChecklistPanel from './ChecklistPanel';
+import EvidenceRequirements from './EvidenceRequirements';
+import StepRevisions from './StepRevisions';
+import CommentThread from './CommentThread';
+import NotificationResult from './NotificationResult';
+import SubworkflowStatus from './SubworkflowStatus';
+import { parseFormFields, validateFormValues } from '../../utils/formSchema';
+import { parseValuationConfig } from '../../utils/valuation';
+import { parsePropertyModelConfig } from '../../utils/propertyFinance';
+import { parseApprovalConfig } from '../../utils/approvals';
+import { parseChecklistConfig } from '../../utils/checklists';
+import { parseEvidenceConfig } from '../../utils/evidence';
+import { parseNotificationConfig } from '../../utils/notifications';
+import { parseSubworkflowConfig } from '../../utils/subworkflows';
+import { ESCALATION_LABELS, formatDueIn } from '../../utils/sla';
 
 interface StepExecutionProps {
   executionId: string;
   executionRecord: ExecutionRecord;
   onStepUpdate?: (record: ExecutionRecord) => void;
+  // 可分配的成员（发起人和协作者），只有发起人可以分配步骤
+  assignableMembers?: ExecutionMember[];
+  canAssign?: boolean;
+  // 可以处理执行的成员可以解决步骤讨论
+  canContribute?: boolean;
   className?: string;
 }
 
+const safeParse = (value: string) => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
 const StepExecution: React.FC<StepExecutionProps> = ({
   executionId,
   executionRecord,
   onStepUpdate,
+  assignableMembers = [],
+  canAssign = false,
+  canContribute = false,
   className = '',
 }) => {
   const dispatch = useDispatch<AppDispatch>();
+  const liveVersions = useSelector((state: RootState) => state.execution.liveVersions);
   const [isExpanded, setIsExpanded] = useState(false);
   const [notes, setNotes] = useState(executionRecord.notes || '');
   const [result, setResult] = useState(executionRecord.result || {});
   const [isUpdating, setIsUpdating] = useState(false);
   const [skipReason, setSkipReason] = useState('');
   const [failureReason, setFailureReason] = useState('');
+  const [decision, setDecision] = useState<string>(executionRecord.data?.decision || '');
+  const [formValues, setFormValues] = useState<Record<string, any>>(executionRecord.data || {});
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [calculationPreview, setCalculationPreview] = useState<CalculationTraceItem[] | null>(null);
+  const [unmetEvidence, setUnmetEvidence] = useState<UnmetEvidenceRule[]>([]);
+  const [reopenReason, setReopenReason] = useState('');
+  const [cascadeReopen, setCascadeReopen] = useState(false);
+
+  const step = executionRecord.step;
+  const isDecisionStep = (step?.stepType || step?.type) === 'DECISION';
+  const decisionOptions: string[] = (() => {
+    const metadata = typeof step?.metadata === 'string' ? safeParse(step.metadata) : step?.metadata;
+    return Array.isArray(metadata?.options) ? metadata.options : [];
+  })();
+  const isCalculationStep = (step?.stepType || step?.type) === 'CALCULATION';
+  // 输入和计算步骤按 metadata.fields 渲染表单
+  const formFields = (step?.stepType || step?.type) === 'INPUT' || isCalculationStep ? parseFormFields(step?.metadata) : [];
+  // 已完成的计算步骤显示保存的计算过程，进行中的显示试算结果
+  const calculationTrace: CalculationTraceItem[] | null = executionRecord.status === ExecutionRecordStatus.COMPLETED
+    ? (Array.isArray(executionRecord.result?.trace) ? executionRecord.result.trace : null)
+    : calculationPreview;
+  // 启用估值模型的计算步骤
+  const valuationConfig = isCalculationStep ? parseValuationConfig(step?.metadata) : null;
+  const propertyConfig = isCalculationStep ? parsePropertyModelConfig(step?.metadata) : null;
+  // 决策步骤的参考标准
+  const hasCriteria = isDecisionStep && (() => {
+    const metadata = typeof step?.metadata === 'string' ? safeParse(step.metadata) : step?.metadata;
+    return Array.isArray(metadata?.criteria) && metadata.criteria.length > 0;
+  })();
+  // 步骤定义的证明材料要求，完成时由后端检查
+  const evidenceConfig = parseEvidenceConfig(step?.metadata);
+  // 检查清单步骤逐项勾选，完成时按完成规则校验
+  const checklistConfig = (step?.stepType || step?.type) === 'CHECKLIST' ? parseChecklistConfig(step?.metadata) : null;
+  // 配置了审批人的审批步骤由审批人同意后完成，发起人不能直接完成或跳过
+  const approvalConfig = (step?.stepType || step?.type) === 'APPROVAL' ? parseApprovalConfig(step?.metadata) : null;
+  // 配置了消息模板的通知步骤在前置步骤完成后由后端自动发送
+  const notificationConfig = (step?.stepType || step?.type) === 'NOTIFICATION' ? parseNotificationConfig(step?.metadata) : null;
+  // 引用了工作流的子流程步骤自动启动子执行，子执行完成后自动完成
+  const subworkflowConfig = (step?.stepType || step?.type) === 'SUBWORKFLOW' ? parseSubworkflowConfig(step?.metadata) : null;
+  // 通知和子流程步骤由后端自动处理，不能手动开始
+  const isAutomaticStep = !!notificationConfig || !!subworkflowConfig;
+  // 分支条件不满足时由后端自动跳过
+  const isConditionSkipped = executionRecord.status === ExecutionRecordStatus.SKIPPED &&
+    executionRecord.result?.conditionSkipped === true;
+  // 已完成或手动跳过的步骤可以重新打开，自动处理的步骤除外
+  const canReopen = !isAutomaticStep && !isConditionSkipped &&
+    (executionRecord.status === ExecutionRecordStatus.COMPLETED || executionRecord.status === ExecutionRecordStatus.SKIPPED);
 
   const handleStartStep = async () => {
     if (isUpdating) return;
@@ -44,25 +131,131 @@ const StepExecution: React.FC<StepExecutionProps> = ({
     }
   };
 
+  const handleFormChange = (key: string, value: any) => {
+    setFormValues(prev => ({ ...prev, [key]: value }));
+    setFormErrors(prev => {
+      const { [key]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handlePreviewCalculations = async () => {
+    if (isUpdating) return;
+
+    setIsUpdating(true);
+    try {
+      setCalculationPreview(await executionService.previewCalculations(executionId, executionRecord.id, formValues));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '试算失败');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleSaveValuation = (input: ValuationInput) =>
+    executionService.saveValuation(executionId, executionRecord.id, input);
+
+  const handleSavePropertyModel = (input: PropertyInput) =>
+    executionService.savePropertyModel(executionId, executionRecord.id, input);
+
+  const handleApprovalDecided = (record: ExecutionRecord) => {
+    onStepUpdate?.(record);
+    // 审批通过或驳回都会改变其他步骤的状态，刷新全部步骤记录
+    dispatch(fetchExecutionRecords(executionId));
+  };
+
+  const handleRetryNotification = async () => {
+    if (isUpdating) return;
+
+    setIsUpdating(true);
+    try {
+      const record = await executionService.retryNotification(executionId, executionRecord.id);
+      toast.success(record.status === ExecutionRecordStatus.COMPLETED ? '通知已发送' : '通知仍然发送失败');
+      onStepUpdate?.(record);
+      // 通知完成后可能解锁后续步骤，刷新全部步骤记录
+      dispatch(fetchExecutionRecords(executionId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '重新发送失败');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleRetrySubworkflow = async () => {
+    if (isUpdating) return;
+
+    setIsUpdating(true);
+    try {
+      const record = await executionService.retrySubworkflow(executionId, executionRecord.id);
+      toast.success(record.status === ExecutionRecordStatus.FAILED ? '子流程仍未启动成功' : '子流程已启动');
+      onStepUpdate?.(record);
+      dispatch(fetchExecutionRecords(executionId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '重新启动子流程失败');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const handleCompleteStep = async () => {
     if (isUpdating) return;
 
+    if (formFields.length > 0) {
+      const errors = validateFormValues(formFields, formValues);
+      setFormErrors(errors);
+      if (Object.keys(errors).length > 0) return;
+    }
+
     setIsUpdating(true);
     try {
       const stepResult = await dispatch(completeStep({
         executionId,
         recordId: executionRecord.id,
-        data: { notes, result: notes }
+        data: {
+          notes,
+          result: notes,
+          ...(isDecisionStep ? { data: { decision } } : {}),
+          ...(formFields.length > 0 ? { data: formValues } : {})
+        }
       }));
 
       if (completeStep.fulfilled.match(stepResult)) {
+        setUnmetEvidence([]);
         onStepUpdate?.(stepResult.payload);
+        // 完成步骤可能触发后续步骤的分支条件，刷新全部步骤记录
+        dispatch(fetchExecutionRecords(executionId));
+      } else {
+        const error = stepResult.payload as { code?: string; details?: { unmetRules?: UnmetEvidenceRule[] } } | undefined;
+        const unmetRules = error?.code === 'EVIDENCE_REQUIREMENTS_UNMET' ? error.details?.unmetRules || [] : [];
+        setUnmetEvidence(unmetRules);
+        // 展开笔记和附件区域，方便补充材料
+        if (unmetRules.length > 0) setIsExpanded(true);
       }
     } finally {
       setIsUpdating(false);
     }
   };
 
+  const handleReopenStep = async () => {
+    if (isUpdating || !reopenReason.trim()) return;
+
+    setIsUpdating(true);
+    try {
+      const record = await executionService.reopenStep(executionId, executionRecord.id, reopenReason.trim(), cascadeReopen);
+      toast.success('步骤已重新打开');
+      setReopenReason('');
+      setCascadeReopen(false);
+      onStepUpdate?.(record);
+      // 后续步骤和执行状态可能一起改变
+      dispatch(fetchExecutionRecords(executionId));
+      dispatch(fetchExecutionById(executionId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '重新打开步骤失败');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const handleSkipStep = async () => {
     if (isUpdating) return;
 
@@ -103,6 +296,16 @@ const StepExecution: React.FC<StepExecutionProps> = ({
     }
   };
 
+  const handleAssign = async (assigneeId: string) => {
+    try {
+      await executionService.assignStep(executionId, executionRecord.id, assigneeId || null);
+      toast.success(assigneeId ? '步骤已分配' : '已取消分配');
+      dispatch(fetchExecutionRecords(executionId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '分配步骤失败');
+    }
+  };
+
   const getStepIcon = () => {
     return (
       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -158,12 +361,30 @@ const StepExecution: React.FC<StepExecutionProps> = ({
             </div>
             <div>
               <div className="flex items-center space-x-2">
-                <h3 className="text-lg font-medium text-gray-900">步骤 {executionRecord.stepId}</h3>
+                <h3 className="text-lg font-medium text-gray-900">{step?.name || `步骤 ${executionRecord.stepId}`}</h3>
                 <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${ExecutionService.getStepStatusColor(executionRecord.status)}`}>
                   {ExecutionService.getStepStatusText(executionRecord.status)}
                 </span>
               </div>
               <p className="text-sm text-gray-600 mt-1">执行记录 ID: {executionRecord.id}</p>
+              {/* 已完成或已跳过的步骤不能再分配 */}
+              {canAssign && executionRecord.status !== ExecutionRecordStatus.COMPLETED && executionRecord.status !== ExecutionRecordStatus.SKIPPED ? (
+                <label className="flex items-center text-xs text-gray-500 mt-1">
+                  负责人
+                  <select
+                    value={executionRecord.assigneeId || ''}
+                    onChange={(e) => handleAssign(e.target.value)}
+                    className="ml-2 text-xs border border-gray-300 rounded px-1 py-0.5"
+                  >
+                    <option value="">未分配</option>
+                    {assignableMembers.map(member => (
+                      <option key={member.id} value={member.id}>{member.name}</option>
+                    ))}
+                  </select>
+                </label>
+              ) : executionRecord.assignee && (
+                <p className="text-xs text-gray-500 mt-1">负责人：{executionRecord.assignee.name}</p>
+              )}
             </div>
           </div>
           
@@ -185,29 +406,208 @@ const StepExecution: React.FC<StepExecutionProps> = ({
           </div>
         </div>
 
+        {isConditionSkipped && (
+          <p className="text-xs text-gray-500 mb-3">分支条件不满足，已自动跳过</p>
+        )}
+
+        {/* 步骤时限 */}
+        {executionRecord.status === ExecutionRecordStatus.IN_PROGRESS && executionRecord.dueAt && (
+          <p className={`text-xs mb-3 ${new Date(executionRecord.dueAt) < new Date() ? 'text-red-600' : 'text-gray-500'}`}>
+            截止 {new Date(executionRecord.dueAt).toLocaleString('zh-CN')} · {formatDueIn(executionRecord.dueAt)}
+            {!!executionRecord.escalationLevel && ` · ${ESCALATION_LABELS[executionRecord.escalationLevel]}`}
+          </p>
+        )}
+        {executionRecord.status !== ExecutionRecordStatus.IN_PROGRESS && executionRecord.overdueAt && (
+          <p className="text-xs text-orange-600 mb-3">该步骤超过了时限</p>
+        )}
+
+        {/* 决策选项 */}
+        {isDecisionStep && decisionOptions.length > 0 && executionRecord.status === ExecutionRecordStatus.IN_PROGRESS && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {decisionOptions.map(option => (
+              <button
+                key={option}
+                onClick={() => setDecision(option)}
+                className={`px-3 py-1.5 text-xs font-medium rounded border ${
+                  decision === option
+                    ? 'bg-indigo-600 border-indigo-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* 输入表单 */}
+        {formFields.length > 0 && (executionRecord.status === ExecutionRecordStatus.IN_PROGRESS || executionRecord.status === ExecutionRecordStatus.COMPLETED) && (
+          <div className="mb-3">
+            <StepForm
+              fields={formFields}
+              values={formValues}
+              errors={formErrors}
+              onChange={handleFormChange}
+              disabled={executionRecord.status !== ExecutionRecordStatus.IN_PROGRESS || isUpdating}
+            />
+          </div>
+        )}
+
+        {/* 估值模型 */}
+        {valuationConfig && (executionRecord.status === ExecutionRecordStatus.IN_PROGRESS || executionRecord.result?.valuation) && (
+          <div className="mb-3">
+            <ValuationModel
+              config={valuationConfig}
+              saved={executionRecord.result?.valuation}
+              disabled={executionRecord.status !== ExecutionRecordStatus.IN_PROGRESS}
+              onSave={handleSaveValuation}
+            />
+          </div>
+        )}
+
+        {/* 房地产投资测算 */}
+        {propertyConfig && (executionRecord.status === ExecutionRecordStatus.IN_PROGRESS || executionRecord.result?.property) && (
+          <div className="mb-3">
+            <PropertyModel
+              config={propertyConfig}
+              saved={executionRecord.result?.property}
+              disabled={executionRecord.status !== ExecutionRecordStatus.IN_PROGRESS}
+              onSave={handleSavePropertyModel}
+            />
+          </div>
+        )}
+
+        {/* 决策标准 */}
+        {hasCriteria && (executionRecord.status === ExecutionRecordStatus.IN_PROGRESS || Array.isArray(executionRecord.result?.criteria)) && (
+          <div className="mb-3">
+            <DecisionCriteria
+              executionId={executionId}
+              recordId={executionRecord.id}
+              saved={executionRecord.status === ExecutionRecordStatus.COMPLETED ? executionRecord.result?.criteria : undefined}
+            />
+          </div>
+        )}
+
+        {/* 证明材料要求 */}
+        {evidenceConfig && executionRecord.status === ExecutionRecordStatus.IN_PROGRESS && (
+          <div className="mb-3">
+            <EvidenceRequirements config={evidenceConfig} unmetRules={unmetEvidence} />
+          </div>
+        )}
+
+        {/* 检查清单 */}
+        {checklistConfig && executionRecord.status !== ExecutionRecordStatus.PENDING && (
+          <div className="mb-3">
+            <ChecklistPanel
+              executionId={executionId}
+              recordId={executionRecord.id}
+              disabled={executionRecord.status !== ExecutionRecordStatus.IN_PROGRESS}
+            />
+          </div>
+        )}
+
+        {/* 审批 */}
+        {approvalConfig && (executionRecord.status !== ExecutionRecordStatus.PENDING || executionRecord.result?.approval) && (
+          <div className="mb-3">
+            <ApprovalPanel
+              executionId={executionId}
+              recordId={executionRecord.id}
+              onDecided={handleApprovalDecided}
+            />
+          </div>
+        )}
+
+        {/* 通知发送结果 */}
+        {notificationConfig && executionRecord.result?.notification && (
+          <div className="mb-3">
+            <NotificationResult notification={executionRecord.result.notification} />
+          </div>
+        )}
+
+        {/* 子流程 */}
+        {subworkflowConfig && executionRecord.result?.subworkflow && (
+          <div className="mb-3">
+            <SubworkflowStatus
+              subworkflow={executionRecord.result.subworkflow}
+              childExecution={executionRecord.childExecution}
+            />
+          </div>
+        )}
+
+        {/* 计算过程 */}
+        {isCalculationStep && calculationTrace && (
+          <div className="mb-3">
+            <CalculationTrace
+              trace={calculationTrace}
+              title={executionRecord.status === ExecutionRecordStatus.COMPLETED ? '计算过程' : '试算结果'}
+            />
+          </div>
+        )}
+
         {/* 快速操作按钮 */}
         <div className="flex space-x-2 mb-3">
           {executionRecord.status === ExecutionRecordStatus.PENDING && (
             <>
-              <button
-                onClick={handleStartStep}
-                disabled={isUpdating}
-                className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
-              >
-                {isUpdating ? '处理中...' : '开始执行'}
-              </button>
+              {isAutomaticStep ? (
+                <span className="inline-flex items-center px-3 py-1.5 text-xs text-gray-500">
+                  {notificationConfig ? '前置步骤完成后自动发送' : '前置步骤完成后自动启动子流程'}
+                </span>
+              ) : (
+                <button
+                  onClick={handleStartStep}
+                  disabled={isUpdating}
+                  className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  {isUpdating ? '处理中...' : '开始执行'}
+                </button>
+              )}
             </>
           )}
+
+          {executionRecord.status === ExecutionRecordStatus.FAILED && notificationConfig && (
+            <button
+              onClick={handleRetryNotification}
+              disabled={isUpdating}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-teal-600 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 disabled:opacity-50"
+            >
+              {isUpdating ? '发送中...' : '重新发送'}
+            </button>
+          )}
+
+          {executionRecord.status === ExecutionRecordStatus.FAILED && subworkflowConfig && (
+            <button
+              onClick={handleRetrySubworkflow}
+              disabled={isUpdating}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-pink-600 hover:bg-pink-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50"
+            >
+              {isUpdating ? '启动中...' : '重新启动子流程'}
+            </button>
+          )}
           
           {executionRecord.status === ExecutionRecordStatus.IN_PROGRESS && (
             <>
-              <button
-                onClick={handleCompleteStep}
-                disabled={isUpdating}
-                className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
-              >
-                {isUpdating ? '处理中...' : '标记完成'}
-              </button>
+              {approvalConfig || subworkflowConfig ? (
+                <span className="inline-flex items-center px-3 py-1.5 text-xs text-gray-500">
+                  {approvalConfig ? '等待审批人审批' : '等待子流程完成'}
+                </span>
+              ) : (
+                <button
+                  onClick={handleCompleteStep}
+                  disabled={isUpdating || (isDecisionStep && decisionOptions.length > 0 && !decision)}
+                  className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
+                >
+                  {isUpdating ? '处理中...' : '标记完成'}
+                </button>
+              )}
+              {isCalculationStep && (
+                <button
+                  onClick={handlePreviewCalculations}
+                  disabled={isUpdating}
+                  className="inline-flex items-center px-3 py-1.5 border border-indigo-300 text-xs font-medium rounded text-indigo-700 bg-white hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  试算
+                </button>
+              )}
               <button
                 onClick={() => setIsExpanded(true)}
                 className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -273,7 +673,7 @@ const StepExecution: React.FC<StepExecutionProps> = ({
                   />
                   <button
                     onClick={handleSkipStep}
-                    disabled={isUpdating || !skipReason.trim()}
+                    disabled={isUpdating || !skipReason.trim() || !!approvalConfig}
                     className="mt-2 w-full inline-flex justify-center items-center px-3 py-2 border border-transparent text-sm font-medium rounded text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:opacity-50"
                   >
                     {isUpdating ? '处理中...' : '跳过步骤'}
@@ -301,11 +701,62 @@ const StepExecution: React.FC<StepExecutionProps> = ({
               </div>
             )}
 
+            {/* 重新打开 */}
+            {canReopen && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  重新打开原因
+                </label>
+                <textarea
+                  value={reopenReason}
+                  onChange={(e) => setReopenReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="说明需要重新处理此步骤的原因，当前结果会保存为历史版本..."
+                  rows={2}
+                />
+                <div className="mt-2 flex items-center justify-between">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={cascadeReopen}
+                      onChange={(e) => setCascadeReopen(e.target.checked)}
+                      className="mr-2 rounded border-gray-300 text-indigo-600"
+                    />
+                    同时重置依赖此步骤的后续步骤
+                  </label>
+                  <button
+                    onClick={handleReopenStep}
+                    disabled={isUpdating || !reopenReason.trim()}
+                    className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                  >
+                    {isUpdating ? '处理中...' : '重新打开步骤'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* 历史版本 */}
+            <StepRevisions
+              executionId={executionId}
+              recordId={executionRecord.id}
+              refreshKey={executionRecord.updatedAt}
+            />
+
+            {/* 步骤评论 */}
+            <CommentThread
+              executionId={executionId}
+              recordId={executionRecord.id}
+              canDeleteAny={canAssign}
+              canResolve={canContribute}
+              refreshKey={liveVersions.comments}
+            />
+
             {/* 附件管理 */}
             <div>
               <AttachmentManager
                 executionRecordId={executionRecord.id}
                 showTitle={true}
+                refreshKey={liveVersions.attachments[executionRecord.id]}
               />
             </div>
 
@@ -353,6 +804,12 @@ const StepExecution: React.FC<StepExecutionProps> = ({
                   </span>
                 </div>
               )}
+              {executionRecord.data?.decision && (
+                <div>
+                  <span className="font-medium text-gray-700">决策结果:</span>
+                  <span className="ml-2 text-gray-600">{executionRecord.data.decision}</span>
+                </div>
+              )}
               {executionRecord.actualDuration && (
                 <div>
                   <span className="font-medium text-gray-700">实际耗时:</span>
@@ -0,0 +1,143 @@
+import React from 'react';
+import { FormField } from '../../types/workflow';
+
+interface StepFormProps {
+  fields: FormField[];
+  values: Record<string, any>;
+  errors?: Record<string, string>;
+  onChange: (key: string, value: any) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = (hasError: boolean) =>
+  `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:bg-gray-50 ${
+    hasError ? 'border-red-300' : 'border-gray-300'
+  }`;
+
+// 输入步骤的表单，根据步骤定义的字段渲染
+const StepForm: React.FC<StepFormProps> = ({
+  fields,
+  values,
+  errors = {},
+  onChange,
+  disabled = false,
+}) => {
+  const renderInput = (field: FormField) => {
+    const id = `step-field-${field.key}`;
+    const value = values[field.key] ?? '';
+    const hasError = !!errors[field.key];
+
+    switch (field.type) {
+      case 'textarea':
+        return (
+          <textarea
+            id={id}
+            value={value}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            className={inputClassName(hasError)}
+            placeholder={field.placeholder}
+            disabled={disabled}
+            rows={3}
+          />
+        );
+      case 'select':
+        return (
+          <select
+            id={id}
+            value={value}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            className={inputClassName(hasError)}
+            disabled={disabled}
+          >
+            <option value="">请选择</option>
+            {(field.options || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'date':
+        return (
+          <input
+            id={id}
+            type="date"
+            value={value}
+            min={field.min !== undefined ? String(field.min) : undefined}
+            max={field.max !== undefined ? String(field.max) : undefined}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            className={inputClassName(hasError)}
+            disabled={disabled}
+          />
+        );
+      case 'number':
+      case 'currency':
+      case 'percentage':
+        return (
+          <div className="flex items-center">
+            {field.type === 'currency' && (
+              <span className="mr-2 text-sm text-gray-500">{field.currency || '¥'}</span>
+            )}
+            <input
+              id={id}
+              type="number"
+              step="any"
+              value={value}
+              min={field.min}
+              max={field.max}
+              onChange={(e) => onChange(field.key, e.target.value)}
+              className={inputClassName(hasError)}
+              placeholder={field.placeholder}
+              disabled={disabled}
+            />
+            {field.type === 'percentage' && (
+              <span className="ml-2 text-sm text-gray-500">%</span>
+            )}
+          </div>
+        );
+      case 'ticker':
+        return (
+          <input
+            id={id}
+            type="text"
+            value={value}
+            onChange={(e) => onChange(field.key, e.target.value.toUpperCase())}
+            className={`${inputClassName(hasError)} font-mono`}
+            placeholder={field.placeholder || '例如：600519.SH'}
+            disabled={disabled}
+          />
+        );
+      default:
+        return (
+          <input
+            id={id}
+            type="text"
+            value={value}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            className={inputClassName(hasError)}
+            placeholder={field.placeholder}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {fields.map(field => (
+        <div key={field.key} className={field.type === 'textarea' ? 'md:col-span-2' : ''}>
+          <label htmlFor={`step-field-${field.key}`} className="block text-sm font-medium text-gray-700 mb-1">
+            {field.label}{field.required ? ' *' : ''}
+          </label>
+          {renderInput(field)}
+          {field.helpText && !errors[field.key] && (
+            <p className="mt-1 text-xs text-gray-500">{field.helpText}</p>
+          )}
+          {errors[field.key] && (
+            <p className="mt-1 text-sm text-red-600">{errors[field.key]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StepForm;
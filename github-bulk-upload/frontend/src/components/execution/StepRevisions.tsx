@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { ExecutionService, StepRevision, executionService } from '../../services/execution';
+
+interface StepRevisionsProps {
+  executionId: string;
+  recordId: string;
+  // 步骤记录更新后重新加载
+  refreshKey?: unknown;
+}
+
+// 步骤历史版本：每次重新打开前的状态、笔记和数据，没有历史版本时不显示
+const StepRevisions: React.FC<StepRevisionsProps> = ({ executionId, recordId, refreshKey }) => {
+  const [revisions, setRevisions] = useState<StepRevision[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    executionService.getStepRevisions(executionId, recordId)
+      .then(setRevisions)
+      .catch(() => setRevisions([]));
+  }, [executionId, recordId, refreshKey]);
+
+  if (revisions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="text-sm font-medium text-gray-700 mb-2">历史版本</div>
+      <ul className="border border-gray-200 rounded-md divide-y divide-gray-100 text-sm">
+        {revisions.map(revision => (
+          <li key={revision.id} className="p-3">
+            <button
+              onClick={() => setOpenId(openId === revision.id ? null : revision.id)}
+              className="w-full flex items-center justify-between text-left"
+            >
+              <span className="text-gray-900">
+                第 {revision.revision} 版 · {ExecutionService.getStepStatusText(revision.status)}
+                {revision.completedAt && (
+                  <span className="ml-2 text-xs text-gray-400">{new Date(revision.completedAt).toLocaleString('zh-CN')}</span>
+                )}
+              </span>
+              <span className="text-xs text-gray-500">
+                {revision.reopener.name} 于 {new Date(revision.createdAt).toLocaleString('zh-CN')}
+                {revision.cascadeFromId ? '随上游步骤重置' : '重新打开'}
+              </span>
+            </button>
+            <div className="mt-1 text-xs text-gray-600">原因：{revision.reason}</div>
+            {openId === revision.id && (
+              <div className="mt-2 space-y-1 text-xs">
+                {revision.notes && <div className="text-gray-700">笔记：{revision.notes}</div>}
+                {revision.data && (
+                  <pre className="p-2 bg-gray-50 rounded overflow-x-auto">{JSON.stringify(revision.data, null, 2)}</pre>
+                )}
+                {revision.result && (
+                  <pre className="p-2 bg-gray-50 rounded overflow-x-auto">{JSON.stringify(revision.result, null, 2)}</pre>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default StepRevisions;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SubworkflowResult } from '../../types/workflow';
+import { ChildExecutionSummary, ExecutionService } from '../../services/execution';
+
+interface SubworkflowStatusProps {
+  subworkflow: SubworkflowResult;
+  childExecution?: ChildExecutionSummary | null;
+}
+
+// 子流程步骤启动的子执行：显示进度并可跳转到子执行
+const SubworkflowStatus: React.FC<SubworkflowStatusProps> = ({ subworkflow, childExecution }) => {
+  const navigate = useNavigate();
+  const workflowName = childExecution?.workflow.name || subworkflow.workflowName || '子流程';
+
+  return (
+    <div className="bg-pink-50 border border-pink-200 rounded-md p-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-900">子流程：{workflowName}</span>
+        {childExecution && (
+          <span className="text-xs text-gray-600">
+            {ExecutionService.getStatusText(childExecution.status)} · {Math.round(childExecution.progress)}%
+          </span>
+        )}
+      </div>
+
+      {subworkflow.executionId && (
+        <button
+          onClick={() => navigate(`/executions/${subworkflow.executionId}`)}
+          className="mt-1 text-xs text-indigo-600 hover:text-indigo-800"
+        >
+          查看子执行 →
+        </button>
+      )}
+
+      {subworkflow.missing && subworkflow.missing.length > 0 && (
+        <p className="mt-2 text-xs text-yellow-700">
+          子流程中未取到值的数据：{subworkflow.missing.join('、')}
+        </p>
+      )}
+
+      {subworkflow.error && (
+        <p className="mt-2 text-xs text-red-700">{subworkflow.error}</p>
+      )}
+    </div>
+  );
+};
+
+export default SubworkflowStatus;
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Execution, executionService } from '../../services/execution';
+import { historyService } from '../../services/history';
+
+// 逾期和7天内到期的执行，点击进入对应执行处理
+const UpcomingDeadlines: React.FC = () => {
+  const navigate = useNavigate();
+  const [executions, setExecutions] = useState<Execution[]>([]);
+  const [overdue, setOverdue] = useState({ executions: 0, steps: 0 });
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    Promise.all([
+      executionService.getUpcomingExecutions(7).catch(() => [] as Execution[]),
+      historyService.getHistoryStats().catch(() => null)
+    ])
+      .then(([upcoming, stats]) => {
+        setExecutions(upcoming || []);
+        if (stats) {
+          setOverdue({ executions: stats.overdueExecutions || 0, steps: stats.overdueSteps || 0 });
+        }
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-medium text-gray-900">截止提醒</h3>
+        <div className="flex items-center space-x-4 text-sm">
+          <span className={overdue.executions > 0 ? 'text-red-600' : 'text-gray-500'}>逾期执行 {overdue.executions}</span>
+          <span className={overdue.steps > 0 ? 'text-red-600' : 'text-gray-500'}>超时步骤 {overdue.steps}</span>
+        </div>
+      </div>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">加载中...</p>
+      ) : executions.length === 0 ? (
+        <p className="text-sm text-gray-500">7天内没有到期的执行</p>
+      ) : (
+        <div className="space-y-3">
+          {executions.map(execution => (
+            <button
+              key={execution.id}
+              onClick={() => navigate(`/executions/${execution.id}`)}
+              className="w-full text-left p-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900 truncate">{execution.title || execution.workflow?.name}</span>
+                {execution.isOverdue && <span className="text-xs text-red-600">已逾期</span>}
+              </div>
+              <p className={`text-sm mt-1 ${execution.isOverdue ? 'text-red-600' : 'text-gray-500'}`}>
+                截止 {new Date(execution.dueDate!).toLocaleString('zh-CN')}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UpcomingDeadlines;
@@ -0,0 +1,413 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { DcfInput, MultiplesInput, PeerCompany, PeerMultiple, SavedValuation, ValuationConfig, ValuationInput } from '../../types/workflow';
+import {
+  buildInitialValuationInput,
+  formatAmount,
+  formatPercent,
+  PEER_MULTIPLE_LABELS,
+  VALUATION_METHOD_LABELS
+} from '../../utils/valuation';
+import NumberInput, { modelInputClassName as inputClassName, toNumber } from './ModelNumberInput';
+
+interface ValuationModelProps {
+  config: ValuationConfig;
+  saved?: SavedValuation;
+  disabled?: boolean;
+  onSave: (input: ValuationInput) => Promise<SavedValuation>;
+}
+
+// 计算步骤的估值模型：多阶段DCF、敏感性分析和可比公司相对估值，保存后由后端计算
+const ValuationModel: React.FC<ValuationModelProps> = ({ config, saved, disabled = false, onSave }) => {
+  const [input, setInput] = useState<ValuationInput>(() => buildInitialValuationInput(config, saved?.input));
+  const [valuation, setValuation] = useState<SavedValuation | undefined>(saved);
+  const [isSaving, setIsSaving] = useState(false);
+  const [useWacc, setUseWacc] = useState(!!input.dcf?.wacc);
+
+  const dcf = input.dcf;
+  const multiples = input.multiples;
+
+  const updateDcf = (updated: Partial<DcfInput>) => {
+    setInput(prev => ({ ...prev, dcf: { ...prev.dcf!, ...updated } }));
+  };
+
+  const updateMultiples = (updated: Partial<MultiplesInput>) => {
+    setInput(prev => ({ ...prev, multiples: { ...prev.multiples!, ...updated } }));
+  };
+
+  const updatePeer = (index: number, updated: Partial<PeerCompany>) => {
+    const peers = [...multiples!.peers];
+    peers[index] = { ...peers[index], ...updated };
+    updateMultiples({ peers });
+  };
+
+  const toggleWacc = (enabled: boolean) => {
+    setUseWacc(enabled);
+    updateDcf(enabled
+      ? { discountRate: undefined, wacc: { riskFreeRate: 0.03, beta: 1, marketRiskPremium: 0.06, costOfDebt: 0.05, taxRate: 0.25, debtWeight: 0.3 } }
+      : { discountRate: 0.1, wacc: undefined });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // 去掉未填写名称的可比公司
+      const payload: ValuationInput = multiples
+        ? { ...input, multiples: { ...multiples, peers: multiples.peers.filter(peer => peer.name.trim()) } }
+        : input;
+      setValuation(await onSave(payload));
+      toast.success('估值模型已保存');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '保存估值模型失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const readOnly = disabled || isSaving;
+  const output = valuation?.output;
+
+  return (
+    <div className="border border-gray-200 rounded-md">
+      <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">估值模型</span>
+        {valuation && (
+          <span className="text-xs text-gray-500">
+            保存于 {new Date(valuation.updatedAt).toLocaleString('zh-CN')}
+          </span>
+        )}
+      </div>
+
+      <div className="p-3 space-y-4">
+        {/* 公允价值区间 */}
+        {output && (
+          <div className="bg-indigo-50 rounded-md p-3">
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm text-indigo-900">公允价值区间</span>
+              <span className="font-mono text-indigo-900">
+                {formatAmount(output.summary.low)} ~ <span className="text-lg font-semibold">{formatAmount(output.summary.base)}</span> ~ {formatAmount(output.summary.high)}
+              </span>
+            </div>
+            {output.summary.upside !== undefined && output.summary.upside !== null && (
+              <div className="mt-1 text-xs text-indigo-700 text-right">
+                当前价格 {formatAmount(output.summary.currentPrice!)}，空间
+                <span className={output.summary.upside >= 0 ? 'text-green-700' : 'text-red-700'}> {formatPercent(output.summary.upside)}</span>
+              </div>
+            )}
+            <div className="mt-2 space-y-1">
+              {output.summary.ranges.map(range => (
+                <div key={range.method} className="flex justify-between text-xs text-indigo-800">
+                  <span>{range.label}</span>
+                  <span className="font-mono">{formatAmount(range.low)} / {formatAmount(range.base)} / {formatAmount(range.high)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-4 gap-2">
+          <NumberInput
+            label="当前股价"
+            value={input.currentPrice}
+            disabled={readOnly}
+            onChange={(currentPrice) => setInput(prev => ({ ...prev, currentPrice }))}
+          />
+        </div>
+
+        {/* DCF */}
+        {dcf && (
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">{VALUATION_METHOD_LABELS.dcf}</div>
+            <div className="grid grid-cols-4 gap-2">
+              <NumberInput label="基期自由现金流" value={dcf.baseCashFlow} disabled={readOnly} onChange={(value) => updateDcf({ baseCashFlow: value ?? 0 })} />
+              <NumberInput label="净债务" value={dcf.netDebt} disabled={readOnly} onChange={(netDebt) => updateDcf({ netDebt })} />
+              <NumberInput label="总股本" value={dcf.sharesOutstanding} disabled={readOnly} onChange={(sharesOutstanding) => updateDcf({ sharesOutstanding })} />
+              <label className="block">
+                <span className="block text-xs text-gray-600 mb-1">终值方法</span>
+                <select
+                  value={dcf.terminalMethod}
+                  onChange={(e) => updateDcf({ terminalMethod: e.target.value as DcfInput['terminalMethod'] })}
+                  disabled={readOnly}
+                  className={inputClassName}
+                >
+                  <option value="perpetuity">永续增长法</option>
+                  <option value="exitMultiple">退出倍数法</option>
+                </select>
+              </label>
+            </div>
+
+            <div className="mt-2 grid grid-cols-4 gap-2 items-end">
+              {dcf.terminalMethod === 'perpetuity' ? (
+                <NumberInput label="永续增长率" percent value={dcf.terminalGrowth} disabled={readOnly} onChange={(terminalGrowth) => updateDcf({ terminalGrowth })} />
+              ) : (
+                <NumberInput label="退出倍数" value={dcf.exitMultiple} disabled={readOnly} onChange={(exitMultiple) => updateDcf({ exitMultiple })} />
+              )}
+              {useWacc ? (
+                <div className="col-span-2" />
+              ) : (
+                <>
+                  <NumberInput label="折现率" percent value={dcf.discountRate} disabled={readOnly} onChange={(discountRate) => updateDcf({ discountRate })} />
+                  <div />
+                </>
+              )}
+              <label className="flex items-center text-xs text-gray-700 pb-2">
+                <input
+                  type="checkbox"
+                  checked={useWacc}
+                  onChange={(e) => toggleWacc(e.target.checked)}
+                  disabled={readOnly}
+                  className="mr-1 rounded border-gray-300 text-indigo-600"
+                />
+                按WACC计算折现率
+              </label>
+            </div>
+
+            {useWacc && dcf.wacc && (
+              <div className="mt-2 grid grid-cols-6 gap-2">
+                <NumberInput label="无风险利率" percent value={dcf.wacc.riskFreeRate} disabled={readOnly} onChange={(value) => updateDcf({ wacc: { ...dcf.wacc!, riskFreeRate: value ?? 0 } })} />
+                <NumberInput label="Beta" value={dcf.wacc.beta} disabled={readOnly} onChange={(value) => updateDcf({ wacc: { ...dcf.wacc!, beta: value ?? 0 } })} />
+                <NumberInput label="市场风险溢价" percent value={dcf.wacc.marketRiskPremium} disabled={readOnly} onChange={(value) => updateDcf({ wacc: { ...dcf.wacc!, marketRiskPremium: value ?? 0 } })} />
+                <NumberInput label="税前债务成本" percent value={dcf.wacc.costOfDebt} disabled={readOnly} onChange={(value) => updateDcf({ wacc: { ...dcf.wacc!, costOfDebt: value ?? 0 } })} />
+                <NumberInput label="税率" percent value={dcf.wacc.taxRate} disabled={readOnly} onChange={(value) => updateDcf({ wacc: { ...dcf.wacc!, taxRate: value ?? 0 } })} />
+                <NumberInput label="债务占比" percent value={dcf.wacc.debtWeight} disabled={readOnly} onChange={(value) => updateDcf({ wacc: { ...dcf.wacc!, debtWeight: value ?? 0 } })} />
+              </div>
+            )}
+
+            <div className="mt-2">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs text-gray-600">预测阶段</span>
+                {!readOnly && dcf.stages.length < 5 && (
+                  <button
+                    type="button"
+                    onClick={() => updateDcf({ stages: [...dcf.stages, { years: 5, growth: 0.03 }] })}
+                    className="text-xs text-indigo-600 hover:text-indigo-500"
+                  >
+                    + 添加阶段
+                  </button>
+                )}
+              </div>
+              {dcf.stages.map((stage, index) => (
+                <div key={index} className="grid grid-cols-4 gap-2 mb-1 items-end">
+                  <NumberInput
+                    label={`第${index + 1}阶段年数`}
+                    value={stage.years}
+                    disabled={readOnly}
+                    onChange={(years) => updateDcf({ stages: dcf.stages.map((item, i) => (i === index ? { ...item, years: years ?? 1 } : item)) })}
+                  />
+                  <NumberInput
+                    label="年增长率"
+                    percent
+                    value={stage.growth}
+                    disabled={readOnly}
+                    onChange={(growth) => updateDcf({ stages: dcf.stages.map((item, i) => (i === index ? { ...item, growth: growth ?? 0 } : item)) })}
+                  />
+                  {!readOnly && dcf.stages.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => updateDcf({ stages: dcf.stages.filter((_, i) => i !== index) })}
+                      className="text-left text-red-400 hover:text-red-600 text-sm pb-2"
+                    >
+                      删除
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* 相对估值 */}
+        {multiples && (
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">{VALUATION_METHOD_LABELS.multiples}</div>
+            <div className="grid grid-cols-6 gap-2">
+              <NumberInput label="每股收益" value={multiples.metrics.eps} disabled={readOnly} onChange={(eps) => updateMultiples({ metrics: { ...multiples.metrics, eps } })} />
+              <NumberInput label="每股净资产" value={multiples.metrics.bvps} disabled={readOnly} onChange={(bvps) => updateMultiples({ metrics: { ...multiples.metrics, bvps } })} />
+              <NumberInput label="每股营收" value={multiples.metrics.salesPerShare} disabled={readOnly} onChange={(salesPerShare) => updateMultiples({ metrics: { ...multiples.metrics, salesPerShare } })} />
+              <NumberInput label="EBITDA" value={multiples.metrics.ebitda} disabled={readOnly} onChange={(ebitda) => updateMultiples({ metrics: { ...multiples.metrics, ebitda } })} />
+              <NumberInput label="净债务" value={multiples.netDebt} disabled={readOnly} onChange={(netDebt) => updateMultiples({ netDebt })} />
+              <NumberInput label="总股本" value={multiples.sharesOutstanding} disabled={readOnly} onChange={(sharesOutstanding) => updateMultiples({ sharesOutstanding })} />
+            </div>
+
+            <div className="mt-2">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs text-gray-600">可比公司</span>
+                {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => updateMultiples({ peers: [...multiples.peers, { name: '' }] })}
+                    className="text-xs text-indigo-600 hover:text-indigo-500"
+                  >
+                    + 添加公司
+                  </button>
+                )}
+              </div>
+              {multiples.peers.map((peer, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 mb-1 items-center">
+                  <input
+                    type="text"
+                    value={peer.name}
+                    onChange={(e) => updatePeer(index, { name: e.target.value })}
+                    disabled={readOnly}
+                    className={`${inputClassName} col-span-3`}
+                    placeholder="公司名称"
+                  />
+                  <input
+                    type="text"
+                    value={peer.ticker || ''}
+                    onChange={(e) => updatePeer(index, { ticker: e.target.value.toUpperCase() || undefined })}
+                    disabled={readOnly}
+                    className={`${inputClassName} col-span-2 font-mono`}
+                    placeholder="代码"
+                  />
+                  {(Object.keys(PEER_MULTIPLE_LABELS) as PeerMultiple[]).map(multiple => (
+                    <input
+                      key={multiple}
+                      type="number"
+                      step="any"
+                      value={peer[multiple] ?? ''}
+                      onChange={(e) => updatePeer(index, { [multiple]: toNumber(e.target.value) })}
+                      disabled={readOnly}
+                      className={`${inputClassName} col-span-1`}
+                      placeholder={PEER_MULTIPLE_LABELS[multiple]}
+                      title={PEER_MULTIPLE_LABELS[multiple]}
+                    />
+                  ))}
+                  {!readOnly && multiples.peers.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => updateMultiples({ peers: multiples.peers.filter((_, i) => i !== index) })}
+                      className="col-span-1 text-red-400 hover:text-red-600 text-sm"
+                    >
+                      删除
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!disabled && (
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {isSaving ? '计算中...' : '计算并保存'}
+            </button>
+            <span className="text-xs text-gray-500">完成步骤时使用最近一次保存的估值</span>
+          </div>
+        )}
+
+        {/* DCF明细 */}
+        {output?.dcf && (
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">
+              DCF明细（折现率 {formatPercent(output.dcf.discountRate, 2)}）
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="px-2 py-1 text-left font-normal">年份</th>
+                    <th className="px-2 py-1 text-right font-normal">增长率</th>
+                    <th className="px-2 py-1 text-right font-normal">现金流</th>
+                    <th className="px-2 py-1 text-right font-normal">现值</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {output.dcf.projections.map(item => (
+                    <tr key={item.year} className="border-t border-gray-100">
+                      <td className="px-2 py-1">{item.year}</td>
+                      <td className="px-2 py-1 text-right">{formatPercent(item.growth)}</td>
+                      <td className="px-2 py-1 text-right">{formatAmount(item.cashFlow)}</td>
+                      <td className="px-2 py-1 text-right">{formatAmount(item.presentValue)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t border-gray-200">
+                    <td className="px-2 py-1" colSpan={2}>终值</td>
+                    <td className="px-2 py-1 text-right">{formatAmount(output.dcf.terminalValue)}</td>
+                    <td className="px-2 py-1 text-right">{formatAmount(output.dcf.terminalPresentValue)}</td>
+                  </tr>
+                  <tr className="border-t border-gray-200 text-gray-900">
+                    <td className="px-2 py-1" colSpan={3}>企业价值 / 股权价值 / 每股价值</td>
+                    <td className="px-2 py-1 text-right">
+                      {formatAmount(output.dcf.enterpriseValue)} / {formatAmount(output.dcf.equityValue)} / {formatAmount(output.dcf.perShareValue)}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* 敏感性分析 */}
+        {output?.sensitivity && (
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">
+              敏感性分析（每股价值，行：折现率，列：{output.sensitivity.growthAxis === 'terminalGrowth' ? '永续增长率' : '第一阶段增长率'}）
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="px-2 py-1" />
+                    {output.sensitivity.growthRates.map(growth => (
+                      <th key={growth} className="px-2 py-1 text-right font-normal">{formatPercent(growth)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {output.sensitivity.discountRates.map((discountRate, i) => (
+                    <tr key={discountRate} className="border-t border-gray-100">
+                      <td className="px-2 py-1 text-gray-500">{formatPercent(discountRate)}</td>
+                      {output.sensitivity!.values[i].map((value, j) => (
+                        <td key={j} className="px-2 py-1 text-right">
+                          {value === null ? '-' : formatAmount(value)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* 相对估值明细 */}
+        {output?.multiples && (
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">相对估值明细（可比公司四分位区间）</div>
+            <table className="min-w-full text-xs font-mono">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="px-2 py-1 text-left font-normal">倍数</th>
+                  <th className="px-2 py-1 text-right font-normal">样本</th>
+                  <th className="px-2 py-1 text-right font-normal">低 / 中位 / 高</th>
+                  <th className="px-2 py-1 text-right font-normal">隐含每股价值</th>
+                </tr>
+              </thead>
+              <tbody>
+                {output.multiples.map(item => (
+                  <tr key={item.multiple} className="border-t border-gray-100">
+                    <td className="px-2 py-1">{item.label}</td>
+                    <td className="px-2 py-1 text-right">{item.peerCount}</td>
+                    <td className="px-2 py-1 text-right">{item.low} / {item.median} / {item.high}</td>
+                    <td className="px-2 py-1 text-right">
+                      {formatAmount(item.impliedLow)} / {formatAmount(item.impliedValue)} / {formatAmount(item.impliedHigh)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ValuationModel;
@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { useParams, useNavigate } from 'react-router-dom';
 import { RootState, AppDispatch } from '../../store/store';
@@ -12,9 +12,14 @@ import {
   updateProgress,
   clearCurrentExecution 
 } from '../../store/executionSlice';
-import { ExecutionStatus, ExecutionRecord, ExecutionRecordStatus, ExecutionService } from '../../services/execution';
+import { ExecutionMember, ExecutionParticipant, ExecutionStatus, ExecutionRecord, ExecutionRecordStatus, ExecutionService } from '../../services/execution';
+import { parseParameterDefinitions } from '../../utils/parameters';
 import StepExecution from './StepExecution';
 import ProgressTracker from './ProgressTracker';
+import ExecutionParticipants from './ExecutionParticipants';
+import CommentThread from './CommentThread';
+import ExecutionPresence from './ExecutionPresence';
+import { useExecutionStream } from '../../hooks/useExecutionStream';
 import toast from 'react-hot-toast';
 
 const WorkflowExecution: React.FC = () => {
@@ -22,8 +27,19 @@ const WorkflowExecution: React.FC = () => {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   
-  const { currentExecution, executionRecords, isLoading, error } = useSelector((state: RootState) => state.execution);
+  const { currentExecution, executionRecords, isLoading, error, viewers, liveVersions } = useSelector((state: RootState) => state.execution);
   const { user } = useSelector((state: RootState) => state.auth);
+  // 其他成员的修改通过实时推送更新到 store
+  const { isConnected } = useExecutionStream(id);
+  const [members, setMembers] = useState<{ owner: ExecutionMember; participants: ExecutionParticipant[] } | null>(null);
+
+  // 发起人可以管理执行和分配步骤，协作者可以处理步骤，查看者只能查看
+  const isOwner = !!currentExecution && currentExecution.userId === user?.id;
+  const canContribute = isOwner ||
+    members?.participants.some(participant => participant.userId === user?.id && participant.role === 'CONTRIBUTOR');
+  const assignableMembers = members
+    ? [members.owner, ...members.participants.filter(participant => participant.role === 'CONTRIBUTOR').map(participant => participant.user)]
+    : [];
 
   useEffect(() => {
     if (id) {
@@ -180,7 +196,10 @@ const WorkflowExecution: React.FC = () => {
         break;
     }
 
-    return buttons;
+    // 暂停、恢复和取消只有发起人可以操作，查看者不能完成执行
+    return buttons.filter(button =>
+      isOwner || button.key === 'refresh' || (button.key === 'complete' && canContribute)
+    );
   };
 
   if (isLoading) {
@@ -214,6 +233,11 @@ const WorkflowExecution: React.FC = () => {
     );
   }
 
+  // 参数的显示名称取自工作流定义
+  const parameterLabels = Object.fromEntries(
+    parseParameterDefinitions(currentExecution.workflow?.metadata).map(definition => [definition.key, definition.label])
+  );
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* 导航栏 */}
@@ -254,11 +278,28 @@ const WorkflowExecution: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-2xl font-bold text-gray-900">
-                {currentExecution.title}
+                {currentExecution.title || currentExecution.workflow?.name}
               </h1>
               <p className="text-gray-600 mt-1">
                 {currentExecution.description}
               </p>
+              {currentExecution.parentRecord && (
+                <button
+                  onClick={() => navigate(`/executions/${currentExecution.parentRecord!.executionId}`)}
+                  className="mt-1 text-sm text-indigo-600 hover:text-indigo-800"
+                >
+                  由「{currentExecution.parentRecord.execution.workflow.name}」的步骤「{currentExecution.parentRecord.step.name}」启动的子流程 →
+                </button>
+              )}
+              {currentExecution.parameters && currentExecution.parameters.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {currentExecution.parameters.map(parameter => (
+                    <span key={parameter.key} className="inline-flex items-center px-2 py-0.5 rounded bg-indigo-50 text-xs text-indigo-700">
+                      {parameterLabels[parameter.key] || parameter.key}: {parameter.value}
+                    </span>
+                  ))}
+                </div>
+              )}
               <div className="flex items-center space-x-4 mt-2">
                 <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${ExecutionService.getStatusColor(currentExecution.status)}`}>
                   {ExecutionService.getStatusText(currentExecution.status)}
@@ -267,6 +308,7 @@ const WorkflowExecution: React.FC = () => {
                   {ExecutionService.getPriorityText(currentExecution.priority)}
                 </span>
                 <span className="text-sm text-gray-500">进度: {currentExecution.progress}%</span>
+                <ExecutionPresence viewers={viewers} currentUserId={user?.id} isConnected={isConnected} />
               </div>
               <div className="flex items-center space-x-4 mt-2 text-sm text-gray-500">
                 <span>创建时间: {new Date(currentExecution.createdAt).toLocaleString('zh-CN')}</span>
@@ -314,6 +356,9 @@ const WorkflowExecution: React.FC = () => {
                   executionId={currentExecution.id}
                   executionRecord={record}
                   onStepUpdate={handleStepUpdate}
+                  assignableMembers={assignableMembers}
+                  canAssign={isOwner}
+                  canContribute={canContribute}
                 />
               ))
             ) : (
@@ -327,8 +372,24 @@ const WorkflowExecution: React.FC = () => {
           </div>
 
           {/* 进度跟踪侧边栏 */}
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
             <ProgressTracker execution={{...currentExecution, records: executionRecords}} />
+            <ExecutionParticipants
+              executionId={currentExecution.id}
+              currentUserId={user?.id}
+              onChange={setMembers}
+              refreshKey={liveVersions.participants}
+            />
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">讨论</h3>
+              <CommentThread
+                executionId={currentExecution.id}
+                canDeleteAny={isOwner}
+                canResolve={canContribute}
+                showTitle={false}
+                refreshKey={liveVersions.comments}
+              />
+            </div>
           </div>
         </div>
       </main>
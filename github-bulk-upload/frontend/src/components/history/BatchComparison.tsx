@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ExecutionBatchDetail, ExecutionService, executionService } from '../../services/execution';
+
+interface BatchComparisonProps {
+  batchId: string;
+  onSelectExecution: (executionId: string) => void;
+}
+
+const STEP_STATUS_STYLES: Record<string, { className: string; label: string }> = {
+  PENDING: { className: 'bg-gray-200', label: '待开始' },
+  IN_PROGRESS: { className: 'bg-blue-500', label: '进行中' },
+  COMPLETED: { className: 'bg-green-500', label: '已完成' },
+  SKIPPED: { className: 'bg-yellow-400', label: '已跳过' },
+  FAILED: { className: 'bg-red-500', label: '失败' }
+};
+
+// 批次对比：批次内每个执行一行，并排显示参数、进度和各步骤状态
+export const BatchComparison: React.FC<BatchComparisonProps> = ({ batchId, onSelectExecution }) => {
+  const [batch, setBatch] = useState<ExecutionBatchDetail | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    executionService.getBatch(batchId)
+      .then(result => {
+        if (!cancelled) setBatch(result);
+      })
+      .catch((error: any) => {
+        toast.error(error.response?.data?.error?.message || '获取批次详情失败');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [batchId]);
+
+  if (!batch) {
+    return <div className="p-6 text-sm text-gray-500">加载批次...</div>;
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">{batch.name}</h3>
+          <p className="text-sm text-gray-500">
+            {batch.workflow?.name} · {new Date(batch.createdAt).toLocaleString('zh-CN')}
+          </p>
+        </div>
+        <div className="text-right text-sm text-gray-600">
+          <div>已完成 {batch.summary.completed} / {batch.summary.total}</div>
+          <div>平均进度 {batch.summary.averageProgress}%</div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4 font-medium">执行</th>
+              {batch.parameterKeys.map(key => (
+                <th key={key} className="py-2 pr-4 font-medium">{key}</th>
+              ))}
+              <th className="py-2 pr-4 font-medium">状态</th>
+              <th className="py-2 pr-4 font-medium">进度</th>
+              <th className="py-2 font-medium">步骤</th>
+            </tr>
+          </thead>
+          <tbody>
+            {batch.executions.map(execution => {
+              const values = Object.fromEntries(execution.parameters.map(item => [item.key, item.value]));
+              return (
+                <tr
+                  key={execution.id}
+                  onClick={() => onSelectExecution(execution.id)}
+                  className="border-b last:border-0 hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="py-2 pr-4 text-gray-900">{execution.title || execution.id}</td>
+                  {batch.parameterKeys.map(key => (
+                    <td key={key} className="py-2 pr-4 text-gray-700">{values[key] ?? '-'}</td>
+                  ))}
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${ExecutionService.getStatusColor(execution.status)}`}>
+                      {ExecutionService.getStatusText(execution.status)}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700">{Math.round(execution.progress || 0)}%</td>
+                  <td className="py-2">
+                    <div className="flex space-x-1">
+                      {execution.executionRecords.map(record => {
+                        const style = STEP_STATUS_STYLES[record.status] || STEP_STATUS_STYLES.PENDING;
+                        return (
+                          <span
+                            key={record.id}
+                            title={`${record.step.order}. ${record.step.name}：${style.label}`}
+                            className={`inline-block w-3 h-3 rounded-sm ${style.className}`}
+                          />
+                        );
+                      })}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchComparison;
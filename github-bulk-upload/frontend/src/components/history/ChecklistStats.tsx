@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { ChecklistStepStats } from '../../types/workflow';
+import { historyService } from '../../services/history';
+
+interface ChecklistStatsProps {
+  workflowId?: string;
+}
+
+// 检查清单完成率：各检查项在多次执行中被勾选的比例，用于发现经常被跳过的检查；没有检查清单步骤时不显示
+export const ChecklistStats: React.FC<ChecklistStatsProps> = ({ workflowId }) => {
+  const [stats, setStats] = useState<ChecklistStepStats[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    historyService.getChecklistStats({ workflowId: workflowId || undefined })
+      .then(result => {
+        if (!cancelled) setStats(result);
+      })
+      .catch(() => setStats([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [workflowId]);
+
+  if (stats.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-6 bg-white rounded-lg shadow">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">检查清单完成率</h3>
+      <div className="space-y-6">
+        {stats.map(step => (
+          <div key={`${step.workflowId}-${step.stepName}`}>
+            <div className="text-sm text-gray-700 mb-2">
+              {step.workflowName} · {step.stepName}
+              <span className="ml-2 text-gray-400">共 {step.records} 次执行</span>
+            </div>
+            <ul className="space-y-1">
+              {step.items.map(item => (
+                <li key={item.key} className="flex items-center text-sm">
+                  <span className="w-1/3 truncate text-gray-700" title={item.label}>
+                    {item.label}
+                    {item.required && <span className="ml-1 text-red-500">*</span>}
+                  </span>
+                  <div className="flex-1 mx-3 h-2 bg-gray-200 rounded">
+                    <div
+                      className={`h-2 rounded ${item.completionRate >= 80 ? 'bg-green-500' : item.completionRate >= 50 ? 'bg-yellow-400' : 'bg-red-500'}`}
+                      style={{ width: `${item.completionRate}%` }}
+                    />
+                  </div>
+                  <span className="w-40 text-right text-xs text-gray-500">
+                    {item.completionRate}%（说明 {item.withNote}，附件 {item.withAttachment}）
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ChecklistStats;
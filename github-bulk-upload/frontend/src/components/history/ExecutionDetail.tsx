@@ -1,16 +1,38 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Execution, ExecutionRecord, ExecutionService, executionService } from '../../services/execution';
+import { ExecutionTimeline } from './ExecutionTimeline';
 
 export interface ExecutionDetailProps {
   executionId: string | null;
   onClose: () => void;
 }
 
-export const ExecutionDetail: React.FC<ExecutionDetailProps> = ({ 
-  executionId, 
-  onClose 
+const formatTime = (value?: Date | string) => (value ? new Date(value).toLocaleString('zh-CN') : '-');
+
+export const ExecutionDetail: React.FC<ExecutionDetailProps> = ({
+  executionId,
+  onClose
 }) => {
+  const navigate = useNavigate();
+  const [execution, setExecution] = useState<Execution | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!executionId) return;
+
+    setIsLoading(true);
+    executionService.getExecutionById(executionId)
+      .then(setExecution)
+      .catch(() => setExecution(null))
+      .finally(() => setIsLoading(false));
+  }, [executionId]);
+
   if (!executionId) return null;
 
+  // 接口返回的步骤记录字段为 executionRecords
+  const records: ExecutionRecord[] = execution?.records || (execution as any)?.executionRecords || [];
+
   return (
     <div className="bg-white rounded-lg shadow">
       <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
@@ -23,56 +45,81 @@ export const ExecutionDetail: React.FC<ExecutionDetailProps> = ({
         </button>
       </div>
       <div className="p-6">
-        <div className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">执行ID</label>
-            <p className="mt-1 text-sm text-gray-900">{executionId}</p>
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700">状态</label>
-            <span className="mt-1 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
-              已完成
-            </span>
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700">开始时间</label>
-            <p className="mt-1 text-sm text-gray-900">{new Date().toLocaleString()}</p>
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700">完成时间</label>
-            <p className="mt-1 text-sm text-gray-900">{new Date().toLocaleString()}</p>
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700">执行步骤</label>
-            <div className="mt-2 space-y-2">
-              <div className="flex items-center space-x-2">
-                <div className="w-4 h-4 bg-green-500 rounded-full flex items-center justify-center">
-                  <div className="w-2 h-2 bg-white rounded-full"></div>
-                </div>
-                <span className="text-sm text-gray-900">初始化</span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <div className="w-4 h-4 bg-green-500 rounded-full flex items-center justify-center">
-                  <div className="w-2 h-2 bg-white rounded-full"></div>
-                </div>
-                <span className="text-sm text-gray-900">数据处理</span>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : !execution ? (
+          <p className="text-sm text-gray-500">执行记录不存在</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">执行ID</label>
+              <p className="mt-1 text-sm text-gray-900">{execution.id}</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">状态</label>
+              <span className={`mt-1 inline-flex px-2 py-1 text-xs font-semibold rounded-full ${ExecutionService.getStatusColor(execution.status)}`}>
+                {ExecutionService.getStatusText(execution.status)}
+              </span>
+            </div>
+
+            {/* 由子流程步骤启动的执行 */}
+            {execution.parentRecord && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">上级流程</label>
+                <button
+                  onClick={() => navigate(`/executions/${execution.parentRecord!.executionId}`)}
+                  className="mt-1 text-sm text-indigo-600 hover:text-indigo-800 text-left"
+                >
+                  {execution.parentRecord.execution.workflow.name} · 步骤「{execution.parentRecord.step.name}」
+                </button>
               </div>
-              <div className="flex items-center space-x-2">
-                <div className="w-4 h-4 bg-green-500 rounded-full flex items-center justify-center">
-                  <div className="w-2 h-2 bg-white rounded-full"></div>
-                </div>
-                <span className="text-sm text-gray-900">完成</span>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">开始时间</label>
+              <p className="mt-1 text-sm text-gray-900">{formatTime(execution.startedAt)}</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">完成时间</label>
+              <p className="mt-1 text-sm text-gray-900">{formatTime(execution.completedAt)}</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">执行步骤</label>
+              <div className="mt-2 space-y-2">
+                {records.map(record => (
+                  <div key={record.id}>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-900">{record.step?.name}</span>
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${ExecutionService.getStepStatusColor(record.status)}`}>
+                        {ExecutionService.getStepStatusText(record.status)}
+                      </span>
+                    </div>
+                    {/* 子流程步骤启动的子执行 */}
+                    {record.childExecution && (
+                      <button
+                        onClick={() => navigate(`/executions/${record.childExecution!.id}`)}
+                        className="mt-1 ml-4 text-xs text-indigo-600 hover:text-indigo-800"
+                      >
+                        子流程：{record.childExecution.workflow.name}（{ExecutionService.getStatusText(record.childExecution.status)}）→
+                      </button>
+                    )}
+                  </div>
+                ))}
               </div>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">事件时间线</label>
+              <ExecutionTimeline executionId={execution.id} />
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default ExecutionDetail;
\ No newline at end of file
+export default ExecutionDetail;
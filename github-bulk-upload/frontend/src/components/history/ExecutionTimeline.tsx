@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { ExecutionEvent, executionService } from '../../services/execution';
+import { describeEvent, listChanges } from '../../utils/executionEvents';
+
+interface ExecutionTimelineProps {
+  executionId: string;
+}
+
+// 执行事件时间线：按时间顺序列出执行和各步骤的每次修改，包括操作人、修改前后的值和原因
+export const ExecutionTimeline: React.FC<ExecutionTimelineProps> = ({ executionId }) => {
+  const [events, setEvents] = useState<ExecutionEvent[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    executionService.getExecutionTimeline(executionId)
+      .then(result => {
+        if (!cancelled) setEvents(result);
+      })
+      .catch(() => setEvents([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [executionId]);
+
+  if (events.length === 0) {
+    return <p className="mt-1 text-sm text-gray-500">暂无事件记录</p>;
+  }
+
+  return (
+    <ol className="mt-2 border-l border-gray-200 space-y-3">
+      {events.map(event => {
+        const changes = listChanges(event);
+        return (
+          <li key={event.id} className="ml-4">
+            <div className="text-xs text-gray-500">
+              {new Date(event.createdAt).toLocaleString('zh-CN')} · {event.actor?.name || '系统'}
+            </div>
+            <div className="text-sm text-gray-900">
+              {event.record?.step && (
+                <span className="text-gray-500">步骤 {event.record.step.order} · {event.record.step.name}：</span>
+              )}
+              {describeEvent(event)}
+            </div>
+            {event.reason && (
+              <div className="text-xs text-gray-600">原因：{event.reason}</div>
+            )}
+            {changes.length > 0 && (
+              <>
+                <button
+                  onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                  className="text-xs text-indigo-600 hover:text-indigo-800"
+                >
+                  {expanded === event.id ? '收起修改' : `查看修改（${changes.length}）`}
+                </button>
+                {expanded === event.id && (
+                  <ul className="mt-1 space-y-1">
+                    {changes.map(change => (
+                      <li key={change.field} className="text-xs text-gray-700 break-all">
+                        {change.field}：
+                        {change.before !== undefined && (
+                          <span className="line-through text-gray-400 mr-1">{change.before}</span>
+                        )}
+                        {change.after}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default ExecutionTimeline;
@@ -1,20 +1,37 @@
 import React from 'react';
+import { ExecutionBatch } from '../../services/execution';
 
 export interface HistoryFiltersProps {
   filters: any;
   onFiltersChange: (filters: any) => void;
   loading: any;
+  // 可选的执行批次
+  batches?: ExecutionBatch[];
 }
 
+// 把 "ticker=00700.HK, market=港股" 解析为参数筛选条件
+const parseParameterText = (text: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+  text.split(/[,，]/).forEach(part => {
+    const [key, ...rest] = part.split('=');
+    const value = rest.join('=').trim();
+    if (key.trim() && value) {
+      params[key.trim()] = value;
+    }
+  });
+  return params;
+};
+
 export const HistoryFilters: React.FC<HistoryFiltersProps> = ({ 
   filters, 
   onFiltersChange, 
-  loading 
+  loading,
+  batches = []
 }) => {
   return (
     <div className="bg-white rounded-lg shadow p-6 mb-6">
       <h3 className="text-lg font-medium text-gray-900 mb-4">筛选条件</h3>
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             状态
@@ -78,6 +95,43 @@ export const HistoryFilters: React.FC<HistoryFiltersProps> = ({
             disabled={loading.list}
           />
         </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            执行参数
+          </label>
+          <input
+            type="text"
+            value={filters.parameter || ''}
+            onChange={(e) => onFiltersChange({
+              ...filters,
+              parameter: e.target.value,
+              params: parseParameterText(e.target.value)
+            })}
+            placeholder="如 ticker=00700.HK"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={loading.list}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            批次
+          </label>
+          <select
+            value={filters.batchId || ''}
+            onChange={(e) => onFiltersChange({ ...filters, batchId: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={loading.list}
+          >
+            <option value="">全部</option>
+            {batches.map(batch => (
+              <option key={batch.id} value={batch.id}>
+                {batch.name}（{batch.summary.completed}/{batch.summary.total}）
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
     </div>
   );
@@ -17,7 +17,7 @@ export const HistoryStats: React.FC<HistoryStatsProps> = ({ stats }) => {
   return (
     <div className="bg-white rounded-lg shadow p-6">
       <h3 className="text-lg font-medium text-gray-900 mb-4">统计信息</h3>
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
         <div className="text-center">
           <div className="text-2xl font-bold text-blue-600">{stats.total || 0}</div>
           <div className="text-sm text-gray-500">总执行数</div>
@@ -34,6 +34,14 @@ export const HistoryStats: React.FC<HistoryStatsProps> = ({ stats }) => {
           <div className="text-2xl font-bold text-yellow-600">{stats.pending || 0}</div>
           <div className="text-sm text-gray-500">进行中</div>
         </div>
+        <div className="text-center">
+          <div className={`text-2xl font-bold ${stats.overdueExecutions ? 'text-red-600' : 'text-gray-400'}`}>{stats.overdueExecutions || 0}</div>
+          <div className="text-sm text-gray-500">逾期执行</div>
+        </div>
+        <div className="text-center">
+          <div className={`text-2xl font-bold ${stats.overdueSteps ? 'text-red-600' : 'text-gray-400'}`}>{stats.overdueSteps || 0}</div>
+          <div className="text-sm text-gray-500">超时步骤</div>
+        </div>
       </div>
     </div>
   );
@@ -18,6 +18,7 @@ const Navigation: React.FC = () => {
     { path: '/history', name: '历史记录', icon: '📋' },
     { path: '/reviews', name: '复盘管理', icon: '📝' },
     { path: '/users', name: '用户管理', icon: '👥' },
+    { path: '/webhooks', name: 'Webhook', icon: '🔗' },
   ];
 
   return (
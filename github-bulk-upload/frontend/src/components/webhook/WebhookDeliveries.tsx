@@ -0,0 +1,125 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { WebhookDelivery, WebhookDeliveryStatus, webhookService } from '../../services/webhook';
+
+interface WebhookDeliveriesProps {
+  subscriptionId: string;
+  eventLabels: Record<string, string>;
+  // 测试推送后重新加载
+  refreshKey?: unknown;
+}
+
+const STATUS_LABELS: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  PENDING: { label: '等待重试', className: 'bg-yellow-100 text-yellow-800' },
+  SUCCEEDED: { label: '成功', className: 'bg-green-100 text-green-800' },
+  FAILED: { label: '失败', className: 'bg-red-100 text-red-800' }
+};
+
+// 订阅的投递记录：查看每次推送的请求内容和响应，失败或需要补发时可以重放
+const WebhookDeliveries: React.FC<WebhookDeliveriesProps> = ({ subscriptionId, eventLabels, refreshKey }) => {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [status, setStatus] = useState<WebhookDeliveryStatus | ''>('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadDeliveries = useCallback(async () => {
+    try {
+      setDeliveries(await webhookService.getDeliveries(subscriptionId, status || undefined));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '获取投递记录失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [subscriptionId, status]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries, refreshKey]);
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    try {
+      const result = await webhookService.replayDelivery(delivery.id);
+      if (result.status === 'SUCCEEDED') {
+        toast.success('重放成功');
+      } else {
+        toast.error(result.error || '重放失败');
+      }
+      await loadDeliveries();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '重放失败');
+    }
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-gray-500">投递记录</p>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as WebhookDeliveryStatus | '')}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+        >
+          <option value="">全部状态</option>
+          {Object.entries(STATUS_LABELS).map(([value, { label }]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">加载中...</p>
+      ) : deliveries.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无投递记录</p>
+      ) : (
+        <ul className="space-y-1">
+          {deliveries.map(delivery => (
+            <li key={delivery.id} className="text-sm">
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                  className="flex items-center space-x-2 text-left text-gray-700 hover:text-gray-900"
+                >
+                  <span className={`px-2 py-0.5 rounded text-xs ${STATUS_LABELS[delivery.status].className}`}>
+                    {STATUS_LABELS[delivery.status].label}
+                  </span>
+                  <span>{eventLabels[delivery.eventType] || delivery.eventType}</span>
+                  <span className="text-xs text-gray-400">{new Date(delivery.createdAt).toLocaleString('zh-CN')}</span>
+                  {delivery.replayOfId && <span className="text-xs text-gray-400">重放</span>}
+                </button>
+                <div className="flex items-center space-x-3 text-xs">
+                  <span className="text-gray-500">
+                    {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : ''} · 尝试 {delivery.attempts} 次
+                  </span>
+                  <button onClick={() => handleReplay(delivery)} className="text-indigo-600 hover:text-indigo-500">
+                    重放
+                  </button>
+                </div>
+              </div>
+
+              {expandedId === delivery.id && (
+                <div className="mt-2 ml-2 space-y-2 text-xs">
+                  {delivery.error && <p className="text-red-600">{delivery.error}</p>}
+                  {delivery.status === 'PENDING' && delivery.nextAttemptAt && (
+                    <p className="text-gray-500">下次重试：{new Date(delivery.nextAttemptAt).toLocaleString('zh-CN')}</p>
+                  )}
+                  <div>
+                    <p className="text-gray-500 mb-1">请求内容</p>
+                    <pre className="p-2 bg-gray-50 rounded overflow-x-auto">{JSON.stringify(delivery.payload, null, 2)}</pre>
+                  </div>
+                  {delivery.responseBody && (
+                    <div>
+                      <p className="text-gray-500 mb-1">响应内容</p>
+                      <pre className="p-2 bg-gray-50 rounded overflow-x-auto whitespace-pre-wrap">{delivery.responseBody}</pre>
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WebhookDeliveries;
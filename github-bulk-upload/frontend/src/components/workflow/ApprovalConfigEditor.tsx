@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ApprovalConfig } from '../../types/workflow';
+import { APPROVER_ROLE_LABELS } from '../../utils/approvals';
+
+interface ApprovalConfigEditorProps {
+  config: ApprovalConfig | null;
+  onChange: (config: ApprovalConfig) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+// 审批步骤的审批人、通过规则和驳回后退回的步骤
+const ApprovalConfigEditor: React.FC<ApprovalConfigEditorProps> = ({ config, onChange }) => {
+  const current: ApprovalConfig = config || { approvers: {}, quorum: 'any' };
+  const quorumMode = typeof current.quorum === 'number' ? 'count' : current.quorum;
+  // 审批人名单在输入框失去焦点时再拆分，避免输入分隔符时被立即吞掉
+  const [usersText, setUsersText] = useState((current.approvers.users || []).join(', '));
+
+  const update = (updated: Partial<ApprovalConfig>) => {
+    onChange({ ...current, ...updated });
+  };
+
+  const commitUsers = () => {
+    const users = usersText.split(/[,，\s]+/).map(item => item.trim()).filter(Boolean);
+    update({ approvers: { ...current.approvers, users: users.length > 0 ? users : undefined } });
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3 space-y-3">
+      <div className="text-sm font-medium text-gray-700">审批设置</div>
+      {!current.approvers.users?.length && !current.approvers.role && (
+        <p className="text-xs text-red-600">请指定审批人或审批角色</p>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">审批人（邮箱或用户ID，逗号分隔）</label>
+          <input
+            type="text"
+            value={usersText}
+            onChange={(e) => setUsersText(e.target.value)}
+            onBlur={commitUsers}
+            className={inputClassName}
+            placeholder="cio@example.com, risk@example.com"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">审批角色</label>
+          <select
+            value={current.approvers.role || ''}
+            onChange={(e) => update({ approvers: { ...current.approvers, role: e.target.value || undefined } })}
+            className={inputClassName}
+          >
+            <option value="">不按角色</option>
+            {Object.entries(APPROVER_ROLE_LABELS).map(([role, label]) => (
+              <option key={role} value={role}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">通过规则</label>
+          <div className="flex space-x-2">
+            <select
+              value={quorumMode}
+              onChange={(e) => update({ quorum: e.target.value === 'count' ? 2 : e.target.value as 'any' | 'all' })}
+              className={inputClassName}
+            >
+              <option value="any">任一审批人同意</option>
+              <option value="all">全部审批人同意</option>
+              <option value="count">指定同意人数</option>
+            </select>
+            {typeof current.quorum === 'number' && (
+              <input
+                type="number"
+                min={1}
+                value={current.quorum}
+                onChange={(e) => update({ quorum: Math.max(parseInt(e.target.value, 10) || 1, 1) })}
+                className={`${inputClassName} w-24`}
+              />
+            )}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">驳回后退回步骤（顺序号，留空则重新提交本步骤）</label>
+          <input
+            type="number"
+            min={1}
+            value={current.rejectTo ?? ''}
+            onChange={(e) => update({ rejectTo: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!current.allowSelfApproval}
+          onChange={(e) => update({ allowSelfApproval: e.target.checked })}
+          className="mr-2 rounded border-gray-300 text-indigo-600"
+        />
+        允许执行发起人审批自己的执行
+      </label>
+    </div>
+  );
+};
+
+export default ApprovalConfigEditor;
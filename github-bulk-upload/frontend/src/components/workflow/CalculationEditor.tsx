@@ -0,0 +1,100 @@
+import React from 'react';
+import { CalculationDefinition } from '../../types/workflow';
+
+interface CalculationEditorProps {
+  calculations: CalculationDefinition[];
+  onChange: (calculations: CalculationDefinition[]) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+// 计算步骤的公式编辑器，公式语法由后端在保存时校验
+const CalculationEditor: React.FC<CalculationEditorProps> = ({ calculations, onChange }) => {
+  const updateCalculation = (index: number, updated: Partial<CalculationDefinition>) => {
+    const newCalculations = [...calculations];
+    newCalculations[index] = { ...newCalculations[index], ...updated };
+    onChange(newCalculations);
+  };
+
+  const addCalculation = () => {
+    onChange([...calculations, { key: `calc${calculations.length + 1}`, label: '', formula: '' }]);
+  };
+
+  const removeCalculation = (index: number) => {
+    onChange(calculations.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700">计算公式</span>
+        <button
+          type="button"
+          onClick={addCalculation}
+          className="text-sm text-indigo-600 hover:text-indigo-500"
+        >
+          + 添加公式
+        </button>
+      </div>
+
+      <p className="mb-2 text-xs text-gray-500">
+        可引用本步骤的表单字段和前面的计算结果（如 eps * targetPE），其他步骤的数据（如 step1.revenue）和执行变量（如 vars.riskFreeRate）
+      </p>
+
+      <div className="space-y-2">
+        {calculations.map((calculation, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <input
+              type="text"
+              value={calculation.label}
+              onChange={(e) => updateCalculation(index, { label: e.target.value })}
+              className={`${inputClassName} col-span-2`}
+              placeholder="名称"
+            />
+            <input
+              type="text"
+              value={calculation.key}
+              onChange={(e) => updateCalculation(index, { key: e.target.value.replace(/[^A-Za-z0-9_]/g, '') })}
+              className={`${inputClassName} col-span-2 font-mono`}
+              placeholder="标识"
+            />
+            <input
+              type="text"
+              value={calculation.formula}
+              onChange={(e) => updateCalculation(index, { formula: e.target.value })}
+              className={`${inputClassName} col-span-5 font-mono`}
+              placeholder="公式，例如 eps * targetPE"
+            />
+            <input
+              type="text"
+              value={calculation.unit || ''}
+              onChange={(e) => updateCalculation(index, { unit: e.target.value || undefined })}
+              className={`${inputClassName} col-span-1`}
+              placeholder="单位"
+            />
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={calculation.precision ?? ''}
+              onChange={(e) => updateCalculation(index, { precision: e.target.value === '' ? undefined : Number(e.target.value) })}
+              className={`${inputClassName} col-span-1`}
+              placeholder="小数"
+              title="保留小数位数"
+            />
+            <button
+              type="button"
+              onClick={() => removeCalculation(index)}
+              className="col-span-1 text-red-400 hover:text-red-600 text-sm"
+              title="删除公式"
+            >
+              删除
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CalculationEditor;
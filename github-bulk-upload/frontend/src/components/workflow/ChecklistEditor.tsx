@@ -0,0 +1,88 @@
+import React from 'react';
+import { ChecklistRule } from '../../types/workflow';
+import { ChecklistItemConfig } from '../../utils/checklists';
+
+interface ChecklistEditorProps {
+  items: ChecklistItemConfig[];
+  rule: ChecklistRule;
+  onChange: (items: ChecklistItemConfig[], rule: ChecklistRule) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+// 检查清单步骤的检查项和完成规则；修改标签会使已勾选的记录失效，需要保留时填写标识
+const ChecklistEditor: React.FC<ChecklistEditorProps> = ({ items, rule, onChange }) => {
+  const updateItem = (index: number, updated: Partial<ChecklistItemConfig>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...updated } : item)), rule);
+  };
+
+  const addItem = () => {
+    onChange([...items, { key: '', label: '', required: false }], rule);
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index), rule);
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">检查项</span>
+        <select
+          value={rule}
+          onChange={(e) => onChange(items, e.target.value as ChecklistRule)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+        >
+          <option value="required">勾选必选项后可完成</option>
+          <option value="all">全部勾选后可完成</option>
+        </select>
+      </div>
+      {items.length === 0 && (
+        <p className="text-xs text-gray-500">尚未添加检查项</p>
+      )}
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={item.label}
+            onChange={(e) => updateItem(index, { label: e.target.value })}
+            className={inputClassName}
+            placeholder="检查项，例如 查看最新财报"
+          />
+          <input
+            type="text"
+            value={item.key === item.label ? '' : item.key}
+            onChange={(e) => updateItem(index, { key: e.target.value })}
+            className={`${inputClassName} w-40`}
+            placeholder="标识（可选）"
+          />
+          <label className="flex items-center text-xs text-gray-700 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={item.required}
+              onChange={(e) => updateItem(index, { required: e.target.checked })}
+              className="mr-1 rounded border-gray-300 text-indigo-600"
+            />
+            必选
+          </label>
+          <button
+            type="button"
+            onClick={() => removeItem(index)}
+            className="text-xs text-red-600 hover:text-red-800 whitespace-nowrap"
+          >
+            删除
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={addItem}
+        className="text-sm text-indigo-600 hover:text-indigo-500"
+      >
+        + 添加检查项
+      </button>
+    </div>
+  );
+};
+
+export default ChecklistEditor;
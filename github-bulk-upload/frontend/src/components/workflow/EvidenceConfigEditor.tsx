@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { EvidenceConfig } from '../../types/workflow';
+
+interface EvidenceConfigEditorProps {
+  config: EvidenceConfig | null;
+  onChange: (config: EvidenceConfig | null) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const toCount = (value: string): number | undefined => {
+  const count = parseInt(value, 10);
+  return count > 0 ? count : undefined;
+};
+
+const splitList = (text: string) => text.split(/[,，\s]+/).map(item => item.trim()).filter(Boolean);
+
+// 列表项按标识保留原有的标签，新增的项目只写标识
+const mergeList = <T extends { label?: string }>(
+  tokens: string[],
+  existing: Array<string | T> | undefined,
+  identify: (item: string | T) => string
+) => {
+  const items = tokens.map(token => existing?.find(item => identify(item) === token) ?? token);
+  return items.length > 0 ? items : undefined;
+};
+
+// 证明材料要求：完成步骤前必须上传的附件数量和类型、步骤笔记的最少字数和必须填写的字段
+const EvidenceConfigEditor: React.FC<EvidenceConfigEditorProps> = ({ config, onChange }) => {
+  const current: EvidenceConfig = config || {};
+  // 列表在输入框失去焦点时再拆分，避免输入分隔符时被立即吞掉
+  const [typesText, setTypesText] = useState(
+    (current.attachmentTypes || []).map(item => (typeof item === 'string' ? item : item.type)).join(', ')
+  );
+  const [fieldsText, setFieldsText] = useState(
+    (current.requiredFields || []).map(item => (typeof item === 'string' ? item : item.key)).join(', ')
+  );
+
+  const update = (changes: Partial<EvidenceConfig>) => {
+    const updated = { ...current, ...changes };
+    const isEmpty = !updated.minAttachments && !updated.minNoteLength &&
+      !updated.attachmentTypes?.length && !updated.requiredFields?.length;
+    onChange(isEmpty ? null : updated);
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3 space-y-2">
+      <div className="text-sm font-medium text-gray-700">证明材料要求</div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">最少附件数</label>
+          <input
+            type="number"
+            min={1}
+            value={current.minAttachments ?? ''}
+            onChange={(e) => update({ minAttachments: toCount(e.target.value) })}
+            className={inputClassName}
+            placeholder="不要求"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">步骤笔记最少字数</label>
+          <input
+            type="number"
+            min={1}
+            value={current.minNoteLength ?? ''}
+            onChange={(e) => update({ minNoteLength: toCount(e.target.value) })}
+            className={inputClassName}
+            placeholder="不要求"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">必须上传的附件类型（逗号分隔）</label>
+          <input
+            type="text"
+            value={typesText}
+            onChange={(e) => setTypesText(e.target.value)}
+            onBlur={() => update({
+              attachmentTypes: mergeList(splitList(typesText), current.attachmentTypes, item => (typeof item === 'string' ? item : item.type))
+            })}
+            className={inputClassName}
+            placeholder="pdf, xlsx, image"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">必须填写的字段（字段标识，逗号分隔）</label>
+          <input
+            type="text"
+            value={fieldsText}
+            onChange={(e) => setFieldsText(e.target.value)}
+            onBlur={() => update({
+              requiredFields: mergeList(splitList(fieldsText), current.requiredFields, item => (typeof item === 'string' ? item : item.key))
+            })}
+            className={inputClassName}
+            placeholder="targetPrice, rating"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EvidenceConfigEditor;
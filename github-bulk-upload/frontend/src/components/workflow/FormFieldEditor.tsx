@@ -0,0 +1,134 @@
+import React from 'react';
+import { FormField, FormFieldType } from '../../types/workflow';
+import { FORM_FIELD_TYPE_LABELS } from '../../utils/formSchema';
+
+interface FormFieldEditorProps {
+  fields: FormField[];
+  onChange: (fields: FormField[]) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+// 支持取值范围的字段类型：数值类为大小，日期为最早/最晚日期，文本为长度
+const RANGE_TYPES: FormFieldType[] = ['number', 'currency', 'percentage', 'date', 'text', 'textarea'];
+
+// 输入步骤的表单字段编辑器
+const FormFieldEditor: React.FC<FormFieldEditorProps> = ({ fields, onChange }) => {
+  const updateField = (index: number, updated: Partial<FormField>) => {
+    const newFields = [...fields];
+    newFields[index] = { ...newFields[index], ...updated };
+    onChange(newFields);
+  };
+
+  const addField = () => {
+    onChange([...fields, { key: `field${fields.length + 1}`, label: '', type: 'text' }]);
+  };
+
+  const removeField = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index));
+  };
+
+  const parseRange = (type: FormFieldType, value: string) => {
+    if (value === '') return undefined;
+    return type === 'date' ? value : Number(value);
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700">表单字段</span>
+        <button
+          type="button"
+          onClick={addField}
+          className="text-sm text-indigo-600 hover:text-indigo-500"
+        >
+          + 添加字段
+        </button>
+      </div>
+
+      {fields.length === 0 && (
+        <p className="text-xs text-gray-500">还没有定义字段，执行时将只记录笔记</p>
+      )}
+
+      <div className="space-y-2">
+        {fields.map((field, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <input
+              type="text"
+              value={field.label}
+              onChange={(e) => updateField(index, { label: e.target.value })}
+              className={`${inputClassName} col-span-3`}
+              placeholder="字段名称"
+            />
+            <input
+              type="text"
+              value={field.key}
+              onChange={(e) => updateField(index, { key: e.target.value.replace(/[^A-Za-z0-9_]/g, '') })}
+              className={`${inputClassName} col-span-2 font-mono`}
+              placeholder="标识"
+              title="字段标识，用于分支条件和数据引用"
+            />
+            <select
+              value={field.type}
+              onChange={(e) => updateField(index, { type: e.target.value as FormFieldType, min: undefined, max: undefined })}
+              className={`${inputClassName} col-span-2`}
+            >
+              {Object.entries(FORM_FIELD_TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+
+            {field.type === 'select' ? (
+              <input
+                type="text"
+                value={(field.options || []).join(',')}
+                onChange={(e) => updateField(index, { options: e.target.value.split(/[,，]/).map(option => option.trim()).filter(Boolean) })}
+                className={`${inputClassName} col-span-3`}
+                placeholder="选项，用逗号分隔"
+              />
+            ) : RANGE_TYPES.includes(field.type) ? (
+              <div className="col-span-3 flex space-x-1">
+                <input
+                  type={field.type === 'date' ? 'date' : 'number'}
+                  value={field.min ?? ''}
+                  onChange={(e) => updateField(index, { min: parseRange(field.type, e.target.value) })}
+                  className={inputClassName}
+                  placeholder="最小"
+                />
+                <input
+                  type={field.type === 'date' ? 'date' : 'number'}
+                  value={field.max ?? ''}
+                  onChange={(e) => updateField(index, { max: parseRange(field.type, e.target.value) })}
+                  className={inputClassName}
+                  placeholder="最大"
+                />
+              </div>
+            ) : (
+              <div className="col-span-3" />
+            )}
+
+            <label className="col-span-1 flex items-center text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!field.required}
+                onChange={(e) => updateField(index, { required: e.target.checked })}
+                className="mr-1 rounded border-gray-300 text-indigo-600"
+              />
+              必填
+            </label>
+            <button
+              type="button"
+              onClick={() => removeField(index)}
+              className="col-span-1 text-red-400 hover:text-red-600 text-sm"
+              title="删除字段"
+            >
+              删除
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FormFieldEditor;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { NotificationChannel, NotificationConfig } from '../../types/workflow';
+import { NOTIFICATION_CHANNEL_LABELS } from '../../utils/notifications';
+
+interface NotificationConfigEditorProps {
+  config: NotificationConfig | null;
+  onChange: (config: NotificationConfig) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+// 通知步骤的发送渠道和消息模板，前置步骤完成后自动发送
+const NotificationConfigEditor: React.FC<NotificationConfigEditorProps> = ({ config, onChange }) => {
+  const current: NotificationConfig = config || { template: '' };
+  const channels = current.channels || [];
+
+  const toggleChannel = (channel: NotificationChannel, enabled: boolean) => {
+    const updated = enabled ? [...channels, channel] : channels.filter(item => item !== channel);
+    onChange({ ...current, channels: updated.length > 0 ? updated : undefined });
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3 space-y-3">
+      <div className="text-sm font-medium text-gray-700">通知设置</div>
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+        <span className="text-xs text-gray-600">发送渠道（不选则发送到全部已配置渠道）</span>
+        {(Object.keys(NOTIFICATION_CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+          <label key={channel} className="flex items-center">
+            <input
+              type="checkbox"
+              checked={channels.includes(channel)}
+              onChange={(e) => toggleChannel(channel, e.target.checked)}
+              className="mr-1 rounded border-gray-300 text-indigo-600"
+            />
+            {NOTIFICATION_CHANNEL_LABELS[channel]}
+          </label>
+        ))}
+      </div>
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">标题（留空使用“工作流名称：步骤名称”）</label>
+        <input
+          type="text"
+          value={current.title || ''}
+          onChange={(e) => onChange({ ...current, title: e.target.value || undefined })}
+          className={inputClassName}
+          placeholder="{{workflow.name}}：{{ticker}} 交易通知"
+        />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">消息模板</label>
+        <textarea
+          value={current.template}
+          onChange={(e) => onChange({ ...current, template: e.target.value })}
+          className={`${inputClassName} font-mono`}
+          placeholder="{{ticker}} 决策：{{decision}}，目标价 {{targetPrice}}"
+          rows={3}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          {'可引用 {{workflow.name}}、{{execution.title}}、{{variables.名称}}、{{steps.顺序号.字段}}，或直接写字段名取最近步骤的数据'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationConfigEditor;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { SlaConfig } from '../../types/workflow';
+
+interface SlaConfigEditorProps {
+  config: SlaConfig | null;
+  // 步骤的预估时间，未设置时限时作为默认时限
+  estimatedTime?: number | null;
+  onChange: (config: SlaConfig | null) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const toMinutes = (value: string): number | undefined => {
+  const minutes = parseInt(value, 10);
+  return minutes > 0 ? minutes : undefined;
+};
+
+// 步骤时限：步骤开始后超过时限先提醒执行发起人，再超过升级等待时间仍未完成时通知管理角色
+const SlaConfigEditor: React.FC<SlaConfigEditorProps> = ({ config, estimatedTime, onChange }) => {
+  const current: SlaConfig = config || {};
+
+  const update = (changes: Partial<SlaConfig>) => {
+    const updated = { ...current, ...changes };
+    const isEmpty = !updated.minutes && !updated.escalateAfter && !updated.managerRole;
+    onChange(isEmpty ? null : updated);
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3 space-y-2">
+      <div className="text-sm font-medium text-gray-700">时限与超时升级</div>
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">时限（分钟）</label>
+          <input
+            type="number"
+            min={1}
+            value={current.minutes ?? ''}
+            onChange={(e) => update({ minutes: toMinutes(e.target.value) })}
+            className={inputClassName}
+            placeholder={estimatedTime ? `预估时间 ${estimatedTime}` : '不限'}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">超时后升级（分钟）</label>
+          <input
+            type="number"
+            min={1}
+            value={current.escalateAfter ?? ''}
+            onChange={(e) => update({ escalateAfter: toMinutes(e.target.value) })}
+            className={inputClassName}
+            placeholder="同时限"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">升级通知角色</label>
+          <select
+            value={current.managerRole || ''}
+            onChange={(e) => update({ managerRole: (e.target.value || undefined) as SlaConfig['managerRole'] })}
+            className={inputClassName}
+          >
+            <option value="">管理员（默认）</option>
+            <option value="SUPER_ADMIN">超级管理员</option>
+            <option value="USER">普通用户</option>
+          </select>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        步骤开始后超过时限提醒执行发起人，再超过升级时间仍未完成时通知升级角色的用户
+      </p>
+    </div>
+  );
+};
+
+export default SlaConfigEditor;
@@ -1,5 +1,23 @@
 import React from 'react';
-import { WorkflowStep, StepType } from '../../types/workflow';
+import { WorkflowStep, StepType, ChecklistRule, EvidenceConfig, FormField, CalculationDefinition, ValuationConfig, PropertyModelConfig, ApprovalConfig, NotificationConfig, SubworkflowConfig, SlaConfig, WorkflowLintIssue } from '../../types/workflow';
+import { parseFormFields } from '../../utils/formSchema';
+import { parseValuationConfig } from '../../utils/valuation';
+import { parsePropertyModelConfig } from '../../utils/propertyFinance';
+import { parseApprovalConfig } from '../../utils/approvals';
+import { parseNotificationConfig } from '../../utils/notifications';
+import { parseSubworkflowConfig } from '../../utils/subworkflows';
+import { parseSlaConfig } from '../../utils/sla';
+import { parseEvidenceConfig } from '../../utils/evidence';
+import FormFieldEditor from './FormFieldEditor';
+import CalculationEditor from './CalculationEditor';
+import ValuationConfigEditor from './ValuationConfigEditor';
+import ApprovalConfigEditor from './ApprovalConfigEditor';
+import NotificationConfigEditor from './NotificationConfigEditor';
+import SubworkflowConfigEditor from './SubworkflowConfigEditor';
+import SlaConfigEditor from './SlaConfigEditor';
+import ChecklistEditor from './ChecklistEditor';
+import EvidenceConfigEditor from './EvidenceConfigEditor';
+import { ChecklistItemConfig } from '../../utils/checklists';
 
 interface StepComponentProps {
   step: WorkflowStep;
@@ -10,6 +28,8 @@ interface StepComponentProps {
   onMoveDown: (index: number) => void;
   canMoveUp: boolean;
   canMoveDown: boolean;
+  // 工作流定义检查中属于该步骤的问题
+  issues?: WorkflowLintIssue[];
 }
 
 const StepComponent: React.FC<StepComponentProps> = ({
@@ -21,6 +41,7 @@ const StepComponent: React.FC<StepComponentProps> = ({
   onMoveDown,
   canMoveUp,
   canMoveDown,
+  issues = [],
 }) => {
   const getStepTypeIcon = (stepType: StepType) => {
     switch (stepType) {
@@ -42,6 +63,30 @@ const StepComponent: React.FC<StepComponentProps> = ({
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
         );
+      case StepType.APPROVAL:
+        return (
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+          </svg>
+        );
+      case StepType.SUBWORKFLOW:
+        return (
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM14 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4zM7 10v4a3 3 0 003 3h4" />
+          </svg>
+        );
+      case StepType.NOTIFICATION:
+        return (
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+          </svg>
+        );
+      case StepType.CALCULATION:
+        return (
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+          </svg>
+        );
       default:
         return null;
     }
@@ -55,13 +100,87 @@ const StepComponent: React.FC<StepComponentProps> = ({
         return 'text-blue-600 bg-blue-100';
       case StepType.DECISION:
         return 'text-purple-600 bg-purple-100';
+      case StepType.APPROVAL:
+        return 'text-red-600 bg-red-100';
+      case StepType.NOTIFICATION:
+        return 'text-teal-600 bg-teal-100';
+      case StepType.SUBWORKFLOW:
+        return 'text-pink-600 bg-pink-100';
+      case StepType.CALCULATION:
+        return 'text-yellow-600 bg-yellow-100';
       default:
         return 'text-gray-600 bg-gray-100';
     }
   };
 
+  const updateFormFields = (fields: FormField[]) => {
+    onUpdate(index, { metadata: { ...step.metadata, fields } });
+  };
+
+  const updateCalculations = (calculations: CalculationDefinition[]) => {
+    onUpdate(index, { metadata: { ...step.metadata, calculations } });
+  };
+
+  // 修改估值配置时保留已有的默认输入，停用时移除整个配置
+  const updateValuationConfig = (config: ValuationConfig | null) => {
+    const { valuation, ...metadata } = step.metadata || {};
+    onUpdate(index, { metadata: config ? { ...metadata, valuation: { ...valuation, ...config } } : metadata });
+  };
+
+  const updatePropertyModelConfig = (config: PropertyModelConfig | null) => {
+    const { propertyModel, ...metadata } = step.metadata || {};
+    onUpdate(index, { metadata: config ? { ...metadata, propertyModel: { ...propertyModel, ...config } } : metadata });
+  };
+
+  const updateApprovalConfig = (approval: ApprovalConfig) => {
+    onUpdate(index, { metadata: { ...step.metadata, approval } });
+  };
+
+  const updateNotificationConfig = (notification: NotificationConfig) => {
+    onUpdate(index, { metadata: { ...step.metadata, notification } });
+  };
+
+  const updateSubworkflowConfig = (subworkflow: SubworkflowConfig) => {
+    onUpdate(index, { metadata: { ...step.metadata, subworkflow } });
+  };
+
+  const updateEvidenceConfig = (config: EvidenceConfig | null) => {
+    const { evidence, ...metadata } = step.metadata || {};
+    onUpdate(index, { metadata: config ? { ...metadata, evidence: config } : metadata });
+  };
+
+  // 标识与标签相同时不单独保存，未勾选必选时省略 required
+  const updateChecklist = (items: ChecklistItemConfig[], checklistRule: ChecklistRule) => {
+    const checklist = items.map(item => ({
+      label: item.label,
+      ...(item.key && item.key !== item.label && { key: item.key }),
+      ...(item.required && { required: true })
+    }));
+    onUpdate(index, { metadata: { ...step.metadata, checklist, checklistRule } });
+  };
+
+  const updateSlaConfig = (config: SlaConfig | null) => {
+    const { sla, ...metadata } = step.metadata || {};
+    onUpdate(index, { metadata: config ? { ...metadata, sla: config } : metadata });
+  };
+
+  const propertyModelConfig = parsePropertyModelConfig(step.metadata);
+  // 编辑时保留尚未填写标签的检查项，执行时才会忽略
+  const checklistItems: ChecklistItemConfig[] = Array.isArray(step.metadata?.checklist)
+    ? step.metadata!.checklist.map((raw: any) => typeof raw === 'string'
+      ? { key: raw, label: raw, required: false }
+      : { key: raw?.key || raw?.label || '', label: raw?.label || '', required: raw?.required === true })
+    : [];
+
+  // 只保留带公式的计算定义，旧数据中只有名称的项不可编辑
+  const calculations: CalculationDefinition[] = Array.isArray(step.metadata?.calculations)
+    ? step.metadata!.calculations.filter((calculation: any) => calculation && typeof calculation === 'object')
+    : [];
+
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+
   return (
-    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+    <div className={`bg-white border rounded-lg p-4 shadow-sm ${hasErrors ? 'border-red-300' : 'border-gray-200'}`}>
       <div className="flex items-start justify-between mb-3">
         <div className="flex items-center space-x-3">
           <div className={`p-2 rounded-full ${getStepTypeColor(step.stepType)}`}>
@@ -152,6 +271,10 @@ const StepComponent: React.FC<StepComponentProps> = ({
             <option value={StepType.CHECKLIST}>检查清单</option>
             <option value={StepType.INPUT}>输入信息</option>
             <option value={StepType.DECISION}>决策判断</option>
+            <option value={StepType.APPROVAL}>审批</option>
+            <option value={StepType.CALCULATION}>计算分析</option>
+            <option value={StepType.NOTIFICATION}>发送通知</option>
+            <option value={StepType.SUBWORKFLOW}>子流程</option>
           </select>
         </div>
         
@@ -167,6 +290,117 @@ const StepComponent: React.FC<StepComponentProps> = ({
           </label>
         </div>
       </div>
+
+      {/* 检查清单步骤的检查项 */}
+      {step.stepType === StepType.CHECKLIST && (
+        <ChecklistEditor
+          items={checklistItems}
+          rule={step.metadata?.checklistRule === 'all' ? 'all' : 'required'}
+          onChange={updateChecklist}
+        />
+      )}
+
+      {/* 输入和计算步骤的表单字段 */}
+      {(step.stepType === StepType.INPUT || step.stepType === StepType.CALCULATION) && (
+        <FormFieldEditor
+          fields={parseFormFields(step.metadata)}
+          onChange={updateFormFields}
+        />
+      )}
+
+      {/* 计算步骤的公式 */}
+      {step.stepType === StepType.CALCULATION && (
+        <CalculationEditor
+          calculations={calculations}
+          onChange={updateCalculations}
+        />
+      )}
+
+      {/* 计算步骤的估值模型 */}
+      {step.stepType === StepType.CALCULATION && (
+        <ValuationConfigEditor
+          config={parseValuationConfig(step.metadata)}
+          onChange={updateValuationConfig}
+        />
+      )}
+
+      {/* 审批步骤的审批人和通过规则 */}
+      {step.stepType === StepType.APPROVAL && (
+        <ApprovalConfigEditor
+          config={parseApprovalConfig(step.metadata)}
+          onChange={updateApprovalConfig}
+        />
+      )}
+
+      {/* 通知步骤的渠道和消息模板 */}
+      {step.stepType === StepType.NOTIFICATION && (
+        <NotificationConfigEditor
+          config={parseNotificationConfig(step.metadata)}
+          onChange={updateNotificationConfig}
+        />
+      )}
+
+      {/* 子流程步骤引用的工作流和数据映射 */}
+      {step.stepType === StepType.SUBWORKFLOW && (
+        <SubworkflowConfigEditor
+          config={parseSubworkflowConfig(step.metadata)}
+          onChange={updateSubworkflowConfig}
+        />
+      )}
+
+      {/* 计算步骤的房地产投资测算 */}
+      {step.stepType === StepType.CALCULATION && (
+        <div className="mt-3 border-t border-gray-100 pt-3 flex items-center space-x-6">
+          <label className="flex items-center text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!propertyModelConfig}
+              onChange={(e) => updatePropertyModelConfig(e.target.checked ? { required: false } : null)}
+              className="mr-2 rounded border-gray-300 text-indigo-600"
+            />
+            启用房地产投资测算
+          </label>
+          {propertyModelConfig && (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!propertyModelConfig.required}
+                onChange={(e) => updatePropertyModelConfig({ required: e.target.checked })}
+                className="mr-1 rounded border-gray-300 text-indigo-600"
+              />
+              完成步骤前必须保存测算
+            </label>
+          )}
+        </div>
+      )}
+
+      {/* 证明材料要求，自动完成的步骤不检查 */}
+      {![StepType.NOTIFICATION, StepType.SUBWORKFLOW, StepType.APPROVAL].includes(step.stepType) && (
+        <EvidenceConfigEditor
+          config={parseEvidenceConfig(step.metadata)}
+          onChange={updateEvidenceConfig}
+        />
+      )}
+
+      {/* 步骤时限，通知步骤自动完成不计时 */}
+      {step.stepType !== StepType.NOTIFICATION && (
+        <SlaConfigEditor
+          config={parseSlaConfig(step.metadata)}
+          estimatedTime={step.estimatedTime}
+          onChange={updateSlaConfig}
+        />
+      )}
+
+      {/* 工作流定义检查发现的问题 */}
+      {issues.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {issues.map((issue, i) => (
+            <li key={i} className={`text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}>
+              {issue.severity === 'error' ? '错误' : '警告'}：{issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
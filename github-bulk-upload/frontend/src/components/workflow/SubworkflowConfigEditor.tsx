@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../store/store';
+import { fetchUserWorkflows } from '../../store/workflowSlice';
+import { SubworkflowConfig } from '../../types/workflow';
+import { formatMapping, parseMapping } from '../../utils/subworkflows';
+
+interface SubworkflowConfigEditorProps {
+  config: SubworkflowConfig | null;
+  onChange: (config: SubworkflowConfig) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+// 子流程步骤引用的工作流，以及父子执行之间的数据映射
+const SubworkflowConfigEditor: React.FC<SubworkflowConfigEditorProps> = ({ config, onChange }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { workflows, currentWorkflow } = useSelector((state: RootState) => state.workflow);
+  const current: SubworkflowConfig = config || { workflowId: '' };
+  // 映射在输入框失去焦点时再解析，避免输入过程中不完整的行被丢弃
+  const [inputsText, setInputsText] = useState(formatMapping(current.inputs));
+  const [outputsText, setOutputsText] = useState(formatMapping(current.outputs));
+
+  useEffect(() => {
+    if (workflows.length === 0) {
+      dispatch(fetchUserWorkflows());
+    }
+  }, [dispatch, workflows.length]);
+
+  // 不能引用正在编辑的工作流本身
+  const candidates = workflows.filter(workflow => workflow.id !== currentWorkflow?.id);
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3 space-y-3">
+      <div className="text-sm font-medium text-gray-700">子流程设置</div>
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">引用的工作流</label>
+        <select
+          value={current.workflowId}
+          onChange={(e) => onChange({ ...current, workflowId: e.target.value })}
+          className={inputClassName}
+        >
+          <option value="">请选择工作流</option>
+          {candidates.map(workflow => (
+            <option key={workflow.id} value={workflow.id}>{workflow.name}</option>
+          ))}
+        </select>
+        {!current.workflowId && (
+          <p className="mt-1 text-xs text-red-600">请选择子流程引用的工作流</p>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">传入子流程（子流程变量 = 本流程数据路径）</label>
+          <textarea
+            value={inputsText}
+            onChange={(e) => setInputsText(e.target.value)}
+            onBlur={() => onChange({ ...current, inputs: parseMapping(inputsText) })}
+            className={`${inputClassName} font-mono`}
+            placeholder="ticker = ticker"
+            rows={3}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">带回本步骤（字段 = 子流程数据路径）</label>
+          <textarea
+            value={outputsText}
+            onChange={(e) => setOutputsText(e.target.value)}
+            onBlur={() => onChange({ ...current, outputs: parseMapping(outputsText) })}
+            className={`${inputClassName} font-mono`}
+            placeholder="riskLevel = steps.2.riskLevel"
+            rows={3}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        子流程在前置步骤完成后自动启动，子流程完成后本步骤自动完成；未填写带回字段时合并子流程各步骤的全部数据
+      </p>
+    </div>
+  );
+};
+
+export default SubworkflowConfigEditor;
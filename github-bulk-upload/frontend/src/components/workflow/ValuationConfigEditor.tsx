@@ -0,0 +1,63 @@
+import React from 'react';
+import { ValuationConfig, ValuationMethod } from '../../types/workflow';
+import { VALUATION_METHOD_LABELS } from '../../utils/valuation';
+
+interface ValuationConfigEditorProps {
+  config: ValuationConfig | null;
+  onChange: (config: ValuationConfig | null) => void;
+}
+
+// 计算步骤的估值模型配置，执行时在步骤中编辑DCF和可比公司数据
+const ValuationConfigEditor: React.FC<ValuationConfigEditorProps> = ({ config, onChange }) => {
+  const toggleMethod = (method: ValuationMethod, enabled: boolean) => {
+    if (!config) return;
+
+    const methods = enabled
+      ? [...config.methods, method]
+      : config.methods.filter(item => item !== method);
+    if (methods.length > 0) {
+      onChange({ ...config, methods });
+    }
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3">
+      <label className="flex items-center text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!config}
+          onChange={(e) => onChange(e.target.checked ? { methods: ['dcf', 'multiples'], required: false } : null)}
+          className="mr-2 rounded border-gray-300 text-indigo-600"
+        />
+        启用估值模型
+      </label>
+
+      {config && (
+        <div className="mt-2 ml-6 flex flex-wrap items-center gap-4 text-sm text-gray-700">
+          {(Object.keys(VALUATION_METHOD_LABELS) as ValuationMethod[]).map(method => (
+            <label key={method} className="flex items-center">
+              <input
+                type="checkbox"
+                checked={config.methods.includes(method)}
+                onChange={(e) => toggleMethod(method, e.target.checked)}
+                className="mr-1 rounded border-gray-300 text-indigo-600"
+              />
+              {VALUATION_METHOD_LABELS[method]}
+            </label>
+          ))}
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={!!config.required}
+              onChange={(e) => onChange({ ...config, required: e.target.checked })}
+              className="mr-1 rounded border-gray-300 text-indigo-600"
+            />
+            完成步骤前必须保存估值
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValuationConfigEditor;
@@ -1,10 +1,13 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { useDispatch } from 'react-redux';
 import { AppDispatch } from '../../store/store';
 import { createWorkflow, updateWorkflow } from '../../store/workflowSlice';
-import { CreateWorkflowData, Workflow, WorkflowStep, StepType } from '../../types/workflow';
+import { CreateWorkflowData, ExecutionParameterDefinition, Workflow, WorkflowStep, StepType, WorkflowValidationResult } from '../../types/workflow';
+import { workflowService } from '../../services/workflow';
+import { parseParameterDefinitions } from '../../utils/parameters';
 import StepComponent from './StepComponent';
+import FormFieldEditor from './FormFieldEditor';
 
 interface WorkflowBuilderProps {
   workflow?: Workflow;
@@ -53,6 +56,55 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({
     ]
   );
 
+  // 执行参数（如股票代码、市场），启动执行时填写，步骤名称和描述中可以用 {{参数标识}} 引用
+  const [parameters, setParameters] = useState<ExecutionParameterDefinition[]>(
+    parseParameterDefinitions(workflow?.metadata)
+  );
+  const [titleTemplate, setTitleTemplate] = useState<string>(workflow?.metadata?.titleTemplate || '');
+
+  // 工作流定义检查结果，修改步骤后失效
+  const [validation, setValidation] = useState<WorkflowValidationResult | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+
+  useEffect(() => {
+    setValidation(null);
+  }, [steps]);
+
+  // 检查编辑器中的步骤（依赖循环、无效引用、分支条件等），发布时会执行同样的检查
+  const validateSteps = async () => {
+    if (!workflow) return;
+
+    setIsValidating(true);
+    try {
+      const response = await workflowService.validateWorkflow(workflow.id, steps.map((step, index) => ({
+        id: step.id || undefined,
+        name: step.name,
+        order: index + 1,
+        isRequired: step.isRequired,
+        stepType: step.stepType,
+        dependencies: step.dependencies,
+        conditions: step.conditions,
+        metadata: step.metadata,
+      })));
+      setValidation(response.data);
+    } catch (error) {
+      console.error('检查工作流失败:', error);
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  // 某个步骤的检查问题，未保存的步骤按位置对应
+  const issuesFor = (step: WorkflowStep, index: number) =>
+    validation
+      ? [...validation.errors, ...validation.warnings].filter(issue => issue.stepId === (step.id || `#${index + 1}`))
+      : [];
+
+  // 不属于任何步骤的问题
+  const workflowIssues = validation
+    ? [...validation.errors, ...validation.warnings].filter(issue => !issue.stepId)
+    : [];
+
   // 添加新步骤
   const addStep = () => {
     const newStep: WorkflowStep = {
@@ -125,6 +177,11 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({
     const workflowData: CreateWorkflowData = {
       name: formData.name,
       description: formData.description,
+      metadata: {
+        ...workflow?.metadata,
+        parameters,
+        titleTemplate: titleTemplate.trim(),
+      },
       steps: validSteps.map((step, index) => ({
         name: step.name,
         description: step.description,
@@ -205,22 +262,69 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({
             </div>
           </div>
 
+          {/* 执行参数 */}
+          <div className="mb-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">执行参数</h3>
+            <p className="text-sm text-gray-500 mb-3">
+              启动执行时填写，例如股票代码、市场、投资期限；步骤名称、描述和通知模板中可以用 {'{{参数标识}}'} 引用
+            </p>
+            <FormFieldEditor fields={parameters} onChange={setParameters} />
+            {parameters.length > 0 && (
+              <div className="mt-3">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  执行标题模板
+                </label>
+                <input
+                  type="text"
+                  value={titleTemplate}
+                  onChange={(e) => setTitleTemplate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="留空时为 工作流名称 · 参数值，例如 {{workflow.name}} - {{ticker}}"
+                />
+              </div>
+            )}
+          </div>
+
           {/* 步骤配置 */}
           <div className="mb-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-medium text-gray-900">流程步骤</h3>
-              <button
-                type="button"
-                onClick={addStep}
-                className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-              >
-                <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                </svg>
-                添加步骤
-              </button>
+              <div className="flex items-center space-x-2">
+                {isEditing && (
+                  <button
+                    type="button"
+                    onClick={validateSteps}
+                    disabled={isValidating}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                  >
+                    {isValidating ? '检查中...' : '检查流程'}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={addStep}
+                  className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                  </svg>
+                  添加步骤
+                </button>
+              </div>
             </div>
 
+            {/* 工作流定义检查结果 */}
+            {validation && (
+              <div className={`mb-4 rounded-md p-3 text-sm ${validation.valid ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                {validation.valid
+                  ? `检查通过${validation.warnings.length > 0 ? `，有 ${validation.warnings.length} 个警告` : ''}`
+                  : `发现 ${validation.errors.length} 个错误，修正后才能发布`}
+                {workflowIssues.map((issue, i) => (
+                  <p key={i} className="mt-1 text-xs">{issue.message}</p>
+                ))}
+              </div>
+            )}
+
             <div className="space-y-4">
               {steps.map((step, index) => (
                 <StepComponent
@@ -233,6 +337,7 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({
                   onMoveDown={moveStepDown}
                   canMoveUp={index > 0}
                   canMoveDown={index < steps.length - 1}
+                  issues={issuesFor(step, index)}
                 />
               ))}
             </div>
@@ -0,0 +1,273 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { workflowService } from '../../services/workflow';
+import { ExecutionParameterDefinition, ScheduleInput, ScheduleRunStatus, WorkflowSchedule } from '../../types/workflow';
+import { validateFormValues } from '../../utils/formSchema';
+import { getDefaultParameterValues } from '../../utils/parameters';
+import StepForm from '../execution/StepForm';
+
+interface WorkflowSchedulesProps {
+  workflowId: string;
+  // 工作流的执行参数，定期执行时使用计划中填写的值
+  parameters?: ExecutionParameterDefinition[];
+}
+
+const CRON_PRESETS = [
+  { value: '@daily', label: '每天 9:00' },
+  { value: '@weekdays', label: '工作日 9:00' },
+  { value: '@weekly', label: '每周一 9:00' },
+  { value: '@monthly', label: '每月1日 9:00' },
+  { value: '@quarterly', label: '每季度首日 9:00' },
+  { value: '@yearly', label: '每年1月1日 9:00' }
+];
+
+const RUN_STATUS_LABELS: Record<ScheduleRunStatus, { label: string; className: string }> = {
+  PENDING: { label: '处理中', className: 'text-gray-500' },
+  CREATED: { label: '已创建执行', className: 'text-green-600' },
+  SKIPPED: { label: '已跳过', className: 'text-yellow-600' },
+  FAILED: { label: '失败', className: 'text-red-600' }
+};
+
+const emptyForm: ScheduleInput = { name: '', cron: '@weekly', timezone: '', priority: 'MEDIUM', dueAfterHours: null };
+
+// 工作流的定期执行计划：按时间表自动启动执行，可暂停或跳过之后的某次执行
+const WorkflowSchedules: React.FC<WorkflowSchedulesProps> = ({ workflowId, parameters = [] }) => {
+  const [schedules, setSchedules] = useState<WorkflowSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ScheduleInput>(emptyForm);
+  const [parameterValues, setParameterValues] = useState<Record<string, any>>(() => getDefaultParameterValues(parameters));
+  const [parameterErrors, setParameterErrors] = useState<Record<string, string>>({});
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const response = await workflowService.getSchedules(workflowId);
+      setSchedules((response as any).data || []);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '获取定期执行计划失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workflowId]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string): Promise<boolean> => {
+    try {
+      await action();
+      toast.success(successMessage);
+      await loadSchedules();
+      return true;
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '操作失败');
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = validateFormValues(parameters, parameterValues);
+    setParameterErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    const data: ScheduleInput = {
+      name: form.name,
+      cron: form.cron,
+      priority: form.priority,
+      ...(parameters.length > 0 && { variables: parameterValues }),
+      ...(form.timezone && { timezone: form.timezone }),
+      ...(form.dueAfterHours && { dueAfterHours: form.dueAfterHours })
+    };
+    if (await runAction(() => workflowService.createSchedule(workflowId, data), '定期执行计划已创建')) {
+      setForm(emptyForm);
+      setParameterValues(getDefaultParameterValues(parameters));
+      setShowForm(false);
+    }
+  };
+
+  const handleDelete = (schedule: WorkflowSchedule) => {
+    if (window.confirm(`确定要删除计划"${schedule.name}"吗？已创建的执行不受影响。`)) {
+      runAction(() => workflowService.deleteSchedule(workflowId, schedule.id), '计划已删除');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">定期执行</h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-3 py-1 text-sm font-medium text-indigo-600 hover:text-indigo-500"
+        >
+          {showForm ? '取消' : '添加计划'}
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-4 p-4 border border-gray-200 rounded-lg grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            type="text"
+            required
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="计划名称，例如 每周组合回顾"
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <div className="flex space-x-2">
+            <select
+              value={CRON_PRESETS.some(preset => preset.value === form.cron) ? form.cron : ''}
+              onChange={(e) => setForm({ ...form, cron: e.target.value || '0 9 * * 1' })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {CRON_PRESETS.map(preset => (
+                <option key={preset.value} value={preset.value}>{preset.label}</option>
+              ))}
+              <option value="">自定义</option>
+            </select>
+            <input
+              type="text"
+              required
+              value={form.cron}
+              onChange={(e) => setForm({ ...form, cron: e.target.value })}
+              placeholder="分 时 日 月 周"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+            />
+          </div>
+          <input
+            type="text"
+            value={form.timezone}
+            onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+            placeholder="时区（默认使用个人设置），例如 America/New_York"
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <div className="flex space-x-2">
+            <select
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: e.target.value as ScheduleInput['priority'] })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="LOW">低优先级</option>
+              <option value="MEDIUM">中优先级</option>
+              <option value="HIGH">高优先级</option>
+              <option value="URGENT">紧急</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={form.dueAfterHours || ''}
+              onChange={(e) => setForm({ ...form, dueAfterHours: e.target.value ? Number(e.target.value) : null })}
+              placeholder="截止（计划时间后小时数）"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          {parameters.length > 0 && (
+            <div className="md:col-span-2">
+              <p className="text-sm font-medium text-gray-700 mb-2">执行参数</p>
+              <StepForm
+                fields={parameters}
+                values={parameterValues}
+                errors={parameterErrors}
+                onChange={(key, value) => setParameterValues({ ...parameterValues, [key]: value })}
+              />
+            </div>
+          )}
+          <div className="md:col-span-2 flex justify-end">
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md"
+            >
+              创建计划
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">加载中...</p>
+      ) : schedules.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无定期执行计划</p>
+      ) : (
+        <div className="space-y-4">
+          {schedules.map(schedule => (
+            <div key={schedule.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <h4 className="font-medium text-gray-900">{schedule.name}</h4>
+                    <span className={`px-2 py-0.5 rounded text-xs ${schedule.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                      {schedule.isActive ? '运行中' : '已暂停'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    <span className="font-mono">{schedule.cron}</span> · {schedule.timezone}
+                    {schedule.dueAfterHours ? ` · ${schedule.dueAfterHours} 小时内完成` : ''}
+                  </p>
+                </div>
+                <div className="flex space-x-2 text-sm">
+                  <button
+                    onClick={() => runAction(
+                      () => workflowService.setScheduleActive(workflowId, schedule.id, !schedule.isActive),
+                      schedule.isActive ? '计划已暂停' : '计划已恢复'
+                    )}
+                    className="text-indigo-600 hover:text-indigo-500"
+                  >
+                    {schedule.isActive ? '暂停' : '恢复'}
+                  </button>
+                  <button onClick={() => handleDelete(schedule)} className="text-red-600 hover:text-red-500">
+                    删除
+                  </button>
+                </div>
+              </div>
+
+              {schedule.upcoming && schedule.upcoming.length > 0 && (
+                <div className="mt-3">
+                  <p className="text-xs text-gray-500 mb-1">之后的执行时间</p>
+                  <ul className="space-y-1">
+                    {schedule.upcoming.map(occurrence => (
+                      <li key={occurrence.scheduledFor} className="flex items-center justify-between text-sm">
+                        <span className={occurrence.skipped ? 'line-through text-gray-400' : 'text-gray-700'}>
+                          {new Date(occurrence.scheduledFor).toLocaleString('zh-CN')}
+                        </span>
+                        <button
+                          onClick={() => runAction(
+                            () => workflowService.skipOccurrence(workflowId, schedule.id, occurrence.scheduledFor, !occurrence.skipped),
+                            occurrence.skipped ? '已取消跳过' : '已跳过该次执行'
+                          )}
+                          className="text-xs text-gray-500 hover:text-gray-700"
+                        >
+                          {occurrence.skipped ? '取消跳过' : '跳过'}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {schedule.runs && schedule.runs.length > 0 && (
+                <div className="mt-3">
+                  <p className="text-xs text-gray-500 mb-1">最近运行</p>
+                  <ul className="space-y-1">
+                    {schedule.runs.map(run => (
+                      <li key={run.id} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-700">{new Date(run.scheduledFor).toLocaleString('zh-CN')}</span>
+                        <span className={RUN_STATUS_LABELS[run.status].className} title={run.error || undefined}>
+                          {RUN_STATUS_LABELS[run.status].label}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkflowSchedules;
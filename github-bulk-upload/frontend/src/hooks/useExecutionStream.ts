@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../store/store';
+import { applyStreamMessage, clearViewers } from '../store/executionSlice';
+import { executionService } from '../services/execution';
+
+// 连接断开后重连的间隔
+const RECONNECT_DELAY = 3000;
+
+// 订阅执行的实时推送并应用到 store，连接断开时自动重连；
+// 没有访问权限（如被移出执行）时不再重连
+export const useExecutionStream = (executionId?: string) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!executionId) {
+      return;
+    }
+
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      executionService.subscribeExecution(executionId, message => {
+        setIsConnected(true);
+        dispatch(applyStreamMessage(message));
+      }, controller.signal)
+        .then(() => true)
+        .catch(error => error?.status !== 401 && error?.status !== 403 && error?.status !== 404)
+        .then(shouldReconnect => {
+          setIsConnected(false);
+          dispatch(clearViewers());
+          if (shouldReconnect && !controller.signal.aborted) {
+            reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+          }
+        });
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(reconnectTimer);
+      dispatch(clearViewers());
+    };
+  }, [executionId, dispatch]);
+
+  return { isConnected };
+};
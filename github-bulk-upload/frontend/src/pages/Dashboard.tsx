@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import PendingApprovals from '../components/execution/PendingApprovals';
+import AssignedSteps from '../components/execution/AssignedSteps';
+import UpcomingDeadlines from '../components/execution/UpcomingDeadlines';
 
 interface DashboardStats {
   totalExecutions: number;
@@ -145,6 +148,17 @@ const Dashboard: React.FC = () => {
               </div>
             </div>
           </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* 待我审批 */}
+            <PendingApprovals />
+
+            {/* 逾期和即将到期 */}
+            <UpcomingDeadlines />
+
+            {/* 分配给我的步骤 */}
+            <AssignedSteps />
+          </div>
         </div>
       </div>
     </div>
@@ -8,6 +8,10 @@ import { logoutUser } from '../store/authSlice';
 import { Execution, ExecutionStatus } from '../types/execution';
 // import { Workflow } from '../types/workflow';
 import { ExecutionService } from '../services/execution';
+import { getDefaultParameterValues, parseParameterDefinitions } from '../utils/parameters';
+import { validateFormValues } from '../utils/formSchema';
+import StepForm from '../components/execution/StepForm';
+import BatchLaunchModal from '../components/execution/BatchLaunchModal';
 import toast from 'react-hot-toast';
 
 const ExecutionPage: React.FC = () => {
@@ -21,7 +25,19 @@ const ExecutionPage: React.FC = () => {
   
   const [selectedStatus, setSelectedStatus] = useState<ExecutionStatus | 'ALL'>('ALL');
   const [showStartModal, setShowStartModal] = useState(false);
+  const [showBatchModal, setShowBatchModal] = useState(false);
   const [selectedWorkflow, setSelectedWorkflow] = useState<string>('');
+  const [dueDate, setDueDate] = useState<string>('');
+  const [parameterValues, setParameterValues] = useState<Record<string, any>>({});
+  const [parameterErrors, setParameterErrors] = useState<Record<string, string>>({});
+
+  // 所选工作流声明的执行参数
+  const parameterDefinitions = parseParameterDefinitions(workflows.find(w => w.id === selectedWorkflow)?.metadata);
+
+  useEffect(() => {
+    setParameterValues(getDefaultParameterValues(parseParameterDefinitions(workflows.find(w => w.id === selectedWorkflow)?.metadata)));
+    setParameterErrors({});
+  }, [selectedWorkflow, workflows]);
 
   useEffect(() => {
     dispatch(fetchUserExecutions());
@@ -46,13 +62,28 @@ const ExecutionPage: React.FC = () => {
       return;
     }
 
+    if (dueDate && new Date(dueDate) <= new Date()) {
+      toast.error('截止日期不能是过去的时间');
+      return;
+    }
+
+    const errors = validateFormValues(parameterDefinitions, parameterValues);
+    setParameterErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      toast.error('请检查执行参数');
+      return;
+    }
+
     const result = await dispatch(startExecution({ 
       workflowId: selectedWorkflow,
-      title: `执行工作流 ${selectedWorkflow}`
+      dueDate: dueDate ? new Date(dueDate) : undefined,
+      parameters: parameterDefinitions.length > 0 ? parameterValues : undefined
     }));
     if (startExecution.fulfilled.match(result)) {
       setShowStartModal(false);
       setSelectedWorkflow('');
+      setDueDate('');
+      setParameterValues({});
       navigate(`/executions/${result.payload.id}`);
     }
   };
@@ -122,15 +153,23 @@ const ExecutionPage: React.FC = () => {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
         <div className="flex items-center justify-between mb-6">
           <h1 className="text-2xl font-bold text-gray-900">流程执行</h1>
-          <button
-            onClick={() => setShowStartModal(true)}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-          >
-            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-            </svg>
-            开始新执行
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowBatchModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              批量启动
+            </button>
+            <button
+              onClick={() => setShowStartModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+              </svg>
+              开始新执行
+            </button>
+          </div>
         </div>
 
         {/* 筛选器 */}
@@ -207,7 +246,7 @@ const ExecutionPage: React.FC = () => {
                 <div className="p-5">
                   <div className="flex items-center justify-between mb-3">
                     <h3 className="text-lg font-medium text-gray-900 truncate">
-                      {execution.workflow?.name}
+                      {execution.title || execution.workflow?.name}
                     </h3>
                     <span
                       className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${ExecutionService.getStatusColor(execution.status)}`}
@@ -258,12 +297,17 @@ const ExecutionPage: React.FC = () => {
                       {execution.status === ExecutionStatus.COMPLETED ? '查看详情' : '继续执行'}
                     </button>
                     
-                    <button
-                      onClick={() => handleDeleteExecution(execution as any)}
-                      className="text-red-600 hover:text-red-900 text-sm font-medium"
-                    >
-                      删除
-                    </button>
+                    {/* 参与的执行只有发起人可以删除 */}
+                    {execution.userId === user?.id ? (
+                      <button
+                        onClick={() => handleDeleteExecution(execution as any)}
+                        className="text-red-600 hover:text-red-900 text-sm font-medium"
+                      >
+                        删除
+                      </button>
+                    ) : (
+                      <span className="text-xs text-gray-500">参与的执行</span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -272,6 +316,18 @@ const ExecutionPage: React.FC = () => {
         )}
       </main>
 
+      {/* 批量启动模态框 */}
+      {showBatchModal && (
+        <BatchLaunchModal
+          workflows={activeWorkflows}
+          onClose={() => setShowBatchModal(false)}
+          onLaunched={(batch) => {
+            setShowBatchModal(false);
+            navigate(`/history?batchId=${batch.id}`);
+          }}
+        />
+      )}
+
       {/* 开始执行模态框 */}
       {showStartModal && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -307,6 +363,32 @@ const ExecutionPage: React.FC = () => {
                 </select>
               </div>
               
+              {parameterDefinitions.length > 0 && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    执行参数
+                  </label>
+                  <StepForm
+                    fields={parameterDefinitions}
+                    values={parameterValues}
+                    errors={parameterErrors}
+                    onChange={(key, value) => setParameterValues({ ...parameterValues, [key]: value })}
+                  />
+                </div>
+              )}
+
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  截止日期（可选）
+                </label>
+                <input
+                  type="datetime-local"
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                />
+              </div>
+              
               {selectedWorkflow && (
                 <div className="mb-4 p-3 bg-gray-50 rounded-md">
                   <p className="text-sm text-gray-600">
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
+import { useSearchParams } from 'react-router-dom';
 import { RootState, AppDispatch } from '../store/store';
 import { fetchHistory } from '../store/historySlice';
 import { HistoryList } from '../components/history/HistoryList';
@@ -7,24 +8,37 @@ import { HistoryFilters } from '../components/history/HistoryFilters';
 import { HistoryStats } from '../components/history/HistoryStats';
 import { ExecutionDetail } from '../components/history/ExecutionDetail';
 import { ExportDialog } from '../components/history/ExportDialog';
+import { BatchComparison } from '../components/history/BatchComparison';
+import { ChecklistStats } from '../components/history/ChecklistStats';
+import { ExecutionBatch, executionService } from '../services/execution';
 import LoadingSpinner from '../components/common/LoadingSpinner';
 
 const HistoryPage: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
+  const [searchParams] = useSearchParams();
   const { executions, loading, error, stats } = useSelector((state: RootState) => state.history);
   const [selectedExecution, setSelectedExecution] = useState<string | null>(null);
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [batches, setBatches] = useState<ExecutionBatch[]>([]);
   const [filters, setFilters] = useState({
     status: '',
     dateRange: '',
     workflow: '',
     user: '',
+    parameter: '',
+    params: {} as Record<string, string>,
+    // 批量启动后跳转过来时只看该批次
+    batchId: searchParams.get('batchId') || '',
   });
 
   useEffect(() => {
     dispatch(fetchHistory({ filters: filters as any }));
   }, [dispatch, filters]);
 
+  useEffect(() => {
+    executionService.getBatches().then(setBatches).catch(() => setBatches([]));
+  }, []);
+
   if (loading && executions.length === 0) {
     return <LoadingSpinner />;
   }
@@ -75,9 +89,20 @@ const HistoryPage: React.FC = () => {
             filters={filters}
             onFiltersChange={setFilters}
             loading={loading}
+            batches={batches}
           />
         </div>
 
+        {/* 批次对比 */}
+        {filters.batchId && (
+          <div className="mb-6 bg-white rounded-lg shadow">
+            <BatchComparison batchId={filters.batchId} onSelectExecution={setSelectedExecution} />
+          </div>
+        )}
+
+        {/* 检查清单完成率 */}
+        <ChecklistStats workflowId={filters.workflow} />
+
         {/* 主要内容区域 */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* 历史列表 */}
@@ -0,0 +1,307 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import toast from 'react-hot-toast';
+import { RootState } from '../store/store';
+import { workflowService } from '../services/workflow';
+import { WebhookEventType, WebhookSubscription, WebhookSubscriptionInput, webhookService } from '../services/webhook';
+import { Workflow } from '../types/workflow';
+import WebhookDeliveries from '../components/webhook/WebhookDeliveries';
+
+const emptyForm: WebhookSubscriptionInput = { name: '', url: '', eventTypes: [], workflowId: null, isGlobal: false };
+
+// 出站 Webhook：订阅执行、步骤和复盘事件推送到外部系统，查看投递记录并重放
+const WebhookSettings: React.FC = () => {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const isAdmin = ['ADMIN', 'SUPER_ADMIN'].includes(String(user?.role || '').toUpperCase());
+
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([]);
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<WebhookSubscriptionInput>(emptyForm);
+  // 创建订阅或重新生成后显示一次的签名密钥
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [openDeliveriesId, setOpenDeliveriesId] = useState<string | null>(null);
+  const [deliveriesKey, setDeliveriesKey] = useState(0);
+
+  const eventLabels: Record<string, string> = {
+    'webhook.test': '测试推送',
+    ...Object.fromEntries(eventTypes.map(eventType => [eventType.type, eventType.label]))
+  };
+
+  const loadSubscriptions = useCallback(async () => {
+    try {
+      setSubscriptions(await webhookService.getSubscriptions());
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '获取 Webhook 订阅失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSubscriptions();
+    webhookService.getEventTypes().then(setEventTypes).catch(() => setEventTypes([]));
+    workflowService.getUserWorkflows()
+      .then(response => setWorkflows((response as any).data.workflows || []))
+      .catch(() => setWorkflows([]));
+  }, [loadSubscriptions]);
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string): Promise<boolean> => {
+    try {
+      await action();
+      toast.success(successMessage);
+      await loadSubscriptions();
+      return true;
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '操作失败');
+      return false;
+    }
+  };
+
+  const toggleEventType = (type: string) => {
+    const selected = form.eventTypes || [];
+    setForm({
+      ...form,
+      eventTypes: selected.includes(type) ? selected.filter(value => value !== type) : [...selected, type]
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.eventTypes?.length) {
+      toast.error('至少选择一个事件类型');
+      return;
+    }
+
+    try {
+      const subscription = await webhookService.createSubscription({
+        ...form,
+        workflowId: form.workflowId || null
+      });
+      setRevealedSecret({ name: subscription.name, secret: subscription.secret || '' });
+      setForm(emptyForm);
+      setShowForm(false);
+      toast.success('Webhook 订阅已创建');
+      await loadSubscriptions();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '创建 Webhook 订阅失败');
+    }
+  };
+
+  const handleTest = async (subscription: WebhookSubscription) => {
+    try {
+      const delivery = await webhookService.testSubscription(subscription.id);
+      if (delivery.status === 'SUCCEEDED') {
+        toast.success(`测试推送成功（HTTP ${delivery.responseStatus}）`);
+      } else {
+        toast.error(delivery.error || '测试推送失败');
+      }
+      setDeliveriesKey(key => key + 1);
+      await loadSubscriptions();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '发送测试推送失败');
+    }
+  };
+
+  const handleRotateSecret = async (subscription: WebhookSubscription) => {
+    if (!window.confirm(`确定要重新生成"${subscription.name}"的签名密钥吗？旧密钥将立即失效。`)) {
+      return;
+    }
+
+    try {
+      const secret = await webhookService.rotateSecret(subscription.id);
+      setRevealedSecret({ name: subscription.name, secret });
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '重新生成签名密钥失败');
+    }
+  };
+
+  const handleDelete = (subscription: WebhookSubscription) => {
+    if (window.confirm(`确定要删除订阅"${subscription.name}"吗？投递记录将一并删除。`)) {
+      runAction(() => webhookService.deleteSubscription(subscription.id), '订阅已删除');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Webhook</h1>
+            <p className="mt-2 text-gray-600">
+              将你发起或参与的执行的事件推送到外部系统{isAdmin ? '，全局订阅接收所有执行的事件' : ''}
+            </p>
+          </div>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+          >
+            {showForm ? '取消' : '添加订阅'}
+          </button>
+        </div>
+
+        {revealedSecret && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm font-medium text-yellow-800">"{revealedSecret.name}" 的签名密钥只显示这一次，请妥善保存</p>
+                <p className="mt-2 font-mono text-sm text-gray-900 break-all">{revealedSecret.secret}</p>
+                <p className="mt-2 text-xs text-gray-600">
+                  接收方用该密钥计算 HMAC-SHA256(X-Webhook-Timestamp + "." + 请求体)，与 X-Webhook-Signature 中 sha256= 之后的值比对
+                </p>
+              </div>
+              <button onClick={() => setRevealedSecret(null)} className="text-sm text-yellow-800 hover:text-yellow-900">
+                关闭
+              </button>
+            </div>
+          </div>
+        )}
+
+        {showForm && (
+          <form onSubmit={handleCreate} className="mb-6 p-4 bg-white rounded-lg shadow grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="订阅名称，例如 交易系统"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <input
+              type="url"
+              required
+              value={form.url}
+              onChange={(e) => setForm({ ...form, url: e.target.value })}
+              placeholder="推送地址，例如 https://example.com/hooks"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <select
+              value={form.workflowId || ''}
+              onChange={(e) => setForm({ ...form, workflowId: e.target.value || null })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">所有工作流</option>
+              {workflows.map(workflow => (
+                <option key={workflow.id} value={workflow.id}>{workflow.name}</option>
+              ))}
+            </select>
+            {isAdmin && (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!form.isGlobal}
+                  onChange={(e) => setForm({ ...form, isGlobal: e.target.checked })}
+                  className="mr-2"
+                />
+                全局订阅（接收所有用户的执行事件）
+              </label>
+            )}
+            <div className="md:col-span-2">
+              <p className="text-sm font-medium text-gray-700 mb-2">事件类型</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {eventTypes.map(eventType => (
+                  <label key={eventType.type} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!!form.eventTypes?.includes(eventType.type)}
+                      onChange={() => toggleEventType(eventType.type)}
+                      className="mr-2"
+                    />
+                    {eventType.label}
+                    <span className="ml-1 text-xs text-gray-400 font-mono">{eventType.type}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="md:col-span-2 flex justify-end">
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md"
+              >
+                创建订阅
+              </button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : subscriptions.length === 0 ? (
+          <p className="text-sm text-gray-500">暂无 Webhook 订阅</p>
+        ) : (
+          <div className="space-y-4">
+            {subscriptions.map(subscription => (
+              <div key={subscription.id} className="bg-white rounded-lg shadow p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <h4 className="font-medium text-gray-900">{subscription.name}</h4>
+                      <span className={`px-2 py-0.5 rounded text-xs ${subscription.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                        {subscription.isActive ? '启用' : '已停用'}
+                      </span>
+                      {subscription.isGlobal && (
+                        <span className="px-2 py-0.5 rounded text-xs bg-indigo-100 text-indigo-800">全局</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1 font-mono break-all">{subscription.url}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {subscription.workflow ? `工作流：${subscription.workflow.name}` : '所有工作流'}
+                      {' · '}
+                      {subscription.eventTypes.map(type => eventLabels[type] || type).join('、')}
+                      {subscription.user && subscription.user.id !== user?.id ? ` · 创建人：${subscription.user.name}` : ''}
+                    </p>
+                    {subscription.lastDelivery && (
+                      <p className="text-xs text-gray-400 mt-1">
+                        最近投递：{new Date(subscription.lastDelivery.createdAt).toLocaleString('zh-CN')}
+                        {' · '}
+                        {subscription.lastDelivery.status === 'SUCCEEDED' ? '成功' : subscription.lastDelivery.status === 'FAILED' ? '失败' : '等待重试'}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex space-x-3 text-sm">
+                    <button onClick={() => handleTest(subscription)} className="text-indigo-600 hover:text-indigo-500">
+                      测试
+                    </button>
+                    <button
+                      onClick={() => setOpenDeliveriesId(openDeliveriesId === subscription.id ? null : subscription.id)}
+                      className="text-indigo-600 hover:text-indigo-500"
+                    >
+                      {openDeliveriesId === subscription.id ? '收起记录' : '投递记录'}
+                    </button>
+                    <button
+                      onClick={() => runAction(
+                        () => webhookService.updateSubscription(subscription.id, { isActive: !subscription.isActive }),
+                        subscription.isActive ? '订阅已停用' : '订阅已启用'
+                      )}
+                      className="text-indigo-600 hover:text-indigo-500"
+                    >
+                      {subscription.isActive ? '停用' : '启用'}
+                    </button>
+                    <button onClick={() => handleRotateSecret(subscription)} className="text-gray-600 hover:text-gray-500">
+                      重新生成密钥
+                    </button>
+                    <button onClick={() => handleDelete(subscription)} className="text-red-600 hover:text-red-500">
+                      删除
+                    </button>
+                  </div>
+                </div>
+
+                {openDeliveriesId === subscription.id && (
+                  <WebhookDeliveries
+                    subscriptionId={subscription.id}
+                    eventLabels={eventLabels}
+                    refreshKey={deliveriesKey}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WebhookSettings;
@@ -7,6 +7,8 @@ import { logoutUser } from '../store/authSlice';
 import { Workflow } from '../types/workflow';
 import WorkflowList from '../components/workflow/WorkflowList';
 import WorkflowBuilder from '../components/workflow/WorkflowBuilder';
+import WorkflowSchedules from '../components/workflow/WorkflowSchedules';
+import { parseParameterDefinitions } from '../utils/parameters';
 
 type ViewMode = 'list' | 'create' | 'edit' | 'view';
 
@@ -147,6 +149,13 @@ const WorkflowManagement: React.FC = () => {
                     ))}
                   </div>
                 </div>
+
+                <div className="mt-8">
+                  <WorkflowSchedules
+                    workflowId={selectedWorkflow!.id}
+                    parameters={parseParameterDefinitions(selectedWorkflow?.metadata)}
+                  />
+                </div>
               </div>
             </div>
           </div>
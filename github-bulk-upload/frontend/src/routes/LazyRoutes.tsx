@@ -9,6 +9,7 @@ export const ReviewPage = lazy(() => import('../pages/ReviewPage'));
 export const HistoryPage = lazy(() => import('../pages/HistoryPage'));
 export const WorkflowExecution = lazy(() => import('../pages/WorkflowExecution'));
 export const UserManagement = lazy(() => import('../pages/UserManagement'));
+export const WebhookSettings = lazy(() => import('../pages/WebhookSettings'));
 
 // 认证组件懒加载
 export const LoginForm = lazy(() => import('../components/auth/LoginForm'));
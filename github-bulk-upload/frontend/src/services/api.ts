@@ -68,6 +68,33 @@ class ApiService {
     const response = await this.api.delete<T>(url, config);
     return (response as any).data;
   }
+
+  // 流式GET请求（如 SSE），逐段回调收到的文本，直到服务端关闭连接或 signal 中止；
+  // EventSource 不能携带认证头，因此使用 fetch 读取响应流
+  async stream(url: string, onChunk: (chunk: string) => void, signal: AbortSignal): Promise<void> {
+    const token = localStorage.getItem('token');
+    const response = await fetch(`${API_BASE_URL}${url}`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const error: any = new Error(`Stream request failed with status ${response.status}`);
+      error.status = response.status;
+      throw error;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      onChunk(decoder.decode(value, { stream: true }));
+    }
+  }
 }
 
 export const apiService = new ApiService();
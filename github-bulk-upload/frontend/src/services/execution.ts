@@ -1,4 +1,18 @@
 import { apiService } from './api';
+import {
+  ApprovalDecision,
+  CalculationTrace,
+  DecisionCriterionResult,
+  AssignedStep,
+  PendingApproval,
+  PropertyInput,
+  SavedPropertyModel,
+  SavedValuation,
+  StepApprovalState,
+  StepChecklistState,
+  ValuationInput
+} from '../types/workflow';
+import { ExecutionStreamMessage, parseSseBuffer } from '../utils/executionStream';
 
 // 执行相关类型定义
 export interface Execution {
@@ -12,6 +26,8 @@ export interface Execution {
   tags: string[];
   progress: number;
   dueDate?: Date;
+  // 即将到期列表中标记已超过截止日期的执行
+  isOverdue?: boolean;
   startedAt?: Date;
   completedAt?: Date;
   pausedAt?: Date;
@@ -21,6 +37,74 @@ export interface Execution {
   updatedAt: Date;
   workflow?: any;
   records?: ExecutionRecord[];
+  // 启动时填写的工作流参数
+  parameters?: Array<{ key: string; value: string }>;
+  // 由子流程步骤启动时的父执行和父步骤
+  parentRecord?: {
+    id: string;
+    executionId: string;
+    step: { name: string; order: number };
+    execution: { workflow: { id: string; name: string } };
+  } | null;
+  // 执行发起人和参与者
+  user?: ExecutionMember;
+  participants?: ExecutionParticipant[];
+}
+
+export interface ExecutionMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
+// 执行参与者：VIEWER 只能查看，CONTRIBUTOR 可以处理步骤
+export type ParticipantRole = 'VIEWER' | 'CONTRIBUTOR';
+
+export interface ExecutionParticipant {
+  id: string;
+  executionId: string;
+  userId: string;
+  role: ParticipantRole;
+  user: ExecutionMember;
+  createdAt: string;
+}
+
+// 执行评论：recordId 为空时是针对整个执行的评论，回复在顶层评论的 replies 中；
+// 已删除的评论保留在讨论串中，body 为空
+export interface ExecutionComment {
+  id: string;
+  executionId: string;
+  recordId?: string | null;
+  parentId?: string | null;
+  stepName?: string | null;
+  body: string;
+  author: ExecutionMember;
+  mentions: Array<{ userId: string; user: ExecutionMember }>;
+  resolvedAt?: string | null;
+  resolvedBy?: ExecutionMember | null;
+  editedAt?: string | null;
+  deletedAt?: string | null;
+  revisionCount: number;
+  createdAt: string;
+  replies?: ExecutionComment[];
+}
+
+export interface ExecutionCommentRevision {
+  id: string;
+  commentId: string;
+  body: string;
+  editedBy: ExecutionMember;
+  createdAt: string;
+}
+
+// 子流程步骤启动的子执行概要
+export interface ChildExecutionSummary {
+  id: string;
+  status: ExecutionStatus;
+  progress: number;
+  startedAt?: Date;
+  completedAt?: Date;
+  workflow: { id: string; name: string };
 }
 
 export interface ExecutionRecord {
@@ -33,12 +117,57 @@ export interface ExecutionRecord {
   skippedAt?: Date;
   failedAt?: Date;
   notes?: string;
+  data?: any;
   result?: any;
   skipReason?: string;
   failureReason?: string;
   actualDuration?: number;
+  // 步骤时限：开始时计算的截止时间、检测到超时的时间和已升级的级别
+  dueAt?: Date | null;
+  overdueAt?: Date | null;
+  escalationLevel?: number;
+  // 被分配处理该步骤的成员，已分配的步骤只有被分配人和发起人可以处理
+  assigneeId?: string | null;
+  assignee?: ExecutionMember | null;
   createdAt: Date;
   updatedAt: Date;
+  step?: any;
+  childExecution?: ChildExecutionSummary | null;
+}
+
+// 步骤的历史版本：重新打开（或被上游步骤连带重置）前的状态和结果
+export interface StepRevision {
+  id: string;
+  recordId: string;
+  revision: number;
+  status: ExecutionRecordStatus;
+  notes?: string | null;
+  data?: any;
+  result?: any;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  actualTime?: number | null;
+  reason: string;
+  reopener: { id: string; name: string };
+  // 因上游步骤重新打开而被连带重置时为上游步骤记录ID
+  cascadeFromId?: string | null;
+  createdAt: string;
+}
+
+// 执行事件时间线中的一条记录：执行和步骤的每次修改，actor 为空表示系统自动处理
+export interface ExecutionEvent {
+  id: string;
+  executionId: string;
+  recordId?: string | null;
+  type: string;
+  // 状态转换的动作，如 start、reopen
+  action?: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  reason?: string | null;
+  actor?: { id: string; name: string } | null;
+  record?: { id: string; step: { name: string; order: number } } | null;
+  createdAt: string;
 }
 
 export enum ExecutionStatus {
@@ -65,13 +194,80 @@ export enum ExecutionRecordStatus {
   FAILED = 'FAILED'
 }
 
+export interface CompleteStepData {
+  notes?: string;
+  data?: any;
+  result?: any;
+}
+
 export interface CreateExecutionData {
   workflowId: string;
-  title: string;
+  title?: string;
   description?: string;
   priority?: ExecutionPriority;
   tags?: string[];
   dueDate?: Date;
+  // 工作流声明的执行参数的值
+  parameters?: Record<string, any>;
+}
+
+// 批量启动：rows 和 csv 二选一，优先级、标签和截止日期由批次内所有执行共用
+export interface CreateBatchData {
+  workflowId: string;
+  name: string;
+  rows?: Array<Record<string, any>>;
+  // 首行为参数名或参数标签的 CSV 文本
+  csv?: string;
+  priority?: ExecutionPriority;
+  tags?: string[];
+  dueDate?: Date;
+}
+
+// 批量启动时未通过校验的行，row 从 1 开始（CSV 中不含表头）
+export interface BatchRowError {
+  row: number;
+  errors: Array<{ field: string; label: string; message: string }>;
+}
+
+export interface ExecutionBatchSummary {
+  total: number;
+  byStatus: Record<string, number>;
+  completed: number;
+  finished: number;
+  averageProgress: number;
+}
+
+export interface ExecutionBatch {
+  id: string;
+  workflowId: string;
+  name: string;
+  priority: ExecutionPriority;
+  tags: string[];
+  createdAt: Date;
+  workflow?: { id: string; name: string };
+  summary: ExecutionBatchSummary;
+}
+
+// 批次详情：每个执行的参数、进度和各步骤状态，用于并排对比
+export interface ExecutionBatchDetail extends ExecutionBatch {
+  parameterKeys: string[];
+  steps: Array<{ id: string; name: string; order: number }>;
+  executions: Array<{
+    id: string;
+    title?: string | null;
+    status: ExecutionStatus;
+    progress: number;
+    startedAt?: Date;
+    completedAt?: Date | null;
+    dueDate?: Date | null;
+    parameters: Array<{ key: string; value: string }>;
+    executionRecords: Array<{
+      id: string;
+      status: ExecutionRecordStatus;
+      completedAt?: Date | null;
+      step: { id: string; name: string; order: number };
+    }>;
+  }>;
 }
 
 export interface ExecutionFilter {
@@ -99,7 +295,26 @@ export interface ExecutionStats {
 export class ExecutionService {
   // 创建执行记录
   async createExecution(data: CreateExecutionData): Promise<Execution> {
-    const response = await apiService.post<{ success: boolean; data: Execution }>('/executions', data);
+    const response = await apiService.post<{ success: boolean; data: { execution: Execution } }>('/executions', data);
+    return (response as any).data.execution;
+  }
+
+  // 按多组参数批量启动执行
+  async createBatch(data: CreateBatchData): Promise<ExecutionBatchDetail> {
+    const response = await apiService.post<{ success: boolean; data: ExecutionBatchDetail }>('/executions/batches', data);
+    return (response as any).data;
+  }
+
+  // 获取执行批次列表
+  async getBatches(workflowId?: string): Promise<ExecutionBatch[]> {
+    const params = workflowId ? `?workflowId=${workflowId}` : '';
+    const response = await apiService.get<{ success: boolean; data: ExecutionBatch[] }>(`/executions/batches${params}`);
+    return (response as any).data;
+  }
+
+  // 获取批次详情
+  async getBatch(batchId: string): Promise<ExecutionBatchDetail> {
+    const response = await apiService.get<{ success: boolean; data: ExecutionBatchDetail }>(`/executions/batches/${batchId}`);
     return (response as any).data;
   }
 
@@ -159,6 +374,12 @@ export class ExecutionService {
     return (response as any).data;
   }
 
+  // 获取前置步骤已完成、可并行开始的步骤
+  async getReadySteps(id: string): Promise<ExecutionRecord[]> {
+    const response = await apiService.get<{ success: boolean; data: ExecutionRecord[] }>(`/executions/${id}/ready-steps`);
+    return (response as any).data;
+  }
+
   // 获取下一个待执行步骤
   async getNextPendingStep(id: string): Promise<ExecutionRecord | null> {
     const response = await apiService.get<{ success: boolean; data: ExecutionRecord | null }>(`/executions/${id}/next-step`);
@@ -178,17 +399,188 @@ export class ExecutionService {
   }
 
   // 完成执行步骤
-  async completeStep(executionId: string, recordId: string, data: { notes?: string; result?: any }): Promise<ExecutionRecord> {
+  async completeStep(executionId: string, recordId: string, data: CompleteStepData): Promise<ExecutionRecord> {
     const response = await apiService.post<{ success: boolean; data: ExecutionRecord }>(`/executions/${executionId}/records/${recordId}/complete`, data);
     return (response as any).data;
   }
 
+  // 试算计算步骤（不保存），data 缺省时使用已保存的数据
+  async previewCalculations(executionId: string, recordId: string, data?: Record<string, any>): Promise<CalculationTrace[]> {
+    const response = await apiService.post<{ success: boolean; data: CalculationTrace[] }>(`/executions/${executionId}/records/${recordId}/calculate`, { data });
+    return (response as any).data;
+  }
+
+  // 保存估值模型并返回计算结果
+  async saveValuation(executionId: string, recordId: string, input: ValuationInput): Promise<SavedValuation> {
+    const response = await apiService.put<{ success: boolean; data: SavedValuation }>(`/executions/${executionId}/records/${recordId}/valuation`, input);
+    return (response as any).data;
+  }
+
+  // 保存房地产投资测算并返回计算结果
+  async savePropertyModel(executionId: string, recordId: string, input: PropertyInput): Promise<SavedPropertyModel> {
+    const response = await apiService.put<{ success: boolean; data: SavedPropertyModel }>(`/executions/${executionId}/records/${recordId}/property`, input);
+    return (response as any).data;
+  }
+
+  // 获取决策步骤的参考标准及当前评估结果
+  async getDecisionCriteria(executionId: string, recordId: string): Promise<DecisionCriterionResult[]> {
+    const response = await apiService.get<{ success: boolean; data: DecisionCriterionResult[] }>(`/executions/${executionId}/records/${recordId}/criteria`);
+    return (response as any).data;
+  }
+
+  // 获取审批步骤的审批情况
+  async getStepApprovals(executionId: string, recordId: string): Promise<StepApprovalState> {
+    const response = await apiService.get<{ success: boolean; data: StepApprovalState }>(`/executions/${executionId}/records/${recordId}/approvals`);
+    return (response as any).data;
+  }
+
+  // 提交审批意见，驳回时必须填写意见
+  async decideApproval(executionId: string, recordId: string, decision: ApprovalDecision, comment?: string): Promise<ExecutionRecord> {
+    const response = await apiService.post<{ success: boolean; data: ExecutionRecord }>(`/executions/${executionId}/records/${recordId}/approvals`, { decision, comment });
+    return (response as any).data;
+  }
+
+  // 获取检查清单步骤的逐项勾选情况
+  async getChecklist(executionId: string, recordId: string): Promise<StepChecklistState> {
+    const response = await apiService.get<{ success: boolean; data: StepChecklistState }>(`/executions/${executionId}/records/${recordId}/checklist`);
+    return (response as any).data;
+  }
+
+  // 勾选或取消勾选检查项，可附说明和证明材料
+  async updateChecklistItem(
+    executionId: string,
+    recordId: string,
+    data: { item: string; checked: boolean; note?: string | null; attachmentId?: string | null }
+  ): Promise<StepChecklistState> {
+    const response = await apiService.put<{ success: boolean; data: StepChecklistState }>(`/executions/${executionId}/records/${recordId}/checklist`, data);
+    return (response as any).data;
+  }
+
+  // 重发投递失败的通知步骤
+  async retryNotification(executionId: string, recordId: string): Promise<ExecutionRecord> {
+    const response = await apiService.post<{ success: boolean; data: ExecutionRecord }>(`/executions/${executionId}/records/${recordId}/notification/retry`);
+    return (response as any).data;
+  }
+
+  // 重新启动失败的子流程步骤
+  async retrySubworkflow(executionId: string, recordId: string): Promise<ExecutionRecord> {
+    const response = await apiService.post<{ success: boolean; data: ExecutionRecord }>(`/executions/${executionId}/records/${recordId}/subworkflow/retry`);
+    return (response as any).data;
+  }
+
+  // 修改执行的截止日期，传 null 清除
+  async updateDueDate(id: string, dueDate: string | null): Promise<Execution> {
+    const response = await apiService.put<{ success: boolean; data: { execution: Execution } }>(`/executions/${id}/due-date`, { dueDate });
+    return (response as any).data.execution;
+  }
+
+  // 获取待我审批的步骤
+  async getPendingApprovals(): Promise<PendingApproval[]> {
+    const response = await apiService.get<{ success: boolean; data: PendingApproval[] }>('/executions/approvals/pending');
+    return (response as any).data;
+  }
+
+  // 获取执行的发起人和参与者
+  async getParticipants(executionId: string): Promise<{ owner: ExecutionMember; participants: ExecutionParticipant[] }> {
+    const response = await apiService.get<{ success: boolean; data: { owner: ExecutionMember; participants: ExecutionParticipant[] } }>(`/executions/${executionId}/participants`);
+    return (response as any).data;
+  }
+
+  // 添加参与者或修改参与者角色，user 为用户ID或邮箱
+  async addParticipant(executionId: string, user: string, role: ParticipantRole): Promise<ExecutionParticipant> {
+    const response = await apiService.post<{ success: boolean; data: { participant: ExecutionParticipant } }>(`/executions/${executionId}/participants`, { user, role });
+    return (response as any).data.participant;
+  }
+
+  // 移除参与者，参与者移除自己即退出执行
+  async removeParticipant(executionId: string, userId: string): Promise<void> {
+    await apiService.delete(`/executions/${executionId}/participants/${userId}`);
+  }
+
+  // 分配步骤，assigneeId 为 null 时取消分配
+  async assignStep(executionId: string, recordId: string, assigneeId: string | null): Promise<ExecutionRecord> {
+    const response = await apiService.put<{ success: boolean; data: { record: ExecutionRecord } }>(`/executions/${executionId}/records/${recordId}/assignee`, { assigneeId });
+    return (response as any).data.record;
+  }
+
+  // 获取分配给我的未完成步骤
+  async getAssignedSteps(): Promise<AssignedStep[]> {
+    const response = await apiService.get<{ success: boolean; data: AssignedStep[] }>('/executions/assigned');
+    return (response as any).data;
+  }
+
+  // 获取执行的评论讨论串，指定 recordId 时只返回该步骤的评论
+  async getComments(executionId: string, recordId?: string): Promise<ExecutionComment[]> {
+    const params = recordId ? `?recordId=${recordId}` : '';
+    const response = await apiService.get<{ success: boolean; data: ExecutionComment[] }>(`/executions/${executionId}/comments${params}`);
+    return (response as any).data;
+  }
+
+  // 发表评论，parentId 为回复的顶层评论
+  async createComment(executionId: string, input: { body: string; recordId?: string; parentId?: string }): Promise<ExecutionComment> {
+    const response = await apiService.post<{ success: boolean; data: { comment: ExecutionComment } }>(`/executions/${executionId}/comments`, input);
+    return (response as any).data.comment;
+  }
+
+  async updateComment(executionId: string, commentId: string, body: string): Promise<ExecutionComment> {
+    const response = await apiService.put<{ success: boolean; data: { comment: ExecutionComment } }>(`/executions/${executionId}/comments/${commentId}`, { body });
+    return (response as any).data.comment;
+  }
+
+  async deleteComment(executionId: string, commentId: string): Promise<void> {
+    await apiService.delete(`/executions/${executionId}/comments/${commentId}`);
+  }
+
+  // 标记顶层评论为已解决或重新打开
+  async setCommentResolved(executionId: string, commentId: string, resolved: boolean): Promise<ExecutionComment> {
+    const action = resolved ? 'resolve' : 'unresolve';
+    const response = await apiService.post<{ success: boolean; data: { comment: ExecutionComment } }>(`/executions/${executionId}/comments/${commentId}/${action}`);
+    return (response as any).data.comment;
+  }
+
+  async getCommentRevisions(executionId: string, commentId: string): Promise<ExecutionCommentRevision[]> {
+    const response = await apiService.get<{ success: boolean; data: ExecutionCommentRevision[] }>(`/executions/${executionId}/comments/${commentId}/revisions`);
+    return (response as any).data;
+  }
+
+  // 订阅执行的实时推送，连接断开时返回，signal 中止时结束
+  async subscribeExecution(
+    executionId: string,
+    onMessage: (message: ExecutionStreamMessage) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    let buffer = '';
+    await apiService.stream(`/executions/${executionId}/stream`, chunk => {
+      const { messages, rest } = parseSseBuffer(buffer + chunk);
+      buffer = rest;
+      messages.forEach(onMessage);
+    }, signal);
+  }
+
   // 跳过执行步骤
   async skipStep(executionId: string, recordId: string, reason?: string): Promise<ExecutionRecord> {
     const response = await apiService.post<{ success: boolean; data: ExecutionRecord }>(`/executions/${executionId}/records/${recordId}/skip`, { reason });
     return (response as any).data;
   }
 
+  // 重新打开已完成或已跳过的步骤，cascade 为 true 时同时重置依赖它的后续步骤
+  async reopenStep(executionId: string, recordId: string, reason: string, cascade = false): Promise<ExecutionRecord> {
+    const response = await apiService.post<{ success: boolean; data: ExecutionRecord }>(`/executions/${executionId}/records/${recordId}/reopen`, { reason, cascade });
+    return (response as any).data;
+  }
+
+  // 获取步骤的历史版本，最近的在前
+  async getStepRevisions(executionId: string, recordId: string): Promise<StepRevision[]> {
+    const response = await apiService.get<{ success: boolean; data: StepRevision[] }>(`/executions/${executionId}/records/${recordId}/revisions`);
+    return (response as any).data;
+  }
+
+  // 获取执行的事件时间线，按发生顺序排列
+  async getExecutionTimeline(executionId: string): Promise<ExecutionEvent[]> {
+    const response = await apiService.get<{ success: boolean; data: ExecutionEvent[] }>(`/executions/${executionId}/timeline`);
+    return (response as any).data;
+  }
+
   // 标记步骤失败
   async failStep(executionId: string, recordId: string, reason?: string): Promise<ExecutionRecord> {
     const response = await apiService.post<{ success: boolean; data: ExecutionRecord }>(`/executions/${executionId}/records/${recordId}/fail`, { reason });
@@ -1,4 +1,5 @@
 import { api } from './api';
+import { ChecklistStepStats } from '../types/workflow';
 
 export interface HistorySearchFilters {
   workflowId?: string;
@@ -7,6 +8,10 @@ export interface HistorySearchFilters {
   endDate?: string;
   hasReview?: boolean;
   searchTerm?: string;
+  // 按执行参数筛选，如 { ticker: '00700.HK' }
+  params?: Record<string, string>;
+  // 只看某个执行批次
+  batchId?: string;
 }
 
 export interface PaginationOptions {
@@ -31,6 +36,9 @@ export interface HistoryStats {
     count: number;
   }>;
   statusDistribution: Record<string, number>;
+  // 超过截止日期仍未结束的执行、超过时限仍在进行中的步骤
+  overdueExecutions: number;
+  overdueSteps: number;
 }
 
 export interface ExecutionHistory {
@@ -60,6 +68,8 @@ export interface ExecutionHistory {
       isRequired: boolean;
     };
   }>;
+  // 批量启动时所属的批次
+  batch?: { id: string; name: string } | null;
   _count: {
     executionRecords: number;
   };
@@ -83,8 +93,10 @@ export const historyService = {
     filters: HistorySearchFilters = {},
     pagination: PaginationOptions = { page: 1, limit: 20 }
   ): Promise<HistoryResponse> {
+    const { params: parameterFilters, ...rest } = filters;
     const params = {
-      ...filters,
+      ...rest,
+      ...(parameterFilters && Object.keys(parameterFilters).length > 0 && { params: JSON.stringify(parameterFilters) }),
       ...pagination
     };
     
@@ -120,7 +132,15 @@ export const historyService = {
 
   // 获取历史统计
   async getHistoryStats(): Promise<HistoryStats> {
-    const response = await api.get('/history');
+    const response = await api.get('/history/stats');
+    return (response as any).data.stats;
+  },
+
+  // 获取各检查项在多次执行中的完成率
+  async getChecklistStats(
+    filters: { workflowId?: string; startDate?: string; endDate?: string } = {}
+  ): Promise<ChecklistStepStats[]> {
+    const response = await api.get('/history/checklists', { params: filters });
     return (response as any).data.stats;
   },
 
@@ -161,6 +181,7 @@ export const historyService = {
       includeSteps?: boolean;
       includeReviews?: boolean;
       includeAttachments?: boolean;
+      includeComments?: boolean;
       filters?: HistorySearchFilters;
     } = {}
   ): Promise<Blob> {
@@ -169,6 +190,7 @@ export const historyService = {
       includeSteps: options.includeSteps || false,
       includeReviews: options.includeReviews || false,
       includeAttachments: options.includeAttachments || false,
+      includeComments: options.includeComments || false,
       ...options.filters
     };
 
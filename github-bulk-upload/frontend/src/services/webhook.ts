@@ -0,0 +1,101 @@
+import { apiService } from './api';
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+export interface WebhookEventType {
+  type: string;
+  label: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  payload: Record<string, any> | null;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string | null;
+  lastAttemptAt?: string | null;
+  responseStatus?: number | null;
+  responseBody?: string | null;
+  error?: string | null;
+  replayOfId?: string | null;
+  createdAt: string;
+}
+
+export interface WebhookSubscription {
+  id: string;
+  userId: string;
+  name: string;
+  url: string;
+  eventTypes: string[];
+  workflowId?: string | null;
+  workflow?: { id: string; name: string } | null;
+  user?: { id: string; name: string; email: string };
+  isGlobal: boolean;
+  isActive: boolean;
+  lastDelivery?: WebhookDelivery | null;
+  // 只在创建时返回
+  secret?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookSubscriptionInput {
+  name?: string;
+  url?: string;
+  eventTypes?: string[];
+  workflowId?: string | null;
+  isGlobal?: boolean;
+  isActive?: boolean;
+}
+
+export const webhookService = {
+  async getEventTypes(): Promise<WebhookEventType[]> {
+    const response = await apiService.get<{ success: boolean; data: WebhookEventType[] }>('/webhooks/event-types');
+    return (response as any).data;
+  },
+
+  async getSubscriptions(): Promise<WebhookSubscription[]> {
+    const response = await apiService.get<{ success: boolean; data: WebhookSubscription[] }>('/webhooks');
+    return (response as any).data;
+  },
+
+  // 返回的订阅包含签名密钥，之后不再返回
+  async createSubscription(input: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    const response = await apiService.post<{ success: boolean; data: WebhookSubscription }>('/webhooks', input);
+    return (response as any).data;
+  },
+
+  async updateSubscription(id: string, input: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    const response = await apiService.put<{ success: boolean; data: WebhookSubscription }>(`/webhooks/${id}`, input);
+    return (response as any).data;
+  },
+
+  async deleteSubscription(id: string): Promise<void> {
+    await apiService.delete(`/webhooks/${id}`);
+  },
+
+  async rotateSecret(id: string): Promise<string> {
+    const response = await apiService.post<{ success: boolean; data: { secret: string } }>(`/webhooks/${id}/secret`);
+    return (response as any).data.secret;
+  },
+
+  // 发送测试推送并返回投递结果
+  async testSubscription(id: string): Promise<WebhookDelivery> {
+    const response = await apiService.post<{ success: boolean; data: WebhookDelivery }>(`/webhooks/${id}/test`);
+    return (response as any).data;
+  },
+
+  async getDeliveries(id: string, status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]> {
+    const params = status ? `?status=${status}` : '';
+    const response = await apiService.get<{ success: boolean; data: WebhookDelivery[] }>(`/webhooks/${id}/deliveries${params}`);
+    return (response as any).data;
+  },
+
+  async replayDelivery(deliveryId: string): Promise<WebhookDelivery> {
+    const response = await apiService.post<{ success: boolean; data: WebhookDelivery }>(`/webhooks/deliveries/${deliveryId}/replay`);
+    return (response as any).data;
+  }
+};
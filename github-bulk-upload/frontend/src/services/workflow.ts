@@ -1,5 +1,5 @@
 import { apiService } from './api';
-import { Workflow, CreateWorkflowData, UpdateWorkflowData, WorkflowStats } from '../types/workflow';
+import { Workflow, CreateWorkflowData, UpdateWorkflowData, WorkflowStats, WorkflowVersion, WorkflowVersionDiff, WorkflowTransferFormat, WorkflowImportOptions, WorkflowImportResult, WorkflowStep, WorkflowValidationResult, WorkflowSchedule, ScheduleInput, ScheduleOccurrence } from '../types/workflow';
 
 export class WorkflowService {
   // 获取用户的所有工作流
@@ -36,6 +36,85 @@ export class WorkflowService {
   async getWorkflowStats(id: string): Promise<{ success: boolean; data: { stats: WorkflowStats } }> {
     return apiService.get<{ success: boolean; data: { stats: WorkflowStats } }>(`/workflows/${id}/stats`);
   }
+
+  // 发布当前草稿为新版本
+  async publishWorkflow(id: string, changelog?: string): Promise<{ success: boolean; data: WorkflowVersion }> {
+    return apiService.post<{ success: boolean; data: WorkflowVersion }>(`/workflows/${id}/publish`, { changelog });
+  }
+
+  // 检查工作流定义，传入 steps 时检查编辑器中尚未保存的步骤
+  async validateWorkflow(id: string, steps?: Partial<WorkflowStep>[]): Promise<{ success: boolean; data: WorkflowValidationResult }> {
+    return apiService.post<{ success: boolean; data: WorkflowValidationResult }>(`/workflows/${id}/validate`, { steps });
+  }
+
+  // 获取工作流版本列表
+  async getWorkflowVersions(id: string): Promise<{ success: boolean; data: WorkflowVersion[] }> {
+    return apiService.get<{ success: boolean; data: WorkflowVersion[] }>(`/workflows/${id}/versions`);
+  }
+
+  // 获取指定版本详情
+  async getWorkflowVersion(id: string, version: number): Promise<{ success: boolean; data: WorkflowVersion }> {
+    return apiService.get<{ success: boolean; data: WorkflowVersion }>(`/workflows/${id}/versions/${version}`);
+  }
+
+  // 对比两个版本，to 缺省时与当前草稿对比
+  async diffWorkflowVersions(id: string, from: number, to: number | 'draft' = 'draft'): Promise<{ success: boolean; data: WorkflowVersionDiff }> {
+    return apiService.get<{ success: boolean; data: WorkflowVersionDiff }>(`/workflows/${id}/versions/diff?from=${from}&to=${to}`);
+  }
+
+  // 导出工作流文件，version 缺省时导出当前草稿
+  async exportWorkflow(id: string, format: WorkflowTransferFormat = 'json', version?: number): Promise<Blob> {
+    return apiService.get<Blob>(`/workflows/${id}/export`, {
+      params: { format, version },
+      responseType: 'blob'
+    });
+  }
+
+  // 导入工作流文件（.json / .yaml / .yml）
+  async importWorkflow(file: File, options: WorkflowImportOptions = {}): Promise<{ success: boolean; data: WorkflowImportResult }> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    return apiService.post<{ success: boolean; data: WorkflowImportResult }>('/workflows/import', formData, {
+      params: options,
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+  }
+
+  // 获取工作流的定期执行计划
+  async getSchedules(id: string): Promise<{ success: boolean; data: WorkflowSchedule[] }> {
+    return apiService.get<{ success: boolean; data: WorkflowSchedule[] }>(`/workflows/${id}/schedules`);
+  }
+
+  // 创建定期执行计划
+  async createSchedule(id: string, data: ScheduleInput): Promise<{ success: boolean; data: WorkflowSchedule }> {
+    return apiService.post<{ success: boolean; data: WorkflowSchedule }>(`/workflows/${id}/schedules`, data);
+  }
+
+  // 修改定期执行计划
+  async updateSchedule(id: string, scheduleId: string, data: ScheduleInput): Promise<{ success: boolean; data: WorkflowSchedule }> {
+    return apiService.put<{ success: boolean; data: WorkflowSchedule }>(`/workflows/${id}/schedules/${scheduleId}`, data);
+  }
+
+  // 暂停或恢复定期执行计划
+  async setScheduleActive(id: string, scheduleId: string, active: boolean): Promise<{ success: boolean; data: WorkflowSchedule }> {
+    return apiService.post<{ success: boolean; data: WorkflowSchedule }>(`/workflows/${id}/schedules/${scheduleId}/${active ? 'resume' : 'pause'}`);
+  }
+
+  // 跳过或取消跳过某次执行
+  async skipOccurrence(id: string, scheduleId: string, occurrence: string, skip = true): Promise<{ success: boolean; data: WorkflowSchedule }> {
+    return apiService.post<{ success: boolean; data: WorkflowSchedule }>(`/workflows/${id}/schedules/${scheduleId}/skip`, { occurrence, skip });
+  }
+
+  // 获取计划之后的执行时间
+  async getScheduleOccurrences(id: string, scheduleId: string, count = 10): Promise<{ success: boolean; data: ScheduleOccurrence[] }> {
+    return apiService.get<{ success: boolean; data: ScheduleOccurrence[] }>(`/workflows/${id}/schedules/${scheduleId}/occurrences?count=${count}`);
+  }
+
+  // 删除定期执行计划
+  async deleteSchedule(id: string, scheduleId: string): Promise<{ success: boolean; message: string }> {
+    return apiService.delete<{ success: boolean; message: string }>(`/workflows/${id}/schedules/${scheduleId}`);
+  }
 }
 
 export const workflowService = new WorkflowService();
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { executionService, Execution, ExecutionRecord, CreateExecutionData, ExecutionFilter, ExecutionStats } from '../services/execution';
+import { executionService, Execution, ExecutionRecord, CreateExecutionData, CompleteStepData, ExecutionFilter, ExecutionStats } from '../services/execution';
 import toast from 'react-hot-toast';
+import { ExecutionStreamMessage, StreamViewer } from '../utils/executionStream';
 
 // 执行状态接口
 export interface ExecutionState {
@@ -16,6 +17,13 @@ export interface ExecutionState {
     total: number;
     totalPages: number;
   } | null;
+  // 实时推送：正在查看当前执行的成员，以及评论、附件（按步骤）和参与者的变化次数，组件据此重新加载
+  viewers: StreamViewer[];
+  liveVersions: {
+    comments: number;
+    attachments: Record<string, number>;
+    participants: number;
+  };
 }
 
 // 异步thunk - 创建执行记录
@@ -95,15 +103,17 @@ export const startStep = createAsyncThunk(
 // 异步thunk - 完成执行步骤
 export const completeStep = createAsyncThunk(
   'execution/completeStep',
-  async ({ executionId, recordId, data }: { executionId: string; recordId: string; data: { notes?: string; result?: any } }, { rejectWithValue }) => {
+  async ({ executionId, recordId, data }: { executionId: string; recordId: string; data: CompleteStepData }, { rejectWithValue }) => {
     try {
       const record = await executionService.completeStep(executionId, recordId, data);
       toast.success('步骤完成成功！');
       return record;
     } catch (error: any) {
-      const message = error.response?.data?.error?.message || '完成执行步骤失败';
+      const apiError = error.response?.data?.error;
+      const message = apiError?.message || '完成执行步骤失败';
       toast.error(message);
-      return rejectWithValue(message);
+      // 带上错误码和详情，步骤界面据此显示未满足的要求
+      return rejectWithValue({ message, code: apiError?.code, details: apiError?.details });
     }
   }
 );
@@ -257,6 +267,12 @@ const initialState: ExecutionState = {
   isLoading: false,
   error: null,
   pagination: null,
+  viewers: [],
+  liveVersions: {
+    comments: 0,
+    attachments: {},
+    participants: 0,
+  },
 };
 
 // 执行slice
@@ -276,6 +292,53 @@ const executionSlice = createSlice({
     clearCurrentExecution: (state) => {
       state.currentExecution = null;
     },
+    // 应用当前执行的实时推送：步骤和执行的最新字段合并到 store，其余变化只增加计数
+    applyStreamMessage: (state, action: PayloadAction<ExecutionStreamMessage>) => {
+      const { type, executionId, recordId, data } = action.payload;
+      if (state.currentExecution?.id !== executionId) {
+        return;
+      }
+
+      switch (type) {
+        case 'step': {
+          const mergeRecord = (records?: ExecutionRecord[]) => {
+            const index = records?.findIndex(r => r.id === data.record.id) ?? -1;
+            if (records && index >= 0) {
+              records[index] = { ...records[index], ...data.record };
+            }
+          };
+          mergeRecord(state.executionRecords);
+          mergeRecord(state.currentExecution.records);
+          break;
+        }
+        case 'execution': {
+          state.currentExecution = { ...state.currentExecution, ...data.execution };
+          const index = state.executions.findIndex(exec => exec.id === executionId);
+          if (index >= 0) {
+            state.executions[index] = { ...state.executions[index], ...data.execution };
+          }
+          if ((data.events as string[]).some(event => event.startsWith('PARTICIPANT_'))) {
+            state.liveVersions.participants += 1;
+          }
+          break;
+        }
+        case 'comment':
+          state.liveVersions.comments += 1;
+          break;
+        case 'attachment':
+          if (recordId) {
+            state.liveVersions.attachments[recordId] = (state.liveVersions.attachments[recordId] || 0) + 1;
+          }
+          break;
+        case 'presence':
+          state.viewers = data.viewers;
+          break;
+      }
+    },
+    // 断开实时推送时清除在线成员
+    clearViewers: (state) => {
+      state.viewers = [];
+    },
   },
   extraReducers: (builder) => {
     // 创建执行记录
@@ -450,7 +513,7 @@ const executionSlice = createSlice({
   },
 });
 
-export const { clearError, setCurrentExecution, clearCurrentExecution } = executionSlice.actions;
+export const { clearError, setCurrentExecution, clearCurrentExecution, applyStreamMessage, clearViewers } = executionSlice.actions;
 
 // 别名导出以保持兼容性
 export const fetchExecution = fetchExecutionById;
@@ -130,6 +130,7 @@ export const exportExecutions = createAsyncThunk(
         includeSteps?: boolean;
         includeReviews?: boolean;
         includeAttachments?: boolean;
+        includeComments?: boolean;
         filters?: HistorySearchFilters;
       }
     }, 
@@ -5,6 +5,8 @@ export interface Execution {
   id: string;
   userId: string;
   workflowId: string;
+  // 按工作流参数生成的标题
+  title?: string | null;
   status: ExecutionStatus;
   startedAt: string;
   completedAt?: string;
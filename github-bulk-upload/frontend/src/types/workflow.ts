@@ -4,6 +4,9 @@ export interface Workflow {
   name: string;
   description?: string;
   isActive: boolean;
+  version?: number;
+  // parameters 为启动执行时填写的参数，titleTemplate 为执行标题模板
+  metadata?: Record<string, any>;
   createdAt: string;
   updatedAt: string;
   steps?: WorkflowStep[];
@@ -17,6 +20,11 @@ export interface WorkflowStep {
   order: number;
   isRequired: boolean;
   stepType: StepType;
+  // 预估时间（分钟），未单独配置时限时作为步骤时限
+  estimatedTime?: number | null;
+  // 依赖的步骤ID（或顺序号）和分支条件
+  dependencies?: string[] | string | null;
+  conditions?: Record<string, any> | string | null;
   metadata?: Record<string, any>;
   createdAt: string;
   updatedAt: string;
@@ -25,6 +33,7 @@ export interface WorkflowStep {
 export interface CreateWorkflowData {
   name: string;
   description?: string;
+  metadata?: Record<string, any>;
   steps: CreateWorkflowStepData[];
 }
 
@@ -41,6 +50,7 @@ export interface UpdateWorkflowData {
   name?: string;
   description?: string;
   isActive?: boolean;
+  metadata?: Record<string, any>;
   steps?: UpdateWorkflowStepData[];
 }
 
@@ -54,10 +64,453 @@ export interface UpdateWorkflowStepData {
   metadata?: Record<string, any>;
 }
 
+// 输入步骤的表单字段定义（存储在 metadata.fields 中）
+export type FormFieldType =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'currency'
+  | 'percentage'
+  | 'date'
+  | 'select'
+  | 'ticker';
+
+export interface FormField {
+  key: string;
+  label: string;
+  type: FormFieldType;
+  required?: boolean;
+  min?: number | string;
+  max?: number | string;
+  options?: string[];
+  currency?: string;
+  placeholder?: string;
+  helpText?: string;
+}
+
+// 工作流的执行参数（存储在工作流 metadata.parameters 中），定义与表单字段相同，可指定默认值
+export type ExecutionParameterDefinition = FormField & { default?: any };
+
+// 计算步骤的公式定义（存储在 metadata.calculations 中）
+export interface CalculationDefinition {
+  key: string;
+  label: string;
+  formula: string;
+  unit?: string;
+  precision?: number;
+}
+
+// 公式的计算过程
+export interface CalculationTrace {
+  key: string;
+  label: string;
+  formula: string;
+  value: number | null;
+  unit?: string;
+  inputs: Record<string, number>;
+  error?: string;
+}
+
+// 计算步骤的估值模型，比率使用小数（8% 为 0.08）
+export type ValuationMethod = 'dcf' | 'multiples';
+export type TerminalMethod = 'perpetuity' | 'exitMultiple';
+export type PeerMultiple = 'pe' | 'pb' | 'ps' | 'evEbitda';
+
+export interface ValuationConfig {
+  methods: ValuationMethod[];
+  required?: boolean;
+  defaults?: Partial<ValuationInput>;
+}
+
+export interface WaccInput {
+  riskFreeRate: number;
+  beta: number;
+  marketRiskPremium: number;
+  costOfDebt: number;
+  taxRate: number;
+  debtWeight: number;
+}
+
+export interface DcfInput {
+  baseCashFlow: number;
+  stages: { years: number; growth: number }[];
+  discountRate?: number;
+  wacc?: WaccInput;
+  terminalMethod: TerminalMethod;
+  terminalGrowth?: number;
+  exitMultiple?: number;
+  netDebt?: number;
+  sharesOutstanding?: number;
+}
+
+export interface PeerCompany {
+  name: string;
+  ticker?: string;
+  pe?: number;
+  pb?: number;
+  ps?: number;
+  evEbitda?: number;
+}
+
+export interface MultiplesInput {
+  peers: PeerCompany[];
+  metrics: {
+    eps?: number;
+    bvps?: number;
+    salesPerShare?: number;
+    ebitda?: number;
+  };
+  netDebt?: number;
+  sharesOutstanding?: number;
+}
+
+export interface ValuationInput {
+  currentPrice?: number;
+  dcf?: DcfInput;
+  multiples?: MultiplesInput;
+}
+
+export interface FairValueRange {
+  method: ValuationMethod;
+  label: string;
+  low: number;
+  base: number;
+  high: number;
+}
+
+export interface ValuationOutput {
+  dcf?: {
+    discountRate: number;
+    wacc?: { costOfEquity: number; afterTaxCostOfDebt: number; equityWeight: number; debtWeight: number; wacc: number };
+    projections: { year: number; growth: number; cashFlow: number; discountFactor: number; presentValue: number }[];
+    terminalValue: number;
+    terminalPresentValue: number;
+    enterpriseValue: number;
+    equityValue: number;
+    perShareValue: number;
+  };
+  sensitivity?: {
+    growthAxis: 'terminalGrowth' | 'stageGrowth';
+    discountRates: number[];
+    growthRates: number[];
+    values: (number | null)[][];
+  };
+  multiples?: {
+    multiple: PeerMultiple;
+    label: string;
+    peerCount: number;
+    low: number;
+    median: number;
+    mean: number;
+    high: number;
+    impliedLow: number;
+    impliedValue: number;
+    impliedHigh: number;
+  }[];
+  summary: {
+    low: number;
+    base: number;
+    high: number;
+    currentPrice?: number;
+    upside?: number;
+    ranges: FairValueRange[];
+  };
+}
+
+// 保存在执行记录 result.valuation 中的估值
+export interface SavedValuation {
+  input: ValuationInput;
+  output: ValuationOutput;
+  updatedAt: string;
+}
+
+// 计算步骤的房地产投资测算，比率使用小数
+export interface PropertyModelConfig {
+  required?: boolean;
+  defaults?: Partial<PropertyInput>;
+}
+
+export interface PropertyInput {
+  purchasePrice: number;
+  closingCosts?: number;
+  loan?: {
+    amount?: number;
+    ltv?: number;
+    interestRate: number;
+    amortizationYears: number;
+    interestOnlyYears?: number;
+  };
+  rentRoll: { unit: string; monthlyRent: number }[];
+  otherIncome?: number;
+  rentGrowth?: number;
+  vacancyRate?: number;
+  operatingExpenses: number;
+  expenseGrowth?: number;
+  capex?: number | number[];
+  holdingPeriod: number;
+  exitCapRate: number;
+  sellingCostRate?: number;
+  discountRate: number;
+}
+
+export interface PropertySummary {
+  irr: number | null;
+  unleveredIrr: number | null;
+  npv: number;
+  goingInCapRate: number;
+  exitCapRate: number;
+  minDscr: number | null;
+  averageCashOnCash: number;
+  equityMultiple: number;
+}
+
+export interface PropertyOutput {
+  equity: number;
+  loanAmount: number;
+  annualDebtService: number;
+  years: {
+    year: number;
+    grossPotentialRent: number;
+    vacancyLoss: number;
+    effectiveGrossIncome: number;
+    operatingExpenses: number;
+    noi: number;
+    capex: number;
+    debtService: number;
+    cashFlow: number;
+    capRate: number;
+    dscr: number | null;
+    cashOnCash: number;
+    loanBalance: number;
+  }[];
+  exit: {
+    salePrice: number;
+    sellingCosts: number;
+    loanBalance: number;
+    netProceeds: number;
+  };
+  cashFlows: number[];
+  summary: PropertySummary;
+}
+
+// 保存在执行记录 result.property 中的测算
+export interface SavedPropertyModel {
+  input: PropertyInput;
+  output: PropertyOutput;
+  updatedAt: string;
+}
+
+// 决策步骤参考标准的评估结果
+export interface DecisionCriterionResult {
+  label: string;
+  step: string;
+  field?: string;
+  operator: string;
+  value?: any;
+  actual?: any;
+  outcome: 'MATCHED' | 'UNMATCHED' | 'UNRESOLVED';
+}
+
+// 审批步骤的审批人和通过规则（metadata.approval）
+export interface ApprovalConfig {
+  approvers: {
+    users?: string[];
+    role?: string;
+  };
+  quorum: 'any' | 'all' | number;
+  // 驳回后退回的步骤顺序号
+  rejectTo?: number;
+  allowSelfApproval?: boolean;
+}
+
+export type ApprovalDecision = 'APPROVED' | 'REJECTED';
+
+export interface ApprovalTally {
+  status: 'PENDING' | ApprovalDecision;
+  approvals: number;
+  rejections: number;
+  required: number;
+  eligible: number;
+}
+
+export interface StepApproval {
+  id: string;
+  recordId: string;
+  approverId: string;
+  decision: ApprovalDecision;
+  comment?: string;
+  round: number;
+  createdAt: string;
+  approver: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+// 审批步骤的审批情况
+export interface StepApprovalState {
+  config: ApprovalConfig;
+  round: number;
+  tally: ApprovalTally;
+  approvers: { id: string; name: string; email: string }[];
+  approvals: StepApproval[];
+  canDecide: boolean;
+}
+
+// 待我审批的步骤
+export interface PendingApproval {
+  recordId: string;
+  executionId: string;
+  title: string;
+  stepName: string;
+  stepOrder: number;
+  workflow: { id: string; name: string };
+  requester: { id: string; name: string; email: string };
+  round: number;
+  submittedAt?: string;
+}
+
+// 分配给我的步骤（跨执行的待办队列）
+export interface AssignedStep {
+  recordId: string;
+  executionId: string;
+  title: string | null;
+  executionStatus: string;
+  stepName: string;
+  stepOrder: number;
+  stepType: string;
+  status: string;
+  dueAt?: string | null;
+  dueDate?: string | null;
+  workflow: { id: string; name: string };
+  owner: { id: string; name: string; email: string };
+}
+
+// 检查清单步骤（metadata.checklist / metadata.checklistRule）
+export type ChecklistRule = 'all' | 'required';
+
+export interface ChecklistItemState {
+  key: string;
+  label: string;
+  required: boolean;
+  checked: boolean;
+  note: string | null;
+  attachment: { id: string; originalName: string; fileType: string; fileSize: number } | null;
+  checkedAt: string | null;
+  checkedBy: { id: string; name: string } | null;
+}
+
+// 检查清单步骤的逐项勾选情况
+export interface StepChecklistState {
+  rule: ChecklistRule;
+  items: ChecklistItemState[];
+  progress: {
+    total: number;
+    checked: number;
+    percent: number;
+    // 按完成规则还需要勾选的项目
+    missing: { key: string; label: string; required: boolean }[];
+  };
+}
+
+// 各检查项在多次执行中的完成率
+export interface ChecklistStepStats {
+  workflowId: string;
+  workflowName: string;
+  stepName: string;
+  records: number;
+  items: {
+    key: string;
+    label: string;
+    required: boolean;
+    total: number;
+    checked: number;
+    completionRate: number;
+    withNote: number;
+    withAttachment: number;
+  }[];
+}
+
+export type NotificationChannel = 'slack' | 'discord' | 'email' | 'webhook';
+
+// 通知步骤的渠道和消息模板（metadata.notification）
+export interface NotificationConfig {
+  channels?: NotificationChannel[];
+  title?: string;
+  template: string;
+}
+
+// 保存在执行记录 result.notification 中的发送结果
+export interface NotificationResult {
+  title: string;
+  text: string;
+  missing: string[];
+  deliveries: {
+    channel: NotificationChannel;
+    status: 'SENT' | 'FAILED';
+    error?: string;
+    sentAt: string;
+  }[];
+  error?: string;
+}
+
+// 子流程步骤引用的工作流和数据映射（metadata.subworkflow）
+export interface SubworkflowConfig {
+  workflowId: string;
+  // 子执行变量名 -> 父执行数据路径
+  inputs?: Record<string, string>;
+  // 父步骤数据字段 -> 子执行数据路径
+  outputs?: Record<string, string>;
+}
+
+// 保存在执行记录 result.subworkflow 中的子执行信息
+export interface SubworkflowResult {
+  workflowId: string;
+  workflowName?: string;
+  executionId?: string;
+  startedAt?: string;
+  completedAt?: string;
+  missing?: string[];
+  // 子执行被取消或失败时的状态和原因
+  status?: string;
+  reason?: string | null;
+  error?: string;
+}
+
+// 步骤时限和超时升级（metadata.sla），未配置 minutes 时使用步骤的预估时间
+export interface SlaConfig {
+  minutes?: number;
+  // 超时后多少分钟升级通知管理角色，默认等于时限
+  escalateAfter?: number;
+  managerRole?: 'USER' | 'ADMIN' | 'SUPER_ADMIN';
+}
+
+// 完成步骤前必须提供的证明材料（metadata.evidence）
+// attachmentTypes 可以是扩展名（pdf）、MIME 类型（image/*）或附件分类（image、document、text）
+export interface EvidenceConfig {
+  minAttachments?: number;
+  attachmentTypes?: Array<string | { type: string; label?: string }>;
+  minNoteLength?: number;
+  requiredFields?: Array<string | { key: string; label?: string }>;
+}
+
+// 完成步骤时未满足的证明材料要求
+export interface UnmetEvidenceRule {
+  rule: 'minAttachments' | 'attachmentType' | 'minNoteLength' | 'requiredField';
+  message: string;
+  expected?: number | string;
+  actual?: number;
+}
+
 export enum StepType {
   CHECKLIST = 'CHECKLIST',
   INPUT = 'INPUT',
-  DECISION = 'DECISION'
+  DECISION = 'DECISION',
+  APPROVAL = 'APPROVAL',
+  CALCULATION = 'CALCULATION',
+  NOTIFICATION = 'NOTIFICATION',
+  SUBWORKFLOW = 'SUBWORKFLOW'
 }
 
 export interface WorkflowState {
@@ -70,4 +523,130 @@ export interface WorkflowState {
 export interface WorkflowStats {
   totalExecutions: number;
   statusBreakdown: Record<string, number>;
-}
\ No newline at end of file
+}
+
+// 已发布的工作流版本（不可修改）
+export interface WorkflowVersion {
+  id: string;
+  workflowId: string;
+  version: number;
+  name: string;
+  description?: string;
+  changelog?: string;
+  publishedBy: string;
+  createdAt: string;
+  steps?: WorkflowVersionStep[];
+  _count?: {
+    steps: number;
+    executions: number;
+  };
+}
+
+export interface WorkflowVersionStep extends Omit<WorkflowStep, 'workflowId' | 'updatedAt'> {
+  versionId: string;
+  sourceStepId?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface WorkflowVersionDiff {
+  from: number | 'draft';
+  to: number | 'draft';
+  workflow: FieldChange[];
+  steps: {
+    added: Array<{ key: string; name: string }>;
+    removed: Array<{ key: string; name: string }>;
+    modified: Array<{ key: string; name: string; changes: FieldChange[] }>;
+  };
+}
+
+// 工作流定义检查
+export interface WorkflowLintIssue {
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+  // 问题所在的步骤ID，未保存的步骤为 #位置
+  stepId?: string;
+  order?: number;
+}
+
+export interface WorkflowValidationResult {
+  valid: boolean;
+  errors: WorkflowLintIssue[];
+  warnings: WorkflowLintIssue[];
+}
+
+// 工作流导入导出
+export type WorkflowTransferFormat = 'json' | 'yaml';
+
+export interface ImportConflict {
+  type: 'NAME_CONFLICT';
+  message: string;
+  existingWorkflowId?: string;
+  resolution?: string;
+}
+
+export interface WorkflowImportOptions {
+  onConflict?: 'error' | 'rename';
+  dryRun?: boolean;
+}
+
+export interface WorkflowImportResult {
+  name: string;
+  dryRun: boolean;
+  conflicts: ImportConflict[];
+  stepCount: number;
+  workflow?: Workflow;
+}
+
+// 定期执行计划
+export type ScheduleRunStatus = 'PENDING' | 'CREATED' | 'SKIPPED' | 'FAILED';
+
+export interface ScheduleOccurrence {
+  scheduledFor: string;
+  skipped: boolean;
+}
+
+export interface ScheduleRun {
+  id: string;
+  scheduledFor: string;
+  status: ScheduleRunStatus;
+  executionId?: string | null;
+  error?: string | null;
+  createdAt: string;
+}
+
+export interface WorkflowSchedule {
+  id: string;
+  workflowId: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  tags: string[];
+  variables: Record<string, any>;
+  dueAfterHours?: number | null;
+  isActive: boolean;
+  nextRunAt?: string | null;
+  lastRunAt?: string | null;
+  skippedOccurrences: string[];
+  upcoming?: ScheduleOccurrence[];
+  runs?: ScheduleRun[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduleInput {
+  name?: string;
+  cron?: string;
+  timezone?: string;
+  priority?: WorkflowSchedule['priority'];
+  tags?: string[];
+  variables?: Record<string, any>;
+  dueAfterHours?: number | null;
+  isActive?: boolean;
+}
@@ -0,0 +1,45 @@
+import { ApprovalConfig, ApprovalDecision } from '../types/workflow';
+
+export const APPROVER_ROLE_LABELS: Record<string, string> = {
+  USER: '普通用户',
+  ADMIN: '管理员',
+  SUPER_ADMIN: '超级管理员',
+};
+
+export const APPROVAL_DECISION_LABELS: Record<ApprovalDecision, string> = {
+  APPROVED: '同意',
+  REJECTED: '驳回',
+};
+
+// 从步骤 metadata 中读取审批配置，未配置审批人时返回 null
+export const parseApprovalConfig = (metadata: unknown): ApprovalConfig | null => {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  const approval = parsed?.approval;
+  if (!approval || typeof approval !== 'object' || !approval.approvers) {
+    return null;
+  }
+
+  return {
+    approvers: {
+      users: Array.isArray(approval.approvers.users) ? approval.approvers.users : undefined,
+      role: approval.approvers.role,
+    },
+    quorum: approval.quorum ?? 'any',
+    rejectTo: approval.rejectTo,
+    allowSelfApproval: !!approval.allowSelfApproval,
+  };
+};
+
+export const formatQuorum = (quorum: ApprovalConfig['quorum']) => {
+  if (quorum === 'any') return '任一审批人同意';
+  if (quorum === 'all') return '全部审批人同意';
+  return `${quorum} 人同意`;
+};
@@ -0,0 +1,40 @@
+import { ChecklistRule } from '../types/workflow';
+
+export interface ChecklistItemConfig {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+// 从步骤 metadata 中读取检查清单，项目标识默认取标签；没有检查项时返回 null
+export const parseChecklistConfig = (metadata: unknown): { items: ChecklistItemConfig[]; rule: ChecklistRule } | null => {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!Array.isArray(parsed?.checklist)) {
+    return null;
+  }
+
+  const items: ChecklistItemConfig[] = [];
+  for (const raw of parsed.checklist) {
+    const label = typeof raw === 'string' ? raw.trim() : String(raw?.label ?? '').trim();
+    const key = typeof raw === 'string' ? label : String(raw?.key || label).trim();
+    if (!label || !key || items.some(item => item.key === key)) continue;
+    items.push({ key, label, required: typeof raw === 'object' && raw?.required === true });
+  }
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return {
+    items,
+    rule: parsed.checklistRule === 'all' ? 'all' : 'required',
+  };
+};
@@ -0,0 +1,51 @@
+import { EvidenceConfig, UnmetEvidenceRule } from '../types/workflow';
+
+// 从步骤 metadata 中读取证明材料要求，没有任何要求时返回 null
+export const parseEvidenceConfig = (metadata: unknown): EvidenceConfig | null => {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  const evidence = parsed?.evidence;
+  if (!evidence || typeof evidence !== 'object') {
+    return null;
+  }
+
+  const config: EvidenceConfig = {
+    minAttachments: evidence.minAttachments > 0 ? evidence.minAttachments : undefined,
+    attachmentTypes: Array.isArray(evidence.attachmentTypes) && evidence.attachmentTypes.length > 0 ? evidence.attachmentTypes : undefined,
+    minNoteLength: evidence.minNoteLength > 0 ? evidence.minNoteLength : undefined,
+    requiredFields: Array.isArray(evidence.requiredFields) && evidence.requiredFields.length > 0 ? evidence.requiredFields : undefined,
+  };
+
+  return Object.values(config).some(value => value !== undefined) ? config : null;
+};
+
+// 逐条列出要求，rule 与后端返回的未满足要求对应，便于标出哪些还没有满足
+export const describeEvidenceRules = (config: EvidenceConfig): Array<{ rule: UnmetEvidenceRule['rule']; expected?: number | string; text: string }> => {
+  const rules: Array<{ rule: UnmetEvidenceRule['rule']; expected?: number | string; text: string }> = [];
+
+  if (config.minAttachments) {
+    rules.push({ rule: 'minAttachments', expected: config.minAttachments, text: `至少上传 ${config.minAttachments} 个附件` });
+  }
+  for (const item of config.attachmentTypes || []) {
+    const type = typeof item === 'string' ? item : item.type;
+    const label = typeof item === 'string' ? item : item.label || item.type;
+    rules.push({ rule: 'attachmentType', expected: type.toLowerCase(), text: `上传${label}` });
+  }
+  if (config.minNoteLength) {
+    rules.push({ rule: 'minNoteLength', expected: config.minNoteLength, text: `步骤笔记至少 ${config.minNoteLength} 个字` });
+  }
+  for (const item of config.requiredFields || []) {
+    const key = typeof item === 'string' ? item : item.key;
+    const label = typeof item === 'string' ? item : item.label || item.key;
+    rules.push({ rule: 'requiredField', expected: key, text: `填写${label}` });
+  }
+
+  return rules;
+};
@@ -0,0 +1,91 @@
+import { ExecutionEvent, ExecutionRecordStatus, ExecutionService, ExecutionStatus } from '../services/execution';
+
+export const EVENT_TYPE_LABELS: Record<string, string> = {
+  EXECUTION_STARTED: '启动执行',
+  EXECUTION_UPDATED: '修改执行',
+  STATUS_CHANGED: '状态变更',
+  STEP_UPDATED: '修改步骤',
+  CHECKLIST_ITEM_UPDATED: '勾选检查项',
+  VALUATION_SAVED: '保存估值模型',
+  PROPERTY_MODEL_SAVED: '保存房地产测算',
+  APPROVAL_DECIDED: '提交审批意见',
+  REVIEW_ADDED: '添加复盘',
+  STEP_REVIEW_ADDED: '添加步骤复盘',
+  DUE_DATE_CHANGED: '修改截止日期',
+  STEP_ESCALATED: '超时升级',
+  PARTICIPANT_ADDED: '添加参与者',
+  PARTICIPANT_UPDATED: '修改参与者角色',
+  PARTICIPANT_REMOVED: '移除参与者',
+  STEP_ASSIGNED: '分配步骤'
+};
+
+// 状态转换动作，与后端状态转换表的动作对应
+export const TRANSITION_ACTION_LABELS: Record<string, string> = {
+  start: '开始',
+  retry: '重新启动',
+  complete: '完成',
+  skip: '跳过',
+  fail: '标记失败',
+  autoComplete: '自动完成',
+  autoFail: '自动标记失败',
+  autoSkip: '按条件跳过',
+  restore: '按条件恢复',
+  reopen: '重新打开',
+  reset: '恢复为待处理',
+  rewind: '退回',
+  pause: '暂停',
+  resume: '恢复',
+  cancel: '取消'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  notes: '笔记',
+  data: '步骤数据',
+  checked: '勾选',
+  note: '说明',
+  attachmentId: '证明材料',
+  reviewNotes: '复盘',
+  dueDate: '截止日期',
+  escalationLevel: '升级级别',
+  input: '输入',
+  summary: '汇总',
+  participant: '参与者',
+  role: '角色',
+  assignee: '被分配人'
+};
+
+// 事件标题：状态变更显示动作和起止状态，其余显示事件类型
+export const describeEvent = (event: ExecutionEvent): string => {
+  const label = EVENT_TYPE_LABELS[event.type] || event.type;
+  if (event.type !== 'STATUS_CHANGED') {
+    return label;
+  }
+
+  const statusText = (status: string) => event.recordId
+    ? ExecutionService.getStepStatusText(status as ExecutionRecordStatus)
+    : ExecutionService.getStatusText(status as ExecutionStatus);
+  const action = (event.action && TRANSITION_ACTION_LABELS[event.action]) || label;
+
+  return `${action}：${statusText(event.before?.status)} → ${statusText(event.after?.status)}`;
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '（空）';
+  if (typeof value === 'boolean') return value ? '是' : '否';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// 修改前后的字段（状态已显示在标题中），修改前没有值的字段只显示修改后的值
+export const listChanges = (event: ExecutionEvent): Array<{ field: string; before?: string; after: string }> => {
+  const after = event.after || {};
+  const before = event.before || {};
+
+  return Object.keys(after)
+    .filter(key => key !== 'status' && after[key] !== undefined)
+    .map(key => ({
+      field: FIELD_LABELS[key] || key,
+      before: key in before ? formatValue(before[key]) : undefined,
+      after: formatValue(after[key])
+    }));
+};
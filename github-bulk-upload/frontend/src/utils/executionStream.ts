@@ -0,0 +1,46 @@
+// 执行实时推送：执行页面通过 SSE 订阅执行的变化，步骤和执行的最新状态直接更新到 store，
+// 评论、附件和参与者的变化只推送通知，由对应组件重新加载；presence 为正在查看该执行的成员
+
+export type ExecutionStreamEventType = 'step' | 'execution' | 'comment' | 'attachment' | 'presence';
+
+export interface StreamViewer {
+  id: string;
+  name: string;
+}
+
+export interface ExecutionStreamMessage {
+  type: ExecutionStreamEventType;
+  executionId: string;
+  recordId?: string | null;
+  actorId?: string | null;
+  data: Record<string, any>;
+  at: string;
+}
+
+// 从接收到的文本中解析完整的 SSE 消息，未接收完整的部分作为 rest 留到下次解析；
+// 心跳等注释行和无法解析的消息被忽略
+export function parseSseBuffer(buffer: string): { messages: ExecutionStreamMessage[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() || '';
+  const messages: ExecutionStreamMessage[] = [];
+
+  for (const block of blocks) {
+    const data = block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+
+    if (!data) {
+      continue;
+    }
+
+    try {
+      messages.push(JSON.parse(data));
+    } catch {
+      continue;
+    }
+  }
+
+  return { messages, rest };
+}
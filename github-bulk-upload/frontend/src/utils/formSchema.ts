@@ -0,0 +1,106 @@
+import { FormField, FormFieldType } from '../types/workflow';
+
+// 表单字段类型及显示名称
+export const FORM_FIELD_TYPE_LABELS: Record<FormFieldType, string> = {
+  text: '单行文本',
+  textarea: '长文本',
+  number: '数字',
+  currency: '金额',
+  percentage: '百分比',
+  date: '日期',
+  select: '下拉选择',
+  ticker: '股票代码',
+};
+
+const NUMERIC_TYPES: FormFieldType[] = ['number', 'currency', 'percentage'];
+const TICKER_PATTERN = /^[A-Z0-9]{1,10}([.-][A-Z0-9]{1,4})?$/;
+
+// 从步骤 metadata 中读取表单字段定义，旧数据中的字符串字段按单行文本处理
+export const parseFormFields = (metadata: unknown): FormField[] => {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return [];
+    }
+  }
+
+  const fields = parsed?.fields;
+  if (!Array.isArray(fields)) {
+    return [];
+  }
+
+  return fields
+    .map((field: any): FormField | null => {
+      if (typeof field === 'string') {
+        return field.trim() ? { key: field, label: field, type: 'text' } : null;
+      }
+      if (!field?.key) {
+        return null;
+      }
+      return {
+        ...field,
+        label: field.label || field.key,
+        type: field.type in FORM_FIELD_TYPE_LABELS ? field.type : 'text',
+      };
+    })
+    .filter((field): field is FormField => field !== null);
+};
+
+// 校验表单数据，返回字段标识到错误信息的映射（规则与后端一致）
+export const validateFormValues = (fields: FormField[], values: Record<string, any>): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  fields.forEach(field => {
+    const value = values[field.key];
+    if (value === undefined || value === null || String(value).trim() === '') {
+      if (field.required) {
+        errors[field.key] = `"${field.label}" 是必填项`;
+      }
+      return;
+    }
+
+    if (NUMERIC_TYPES.includes(field.type)) {
+      const number = Number(String(value).replace(/[,\s%]/g, ''));
+      if (!Number.isFinite(number)) {
+        errors[field.key] = `"${field.label}" 必须是数字`;
+      } else if (field.min !== undefined && number < Number(field.min)) {
+        errors[field.key] = `"${field.label}" 不能小于 ${field.min}`;
+      } else if (field.max !== undefined && number > Number(field.max)) {
+        errors[field.key] = `"${field.label}" 不能大于 ${field.max}`;
+      }
+      return;
+    }
+
+    switch (field.type) {
+      case 'date':
+        if (Number.isNaN(Date.parse(String(value)))) {
+          errors[field.key] = `"${field.label}" 不是有效的日期`;
+        } else if (field.min !== undefined && String(value) < String(field.min)) {
+          errors[field.key] = `"${field.label}" 不能早于 ${field.min}`;
+        } else if (field.max !== undefined && String(value) > String(field.max)) {
+          errors[field.key] = `"${field.label}" 不能晚于 ${field.max}`;
+        }
+        break;
+      case 'select':
+        if (!(field.options || []).includes(String(value))) {
+          errors[field.key] = `"${field.label}" 必须是以下选项之一: ${(field.options || []).join('、')}`;
+        }
+        break;
+      case 'ticker':
+        if (!TICKER_PATTERN.test(String(value).trim().toUpperCase())) {
+          errors[field.key] = `"${field.label}" 不是有效的股票代码`;
+        }
+        break;
+      default:
+        if (field.min !== undefined && String(value).length < Number(field.min)) {
+          errors[field.key] = `"${field.label}" 至少需要 ${field.min} 个字符`;
+        } else if (field.max !== undefined && String(value).length > Number(field.max)) {
+          errors[field.key] = `"${field.label}" 不能超过 ${field.max} 个字符`;
+        }
+    }
+  });
+
+  return errors;
+};
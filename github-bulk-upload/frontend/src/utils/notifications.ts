@@ -0,0 +1,31 @@
+import { NotificationChannel, NotificationConfig } from '../types/workflow';
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  slack: 'Slack',
+  discord: 'Discord',
+  email: '邮件',
+  webhook: 'Webhook',
+};
+
+// 从步骤 metadata 中读取通知配置，未配置消息模板时返回 null
+export const parseNotificationConfig = (metadata: unknown): NotificationConfig | null => {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  const notification = parsed?.notification;
+  if (!notification || typeof notification.template !== 'string') {
+    return null;
+  }
+
+  return {
+    channels: Array.isArray(notification.channels) ? notification.channels : undefined,
+    title: notification.title,
+    template: notification.template,
+  };
+};
@@ -0,0 +1,25 @@
+import { ExecutionParameterDefinition } from '../types/workflow';
+import { parseFormFields } from './formSchema';
+
+// 从工作流 metadata 中读取执行参数定义
+export const parseParameterDefinitions = (metadata: unknown): ExecutionParameterDefinition[] => {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return [];
+    }
+  }
+
+  return parseFormFields({ fields: parsed?.parameters });
+};
+
+// 启动执行时参数的初始值（定义中的默认值）
+export const getDefaultParameterValues = (definitions: ExecutionParameterDefinition[]): Record<string, any> =>
+  definitions.reduce<Record<string, any>>((values, definition) => {
+    if (definition.default !== undefined) {
+      values[definition.key] = definition.default;
+    }
+    return values;
+  }, {});
@@ -0,0 +1,42 @@
+import { PropertyInput, PropertyModelConfig } from '../types/workflow';
+
+// 从步骤 metadata 中读取房地产测算配置，未启用时返回 null
+export const parsePropertyModelConfig = (metadata: unknown): PropertyModelConfig | null => {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  const propertyModel = parsed?.propertyModel;
+  if (!propertyModel) {
+    return null;
+  }
+
+  return propertyModel === true
+    ? {}
+    : { required: !!propertyModel.required, defaults: propertyModel.defaults };
+};
+
+export const DEFAULT_PROPERTY_INPUT: PropertyInput = {
+  purchasePrice: 0,
+  closingCosts: 0,
+  rentRoll: [{ unit: '', monthlyRent: 0 }],
+  otherIncome: 0,
+  rentGrowth: 0.02,
+  vacancyRate: 0.05,
+  operatingExpenses: 0,
+  expenseGrowth: 0.02,
+  capex: 0,
+  holdingPeriod: 10,
+  exitCapRate: 0.05,
+  sellingCostRate: 0.02,
+  discountRate: 0.08,
+};
+
+// 测算的初始输入：已保存的输入 > 步骤默认值 > 内置默认值
+export const buildInitialPropertyInput = (config: PropertyModelConfig, saved?: PropertyInput): PropertyInput =>
+  saved || { ...DEFAULT_PROPERTY_INPUT, ...config.defaults };
@@ -0,0 +1,39 @@
+import { SlaConfig } from '../types/workflow';
+
+// 超时升级级别
+export const ESCALATION_LABELS: Record<number, string> = {
+  1: '已提醒发起人',
+  2: '已升级至管理人员',
+};
+
+// 从步骤 metadata 中读取时限配置，未配置时返回 null
+export const parseSlaConfig = (metadata: unknown): SlaConfig | null => {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  const sla = parsed?.sla;
+  if (!sla || typeof sla !== 'object') {
+    return null;
+  }
+
+  return {
+    minutes: sla.minutes,
+    escalateAfter: sla.escalateAfter,
+    managerRole: sla.managerRole,
+  };
+};
+
+// 剩余或超出的时间，例如“剩余 1小时20分钟”“已超时 35分钟”
+export const formatDueIn = (dueAt: Date | string, now: Date = new Date()): string => {
+  const diff = Math.round((new Date(dueAt).getTime() - now.getTime()) / (60 * 1000));
+  const minutes = Math.abs(diff);
+  const hours = Math.floor(minutes / 60);
+  const text = hours > 0 ? `${hours}小时${minutes % 60 > 0 ? `${minutes % 60}分钟` : ''}` : `${minutes}分钟`;
+  return diff >= 0 ? `剩余 ${text}` : `已超时 ${text}`;
+};
@@ -0,0 +1,40 @@
+import { SubworkflowConfig } from '../types/workflow';
+
+// 从步骤 metadata 中读取子流程配置，未选择工作流时返回 null
+export const parseSubworkflowConfig = (metadata: unknown): SubworkflowConfig | null => {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  const subworkflow = parsed?.subworkflow;
+  if (!subworkflow || typeof subworkflow.workflowId !== 'string' || !subworkflow.workflowId) {
+    return null;
+  }
+
+  return {
+    workflowId: subworkflow.workflowId,
+    inputs: subworkflow.inputs,
+    outputs: subworkflow.outputs,
+  };
+};
+
+// 数据映射在编辑器中按“字段 = 路径”逐行显示
+export const formatMapping = (mapping?: Record<string, string>): string =>
+  Object.entries(mapping || {}).map(([key, path]) => `${key} = ${path}`).join('\n');
+
+export const parseMapping = (text: string): Record<string, string> | undefined => {
+  const mapping: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const [key, path] = line.split('=').map(part => part.trim());
+    if (key && path) {
+      mapping[key] = path;
+    }
+  }
+
+  return Object.keys(mapping).length > 0 ? mapping : undefined;
+};
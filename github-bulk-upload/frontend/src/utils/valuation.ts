@@ -0,0 +1,73 @@
+import { DcfInput, MultiplesInput, PeerMultiple, ValuationConfig, ValuationInput, ValuationMethod } from '../types/workflow';
+
+export const VALUATION_METHOD_LABELS: Record<ValuationMethod, string> = {
+  dcf: 'DCF估值',
+  multiples: '可比公司相对估值',
+};
+
+export const PEER_MULTIPLE_LABELS: Record<PeerMultiple, string> = {
+  pe: 'PE',
+  pb: 'PB',
+  ps: 'PS',
+  evEbitda: 'EV/EBITDA',
+};
+
+// 从步骤 metadata 中读取估值模型配置，未启用时返回 null
+export const parseValuationConfig = (metadata: unknown): ValuationConfig | null => {
+  let parsed: any = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+
+  const valuation = parsed?.valuation;
+  if (!valuation) {
+    return null;
+  }
+  if (valuation === true) {
+    return { methods: ['dcf', 'multiples'] };
+  }
+
+  return {
+    methods: Array.isArray(valuation.methods) && valuation.methods.length > 0 ? valuation.methods : ['dcf', 'multiples'],
+    required: !!valuation.required,
+    defaults: valuation.defaults,
+  };
+};
+
+export const DEFAULT_DCF_INPUT: DcfInput = {
+  baseCashFlow: 0,
+  stages: [{ years: 5, growth: 0.1 }, { years: 5, growth: 0.05 }],
+  discountRate: 0.1,
+  terminalMethod: 'perpetuity',
+  terminalGrowth: 0.03,
+  netDebt: 0,
+  sharesOutstanding: 1,
+};
+
+export const DEFAULT_MULTIPLES_INPUT: MultiplesInput = {
+  peers: [{ name: '' }],
+  metrics: {},
+};
+
+// 按启用的方法生成估值模型的初始输入：已保存的输入 > 步骤默认值 > 内置默认值
+export const buildInitialValuationInput = (config: ValuationConfig, saved?: ValuationInput): ValuationInput => {
+  if (saved) {
+    return saved;
+  }
+
+  const defaults = config.defaults || {};
+  return {
+    currentPrice: defaults.currentPrice,
+    ...(config.methods.includes('dcf') ? { dcf: { ...DEFAULT_DCF_INPUT, ...defaults.dcf } } : {}),
+    ...(config.methods.includes('multiples') ? { multiples: { ...DEFAULT_MULTIPLES_INPUT, ...defaults.multiples } } : {}),
+  };
+};
+
+export const formatPercent = (value: number, digits = 1) => `${(value * 100).toFixed(digits)}%`;
+
+export const formatAmount = (value: number) =>
+  value.toLocaleString('zh-CN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });